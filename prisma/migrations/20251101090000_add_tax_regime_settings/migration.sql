@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "public"."TaxMode" ADD VALUE 'REGIME';
+
+-- CreateEnum
+CREATE TYPE "public"."TaxRegime" AS ENUM ('OLD', 'NEW');
+
+-- AlterTable
+ALTER TABLE "public"."tax_settings" ADD COLUMN     "basicSalary" DECIMAL(12,2),
+ADD COLUMN     "hraReceived" DECIMAL(12,2),
+ADD COLUMN     "isMetroCity" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "otherDeductions" DECIMAL(12,2),
+ADD COLUMN     "regime" "public"."TaxRegime" NOT NULL DEFAULT 'NEW',
+ADD COLUMN     "rentPaid" DECIMAL(12,2),
+ADD COLUMN     "section80C" DECIMAL(12,2),
+ADD COLUMN     "section80CCD1B" DECIMAL(12,2),
+ADD COLUMN     "section80D" DECIMAL(12,2);
@@ -0,0 +1,49 @@
+-- AlterEnum
+ALTER TYPE "public"."TransactionType" ADD VALUE 'SELL';
+
+-- CreateEnum
+CREATE TYPE "public"."CapitalGainTerm" AS ENUM ('SHORT_TERM', 'LONG_TERM', 'VDA');
+
+-- AlterTable
+ALTER TABLE "public"."holdings" ADD COLUMN     "fmvJan2018" DECIMAL(18,10);
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "costBasis" DECIMAL(18,10),
+ADD COLUMN     "realizedGain" DECIMAL(18,10);
+
+-- CreateTable
+CREATE TABLE "public"."capital_gain_lots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sellTransactionId" TEXT NOT NULL,
+    "buyTransactionId" TEXT,
+    "bucket" "public"."InvestBucket" NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "qty" DECIMAL(20,10) NOT NULL,
+    "acquiredOn" TIMESTAMP(3) NOT NULL,
+    "soldOn" TIMESTAMP(3) NOT NULL,
+    "financialYear" INTEGER NOT NULL,
+    "costOfAcquisition" DECIMAL(18,2) NOT NULL,
+    "fmvJan2018" DECIMAL(18,2),
+    "costForTax" DECIMAL(18,2) NOT NULL,
+    "saleValue" DECIMAL(18,2) NOT NULL,
+    "gain" DECIMAL(18,2) NOT NULL,
+    "term" "public"."CapitalGainTerm" NOT NULL,
+    "holdingDays" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "capital_gain_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "capital_gain_lots_userId_financialYear_idx" ON "public"."capital_gain_lots"("userId", "financialYear");
+
+-- CreateIndex
+CREATE INDEX "capital_gain_lots_buyTransactionId_idx" ON "public"."capital_gain_lots"("buyTransactionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."capital_gain_lots" ADD CONSTRAINT "capital_gain_lots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."capital_gain_lots" ADD CONSTRAINT "capital_gain_lots_sellTransactionId_fkey" FOREIGN KEY ("sellTransactionId") REFERENCES "public"."transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
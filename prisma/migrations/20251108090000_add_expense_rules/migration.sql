@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."expense_rules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "pattern" TEXT,
+    "minAmount" DECIMAL(12,2),
+    "maxAmount" DECIMAL(12,2),
+    "paymentMethod" "public"."PaymentMethod",
+    "creditCardId" TEXT,
+    "expenseType" "public"."ExpenseType",
+    "category" "public"."SpendCategory",
+    "tags" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expense_rules_userId_priority_idx" ON "public"."expense_rules"("userId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "public"."expense_rules" ADD CONSTRAINT "expense_rules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expense_rules" ADD CONSTRAINT "expense_rules_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurringKind" AS ENUM ('EXPENSE', 'INCOME');
+
+-- AlterTable
+ALTER TABLE "public"."expenses" ADD COLUMN     "recurringTemplateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."incomes" ADD COLUMN     "recurringTemplateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."recurring_templates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" "public"."RecurringKind" NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "frequency" "public"."SIPFrequency" NOT NULL,
+    "customDay" INTEGER,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "pausedUntil" TIMESTAMP(3),
+    "nextRunDate" TIMESTAMP(3),
+    "expenseType" "public"."ExpenseType",
+    "category" "public"."SpendCategory",
+    "paymentMethod" "public"."PaymentMethod",
+    "creditCardId" TEXT,
+    "tags" TEXT[],
+    "incomeCategory" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."recurring_amount_changes" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recurring_amount_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recurring_templates_isActive_nextRunDate_idx" ON "public"."recurring_templates"("isActive", "nextRunDate");
+
+-- CreateIndex
+CREATE INDEX "recurring_templates_userId_idx" ON "public"."recurring_templates"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurring_amount_changes_templateId_effectiveFrom_key" ON "public"."recurring_amount_changes"("templateId", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expenses_recurringTemplateId_date_key" ON "public"."expenses"("recurringTemplateId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "incomes_recurringTemplateId_date_key" ON "public"."incomes"("recurringTemplateId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."incomes" ADD CONSTRAINT "incomes_recurringTemplateId_fkey" FOREIGN KEY ("recurringTemplateId") REFERENCES "public"."recurring_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."expenses" ADD CONSTRAINT "expenses_recurringTemplateId_fkey" FOREIGN KEY ("recurringTemplateId") REFERENCES "public"."recurring_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recurring_templates" ADD CONSTRAINT "recurring_templates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recurring_templates" ADD CONSTRAINT "recurring_templates_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recurring_amount_changes" ADD CONSTRAINT "recurring_amount_changes_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "public"."recurring_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
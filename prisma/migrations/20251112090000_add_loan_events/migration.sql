@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."LoanEventType" AS ENUM ('PREPAYMENT', 'RATE_CHANGE');
+
+-- CreateEnum
+CREATE TYPE "public"."LoanAdjustmentStrategy" AS ENUM ('REDUCE_EMI', 'REDUCE_TENURE');
+
+-- CreateTable
+CREATE TABLE "public"."loan_events" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "type" "public"."LoanEventType" NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2),
+    "interestRate" DECIMAL(5,2),
+    "strategy" "public"."LoanAdjustmentStrategy" NOT NULL DEFAULT 'REDUCE_TENURE',
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "loan_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "loan_events_loanId_effectiveDate_idx" ON "public"."loan_events"("loanId", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."loan_events" ADD CONSTRAINT "loan_events_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "public"."loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
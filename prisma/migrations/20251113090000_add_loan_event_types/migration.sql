@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "public"."LoanEventType" ADD VALUE 'TENURE_CHANGE';
+ALTER TYPE "public"."LoanEventType" ADD VALUE 'EMI_CHANGE';
+
+-- AlterTable
+ALTER TABLE "public"."loan_events" ADD COLUMN     "emiAmount" DECIMAL(12,2),
+ADD COLUMN     "paymentMethod" "public"."PaymentMethod",
+ADD COLUMN     "tenure" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "originalEmiAmount" DECIMAL(12,2),
+ADD COLUMN     "originalInstallments" INTEGER,
+ADD COLUMN     "originalInterestRate" DECIMAL(5,2);
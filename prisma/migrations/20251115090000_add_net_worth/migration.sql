@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."ManualAssetType" AS ENUM ('REAL_ESTATE', 'GOLD', 'EPF', 'PPF', 'FIXED_DEPOSIT', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."manual_assets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."ManualAssetType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "value" DECIMAL(14,2) NOT NULL,
+    "valuationDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "manual_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."net_worth_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "holdings" DECIMAL(14,2) NOT NULL,
+    "emergencyFund" DECIMAL(14,2) NOT NULL,
+    "manualAssets" DECIMAL(14,2) NOT NULL,
+    "moneyLent" DECIMAL(14,2) NOT NULL,
+    "totalAssets" DECIMAL(14,2) NOT NULL,
+    "loans" DECIMAL(14,2) NOT NULL,
+    "borrowedFunds" DECIMAL(14,2) NOT NULL,
+    "creditCardDues" DECIMAL(14,2) NOT NULL,
+    "moneyOwed" DECIMAL(14,2) NOT NULL,
+    "totalLiabilities" DECIMAL(14,2) NOT NULL,
+    "netWorth" DECIMAL(14,2) NOT NULL,
+    "manualAssetsData" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "net_worth_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "manual_assets_userId_idx" ON "public"."manual_assets"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "net_worth_snapshots_userId_date_key" ON "public"."net_worth_snapshots"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."manual_assets" ADD CONSTRAINT "manual_assets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."net_worth_snapshots" ADD CONSTRAINT "net_worth_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
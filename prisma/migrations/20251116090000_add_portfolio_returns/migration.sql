@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."monthly_snapshots" ADD COLUMN     "overallPortfolioTwr" DECIMAL(9,2),
+ADD COLUMN     "overallPortfolioXirr" DECIMAL(9,2);
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."price_history" (
+    "id" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "bucket" "public"."InvestBucket" NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'INR',
+    "date" TIMESTAMP(3) NOT NULL,
+    "price" DECIMAL(18,10) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_history_bucket_symbol_currency_date_key" ON "public"."price_history"("bucket", "symbol", "currency", "date");
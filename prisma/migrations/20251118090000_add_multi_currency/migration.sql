@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "baseCurrency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."incomes" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."expenses" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."borrowed_funds" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."recurring_templates" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."net_worth_snapshots" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."monthly_snapshots" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "public"."holdings" RENAME COLUMN "usdInrRate" TO "inrRate";
+
+-- AlterTable
+ALTER TABLE "public"."transactions" RENAME COLUMN "usdInrRate" TO "inrRate";
+
+-- AlterTable
+ALTER TABLE "public"."sip_executions" RENAME COLUMN "usdInrRate" TO "inrRate";
+
+-- CreateTable
+CREATE TABLE "public"."exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "rate" DECIMAL(18,10) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_date_key" ON "public"."exchange_rates"("currency", "date");
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "public"."CardStatementStatus" AS ENUM ('OPEN', 'BILLED', 'PARTIALLY_PAID', 'PAID', 'OVERDUE');
+
+-- CreateTable
+CREATE TABLE "public"."card_statements" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creditCardId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "spend" DECIMAL(12,2) NOT NULL,
+    "previousBalance" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "interest" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "lateFee" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "totalDue" DECIMAL(12,2) NOT NULL,
+    "minimumDue" DECIMAL(12,2) NOT NULL,
+    "paidAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "status" "public"."CardStatementStatus" NOT NULL DEFAULT 'OPEN',
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "card_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."card_payments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creditCardId" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "paidOn" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "card_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "card_statements_creditCardId_periodEnd_key" ON "public"."card_statements"("creditCardId", "periodEnd");
+
+-- CreateIndex
+CREATE INDEX "card_statements_userId_idx" ON "public"."card_statements"("userId");
+
+-- CreateIndex
+CREATE INDEX "card_payments_statementId_idx" ON "public"."card_payments"("statementId");
+
+-- AddForeignKey
+ALTER TABLE "public"."card_statements" ADD CONSTRAINT "card_statements_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_statements" ADD CONSTRAINT "card_statements_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_payments" ADD CONSTRAINT "card_payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_payments" ADD CONSTRAINT "card_payments_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_payments" ADD CONSTRAINT "card_payments_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "public"."card_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,121 @@
+-- CreateEnum
+CREATE TYPE "public"."CardRewardType" AS ENUM ('POINTS', 'CASHBACK');
+
+-- CreateEnum
+CREATE TYPE "public"."CardMilestonePeriod" AS ENUM ('CYCLE', 'YEAR');
+
+-- CreateTable
+CREATE TABLE "public"."card_reward_programs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creditCardId" TEXT NOT NULL,
+    "rewardType" "public"."CardRewardType" NOT NULL DEFAULT 'POINTS',
+    "spendUnit" DECIMAL(12,2) NOT NULL,
+    "pointsPerUnit" DECIMAL(10,4) NOT NULL,
+    "pointValue" DECIMAL(10,4) NOT NULL DEFAULT 1,
+    "monthlyCap" DECIMAL(12,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "card_reward_programs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."card_reward_multipliers" (
+    "id" TEXT NOT NULL,
+    "programId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "multiplier" DECIMAL(6,2) NOT NULL,
+    "monthlyCap" DECIMAL(12,2),
+
+    CONSTRAINT "card_reward_multipliers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."card_reward_milestones" (
+    "id" TEXT NOT NULL,
+    "programId" TEXT NOT NULL,
+    "period" "public"."CardMilestonePeriod" NOT NULL DEFAULT 'YEAR',
+    "spendThreshold" DECIMAL(12,2) NOT NULL,
+    "bonusPoints" DECIMAL(12,2) NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "card_reward_milestones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."card_reward_accruals" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creditCardId" TEXT NOT NULL,
+    "statementId" TEXT NOT NULL,
+    "spend" DECIMAL(12,2) NOT NULL,
+    "spendPoints" DECIMAL(12,2) NOT NULL,
+    "cappedPoints" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "milestonePoints" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "points" DECIMAL(12,2) NOT NULL,
+    "value" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "card_reward_accruals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."card_reward_redemptions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "creditCardId" TEXT NOT NULL,
+    "points" DECIMAL(12,2) NOT NULL,
+    "value" DECIMAL(12,2) NOT NULL,
+    "redeemedOn" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "card_reward_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "card_reward_programs_creditCardId_key" ON "public"."card_reward_programs"("creditCardId");
+
+-- CreateIndex
+CREATE INDEX "card_reward_programs_userId_idx" ON "public"."card_reward_programs"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "card_reward_multipliers_programId_category_key" ON "public"."card_reward_multipliers"("programId", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "card_reward_accruals_statementId_key" ON "public"."card_reward_accruals"("statementId");
+
+-- CreateIndex
+CREATE INDEX "card_reward_accruals_userId_idx" ON "public"."card_reward_accruals"("userId");
+
+-- CreateIndex
+CREATE INDEX "card_reward_redemptions_creditCardId_idx" ON "public"."card_reward_redemptions"("creditCardId");
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_programs" ADD CONSTRAINT "card_reward_programs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_programs" ADD CONSTRAINT "card_reward_programs_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_multipliers" ADD CONSTRAINT "card_reward_multipliers_programId_fkey" FOREIGN KEY ("programId") REFERENCES "public"."card_reward_programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_milestones" ADD CONSTRAINT "card_reward_milestones_programId_fkey" FOREIGN KEY ("programId") REFERENCES "public"."card_reward_programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_accruals" ADD CONSTRAINT "card_reward_accruals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_accruals" ADD CONSTRAINT "card_reward_accruals_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_accruals" ADD CONSTRAINT "card_reward_accruals_statementId_fkey" FOREIGN KEY ("statementId") REFERENCES "public"."card_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_redemptions" ADD CONSTRAINT "card_reward_redemptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."card_reward_redemptions" ADD CONSTRAINT "card_reward_redemptions_creditCardId_fkey" FOREIGN KEY ("creditCardId") REFERENCES "public"."credit_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "public"."GoalCategory" AS ENUM ('HOUSE', 'EDUCATION', 'RETIREMENT', 'VEHICLE', 'WEDDING', 'TRAVEL', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."GoalPriority" AS ENUM ('HIGH', 'MEDIUM', 'LOW');
+
+-- CreateTable
+CREATE TABLE "public"."goals" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "public"."GoalCategory" NOT NULL DEFAULT 'OTHER',
+    "targetAmount" DECIMAL(14,2) NOT NULL,
+    "targetDate" TIMESTAMP(3) NOT NULL,
+    "inflationRate" DECIMAL(5,2) NOT NULL DEFAULT 6,
+    "expectedReturn" DECIMAL(5,2) NOT NULL DEFAULT 12,
+    "priority" "public"."GoalPriority" NOT NULL DEFAULT 'MEDIUM',
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "goals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."goal_earmarks" (
+    "id" TEXT NOT NULL,
+    "goalId" TEXT NOT NULL,
+    "holdingId" TEXT,
+    "sipId" TEXT,
+    "emergencyFund" BOOLEAN NOT NULL DEFAULT false,
+    "percent" DECIMAL(5,2) NOT NULL DEFAULT 100,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_earmarks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "goals_userId_idx" ON "public"."goals"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_earmarks_goalId_holdingId_key" ON "public"."goal_earmarks"("goalId", "holdingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_earmarks_goalId_sipId_key" ON "public"."goal_earmarks"("goalId", "sipId");
+
+-- AddForeignKey
+ALTER TABLE "public"."goals" ADD CONSTRAINT "goals_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_earmarks" ADD CONSTRAINT "goal_earmarks_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "public"."goals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_earmarks" ADD CONSTRAINT "goal_earmarks_holdingId_fkey" FOREIGN KEY ("holdingId") REFERENCES "public"."holdings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_earmarks" ADD CONSTRAINT "goal_earmarks_sipId_fkey" FOREIGN KEY ("sipId") REFERENCES "public"."sips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
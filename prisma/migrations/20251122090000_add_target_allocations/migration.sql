@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."target_allocations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bucket" "public"."InvestBucket" NOT NULL,
+    "targetPercent" DECIMAL(5,2) NOT NULL,
+    "tolerancePercent" DECIMAL(5,2) NOT NULL DEFAULT 5,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "target_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "target_allocations_userId_bucket_key" ON "public"."target_allocations"("userId", "bucket");
+
+-- AddForeignKey
+ALTER TABLE "public"."target_allocations" ADD CONSTRAINT "target_allocations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."SIPStepUpType" AS ENUM ('PERCENT', 'AMOUNT');
+
+-- AlterTable
+ALTER TABLE "public"."sips" ADD COLUMN     "stepUpType" "public"."SIPStepUpType",
+ADD COLUMN     "stepUpValue" DECIMAL(12,2);
+
+-- CreateTable
+CREATE TABLE "public"."sip_pauses" (
+    "id" TEXT NOT NULL,
+    "sipId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sip_pauses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."sip_skips" (
+    "id" TEXT NOT NULL,
+    "sipId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sip_skips_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sip_pauses_sipId_idx" ON "public"."sip_pauses"("sipId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sip_skips_sipId_date_key" ON "public"."sip_skips"("sipId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."sip_pauses" ADD CONSTRAINT "sip_pauses_sipId_fkey" FOREIGN KEY ("sipId") REFERENCES "public"."sips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sip_skips" ADD CONSTRAINT "sip_skips_sipId_fkey" FOREIGN KEY ("sipId") REFERENCES "public"."sips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
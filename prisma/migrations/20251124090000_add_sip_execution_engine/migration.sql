@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."SIPRunTrigger" AS ENUM ('CRON', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "public"."SIPRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."sips" ADD COLUMN     "nextRunDate" TIMESTAMP(3);
+
+-- Existing SIPs were executed by the previous cron up to today; the engine continues from tomorrow
+UPDATE "public"."sips" SET "nextRunDate" = CURRENT_DATE + INTERVAL '1 day' WHERE "endDate" IS NULL OR "endDate" >= CURRENT_DATE + INTERVAL '1 day';
+
+-- AlterTable
+ALTER TABLE "public"."sip_executions" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "idempotencyKey" TEXT,
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "nextRetryAt" TIMESTAMP(3),
+ADD COLUMN     "runId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."sip_execution_runs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "trigger" "public"."SIPRunTrigger" NOT NULL,
+    "status" "public"."SIPRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "sips" INTEGER NOT NULL DEFAULT 0,
+    "executed" INTEGER NOT NULL DEFAULT 0,
+    "retried" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT[],
+
+    CONSTRAINT "sip_execution_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sip_executions_idempotencyKey_key" ON "public"."sip_executions"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "sip_executions_status_nextRetryAt_idx" ON "public"."sip_executions"("status", "nextRetryAt");
+
+-- CreateIndex
+CREATE INDEX "sip_execution_runs_startedAt_idx" ON "public"."sip_execution_runs"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."sip_executions" ADD CONSTRAINT "sip_executions_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."sip_execution_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sip_execution_runs" ADD CONSTRAINT "sip_execution_runs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."MonthCloseAction" AS ENUM ('CLOSE', 'REOPEN', 'RECOMPUTE');
+
+-- CreateEnum
+CREATE TYPE "public"."MonthCloseTrigger" AS ENUM ('MANUAL', 'CRON');
+
+-- CreateTable
+CREATE TABLE "public"."month_close_events" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "action" "public"."MonthCloseAction" NOT NULL,
+    "trigger" "public"."MonthCloseTrigger" NOT NULL DEFAULT 'MANUAL',
+    "reason" TEXT,
+    "snapshot" JSONB,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "month_close_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "month_close_events_userId_year_month_createdAt_idx" ON "public"."month_close_events"("userId", "year", "month", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."month_close_events" ADD CONSTRAINT "month_close_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Months closed before the history existed get a close event so every closed month has one
+INSERT INTO "public"."month_close_events" ("id", "userId", "year", "month", "action", "trigger", "createdAt")
+SELECT 'mce_' || "id", "userId", "year", "month", 'CLOSE', 'MANUAL', COALESCE("closedAt", "updatedAt")
+FROM "public"."monthly_snapshots"
+WHERE "isClosed" = true;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "twoFactorBackupCodes" TEXT[],
+ADD COLUMN     "twoFactorChallenge" TEXT,
+ADD COLUMN     "twoFactorChallengeExpiry" TIMESTAMP(3),
+ADD COLUMN     "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "twoFactorFailedAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "twoFactorLastStep" INTEGER,
+ADD COLUMN     "twoFactorLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "twoFactorPendingSecret" TEXT,
+ADD COLUMN     "twoFactorRequired" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "twoFactorSecret" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_twoFactorChallenge_key" ON "public"."users"("twoFactorChallenge");
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."AuditEntity" AS ENUM ('EXPENSE', 'INCOME', 'LOAN', 'EMI', 'LOAN_EVENT', 'HOLDING', 'TRANSACTION', 'SIP', 'MEMBER', 'MEMBER_TRANSACTION', 'BORROWED_FUND');
+
+-- CreateEnum
+CREATE TYPE "public"."AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "public"."audit_logs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "actorEmail" TEXT,
+    "actorIsAdmin" BOOLEAN NOT NULL DEFAULT false,
+    "entity" "public"."AuditEntity" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "action" "public"."AuditAction" NOT NULL,
+    "operation" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "changedFields" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_userId_entity_entityId_createdAt_idx" ON "public"."audit_logs"("userId", "entity", "entityId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_createdAt_idx" ON "public"."audit_logs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actorId_idx" ON "public"."audit_logs"("actorId");
+
+-- Audit entries are append-only
+CREATE FUNCTION "public"."audit_logs_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_append_only"
+BEFORE UPDATE OR DELETE ON "public"."audit_logs"
+FOR EACH ROW EXECUTE FUNCTION "public"."audit_logs_append_only"();
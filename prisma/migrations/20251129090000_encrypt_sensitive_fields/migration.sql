@@ -0,0 +1,21 @@
+-- PAN, Aadhaar and loan account numbers are encrypted by the application; uniqueness moves to
+-- their blind indexes. Run scripts/encrypt-sensitive-fields.ts after deploying to encrypt existing rows.
+
+-- DropIndex
+DROP INDEX "public"."profiles_panNumber_key";
+
+-- DropIndex
+DROP INDEX "public"."profiles_aadharNumber_key";
+
+-- AlterTable
+ALTER TABLE "public"."profiles" ADD COLUMN     "aadharNumberIndex" TEXT,
+ADD COLUMN     "panNumberIndex" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "accountNumberIndex" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "profiles_panNumberIndex_key" ON "public"."profiles"("panNumberIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "profiles_aadharNumberIndex_key" ON "public"."profiles"("aadharNumberIndex");
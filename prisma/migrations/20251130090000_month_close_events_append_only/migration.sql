@@ -0,0 +1,13 @@
+-- Month close history is append-only; rows only go with their user, when the account is deleted
+CREATE FUNCTION "public"."month_close_events_append_only"() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM "public"."users" WHERE "id" = OLD."userId") THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'month_close_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "month_close_events_append_only"
+BEFORE UPDATE OR DELETE ON "public"."month_close_events"
+FOR EACH ROW EXECUTE FUNCTION "public"."month_close_events_append_only"();
@@ -0,0 +1,105 @@
+import { PrismaClient } from '../src/generated/prisma'
+import { getPriceHistory, isPricedBucket, toPriceDate } from '../src/lib/market-data'
+import type { InvestmentBucket } from '../src/types'
+
+const prisma = new PrismaClient()
+
+// Usage: npm run backfill-prices -- [--from yyyy-mm-dd] [--symbol SYMBOL]
+// Without --from, each instrument is backfilled from its first purchase
+const args = process.argv.slice(2)
+const getArg = (name: string) => {
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+async function backfillPriceHistory() {
+  try {
+    const fromArg = getArg('from')
+    const symbolArg = getArg('symbol')?.trim().toUpperCase()
+    const from = fromArg ? new Date(fromArg) : null
+    if (from && isNaN(from.getTime())) {
+      throw new Error(`Invalid --from date: ${fromArg}`)
+    }
+
+    const to = new Date()
+
+    // Every instrument ever held, bought or sold, with the date it was first bought
+    const [holdings, transactions] = await Promise.all([
+      prisma.holding.findMany({ select: { symbol: true, bucket: true, currency: true, createdAt: true } }),
+      prisma.transaction.findMany({ select: { symbol: true, bucket: true, currency: true, purchaseDate: true } }),
+    ])
+
+    const instruments = new Map<string, { symbol: string; bucket: InvestmentBucket; currency: string; firstDate: Date }>()
+    const addInstrument = (symbol: string, bucket: string, currency: string, date: Date) => {
+      const normalized = symbol.trim().toUpperCase()
+      if (!isPricedBucket(bucket) || !normalized) return
+      if (symbolArg && normalized !== symbolArg) return
+
+      const key = `${bucket}:${normalized}:${currency}`
+      const existing = instruments.get(key)
+      if (!existing || date < existing.firstDate) {
+        instruments.set(key, { symbol: normalized, bucket, currency, firstDate: date })
+      }
+    }
+    holdings.forEach(holding => addInstrument(holding.symbol, holding.bucket, holding.currency, holding.createdAt))
+    transactions.forEach(txn => addInstrument(txn.symbol, txn.bucket, txn.currency, txn.purchaseDate))
+
+    console.log(`Backfilling price history for ${instruments.size} instruments...\n`)
+
+    let storedCount = 0
+    let failedCount = 0
+
+    for (const instrument of instruments.values()) {
+      const { bucket } = instrument
+      const start = from ?? instrument.firstDate
+      const label = `${instrument.symbol} (${instrument.bucket}, ${instrument.currency})`
+
+      try {
+        const points = await getPriceHistory(instrument.symbol, bucket, instrument.currency, start, to)
+
+        // Existing days are kept, so the script can be re-run safely
+        const result = await prisma.priceHistory.createMany({
+          data: points.map(point => ({
+            symbol: instrument.symbol,
+            bucket,
+            currency: instrument.currency,
+            date: toPriceDate(point.date),
+            price: point.price,
+            source: point.source,
+          })),
+          skipDuplicates: true,
+        })
+
+        if (points.length > 0) {
+          console.log(`✓ ${label}: ${result.count} new of ${points.length} prices since ${start.toISOString().split('T')[0]}`)
+        } else {
+          console.log(`⊘ ${label}: no prices returned`)
+        }
+        storedCount += result.count
+      } catch (error) {
+        failedCount++
+        console.error(`✗ ${label}:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    console.log('\n' + '='.repeat(60))
+    console.log(`✓ Backfill complete!`)
+    console.log(`  - Prices stored: ${storedCount}`)
+    console.log(`  - Failed: ${failedCount}`)
+    console.log(`  - Instruments: ${instruments.size}`)
+    console.log('='.repeat(60))
+
+  } catch (error) {
+    console.error('Error backfilling price history:', error)
+    throw error
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+backfillPriceHistory()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
@@ -0,0 +1,127 @@
+/**
+ * Encrypts PAN, Aadhaar and loan account numbers stored before field encryption,
+ * and fills in their blind indexes
+ * Loan audit entries recorded before then hold the plaintext account number; it is redacted,
+ * which needs a database user owning audit_logs
+ *
+ * Usage: FIELD_ENCRYPTION_KEY=... npm run encrypt-fields
+ * Safe to run again; values already encrypted are skipped
+ */
+import { PrismaClient } from '../src/generated/prisma'
+import { ENCRYPTED_AUDIT_VALUE } from '../src/constants/field-encryption'
+import { isEncrypted, protectField, type SensitiveField } from '../src/lib/field-encryption'
+
+const prisma = new PrismaClient()
+
+const PROFILE_FIELDS: { column: 'panNumber' | 'aadharNumber'; index: 'panNumberIndex' | 'aadharNumberIndex'; field: SensitiveField }[] = [
+  { column: 'panNumber', index: 'panNumberIndex', field: 'pan' },
+  { column: 'aadharNumber', index: 'aadharNumberIndex', field: 'aadhaar' },
+]
+
+async function encryptSensitiveFields() {
+  try {
+    console.log('Starting to encrypt sensitive fields...\n')
+
+    let encryptedCount = 0
+    let skippedCount = 0
+    let conflictCount = 0
+
+    const profiles = await prisma.profile.findMany({
+      where: { OR: [{ panNumber: { not: null } }, { aadharNumber: { not: null } }] },
+      select: { id: true, userId: true, panNumber: true, aadharNumber: true },
+    })
+
+    console.log(`Found ${profiles.length} profiles with identity documents\n`)
+
+    for (const profile of profiles) {
+      for (const { column, index, field } of PROFILE_FIELDS) {
+        const value = profile[column]
+        if (!value) continue
+
+        if (isEncrypted(value)) {
+          skippedCount++
+          continue
+        }
+
+        const protectedValue = protectField(field, value)
+
+        // Two values that differed only in formatting now share a blind index; keep the first
+        const duplicate = protectedValue.index
+          ? await prisma.profile.findFirst({ where: { [index]: protectedValue.index, id: { not: profile.id } }, select: { id: true } })
+          : null
+        if (duplicate) {
+          console.log(`⊘ Conflict: ${column} of profile ${profile.id} matches profile ${duplicate.id}, left unencrypted`)
+          conflictCount++
+          continue
+        }
+
+        await prisma.profile.update({
+          where: { id: profile.id },
+          data: { [column]: protectedValue.value, [index]: protectedValue.index },
+        })
+
+        console.log(`✓ Encrypted: ${column} of profile ${profile.id}`)
+        encryptedCount++
+      }
+    }
+
+    const loans = await prisma.loan.findMany({
+      where: { accountNumber: { not: null } },
+      select: { id: true, accountNumber: true },
+    })
+
+    console.log(`\nFound ${loans.length} loans with account numbers\n`)
+
+    for (const loan of loans) {
+      if (!loan.accountNumber || isEncrypted(loan.accountNumber)) {
+        skippedCount++
+        continue
+      }
+
+      const { value, index } = protectField('accountNumber', loan.accountNumber)
+      await prisma.loan.update({
+        where: { id: loan.id },
+        data: { accountNumber: value, accountNumberIndex: index },
+      })
+
+      console.log(`✓ Encrypted: account number of loan ${loan.id}`)
+      encryptedCount++
+    }
+
+    // audit_logs is append-only; its trigger is lifted only for this transaction
+    const [, redactedBefore, redactedAfter] = await prisma.$transaction([
+      prisma.$executeRaw`ALTER TABLE "public"."audit_logs" DISABLE TRIGGER "audit_logs_append_only"`,
+      prisma.$executeRaw`
+        UPDATE "public"."audit_logs"
+        SET "before" = jsonb_set("before", '{accountNumber}', to_jsonb(${ENCRYPTED_AUDIT_VALUE}::text))
+        WHERE "entity" = 'LOAN' AND "before"->>'accountNumber' IS NOT NULL AND "before"->>'accountNumber' <> ${ENCRYPTED_AUDIT_VALUE}`,
+      prisma.$executeRaw`
+        UPDATE "public"."audit_logs"
+        SET "after" = jsonb_set("after", '{accountNumber}', to_jsonb(${ENCRYPTED_AUDIT_VALUE}::text))
+        WHERE "entity" = 'LOAN' AND "after"->>'accountNumber' IS NOT NULL AND "after"->>'accountNumber' <> ${ENCRYPTED_AUDIT_VALUE}`,
+      prisma.$executeRaw`ALTER TABLE "public"."audit_logs" ENABLE TRIGGER "audit_logs_append_only"`,
+    ])
+
+    console.log(`\n✓ Redacted account numbers in ${redactedBefore + redactedAfter} loan audit snapshots`)
+
+    console.log('\n' + '='.repeat(60))
+    console.log(`✓ Encryption complete!`)
+    console.log(`  - Encrypted: ${encryptedCount}`)
+    console.log(`  - Skipped (already encrypted): ${skippedCount}`)
+    console.log(`  - Conflicts: ${conflictCount}`)
+    console.log('='.repeat(60))
+
+  } catch (error) {
+    console.error('Error encrypting sensitive fields:', error)
+    throw error
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+encryptSensitiveFields()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error)
+    process.exit(1)
+  })
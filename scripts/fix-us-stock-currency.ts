@@ -24,7 +24,7 @@ async function main() {
       bucket: "US_STOCK",
     },
     data: {
-      // Note: usdInrRate will need to be set manually or via API if historical rate is needed
+      // Note: inrRate will need to be set manually or via API if historical rate is needed
     }
   })
 
@@ -0,0 +1,204 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight, History } from "lucide-react"
+import { toast } from "sonner"
+import { AuditEntry } from "@/components/audit/audit-entry"
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from "@/constants"
+import type { AuditAction, AuditEntity, AuditLogPage } from "@/types"
+
+interface AuditFilters {
+  query: string
+  entity: "all" | AuditEntity
+  action: "all" | AuditAction
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: AuditFilters = { query: "", entity: "all", action: "all", from: "", to: "" }
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS)
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS)
+  const [page, setPage] = useState(1)
+  const [result, setResult] = useState<AuditLogPage | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchAuditLog = async () => {
+      try {
+        setIsLoading(true)
+        const params = new URLSearchParams({ page: String(page) })
+        if (appliedFilters.query.trim()) params.set("q", appliedFilters.query.trim())
+        if (appliedFilters.entity !== "all") params.set("entity", appliedFilters.entity)
+        if (appliedFilters.action !== "all") params.set("action", appliedFilters.action)
+        if (appliedFilters.from) params.set("from", appliedFilters.from)
+        if (appliedFilters.to) params.set("to", appliedFilters.to)
+
+        const response = await fetch(`/api/admin/audit?${params.toString()}`)
+        if (!response.ok) throw new Error("Failed to fetch audit log")
+        setResult(await response.json())
+      } catch (error) {
+        toast.error("Failed to load audit log")
+        console.error(error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchAuditLog()
+  }, [appliedFilters, page])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setPage(1)
+    setAppliedFilters(filters)
+  }
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS)
+    setPage(1)
+    setAppliedFilters(EMPTY_FILTERS)
+  }
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1
+
+  return (
+    <div className="space-y-6 sm:space-y-8 pb-8">
+      <div className="bg-gradient-to-r from-purple-600 to-pink-600 dark:from-purple-900 dark:to-pink-900 -mx-4 sm:-mx-6 md:-mx-8 -mt-20 px-4 sm:px-6 md:px-8 pt-24 pb-6 sm:pb-8 mb-6">
+        <div className="flex items-center space-x-2 sm:space-x-3">
+          <History className="h-6 w-6 sm:h-8 sm:w-8 text-white flex-shrink-0" />
+          <h1 className="text-2xl sm:text-3xl font-bold text-white truncate">Audit Log</h1>
+        </div>
+        <p className="text-sm sm:text-base text-purple-100 dark:text-purple-200 mt-1 sm:mt-2">
+          Every create, update and delete of financial records across all users
+        </p>
+      </div>
+
+      <Card className="shadow-lg -mt-12">
+        <CardHeader>
+          <div className="flex flex-col gap-4">
+            <div>
+              <CardTitle className="text-lg sm:text-xl">Changes</CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                {result ? `${result.total.toLocaleString()} entries` : "Search by record id, user or actor email"}
+              </CardDescription>
+            </div>
+            <form onSubmit={handleSearch} className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6 lg:items-end">
+              <div className="space-y-1 lg:col-span-2">
+                <Label htmlFor="auditQuery" className="text-xs">Search</Label>
+                <Input
+                  id="auditQuery"
+                  placeholder="Record id, user or actor email..."
+                  value={filters.query}
+                  onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Record type</Label>
+                <Select
+                  value={filters.entity}
+                  onValueChange={(value: "all" | AuditEntity) => setFilters({ ...filters, entity: value })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="All records" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All records</SelectItem>
+                    {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((entity) => (
+                      <SelectItem key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Action</Label>
+                <Select
+                  value={filters.action}
+                  onValueChange={(value: "all" | AuditAction) => setFilters({ ...filters, action: value })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="All actions" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+                      <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditFrom" className="text-xs">From</Label>
+                <Input
+                  id="auditFrom"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="auditTo" className="text-xs">To</Label>
+                <Input
+                  id="auditTo"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2 sm:col-span-2 lg:col-span-6">
+                <Button type="submit">Search</Button>
+                <Button type="button" variant="outline" onClick={handleReset}>
+                  Reset
+                </Button>
+              </div>
+            </form>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : result && result.entries.length > 0 ? (
+            <>
+              {result.entries.map((entry) => (
+                <AuditEntry key={entry.id} entry={entry} showEntity />
+              ))}
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-sm text-muted-foreground">
+                  Page {result.page} of {totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">No audit entries found</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
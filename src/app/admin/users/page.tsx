@@ -8,9 +8,11 @@ import { Label } from "@/components/ui/label"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Plus, Edit, Trash2, Ban, CheckCircle, Shield, Mail } from "lucide-react"
+import { Plus, Edit, Trash2, Ban, CheckCircle, Shield, Mail, KeyRound, ShieldCheck, MonitorSmartphone, LogOut } from "lucide-react"
 import { toast } from "sonner"
 import { Role, ROLE_LABELS, getRoleBadgeColor } from "@/constants"
+import type { DeviceSessionEntry } from "@/types"
+import { DeviceSessionList } from "@/components/profile/device-session-list"
 import {
   Dialog,
   DialogContent,
@@ -38,6 +40,8 @@ interface User {
   countryCode: string | null
   roles: Role[]
   isBlocked: boolean
+  twoFactorEnabled: boolean
+  twoFactorRequired: boolean
   createdAt: string
   updatedAt: string
   recentlyAccessedAt: string | null
@@ -58,6 +62,11 @@ export default function UserManagementPage() {
   const [searchQuery, setSearchQuery] = useState("")
   const [roleFilter, setRoleFilter] = useState<"all" | Role>("all")
   const [sendingResetLink, setSendingResetLink] = useState<string | null>(null)
+  const [twoFactorResetDialogOpen, setTwoFactorResetDialogOpen] = useState(false)
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<{ id: string; email: string } | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<{ id: string; email: string } | null>(null)
+  const [userSessions, setUserSessions] = useState<DeviceSessionEntry[] | null>(null)
+  const [signingOutSessionId, setSigningOutSessionId] = useState<string | null>(null)
 
   // Filter users by role and search
   const filteredUsers = users
@@ -81,6 +90,7 @@ export default function UserManagementPage() {
   const [phoneNumber, setPhoneNumber] = useState("")
   const [countryCode, setCountryCode] = useState("+91")
   const [roles, setRoles] = useState<Role[]>([Role.CUSTOMER])
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false)
 
   useEffect(() => {
     loadUsers()
@@ -112,6 +122,7 @@ export default function UserManagementPage() {
       setPhoneNumber(user.phoneNumber || "")
       setCountryCode(user.countryCode || "+91")
       setRoles(user.roles)
+      setTwoFactorRequired(user.twoFactorRequired)
       setPassword("")
     } else {
       setIsEditing(false)
@@ -128,6 +139,7 @@ export default function UserManagementPage() {
     setPhoneNumber("")
     setCountryCode("+91")
     setRoles([Role.CUSTOMER])
+    setTwoFactorRequired(false)
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -139,7 +151,7 @@ export default function UserManagementPage() {
         const response = await fetch(`/api/admin/users/${currentUser.id}`, {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ name, phoneNumber, countryCode, roles }),
+          body: JSON.stringify({ name, phoneNumber, countryCode, roles, twoFactorRequired }),
         })
 
         if (response.ok) {
@@ -256,6 +268,119 @@ export default function UserManagementPage() {
     }
   }
 
+  const handleResetTwoFactor = async () => {
+    if (!userToResetTwoFactor) return
+
+    try {
+      const response = await fetch(`/api/admin/users/${userToResetTwoFactor.id}/reset-two-factor`, {
+        method: "POST",
+      })
+
+      if (response.ok) {
+        toast.success(`Two-factor authentication reset for ${userToResetTwoFactor.email}`)
+        loadUsers()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to reset two-factor authentication")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setTwoFactorResetDialogOpen(false)
+      setUserToResetTwoFactor(null)
+    }
+  }
+
+  const loadUserSessions = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/sessions`)
+      if (response.ok) {
+        setUserSessions(await response.json())
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to load sessions")
+      }
+    } catch {
+      toast.error("An error occurred")
+    }
+  }
+
+  const openSessionsDialog = (userId: string, userEmail: string) => {
+    setSessionsUser({ id: userId, email: userEmail })
+    setUserSessions(null)
+    loadUserSessions(userId)
+  }
+
+  const handleSignOutSession = async (deviceSession: DeviceSessionEntry) => {
+    if (!sessionsUser) return
+    setSigningOutSessionId(deviceSession.id)
+
+    try {
+      const response = await fetch(`/api/admin/users/${sessionsUser.id}/sessions/${deviceSession.id}`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        toast.success(`${deviceSession.device} signed out`)
+        loadUserSessions(sessionsUser.id)
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to sign out session")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setSigningOutSessionId(null)
+    }
+  }
+
+  const handleSignOutAllSessions = async () => {
+    if (!sessionsUser) return
+    setSigningOutSessionId("all")
+
+    try {
+      const response = await fetch(`/api/admin/users/${sessionsUser.id}/sessions`, {
+        method: "DELETE",
+      })
+
+      if (response.ok) {
+        toast.success(`${sessionsUser.email} signed out of all sessions`)
+        loadUserSessions(sessionsUser.id)
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to sign out sessions")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setSigningOutSessionId(null)
+    }
+  }
+
+  const openTwoFactorResetDialog = (userId: string, userEmail: string) => {
+    setUserToResetTwoFactor({ id: userId, email: userEmail })
+    setTwoFactorResetDialogOpen(true)
+  }
+
+  const renderTwoFactorBadge = (user: User) => {
+    if (user.twoFactorEnabled) {
+      return (
+        <Badge variant="outline" className="flex w-fit items-center gap-1 text-green-600">
+          <ShieldCheck className="h-3 w-3" />
+          {user.twoFactorRequired ? "Required" : "On"}
+        </Badge>
+      )
+    }
+    if (user.twoFactorRequired) {
+      return (
+        <Badge variant="outline" className="w-fit text-orange-600">
+          Required, not set up
+        </Badge>
+      )
+    }
+    return <span className="text-sm text-muted-foreground">Off</span>
+  }
+
   const openResetDialog = (userId: string, userEmail: string) => {
     setUserToReset({ id: userId, email: userEmail })
     setResetDialogOpen(true)
@@ -344,6 +469,7 @@ export default function UserManagementPage() {
                           {ROLE_LABELS[role]}
                         </Badge>
                       ))}
+                      {renderTwoFactorBadge(user)}
                     </div>
                     <div className="text-xs text-muted-foreground space-y-1">
                       <p>Registered: {new Date(user.createdAt).toLocaleDateString()}</p>
@@ -369,6 +495,26 @@ export default function UserManagementPage() {
                         <Mail className="h-4 w-4 mr-2" />
                         Reset Password
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openSessionsDialog(user.id, user.email)}
+                        className="w-full"
+                      >
+                        <MonitorSmartphone className="h-4 w-4 mr-2" />
+                        Sessions
+                      </Button>
+                      {user.twoFactorEnabled && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openTwoFactorResetDialog(user.id, user.email)}
+                          className="w-full"
+                        >
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          Reset 2FA
+                        </Button>
+                      )}
                       <div className="flex gap-2">
                         <Button
                           variant="outline"
@@ -412,6 +558,7 @@ export default function UserManagementPage() {
                       <TableHead>Name</TableHead>
                       <TableHead>Roles</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>2FA</TableHead>
                       <TableHead>Registered</TableHead>
                       <TableHead>Last Accessed</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
@@ -444,6 +591,7 @@ export default function UserManagementPage() {
                             </Badge>
                           )}
                         </TableCell>
+                        <TableCell>{renderTwoFactorBadge(user)}</TableCell>
                         <TableCell className="text-sm text-muted-foreground">
                           {new Date(user.createdAt).toLocaleDateString()}
                         </TableCell>
@@ -463,6 +611,24 @@ export default function UserManagementPage() {
                             >
                               <Mail className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openSessionsDialog(user.id, user.email)}
+                              title="Active sessions"
+                            >
+                              <MonitorSmartphone className="h-4 w-4" />
+                            </Button>
+                            {user.twoFactorEnabled && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openTwoFactorResetDialog(user.id, user.email)}
+                                title="Reset two-factor authentication"
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
@@ -614,6 +780,24 @@ export default function UserManagementPage() {
                   </label>
                 </div>
               </div>
+
+              {isEditing && (
+                <div className="space-y-2">
+                  <Label>Security</Label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={twoFactorRequired}
+                      onChange={(e) => setTwoFactorRequired(e.target.checked)}
+                      className="h-4 w-4"
+                    />
+                    <span>Require two-factor authentication</span>
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Until they enrol, the user can only open their profile to set it up
+                  </p>
+                </div>
+              )}
             </div>
 
             <DialogFooter className="mt-6">
@@ -654,6 +838,62 @@ export default function UserManagementPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Active Sessions Dialog */}
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Active Sessions</DialogTitle>
+            <DialogDescription>
+              Devices {sessionsUser?.email} is signed in on
+            </DialogDescription>
+          </DialogHeader>
+          {userSessions ? (
+            <DeviceSessionList
+              sessions={userSessions}
+              onSignOut={handleSignOutSession}
+              signingOutId={signingOutSessionId}
+            />
+          ) : (
+            <div className="animate-pulse h-24 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSessionsUser(null)}>
+              Close
+            </Button>
+            {userSessions && userSessions.length > 0 && !userSessions.some(deviceSession => deviceSession.current) && (
+              <Button
+                variant="destructive"
+                onClick={handleSignOutAllSessions}
+                disabled={signingOutSessionId === "all"}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                {signingOutSessionId === "all" ? "Signing out..." : "Sign Out Everywhere"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset 2FA Confirmation Dialog */}
+      <AlertDialog open={twoFactorResetDialogOpen} onOpenChange={setTwoFactorResetDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to reset two-factor authentication for {userToResetTwoFactor?.email}?
+              Their authenticator and recovery codes will stop working and they will sign in with their password only,
+              or set it up again if it is required.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleResetTwoFactor} className="bg-orange-600 hover:bg-orange-700">
+              Reset 2FA
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Block/Unblock Confirmation Dialog */}
       <AlertDialog open={blockDialogOpen} onOpenChange={setBlockDialogOpen}>
         <AlertDialogContent>
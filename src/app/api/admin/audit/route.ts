@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { searchAuditLogs } from "@/lib/audit"
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, Role } from "@/constants"
+import type { AuditAction, AuditEntity } from "@/types"
+
+// GET - Search the audit log across all users (admin only)
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || !session.user.roles.includes(Role.SUPER_ADMIN)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const entity = searchParams.get("entity")
+    const action = searchParams.get("action")
+    const from = searchParams.get("from")
+    const to = searchParams.get("to")
+
+    if ((entity && !(entity in AUDIT_ENTITY_LABELS)) || (action && !(action in AUDIT_ACTION_LABELS))) {
+      return NextResponse.json({ error: "Invalid filter" }, { status: 400 })
+    }
+
+    const result = await searchAuditLogs({
+      query: searchParams.get("q") || undefined,
+      entity: (entity as AuditEntity) || undefined,
+      action: (action as AuditAction) || undefined,
+      from: from ? new Date(from) : undefined,
+      // Include the whole of the last day
+      to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+      page: parseInt(searchParams.get("page") || "1") || 1,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error fetching audit log:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { resetTwoFactor } from "@/lib/two-factor"
+import { Role } from "@/constants"
+
+// POST - Reset a user's two-factor authentication, e.g. after a lost phone (admin only)
+// A user who is required to use 2FA enrols again at their next sign-in
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || !session.user.roles.includes(Role.SUPER_ADMIN)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    await resetTwoFactor(id)
+
+    return NextResponse.json({ message: "Two-factor authentication reset" })
+  } catch (error) {
+    console.error("Error resetting two-factor authentication:", error)
+    return NextResponse.json(
+      { error: "Failed to reset two-factor authentication" },
+      { status: 500 }
+    )
+  }
+}
@@ -18,7 +18,7 @@ export async function PUT(
 
     const { id } = await params
     const body = await request.json()
-    const { name, phoneNumber, countryCode, roles, isBlocked } = body
+    const { name, phoneNumber, countryCode, roles, isBlocked, twoFactorRequired } = body
 
     // Prevent admin from blocking themselves
     if (session.user.id === id && isBlocked) {
@@ -42,12 +42,14 @@ export async function PUT(
       countryCode?: string
       roles?: Role[]
       isBlocked?: boolean
+      twoFactorRequired?: boolean
     } = {}
     if (name !== undefined) updateData.name = name
     if (phoneNumber !== undefined) updateData.phoneNumber = phoneNumber
     if (countryCode !== undefined) updateData.countryCode = countryCode
     if (roles !== undefined) updateData.roles = roles as Role[]
     if (isBlocked !== undefined) updateData.isBlocked = isBlocked
+    if (twoFactorRequired !== undefined) updateData.twoFactorRequired = Boolean(twoFactorRequired)
 
     const user = await prisma.user.update({
       where: { id },
@@ -58,6 +60,8 @@ export async function PUT(
         name: true,
         roles: true,
         isBlocked: true,
+        twoFactorEnabled: true,
+        twoFactorRequired: true,
         createdAt: true,
         updatedAt: true,
       },
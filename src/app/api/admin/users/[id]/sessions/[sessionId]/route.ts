@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { revokeDeviceSession } from "@/lib/device-sessions"
+import { Role } from "@/constants"
+
+// DELETE - Sign a user out of one session (admin only)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || !session.user.roles.includes(Role.SUPER_ADMIN)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
+    const { id, sessionId } = await params
+
+    const revoked = await revokeDeviceSession(id, sessionId)
+    if (!revoked) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Session signed out" })
+  } catch (error) {
+    console.error("Error revoking user session:", error)
+    return NextResponse.json(
+      { error: "Failed to sign out session" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { listDeviceSessions, revokeAllSessions } from "@/lib/device-sessions"
+import { Role } from "@/constants"
+
+// GET - A user's active sessions (admin only)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || !session.user.roles.includes(Role.SUPER_ADMIN)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const deviceSessions = await listDeviceSessions(id, session.sessionId)
+
+    return NextResponse.json(deviceSessions)
+  } catch (error) {
+    console.error("Error fetching user sessions:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch sessions" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Sign a user out of every session (admin only)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || !session.user.roles.includes(Role.SUPER_ADMIN)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { error: "Use your profile to sign out your other sessions" },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    await revokeAllSessions(id)
+
+    return NextResponse.json({ message: "User signed out of all sessions" })
+  } catch (error) {
+    console.error("Error revoking user sessions:", error)
+    return NextResponse.json(
+      { error: "Failed to sign out sessions" },
+      { status: 500 }
+    )
+  }
+}
@@ -23,6 +23,8 @@ export async function GET() {
         countryCode: true,
         roles: true,
         isBlocked: true,
+        twoFactorEnabled: true,
+        twoFactorRequired: true,
         createdAt: true,
         updatedAt: true,
         recentlyAccessedAt: true,
@@ -0,0 +1,37 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { getEntityHistory } from "@/lib/audit"
+import { AUDIT_ENTITY_LABELS } from "@/constants"
+import type { AuditEntity } from "@/types"
+
+// Change history of one of the user's records, newest first
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const entity = searchParams.get("entity") as AuditEntity | null
+    const entityId = searchParams.get("entityId")
+
+    if (!entity || !(entity in AUDIT_ENTITY_LABELS) || !entityId) {
+      return NextResponse.json(
+        { error: "Entity and entityId are required" },
+        { status: 400 }
+      )
+    }
+
+    const history = await getEntityHistory(session.user.id, entity, entityId)
+
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error("Error fetching audit history:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch history" },
+      { status: 500 }
+    )
+  }
+}
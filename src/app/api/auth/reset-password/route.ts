@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
+import { revokeAllSessions } from "@/lib/device-sessions"
 import bcrypt from "bcrypt"
 
 export async function POST(request: NextRequest) {
@@ -66,6 +67,9 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    // Whoever knew the old password is signed out everywhere
+    await revokeAllSessions(user.id)
+
     return NextResponse.json({
       message: "Password reset successfully",
     })
@@ -3,6 +3,7 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { omitFields, recordAudit } from "@/lib/audit"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
 
 const returnFundSchema = z.object({
@@ -76,36 +77,48 @@ export async function POST(
 
     // Create an expense for the return payment
     // This represents money going out to repay the borrowed fund
-    await prisma.expense.create({
-      data: {
-        userId: session.user.id,
-        date: returnDate,
-        title: `Returned borrowed fund - ${borrowedFund.lenderName}`,
-        description: validatedData.notes
-          ? `Partial return of ₹${validatedData.returnAmount}. ${validatedData.notes}`
-          : `Partial return of ₹${validatedData.returnAmount}`,
-        expenseType: "EXPECTED",
-        category: "NEEDS",
-        amount: validatedData.returnAmount,
-        paymentMethod: "CASH",
-        tags: ["borrowed-fund-return"],
-      },
-    })
-
-    const updated = await prisma.borrowedFund.update({
-      where: { id },
-      data: {
-        returnedAmount: newReturnedAmount,
-        isFullyReturned,
-        actualReturnDate: isFullyReturned ? returnDate : borrowedFund.actualReturnDate,
-        notes: validatedData.notes
-          ? `${borrowedFund.notes || ""}\n[${returnDate.toISOString()}] Returned ₹${validatedData.returnAmount}: ${validatedData.notes}`
-          : `${borrowedFund.notes || ""}\n[${returnDate.toISOString()}] Returned ₹${validatedData.returnAmount}`,
-      },
-      include: {
-        member: true,
-        investedInHolding: true,
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const expense = await tx.expense.create({
+        data: {
+          userId: session.user.id,
+          date: returnDate,
+          title: `Returned borrowed fund - ${borrowedFund.lenderName}`,
+          description: validatedData.notes
+            ? `Partial return of ₹${validatedData.returnAmount}. ${validatedData.notes}`
+            : `Partial return of ₹${validatedData.returnAmount}`,
+          expenseType: "EXPECTED",
+          category: "NEEDS",
+          amount: validatedData.returnAmount,
+          paymentMethod: "CASH",
+          tags: ["borrowed-fund-return"],
+        },
+      })
+      await recordAudit(tx, session.user, { entity: "EXPENSE", entityId: expense.id, action: "CREATE", operation: "borrowed fund return", after: expense })
+
+      const saved = await tx.borrowedFund.update({
+        where: { id },
+        data: {
+          returnedAmount: newReturnedAmount,
+          isFullyReturned,
+          actualReturnDate: isFullyReturned ? returnDate : borrowedFund.actualReturnDate,
+          notes: validatedData.notes
+            ? `${borrowedFund.notes || ""}\n[${returnDate.toISOString()}] Returned ₹${validatedData.returnAmount}: ${validatedData.notes}`
+            : `${borrowedFund.notes || ""}\n[${returnDate.toISOString()}] Returned ₹${validatedData.returnAmount}`,
+        },
+        include: {
+          member: true,
+          investedInHolding: true,
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "BORROWED_FUND",
+        entityId: id,
+        action: "UPDATE",
+        operation: "return",
+        before: borrowedFund,
+        after: omitFields(saved, "member", "investedInHolding"),
+      })
+      return saved
     })
 
     // Transform Decimal types
@@ -3,12 +3,16 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { omitFields, recordAudit } from "@/lib/audit"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { sumTransactionsInCurrency } from "@/lib/borrowed-funds-calculator"
+import { CURRENCY_CODE_PATTERN } from "@/constants"
 
 const updateBorrowedFundSchema = z.object({
   memberId: z.string().optional(),
   lenderName: z.string().min(1).optional(),
   borrowedAmount: z.number().positive().optional(),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN).optional(),
   borrowedDate: z.string().optional(),
   expectedReturnDate: z.string().optional().nullable(),
   investedInHoldingId: z.string().optional().nullable(),
@@ -172,6 +176,7 @@ export async function PATCH(
     // Recalculate invested and surplus amounts if transactionIds or borrowedAmount are being updated
     const transactionIds = validatedData.transactionIds ?? borrowedFund.transactionIds
     const borrowedAmount = validatedData.borrowedAmount ?? Number(borrowedFund.borrowedAmount)
+    const currency = validatedData.currency ?? borrowedFund.currency
 
     let investedAmount = 0
     if (transactionIds.length > 0) {
@@ -181,59 +186,67 @@ export async function PATCH(
           userId: session.user.id,
         },
       })
-      investedAmount = transactions.reduce(
-        (sum, txn) => sum + Number(txn.amountInr || txn.amount),
-        0
-      )
+      investedAmount = await sumTransactionsInCurrency(transactions, currency)
     }
 
     const surplusAmount = borrowedAmount - investedAmount
 
-    const updated = await prisma.borrowedFund.update({
-      where: { id },
-      data: {
-        ...(validatedData.memberId && { memberId: validatedData.memberId }),
-        ...(validatedData.lenderName && { lenderName: validatedData.lenderName }),
-        ...(validatedData.borrowedAmount && {
-          borrowedAmount: validatedData.borrowedAmount,
-        }),
-        ...(validatedData.borrowedDate && {
-          borrowedDate: new Date(validatedData.borrowedDate),
-        }),
-        ...(validatedData.expectedReturnDate !== undefined && {
-          expectedReturnDate: validatedData.expectedReturnDate
-            ? new Date(validatedData.expectedReturnDate)
-            : null,
-        }),
-        ...(validatedData.investedInHoldingId !== undefined && {
-          investedInHoldingId: validatedData.investedInHoldingId,
-        }),
-        ...(validatedData.transactionIds && {
-          transactionIds: validatedData.transactionIds,
-        }),
-        ...(validatedData.sipExecutionIds && {
-          sipExecutionIds: validatedData.sipExecutionIds,
-        }),
-        // Always update invested and surplus amounts when recalculated
-        investedAmount,
-        surplusAmount,
-        ...(validatedData.currentValue !== undefined && {
-          currentValue: validatedData.currentValue,
-        }),
-        ...(validatedData.profitLoss !== undefined && {
-          profitLoss: validatedData.profitLoss,
-        }),
-        ...(validatedData.purpose !== undefined && { purpose: validatedData.purpose }),
-        ...(validatedData.terms !== undefined && { terms: validatedData.terms }),
-        ...(validatedData.interestRate !== undefined && {
-          interestRate: validatedData.interestRate,
-        }),
-        ...(validatedData.notes !== undefined && { notes: validatedData.notes }),
-      },
-      include: {
-        member: true,
-        investedInHolding: true,
-      },
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.borrowedFund.update({
+        where: { id },
+        data: {
+          ...(validatedData.memberId && { memberId: validatedData.memberId }),
+          ...(validatedData.lenderName && { lenderName: validatedData.lenderName }),
+          ...(validatedData.borrowedAmount && {
+            borrowedAmount: validatedData.borrowedAmount,
+          }),
+          ...(validatedData.currency && { currency: validatedData.currency }),
+          ...(validatedData.borrowedDate && {
+            borrowedDate: new Date(validatedData.borrowedDate),
+          }),
+          ...(validatedData.expectedReturnDate !== undefined && {
+            expectedReturnDate: validatedData.expectedReturnDate
+              ? new Date(validatedData.expectedReturnDate)
+              : null,
+          }),
+          ...(validatedData.investedInHoldingId !== undefined && {
+            investedInHoldingId: validatedData.investedInHoldingId,
+          }),
+          ...(validatedData.transactionIds && {
+            transactionIds: validatedData.transactionIds,
+          }),
+          ...(validatedData.sipExecutionIds && {
+            sipExecutionIds: validatedData.sipExecutionIds,
+          }),
+          // Always update invested and surplus amounts when recalculated
+          investedAmount,
+          surplusAmount,
+          ...(validatedData.currentValue !== undefined && {
+            currentValue: validatedData.currentValue,
+          }),
+          ...(validatedData.profitLoss !== undefined && {
+            profitLoss: validatedData.profitLoss,
+          }),
+          ...(validatedData.purpose !== undefined && { purpose: validatedData.purpose }),
+          ...(validatedData.terms !== undefined && { terms: validatedData.terms }),
+          ...(validatedData.interestRate !== undefined && {
+            interestRate: validatedData.interestRate,
+          }),
+          ...(validatedData.notes !== undefined && { notes: validatedData.notes }),
+        },
+        include: {
+          member: true,
+          investedInHolding: true,
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "BORROWED_FUND",
+        entityId: id,
+        action: "UPDATE",
+        before: borrowedFund,
+        after: omitFields(saved, "member", "investedInHolding"),
+      })
+      return saved
     })
 
     // Transform Decimal types
@@ -316,8 +329,16 @@ export async function DELETE(
       "delete borrowed fund"
     )
 
-    await prisma.borrowedFund.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.borrowedFund.delete({
+        where: { id },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "BORROWED_FUND",
+        entityId: id,
+        action: "DELETE",
+        before: borrowedFund,
+      })
     })
 
     return NextResponse.json({ message: "Borrowed fund deleted successfully" })
@@ -3,12 +3,17 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { omitFields, recordAudit } from "@/lib/audit"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { sumTransactionsInCurrency } from "@/lib/borrowed-funds-calculator"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
 
 const borrowedFundSchema = z.object({
   memberId: z.string().optional(),
   lenderName: z.string().min(1, "Lender name is required"),
   borrowedAmount: z.number().positive("Borrowed amount must be positive"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
   borrowedDate: z.string(),
   expectedReturnDate: z.string().optional(),
   investedInHoldingId: z.string().optional(),
@@ -54,10 +59,19 @@ export async function GET() {
       ],
     })
 
+    // Totals across funds are added up from amounts in the base currency
+    const converter = await getUserCurrencyConverter(session.user.id)
+
     // Transform Decimal types to numbers
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const transformedFunds = borrowedFunds.map((fund: any) => ({
       ...fund,
+      base: {
+        currency: converter.baseCurrency,
+        borrowedAmount: converter.convert(Number(fund.borrowedAmount), fund.currency, fund.borrowedDate),
+        returnedAmount: converter.convert(Number(fund.returnedAmount), fund.currency, fund.actualReturnDate ?? undefined),
+        profitLoss: converter.convert(Number(fund.profitLoss ?? 0), fund.currency),
+      },
       borrowedAmount: Number(fund.borrowedAmount),
       returnedAmount: Number(fund.returnedAmount),
       investedAmount: Number(fund.investedAmount),
@@ -157,41 +171,48 @@ export async function POST(req: Request) {
           userId: session.user.id,
         },
       })
-      investedAmount = transactions.reduce(
-        (sum, txn) => sum + Number(txn.amountInr || txn.amount),
-        0
-      )
+      investedAmount = await sumTransactionsInCurrency(transactions, validatedData.currency)
     }
 
     // Calculate surplus amount (borrowed - invested)
     const surplusAmount = validatedData.borrowedAmount - investedAmount
 
-    const borrowedFund = await prisma.borrowedFund.create({
-      data: {
-        userId: session.user.id,
-        memberId: validatedData.memberId,
-        lenderName: validatedData.lenderName,
-        borrowedAmount: validatedData.borrowedAmount,
-        borrowedDate,
-        expectedReturnDate: validatedData.expectedReturnDate
-          ? new Date(validatedData.expectedReturnDate)
-          : null,
-        investedInHoldingId: validatedData.investedInHoldingId,
-        transactionIds: validatedData.transactionIds || [],
-        sipExecutionIds: validatedData.sipExecutionIds || [],
-        investedAmount,
-        surplusAmount,
-        currentValue: validatedData.currentValue,
-        profitLoss: validatedData.profitLoss,
-        purpose: validatedData.purpose,
-        terms: validatedData.terms,
-        interestRate: validatedData.interestRate,
-        notes: validatedData.notes,
-      },
-      include: {
-        member: true,
-        investedInHolding: true,
-      },
+    const borrowedFund = await prisma.$transaction(async (tx) => {
+      const created = await tx.borrowedFund.create({
+        data: {
+          userId: session.user.id,
+          memberId: validatedData.memberId,
+          lenderName: validatedData.lenderName,
+          borrowedAmount: validatedData.borrowedAmount,
+          currency: validatedData.currency,
+          borrowedDate,
+          expectedReturnDate: validatedData.expectedReturnDate
+            ? new Date(validatedData.expectedReturnDate)
+            : null,
+          investedInHoldingId: validatedData.investedInHoldingId,
+          transactionIds: validatedData.transactionIds || [],
+          sipExecutionIds: validatedData.sipExecutionIds || [],
+          investedAmount,
+          surplusAmount,
+          currentValue: validatedData.currentValue,
+          profitLoss: validatedData.profitLoss,
+          purpose: validatedData.purpose,
+          terms: validatedData.terms,
+          interestRate: validatedData.interestRate,
+          notes: validatedData.notes,
+        },
+        include: {
+          member: true,
+          investedInHolding: true,
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "BORROWED_FUND",
+        entityId: created.id,
+        action: "CREATE",
+        after: omitFields(created, "member", "investedInHolding"),
+      })
+      return created
     })
 
     // Transform Decimal types
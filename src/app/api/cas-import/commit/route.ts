@@ -0,0 +1,70 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { applyCasImport } from "@/lib/cas-import"
+import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+
+const casTransactionSchema = z.object({
+  date: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid date format",
+  }),
+  description: z.string(),
+  type: z.enum(["PURCHASE", "SIP", "REDEMPTION", "SWITCH_IN", "SWITCH_OUT", "DIVIDEND_REINVESTMENT"]),
+  amount: z.number().nonnegative(),
+  units: z.number().positive("Units must be positive"),
+  nav: z.number().positive("NAV must be positive"),
+})
+
+const commitSchema = z.object({
+  schemes: z.array(z.object({
+    symbol: z.string().trim().regex(/^\d+$/, "Scheme code must be the numeric AMFI code"),
+    name: z.string().min(1, "Scheme name is required"),
+    transactions: z.array(casTransactionSchema).min(1),
+  })).min(1, "Select at least one transaction to import"),
+}).refine((data) => data.schemes.reduce((sum, scheme) => sum + scheme.transactions.length, 0) <= 5000, {
+  message: "Import at most 5000 transactions at a time",
+})
+
+// Record the reviewed CAS transactions against mutual fund holdings
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { schemes } = commitSchema.parse(body)
+
+    // Every month touched by the import must still be open
+    const monthStarts = new Map<string, Date>()
+    for (const txn of schemes.flatMap(scheme => scheme.transactions)) {
+      const date = new Date(txn.date)
+      monthStarts.set(`${date.getFullYear()}-${date.getMonth()}`, date)
+    }
+    for (const date of monthStarts.values()) {
+      await validateMonthNotClosed(session.user.id, date, "import transactions")
+    }
+
+    const result = await applyCasImport(session.user.id, schemes, session.user)
+
+    return NextResponse.json({
+      message: `Imported ${result.purchases} purchases and ${result.redemptions} redemptions`,
+      ...result,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes("month has been closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error committing CAS import:", error)
+    return NextResponse.json(
+      { error: "Failed to import CAS" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { detectCasFormat, parseCasJson, parseCasText } from "@/lib/cas-parser"
+import { stageCasImport } from "@/lib/cas-import"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+// Parse an uploaded CAS and return the schemes matched to holdings for review (nothing is saved)
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file")
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "CAS file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "CAS file must be under 5 MB" }, { status: 400 })
+    }
+
+    const content = await file.text()
+    const format = detectCasFormat(file.name, content)
+
+    let parsed
+    try {
+      parsed = format === "JSON" ? parseCasJson(content) : parseCasText(content)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read the CAS" },
+        { status: 400 }
+      )
+    }
+
+    const schemes = await stageCasImport(session.user.id, parsed)
+
+    return NextResponse.json({
+      format,
+      periodFrom: parsed.periodFrom,
+      periodTo: parsed.periodTo,
+      schemes,
+      skippedLines: parsed.skippedLines,
+    })
+  } catch (error) {
+    console.error("Error previewing CAS import:", error)
+    return NextResponse.json(
+      { error: "Failed to read CAS" },
+      { status: 500 }
+    )
+  }
+}
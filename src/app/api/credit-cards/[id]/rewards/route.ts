@@ -0,0 +1,133 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { serializeRewardProgram } from "@/lib/card-rewards"
+import { z } from "zod"
+
+const rewardProgramSchema = z.object({
+  rewardType: z.enum(["POINTS", "CASHBACK"]),
+  spendUnit: z.number().positive("Spend per reward must be positive"),
+  pointsPerUnit: z.number().min(0, "Reward rate cannot be negative"),
+  pointValue: z.number().positive("Point value must be positive").default(1),
+  monthlyCap: z.number().positive().nullable().optional(),
+  multipliers: z.array(z.object({
+    category: z.string().trim().min(1, "Category is required"),
+    multiplier: z.number().min(0, "Multiplier cannot be negative").max(100),
+    monthlyCap: z.number().positive().nullable().optional(),
+  })).default([]),
+  milestones: z.array(z.object({
+    period: z.enum(["CYCLE", "YEAR"]),
+    spendThreshold: z.number().positive("Milestone spend must be positive"),
+    bonusPoints: z.number().positive("Milestone bonus must be positive"),
+    description: z.string().nullable().optional(),
+  })).default([]),
+})
+
+// Create or replace a card's reward program
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = rewardProgramSchema.parse(body)
+
+    const card = await prisma.creditCard.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!card) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 })
+    }
+
+    const categories = data.multipliers.map(multiplier => multiplier.category.toLowerCase())
+    if (new Set(categories).size !== categories.length) {
+      return NextResponse.json({ error: "Each category can only have one multiplier" }, { status: 400 })
+    }
+
+    const fields = {
+      rewardType: data.rewardType,
+      spendUnit: data.spendUnit,
+      pointsPerUnit: data.pointsPerUnit,
+      pointValue: data.rewardType === "CASHBACK" ? 1 : data.pointValue,
+      monthlyCap: data.monthlyCap ?? null,
+    }
+    const multipliers = data.multipliers.map(multiplier => ({
+      category: multiplier.category,
+      multiplier: multiplier.multiplier,
+      monthlyCap: multiplier.monthlyCap ?? null,
+    }))
+    const milestones = data.milestones.map(milestone => ({
+      period: milestone.period,
+      spendThreshold: milestone.spendThreshold,
+      bonusPoints: milestone.bonusPoints,
+      description: milestone.description || null,
+    }))
+
+    const program = await prisma.cardRewardProgram.upsert({
+      where: { creditCardId: id },
+      create: {
+        ...fields,
+        userId: session.user.id,
+        creditCardId: id,
+        multipliers: { create: multipliers },
+        milestones: { create: milestones },
+      },
+      update: {
+        ...fields,
+        multipliers: { deleteMany: {}, create: multipliers },
+        milestones: { deleteMany: {}, create: milestones },
+      },
+      include: { multipliers: true, milestones: true },
+    })
+
+    return NextResponse.json(serializeRewardProgram(program))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error saving reward program:", error)
+    return NextResponse.json(
+      { error: "Failed to save reward program" },
+      { status: 500 }
+    )
+  }
+}
+
+// Remove a card's reward program; its accruals are dropped on the next refresh, redemptions are kept
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const result = await prisma.cardRewardProgram.deleteMany({
+      where: { creditCardId: id, userId: session.user.id },
+    })
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Reward program not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Reward program removed" })
+  } catch (error) {
+    console.error("Error removing reward program:", error)
+    return NextResponse.json(
+      { error: "Failed to remove reward program" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { suggestBestCard } from "@/lib/card-rewards"
+import { getBaseCurrency } from "@/lib/currency"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
+import { z } from "zod"
+
+const bestCardSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be positive"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").optional(),
+  date: z.string().optional(),
+  title: z.string().default(""),
+  description: z.string().optional(),
+})
+
+// Rank the user's cards by what an expense would earn on them
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const data = bestCardSchema.parse(Object.fromEntries(searchParams))
+
+    const [suggestions, baseCurrency] = await Promise.all([
+      suggestBestCard(session.user.id, {
+        amount: data.amount,
+        currency: data.currency ?? DEFAULT_CURRENCY,
+        date: data.date ? new Date(data.date) : new Date(),
+        title: data.title,
+        description: data.description,
+      }),
+      getBaseCurrency(session.user.id),
+    ])
+
+    return NextResponse.json({ suggestions, currency: baseCurrency })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error suggesting card:", error)
+    return NextResponse.json(
+      { error: "Failed to suggest a card" },
+      { status: 500 }
+    )
+  }
+}
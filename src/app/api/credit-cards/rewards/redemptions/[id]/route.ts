@@ -0,0 +1,33 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+// Delete a redemption, returning its points to the card's balance
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const result = await prisma.cardRewardRedemption.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Redemption not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Redemption deleted" })
+  } catch (error) {
+    console.error("Error deleting redemption:", error)
+    return NextResponse.json(
+      { error: "Failed to delete redemption" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { generateCardStatements } from "@/lib/card-statements"
+import { accrueCardRewards, getCardRewardSummaries, serializeRewardRedemption } from "@/lib/card-rewards"
+import { z } from "zod"
+
+const redemptionSchema = z.object({
+  creditCardId: z.string().min(1, "Card is required"),
+  points: z.number().positive("Points must be positive"),
+  value: z.number().min(0, "Value cannot be negative").optional(),
+  redeemedOn: z.string().min(1, "Redemption date is required"),
+  notes: z.string().optional(),
+})
+
+// Redeem points or cashback from a card's available balance
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = redemptionSchema.parse(body)
+
+    const card = await prisma.creditCard.findFirst({
+      where: { id: data.creditCardId, userId: session.user.id },
+    })
+    if (!card) {
+      return NextResponse.json({ error: "Card not found" }, { status: 404 })
+    }
+
+    await generateCardStatements(session.user.id)
+    await accrueCardRewards(session.user.id)
+
+    const summary = (await getCardRewardSummaries(session.user.id))
+      .find(item => item.creditCardId === data.creditCardId)
+    const availablePoints = summary?.availablePoints ?? 0
+
+    if (data.points > availablePoints + 0.005) {
+      return NextResponse.json(
+        { error: `Only ${availablePoints.toLocaleString()} points are available to redeem` },
+        { status: 400 }
+      )
+    }
+
+    const redemption = await prisma.cardRewardRedemption.create({
+      data: {
+        userId: session.user.id,
+        creditCardId: data.creditCardId,
+        points: data.points,
+        value: data.value ?? Math.round(data.points * (summary?.program?.pointValue ?? 1) * 100) / 100,
+        redeemedOn: new Date(data.redeemedOn),
+        notes: data.notes || null,
+      },
+    })
+
+    return NextResponse.json(serializeRewardRedemption(redemption), { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error redeeming card rewards:", error)
+    return NextResponse.json(
+      { error: "Failed to redeem rewards" },
+      { status: 500 }
+    )
+  }
+}
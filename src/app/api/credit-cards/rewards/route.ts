@@ -0,0 +1,32 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { generateCardStatements } from "@/lib/card-statements"
+import { accrueCardRewards, getCardRewardSummaries } from "@/lib/card-rewards"
+import { getBaseCurrency } from "@/lib/currency"
+
+// Get each card's reward program, accruals per statement cycle and redemptions (refreshed first)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await generateCardStatements(session.user.id)
+    await accrueCardRewards(session.user.id)
+
+    const [cards, currency] = await Promise.all([
+      getCardRewardSummaries(session.user.id),
+      getBaseCurrency(session.user.id),
+    ])
+
+    return NextResponse.json({ cards, currency })
+  } catch (error) {
+    console.error("Error fetching card rewards:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch card rewards" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,86 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { generateCardStatements, getPayableStatement, serializeCardStatement } from "@/lib/card-statements"
+
+const paymentSchema = z.object({
+  amount: z.number().positive("Payment amount must be positive"),
+  paidOn: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid payment date",
+  }),
+  notes: z.string().optional(),
+})
+
+// Record a payment towards a card bill; the card spend itself was already recorded as expenses
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const statement = await prisma.cardStatement.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!statement) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 })
+    }
+
+    const payable = await getPayableStatement(statement.creditCardId)
+    if (!payable || payable.id !== statement.id) {
+      return NextResponse.json(
+        { error: "Only the latest billed statement can be paid; earlier unpaid amounts are carried into it" },
+        { status: 400 }
+      )
+    }
+
+    const data = paymentSchema.parse(await request.json())
+
+    const outstanding = Number(statement.totalDue) - Number(statement.paidAmount)
+    if (data.amount > outstanding + 0.005) {
+      return NextResponse.json(
+        { error: `Payment exceeds the outstanding amount of ${outstanding.toFixed(2)}` },
+        { status: 400 }
+      )
+    }
+
+    await prisma.cardPayment.create({
+      data: {
+        userId: session.user.id,
+        creditCardId: statement.creditCardId,
+        statementId: statement.id,
+        amount: data.amount,
+        paidOn: new Date(data.paidOn),
+        notes: data.notes || null,
+      },
+    })
+
+    // Refresh the statement's status and what later cycles carry
+    await generateCardStatements(session.user.id)
+
+    const updated = await prisma.cardStatement.findUniqueOrThrow({
+      where: { id },
+      include: {
+        payments: true,
+        creditCard: { select: { cardName: true, bank: true, lastFourDigits: true } },
+      },
+    })
+
+    return NextResponse.json(serializeCardStatement(updated), { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error recording card payment:", error)
+    return NextResponse.json(
+      { error: "Failed to record card payment" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { reconcileCardStatement } from "@/lib/card-statements"
+import {
+  detectStatementFormat,
+  getStatementMapping,
+  parseStatementCsv,
+  parseStatementOfx,
+} from "@/lib/statement-parser"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+// Compare a cycle's CARD expenses with the bank's statement file (nothing is saved)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const statement = await prisma.cardStatement.findFirst({
+      where: { id, userId: session.user.id },
+      include: { creditCard: { select: { bank: true } } },
+    })
+    if (!statement) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file")
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Statement file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "Statement file must be under 5 MB" }, { status: 400 })
+    }
+
+    const bank = (formData.get("bank") as string | null) || statement.creditCard.bank
+    const content = await file.text()
+    const format = detectStatementFormat(file.name, content)
+
+    let parsed
+    try {
+      parsed = format === "OFX"
+        ? parseStatementOfx(content)
+        : parseStatementCsv(content, getStatementMapping(bank))
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read the statement" },
+        { status: 400 }
+      )
+    }
+
+    const nextStart = new Date(statement.periodEnd)
+    nextStart.setDate(nextStart.getDate() + 1)
+
+    const [converter, expenses] = await Promise.all([
+      getUserCurrencyConverter(session.user.id),
+      prisma.expense.findMany({
+        where: {
+          userId: session.user.id,
+          creditCardId: statement.creditCardId,
+          paymentMethod: "CARD",
+          date: { gte: statement.periodStart, lt: nextStart },
+        },
+        select: { id: true, title: true, date: true, amount: true, currency: true },
+        orderBy: { date: "asc" },
+      }),
+    ])
+
+    return NextResponse.json(reconcileCardStatement(
+      statement.id,
+      expenses.map(expense => ({
+        id: expense.id,
+        title: expense.title,
+        date: expense.date.toISOString(),
+        amount: Number(expense.amount),
+        currency: expense.currency,
+        baseAmount: Math.round(converter.convert(Number(expense.amount), expense.currency, expense.date) * 100) / 100,
+      })),
+      parsed.rows
+    ))
+  } catch (error) {
+    console.error("Error reconciling card statement:", error)
+    return NextResponse.json(
+      { error: "Failed to reconcile statement" },
+      { status: 500 }
+    )
+  }
+}
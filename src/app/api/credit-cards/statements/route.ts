@@ -0,0 +1,49 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { generateCardStatements, getCardUtilisation, serializeCardStatement } from "@/lib/card-statements"
+import { getBaseCurrency } from "@/lib/currency"
+
+// Get card statements (refreshed first) with each card's utilisation, in the base currency; optionally for one card
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const creditCardId = searchParams.get("creditCardId")
+
+    await generateCardStatements(session.user.id)
+
+    const [statements, utilisation, currency] = await Promise.all([
+      prisma.cardStatement.findMany({
+        where: {
+          userId: session.user.id,
+          ...(creditCardId && { creditCardId }),
+        },
+        include: {
+          payments: true,
+          creditCard: { select: { cardName: true, bank: true, lastFourDigits: true } },
+        },
+        orderBy: { periodEnd: "desc" },
+      }),
+      getCardUtilisation(session.user.id),
+      getBaseCurrency(session.user.id),
+    ])
+
+    return NextResponse.json({
+      statements: statements.map(serializeCardStatement),
+      utilisation,
+      currency,
+    })
+  } catch (error) {
+    console.error("Error fetching card statements:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch card statements" },
+      { status: 500 }
+    )
+  }
+}
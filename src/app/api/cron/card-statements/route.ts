@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { generateCardStatements } from "@/lib/card-statements"
+import { accrueCardRewards } from "@/lib/card-rewards"
+import { verifyCronRequest } from "@/lib/cron-auth"
+import type { CardStatementRunResult } from "@/types"
+
+/**
+ * Card Statements Cron Job
+ * Should be called daily, after the recurring transactions cron and before the net worth cron
+ *
+ * This endpoint:
+ * 1. Finds all active customers with credit cards
+ * 2. For each customer, generates or refreshes a statement per billing cycle of every card
+ *    - Closed cycles become billed; interest and late fees are added once a due date passes unpaid
+ *    - Re-running on the same day gives the same statements
+ * 3. Accrues reward points and cashback per statement cycle of cards with a reward program
+ */
+export async function GET(request: Request) {
+  try {
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const now = new Date()
+
+    console.log(`[Card Statements Cron] Generating card statements for ${now.toISOString()}`)
+
+    const users = await prisma.user.findMany({
+      where: {
+        roles: { has: "CUSTOMER" },
+        isBlocked: false,
+        creditCards: { some: {} },
+      },
+      select: { id: true, _count: { select: { creditCards: true } } },
+    })
+
+    const results: CardStatementRunResult = {
+      users: users.length,
+      cards: users.reduce((sum, user) => sum + user._count.creditCards, 0),
+      statements: 0,
+      rewardAccruals: 0,
+      failed: 0,
+      errors: [],
+    }
+
+    for (const user of users) {
+      try {
+        results.statements += await generateCardStatements(user.id, now)
+        results.rewardAccruals += await accrueCardRewards(user.id)
+      } catch (error) {
+        results.failed++
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        results.errors.push(`User ${user.id}: ${errorMessage}`)
+        console.error(`[Card Statements Cron] Failed to generate statements for user ${user.id}:`, error)
+      }
+    }
+
+    console.log(`[Card Statements Cron] Run complete:`, results)
+
+    return NextResponse.json({
+      success: true,
+      message: "Card statements generated",
+      ...results,
+    })
+  } catch (error) {
+    console.error("[Card Statements Cron] Fatal error:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to generate card statements",
+        message: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
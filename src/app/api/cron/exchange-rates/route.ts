@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import { getCurrenciesInUse, refreshExchangeRate } from "@/lib/currency"
+import { verifyCronRequest } from "@/lib/cron-auth"
+import type { ExchangeRateRunResult } from "@/types"
+
+/**
+ * Exchange Rates Cron Job
+ * Should be called daily, before the price history, SIP execution and net worth crons
+ *
+ * This endpoint:
+ * 1. Finds every currency money is recorded in and every user's base currency
+ * 2. Fetches each currency's rate against USD from the market data providers
+ * 3. Stores it in the exchange rate history for the day
+ */
+export async function GET(request: Request) {
+  try {
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    console.log(`[Exchange Rates Cron] Recording rates for ${new Date().toISOString()}`)
+
+    const currencies = await getCurrenciesInUse()
+
+    const results: ExchangeRateRunResult = {
+      currencies: currencies.length,
+      recorded: 0,
+      failed: 0,
+      errors: [],
+    }
+
+    for (const currency of currencies) {
+      try {
+        const rate = await refreshExchangeRate(currency)
+        if (rate === null) {
+          results.failed++
+          results.errors.push(`${currency}: No rate available`)
+          continue
+        }
+        results.recorded++
+      } catch (error) {
+        results.failed++
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        results.errors.push(`${currency}: ${errorMessage}`)
+        console.error(`[Exchange Rates Cron] Failed to record rate for ${currency}:`, error)
+      }
+    }
+
+    console.log(`[Exchange Rates Cron] Run complete:`, results)
+
+    return NextResponse.json({
+      success: true,
+      message: "Exchange rates recorded",
+      ...results,
+    })
+  } catch (error) {
+    console.error("[Exchange Rates Cron] Fatal error:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to record exchange rates",
+        message: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { recordNetWorthSnapshot } from "@/lib/net-worth"
+import { verifyCronRequest } from "@/lib/cron-auth"
+import type { NetWorthRunResult } from "@/types"
+
+/**
+ * Net Worth Cron Job
+ * Should be called daily, after the SIP execution, recurring transactions and card statements crons
+ *
+ * This endpoint:
+ * 1. Finds all active customers
+ * 2. For each customer, records today's net worth point from stored values
+ *    - Holdings use the last stored price, so no market data is fetched
+ *    - Re-running on the same day replaces the day's point
+ */
+export async function GET(request: Request) {
+  try {
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const now = new Date()
+
+    console.log(`[Net Worth Cron] Recording net worth for ${now.toISOString()}`)
+
+    const users = await prisma.user.findMany({
+      where: {
+        roles: { has: "CUSTOMER" },
+        isBlocked: false,
+      },
+      select: { id: true },
+    })
+
+    const results: NetWorthRunResult = {
+      users: users.length,
+      recorded: 0,
+      failed: 0,
+      errors: [],
+    }
+
+    for (const user of users) {
+      try {
+        await recordNetWorthSnapshot(user.id, now)
+        results.recorded++
+      } catch (error) {
+        results.failed++
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        results.errors.push(`User ${user.id}: ${errorMessage}`)
+        console.error(`[Net Worth Cron] Failed to record net worth for user ${user.id}:`, error)
+      }
+    }
+
+    console.log(`[Net Worth Cron] Run complete:`, results)
+
+    return NextResponse.json({
+      success: true,
+      message: "Net worth recorded",
+      ...results,
+    })
+  } catch (error) {
+    console.error("[Net Worth Cron] Fatal error:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to record net worth",
+        message: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
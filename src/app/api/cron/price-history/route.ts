@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { getTrackedInstruments, refreshLatestPrice } from "@/lib/price-history"
+import { verifyCronRequest } from "@/lib/cron-auth"
+import type { PriceHistoryRunResult } from "@/types"
+
+/**
+ * Price History Cron Job
+ * Should be called daily, before the SIP execution and net worth crons
+ *
+ * This endpoint:
+ * 1. Finds every instrument held or bought by an active SIP
+ * 2. For each instrument:
+ *    - Fetches the latest price from the market data providers
+ *    - Stores it in the price history for its trading day
+ *    - Updates the current price of all holdings of the instrument
+ */
+export async function GET(request: Request) {
+  try {
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    console.log(`[Price History Cron] Recording prices for ${new Date().toISOString()}`)
+
+    const instruments = await getTrackedInstruments()
+
+    const results: PriceHistoryRunResult = {
+      instruments: instruments.length,
+      recorded: 0,
+      holdingsUpdated: 0,
+      failed: 0,
+      errors: [],
+    }
+
+    for (const instrument of instruments) {
+      const label = `${instrument.symbol} (${instrument.bucket}, ${instrument.currency})`
+      try {
+        const holdingsUpdated = await refreshLatestPrice(instrument)
+        if (holdingsUpdated === null) {
+          results.failed++
+          results.errors.push(`${label}: No price available`)
+          continue
+        }
+        results.recorded++
+        results.holdingsUpdated += holdingsUpdated
+      } catch (error) {
+        results.failed++
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        results.errors.push(`${label}: ${errorMessage}`)
+        console.error(`[Price History Cron] Failed to record price for ${label}:`, error)
+      }
+    }
+
+    console.log(`[Price History Cron] Run complete:`, results)
+
+    return NextResponse.json({
+      success: true,
+      message: "Prices recorded",
+      ...results,
+    })
+  } catch (error) {
+    console.error("[Price History Cron] Fatal error:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to record prices",
+        message: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
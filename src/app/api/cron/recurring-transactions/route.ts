@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { materialiseRecurringTemplate } from "@/lib/recurring-utils"
+import { verifyCronRequest } from "@/lib/cron-auth"
+import type { RecurringRunResult } from "@/types"
+
+/**
+ * Recurring Transactions Cron Job
+ * Should be called daily, alongside the SIP execution cron
+ *
+ * This endpoint:
+ * 1. Finds active recurring templates with an occurrence due today or earlier
+ * 2. For each template, creates the Expense / Income rows for the due occurrences
+ *    - Skips occurrences in closed months and before a pause end date
+ *    - Applies amount changes effective on the occurrence date
+ *    - Advances the template's next run date (cleared once the end date has passed)
+ */
+export async function GET(request: Request) {
+  try {
+    const unauthorized = verifyCronRequest(request)
+    if (unauthorized) return unauthorized
+
+    const now = new Date()
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999)
+
+    console.log(`[Recurring Cron] Running recurring transactions for ${now.toISOString()}`)
+
+    const dueTemplates = await prisma.recurringTemplate.findMany({
+      where: {
+        isActive: true,
+        nextRunDate: { lte: today },
+      },
+      include: {
+        amountChanges: true,
+        creditCard: true,
+      },
+    })
+
+    console.log(`[Recurring Cron] Found ${dueTemplates.length} due templates`)
+
+    const results: RecurringRunResult = {
+      templates: dueTemplates.length,
+      created: 0,
+      skippedClosedMonth: 0,
+      skippedPaused: 0,
+      failed: 0,
+      errors: [],
+    }
+
+    for (const template of dueTemplates) {
+      try {
+        const outcome = await materialiseRecurringTemplate(template, today)
+        results.created += outcome.created
+        results.skippedClosedMonth += outcome.skippedClosedMonth
+        results.skippedPaused += outcome.skippedPaused
+      } catch (error) {
+        results.failed++
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        results.errors.push(`Template ${template.id}: ${errorMessage}`)
+        console.error(`[Recurring Cron] Failed to process template ${template.id}:`, error)
+      }
+    }
+
+    console.log(`[Recurring Cron] Run complete:`, results)
+
+    return NextResponse.json({
+      success: true,
+      message: "Recurring transactions processed",
+      ...results,
+    })
+  } catch (error) {
+    console.error("[Recurring Cron] Fatal error:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to process recurring transactions",
+        message: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,26 +1,14 @@
 import { NextResponse } from "next/server"
+import { getExchangeRate } from "@/lib/market-data"
 
-// Fetch USD to INR exchange rate
+// Fetch the latest exchange rate between two currencies (USD to INR by default)
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
     const from = searchParams.get("from") || "USD"
     const to = searchParams.get("to") || "INR"
 
-    // Use exchangerate-api.com free tier (1500 requests/month)
-    const response = await fetch(
-      `https://api.exchangerate-api.com/v4/latest/${from}`,
-      {
-        next: { revalidate: 3600 } // Cache for 1 hour
-      }
-    )
-
-    if (!response.ok) {
-      throw new Error(`Exchange rate API responded with status: ${response.status}`)
-    }
-
-    const data = await response.json()
-    const rate = data?.rates?.[to]
+    const rate = await getExchangeRate(from, to)
 
     if (!rate) {
       return NextResponse.json(
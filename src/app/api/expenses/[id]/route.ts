@@ -5,7 +5,10 @@ import { prisma } from "@/lib/prisma"
 import { z } from "zod"
 import { calculatePaymentDueDate } from "@/lib/credit-card-utils"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { convertToBaseCurrency } from "@/lib/currency"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
 import { Prisma } from "@/generated/prisma"
+import { changeMemberBalance, omitFields, recordAudit } from "@/lib/audit"
 
 const expenseSchema = z.object({
   date: z.string().refine((date) => !isNaN(Date.parse(date)), {
@@ -16,6 +19,7 @@ const expenseSchema = z.object({
   expenseType: z.enum(["EXPECTED", "UNEXPECTED"]),
   category: z.enum(["NEEDS", "PARTIAL_NEEDS", "AVOID"]),
   amount: z.number().positive("Amount must be positive"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
   needsPortion: z.number().optional(),
   avoidPortion: z.number().optional(),
   paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]),
@@ -125,6 +129,11 @@ export async function PUT(
       }
     }
 
+    // Member balances are kept in the base currency
+    const memberAmount = validatedData.memberId
+      ? await convertToBaseCurrency(session.user.id, validatedData.amount, validatedData.currency, newExpenseDate)
+      : validatedData.amount
+
     // Update expense and handle member transaction changes
     const result = await prisma.$transaction(async (tx) => {
       // Handle member transaction updates
@@ -145,18 +154,17 @@ export async function PUT(
           reverseBalanceChange = new Prisma.Decimal(existingExpense.memberTransaction.amount)
         }
 
-        await tx.member.update({
-          where: { id: existingExpense.memberTransaction.memberId },
-          data: {
-            currentBalance: {
-              increment: reverseBalanceChange,
-            },
-          },
-        })
+        await changeMemberBalance(tx, session.user, existingExpense.memberTransaction.memberId, reverseBalanceChange, "expense edited")
 
         await tx.memberTransaction.delete({
           where: { id: existingExpense.memberTransaction.id },
         })
+        await recordAudit(tx, session.user, {
+          entity: "MEMBER_TRANSACTION",
+          entityId: existingExpense.memberTransaction.id,
+          action: "DELETE",
+          before: existingExpense.memberTransaction,
+        })
       }
 
       // Update expense
@@ -169,6 +177,7 @@ export async function PUT(
           expenseType: validatedData.expenseType,
           category: validatedData.category,
           amount: validatedData.amount,
+          currency: validatedData.currency,
           needsPortion: validatedData.needsPortion,
           avoidPortion: validatedData.avoidPortion,
           paymentMethod: validatedData.paymentMethod,
@@ -180,6 +189,14 @@ export async function PUT(
         },
       })
 
+      await recordAudit(tx, session.user, {
+        entity: "EXPENSE",
+        entityId: id,
+        action: "UPDATE",
+        before: omitFields(existingExpense, "memberTransaction"),
+        after: expense,
+      })
+
       // Create new member transaction if needed
       if (needsMemberTransaction && validatedData.memberId) {
         const transactionType = validatedData.paidForMember
@@ -189,32 +206,31 @@ export async function PUT(
         let balanceChange = new Prisma.Decimal(0)
 
         if (validatedData.paidForMember) {
-          balanceChange = new Prisma.Decimal(validatedData.amount)
+          balanceChange = new Prisma.Decimal(memberAmount)
         } else if (validatedData.paidByMember) {
-          balanceChange = new Prisma.Decimal(validatedData.amount).negated()
+          balanceChange = new Prisma.Decimal(memberAmount).negated()
         }
 
-        await tx.memberTransaction.create({
+        const memberTransaction = await tx.memberTransaction.create({
           data: {
             userId: session.user.id,
             memberId: validatedData.memberId,
             transactionType,
-            amount: validatedData.amount,
+            amount: memberAmount,
             date: new Date(validatedData.date),
             description: `Expense: ${validatedData.title}`,
             paymentMethod: validatedData.paymentMethod,
             expenseId: expense.id,
           },
         })
-
-        await tx.member.update({
-          where: { id: validatedData.memberId },
-          data: {
-            currentBalance: {
-              increment: balanceChange,
-            },
-          },
+        await recordAudit(tx, session.user, {
+          entity: "MEMBER_TRANSACTION",
+          entityId: memberTransaction.id,
+          action: "CREATE",
+          after: memberTransaction,
         })
+
+        await changeMemberBalance(tx, session.user, validatedData.memberId, balanceChange, "expense edited")
       }
 
       return expense
@@ -273,23 +289,29 @@ export async function DELETE(
           reverseBalanceChange = new Prisma.Decimal(expense.memberTransaction.amount)
         }
 
-        await tx.member.update({
-          where: { id: expense.memberTransaction.memberId },
-          data: {
-            currentBalance: {
-              increment: reverseBalanceChange,
-            },
-          },
-        })
+        await changeMemberBalance(tx, session.user, expense.memberTransaction.memberId, reverseBalanceChange, "expense deleted")
 
         await tx.memberTransaction.delete({
           where: { id: expense.memberTransaction.id },
         })
+        await recordAudit(tx, session.user, {
+          entity: "MEMBER_TRANSACTION",
+          entityId: expense.memberTransaction.id,
+          action: "DELETE",
+          before: expense.memberTransaction,
+        })
       }
 
       await tx.expense.delete({
         where: { id },
       })
+
+      await recordAudit(tx, session.user, {
+        entity: "EXPENSE",
+        entityId: id,
+        action: "DELETE",
+        before: omitFields(expense, "memberTransaction"),
+      })
     })
 
     return NextResponse.json({ success: true })
@@ -5,7 +5,11 @@ import { prisma } from "@/lib/prisma"
 import { z } from "zod"
 import { calculatePaymentDueDate } from "@/lib/credit-card-utils"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { convertToBaseCurrency, getUserCurrencyConverter } from "@/lib/currency"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
+import { applyExpenseRules, getActiveExpenseRules } from "@/lib/expense-rules"
 import { Prisma } from "@/generated/prisma"
+import { changeMemberBalance, recordAudit } from "@/lib/audit"
 
 const expenseSchema = z.object({
   date: z.string().refine((date) => !isNaN(Date.parse(date)), {
@@ -16,6 +20,7 @@ const expenseSchema = z.object({
   expenseType: z.enum(["EXPECTED", "UNEXPECTED"]),
   category: z.enum(["NEEDS", "PARTIAL_NEEDS", "AVOID"]),
   amount: z.number().positive("Amount must be positive"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
   needsPortion: z.number().optional(),
   avoidPortion: z.number().optional(),
   paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]),
@@ -180,6 +185,8 @@ export async function GET(request: NextRequest) {
       where: baseWhere,
       select: {
         amount: true,
+        currency: true,
+        date: true,
         expenseType: true,
         category: true,
         needsPortion: true,
@@ -187,30 +194,36 @@ export async function GET(request: NextRequest) {
       },
     })
 
+    // Totals are in the base currency at each expense's date
+    const converter = await getUserCurrencyConverter(session.user.id)
+
     const summary = allExpenses.reduce(
       (acc, expense) => {
-        acc.totalExpenses += Number(expense.amount)
+        const toBase = (value: number) => converter.convert(value, expense.currency, expense.date)
+        const amount = toBase(Number(expense.amount))
+        acc.totalExpenses += amount
         acc.count += 1
 
         if (expense.expenseType === "UNEXPECTED") {
-          acc.unexpectedTotal += Number(expense.amount)
+          acc.unexpectedTotal += amount
         } else {
-          acc.expectedTotal += Number(expense.amount)
+          acc.expectedTotal += amount
         }
 
         // Calculate needs and avoid totals
         if (expense.category === "NEEDS") {
-          acc.needsTotal += Number(expense.amount)
+          acc.needsTotal += amount
         } else if (expense.category === "AVOID") {
-          acc.avoidTotal += Number(expense.amount)
+          acc.avoidTotal += amount
         } else if (expense.category === "PARTIAL_NEEDS") {
-          acc.needsTotal += Number(expense.needsPortion || 0)
-          acc.avoidTotal += Number(expense.avoidPortion || 0)
+          acc.needsTotal += toBase(Number(expense.needsPortion || 0))
+          acc.avoidTotal += toBase(Number(expense.avoidPortion || 0))
         }
 
         return acc
       },
       {
+        currency: converter.baseCurrency,
         totalExpenses: 0,
         needsTotal: 0,
         avoidTotal: 0,
@@ -280,6 +293,24 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Member balances are kept in the base currency
+    const memberAmount = validatedData.memberId
+      ? await convertToBaseCurrency(session.user.id, validatedData.amount, validatedData.currency, expenseDate)
+      : validatedData.amount
+
+    // Apply the user's auto-categorisation rules
+    const rules = await getActiveExpenseRules(session.user.id)
+    const categorised = applyExpenseRules(rules, {
+      title: validatedData.title,
+      description: validatedData.description,
+      amount: validatedData.amount,
+      paymentMethod: validatedData.paymentMethod,
+      creditCardId: validatedData.creditCardId,
+      expenseType: validatedData.expenseType,
+      category: validatedData.category,
+      tags: [],
+    })
+
     // Create expense and member transaction if applicable in a transaction
     const result = await prisma.$transaction(async (tx) => {
       const expense = await tx.expense.create({
@@ -288,9 +319,10 @@ export async function POST(request: NextRequest) {
           date: new Date(validatedData.date),
           title: validatedData.title,
           description: validatedData.description || null,
-          expenseType: validatedData.expenseType,
-          category: validatedData.category,
+          expenseType: categorised.expenseType,
+          category: categorised.category,
           amount: validatedData.amount,
+          currency: validatedData.currency,
           needsPortion: validatedData.needsPortion || null,
           avoidPortion: validatedData.avoidPortion || null,
           paymentMethod: validatedData.paymentMethod,
@@ -299,9 +331,12 @@ export async function POST(request: NextRequest) {
           memberId: validatedData.memberId || null,
           paidByMember: validatedData.paidByMember || false,
           paidForMember: validatedData.paidForMember || false,
+          tags: categorised.tags,
         },
       })
 
+      await recordAudit(tx, session.user, { entity: "EXPENSE", entityId: expense.id, action: "CREATE", after: expense })
+
       // Create member transaction if member is involved
       if (validatedData.memberId && (validatedData.paidByMember || validatedData.paidForMember)) {
         const transactionType = validatedData.paidForMember
@@ -312,34 +347,33 @@ export async function POST(request: NextRequest) {
 
         if (validatedData.paidForMember) {
           // You paid for them - they owe you
-          balanceChange = new Prisma.Decimal(validatedData.amount)
+          balanceChange = new Prisma.Decimal(memberAmount)
         } else if (validatedData.paidByMember) {
           // They paid for you - you owe them
-          balanceChange = new Prisma.Decimal(validatedData.amount).negated()
+          balanceChange = new Prisma.Decimal(memberAmount).negated()
         }
 
-        await tx.memberTransaction.create({
+        const memberTransaction = await tx.memberTransaction.create({
           data: {
             userId: session.user.id,
             memberId: validatedData.memberId,
             transactionType,
-            amount: validatedData.amount,
+            amount: memberAmount,
             date: new Date(validatedData.date),
             description: `Expense: ${validatedData.title}`,
             paymentMethod: validatedData.paymentMethod,
             expenseId: expense.id,
           },
         })
+        await recordAudit(tx, session.user, {
+          entity: "MEMBER_TRANSACTION",
+          entityId: memberTransaction.id,
+          action: "CREATE",
+          after: memberTransaction,
+        })
 
         // Update member balance
-        await tx.member.update({
-          where: { id: validatedData.memberId },
-          data: {
-            currentBalance: {
-              increment: balanceChange,
-            },
-          },
-        })
+        await changeMemberBalance(tx, session.user, validatedData.memberId, balanceChange, "expense added")
       }
 
       return expense
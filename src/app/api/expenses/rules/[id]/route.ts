@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { validateExpenseRule } from "@/lib/expense-rules"
+
+const updateRuleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required").max(100).optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+  pattern: z.string().trim().max(200).nullable().optional(),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().positive().nullable().optional(),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]).nullable().optional(),
+  creditCardId: z.string().nullable().optional(),
+  expenseType: z.enum(["EXPECTED", "UNEXPECTED"]).nullable().optional(),
+  category: z.enum(["NEEDS", "AVOID"]).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+})
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = updateRuleSchema.parse(body)
+
+    const existing = await prisma.expenseRule.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 })
+    }
+
+    // Validate the rule as it will be after the update
+    const rule = {
+      pattern: data.pattern !== undefined ? data.pattern || null : existing.pattern,
+      minAmount: data.minAmount !== undefined ? data.minAmount : existing.minAmount !== null ? Number(existing.minAmount) : null,
+      maxAmount: data.maxAmount !== undefined ? data.maxAmount : existing.maxAmount !== null ? Number(existing.maxAmount) : null,
+      paymentMethod: data.paymentMethod !== undefined ? data.paymentMethod : existing.paymentMethod,
+      creditCardId: data.creditCardId !== undefined ? data.creditCardId || null : existing.creditCardId,
+      expenseType: data.expenseType !== undefined ? data.expenseType : existing.expenseType,
+      category: data.category !== undefined ? data.category : existing.category,
+      tags: data.tags !== undefined ? [...new Set(data.tags)] : existing.tags,
+    }
+
+    const validationError = validateExpenseRule(rule)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (rule.creditCardId && rule.creditCardId !== existing.creditCardId) {
+      const card = await prisma.creditCard.findFirst({
+        where: { id: rule.creditCardId, userId: session.user.id },
+      })
+      if (!card) {
+        return NextResponse.json({ error: "Credit card not found" }, { status: 404 })
+      }
+    }
+
+    const updated = await prisma.expenseRule.update({
+      where: { id },
+      data: {
+        name: data.name,
+        priority: data.priority,
+        isActive: data.isActive,
+        ...rule,
+      },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error updating expense rule:", error)
+    return NextResponse.json(
+      { error: "Failed to update expense rule" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existing = await prisma.expenseRule.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 })
+    }
+
+    await prisma.expenseRule.delete({ where: { id } })
+
+    return NextResponse.json({ message: "Rule deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting expense rule:", error)
+    return NextResponse.json(
+      { error: "Failed to delete expense rule" },
+      { status: 500 }
+    )
+  }
+}
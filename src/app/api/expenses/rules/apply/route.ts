@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { z } from "zod"
+import { applyExpenseRulesToRange } from "@/lib/expense-rules"
+
+const applySchema = z.object({
+  from: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid start date",
+  }),
+  to: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid end date",
+  }),
+  dryRun: z.boolean().default(true),
+}).refine((data) => new Date(data.from) <= new Date(data.to), {
+  message: "Start date must be before end date",
+})
+
+// Re-apply active rules to existing expenses in a date range (dry run by default)
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = applySchema.parse(body)
+
+    const from = new Date(data.from)
+    from.setHours(0, 0, 0, 0)
+    const to = new Date(data.to)
+    to.setHours(23, 59, 59, 999)
+
+    const result = await applyExpenseRulesToRange(session.user.id, { from, to }, data.dryRun, session.user)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error applying expense rules:", error)
+    return NextResponse.json(
+      { error: "Failed to apply expense rules" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { validateExpenseRule } from "@/lib/expense-rules"
+
+const ruleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required").max(100),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional(),
+  pattern: z.string().trim().max(200).nullable().optional(),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().positive().nullable().optional(),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]).nullable().optional(),
+  creditCardId: z.string().nullable().optional(),
+  expenseType: z.enum(["EXPECTED", "UNEXPECTED"]).nullable().optional(),
+  // Partial-needs needs a manual split, so rules can only set Needs or Avoid
+  category: z.enum(["NEEDS", "AVOID"]).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const rules = await prisma.expenseRule.findMany({
+      where: { userId: session.user.id },
+      include: {
+        creditCard: { select: { cardName: true, lastFourDigits: true } },
+      },
+      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+    })
+
+    return NextResponse.json(
+      rules.map(rule => ({
+        ...rule,
+        minAmount: rule.minAmount !== null ? Number(rule.minAmount) : null,
+        maxAmount: rule.maxAmount !== null ? Number(rule.maxAmount) : null,
+      }))
+    )
+  } catch (error) {
+    console.error("Error fetching expense rules:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch expense rules" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = ruleSchema.parse(body)
+
+    const rule = {
+      pattern: data.pattern || null,
+      minAmount: data.minAmount ?? null,
+      maxAmount: data.maxAmount ?? null,
+      paymentMethod: data.paymentMethod ?? null,
+      creditCardId: data.creditCardId || null,
+      expenseType: data.expenseType ?? null,
+      category: data.category ?? null,
+      tags: [...new Set(data.tags ?? [])],
+    }
+
+    const validationError = validateExpenseRule(rule)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (rule.creditCardId) {
+      const card = await prisma.creditCard.findFirst({
+        where: { id: rule.creditCardId, userId: session.user.id },
+      })
+      if (!card) {
+        return NextResponse.json({ error: "Credit card not found" }, { status: 404 })
+      }
+    }
+
+    const created = await prisma.expenseRule.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        priority: data.priority ?? 0,
+        isActive: data.isActive ?? true,
+        ...rule,
+      },
+    })
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error creating expense rule:", error)
+    return NextResponse.json(
+      { error: "Failed to create expense rule" },
+      { status: 500 }
+    )
+  }
+}
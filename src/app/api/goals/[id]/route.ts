@@ -0,0 +1,121 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { toEarmarkRows, validateGoalEarmarks } from "@/lib/goals"
+import { z } from "zod"
+
+const updateGoalSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").optional(),
+  category: z.enum(["HOUSE", "EDUCATION", "RETIREMENT", "VEHICLE", "WEDDING", "TRAVEL", "OTHER"]).optional(),
+  targetAmount: z.number().positive("Target amount must be positive").optional(),
+  targetDate: z.string().min(1, "Target date is required").optional(),
+  inflationRate: z.number().min(0, "Inflation cannot be negative").max(50).optional(),
+  expectedReturn: z.number().min(0, "Expected return cannot be negative").max(100).optional(),
+  priority: z.enum(["HIGH", "MEDIUM", "LOW"]).optional(),
+  notes: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  earmarks: z.array(z.object({
+    type: z.enum(["HOLDING", "SIP", "EMERGENCY_FUND"]),
+    id: z.string().min(1),
+    percent: z.number().positive("Earmarked percent must be positive").max(100, "Earmarked percent cannot exceed 100"),
+  })).optional(),
+})
+
+// Update a goal; earmarks, when given, replace the existing ones
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = updateGoalSchema.parse(body)
+
+    const goal = await prisma.goal.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!goal) {
+      return NextResponse.json({ error: "Goal not found" }, { status: 404 })
+    }
+
+    // Restoring an archived goal takes back its earmarks, so they must still fit
+    const earmarks = data.earmarks ?? (data.isActive && !goal.isActive
+      ? (await prisma.goalEarmark.findMany({ where: { goalId: id } })).map(earmark => ({
+          type: earmark.holdingId ? "HOLDING" as const : earmark.sipId ? "SIP" as const : "EMERGENCY_FUND" as const,
+          id: earmark.holdingId ?? earmark.sipId ?? "EMERGENCY_FUND",
+          percent: Number(earmark.percent),
+        }))
+      : null)
+    if (earmarks) {
+      const earmarkError = await validateGoalEarmarks(session.user.id, id, earmarks)
+      if (earmarkError) {
+        return NextResponse.json({ error: earmarkError }, { status: 400 })
+      }
+    }
+
+    await prisma.goal.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.category !== undefined && { category: data.category }),
+        ...(data.targetAmount !== undefined && { targetAmount: data.targetAmount }),
+        ...(data.targetDate !== undefined && { targetDate: new Date(data.targetDate) }),
+        ...(data.inflationRate !== undefined && { inflationRate: data.inflationRate }),
+        ...(data.expectedReturn !== undefined && { expectedReturn: data.expectedReturn }),
+        ...(data.priority !== undefined && { priority: data.priority }),
+        ...(data.notes !== undefined && { notes: data.notes || null }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        ...(data.earmarks && { earmarks: { deleteMany: {}, create: toEarmarkRows(data.earmarks) } }),
+      },
+    })
+
+    return NextResponse.json({ message: "Goal updated" })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error updating goal:", error)
+    return NextResponse.json(
+      { error: "Failed to update goal" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a goal; its earmarks are released
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const result = await prisma.goal.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Goal not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Goal deleted" })
+  } catch (error) {
+    console.error("Error deleting goal:", error)
+    return NextResponse.json(
+      { error: "Failed to delete goal" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { getGoalEarmarkOptions } from "@/lib/goals"
+
+// Get the holdings, SIPs and emergency fund a goal can earmark; pass goalId to leave out that goal's own earmarks
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const goalId = searchParams.get("goalId") || undefined
+
+    const options = await getGoalEarmarkOptions(session.user.id, goalId)
+    return NextResponse.json({ options })
+  } catch (error) {
+    console.error("Error fetching earmark options:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch earmark options" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getBaseCurrency } from "@/lib/currency"
+import { getGoalsWithProgress, toEarmarkRows, validateGoalEarmarks } from "@/lib/goals"
+import { GOAL_DEFAULT_INFLATION_PERCENT, GOAL_DEFAULT_RETURN_PERCENT } from "@/constants"
+import { z } from "zod"
+
+const goalSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.enum(["HOUSE", "EDUCATION", "RETIREMENT", "VEHICLE", "WEDDING", "TRAVEL", "OTHER"]).default("OTHER"),
+  targetAmount: z.number().positive("Target amount must be positive"),
+  targetDate: z.string().min(1, "Target date is required"),
+  inflationRate: z.number().min(0, "Inflation cannot be negative").max(50).default(GOAL_DEFAULT_INFLATION_PERCENT),
+  expectedReturn: z.number().min(0, "Expected return cannot be negative").max(100).default(GOAL_DEFAULT_RETURN_PERCENT),
+  priority: z.enum(["HIGH", "MEDIUM", "LOW"]).default("MEDIUM"),
+  notes: z.string().nullable().optional(),
+  isActive: z.boolean().default(true),
+  earmarks: z.array(z.object({
+    type: z.enum(["HOLDING", "SIP", "EMERGENCY_FUND"]),
+    id: z.string().min(1),
+    percent: z.number().positive("Earmarked percent must be positive").max(100, "Earmarked percent cannot exceed 100"),
+  })).default([]),
+})
+
+// Get goals with their earmarks and progress
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const [goals, currency] = await Promise.all([
+      getGoalsWithProgress(session.user.id),
+      getBaseCurrency(session.user.id),
+    ])
+
+    return NextResponse.json({ goals, currency })
+  } catch (error) {
+    console.error("Error fetching goals:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch goals" },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a goal
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = goalSchema.parse(body)
+
+    const earmarkError = await validateGoalEarmarks(session.user.id, null, data.earmarks)
+    if (earmarkError) {
+      return NextResponse.json({ error: earmarkError }, { status: 400 })
+    }
+
+    const goal = await prisma.goal.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        category: data.category,
+        targetAmount: data.targetAmount,
+        targetDate: new Date(data.targetDate),
+        inflationRate: data.inflationRate,
+        expectedReturn: data.expectedReturn,
+        priority: data.priority,
+        notes: data.notes || null,
+        isActive: data.isActive,
+        earmarks: { create: toEarmarkRows(data.earmarks) },
+      },
+    })
+
+    return NextResponse.json({ id: goal.id }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error creating goal:", error)
+    return NextResponse.json(
+      { error: "Failed to create goal" },
+      { status: 500 }
+    )
+  }
+}
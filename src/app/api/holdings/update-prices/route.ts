@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
+import { getCurrentPrice } from "@/lib/market-data"
 
 // Update all holdings with current prices
 // This endpoint can be called by a cron job daily
@@ -30,7 +31,7 @@ export async function POST(request: Request) {
     // Update each holding
     for (const holding of holdings) {
       try {
-        const price = await fetchPrice(holding.symbol, holding.bucket)
+        const price = await getCurrentPrice(holding.symbol, holding.bucket)
 
         if (price) {
           await prisma.holding.update({
@@ -66,90 +67,6 @@ export async function POST(request: Request) {
   }
 }
 
-// Fetch price based on bucket type
-async function fetchPrice(symbol: string, bucket: string): Promise<number | null> {
-  try {
-    switch (bucket) {
-      case "MUTUAL_FUND":
-        return await getMutualFundPrice(symbol)
-      case "IND_STOCK":
-        return await getStockPrice(symbol, "IN")
-      case "US_STOCK":
-        return await getStockPrice(symbol, "US")
-      case "CRYPTO":
-        return await getCryptoPrice(symbol)
-      default:
-        return null
-    }
-  } catch (error) {
-    console.error(`Error fetching price for ${symbol}:`, error)
-    return null
-  }
-}
-
-async function getMutualFundPrice(schemeCode: string): Promise<number | null> {
-  try {
-    const response = await fetch(`https://api.mfapi.in/mf/${schemeCode}`, {
-      next: { revalidate: 0 } // No cache for price updates
-    })
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    if (data?.data && Array.isArray(data.data) && data.data.length > 0) {
-      const latestNav = parseFloat(data.data[0].nav)
-      return isNaN(latestNav) ? null : latestNav
-    }
-
-    return null
-  } catch {
-    return null
-  }
-}
-
-async function getStockPrice(symbol: string, market: string): Promise<number | null> {
-  try {
-    const tickerSymbol = market === "IN" && !symbol.includes(".") ? `${symbol}.NS` : symbol
-
-    const response = await fetch(
-      `https://query1.finance.yahoo.com/v8/finance/chart/${tickerSymbol}?interval=1d&range=1d`,
-      {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        next: { revalidate: 0 }
-      }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const quote = data?.chart?.result?.[0]?.meta?.regularMarketPrice
-
-    return quote ? parseFloat(quote) : null
-  } catch {
-    return null
-  }
-}
-
-async function getCryptoPrice(cryptoId: string): Promise<number | null> {
-  try {
-    const coinId = cryptoId.toLowerCase()
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=inr`,
-      { next: { revalidate: 0 } }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const price = data?.[coinId]?.inr
-
-    return price ? parseFloat(price) : null
-  } catch {
-    return null
-  }
-}
-
 // Allow GET for manual trigger (admin only)
 export async function GET(request: Request) {
   try {
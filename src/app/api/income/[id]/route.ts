@@ -3,12 +3,16 @@ import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
+import { createRecurringIncomeTemplate, getNextRunDate } from "@/lib/recurring-utils"
+import { CURRENCY_CODE_PATTERN } from "@/constants"
+import { recordAudit } from "@/lib/audit"
 
 const incomeUpdateSchema = z.object({
   date: z.string().refine((date) => !isNaN(Date.parse(date))).optional(),
   title: z.string().min(1).optional(),
   description: z.string().optional(),
   amount: z.number().positive().optional(),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN).optional(),
   category: z.string().optional(),
   isRecurring: z.boolean().optional(),
 })
@@ -42,6 +46,7 @@ export async function PATCH(
       title?: string
       description?: string | null
       amount?: number
+      currency?: string
       category?: string
       isRecurring?: boolean
     } = {}
@@ -49,12 +54,52 @@ export async function PATCH(
     if (validatedData.title) updateData.title = validatedData.title
     if (validatedData.description !== undefined) updateData.description = validatedData.description
     if (validatedData.amount) updateData.amount = validatedData.amount
+    if (validatedData.currency) updateData.currency = validatedData.currency
     if (validatedData.category) updateData.category = validatedData.category
     if (validatedData.isRecurring !== undefined) updateData.isRecurring = validatedData.isRecurring
 
-    const updatedIncome = await prisma.income.update({
-      where: { id },
-      data: updateData,
+    // Marking an income as recurring starts a monthly template; unmarking pauses its template
+    const updatedIncome = await prisma.$transaction(async (tx) => {
+      let recurringTemplateId = income.recurringTemplateId
+
+      if (validatedData.isRecurring === true && !recurringTemplateId) {
+        const template = await createRecurringIncomeTemplate(tx, session.user.id, {
+          date: updateData.date ?? income.date,
+          title: updateData.title ?? income.title,
+          description: updateData.description !== undefined ? updateData.description : income.description,
+          amount: updateData.amount ?? Number(income.amount),
+          currency: updateData.currency ?? income.currency,
+          category: updateData.category ?? income.category,
+        })
+        recurringTemplateId = template.id
+      } else if (validatedData.isRecurring === true && !income.isRecurring && recurringTemplateId) {
+        // Resume the existing template from today without backfilling
+        const template = await tx.recurringTemplate.findUnique({ where: { id: recurringTemplateId } })
+        if (template) {
+          const now = new Date()
+          await tx.recurringTemplate.update({
+            where: { id: recurringTemplateId },
+            data: {
+              isActive: true,
+              nextRunDate: getNextRunDate(template, new Date(now.getFullYear(), now.getMonth(), now.getDate())),
+            },
+          })
+        }
+      } else if (validatedData.isRecurring === false && recurringTemplateId) {
+        await tx.recurringTemplate.update({
+          where: { id: recurringTemplateId },
+          data: { isActive: false },
+        })
+      }
+
+      const updated = await tx.income.update({
+        where: { id },
+        data: { ...updateData, recurringTemplateId },
+      })
+
+      await recordAudit(tx, session.user, { entity: "INCOME", entityId: id, action: "UPDATE", before: income, after: updated })
+
+      return updated
     })
 
     return NextResponse.json(updatedIncome)
@@ -95,8 +140,11 @@ export async function DELETE(
       return NextResponse.json({ error: "Income not found" }, { status: 404 })
     }
 
-    await prisma.income.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.income.delete({
+        where: { id },
+      })
+      await recordAudit(tx, session.user, { entity: "INCOME", entityId: id, action: "DELETE", before: income })
     })
 
     return NextResponse.json({ success: true })
@@ -3,7 +3,11 @@ import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { createRecurringIncomeTemplate } from "@/lib/recurring-utils"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { recordAudit } from "@/lib/audit"
 
 const incomeSchema = z.object({
   date: z.string().refine((date) => !isNaN(Date.parse(date)), {
@@ -12,6 +16,7 @@ const incomeSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
   amount: z.number().positive("Amount must be positive"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
   category: z.string().default("OTHER"),
   isRecurring: z.boolean().default(false),
 })
@@ -51,10 +56,11 @@ export async function GET(request: Request) {
       orderBy: { date: "desc" },
     })
 
-    // Calculate total
-    const total = incomes.reduce((sum, income) => sum + Number(income.amount), 0)
+    // Calculate total in the base currency at each income's date
+    const converter = await getUserCurrencyConverter(session.user.id)
+    const total = incomes.reduce((sum, income) => sum + converter.convert(Number(income.amount), income.currency, income.date), 0)
 
-    return NextResponse.json({ incomes, total })
+    return NextResponse.json({ incomes, total, currency: converter.baseCurrency })
   } catch (error) {
     console.error("Error fetching income:", error)
     return NextResponse.json(
@@ -79,16 +85,39 @@ export async function POST(request: Request) {
     const incomeDate = new Date(validatedData.date)
     await validateMonthNotClosed(session.user.id, incomeDate, "add income")
 
-    const income = await prisma.income.create({
-      data: {
-        userId: session.user.id,
-        date: new Date(validatedData.date),
-        title: validatedData.title,
-        description: validatedData.description || null,
-        amount: validatedData.amount,
-        category: validatedData.category,
-        isRecurring: validatedData.isRecurring,
-      },
+    // Recurring income repeats monthly from this entry; the cron creates the following months
+    const income = await prisma.$transaction(async (tx) => {
+      let recurringTemplateId: string | null = null
+
+      if (validatedData.isRecurring) {
+        const template = await createRecurringIncomeTemplate(tx, session.user.id, {
+          date: incomeDate,
+          title: validatedData.title,
+          description: validatedData.description || null,
+          amount: validatedData.amount,
+          currency: validatedData.currency,
+          category: validatedData.category,
+        })
+        recurringTemplateId = template.id
+      }
+
+      const created = await tx.income.create({
+        data: {
+          userId: session.user.id,
+          date: incomeDate,
+          title: validatedData.title,
+          description: validatedData.description || null,
+          amount: validatedData.amount,
+          currency: validatedData.currency,
+          category: validatedData.category,
+          isRecurring: validatedData.isRecurring,
+          recurringTemplateId,
+        },
+      })
+
+      await recordAudit(tx, session.user, { entity: "INCOME", entityId: created.id, action: "CREATE", after: created })
+
+      return created
     })
 
     return NextResponse.json(income, { status: 201 })
@@ -3,7 +3,9 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getMonthlyTax } from "@/lib/tax-utils"
 import { convertToMonthlyAmount, getAmountForMonth } from "@/lib/frequency-utils"
+import { getScheduleAdjustments } from "@/lib/sip-schedule"
 
 const calculateSchema = z.object({
   monthly: z.number().positive("Net monthly income must be positive"),
@@ -21,33 +23,7 @@ export async function POST(request: Request) {
     const { monthly } = calculateSchema.parse(body)
 
     // Get user's tax settings
-    const taxSetting = await prisma.taxSetting.findFirst({
-      where: { userId: session.user.id },
-      orderBy: { updatedAt: "desc" },
-    })
-
-    // Calculate tax amount
-    let taxAmount = 0
-    if (taxSetting) {
-      switch (taxSetting.mode) {
-        case "PERCENTAGE":
-          if (taxSetting.percentage) {
-            taxAmount = (monthly * Number(taxSetting.percentage)) / 100
-          }
-          break
-        case "FIXED":
-          if (taxSetting.fixedAmount) {
-            taxAmount = Number(taxSetting.fixedAmount)
-          }
-          break
-        case "HYBRID":
-          if (taxSetting.percentage && taxSetting.fixedAmount) {
-            const percentageAmount = (monthly * Number(taxSetting.percentage)) / 100
-            taxAmount = percentageAmount + Number(taxSetting.fixedAmount)
-          }
-          break
-      }
-    }
+    const { taxAmount } = await getMonthlyTax(session.user.id, monthly)
 
     const afterTax = monthly - taxAmount
 
@@ -69,6 +45,7 @@ export async function POST(request: Request) {
           { endDate: { gte: currentMonthStart } },
         ],
       },
+      include: { pauses: true, skips: true },
     })
 
     // Get all active SIPs including upcoming ones for display purposes
@@ -100,7 +77,8 @@ export async function POST(request: Request) {
           sip.frequency,
           sipStartDate,
           now.getMonth(),
-          now.getFullYear()
+          now.getFullYear(),
+          getScheduleAdjustments(sip)
         )
         totalSIPAmount += amountForMonth
       }
@@ -0,0 +1,44 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { capitalGainsToCsv, getCapitalGainsReport } from "@/lib/capital-gains"
+import { formatFinancialYear, getFinancialYear } from "@/lib/tax-calculator"
+
+// Schedule CG report for a financial year (defaults to the current FY), as JSON or CSV (?format=csv)
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const fyParam = searchParams.get("fy")
+    const financialYear = fyParam ? parseInt(fyParam) : getFinancialYear(new Date())
+
+    if (isNaN(financialYear) || financialYear < 2000 || financialYear > 2100) {
+      return NextResponse.json({ error: "Invalid financial year" }, { status: 400 })
+    }
+
+    const report = await getCapitalGainsReport(session.user.id, financialYear)
+
+    if (searchParams.get("format") === "csv") {
+      const fileName = `capital-gains-${formatFinancialYear(financialYear).replace(/\s+/g, "-")}.csv`
+      return new NextResponse(capitalGainsToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      })
+    }
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("Error generating capital gains report:", error)
+    return NextResponse.json(
+      { error: "Failed to generate capital gains report" },
+      { status: 500 }
+    )
+  }
+}
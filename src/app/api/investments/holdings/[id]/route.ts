@@ -3,6 +3,8 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { recordAudit } from "@/lib/audit"
+import { getExchangeRate } from "@/lib/market-data"
 
 const holdingSchema = z.object({
   bucket: z.enum(["MUTUAL_FUND", "IND_STOCK", "US_STOCK", "CRYPTO", "EMERGENCY_FUND"]).optional(),
@@ -13,6 +15,7 @@ const holdingSchema = z.object({
   currentPrice: z.number().positive("Current price must be positive").optional(),
   currency: z.string().optional(),
   isManual: z.boolean().optional(),
+  fmvJan2018: z.number().positive("FMV must be positive").nullable().optional(),
 })
 
 export async function GET(
@@ -86,11 +89,19 @@ export async function PATCH(
     if (data.currentPrice !== undefined) updateData.currentPrice = data.currentPrice
     if (data.currency !== undefined) updateData.currency = data.currency
     if (data.isManual !== undefined) updateData.isManual = data.isManual
+    if (data.fmvJan2018 !== undefined) updateData.fmvJan2018 = data.fmvJan2018
 
     const updatedHolding = await prisma.holding.update({
       where: { id },
       data: updateData,
     })
+    await recordAudit(prisma, session.user, {
+      entity: "HOLDING",
+      entityId: id,
+      action: "UPDATE",
+      before: existingHolding,
+      after: updatedHolding,
+    })
 
     // Track edit as transaction if qty or avgCost changed
     if ((data.qty !== undefined || data.avgCost !== undefined) && !existingHolding.isManual) {
@@ -99,25 +110,17 @@ export async function PATCH(
       const transactionAmount = newQty * newAvgCost
       const transactionCurrency = data.currency ?? updatedHolding.currency
 
-      // Fetch USD/INR rate if currency is USD and rate not available
-      let usdInrRate: number | null = null
+      // Fetch the INR rate if the transaction is not in INR
+      let inrRate: number | null = null
       let amountInr: number | null = null
-      if (transactionCurrency === "USD") {
-        try {
-          const rateResponse = await fetch("https://api.exchangerate-api.com/v4/latest/USD")
-          if (rateResponse.ok) {
-            const rateData = await rateResponse.json()
-            usdInrRate = rateData?.rates?.INR || null
-            if (usdInrRate) {
-              amountInr = transactionAmount * usdInrRate
-            }
-          }
-        } catch (error) {
-          console.error("Failed to fetch USD/INR rate:", error)
+      if (transactionCurrency !== "INR") {
+        inrRate = await getExchangeRate(transactionCurrency, "INR")
+        if (inrRate) {
+          amountInr = transactionAmount * inrRate
         }
       }
 
-      await prisma.transaction.create({
+      const transaction = await prisma.transaction.create({
         data: {
           userId: session.user.id,
           holdingId: id,
@@ -132,9 +135,10 @@ export async function PATCH(
           transactionType: "MANUAL_EDIT",
           purchaseDate: new Date(),
           description: "Holding manually edited",
-          usdInrRate: usdInrRate,
+          inrRate: inrRate,
         },
       })
+      await recordAudit(prisma, session.user, { entity: "TRANSACTION", entityId: transaction.id, action: "CREATE", after: transaction })
     }
 
     return NextResponse.json(updatedHolding)
@@ -175,8 +179,16 @@ export async function DELETE(
       return NextResponse.json({ error: "Holding not found" }, { status: 404 })
     }
 
-    await prisma.holding.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.holding.delete({
+        where: { id },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "HOLDING",
+        entityId: id,
+        action: "DELETE",
+        before: existingHolding,
+      })
     })
 
     return NextResponse.json({ message: "Holding deleted successfully" })
@@ -0,0 +1,115 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getInrRateOn } from "@/lib/currency"
+import { recordSale } from "@/lib/investment-sales"
+import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { format } from "date-fns"
+
+const QTY_EPSILON = 1e-9
+
+const sellSchema = z.object({
+  qty: z.number().positive("Quantity must be positive"),
+  price: z.number().positive("Sale price must be positive"),
+  saleDate: z.string().optional(),
+  inrRate: z.number().positive().optional().nullable(),
+  fmvJan2018: z.number().positive("FMV must be positive").optional().nullable(),
+  description: z.string().optional(),
+})
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = sellSchema.parse(body)
+
+    const holding = await prisma.holding.findUnique({
+      where: {
+        id,
+        userId: session.user.id,
+      },
+    })
+
+    if (!holding) {
+      return NextResponse.json({ error: "Holding not found" }, { status: 404 })
+    }
+
+    const holdingQty = Number(holding.qty)
+    if (data.qty > holdingQty + QTY_EPSILON) {
+      return NextResponse.json(
+        { error: `Cannot sell more than the ${holdingQty} units held` },
+        { status: 400 }
+      )
+    }
+
+    const soldOn = data.saleDate ? new Date(data.saleDate) : new Date()
+    if (soldOn > new Date()) {
+      return NextResponse.json({ error: "Sale date cannot be in the future" }, { status: 400 })
+    }
+
+    await validateMonthNotClosed(session.user.id, soldOn, "record a sale")
+
+    // Sale consideration must be converted at the rate on the sale date; a backdated sale uses the stored rate of that day
+    let inrRate: number | null = null
+    if (holding.currency !== "INR") {
+      inrRate = data.inrRate ?? await getInrRateOn(holding.currency, soldOn)
+      if (!inrRate) {
+        return NextResponse.json(
+          { error: `No ${holding.currency}/INR rate is stored for ${format(soldOn, "d MMM yyyy")}; enter the rate on the sale date` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const { transaction, lots, realizedGain, holdingDeleted } = await recordSale(session.user.id, holding, {
+      qty: data.qty,
+      price: data.price,
+      soldOn,
+      inrRate,
+      fmvJan2018: data.fmvJan2018,
+      description: data.description,
+    }, session.user)
+
+    return NextResponse.json({
+      transaction: {
+        ...transaction,
+        qty: Number(transaction.qty),
+        price: Number(transaction.price),
+        amount: Number(transaction.amount),
+        amountInr: transaction.amountInr ? Number(transaction.amountInr) : null,
+        inrRate: transaction.inrRate ? Number(transaction.inrRate) : null,
+        costBasis: Number(transaction.costBasis),
+        realizedGain: Number(transaction.realizedGain),
+      },
+      lots,
+      realizedGain,
+      holdingDeleted,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    if (error instanceof Error && (error.message.includes("units were held on the sale date") || error.message.includes("units are held than are sold"))) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes("month has been closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error selling holding:", error)
+    return NextResponse.json(
+      { error: "Failed to record sale" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth"
 import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getCurrentPrice } from "@/lib/market-data"
 
 // Fetch current prices for all holdings without updating the database
 export async function GET() {
@@ -25,7 +26,7 @@ export async function GET() {
     // Fetch current prices for all holdings
     const pricePromises = holdings.map(async (holding) => {
       try {
-        const price = await fetchPrice(holding.symbol, holding.bucket, holding.currency)
+        const price = await getCurrentPrice(holding.symbol, holding.bucket, holding.currency)
         return {
           id: holding.id,
           symbol: holding.symbol,
@@ -60,88 +61,3 @@ export async function GET() {
     )
   }
 }
-
-// Fetch price based on bucket type
-async function fetchPrice(symbol: string, bucket: string, currency: string = "INR"): Promise<number | null> {
-  try {
-    switch (bucket) {
-      case "MUTUAL_FUND":
-        return await getMutualFundPrice(symbol)
-      case "IND_STOCK":
-        return await getStockPrice(symbol, "IN")
-      case "US_STOCK":
-        return await getStockPrice(symbol, "US")
-      case "CRYPTO":
-        return await getCryptoPrice(symbol, currency)
-      default:
-        return null
-    }
-  } catch (error) {
-    console.error(`Error fetching price for ${symbol}:`, error)
-    return null
-  }
-}
-
-async function getMutualFundPrice(schemeCode: string): Promise<number | null> {
-  try {
-    const response = await fetch(`https://api.mfapi.in/mf/${schemeCode}`, {
-      next: { revalidate: 0 } // No cache
-    })
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    if (data?.data && Array.isArray(data.data) && data.data.length > 0) {
-      const latestNav = parseFloat(data.data[0].nav)
-      return isNaN(latestNav) ? null : latestNav
-    }
-
-    return null
-  } catch {
-    return null
-  }
-}
-
-async function getStockPrice(symbol: string, market: string): Promise<number | null> {
-  try {
-    const tickerSymbol = market === "IN" && !symbol.includes(".") ? `${symbol}.NS` : symbol
-
-    const response = await fetch(
-      `https://query1.finance.yahoo.com/v8/finance/chart/${tickerSymbol}?interval=1d&range=1d`,
-      {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        next: { revalidate: 0 }
-      }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const quote = data?.chart?.result?.[0]?.meta?.regularMarketPrice
-
-    return quote ? parseFloat(quote) : null
-  } catch {
-    return null
-  }
-}
-
-async function getCryptoPrice(cryptoId: string, currency: string = "INR"): Promise<number | null> {
-  try {
-    const coinId = cryptoId.toLowerCase()
-    const vsCurrency = currency === "USD" ? "usd" : "inr"
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=${vsCurrency}`,
-      { next: { revalidate: 0 } }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const price = data?.[coinId]?.[vsCurrency]
-
-    return price ? parseFloat(price) : null
-  } catch {
-    return null
-  }
-}
@@ -2,6 +2,8 @@ import { getServerSession } from "next-auth"
 import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getCurrentPrice } from "@/lib/market-data"
+import { getUserCurrencyConverter } from "@/lib/currency"
 
 // Refresh current prices for all user holdings and update database
 export async function POST() {
@@ -29,7 +31,7 @@ export async function POST() {
     // Fetch and update prices for each holding
     for (const holding of holdings) {
       try {
-        const price = await fetchPrice(holding.symbol, holding.bucket, holding.currency)
+        const price = await getCurrentPrice(holding.symbol, holding.bucket, holding.currency)
 
         if (price !== null) {
           await prisma.holding.update({
@@ -54,15 +56,14 @@ export async function POST() {
       },
     })
 
+    const converter = await getUserCurrencyConverter(session.user.id)
+
     let totalCurrentValue = 0
     let totalInvestment = 0
 
-    const getInrValue = (holding: typeof updatedHoldings[0], usdAmount: number) => {
-      if (holding.currency === "USD" && holding.usdInrRate) {
-        return usdAmount * Number(holding.usdInrRate)
-      }
-      return usdAmount
-    }
+    // Cost at the purchase date, value at today's rate; a recorded INR rate wins for INR reports
+    const toBase = (holding: typeof updatedHoldings[0], amount: number, date?: Date) =>
+      converter.convert(amount, holding.currency, date, holding.inrRate ? Number(holding.inrRate) : null)
 
     updatedHoldings.forEach(holding => {
       const qty = Number(holding.qty)
@@ -72,8 +73,8 @@ export async function POST() {
       const costAmount = qty * avgCost
       const currentAmount = qty * currentPrice
 
-      totalInvestment += getInrValue(holding, costAmount)
-      totalCurrentValue += getInrValue(holding, currentAmount)
+      totalInvestment += toBase(holding, costAmount, holding.createdAt)
+      totalCurrentValue += toBase(holding, currentAmount)
     })
 
     const totalPL = totalCurrentValue - totalInvestment
@@ -85,6 +86,7 @@ export async function POST() {
       total: holdings.length,
       holdingsData: {
         count: updatedHoldings.length,
+        currency: converter.baseCurrency,
         totalInvestment,
         totalCurrentValue,
         totalPL,
@@ -98,88 +100,3 @@ export async function POST() {
     )
   }
 }
-
-// Fetch price based on bucket type
-async function fetchPrice(symbol: string, bucket: string, currency: string = "INR"): Promise<number | null> {
-  try {
-    switch (bucket) {
-      case "MUTUAL_FUND":
-        return await getMutualFundPrice(symbol)
-      case "IND_STOCK":
-        return await getStockPrice(symbol, "IN")
-      case "US_STOCK":
-        return await getStockPrice(symbol, "US")
-      case "CRYPTO":
-        return await getCryptoPrice(symbol, currency)
-      default:
-        return null
-    }
-  } catch (error) {
-    console.error(`Error fetching price for ${symbol}:`, error)
-    return null
-  }
-}
-
-async function getMutualFundPrice(schemeCode: string): Promise<number | null> {
-  try {
-    const response = await fetch(`https://api.mfapi.in/mf/${schemeCode}`, {
-      next: { revalidate: 0 } // No cache
-    })
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    if (data?.data && Array.isArray(data.data) && data.data.length > 0) {
-      const latestNav = parseFloat(data.data[0].nav)
-      return isNaN(latestNav) ? null : latestNav
-    }
-
-    return null
-  } catch {
-    return null
-  }
-}
-
-async function getStockPrice(symbol: string, market: string): Promise<number | null> {
-  try {
-    const tickerSymbol = market === "IN" && !symbol.includes(".") ? `${symbol}.NS` : symbol
-
-    const response = await fetch(
-      `https://query1.finance.yahoo.com/v8/finance/chart/${tickerSymbol}?interval=1d&range=1d`,
-      {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        next: { revalidate: 0 }
-      }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const quote = data?.chart?.result?.[0]?.meta?.regularMarketPrice
-
-    return quote ? parseFloat(quote) : null
-  } catch {
-    return null
-  }
-}
-
-async function getCryptoPrice(cryptoId: string, currency: string = "INR"): Promise<number | null> {
-  try {
-    const coinId = cryptoId.toLowerCase()
-    const vsCurrency = currency === "USD" ? "usd" : "inr"
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=${vsCurrency}`,
-      { next: { revalidate: 0 } }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const price = data?.[coinId]?.[vsCurrency]
-
-    return price ? parseFloat(price) : null
-  } catch {
-    return null
-  }
-}
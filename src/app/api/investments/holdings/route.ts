@@ -3,6 +3,7 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { recordAudit } from "@/lib/audit"
 
 const holdingSchema = z.object({
   bucket: z.enum(["MUTUAL_FUND", "IND_STOCK", "US_STOCK", "CRYPTO", "EMERGENCY_FUND"]),
@@ -12,7 +13,7 @@ const holdingSchema = z.object({
   avgCost: z.number().positive("Average cost must be positive"),
   currentPrice: z.number().positive("Current price must be positive").optional(),
   currency: z.string().optional().default("INR"),
-  usdInrRate: z.number().positive().optional(),
+  inrRate: z.number().positive().optional(),
   isManual: z.boolean().optional().default(false),
   purchaseDate: z.string().optional(),
 })
@@ -52,6 +53,7 @@ export async function GET() {
         qty: Number(holding.qty),
         avgCost: Number(holding.avgCost),
         currentPrice: holding.currentPrice ? Number(holding.currentPrice) : null,
+        fmvJan2018: holding.fmvJan2018 ? Number(holding.fmvJan2018) : null,
         investmentValue,
         currentValue,
         gainLoss,
@@ -67,6 +69,7 @@ export async function GET() {
       qty: number;
       avgCost: number;
       currentPrice: number | null;
+      fmvJan2018: number | null;
       investmentValue: number;
       currentValue: number;
       gainLoss: number;
@@ -148,18 +151,18 @@ export async function POST(request: Request) {
       const totalQty = oldQty + newQty
       const weightedAvgCost = (oldQty * oldAvgCost + newQty * newAvgCost) / totalQty
 
-      // Calculate weighted average USD-INR rate if applicable
-      let weightedUsdInrRate = existingHolding.usdInrRate ? Number(existingHolding.usdInrRate) : null
-      if (data.bucket === "US_STOCK" && data.currency === "USD" && data.usdInrRate) {
-        const oldRate = existingHolding.usdInrRate ? Number(existingHolding.usdInrRate) : data.usdInrRate
+      // Calculate weighted average INR rate if applicable
+      let weightedInrRate = existingHolding.inrRate ? Number(existingHolding.inrRate) : null
+      if (data.currency !== "INR" && data.inrRate) {
+        const oldRate = existingHolding.inrRate ? Number(existingHolding.inrRate) : data.inrRate
         const oldInvestment = oldQty * oldAvgCost
         const newInvestment = newQty * newAvgCost
         const totalInvestment = oldInvestment + newInvestment
-        weightedUsdInrRate = (oldInvestment * oldRate + newInvestment * data.usdInrRate) / totalInvestment
+        weightedInrRate = (oldInvestment * oldRate + newInvestment * data.inrRate) / totalInvestment
       }
 
       console.log(`Updating holding: oldQty=${oldQty}, oldAvgCost=${oldAvgCost}, newQty=${newQty}, newAvgCost=${newAvgCost}`)
-      console.log(`New values: totalQty=${totalQty}, weightedAvgCost=${weightedAvgCost}, weightedUsdInrRate=${weightedUsdInrRate}`)
+      console.log(`New values: totalQty=${totalQty}, weightedAvgCost=${weightedAvgCost}, weightedInrRate=${weightedInrRate}`)
 
       // Update existing holding with weighted average
       holding = await prisma.holding.update({
@@ -168,11 +171,19 @@ export async function POST(request: Request) {
           qty: totalQty,
           avgCost: weightedAvgCost,
           currentPrice: data.currentPrice || existingHolding.currentPrice,
-          usdInrRate: weightedUsdInrRate,
+          inrRate: weightedInrRate,
           isManual: data.isManual,
           updatedAt: new Date(),
         },
       })
+      await recordAudit(prisma, session.user, {
+        entity: "HOLDING",
+        entityId: holding.id,
+        action: "UPDATE",
+        operation: "buy",
+        before: existingHolding,
+        after: holding,
+      })
 
       console.log(`Holding updated successfully`)
     } else {
@@ -188,10 +199,11 @@ export async function POST(request: Request) {
           avgCost: data.avgCost,
           currentPrice: data.currentPrice || null,
           currency: data.currency || "INR",
-          usdInrRate: data.usdInrRate || null,
+          inrRate: data.inrRate || null,
           isManual: data.isManual,
         },
       })
+      await recordAudit(prisma, session.user, { entity: "HOLDING", entityId: holding.id, action: "CREATE", after: holding })
 
       console.log(`Holding created successfully`)
     }
@@ -201,12 +213,12 @@ export async function POST(request: Request) {
       const transactionAmount = data.qty * data.avgCost
       let amountInr: number | null = null
 
-      // Calculate amountInr for USD transactions
-      if (data.currency === "USD" && data.usdInrRate) {
-        amountInr = transactionAmount * data.usdInrRate
+      // Calculate amountInr for non-INR transactions
+      if (data.currency !== "INR" && data.inrRate) {
+        amountInr = transactionAmount * data.inrRate
       }
 
-      await prisma.transaction.create({
+      const transaction = await prisma.transaction.create({
         data: {
           userId: session.user.id,
           holdingId: holding.id,
@@ -220,9 +232,10 @@ export async function POST(request: Request) {
           amountInr: amountInr,
           transactionType: "MANUAL_ENTRY",
           purchaseDate: data.purchaseDate ? new Date(data.purchaseDate) : new Date(),
-          usdInrRate: data.usdInrRate || null,
+          inrRate: data.inrRate || null,
         },
       })
+      await recordAudit(prisma, session.user, { entity: "TRANSACTION", entityId: transaction.id, action: "CREATE", after: transaction })
     }
 
     return NextResponse.json(holding, { status: 201 })
@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth"
 import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getMonthlyTax } from "@/lib/tax-utils"
 import { convertToMonthlyAmount } from "@/lib/frequency-utils"
 
 export async function GET() {
@@ -35,27 +36,7 @@ export async function GET() {
     }
 
     // Calculate available for investment
-    const taxSetting = await prisma.taxSetting.findFirst({
-      where: { userId: session.user.id },
-      orderBy: { updatedAt: "desc" },
-    })
-
-    let taxAmount = 0
-    if (taxSetting) {
-      const monthly = Number(salaryHistory.monthly)
-      switch (taxSetting.mode) {
-        case "PERCENTAGE":
-          taxAmount = taxSetting.percentage ? (monthly * Number(taxSetting.percentage)) / 100 : 0
-          break
-        case "FIXED":
-          taxAmount = taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0
-          break
-        case "HYBRID":
-          const percentageAmount = taxSetting.percentage ? (monthly * Number(taxSetting.percentage)) / 100 : 0
-          taxAmount = percentageAmount + (taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0)
-          break
-      }
-    }
+    const { taxAmount } = await getMonthlyTax(session.user.id, Number(salaryHistory.monthly))
 
     const afterTax = Number(salaryHistory.monthly) - taxAmount
 
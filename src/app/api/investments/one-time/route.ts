@@ -3,6 +3,8 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { recordOneTimePurchase } from "@/lib/investment-purchases"
+import { getMonthlyTax } from "@/lib/tax-utils"
 import { convertToMonthlyAmount } from "@/lib/frequency-utils"
 
 const purchaseSchema = z.object({
@@ -82,27 +84,7 @@ export async function POST(request: Request) {
     }
 
     // Calculate available for investment
-    const taxSetting = await prisma.taxSetting.findFirst({
-      where: { userId: session.user.id },
-      orderBy: { updatedAt: "desc" },
-    })
-
-    let taxAmount = 0
-    if (taxSetting) {
-      const monthly = Number(salaryHistory.monthly)
-      switch (taxSetting.mode) {
-        case "PERCENTAGE":
-          taxAmount = taxSetting.percentage ? (monthly * Number(taxSetting.percentage)) / 100 : 0
-          break
-        case "FIXED":
-          taxAmount = taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0
-          break
-        case "HYBRID":
-          const percentageAmount = taxSetting.percentage ? (monthly * Number(taxSetting.percentage)) / 100 : 0
-          taxAmount = percentageAmount + (taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0)
-          break
-      }
-    }
+    const { taxAmount } = await getMonthlyTax(session.user.id, Number(salaryHistory.monthly))
 
     const afterTax = Number(salaryHistory.monthly) - taxAmount
 
@@ -165,112 +147,16 @@ export async function POST(request: Request) {
       )
     }
 
-    // Normalize symbol for consistent matching (trim and uppercase)
-    const normalizedSymbol = data.symbol.trim().toUpperCase()
-
-    // Check if holding already exists for this user + bucket + symbol
-    const existingHolding = await prisma.holding.findFirst({
-      where: {
-        userId: session.user.id,
-        bucket: data.bucket,
-        symbol: {
-          equals: normalizedSymbol,
-          mode: 'insensitive',
-        },
-      },
-    })
-
-    console.log(`Checking for existing holding: bucket=${data.bucket}, symbol=${normalizedSymbol}`)
-    console.log(`Found existing holding:`, existingHolding ? `Yes (id: ${existingHolding.id})` : 'No')
-
-    // Fetch current price
-    let currentPrice: number | null = null
-    try {
-      currentPrice = await fetchPrice(data.symbol, data.bucket, data.currency)
-    } catch (error) {
-      console.error("Failed to fetch current price:", error)
-      // Continue without current price
-    }
-
-    let holding
-    if (existingHolding) {
-      // Calculate weighted average cost
-      const oldQty = Number(existingHolding.qty)
-      const oldAvgCost = Number(existingHolding.avgCost)
-      const newQty = data.qty
-      const newBuyPrice = data.buyPrice
-
-      const totalQty = oldQty + newQty
-      const newAvgCost = (oldQty * oldAvgCost + newQty * newBuyPrice) / totalQty
-
-      console.log(`Updating holding: oldQty=${oldQty}, oldAvgCost=${oldAvgCost}, newQty=${newQty}, newBuyPrice=${newBuyPrice}`)
-      console.log(`New values: totalQty=${totalQty}, newAvgCost=${newAvgCost}`)
-
-      // Update existing holding
-      holding = await prisma.holding.update({
-        where: { id: existingHolding.id },
-        data: {
-          qty: totalQty,
-          avgCost: newAvgCost,
-          currentPrice: currentPrice,
-          updatedAt: new Date(),
-        },
-      })
-    } else {
-      console.log(`Creating new holding for symbol: ${normalizedSymbol}`)
-      // Create new holding
-      holding = await prisma.holding.create({
-        data: {
-          userId: session.user.id,
-          bucket: data.bucket,
-          symbol: normalizedSymbol,
-          name: data.name,
-          qty: data.qty,
-          avgCost: data.buyPrice,
-          currentPrice: currentPrice,
-          currency: data.currency || "INR",
-          isManual: false,
-        },
-      })
-    }
-
-    // Fetch USD/INR exchange rate if currency is USD
-    let usdInrRate: number | null = null
-    let amountInr: number | null = null
-    if (data.currency === "USD") {
-      try {
-        const rateResponse = await fetch("https://api.exchangerate-api.com/v4/latest/USD")
-        if (rateResponse.ok) {
-          const rateData = await rateResponse.json()
-          usdInrRate = rateData?.rates?.INR || null
-          if (usdInrRate) {
-            amountInr = amount * usdInrRate
-          }
-        }
-      } catch (error) {
-        console.error("Failed to fetch USD/INR rate:", error)
-      }
-    }
-
-    // Track transaction for one-time purchase
-    await prisma.transaction.create({
-      data: {
-        userId: session.user.id,
-        holdingId: holding.id,
-        bucket: data.bucket,
-        symbol: normalizedSymbol,
-        name: data.name,
-        qty: data.qty,
-        price: data.buyPrice,
-        amount: amount,
-        currency: data.currency || "INR",
-        amountInr: amountInr,
-        transactionType: "ONE_TIME_PURCHASE",
-        purchaseDate: new Date(data.date),
-        description: data.description,
-        usdInrRate: usdInrRate,
-      },
-    })
+    const holding = await recordOneTimePurchase(session.user.id, {
+      bucket: data.bucket,
+      symbol: data.symbol,
+      name: data.name,
+      qty: data.qty,
+      buyPrice: data.buyPrice,
+      date: new Date(data.date),
+      description: data.description,
+      currency: data.currency || "INR",
+    }, session.user)
 
     return NextResponse.json(holding, { status: 201 })
   } catch (error) {
@@ -287,88 +173,3 @@ export async function POST(request: Request) {
     )
   }
 }
-
-// Fetch price based on bucket type
-async function fetchPrice(symbol: string, bucket: string, currency: string = "INR"): Promise<number | null> {
-  try {
-    switch (bucket) {
-      case "MUTUAL_FUND":
-        return await getMutualFundPrice(symbol)
-      case "IND_STOCK":
-        return await getStockPrice(symbol, "IN")
-      case "US_STOCK":
-        return await getStockPrice(symbol, "US")
-      case "CRYPTO":
-        return await getCryptoPrice(symbol, currency)
-      default:
-        return null
-    }
-  } catch (error) {
-    console.error(`Error fetching price for ${symbol}:`, error)
-    return null
-  }
-}
-
-async function getMutualFundPrice(schemeCode: string): Promise<number | null> {
-  try {
-    const response = await fetch(`https://api.mfapi.in/mf/${schemeCode}`, {
-      next: { revalidate: 0 }
-    })
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    if (data?.data && Array.isArray(data.data) && data.data.length > 0) {
-      const latestNav = parseFloat(data.data[0].nav)
-      return isNaN(latestNav) ? null : latestNav
-    }
-
-    return null
-  } catch {
-    return null
-  }
-}
-
-async function getStockPrice(symbol: string, market: string): Promise<number | null> {
-  try {
-    const tickerSymbol = market === "IN" && !symbol.includes(".") ? `${symbol}.NS` : symbol
-
-    const response = await fetch(
-      `https://query1.finance.yahoo.com/v8/finance/chart/${tickerSymbol}?interval=1d&range=1d`,
-      {
-        headers: { 'User-Agent': 'Mozilla/5.0' },
-        next: { revalidate: 0 }
-      }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const quote = data?.chart?.result?.[0]?.meta?.regularMarketPrice
-
-    return quote ? parseFloat(quote) : null
-  } catch {
-    return null
-  }
-}
-
-async function getCryptoPrice(cryptoId: string, currency: string = "INR"): Promise<number | null> {
-  try {
-    const coinId = cryptoId.toLowerCase()
-    const vsCurrency = currency === "USD" ? "usd" : "inr"
-
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=${vsCurrency}`,
-      { next: { revalidate: 0 } }
-    )
-
-    if (!response.ok) return null
-
-    const data = await response.json()
-    const price = data?.[coinId]?.[vsCurrency]
-
-    return price ? parseFloat(price) : null
-  } catch {
-    return null
-  }
-}
@@ -0,0 +1,83 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { getCurrentPrice } from "@/lib/market-data"
+import { recordOneTimePurchase } from "@/lib/investment-purchases"
+import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+
+const executeSchema = z.object({
+  purchases: z.array(z.object({
+    holdingId: z.string().min(1),
+    amount: z.number().positive("Amount must be positive"), // In the base currency
+  })).min(1, "Nothing to buy"),
+  date: z.string().optional(),
+})
+
+// Record the buy trades of a rebalancing plan as one-time investments in the chosen holdings
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = executeSchema.parse(body)
+
+    const date = data.date ? new Date(data.date) : new Date()
+    await validateMonthNotClosed(session.user.id, date, "record investments")
+
+    const holdings = await prisma.holding.findMany({
+      where: { id: { in: data.purchases.map(purchase => purchase.holdingId) }, userId: session.user.id },
+    })
+    const holdingsById = new Map(holdings.map(holding => [holding.id, holding]))
+    if (data.purchases.some(purchase => !holdingsById.has(purchase.holdingId))) {
+      return NextResponse.json({ error: "Holding not found" }, { status: 404 })
+    }
+
+    const converter = await getUserCurrencyConverter(session.user.id)
+
+    let created = 0
+    for (const purchase of data.purchases) {
+      const holding = holdingsById.get(purchase.holdingId)
+      if (!holding) continue
+
+      const price = (await getCurrentPrice(holding.symbol, holding.bucket, holding.currency)) ??
+        (holding.currentPrice != null ? Number(holding.currentPrice) : Number(holding.avgCost))
+      // Base currency amount in the holding's currency
+      const amount = purchase.amount / converter.convert(1, holding.currency)
+
+      await recordOneTimePurchase(session.user.id, {
+        bucket: holding.bucket,
+        symbol: holding.symbol,
+        name: holding.name,
+        qty: amount / price,
+        buyPrice: price,
+        date,
+        description: "Rebalancing",
+        currency: holding.currency,
+      }, session.user)
+      created++
+    }
+
+    return NextResponse.json({ message: `${created} one-time investment${created === 1 ? "" : "s"} created`, created }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message.includes("month has been closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error creating rebalancing investments:", error)
+    return NextResponse.json(
+      { error: "Failed to create investments" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { convertToBaseCurrency, getBaseCurrency } from "@/lib/currency"
+import { getRebalancePlan, getTargetAllocations } from "@/lib/rebalancing"
+import type { RebalanceMode } from "@/types"
+
+// Get the drift from the target weights and the trades that rebalance it
+// Query: mode (BUY_ONLY or BUY_SELL) and cash (new money to invest, defaults to last month's surplus)
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const mode: RebalanceMode = searchParams.get("mode") === "BUY_SELL" ? "BUY_SELL" : "BUY_ONLY"
+
+    const latestSnapshot = await prisma.monthlySnapshot.findFirst({
+      where: { userId: session.user.id },
+      orderBy: [{ year: "desc" }, { month: "desc" }],
+      select: { year: true, month: true, currency: true, surplusAmount: true },
+    })
+    const suggestedCash = latestSnapshot && Number(latestSnapshot.surplusAmount) > 0
+      ? await convertToBaseCurrency(
+          session.user.id,
+          Number(latestSnapshot.surplusAmount),
+          latestSnapshot.currency,
+          new Date(latestSnapshot.year, latestSnapshot.month - 1, 1)
+        )
+      : 0
+
+    const cashParam = searchParams.get("cash")
+    const cash = cashParam !== null && !isNaN(Number(cashParam)) ? Math.max(0, Number(cashParam)) : suggestedCash
+
+    const [plan, targets, currency] = await Promise.all([
+      getRebalancePlan(session.user.id, mode, cash),
+      getTargetAllocations(session.user.id),
+      getBaseCurrency(session.user.id),
+    ])
+
+    return NextResponse.json({ plan, targets, suggestedCash, currency })
+  } catch (error) {
+    console.error("Error planning rebalance:", error)
+    return NextResponse.json(
+      { error: "Failed to plan rebalance" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { REBALANCE_DEFAULT_TOLERANCE_PERCENT } from "@/constants"
+
+const targetsSchema = z.array(z.object({
+  bucket: z.enum(["MUTUAL_FUND", "IND_STOCK", "US_STOCK", "CRYPTO", "EMERGENCY_FUND"]),
+  targetPercent: z.number().min(0, "Target cannot be negative").max(100, "Target cannot exceed 100%"),
+  tolerancePercent: z.number().min(0, "Tolerance cannot be negative").max(50).default(REBALANCE_DEFAULT_TOLERANCE_PERCENT),
+})).refine(
+  (targets) => new Set(targets.map(target => target.bucket)).size === targets.length,
+  { message: "Each bucket can only have one target" }
+).refine(
+  (targets) => targets.length === 0 || Math.abs(targets.reduce((sum, target) => sum + target.targetPercent, 0) - 100) <= 0.01,
+  { message: "Target weights must add up to 100%" }
+)
+
+// Replace the target weights; an empty list clears them
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const targets = targetsSchema.parse(body)
+
+    await prisma.$transaction([
+      prisma.targetAllocation.deleteMany({ where: { userId: session.user.id } }),
+      prisma.targetAllocation.createMany({
+        data: targets.map(target => ({
+          userId: session.user.id,
+          bucket: target.bucket,
+          targetPercent: target.targetPercent,
+          tolerancePercent: target.tolerancePercent,
+        })),
+      }),
+    ])
+
+    return NextResponse.json({ message: "Target allocation saved" })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error saving target allocation:", error)
+    return NextResponse.json(
+      { error: "Failed to save target allocation" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { getPortfolioReturns } from "@/lib/portfolio-returns"
+
+// Get XIRR and time-weighted returns per holding, bucket, SIP and for the whole portfolio
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const returns = await getPortfolioReturns(session.user.id)
+
+    return NextResponse.json(returns)
+  } catch (error) {
+    console.error("Error calculating portfolio returns:", error)
+    return NextResponse.json(
+      { error: "Failed to calculate portfolio returns" },
+      { status: 500 }
+    )
+  }
+}
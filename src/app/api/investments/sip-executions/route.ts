@@ -71,6 +71,9 @@ export async function GET(request: Request) {
       qty: exec.qty ? Number(exec.qty) : null,
       price: exec.price ? Number(exec.price) : null,
       executionDate: exec.executionDate.toISOString(),
+      dueDate: exec.dueDate ? exec.dueDate.toISOString() : null,
+      lastAttemptAt: exec.lastAttemptAt ? exec.lastAttemptAt.toISOString() : null,
+      nextRetryAt: exec.nextRetryAt ? exec.nextRetryAt.toISOString() : null,
       createdAt: exec.createdAt.toISOString(),
       updatedAt: exec.updatedAt.toISOString(),
     }))
@@ -0,0 +1,25 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { runSIPExecutions } from "@/lib/sip-execution"
+
+// Run the SIP execution engine now for the signed-in user's SIPs
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const result = await runSIPExecutions("MANUAL", session.user.id)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error running SIP executions:", error)
+    return NextResponse.json(
+      { error: "Failed to run SIP executions" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import type { SIPExecutionRun } from "@/types"
+
+// Runs listed in the run log
+const RUN_LOG_LIMIT = 20
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Scheduled runs cover every user; manual runs only the user who started them
+    const runs = await prisma.sIPExecutionRun.findMany({
+      where: {
+        OR: [{ userId: null }, { userId: session.user.id }],
+      },
+      orderBy: { startedAt: "desc" },
+      take: RUN_LOG_LIMIT,
+    })
+
+    const counts = await prisma.sIPExecution.groupBy({
+      by: ["runId", "status"],
+      where: {
+        userId: session.user.id,
+        runId: { in: runs.map(run => run.id) },
+      },
+      _count: { _all: true },
+    })
+
+    const countFor = (runId: string, status: string) =>
+      counts.find(count => count.runId === runId && count.status === status)?._count._all ?? 0
+
+    const serializedRuns: SIPExecutionRun[] = runs.map(run => ({
+      id: run.id,
+      trigger: run.trigger,
+      status: run.status,
+      startedAt: run.startedAt.toISOString(),
+      finishedAt: run.finishedAt ? run.finishedAt.toISOString() : null,
+      succeeded: countFor(run.id, "SUCCESS"),
+      failed: countFor(run.id, "FAILED"),
+      pending: countFor(run.id, "PENDING"),
+    }))
+
+    return NextResponse.json(serializedRuns)
+  } catch (error) {
+    console.error("Error fetching SIP execution runs:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch SIP execution runs" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth"
 import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { omitFields, recordAudit, type AuditActor } from "@/lib/audit"
 import { z } from "zod"
 
 const updateTransactionSchema = z.object({
@@ -10,11 +11,123 @@ const updateTransactionSchema = z.object({
   amount: z.number().positive().optional(),
   currency: z.string().optional(),
   amountInr: z.number().positive().optional().nullable(),
-  usdInrRate: z.number().positive().optional().nullable(),
+  inrRate: z.number().positive().optional().nullable(),
   purchaseDate: z.string().optional(),
   description: z.string().optional(),
 })
 
+type TransactionWithHolding = NonNullable<Awaited<ReturnType<typeof findTransaction>>>
+
+function findTransaction(id: string) {
+  return prisma.transaction.findUnique({
+    where: { id },
+    include: { holding: true },
+  })
+}
+
+/**
+ * Reverse a sale: add the sold units back at their FIFO cost and drop the booked capital gain lots
+ * Only the latest sale of a symbol can be reversed, since later sales were matched after it
+ */
+async function deleteSellTransaction(transaction: TransactionWithHolding, actor: AuditActor) {
+  const laterSale = await prisma.transaction.findFirst({
+    where: {
+      userId: transaction.userId,
+      bucket: transaction.bucket,
+      symbol: transaction.symbol,
+      transactionType: "SELL",
+      id: { not: transaction.id },
+      OR: [
+        { purchaseDate: { gt: transaction.purchaseDate } },
+        { purchaseDate: transaction.purchaseDate, createdAt: { gt: transaction.createdAt } },
+      ],
+    },
+  })
+
+  if (laterSale) {
+    return NextResponse.json(
+      { error: "Cannot delete: a later sale of this holding exists. Delete the later sale first" },
+      { status: 400 }
+    )
+  }
+
+  const soldQty = Number(transaction.qty)
+  const costBasis = transaction.costBasis ? Number(transaction.costBasis) : soldQty * Number(transaction.price)
+
+  // The holding is deleted when fully sold; it may have been bought again since
+  const holding = transaction.holding ?? await prisma.holding.findFirst({
+    where: {
+      userId: transaction.userId,
+      bucket: transaction.bucket,
+      symbol: { equals: transaction.symbol, mode: "insensitive" },
+    },
+  })
+
+  if (holding) {
+    const oldQty = Number(holding.qty)
+    const newQty = oldQty + soldQty
+    const newAvgCost = (oldQty * Number(holding.avgCost) + costBasis) / newQty
+
+    const [savedHolding] = await prisma.$transaction([
+      prisma.holding.update({
+        where: { id: holding.id },
+        data: {
+          qty: newQty,
+          avgCost: newAvgCost,
+          updatedAt: new Date(),
+        },
+      }),
+      prisma.transaction.delete({ where: { id: transaction.id } }),
+    ])
+    await recordAudit(prisma, actor, {
+      entity: "HOLDING",
+      entityId: holding.id,
+      action: "UPDATE",
+      operation: "sale deleted",
+      before: holding,
+      after: savedHolding,
+    })
+  } else {
+    // Recreate the holding, deriving the INR rate from the INR cost of the matched lots
+    const lots = await prisma.capitalGainLot.findMany({ where: { sellTransactionId: transaction.id } })
+    const costInr = lots.reduce((sum, lot) => sum + Number(lot.costOfAcquisition), 0)
+
+    const [createdHolding] = await prisma.$transaction([
+      prisma.holding.create({
+        data: {
+          userId: transaction.userId,
+          bucket: transaction.bucket,
+          symbol: transaction.symbol,
+          name: transaction.name,
+          qty: soldQty,
+          avgCost: costBasis / soldQty,
+          currency: transaction.currency,
+          inrRate: transaction.currency !== "INR" && costBasis > 0 ? costInr / costBasis : null,
+        },
+      }),
+      prisma.transaction.delete({ where: { id: transaction.id } }),
+    ])
+    await recordAudit(prisma, actor, {
+      entity: "HOLDING",
+      entityId: createdHolding.id,
+      action: "CREATE",
+      operation: "sale deleted",
+      after: createdHolding,
+    })
+  }
+  await recordAudit(prisma, actor, {
+    entity: "TRANSACTION",
+    entityId: transaction.id,
+    action: "DELETE",
+    before: omitFields(transaction, "holding"),
+  })
+
+  return NextResponse.json({
+    message: "Sale deleted successfully",
+    holdingDeleted: false,
+  })
+}
+
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -29,10 +142,7 @@ export async function DELETE(
     const { id } = await params
 
     // Get the transaction with holding info
-    const transaction = await prisma.transaction.findUnique({
-      where: { id },
-      include: { holding: true },
-    })
+    const transaction = await findTransaction(id)
 
     if (!transaction) {
       return NextResponse.json({ error: "Transaction not found" }, { status: 404 })
@@ -42,9 +152,23 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    if (transaction.transactionType === "SELL") {
+      return deleteSellTransaction(transaction, session.user)
+    }
+
+    // Purchases already matched against a sale are part of the capital gains record
+    const matchedLots = await prisma.capitalGainLot.count({ where: { buyTransactionId: id } })
+    if (matchedLots > 0) {
+      return NextResponse.json(
+        { error: "Cannot delete: this purchase has been matched against a sale. Delete the sale first" },
+        { status: 400 }
+      )
+    }
+
     // If there's no associated holding, just delete the transaction
     if (!transaction.holding) {
       await prisma.transaction.delete({ where: { id } })
+      await recordAudit(prisma, session.user, { entity: "TRANSACTION", entityId: id, action: "DELETE", before: omitFields(transaction, "holding") })
       return NextResponse.json({ message: "Transaction deleted successfully" })
     }
 
@@ -72,38 +196,48 @@ export async function DELETE(
         prisma.transaction.delete({ where: { id } }),
         prisma.holding.delete({ where: { id: holding.id } }),
       ])
+      await recordAudit(prisma, session.user, { entity: "HOLDING", entityId: holding.id, action: "DELETE", before: holding })
     } else {
       // Calculate new average cost
       // Formula: newAvgCost = (oldQty * oldAvgCost - removedQty * removedPrice) / newQty
       const newAvgCost = (oldQty * oldAvgCost - removedQty * removedPrice) / newQty
 
-      // For USD holdings with weighted exchange rate, recalculate
-      let newUsdInrRate = holding.usdInrRate ? Number(holding.usdInrRate) : null
+      // For foreign currency holdings with weighted exchange rate, recalculate
+      let newInrRate = holding.inrRate ? Number(holding.inrRate) : null
 
-      if (holding.currency === "USD" && transaction.usdInrRate && holding.usdInrRate) {
-        // Recalculate weighted USD/INR rate
-        const oldRate = Number(holding.usdInrRate)
-        const removedRate = Number(transaction.usdInrRate)
+      if (holding.currency !== "INR" && transaction.inrRate && holding.inrRate) {
+        // Recalculate weighted INR rate
+        const oldRate = Number(holding.inrRate)
+        const removedRate = Number(transaction.inrRate)
 
         // Remove the contribution of this transaction from the weighted average
         // Formula: newRate = (oldQty * oldRate - removedQty * removedRate) / newQty
-        newUsdInrRate = (oldQty * oldRate - removedQty * removedRate) / newQty
+        newInrRate = (oldQty * oldRate - removedQty * removedRate) / newQty
       }
 
       // Update holding and delete transaction
-      await prisma.$transaction([
+      const [savedHolding] = await prisma.$transaction([
         prisma.holding.update({
           where: { id: holding.id },
           data: {
             qty: newQty,
             avgCost: newAvgCost,
-            usdInrRate: newUsdInrRate,
+            inrRate: newInrRate,
             updatedAt: new Date(),
           },
         }),
         prisma.transaction.delete({ where: { id } }),
       ])
+      await recordAudit(prisma, session.user, {
+        entity: "HOLDING",
+        entityId: holding.id,
+        action: "UPDATE",
+        operation: "transaction deleted",
+        before: holding,
+        after: savedHolding,
+      })
     }
+    await recordAudit(prisma, session.user, { entity: "TRANSACTION", entityId: id, action: "DELETE", before: omitFields(transaction, "holding") })
 
     return NextResponse.json({
       message: "Transaction deleted successfully",
@@ -134,10 +268,7 @@ export async function PATCH(
     const data = updateTransactionSchema.parse(body)
 
     // Get the transaction with holding info
-    const transaction = await prisma.transaction.findUnique({
-      where: { id },
-      include: { holding: true },
-    })
+    const transaction = await findTransaction(id)
 
     if (!transaction) {
       return NextResponse.json({ error: "Transaction not found" }, { status: 404 })
@@ -147,6 +278,21 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
+    if (transaction.transactionType === "SELL") {
+      return NextResponse.json(
+        { error: "Sales cannot be edited. Delete the sale and record it again" },
+        { status: 400 }
+      )
+    }
+
+    const matchedLots = await prisma.capitalGainLot.count({ where: { buyTransactionId: id } })
+    if (matchedLots > 0 && (data.qty !== undefined || data.price !== undefined || data.purchaseDate !== undefined)) {
+      return NextResponse.json(
+        { error: "Cannot update: this purchase has been matched against a sale. Delete the sale first" },
+        { status: 400 }
+      )
+    }
+
     // If there's no holding, just update the transaction
     if (!transaction.holding) {
       const updated = await prisma.transaction.update({
@@ -157,11 +303,18 @@ export async function PATCH(
           amount: data.amount,
           currency: data.currency,
           amountInr: data.amountInr,
-          usdInrRate: data.usdInrRate,
+          inrRate: data.inrRate,
           purchaseDate: data.purchaseDate ? new Date(data.purchaseDate) : undefined,
           description: data.description,
         },
       })
+      await recordAudit(prisma, session.user, {
+        entity: "TRANSACTION",
+        entityId: id,
+        action: "UPDATE",
+        before: omitFields(transaction, "holding"),
+        after: updated,
+      })
       return NextResponse.json(updated)
     }
 
@@ -199,16 +352,16 @@ export async function PATCH(
       newAvgCost = (qtyWithoutOldTxn * avgCostWithoutOldTxn + newTxnQty * newTxnPrice) / newQty
     }
 
-    // Handle USD/INR rate updates for USD holdings
-    let newUsdInrRate = holding.usdInrRate ? Number(holding.usdInrRate) : null
+    // Handle INR rate updates for foreign currency holdings
+    let newInrRate = holding.inrRate ? Number(holding.inrRate) : null
 
-    if (holding.currency === "USD") {
-      const oldTxnRate = transaction.usdInrRate ? Number(transaction.usdInrRate) : null
-      const newTxnRate = data.usdInrRate !== undefined ? data.usdInrRate : oldTxnRate
+    if (holding.currency !== "INR") {
+      const oldTxnRate = transaction.inrRate ? Number(transaction.inrRate) : null
+      const newTxnRate = data.inrRate !== undefined ? data.inrRate : oldTxnRate
 
-      if (oldTxnRate && holding.usdInrRate) {
+      if (oldTxnRate && holding.inrRate) {
         // Remove old transaction's contribution
-        const holdingRate = Number(holding.usdInrRate)
+        const holdingRate = Number(holding.inrRate)
         let rateWithoutOldTxn = 0
 
         if (qtyWithoutOldTxn > 0) {
@@ -218,9 +371,9 @@ export async function PATCH(
         // Apply new transaction's rate
         if (newTxnRate) {
           if (qtyWithoutOldTxn === 0) {
-            newUsdInrRate = newTxnRate
+            newInrRate = newTxnRate
           } else {
-            newUsdInrRate = (qtyWithoutOldTxn * rateWithoutOldTxn + newTxnQty * newTxnRate) / newQty
+            newInrRate = (qtyWithoutOldTxn * rateWithoutOldTxn + newTxnQty * newTxnRate) / newQty
           }
         }
       }
@@ -230,14 +383,14 @@ export async function PATCH(
     let newAmount = data.amount ?? Number(transaction.amount)
     let newAmountInr = data.amountInr !== undefined ? data.amountInr : (transaction.amountInr ? Number(transaction.amountInr) : null)
     const newCurrency = data.currency ?? transaction.currency
-    const txnUsdInrRate = data.usdInrRate !== undefined ? data.usdInrRate : (transaction.usdInrRate ? Number(transaction.usdInrRate) : null)
+    const txnInrRate = data.inrRate !== undefined ? data.inrRate : (transaction.inrRate ? Number(transaction.inrRate) : null)
 
     // Recalculate amount/amountInr if qty or price changed
     if (data.qty !== undefined || data.price !== undefined) {
-      if (newCurrency === "USD" && txnUsdInrRate) {
+      if (newCurrency !== "INR" && txnInrRate) {
         newAmount = newTxnQty * newTxnPrice
         if (!newAmountInr) {
-          newAmountInr = newAmount * txnUsdInrRate
+          newAmountInr = newAmount * txnInrRate
         }
       } else {
         newAmount = newTxnQty * newTxnPrice
@@ -245,7 +398,7 @@ export async function PATCH(
     }
 
     // Update both transaction and holding in a transaction
-    const [updatedTransaction] = await prisma.$transaction([
+    const [updatedTransaction, savedHolding] = await prisma.$transaction([
       prisma.transaction.update({
         where: { id },
         data: {
@@ -254,7 +407,7 @@ export async function PATCH(
           amount: newAmount,
           currency: newCurrency,
           amountInr: newAmountInr,
-          usdInrRate: txnUsdInrRate,
+          inrRate: txnInrRate,
           purchaseDate: data.purchaseDate ? new Date(data.purchaseDate) : undefined,
           description: data.description,
         },
@@ -264,11 +417,26 @@ export async function PATCH(
         data: {
           qty: newQty,
           avgCost: newAvgCost,
-          usdInrRate: newUsdInrRate,
+          inrRate: newInrRate,
           updatedAt: new Date(),
         },
       }),
     ])
+    await recordAudit(prisma, session.user, {
+      entity: "TRANSACTION",
+      entityId: id,
+      action: "UPDATE",
+      before: omitFields(transaction, "holding"),
+      after: updatedTransaction,
+    })
+    await recordAudit(prisma, session.user, {
+      entity: "HOLDING",
+      entityId: holding.id,
+      action: "UPDATE",
+      operation: "transaction edited",
+      before: holding,
+      after: savedHolding,
+    })
 
     return NextResponse.json(updatedTransaction)
   } catch (error) {
@@ -63,7 +63,9 @@ export async function GET(request: Request) {
       price: Number(txn.price),
       amount: Number(txn.amount),
       amountInr: txn.amountInr ? Number(txn.amountInr) : null,
-      usdInrRate: txn.usdInrRate ? Number(txn.usdInrRate) : null,
+      inrRate: txn.inrRate ? Number(txn.inrRate) : null,
+      costBasis: txn.costBasis ? Number(txn.costBasis) : null,
+      realizedGain: txn.realizedGain ? Number(txn.realizedGain) : null,
       purchaseDate: txn.purchaseDate.toISOString(),
       createdAt: txn.createdAt.toISOString(),
       updatedAt: txn.updatedAt.toISOString(),
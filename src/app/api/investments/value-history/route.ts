@@ -0,0 +1,31 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { getPortfolioValueHistory } from "@/lib/portfolio-returns"
+import { NET_WORTH_DEFAULT_RANGE_DAYS, NET_WORTH_MAX_RANGE_DAYS } from "@/constants"
+
+// Get the daily portfolio value and net amount invested, valued from the price history
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedDays = parseInt(searchParams.get("days") || "")
+    const days = Number.isNaN(requestedDays) || requestedDays <= 0
+      ? NET_WORTH_DEFAULT_RANGE_DAYS
+      : Math.min(requestedDays, NET_WORTH_MAX_RANGE_DAYS)
+
+    const history = await getPortfolioValueHistory(session.user.id, days)
+
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error("Error fetching portfolio value history:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch portfolio value history" },
+      { status: 500 }
+    )
+  }
+}
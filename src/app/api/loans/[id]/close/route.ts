@@ -5,6 +5,9 @@ import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
 import { Prisma } from "@/generated/prisma"
+import { omitFields, recordAudit } from "@/lib/audit"
+import { withMaskedAccountNumber } from "@/lib/field-encryption"
+import { LOAN_SCHEDULE_TRANSACTION_OPTIONS } from "@/lib/loan-schedule"
 
 const closeSchema = z.object({
   paidAmount: z.number().positive(),
@@ -102,7 +105,7 @@ export async function POST(
         // Update remaining principal
         remainingPrincipal = Math.max(0, remainingPrincipal - principalPortion)
 
-        await tx.eMI.update({
+        const paidEmi = await tx.eMI.update({
           where: { id: emi.id },
           data: {
             isPaid: true,
@@ -115,6 +118,14 @@ export async function POST(
             paymentNotes: `Loan closed early. ${data.paymentNotes || ""}`.trim(),
           },
         })
+        await recordAudit(tx, session.user, {
+          entity: "EMI",
+          entityId: emi.id,
+          action: "UPDATE",
+          operation: "loan closed",
+          before: emi,
+          after: paidEmi,
+        })
       }
 
       // Update loan as closed
@@ -138,12 +149,21 @@ export async function POST(
         },
       })
 
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: loanId,
+        action: "UPDATE",
+        operation: "close",
+        before: omitFields(loan, "emis"),
+        after: updatedLoan,
+      })
+
       return updatedLoan
-    })
+    }, LOAN_SCHEDULE_TRANSACTION_OPTIONS)
 
     return NextResponse.json({
       loan: {
-        ...result,
+        ...withMaskedAccountNumber(result),
         principalAmount: Number(result.principalAmount),
         interestRate: Number(result.interestRate),
         emiAmount: Number(result.emiAmount),
@@ -3,6 +3,7 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { recordAudit } from "@/lib/audit"
 
 const editPaymentSchema = z.object({
   paidAmount: z.number().positive(),
@@ -72,27 +73,47 @@ export async function PATCH(
     const principal = data.principalPaid ?? 0
     const interest = data.interestPaid ?? 0
 
-    // Update EMI
-    const updatedEmi = await prisma.eMI.update({
-      where: { id: emiId },
-      data: {
-        paidAmount: data.paidAmount,
-        paidDate: new Date(data.paidDate),
-        principalPaid: principal,
-        interestPaid: interest,
-        lateFee: data.lateFee,
-        paymentMethod: data.paymentMethod,
-        paymentNotes: data.paymentNotes,
-      },
-    })
+    const updatedEmi = await prisma.$transaction(async (tx) => {
+      // Update EMI
+      const emi = await tx.eMI.update({
+        where: { id: emiId },
+        data: {
+          paidAmount: data.paidAmount,
+          paidDate: new Date(data.paidDate),
+          principalPaid: principal,
+          interestPaid: interest,
+          lateFee: data.lateFee,
+          paymentMethod: data.paymentMethod,
+          paymentNotes: data.paymentNotes,
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "EMI",
+        entityId: emiId,
+        action: "UPDATE",
+        operation: "payment edited",
+        before: existingEmi,
+        after: emi,
+      })
 
-    // Update loan totals
-    await prisma.loan.update({
-      where: { id: loanId },
-      data: {
-        totalPaid: newTotalPaid,
-        currentOutstanding: Math.max(0, newOutstanding),
-      },
+      // Update loan totals
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          totalPaid: newTotalPaid,
+          currentOutstanding: Math.max(0, newOutstanding),
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: loanId,
+        action: "UPDATE",
+        operation: "payment edited",
+        before: loan,
+        after: updatedLoan,
+      })
+
+      return emi
     })
 
     return NextResponse.json({
@@ -4,6 +4,8 @@ import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { omitFields, recordAudit } from "@/lib/audit"
+import { withMaskedAccountNumber } from "@/lib/field-encryption"
 
 const paymentSchema = z.object({
   paidAmount: z.number().positive(),
@@ -98,6 +100,14 @@ export async function POST(
       },
     })
     console.log("EMI updated successfully:", updatedEmi)
+    await recordAudit(prisma, session.user, {
+      entity: "EMI",
+      entityId: emiId,
+      action: "UPDATE",
+      operation: "pay",
+      before: emi,
+      after: updatedEmi,
+    })
 
     // Update loan's current outstanding and total paid
     const newOutstanding = Math.max(
@@ -125,10 +135,18 @@ export async function POST(
       },
     })
     console.log("Loan updated successfully:", updatedLoan)
+    await recordAudit(prisma, session.user, {
+      entity: "LOAN",
+      entityId: loanId,
+      action: "UPDATE",
+      operation: "EMI paid",
+      before: omitFields(loan, "emis"),
+      after: updatedLoan,
+    })
 
     return NextResponse.json({
       emi: updatedEmi,
-      loan: updatedLoan,
+      loan: withMaskedAccountNumber(updatedLoan),
       message: shouldCloseLoan
         ? "Payment recorded and loan closed successfully!"
         : "Payment recorded successfully!",
@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth"
 import { NextResponse } from "next/server"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { recordAudit } from "@/lib/audit"
 
 export async function DELETE(
   request: Request,
@@ -53,28 +54,46 @@ export async function DELETE(
     const newTotalPaid = Math.max(0, Number(loan.totalPaid) - paidAmount)
     const newOutstanding = Number(loan.currentOutstanding) + paidAmount
 
-    // Mark EMI as unpaid and clear payment details
-    await prisma.eMI.update({
-      where: { id: emiId },
-      data: {
-        isPaid: false,
-        paidAmount: null,
-        paidDate: null,
-        principalPaid: null,
-        interestPaid: null,
-        lateFee: null,
-        paymentMethod: null,
-        paymentNotes: null,
-      },
-    })
+    await prisma.$transaction(async (tx) => {
+      // Mark EMI as unpaid and clear payment details
+      const unpaidEmi = await tx.eMI.update({
+        where: { id: emiId },
+        data: {
+          isPaid: false,
+          paidAmount: null,
+          paidDate: null,
+          principalPaid: null,
+          interestPaid: null,
+          lateFee: null,
+          paymentMethod: null,
+          paymentNotes: null,
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "EMI",
+        entityId: emiId,
+        action: "UPDATE",
+        operation: "payment deleted",
+        before: existingEmi,
+        after: unpaidEmi,
+      })
 
-    // Update loan totals
-    await prisma.loan.update({
-      where: { id: loanId },
-      data: {
-        totalPaid: newTotalPaid,
-        currentOutstanding: newOutstanding,
-      },
+      // Update loan totals
+      const updatedLoan = await tx.loan.update({
+        where: { id: loanId },
+        data: {
+          totalPaid: newTotalPaid,
+          currentOutstanding: newOutstanding,
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: loanId,
+        action: "UPDATE",
+        operation: "payment deleted",
+        before: loan,
+        after: updatedLoan,
+      })
     })
 
     return NextResponse.json({
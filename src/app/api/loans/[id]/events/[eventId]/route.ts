@@ -0,0 +1,84 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { LOAN_SCHEDULE_TRANSACTION_OPTIONS, regenerateLoanSchedule } from "@/lib/loan-schedule"
+import { omitFields, recordAudit } from "@/lib/audit"
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; eventId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: loanId, eventId } = await params
+
+    const event = await prisma.loanEvent.findFirst({
+      where: {
+        id: eventId,
+        loanId,
+        loan: { userId: session.user.id },
+      },
+      include: { loan: true },
+    })
+
+    if (!event) {
+      return NextResponse.json({ error: "Loan event not found" }, { status: 404 })
+    }
+
+    if (event.loan.isClosed) {
+      return NextResponse.json(
+        { error: "Loan is already closed" },
+        { status: 400 }
+      )
+    }
+
+    await validateMonthNotClosed(session.user.id, event.effectiveDate, "delete this loan event")
+
+    await prisma.$transaction(async (tx) => {
+      await tx.loanEvent.delete({ where: { id: eventId } })
+      await recordAudit(tx, session.user, {
+        entity: "LOAN_EVENT",
+        entityId: eventId,
+        action: "DELETE",
+        before: omitFields(event, "loan"),
+      })
+
+      if (event.type === "PREPAYMENT" && event.amount) {
+        await tx.loan.update({
+          where: { id: loanId },
+          data: { totalPaid: { decrement: event.amount } },
+        })
+      }
+
+      await regenerateLoanSchedule(loanId, session.user, tx)
+
+      const updatedLoan = await tx.loan.findUniqueOrThrow({ where: { id: loanId } })
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: loanId,
+        action: "UPDATE",
+        operation: "event deleted",
+        before: event.loan,
+        after: updatedLoan,
+      })
+    }, LOAN_SCHEDULE_TRANSACTION_OPTIONS)
+
+    return NextResponse.json({ message: "Loan event deleted and EMI schedule updated" })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("month has been closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error deleting loan event:", error)
+    return NextResponse.json(
+      { error: "Failed to delete loan event" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,182 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import {
+  LOAN_SCHEDULE_TRANSACTION_OPTIONS,
+  regenerateLoanSchedule,
+  serializeLoanEvent,
+  serializeLoanSchedule,
+} from "@/lib/loan-schedule"
+import { Prisma } from "@/generated/prisma"
+import { recordAudit } from "@/lib/audit"
+
+const loanEventSchema = z.object({
+  type: z.enum(["PREPAYMENT", "RATE_CHANGE", "TENURE_CHANGE", "EMI_CHANGE"]),
+  effectiveDate: z.string().min(1, "Effective date is required"),
+  amount: z.number().positive().optional(),
+  interestRate: z.number().min(0).max(100).optional(),
+  tenure: z.number().int().positive().max(600).optional(),
+  emiAmount: z.number().positive().optional(),
+  strategy: z.enum(["REDUCE_EMI", "REDUCE_TENURE"]).default("REDUCE_TENURE"),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]).optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.type !== "PREPAYMENT" || data.amount !== undefined, {
+  message: "Prepayment amount is required",
+}).refine((data) => data.type !== "RATE_CHANGE" || data.interestRate !== undefined, {
+  message: "New interest rate is required",
+}).refine((data) => data.type !== "TENURE_CHANGE" || data.tenure !== undefined, {
+  message: "Remaining installments are required",
+}).refine((data) => data.type !== "EMI_CHANGE" || data.emiAmount !== undefined, {
+  message: "New EMI amount is required",
+})
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const loan = await prisma.loan.findFirst({
+      where: { id, userId: session.user.id },
+      include: { events: { orderBy: { effectiveDate: "asc" } } },
+    })
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(loan.events.map(serializeLoanEvent))
+  } catch (error) {
+    console.error("Error fetching loan events:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch loan events" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Record a prepayment, rate revision, tenure change or EMI change
+ * The unpaid EMIs and the loan's rate, EMI, tenure and outstanding are regenerated from the schedule
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id: loanId } = await params
+    const body = await request.json()
+    const data = loanEventSchema.parse(body)
+
+    const effectiveDate = new Date(data.effectiveDate)
+    await validateMonthNotClosed(session.user.id, effectiveDate, "record this loan event")
+
+    const loan = await prisma.loan.findFirst({
+      where: { id: loanId, userId: session.user.id },
+    })
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 })
+    }
+
+    if (loan.isClosed) {
+      return NextResponse.json(
+        { error: "Loan is already closed" },
+        { status: 400 }
+      )
+    }
+
+    if (effectiveDate < loan.startDate) {
+      return NextResponse.json(
+        { error: "Effective date cannot be before the loan start date" },
+        { status: 400 }
+      )
+    }
+
+    if (data.type === "PREPAYMENT" && data.amount! > Number(loan.currentOutstanding)) {
+      return NextResponse.json(
+        { error: "Prepayment exceeds the outstanding balance. Close the loan instead." },
+        { status: 400 }
+      )
+    }
+
+    const { event, schedule } = await prisma.$transaction(async (tx) => {
+      const event = await tx.loanEvent.create({
+        data: {
+          loanId,
+          type: data.type,
+          effectiveDate,
+          amount: data.type === "PREPAYMENT" ? new Prisma.Decimal(data.amount!) : null,
+          interestRate: data.type === "RATE_CHANGE" ? new Prisma.Decimal(data.interestRate!) : null,
+          tenure: data.type === "TENURE_CHANGE" ? data.tenure : null,
+          emiAmount: data.type === "EMI_CHANGE" ? new Prisma.Decimal(data.emiAmount!) : null,
+          strategy: data.strategy,
+          paymentMethod: data.type === "PREPAYMENT" ? data.paymentMethod : null,
+          notes: data.notes,
+        },
+      })
+      await recordAudit(tx, session.user, { entity: "LOAN_EVENT", entityId: event.id, action: "CREATE", after: event })
+
+      if (data.type === "PREPAYMENT") {
+        await tx.loan.update({
+          where: { id: loanId },
+          data: { totalPaid: { increment: data.amount! } },
+        })
+      }
+
+      const schedule = await regenerateLoanSchedule(loanId, session.user, tx)
+
+      const updatedLoan = await tx.loan.findUniqueOrThrow({ where: { id: loanId } })
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: loanId,
+        action: "UPDATE",
+        operation: "event recorded",
+        before: loan,
+        after: updatedLoan,
+      })
+
+      return { event, schedule }
+    }, LOAN_SCHEDULE_TRANSACTION_OPTIONS)
+
+    return NextResponse.json(
+      {
+        event: serializeLoanEvent(event),
+        schedule: serializeLoanSchedule(schedule, false),
+        message: "Loan event recorded and EMI schedule updated",
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+    if (error instanceof Error && error.message.includes("month has been closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error recording loan event:", error)
+    return NextResponse.json(
+      { error: "Failed to record loan event" },
+      { status: 500 }
+    )
+  }
+}
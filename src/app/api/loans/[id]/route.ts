@@ -3,6 +3,16 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { omitFields, recordAudit, recordAuditMany } from "@/lib/audit"
+import { loanAccountNumberData, withMaskedAccountNumber } from "@/lib/field-encryption"
+import type { GoldLoanItem, Loan } from "@/generated/prisma"
+import { LOAN_SCHEDULE_TRANSACTION_OPTIONS } from "@/lib/loan-schedule"
+
+// Gold items are recreated on every save, so they are audited by value rather than by id
+const auditedLoan = (loan: Loan & { goldItems: GoldLoanItem[] }) => ({
+  ...omitFields(loan, "goldItems"),
+  goldItems: loan.goldItems.map(item => omitFields(item, "id", "loanId", "createdAt", "updatedAt")),
+})
 
 const loanUpdateSchema = z.object({
   loanType: z
@@ -62,7 +72,7 @@ export async function GET(
     })
 
     const transformedLoan = {
-      ...loan,
+      ...withMaskedAccountNumber(loan),
       principalAmount: Number(loan.principalAmount),
       interestRate: Number(loan.interestRate),
       emiAmount: Number(loan.emiAmount),
@@ -114,25 +124,29 @@ export async function PATCH(
     }
 
     const body = await request.json()
-    const data = loanUpdateSchema.parse(body)
+    const { accountNumber, ...data } = loanUpdateSchema.parse(body)
 
-    const loan = await prisma.loan.updateMany({
+    const existingLoan = await prisma.loan.findFirst({
       where: {
         id,
         userId: session.user.id,
       },
-      data,
     })
 
-    if (loan.count === 0) {
+    if (!existingLoan) {
       return NextResponse.json({ error: "Loan not found" }, { status: 404 })
     }
 
-    const updatedLoan = await prisma.loan.findUnique({
-      where: { id },
+    const updatedLoan = await prisma.$transaction(async (tx) => {
+      const updated = await tx.loan.update({
+        where: { id },
+        data: { ...data, ...loanAccountNumberData(accountNumber) },
+      })
+      await recordAudit(tx, session.user, { entity: "LOAN", entityId: id, action: "UPDATE", before: existingLoan, after: updated })
+      return updated
     })
 
-    return NextResponse.json(updatedLoan)
+    return NextResponse.json(withMaskedAccountNumber(updatedLoan))
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
@@ -167,6 +181,7 @@ export async function PUT(
       },
       include: {
         emis: true,
+        goldItems: true,
       },
     })
 
@@ -182,234 +197,265 @@ export async function PUT(
     // If payment schedule, frequency, or start date changed, regenerate unpaid EMIs
     const shouldRegenerateEMIs = scheduleChanged || frequencyChanged || startDateChanged
 
-    // Delete existing gold items if updating a gold loan
-    if (body.goldItems) {
-      await prisma.goldLoanItem.deleteMany({
-        where: { loanId: id },
-      })
-    }
+    // The loan, its regenerated EMIs and their audit entries are saved together
+    const finalLoan = await prisma.$transaction(async (tx) => {
+      // Delete existing gold items if updating a gold loan
+      if (body.goldItems) {
+        await tx.goldLoanItem.deleteMany({
+          where: { loanId: id },
+        })
+      }
 
-    // If we need to regenerate EMIs, delete only unpaid EMIs
-    if (shouldRegenerateEMIs) {
-      await prisma.eMI.deleteMany({
-        where: {
-          loanId: id,
-          isPaid: false,
+      // If we need to regenerate EMIs, delete only unpaid EMIs
+      if (shouldRegenerateEMIs) {
+        await tx.eMI.deleteMany({
+          where: {
+            loanId: id,
+            isPaid: false,
+          },
+        })
+        await recordAuditMany(tx, session.user, existingLoan.emis.filter(emi => !emi.isPaid).map(emi => ({
+          entity: "EMI",
+          entityId: emi.id,
+          action: "DELETE",
+          operation: "schedule regenerated",
+          before: emi,
+        })))
+      }
+
+      // Update the loan
+      await tx.loan.update({
+        where: { id },
+        data: {
+          loanType: body.loanType,
+          institution: body.institution,
+          accountHolderName: body.accountHolderName,
+          principalAmount: body.principalAmount,
+          currency: body.currency,
+          interestRate: body.interestRate,
+          tenure: body.tenure,
+          emiAmount: body.emiAmount,
+          emiFrequency: body.emiFrequency,
+          startDate: body.startDate ? new Date(body.startDate) : undefined,
+          ...loanAccountNumberData(body.accountNumber),
+          description: body.description,
+          paymentSchedule: body.paymentSchedule || null,
+          goldItems: body.goldItems
+            ? {
+                create: body.goldItems.map((item: {
+                  title: string
+                  carat: number
+                  quantity: number
+                  grossWeight: number
+                  netWeight: number
+                  loanAmount?: number
+                }) => ({
+                  title: item.title,
+                  carat: item.carat,
+                  quantity: item.quantity,
+                  grossWeight: item.grossWeight,
+                  netWeight: item.netWeight,
+                  loanAmount: item.loanAmount,
+                })),
+              }
+            : undefined,
+        },
+        include: {
+          emis: true,
+          goldItems: true,
         },
       })
-    }
 
-    // Update the loan
-    await prisma.loan.update({
-      where: { id },
-      data: {
-        loanType: body.loanType,
-        institution: body.institution,
-        accountHolderName: body.accountHolderName,
-        principalAmount: body.principalAmount,
-        interestRate: body.interestRate,
-        tenure: body.tenure,
-        emiAmount: body.emiAmount,
-        emiFrequency: body.emiFrequency,
-        startDate: body.startDate ? new Date(body.startDate) : undefined,
-        accountNumber: body.accountNumber,
-        description: body.description,
-        paymentSchedule: body.paymentSchedule || null,
-        goldItems: body.goldItems
-          ? {
-              create: body.goldItems.map((item: {
-                title: string
-                carat: number
-                quantity: number
-                grossWeight: number
-                netWeight: number
-                loanAmount?: number
-              }) => ({
-                title: item.title,
-                carat: item.carat,
-                quantity: item.quantity,
-                grossWeight: item.grossWeight,
-                netWeight: item.netWeight,
-                loanAmount: item.loanAmount,
-              })),
+      // If we need to regenerate EMIs, create new unpaid EMIs
+      if (shouldRegenerateEMIs) {
+        // Count how many EMIs were paid
+        const paidEmisCount = existingLoan.emis.filter(emi => emi.isPaid).length
+        const remainingEMIs = body.tenure - paidEmisCount
+
+        if (remainingEMIs > 0) {
+          const startDate = new Date(body.startDate)
+          const startYear = startDate.getFullYear()
+          const newEmis = []
+
+          // Create a map of custom EMI amounts if provided
+          const customEMIMap = new Map<number, number>()
+          if (body.customEMIs && body.customEMIs.length > 0) {
+            body.customEMIs.forEach((emi: { installmentNumber: number; amount: number }) => {
+              customEMIMap.set(emi.installmentNumber, emi.amount)
+            })
+          }
+
+          // Helper function to calculate months between payments based on frequency
+          const getMonthsIncrement = (frequency: string): number => {
+            switch (frequency) {
+              case "MONTHLY":
+                return 1
+              case "QUARTERLY":
+                return 3
+              case "HALF_YEARLY":
+                return 6
+              case "ANNUALLY":
+                return 12
+              case "CUSTOM":
+                return 1
+              default:
+                return 1
             }
-          : undefined,
-      },
-      include: {
-        emis: true,
-        goldItems: true,
-      },
-    })
+          }
 
-    // If we need to regenerate EMIs, create new unpaid EMIs
-    if (shouldRegenerateEMIs) {
-      // Count how many EMIs were paid
-      const paidEmisCount = existingLoan.emis.filter(emi => emi.isPaid).length
-      const remainingEMIs = body.tenure - paidEmisCount
-
-      if (remainingEMIs > 0) {
-        const startDate = new Date(body.startDate)
-        const startYear = startDate.getFullYear()
-        const newEmis = []
-
-        // Create a map of custom EMI amounts if provided
-        const customEMIMap = new Map<number, number>()
-        if (body.customEMIs && body.customEMIs.length > 0) {
-          body.customEMIs.forEach((emi: { installmentNumber: number; amount: number }) => {
-            customEMIMap.set(emi.installmentNumber, emi.amount)
-          })
-        }
+          if (body.paymentSchedule && body.paymentSchedule.dates.length > 0) {
+            const { dates } = body.paymentSchedule
+            const monthsIncrement = getMonthsIncrement(body.emiFrequency)
 
-        // Helper function to calculate months between payments based on frequency
-        const getMonthsIncrement = (frequency: string): number => {
-          switch (frequency) {
-            case "MONTHLY":
-              return 1
-            case "QUARTERLY":
-              return 3
-            case "HALF_YEARLY":
-              return 6
-            case "ANNUALLY":
-              return 12
-            case "CUSTOM":
-              return 1
-            default:
-              return 1
-          }
-        }
+            let totalPayments: number
+            if (body.emiFrequency === "CUSTOM") {
+              totalPayments = Math.ceil(body.tenure / dates.length)
+            } else {
+              totalPayments = Math.ceil(body.tenure / monthsIncrement)
+            }
 
-        if (body.paymentSchedule && body.paymentSchedule.dates.length > 0) {
-          const { dates } = body.paymentSchedule
-          const monthsIncrement = getMonthsIncrement(body.emiFrequency)
+            // Calculate minimum first EMI date (at least one frequency period after start date)
+            const minFirstEmiDate = new Date(startDate)
+            minFirstEmiDate.setMonth(minFirstEmiDate.getMonth() + monthsIncrement)
 
-          let totalPayments: number
-          if (body.emiFrequency === "CUSTOM") {
-            totalPayments = Math.ceil(body.tenure / dates.length)
-          } else {
-            totalPayments = Math.ceil(body.tenure / monthsIncrement)
-          }
+            // Calculate the first occurrence of each schedule date on or after minFirstEmiDate
+            const scheduleWithFirstOccurrence = dates.map((scheduleDate: { month: number; day: number }) => {
+              const firstOccurrence = new Date(startYear, scheduleDate.month - 1, scheduleDate.day)
 
-          // Calculate minimum first EMI date (at least one frequency period after start date)
-          const minFirstEmiDate = new Date(startDate)
-          minFirstEmiDate.setMonth(minFirstEmiDate.getMonth() + monthsIncrement)
+              // Keep moving to next year until we find a date >= minFirstEmiDate
+              while (firstOccurrence < minFirstEmiDate) {
+                firstOccurrence.setFullYear(firstOccurrence.getFullYear() + 1)
+              }
 
-          // Calculate the first occurrence of each schedule date on or after minFirstEmiDate
-          const scheduleWithFirstOccurrence = dates.map((scheduleDate: { month: number; day: number }) => {
-            const firstOccurrence = new Date(startYear, scheduleDate.month - 1, scheduleDate.day)
+              return { scheduleDate, firstOccurrence }
+            })
 
-            // Keep moving to next year until we find a date >= minFirstEmiDate
-            while (firstOccurrence < minFirstEmiDate) {
-              firstOccurrence.setFullYear(firstOccurrence.getFullYear() + 1)
-            }
+            scheduleWithFirstOccurrence.sort((a: { scheduleDate: { month: number; day: number }; firstOccurrence: Date }, b: { scheduleDate: { month: number; day: number }; firstOccurrence: Date }) => a.firstOccurrence.getTime() - b.firstOccurrence.getTime())
 
-            return { scheduleDate, firstOccurrence }
-          })
+            // Generate ALL EMI dates for the full tenure first
+            const allEmiDates: Date[] = []
+            let emisGenerated = 0
+
+            for (let year = 0; year < Math.ceil(totalPayments / dates.length) + 1 && allEmiDates.length < body.tenure; year++) {
+              for (const { firstOccurrence } of scheduleWithFirstOccurrence) {
+                if (allEmiDates.length >= body.tenure) break
 
-          scheduleWithFirstOccurrence.sort((a: { scheduleDate: { month: number; day: number }; firstOccurrence: Date }, b: { scheduleDate: { month: number; day: number }; firstOccurrence: Date }) => a.firstOccurrence.getTime() - b.firstOccurrence.getTime())
+                const dueDate = new Date(firstOccurrence)
+                dueDate.setFullYear(firstOccurrence.getFullYear() + year)
 
-          // Generate ALL EMI dates for the full tenure first
-          const allEmiDates: Date[] = []
-          let emisGenerated = 0
+                allEmiDates.push(dueDate)
+              }
+            }
+
+            // Now skip the first paidEmisCount dates and use the rest
+            for (let i = paidEmisCount; i < allEmiDates.length && emisGenerated < remainingEMIs; i++) {
+              const customEMIAmount: number = customEMIMap.get(i + 1) || body.emiAmount
 
-          for (let year = 0; year < Math.ceil(totalPayments / dates.length) + 1 && allEmiDates.length < body.tenure; year++) {
-            for (const { firstOccurrence } of scheduleWithFirstOccurrence) {
-              if (allEmiDates.length >= body.tenure) break
+              newEmis.push({
+                emiAmount: customEMIAmount,
+                dueDate: allEmiDates[i],
+                isPaid: false,
+              })
 
-              const dueDate = new Date(firstOccurrence)
-              dueDate.setFullYear(firstOccurrence.getFullYear() + year)
+              emisGenerated++
+            }
+          } else if (body.emiFrequency === "MONTHLY") {
+            // Monthly without payment schedule - generate all dates then skip paid ones
+            const allEmiDates: Date[] = []
 
+            for (let i = 0; i < body.tenure; i++) {
+              const dueDate = new Date(startDate)
+              dueDate.setMonth(dueDate.getMonth() + i)
               allEmiDates.push(dueDate)
             }
-          }
 
-          // Now skip the first paidEmisCount dates and use the rest
-          for (let i = paidEmisCount; i < allEmiDates.length && emisGenerated < remainingEMIs; i++) {
-            const customEMIAmount: number = customEMIMap.get(i + 1) || body.emiAmount
+            // Skip the first paidEmisCount dates and use the rest
+            for (let i = paidEmisCount; i < allEmiDates.length && i < body.tenure; i++) {
+              const customEMIAmount: number = customEMIMap.get(i + 1) || body.emiAmount
 
-            newEmis.push({
-              emiAmount: customEMIAmount,
-              dueDate: allEmiDates[i],
-              isPaid: false,
-            })
+              newEmis.push({
+                emiAmount: customEMIAmount,
+                dueDate: allEmiDates[i],
+                isPaid: false,
+              })
+            }
+          } else {
+            // Other frequencies without payment schedule - generate all dates then skip paid ones
+            const monthsIncrement = getMonthsIncrement(body.emiFrequency)
+            const allEmiDates: Date[] = []
 
-            emisGenerated++
-          }
-        } else if (body.emiFrequency === "MONTHLY") {
-          // Monthly without payment schedule - generate all dates then skip paid ones
-          const allEmiDates: Date[] = []
-
-          for (let i = 0; i < body.tenure; i++) {
-            const dueDate = new Date(startDate)
-            dueDate.setMonth(dueDate.getMonth() + i)
-            allEmiDates.push(dueDate)
-          }
+            for (let i = 0; i < body.tenure; i++) {
+              const dueDate = new Date(startDate)
+              dueDate.setMonth(dueDate.getMonth() + (i * monthsIncrement))
+              allEmiDates.push(dueDate)
+            }
 
-          // Skip the first paidEmisCount dates and use the rest
-          for (let i = paidEmisCount; i < allEmiDates.length && i < body.tenure; i++) {
-            const customEMIAmount: number = customEMIMap.get(i + 1) || body.emiAmount
+            // Skip the first paidEmisCount dates and use the rest
+            for (let i = paidEmisCount; i < allEmiDates.length && i < body.tenure; i++) {
+              const customEMIAmount: number = customEMIMap.get(i + 1) || body.emiAmount
 
-            newEmis.push({
-              emiAmount: customEMIAmount,
-              dueDate: allEmiDates[i],
-              isPaid: false,
-            })
-          }
-        } else {
-          // Other frequencies without payment schedule - generate all dates then skip paid ones
-          const monthsIncrement = getMonthsIncrement(body.emiFrequency)
-          const allEmiDates: Date[] = []
-
-          for (let i = 0; i < body.tenure; i++) {
-            const dueDate = new Date(startDate)
-            dueDate.setMonth(dueDate.getMonth() + (i * monthsIncrement))
-            allEmiDates.push(dueDate)
+              newEmis.push({
+                emiAmount: customEMIAmount,
+                dueDate: allEmiDates[i],
+                isPaid: false,
+              })
+            }
           }
 
-          // Skip the first paidEmisCount dates and use the rest
-          for (let i = paidEmisCount; i < allEmiDates.length && i < body.tenure; i++) {
-            const customEMIAmount: number = customEMIMap.get(i + 1) || body.emiAmount
+          console.log('EMI Regeneration Debug:', {
+            paidEmisCount,
+            remainingEMIs,
+            newEmisLength: newEmis.length,
+            tenure: body.tenure,
+            frequency: body.emiFrequency,
+            hasPaymentSchedule: !!body.paymentSchedule
+          })
 
-            newEmis.push({
-              emiAmount: customEMIAmount,
-              dueDate: allEmiDates[i],
-              isPaid: false,
+          // Create new unpaid EMIs
+          if (newEmis.length > 0) {
+            const createdEmis = await tx.eMI.createManyAndReturn({
+              data: newEmis.map(emi => ({
+                ...emi,
+                loanId: id,
+              })),
             })
+            await recordAuditMany(tx, session.user, createdEmis.map(emi => ({
+              entity: "EMI",
+              entityId: emi.id,
+              action: "CREATE",
+              operation: "schedule regenerated",
+              after: emi,
+            })))
           }
         }
+      }
 
-        console.log('EMI Regeneration Debug:', {
-          paidEmisCount,
-          remainingEMIs,
-          newEmisLength: newEmis.length,
-          tenure: body.tenure,
-          frequency: body.emiFrequency,
-          hasPaymentSchedule: !!body.paymentSchedule
-        })
+      // Fetch the final updated loan with all EMIs
+      const finalLoan = await tx.loan.findUnique({
+        where: { id },
+        include: {
+          emis: {
+            orderBy: { dueDate: "asc" },
+          },
+          goldItems: true,
+        },
+      })
 
-        // Create new unpaid EMIs
-        if (newEmis.length > 0) {
-          await prisma.eMI.createMany({
-            data: newEmis.map(emi => ({
-              ...emi,
-              loanId: id,
-            })),
-          })
-        }
+      if (finalLoan) {
+        await recordAudit(tx, session.user, {
+          entity: "LOAN",
+          entityId: id,
+          action: "UPDATE",
+          operation: shouldRegenerateEMIs ? "schedule regenerated" : undefined,
+          before: auditedLoan(omitFields(existingLoan, "emis")),
+          after: auditedLoan(omitFields(finalLoan, "emis")),
+        })
       }
-    }
 
-    // Fetch the final updated loan with all EMIs
-    const finalLoan = await prisma.loan.findUnique({
-      where: { id },
-      include: {
-        emis: {
-          orderBy: { dueDate: "asc" },
-        },
-        goldItems: true,
-      },
-    })
+      return finalLoan
+    }, LOAN_SCHEDULE_TRANSACTION_OPTIONS)
 
-    return NextResponse.json(finalLoan)
+    return NextResponse.json(finalLoan && withMaskedAccountNumber(finalLoan))
   } catch (error) {
     console.error("Error updating loan:", error)
     return NextResponse.json(
@@ -431,17 +477,26 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const loan = await prisma.loan.deleteMany({
+    const loan = await prisma.loan.findFirst({
       where: {
         id,
         userId: session.user.id,
       },
+      include: { goldItems: true },
     })
 
-    if (loan.count === 0) {
+    if (!loan) {
       return NextResponse.json({ error: "Loan not found" }, { status: 404 })
     }
 
+    // EMIs, events and gold items go with the loan
+    await prisma.$transaction(async (tx) => {
+      await tx.loan.delete({
+        where: { id },
+      })
+      await recordAudit(tx, session.user, { entity: "LOAN", entityId: id, action: "DELETE", before: auditedLoan(loan) })
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error("Error deleting loan:", error)
@@ -0,0 +1,108 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { recordAudit } from "@/lib/audit"
+import {
+  buildLoanSchedule,
+  LOAN_SCHEDULE_TRANSACTION_OPTIONS,
+  loanScheduleInclude,
+  regenerateLoanSchedule,
+  serializeLoanEvent,
+  serializeLoanSchedule,
+} from "@/lib/loan-schedule"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const loan = await prisma.loan.findFirst({
+      where: { id, userId: session.user.id },
+      include: loanScheduleInclude,
+    })
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      schedule: serializeLoanSchedule(buildLoanSchedule(loan)),
+      events: loan.events.map(serializeLoanEvent),
+    })
+  } catch (error) {
+    console.error("Error building loan schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to build loan schedule" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Regenerate the unpaid EMIs and outstanding balance from the schedule
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const loan = await prisma.loan.findFirst({
+      where: { id, userId: session.user.id },
+    })
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 })
+    }
+
+    if (loan.isClosed) {
+      return NextResponse.json(
+        { error: "Loan is already closed" },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await prisma.$transaction(async (tx) => {
+      const regenerated = await regenerateLoanSchedule(id, session.user, tx)
+
+      const updatedLoan = await tx.loan.findUniqueOrThrow({ where: { id } })
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: id,
+        action: "UPDATE",
+        operation: "schedule regenerated",
+        before: loan,
+        after: updatedLoan,
+      })
+
+      return regenerated
+    }, LOAN_SCHEDULE_TRANSACTION_OPTIONS)
+
+    return NextResponse.json({
+      schedule: serializeLoanSchedule(schedule, false),
+      message: "EMI schedule regenerated",
+    })
+  } catch (error) {
+    console.error("Error regenerating loan schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to regenerate loan schedule" },
+      { status: 500 }
+    )
+  }
+}
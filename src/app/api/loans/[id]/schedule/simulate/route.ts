@@ -0,0 +1,79 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { buildLoanSchedule, loanScheduleInclude, serializeLoanSchedule } from "@/lib/loan-schedule"
+
+const simulationEventSchema = z.object({
+  type: z.enum(["PREPAYMENT", "RATE_CHANGE"]),
+  effectiveDate: z.string().min(1, "Effective date is required"),
+  amount: z.number().positive().optional(),
+  interestRate: z.number().min(0).max(100).optional(),
+  strategy: z.enum(["REDUCE_EMI", "REDUCE_TENURE"]).default("REDUCE_TENURE"),
+}).refine((event) => event.type !== "PREPAYMENT" || event.amount !== undefined, {
+  message: "Prepayment amount is required",
+}).refine((event) => event.type !== "RATE_CHANGE" || event.interestRate !== undefined, {
+  message: "New interest rate is required",
+})
+
+const simulationSchema = z.object({
+  events: z.array(simulationEventSchema).min(1, "Add at least one prepayment or rate change").max(24),
+})
+
+/**
+ * What-if: replay hypothetical prepayments / rate changes on top of the recorded ones
+ * Nothing is saved
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = simulationSchema.parse(body)
+
+    const loan = await prisma.loan.findFirst({
+      where: { id, userId: session.user.id },
+      include: loanScheduleInclude,
+    })
+
+    if (!loan) {
+      return NextResponse.json({ error: "Loan not found" }, { status: 404 })
+    }
+
+    const baseline = buildLoanSchedule(loan)
+    const simulated = buildLoanSchedule(
+      loan,
+      data.events.map(event => ({ ...event, effectiveDate: new Date(event.effectiveDate) }))
+    )
+    const { rows, ...simulatedSummary } = serializeLoanSchedule(simulated)
+
+    return NextResponse.json({
+      baseline: serializeLoanSchedule(baseline, false),
+      simulated: simulatedSummary,
+      interestSaved: Math.round((baseline.totalInterest - simulated.totalInterest) * 100) / 100,
+      installmentsSaved: baseline.installments - simulated.installments,
+      rows,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+    console.error("Error simulating loan schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to simulate loan schedule" },
+      { status: 500 }
+    )
+  }
+}
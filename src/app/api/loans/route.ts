@@ -5,6 +5,10 @@ import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { validateMonthNotClosed } from "@/lib/snapshot-utils"
 import { autoCalculateLoanField } from "@/lib/emi-calculator"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
+import { omitFields, recordAudit, recordAuditMany } from "@/lib/audit"
+import { loanAccountNumberData, withMaskedAccountNumber } from "@/lib/field-encryption"
+import { LOAN_SCHEDULE_TRANSACTION_OPTIONS } from "@/lib/loan-schedule"
 
 const paymentScheduleSchema = z.object({
   dates: z.array(
@@ -43,6 +47,7 @@ const loanSchema = z.object({
   institution: z.string().min(1),
   accountHolderName: z.string().min(1),
   principalAmount: z.number().positive(),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
   interestRate: z.number().min(0).max(100),
   tenure: z.number().int().positive().optional(),
   emiAmount: z.number().positive().optional(),
@@ -177,7 +182,7 @@ export async function GET() {
       })
 
       return {
-        ...loan,
+        ...withMaskedAccountNumber(loan),
         principalAmount: Number(loan.principalAmount),
         interestRate: Number(loan.interestRate),
         emiAmount: Number(loan.emiAmount),
@@ -294,7 +299,7 @@ export async function POST(request: Request) {
     }
 
     // Generate EMI schedule based on frequency and payment schedule
-    const emis = []
+    const emis: { emiAmount: number; dueDate: Date; isPaid: boolean }[] = []
     const startDate = new Date(data.startDate)
     const startYear = startDate.getFullYear()
 
@@ -406,47 +411,68 @@ export async function POST(request: Request) {
     console.log('First few EMIs:', emis.slice(0, 3))
 
     // Create loan with EMI schedule and gold items (if gold loan)
-    const loan = await prisma.loan.create({
-      data: {
-        loanType: data.loanType,
-        institution: data.institution,
-        accountHolderName: data.accountHolderName,
-        principalAmount: data.principalAmount,
-        interestRate: data.interestRate,
-        tenure: finalTenure,
-        emiAmount: finalEMIAmount,
-        emiFrequency: data.emiFrequency,
-        paymentSchedule: data.paymentSchedule || undefined,
-        startDate: new Date(data.startDate),
-        currentOutstanding: data.principalAmount,
-        accountNumber: data.accountNumber,
-        description: data.description,
-        userId: session.user.id,
-        emis: emis.length > 0 ? {
-          create: emis,
-        } : undefined,
-        goldItems: data.loanType === "GOLD_LOAN" && data.goldItems ? {
-          create: data.goldItems.map(item => ({
-            title: item.title,
-            carat: item.carat,
-            quantity: item.quantity,
-            grossWeight: item.grossWeight,
-            netWeight: item.netWeight,
-            loanAmount: item.loanAmount,
-          }))
-        } : undefined,
-      },
-      include: {
-        emis: {
-          orderBy: { dueDate: "asc" },
-          take: 3,
+    const loan = await prisma.$transaction(async (tx) => {
+      const created = await tx.loan.create({
+        data: {
+          loanType: data.loanType,
+          institution: data.institution,
+          accountHolderName: data.accountHolderName,
+          principalAmount: data.principalAmount,
+          currency: data.currency,
+          interestRate: data.interestRate,
+          tenure: finalTenure,
+          emiAmount: finalEMIAmount,
+          emiFrequency: data.emiFrequency,
+          paymentSchedule: data.paymentSchedule || undefined,
+          startDate: new Date(data.startDate),
+          currentOutstanding: data.principalAmount,
+          ...loanAccountNumberData(data.accountNumber),
+          description: data.description,
+          userId: session.user.id,
+          emis: emis.length > 0 ? {
+            create: emis,
+          } : undefined,
+          goldItems: data.loanType === "GOLD_LOAN" && data.goldItems ? {
+            create: data.goldItems.map(item => ({
+              title: item.title,
+              carat: item.carat,
+              quantity: item.quantity,
+              grossWeight: item.grossWeight,
+              netWeight: item.netWeight,
+              loanAmount: item.loanAmount,
+            }))
+          } : undefined,
         },
-        goldItems: true,
-      },
-    })
+        include: {
+          emis: {
+            orderBy: { dueDate: "asc" },
+            take: 3,
+          },
+          goldItems: true,
+        },
+      })
+
+      await recordAudit(tx, session.user, {
+        entity: "LOAN",
+        entityId: created.id,
+        action: "CREATE",
+        after: omitFields(created, "emis"),
+      })
+
+      // The response only includes the first EMIs; every generated one is audited
+      const createdEmis = await tx.eMI.findMany({ where: { loanId: created.id } })
+      await recordAuditMany(tx, session.user, createdEmis.map(emi => ({
+        entity: "EMI",
+        entityId: emi.id,
+        action: "CREATE",
+        after: emi,
+      })))
+
+      return created
+    }, LOAN_SCHEDULE_TRANSACTION_OPTIONS)
 
     return NextResponse.json({
-      ...loan,
+      ...withMaskedAccountNumber(loan),
       principalAmount: Number(loan.principalAmount),
       interestRate: Number(loan.interestRate),
       emiAmount: Number(loan.emiAmount),
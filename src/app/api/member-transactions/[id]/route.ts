@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Prisma } from "@/generated/prisma"
+import { changeMemberBalance, recordAudit } from "@/lib/audit"
 
 
 export async function GET(
@@ -119,18 +120,17 @@ export async function DELETE(
         balanceChange = new Prisma.Decimal(existingTransaction.amount)
       }
 
-      await tx.member.update({
-        where: { id: existingTransaction.memberId },
-        data: {
-          currentBalance: {
-            increment: balanceChange,
-          },
-        },
-      })
+      await changeMemberBalance(tx, session.user, existingTransaction.memberId, balanceChange, "transaction deleted")
 
       await tx.memberTransaction.delete({
         where: { id },
       })
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER_TRANSACTION",
+        entityId: id,
+        action: "DELETE",
+        before: existingTransaction,
+      })
     })
 
     return NextResponse.json({ message: "Transaction deleted successfully" })
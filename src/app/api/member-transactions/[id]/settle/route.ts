@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
 import { Prisma } from "@/generated/prisma"
+import { omitFields, recordAudit } from "@/lib/audit"
 
 const settleSchema = z.object({
   settledAmount: z.number().positive().optional(), // Custom settlement amount
@@ -131,6 +132,7 @@ export async function POST(
               isRecurring: false,
             },
           })
+          await recordAudit(tx, session.user, { entity: "INCOME", entityId: income.id, action: "CREATE", operation: "settlement", after: income })
           createdIncomeId = income.id
         } else {
           // Create additional expense
@@ -146,6 +148,7 @@ export async function POST(
               paymentMethod: "OTHER",
             },
           })
+          await recordAudit(tx, session.user, { entity: "EXPENSE", entityId: expense.id, action: "CREATE", operation: "settlement", after: expense })
           createdExpenseId = expense.id
         }
       }
@@ -186,6 +189,14 @@ export async function POST(
           },
         },
       })
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER_TRANSACTION",
+        entityId: id,
+        action: "UPDATE",
+        operation: "settle",
+        before: existingTransaction,
+        after: omitFields(transaction, "member"),
+      })
 
       // Single member update: combine balance change + extra fields
       const memberUpdateData: Prisma.MemberUpdateInput = {
@@ -201,10 +212,21 @@ export async function POST(
         }
       }
 
-      await tx.member.update({
+      const memberBefore = await tx.member.findUniqueOrThrow({
+        where: { id: existingTransaction.memberId },
+      })
+      const memberAfter = await tx.member.update({
         where: { id: existingTransaction.memberId },
         data: memberUpdateData,
       })
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER",
+        entityId: memberAfter.id,
+        action: "UPDATE",
+        operation: "settle",
+        before: memberBefore,
+        after: memberAfter,
+      })
 
       return transaction
     })
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Prisma } from "@/generated/prisma"
+import { recordAudit } from "@/lib/audit"
 
 export async function POST(
   request: NextRequest,
@@ -40,6 +41,9 @@ export async function POST(
 
     // Unsettle transaction and reverse changes
     await prisma.$transaction(async (tx) => {
+      const memberBefore = await tx.member.findUniqueOrThrow({
+        where: { id: existingTransaction.memberId },
+      })
       const settledAmount = existingTransaction.settledAmount
         ? Number(existingTransaction.settledAmount)
         : Number(existingTransaction.amount)
@@ -72,15 +76,17 @@ export async function POST(
 
       // Delete linked settlement income/expense if exists
       if (existingTransaction.settlementIncomeId) {
-        await tx.income.delete({
+        const income = await tx.income.delete({
           where: { id: existingTransaction.settlementIncomeId },
         })
+        await recordAudit(tx, session.user, { entity: "INCOME", entityId: income.id, action: "DELETE", operation: "unsettle", before: income })
       }
 
       if (existingTransaction.settlementExpenseId) {
-        await tx.expense.delete({
+        const expense = await tx.expense.delete({
           where: { id: existingTransaction.settlementExpenseId },
         })
+        await recordAudit(tx, session.user, { entity: "EXPENSE", entityId: expense.id, action: "DELETE", operation: "unsettle", before: expense })
       }
 
       // Reverse member's extra spent/owe if there was a difference
@@ -106,8 +112,20 @@ export async function POST(
         }
       }
 
+      const memberAfter = await tx.member.findUniqueOrThrow({
+        where: { id: existingTransaction.memberId },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER",
+        entityId: memberAfter.id,
+        action: "UPDATE",
+        operation: "unsettle",
+        before: memberBefore,
+        after: memberAfter,
+      })
+
       // Unsettle the transaction
-      await tx.memberTransaction.update({
+      const transaction = await tx.memberTransaction.update({
         where: { id },
         data: {
           isSettled: false,
@@ -118,6 +136,14 @@ export async function POST(
           settlementExpenseId: null,
         },
       })
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER_TRANSACTION",
+        entityId: id,
+        action: "UPDATE",
+        operation: "unsettle",
+        before: existingTransaction,
+        after: transaction,
+      })
     })
 
     return NextResponse.json({ message: "Transaction unsettled successfully" })
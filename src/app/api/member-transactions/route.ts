@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
 import { Prisma } from "@/generated/prisma"
+import { changeMemberBalance, omitFields, recordAudit } from "@/lib/audit"
 
 const memberTransactionSchema = z.object({
   memberId: z.string().min(1, "Member is required"),
@@ -173,14 +174,13 @@ export async function POST(request: NextRequest) {
         balanceChange = new Prisma.Decimal(validatedData.amount).negated()
       }
 
-      await tx.member.update({
-        where: { id: validatedData.memberId },
-        data: {
-          currentBalance: {
-            increment: balanceChange,
-          },
-        },
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER_TRANSACTION",
+        entityId: transaction.id,
+        action: "CREATE",
+        after: omitFields(transaction, "member"),
       })
+      await changeMemberBalance(tx, session.user, validatedData.memberId, balanceChange, "transaction added")
 
       return transaction
     })
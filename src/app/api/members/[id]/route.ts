@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
+import { omitFields, recordAudit } from "@/lib/audit"
 
 const memberUpdateSchema = z.object({
   name: z.string().min(1, "Name is required").optional(),
@@ -114,21 +115,25 @@ export async function PUT(
       }
     }
 
-    const member = await prisma.member.update({
-      where: { id },
-      data: {
-        ...(validatedData.name && { name: validatedData.name }),
-        ...(validatedData.category && { category: validatedData.category }),
-        ...(validatedData.phoneNumber !== undefined && {
-          phoneNumber: validatedData.phoneNumber || null,
-        }),
-        ...(validatedData.email !== undefined && {
-          email: validatedData.email || null,
-        }),
-        ...(validatedData.notes !== undefined && {
-          notes: validatedData.notes || null,
-        }),
-      },
+    const member = await prisma.$transaction(async (tx) => {
+      const updated = await tx.member.update({
+        where: { id },
+        data: {
+          ...(validatedData.name && { name: validatedData.name }),
+          ...(validatedData.category && { category: validatedData.category }),
+          ...(validatedData.phoneNumber !== undefined && {
+            phoneNumber: validatedData.phoneNumber || null,
+          }),
+          ...(validatedData.email !== undefined && {
+            email: validatedData.email || null,
+          }),
+          ...(validatedData.notes !== undefined && {
+            notes: validatedData.notes || null,
+          }),
+        },
+      })
+      await recordAudit(tx, session.user, { entity: "MEMBER", entityId: id, action: "UPDATE", before: existingMember, after: updated })
+      return updated
     })
 
     return NextResponse.json({
@@ -200,8 +205,16 @@ export async function DELETE(
       )
     }
 
-    await prisma.member.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.member.delete({
+        where: { id },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "MEMBER",
+        entityId: id,
+        action: "DELETE",
+        before: omitFields(existingMember, "_count"),
+      })
     })
 
     return NextResponse.json({ message: "Member deleted successfully" })
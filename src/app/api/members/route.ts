@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { z } from "zod"
+import { recordAudit } from "@/lib/audit"
 
 const memberSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -126,15 +127,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const member = await prisma.member.create({
-      data: {
-        userId: session.user.id,
-        name: validatedData.name,
-        category: validatedData.category,
-        phoneNumber: validatedData.phoneNumber || null,
-        email: validatedData.email || null,
-        notes: validatedData.notes || null,
-      },
+    const member = await prisma.$transaction(async (tx) => {
+      const created = await tx.member.create({
+        data: {
+          userId: session.user.id,
+          name: validatedData.name,
+          category: validatedData.category,
+          phoneNumber: validatedData.phoneNumber || null,
+          email: validatedData.email || null,
+          notes: validatedData.notes || null,
+        },
+      })
+      await recordAudit(tx, session.user, { entity: "MEMBER", entityId: created.id, action: "CREATE", after: created })
+      return created
     })
 
     return NextResponse.json(
@@ -0,0 +1,50 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import type { MonthCloseEventEntry, SnapshotFieldChange } from "@/types"
+
+// Close, reopen and recompute history of a month, newest first
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const month = parseInt(searchParams.get("month") || "")
+    const year = parseInt(searchParams.get("year") || "")
+
+    if (!month || !year) {
+      return NextResponse.json(
+        { error: "Month and year are required" },
+        { status: 400 }
+      )
+    }
+
+    const events = await prisma.monthCloseEvent.findMany({
+      where: { userId: session.user.id, year, month },
+      orderBy: { createdAt: "desc" },
+    })
+
+    const history: MonthCloseEventEntry[] = events.map(event => ({
+      id: event.id,
+      year: event.year,
+      month: event.month,
+      action: event.action,
+      trigger: event.trigger,
+      reason: event.reason,
+      changes: event.changes as SnapshotFieldChange[] | null,
+      createdAt: event.createdAt.toISOString(),
+    }))
+
+    return NextResponse.json(history)
+  } catch (error) {
+    console.error("Error fetching month close history:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch month close history" },
+      { status: 500 }
+    )
+  }
+}
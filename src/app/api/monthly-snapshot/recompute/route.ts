@@ -0,0 +1,81 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { previewRecompute, recomputeMonth } from "@/lib/monthly-snapshot"
+import type { MonthRecomputePreview } from "@/types"
+
+const recomputeSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  year: z.number().int().min(2000),
+  reason: z.string().trim().max(500).optional(),
+})
+
+// Preview a recompute - the fields a fresh calculation would change in the stored snapshot
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { month, year } = recomputeSchema.parse({
+      month: Number(searchParams.get("month")),
+      year: Number(searchParams.get("year")),
+    })
+
+    const { snapshot, changes } = await previewRecompute(session.user.id, year, month)
+
+    const preview: MonthRecomputePreview = {
+      month,
+      year,
+      isClosed: snapshot.isClosed,
+      closedAt: snapshot.closedAt?.toISOString() ?? null,
+      changes,
+    }
+
+    return NextResponse.json(preview)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes("No snapshot has been saved")) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("Error previewing recompute:", error)
+    return NextResponse.json(
+      { error: "Failed to recompute month" },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace the stored snapshot with a fresh calculation
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { month, year, reason } = recomputeSchema.parse(body)
+
+    const { snapshot, changes } = await recomputeMonth(session.user.id, year, month, reason)
+
+    return NextResponse.json({ snapshot, changes })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes("No snapshot has been saved")) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("Error recomputing month:", error)
+    return NextResponse.json(
+      { error: "Failed to recompute month" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { reopenMonth } from "@/lib/monthly-snapshot"
+
+const reopenMonthSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  year: z.number().int().min(2000),
+  reason: z.string().trim().min(1, "A reason is required to reopen a month").max(500),
+})
+
+// Reopen a closed month so its data can be edited again
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { month, year, reason } = reopenMonthSchema.parse(body)
+
+    const snapshot = await reopenMonth(session.user.id, year, month, reason)
+
+    return NextResponse.json(snapshot)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes("is not closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error reopening month:", error)
+    return NextResponse.json(
+      { error: "Failed to reopen month" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { serializeManualAsset } from "@/lib/net-worth"
+
+const updateAssetSchema = z.object({
+  type: z.enum(["REAL_ESTATE", "GOLD", "EPF", "PPF", "FIXED_DEPOSIT", "OTHER"]).optional(),
+  name: z.string().trim().min(1, "Name is required").optional(),
+  value: z.number().nonnegative("Value cannot be negative").optional(),
+  valuationDate: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid valuation date",
+  }).optional(),
+  notes: z.string().optional().nullable(),
+  isActive: z.boolean().optional(),
+})
+
+// Update a manual asset (revalue, rename or mark as sold / matured)
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = updateAssetSchema.parse(body)
+
+    const existing = await prisma.manualAsset.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 })
+    }
+
+    // A new value without an explicit date is a revaluation as of today
+    const valuationDate = data.valuationDate
+      ? new Date(data.valuationDate)
+      : data.value !== undefined && data.value !== Number(existing.value)
+        ? new Date()
+        : undefined
+
+    const asset = await prisma.manualAsset.update({
+      where: { id },
+      data: {
+        type: data.type,
+        name: data.name,
+        value: data.value,
+        valuationDate,
+        notes: data.notes !== undefined ? data.notes || null : undefined,
+        isActive: data.isActive,
+      },
+    })
+
+    return NextResponse.json(serializeManualAsset(asset))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+    console.error("Error updating manual asset:", error)
+    return NextResponse.json(
+      { error: "Failed to update manual asset" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a manual asset; recorded net worth history is kept
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existing = await prisma.manualAsset.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 })
+    }
+
+    await prisma.manualAsset.delete({ where: { id } })
+
+    return NextResponse.json({ message: "Asset deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting manual asset:", error)
+    return NextResponse.json(
+      { error: "Failed to delete manual asset" },
+      { status: 500 }
+    )
+  }
+}
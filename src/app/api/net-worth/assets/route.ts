@@ -0,0 +1,77 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { serializeManualAsset } from "@/lib/net-worth"
+
+const assetSchema = z.object({
+  type: z.enum(["REAL_ESTATE", "GOLD", "EPF", "PPF", "FIXED_DEPOSIT", "OTHER"]),
+  name: z.string().trim().min(1, "Name is required"),
+  value: z.number().nonnegative("Value cannot be negative"),
+  valuationDate: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid valuation date",
+  }).optional(),
+  notes: z.string().optional(),
+})
+
+// Get all manual assets
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const assets = await prisma.manualAsset.findMany({
+      where: { userId: session.user.id },
+      orderBy: [{ isActive: "desc" }, { value: "desc" }],
+    })
+
+    return NextResponse.json(assets.map(serializeManualAsset))
+  } catch (error) {
+    console.error("Error fetching manual assets:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch manual assets" },
+      { status: 500 }
+    )
+  }
+}
+
+// Add a manual asset
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = assetSchema.parse(body)
+
+    const asset = await prisma.manualAsset.create({
+      data: {
+        userId: session.user.id,
+        type: data.type,
+        name: data.name,
+        value: data.value,
+        valuationDate: data.valuationDate ? new Date(data.valuationDate) : undefined,
+        notes: data.notes || null,
+      },
+    })
+
+    return NextResponse.json(serializeManualAsset(asset), { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+    console.error("Error creating manual asset:", error)
+    return NextResponse.json(
+      { error: "Failed to create manual asset" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { calculateNetWorth, serializeNetWorthSnapshot, toNetWorthPoint } from "@/lib/net-worth"
+import { createCurrencyConverter } from "@/lib/currency"
+import { NET_WORTH_DEFAULT_RANGE_DAYS, NET_WORTH_MAX_RANGE_DAYS } from "@/constants"
+
+// Get the current net worth breakdown and the daily history
+// Today's point is always the live value, so the chart reflects changes made since the last cron run
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedDays = parseInt(searchParams.get("days") || "")
+    const days = Number.isNaN(requestedDays) || requestedDays <= 0
+      ? NET_WORTH_DEFAULT_RANGE_DAYS
+      : Math.min(requestedDays, NET_WORTH_MAX_RANGE_DAYS)
+
+    const current = await calculateNetWorth(session.user.id)
+    const today = new Date(current.date)
+    const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - days)
+
+    const snapshots = await prisma.netWorthSnapshot.findMany({
+      where: {
+        userId: session.user.id,
+        date: { gte: from, lt: today },
+      },
+      orderBy: { date: "asc" },
+    })
+    const converter = await createCurrencyConverter(current.currency, snapshots.map(snapshot => snapshot.currency))
+
+    return NextResponse.json({
+      current,
+      history: [...snapshots.map(snapshot => serializeNetWorthSnapshot(snapshot, converter)), toNetWorthPoint(current)],
+    })
+  } catch (error) {
+    console.error("Error fetching net worth:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch net worth" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { getBaseCurrency } from "@/lib/currency"
+import { CURRENCY_CODE_PATTERN } from "@/constants"
+
+const baseCurrencySchema = z.object({
+  baseCurrency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code"),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const baseCurrency = await getBaseCurrency(session.user.id)
+    return NextResponse.json({ baseCurrency })
+  } catch (error) {
+    console.error("Base currency fetch error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// Reports, snapshots and the dashboard are converted to the new currency from now on;
+// snapshots already taken keep the currency they were taken in
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { baseCurrency } = baseCurrencySchema.parse(body)
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: { baseCurrency },
+      select: { baseCurrency: true },
+    })
+
+    return NextResponse.json(user)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+
+    console.error("Base currency update error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { Prisma } from "@/generated/prisma"
+import { maskField, normalizeSensitiveValue, protectField } from "@/lib/field-encryption"
+import { AADHAAR_PATTERN, PAN_PATTERN } from "@/constants"
+import type { IdentityDocuments } from "@/types"
+
+// Omitted fields are kept; an empty string clears the stored value
+const identitySchema = z.object({
+  panNumber: z
+    .string()
+    .transform(value => normalizeSensitiveValue("pan", value))
+    .refine(value => !value || PAN_PATTERN.test(value), "PAN must look like ABCDE1234F")
+    .optional(),
+  aadharNumber: z
+    .string()
+    .transform(value => normalizeSensitiveValue("aadhaar", value))
+    .refine(value => !value || AADHAAR_PATTERN.test(value), "Aadhaar number must have 12 digits")
+    .optional(),
+})
+
+const PAN_TAKEN = "This PAN is already registered"
+const AADHAAR_TAKEN = "This Aadhaar number is already registered"
+
+const toIdentityDocuments = (profile: { panNumber: string | null; aadharNumber: string | null } | null): IdentityDocuments => ({
+  panNumber: maskField(profile?.panNumber ?? null),
+  aadharNumber: maskField(profile?.aadharNumber ?? null),
+})
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const profile = await prisma.profile.findFirst({
+      where: { userId: session.user.id },
+      select: { panNumber: true, aadharNumber: true },
+    })
+
+    return NextResponse.json(toIdentityDocuments(profile))
+  } catch (error) {
+    console.error("Identity documents fetch error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { panNumber, aadharNumber } = identitySchema.parse(body)
+
+    const data: { panNumber?: string | null; panNumberIndex?: string | null; aadharNumber?: string | null; aadharNumberIndex?: string | null } = {}
+    if (panNumber !== undefined) {
+      const pan = protectField("pan", panNumber)
+      data.panNumber = pan.value
+      data.panNumberIndex = pan.index
+    }
+    if (aadharNumber !== undefined) {
+      const aadhaar = protectField("aadhaar", aadharNumber)
+      data.aadharNumber = aadhaar.value
+      data.aadharNumberIndex = aadhaar.index
+    }
+
+    // Uniqueness is checked on the blind indexes, since the encrypted values differ every time
+    if (data.panNumberIndex) {
+      const taken = await prisma.profile.findFirst({
+        where: { panNumberIndex: data.panNumberIndex, userId: { not: session.user.id } },
+      })
+      if (taken) {
+        return NextResponse.json({ message: PAN_TAKEN }, { status: 400 })
+      }
+    }
+    if (data.aadharNumberIndex) {
+      const taken = await prisma.profile.findFirst({
+        where: { aadharNumberIndex: data.aadharNumberIndex, userId: { not: session.user.id } },
+      })
+      if (taken) {
+        return NextResponse.json({ message: AADHAAR_TAKEN }, { status: 400 })
+      }
+    }
+
+    const existingProfile = await prisma.profile.findFirst({
+      where: { userId: session.user.id },
+    })
+
+    try {
+      const profile = existingProfile
+        ? await prisma.profile.update({ where: { id: existingProfile.id }, data })
+        : await prisma.profile.create({ data: { ...data, userId: session.user.id, displayName: session.user.name } })
+
+      return NextResponse.json(toIdentityDocuments(profile))
+    } catch (error) {
+      // Registered by another request since the check above; the unique blind index has the last word
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        const target = String(error.meta?.target ?? "")
+        return NextResponse.json({ message: target.includes("aadharNumberIndex") ? AADHAAR_TAKEN : PAN_TAKEN }, { status: 400 })
+      }
+      throw error
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+
+    console.error("Identity documents update error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
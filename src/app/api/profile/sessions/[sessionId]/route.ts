@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { revokeDeviceSession } from "@/lib/device-sessions"
+
+// DELETE - Sign out one device, e.g. a lost phone
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { sessionId } = await params
+
+    if (sessionId === session.sessionId) {
+      return NextResponse.json(
+        { message: "Use Sign Out to end the session you are using" },
+        { status: 400 }
+      )
+    }
+
+    const revoked = await revokeDeviceSession(session.user.id, sessionId)
+    if (!revoked) {
+      return NextResponse.json({ message: "Session not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Session signed out" })
+  } catch (error) {
+    console.error("Device session sign-out error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { listDeviceSessions, revokeOtherDeviceSessions } from "@/lib/device-sessions"
+
+// GET - Devices the user is signed in on
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const deviceSessions = await listDeviceSessions(session.user.id, session.sessionId)
+
+    return NextResponse.json(deviceSessions)
+  } catch (error) {
+    console.error("Device sessions fetch error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Sign out every other device
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user || !session.sessionId) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const count = await revokeOtherDeviceSessions(session.user.id, session.sessionId)
+
+    return NextResponse.json({
+      message: count === 1 ? "Signed out of 1 other session" : `Signed out of ${count} other sessions`,
+    })
+  } catch (error) {
+    console.error("Device sessions sign-out error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { generateBackupCodes, verifyTwoFactorCode } from "@/lib/two-factor"
+import { z } from "zod"
+
+const regenerateSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+})
+
+// Replace the recovery codes, confirmed with a code from the authenticator
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { code } = regenerateSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { twoFactorEnabled: true },
+    })
+
+    if (!user?.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      )
+    }
+
+    const verification = await verifyTwoFactorCode(session.user.id, code)
+    if (verification === "LOCKED") {
+      return NextResponse.json(
+        { message: "Too many wrong codes. Try again in a few minutes" },
+        { status: 429 }
+      )
+    }
+    if (verification === "INVALID") {
+      return NextResponse.json({ message: "Invalid code" }, { status: 400 })
+    }
+
+    const { codes, hashes } = generateBackupCodes()
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { twoFactorBackupCodes: hashes },
+    })
+
+    return NextResponse.json({
+      message: "New recovery codes generated",
+      backupCodes: codes,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+
+    console.error("Recovery code error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
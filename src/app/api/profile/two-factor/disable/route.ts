@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { resetTwoFactor, verifyTwoFactorCode } from "@/lib/two-factor"
+import { z } from "zod"
+
+const disableSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code from your authenticator app or a recovery code"),
+})
+
+// Turn two-factor authentication off, confirmed with a current code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { code } = disableSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { twoFactorEnabled: true, twoFactorRequired: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 })
+    }
+
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      )
+    }
+
+    if (user.twoFactorRequired) {
+      return NextResponse.json(
+        { message: "Your administrator requires two-factor authentication" },
+        { status: 400 }
+      )
+    }
+
+    const verification = await verifyTwoFactorCode(session.user.id, code)
+    if (verification === "LOCKED") {
+      return NextResponse.json(
+        { message: "Too many wrong codes. Try again in a few minutes" },
+        { status: 429 }
+      )
+    }
+    if (verification === "INVALID") {
+      return NextResponse.json({ message: "Invalid code" }, { status: 400 })
+    }
+
+    await resetTwoFactor(session.user.id)
+
+    return NextResponse.json({ message: "Two-factor authentication disabled" })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+
+    console.error("Two-factor disable error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { generateBackupCodes, verifyTwoFactorCode } from "@/lib/two-factor"
+import { z } from "zod"
+
+const enableSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+})
+
+// Confirm enrolment with a code from the authenticator and return the recovery codes, shown once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { code } = enableSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { twoFactorEnabled: true, twoFactorPendingSecret: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 })
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      )
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return NextResponse.json(
+        { message: "Start the setup again to get a new QR code" },
+        { status: 400 }
+      )
+    }
+
+    const verification = await verifyTwoFactorCode(session.user.id, code, { secret: user.twoFactorPendingSecret })
+    if (verification === "LOCKED") {
+      return NextResponse.json(
+        { message: "Too many wrong codes. Try again in a few minutes" },
+        { status: 429 }
+      )
+    }
+    if (verification === "INVALID") {
+      return NextResponse.json({ message: "Invalid code" }, { status: 400 })
+    }
+
+    const { codes, hashes } = generateBackupCodes()
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorBackupCodes: hashes,
+      },
+    })
+
+    return NextResponse.json({
+      message: "Two-factor authentication enabled",
+      backupCodes: codes,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: error.issues[0]?.message || "Validation error" },
+        { status: 400 }
+      )
+    }
+
+    console.error("Two-factor enable error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import type { TwoFactorStatus } from "@/types"
+
+// Two-factor authentication status of the signed-in user
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: {
+        twoFactorEnabled: true,
+        twoFactorRequired: true,
+        twoFactorBackupCodes: true,
+        twoFactorLockedUntil: true,
+      },
+    })
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 })
+    }
+
+    const status: TwoFactorStatus = {
+      enabled: user.twoFactorEnabled,
+      required: user.twoFactorRequired,
+      backupCodesRemaining: user.twoFactorBackupCodes.length,
+      lockedUntil: user.twoFactorLockedUntil && user.twoFactorLockedUntil > new Date()
+        ? user.twoFactorLockedUntil.toISOString()
+        : null,
+    }
+
+    return NextResponse.json(status)
+  } catch (error) {
+    console.error("Two-factor status error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { createTwoFactorSetup } from "@/lib/two-factor"
+
+// Start enrolment - a new secret and its QR code for the authenticator app
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { email: true, twoFactorEnabled: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ message: "User not found" }, { status: 404 })
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { message: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      )
+    }
+
+    const setup = await createTwoFactorSetup(session.user.id, user.email)
+
+    return NextResponse.json(setup)
+  } catch (error) {
+    console.error("Two-factor setup error:", error)
+    return NextResponse.json(
+      { message: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
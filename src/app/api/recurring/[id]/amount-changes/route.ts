@@ -0,0 +1,98 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { serializeRecurringTemplate } from "@/lib/recurring-utils"
+
+const amountChangeSchema = z.object({
+  effectiveFrom: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid effective date",
+  }),
+  amount: z.number().positive("Amount must be positive"),
+})
+
+// Change a template's amount from a date onwards (replaces an existing change on the same date)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = amountChangeSchema.parse(body)
+
+    const existing = await prisma.recurringTemplate.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Recurring template not found" }, { status: 404 })
+    }
+
+    const parsed = new Date(data.effectiveFrom)
+    const effectiveFrom = new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate())
+
+    await prisma.recurringAmountChange.upsert({
+      where: { templateId_effectiveFrom: { templateId: id, effectiveFrom } },
+      update: { amount: data.amount },
+      create: { templateId: id, effectiveFrom, amount: data.amount },
+    })
+
+    const template = await prisma.recurringTemplate.findUniqueOrThrow({
+      where: { id },
+      include: { amountChanges: true, creditCard: true },
+    })
+
+    return NextResponse.json(serializeRecurringTemplate(template), { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error adding amount change:", error)
+    return NextResponse.json(
+      { error: "Failed to change amount" },
+      { status: 500 }
+    )
+  }
+}
+
+// Remove a scheduled amount change (?changeId=...)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const changeId = new URL(request.url).searchParams.get("changeId")
+    if (!changeId) {
+      return NextResponse.json({ error: "changeId is required" }, { status: 400 })
+    }
+
+    const change = await prisma.recurringAmountChange.findFirst({
+      where: { id: changeId, templateId: id, template: { userId: session.user.id } },
+    })
+    if (!change) {
+      return NextResponse.json({ error: "Amount change not found" }, { status: 404 })
+    }
+
+    await prisma.recurringAmountChange.delete({ where: { id: changeId } })
+
+    return NextResponse.json({ message: "Amount change removed" })
+  } catch (error) {
+    console.error("Error removing amount change:", error)
+    return NextResponse.json(
+      { error: "Failed to remove amount change" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,150 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { getNextRunDate, serializeRecurringTemplate } from "@/lib/recurring-utils"
+
+const updateTemplateSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").optional(),
+  description: z.string().optional().nullable(),
+  endDate: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid end date",
+  }).optional().nullable(),
+  isActive: z.boolean().optional(),
+  pausedUntil: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid pause date",
+  }).optional().nullable(),
+  expenseType: z.enum(["EXPECTED", "UNEXPECTED"]).optional(),
+  category: z.enum(["NEEDS", "AVOID"]).optional(),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]).optional(),
+  creditCardId: z.string().optional().nullable(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  incomeCategory: z.string().optional(),
+})
+
+// Update a recurring template (pause / resume, end date and details)
+// Amounts change through /amount-changes so past occurrences keep their amount
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = updateTemplateSchema.parse(body)
+
+    const existing = await prisma.recurringTemplate.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Recurring template not found" }, { status: 404 })
+    }
+
+    const isExpense = existing.kind === "EXPENSE"
+    const paymentMethod = data.paymentMethod ?? existing.paymentMethod
+    const creditCardId = paymentMethod === "CARD"
+      ? data.creditCardId !== undefined ? data.creditCardId : existing.creditCardId
+      : null
+
+    if (isExpense && paymentMethod === "CARD") {
+      if (!creditCardId) {
+        return NextResponse.json({ error: "Credit card must be selected when payment method is CARD" }, { status: 400 })
+      }
+      const card = await prisma.creditCard.findFirst({
+        where: { id: creditCardId, userId: session.user.id },
+      })
+      if (!card) {
+        return NextResponse.json({ error: "Credit card not found" }, { status: 404 })
+      }
+    }
+
+    const endDate = data.endDate !== undefined ? (data.endDate ? new Date(data.endDate) : null) : existing.endDate
+    if (endDate && endDate < existing.startDate) {
+      return NextResponse.json({ error: "End date must be after the start date" }, { status: 400 })
+    }
+
+    // Resuming continues from today; occurrences missed while paused are not backfilled
+    const now = new Date()
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    const schedule = { ...existing, endDate }
+    let nextRunDate = existing.nextRunDate
+    if (data.isActive === true && !existing.isActive) {
+      nextRunDate = getNextRunDate(schedule, today)
+    } else if (data.endDate !== undefined) {
+      nextRunDate = getNextRunDate(schedule, existing.nextRunDate ?? today)
+    }
+
+    const template = await prisma.recurringTemplate.update({
+      where: { id },
+      data: {
+        title: data.title,
+        description: data.description !== undefined ? data.description || null : undefined,
+        endDate,
+        isActive: data.isActive,
+        pausedUntil: data.pausedUntil !== undefined ? (data.pausedUntil ? new Date(data.pausedUntil) : null) : undefined,
+        nextRunDate,
+        ...(isExpense
+          ? {
+              expenseType: data.expenseType,
+              category: data.category,
+              paymentMethod,
+              creditCardId,
+              tags: data.tags,
+            }
+          : {
+              incomeCategory: data.incomeCategory,
+            }),
+      },
+      include: { amountChanges: true, creditCard: true },
+    })
+
+    return NextResponse.json(serializeRecurringTemplate(template))
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error updating recurring template:", error)
+    return NextResponse.json(
+      { error: "Failed to update recurring template" },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a recurring template; expenses and income it already created are kept
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const existing = await prisma.recurringTemplate.findFirst({
+      where: { id, userId: session.user.id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: "Recurring template not found" }, { status: 404 })
+    }
+
+    await prisma.recurringTemplate.delete({ where: { id } })
+
+    return NextResponse.json({ message: "Recurring template deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting recurring template:", error)
+    return NextResponse.json(
+      { error: "Failed to delete recurring template" },
+      { status: 500 }
+    )
+  }
+}
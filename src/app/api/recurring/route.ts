@@ -0,0 +1,133 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { z } from "zod"
+import { getNextRunDate, serializeRecurringTemplate } from "@/lib/recurring-utils"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
+
+const templateSchema = z.object({
+  kind: z.enum(["EXPENSE", "INCOME"]),
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().optional(),
+  amount: z.number().positive("Amount must be positive"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
+  frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "QUARTERLY", "HALF_YEARLY", "YEARLY", "CUSTOM"]),
+  customDay: z.number().int().min(1).max(31).optional().nullable(),
+  startDate: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid start date",
+  }),
+  endDate: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid end date",
+  }).optional().nullable(),
+  expenseType: z.enum(["EXPECTED", "UNEXPECTED"]).optional(),
+  // Partial-needs needs a manual split per expense, so templates use Needs or Avoid
+  category: z.enum(["NEEDS", "AVOID"]).optional(),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]).optional(),
+  creditCardId: z.string().optional().nullable(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  incomeCategory: z.string().optional(),
+}).refine((data) => data.frequency !== "CUSTOM" || !!data.customDay, {
+  message: "Day of month is required for a custom schedule",
+}).refine((data) => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+  message: "End date must be after the start date",
+}).refine((data) => data.kind !== "EXPENSE" || data.paymentMethod !== "CARD" || !!data.creditCardId, {
+  message: "Credit card must be selected when payment method is CARD",
+})
+
+// Get all recurring templates
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const templates = await prisma.recurringTemplate.findMany({
+      where: { userId: session.user.id },
+      include: { amountChanges: true, creditCard: true },
+      orderBy: [{ isActive: "desc" }, { nextRunDate: "asc" }],
+    })
+
+    const converter = await getUserCurrencyConverter(session.user.id)
+
+    return NextResponse.json(templates.map(template => {
+      const serialized = serializeRecurringTemplate(template)
+      return {
+        ...serialized,
+        baseAmount: converter.convert(serialized.currentAmount, template.currency),
+        baseCurrency: converter.baseCurrency,
+      }
+    }))
+  } catch (error) {
+    console.error("Error fetching recurring templates:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch recurring templates" },
+      { status: 500 }
+    )
+  }
+}
+
+// Create a recurring template; occurrences are created by the daily cron
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const data = templateSchema.parse(body)
+
+    const isExpense = data.kind === "EXPENSE"
+    const creditCardId = isExpense && data.paymentMethod === "CARD" ? data.creditCardId : null
+
+    if (creditCardId) {
+      const card = await prisma.creditCard.findFirst({
+        where: { id: creditCardId, userId: session.user.id },
+      })
+      if (!card) {
+        return NextResponse.json({ error: "Credit card not found" }, { status: 404 })
+      }
+    }
+
+    const schedule = {
+      startDate: new Date(data.startDate),
+      endDate: data.endDate ? new Date(data.endDate) : null,
+      frequency: data.frequency,
+      customDay: data.frequency === "CUSTOM" ? data.customDay ?? null : null,
+    }
+
+    const template = await prisma.recurringTemplate.create({
+      data: {
+        userId: session.user.id,
+        kind: data.kind,
+        title: data.title,
+        description: data.description || null,
+        amount: data.amount,
+        currency: data.currency,
+        ...schedule,
+        nextRunDate: getNextRunDate(schedule, schedule.startDate),
+        expenseType: isExpense ? data.expenseType ?? "EXPECTED" : null,
+        category: isExpense ? data.category ?? "NEEDS" : null,
+        paymentMethod: isExpense ? data.paymentMethod ?? "OTHER" : null,
+        creditCardId,
+        tags: isExpense ? data.tags ?? [] : [],
+        incomeCategory: isExpense ? null : data.incomeCategory ?? "OTHER",
+      },
+      include: { amountChanges: true, creditCard: true },
+    })
+
+    return NextResponse.json(serializeRecurringTemplate(template), { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error creating recurring template:", error)
+    return NextResponse.json(
+      { error: "Failed to create recurring template" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { getBaseCurrency } from "@/lib/currency"
+import { getDefaultRetirementAssumptions, getRetirementInputs, simulateRetirement } from "@/lib/retirement"
+import { z } from "zod"
+
+const assumptionsSchema = z.object({
+  currentAge: z.number().int().min(15, "Age must be at least 15").max(90),
+  retirementAge: z.number().int().max(100),
+  lifeExpectancy: z.number().int().max(110, "Life expectancy cannot exceed 110"),
+  monthlySpend: z.number().min(0, "Monthly spend cannot be negative"),
+  inflationRate: z.number().min(0, "Inflation cannot be negative").max(30),
+  salaryGrowth: z.number().min(-20).max(50),
+  withdrawalRate: z.number().positive("Withdrawal rate must be positive").max(20),
+  buckets: z.array(z.object({
+    bucket: z.enum(["MUTUAL_FUND", "IND_STOCK", "US_STOCK", "CRYPTO", "EMERGENCY_FUND"]),
+    expectedReturn: z.number().min(-50).max(100),
+    volatility: z.number().min(0, "Volatility cannot be negative").max(200),
+  })),
+  seed: z.number().int().min(0),
+}).refine(data => data.retirementAge >= data.currentAge, {
+  message: "Retirement age cannot be before the current age",
+}).refine(data => data.lifeExpectancy > data.retirementAge, {
+  message: "Life expectancy must be after the retirement age",
+})
+
+// Get the projection's inputs and a simulation with the default assumptions
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const [inputs, currency] = await Promise.all([
+      getRetirementInputs(session.user.id),
+      getBaseCurrency(session.user.id),
+    ])
+    const assumptions = getDefaultRetirementAssumptions(inputs)
+
+    return NextResponse.json({
+      inputs,
+      assumptions,
+      simulation: simulateRetirement(inputs, assumptions),
+      currency,
+    })
+  } catch (error) {
+    console.error("Error projecting retirement:", error)
+    return NextResponse.json(
+      { error: "Failed to project retirement" },
+      { status: 500 }
+    )
+  }
+}
+
+// Simulate with the user's own assumptions
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const assumptions = assumptionsSchema.parse(body)
+    const inputs = await getRetirementInputs(session.user.id)
+
+    return NextResponse.json({ simulation: simulateRetirement(inputs, assumptions) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message || "Validation failed" },
+        { status: 400 }
+      )
+    }
+    console.error("Error projecting retirement:", error)
+    return NextResponse.json(
+      { error: "Failed to project retirement" },
+      { status: 500 }
+    )
+  }
+}
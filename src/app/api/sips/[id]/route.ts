@@ -3,6 +3,9 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getInitialNextRunDate } from "@/lib/sip-execution"
+import { CURRENCY_CODE_PATTERN } from "@/constants"
+import { recordAudit } from "@/lib/audit"
 
 const sipUpdateSchema = z.object({
   name: z.string().min(1).optional(),
@@ -10,7 +13,7 @@ const sipUpdateSchema = z.object({
   endDate: z.string().optional().nullable(),
   isActive: z.boolean().optional(),
   description: z.string().optional(),
-  currency: z.enum(["INR", "USD"]).optional(),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").optional(),
   amountInINR: z.boolean().optional(),
 })
 
@@ -29,6 +32,14 @@ export async function PATCH(
     const body = await request.json()
     const data = sipUpdateSchema.parse(body)
 
+    const existingSip = await prisma.sIP.findFirst({
+      where: { id, userId: session.user.id },
+    })
+
+    if (!existingSip) {
+      return NextResponse.json({ error: "SIP not found" }, { status: 404 })
+    }
+
     const updateData: {
       name?: string;
       amount?: number;
@@ -37,6 +48,7 @@ export async function PATCH(
       description?: string;
       currency?: string;
       amountInINR?: boolean;
+      nextRunDate?: Date | null;
     } = {}
 
     if (data.name !== undefined) updateData.name = data.name
@@ -49,20 +61,31 @@ export async function PATCH(
       updateData.endDate = data.endDate ? new Date(data.endDate) : null
     }
 
-    const sip = await prisma.sIP.updateMany({
-      where: {
-        id,
-        userId: session.user.id,
-      },
-      data: updateData,
-    })
-
-    if (sip.count === 0) {
-      return NextResponse.json({ error: "SIP not found" }, { status: 404 })
+    // A resumed SIP runs from today on, without backfilling the instalments missed while inactive;
+    // a new end date ends or extends the schedule
+    const endDate = updateData.endDate !== undefined ? updateData.endDate : existingSip.endDate
+    if (data.isActive && !existingSip.isActive) {
+      updateData.nextRunDate = getInitialNextRunDate({ startDate: existingSip.startDate, endDate }, new Date())
+    } else if (data.endDate !== undefined) {
+      updateData.nextRunDate = existingSip.nextRunDate
+        ? (endDate && existingSip.nextRunDate > endDate ? null : existingSip.nextRunDate)
+        : getInitialNextRunDate({ startDate: existingSip.startDate, endDate }, new Date())
     }
 
+    await prisma.$transaction(async (tx) => {
+      const sip = await tx.sIP.update({
+        where: { id },
+        data: updateData,
+      })
+      await recordAudit(tx, session.user, { entity: "SIP", entityId: id, action: "UPDATE", before: existingSip, after: sip })
+    })
+
     const updatedSip = await prisma.sIP.findUnique({
       where: { id },
+      include: {
+        pauses: { orderBy: { startDate: "asc" } },
+        skips: { orderBy: { date: "asc" } },
+      },
     })
 
     return NextResponse.json(updatedSip)
@@ -90,17 +113,24 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const sip = await prisma.sIP.deleteMany({
+    const sip = await prisma.sIP.findFirst({
       where: {
         id,
         userId: session.user.id,
       },
     })
 
-    if (sip.count === 0) {
+    if (!sip) {
       return NextResponse.json({ error: "SIP not found" }, { status: 404 })
     }
 
+    await prisma.$transaction(async (tx) => {
+      await tx.sIP.delete({
+        where: { id },
+      })
+      await recordAudit(tx, session.user, { entity: "SIP", entityId: id, action: "DELETE", before: sip })
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error("Error deleting SIP:", error)
@@ -0,0 +1,131 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getOccurrencesBetween } from "@/lib/frequency-utils"
+import { recordAudit } from "@/lib/audit"
+import type { SIP, SIPPause, SIPSkip } from "@/generated/prisma"
+
+const scheduleSchema = z.object({
+  stepUpType: z.enum(["PERCENT", "AMOUNT"]).nullable(),
+  stepUpValue: z.number().positive("Step-up must be positive").nullable(),
+  pauses: z.array(z.object({
+    startDate: z.string().min(1, "Pause start date is required"),
+    endDate: z.string().min(1, "Pause end date is required"),
+    reason: z.string().optional(),
+  })),
+  skips: z.array(z.object({
+    date: z.string().min(1, "Skip date is required"),
+    reason: z.string().optional(),
+  })),
+}).refine(
+  (data) => !data.stepUpType || data.stepUpValue !== null,
+  { message: "Step-up value is required" }
+).refine(
+  (data) => data.stepUpType !== "PERCENT" || (data.stepUpValue ?? 0) <= 100,
+  { message: "Step-up cannot exceed 100% a year" }
+).refine(
+  (data) => data.pauses.every(pause => new Date(pause.endDate) >= new Date(pause.startDate)),
+  { message: "A pause cannot end before it starts" }
+)
+
+// Pauses and skips are recreated on every save, so they are audited by value rather than by id
+const auditedSchedule = (sip: SIP & { pauses: SIPPause[]; skips: SIPSkip[] }) => ({
+  ...sip,
+  pauses: sip.pauses.map(({ startDate, endDate, reason }) => ({ startDate, endDate, reason })),
+  skips: sip.skips.map(({ date, reason }) => ({ date, reason })),
+})
+
+// Replace a SIP's step-up rule, pause ranges and skipped instalments
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = scheduleSchema.parse(body)
+
+    const sip = await prisma.sIP.findFirst({
+      where: { id, userId: session.user.id },
+      include: {
+        pauses: { orderBy: { startDate: "asc" } },
+        skips: { orderBy: { date: "asc" } },
+      },
+    })
+    if (!sip) {
+      return NextResponse.json({ error: "SIP not found" }, { status: 404 })
+    }
+
+    // A skip must land on an instalment, once
+    const skipDates = new Set<string>()
+    for (const skip of data.skips) {
+      const date = new Date(skip.date)
+      if (getOccurrencesBetween(sip.startDate, sip.frequency, date, date, sip.customDay).length === 0) {
+        return NextResponse.json(
+          { error: `${date.toLocaleDateString("en-IN")} is not an instalment date of this SIP` },
+          { status: 400 }
+        )
+      }
+      if (skipDates.has(skip.date)) {
+        return NextResponse.json({ error: "Each instalment can only be skipped once" }, { status: 400 })
+      }
+      skipDates.add(skip.date)
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const saved = await tx.sIP.update({
+        where: { id },
+        data: {
+          stepUpType: data.stepUpType,
+          stepUpValue: data.stepUpType ? data.stepUpValue : null,
+          pauses: {
+            deleteMany: {},
+            create: data.pauses.map(pause => ({
+              startDate: new Date(pause.startDate),
+              endDate: new Date(pause.endDate),
+              reason: pause.reason || null,
+            })),
+          },
+          skips: {
+            deleteMany: {},
+            create: data.skips.map(skip => ({
+              date: new Date(skip.date),
+              reason: skip.reason || null,
+            })),
+          },
+        },
+        include: {
+          pauses: { orderBy: { startDate: "asc" } },
+          skips: { orderBy: { date: "asc" } },
+        },
+      })
+      await recordAudit(tx, session.user, {
+        entity: "SIP",
+        entityId: id,
+        action: "UPDATE",
+        operation: "schedule",
+        before: auditedSchedule(sip),
+        after: auditedSchedule(saved),
+      })
+      return saved
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error updating SIP schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to update SIP schedule" },
+      { status: 500 }
+    )
+  }
+}
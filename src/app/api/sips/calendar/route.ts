@@ -0,0 +1,29 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { authOptions } from "@/lib/auth"
+import { getBaseCurrency } from "@/lib/currency"
+import { getSIPCalendar } from "@/lib/sip-schedule"
+import { SIP_CALENDAR_MONTHS } from "@/constants"
+
+// Projected instalments of the active SIPs for the coming months, with step-ups, pauses and skips applied
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const [months, currency] = await Promise.all([
+      getSIPCalendar(session.user.id, SIP_CALENDAR_MONTHS),
+      getBaseCurrency(session.user.id),
+    ])
+
+    return NextResponse.json({ months, currency })
+  } catch (error) {
+    console.error("Error fetching SIP calendar:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch SIP calendar" },
+      { status: 500 }
+    )
+  }
+}
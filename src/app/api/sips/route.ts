@@ -3,7 +3,11 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getMonthlyTax } from "@/lib/tax-utils"
 import { convertToMonthlyAmount } from "@/lib/frequency-utils"
+import { getInitialNextRunDate } from "@/lib/sip-execution"
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from "@/constants"
+import { recordAudit } from "@/lib/audit"
 
 const sipSchema = z.object({
   name: z.string().min(1),
@@ -15,7 +19,7 @@ const sipSchema = z.object({
   description: z.string().optional(),
   bucket: z.enum(["MUTUAL_FUND", "IND_STOCK", "US_STOCK", "CRYPTO", "EMERGENCY_FUND"]).optional(),
   symbol: z.string().optional(),
-  currency: z.enum(["INR", "USD"]).default("INR"),
+  currency: z.string().regex(CURRENCY_CODE_PATTERN, "Currency must be a 3-letter ISO code").default(DEFAULT_CURRENCY),
   amountInINR: z.boolean().default(true),
 })
 
@@ -30,6 +34,10 @@ export async function GET() {
     const sips = await prisma.sIP.findMany({
       where: { userId: session.user.id },
       orderBy: { createdAt: "desc" },
+      include: {
+        pauses: { orderBy: { startDate: "asc" } },
+        skips: { orderBy: { date: "asc" } },
+      },
     })
 
     return NextResponse.json(sips)
@@ -92,27 +100,7 @@ export async function POST(request: Request) {
       }
 
       // Calculate available for investment (after tax & loans)
-      const taxSetting = await prisma.taxSetting.findFirst({
-        where: { userId: session.user.id },
-        orderBy: { updatedAt: "desc" },
-      })
-
-      let taxAmount = 0
-      if (taxSetting) {
-        const monthly = Number(salaryHistory.monthly)
-        switch (taxSetting.mode) {
-          case "PERCENTAGE":
-            taxAmount = taxSetting.percentage ? (monthly * Number(taxSetting.percentage)) / 100 : 0
-            break
-          case "FIXED":
-            taxAmount = taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0
-            break
-          case "HYBRID":
-            const percentageAmount = taxSetting.percentage ? (monthly * Number(taxSetting.percentage)) / 100 : 0
-            taxAmount = percentageAmount + (taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0)
-            break
-        }
-      }
+      const { taxAmount } = await getMonthlyTax(session.user.id, Number(salaryHistory.monthly))
 
       const afterTax = Number(salaryHistory.monthly) - taxAmount
 
@@ -179,15 +167,24 @@ export async function POST(request: Request) {
       }
     }
 
-    const sip = await prisma.sIP.create({
-      data: {
-        ...data,
-        userId: session.user.id,
-        startDate: new Date(data.startDate),
-        endDate: data.endDate ? new Date(data.endDate) : null,
-        currency: data.currency || "INR",
-        amountInINR: data.amountInINR ?? true,
-      },
+    const startDate = new Date(data.startDate)
+    const endDate = data.endDate ? new Date(data.endDate) : null
+
+    const sip = await prisma.$transaction(async (tx) => {
+      const created = await tx.sIP.create({
+        data: {
+          ...data,
+          userId: session.user.id,
+          startDate,
+          endDate,
+          currency: data.currency,
+          amountInINR: data.amountInINR ?? true,
+          // Instalments before the SIP was added are not backfilled
+          nextRunDate: getInitialNextRunDate({ startDate, endDate }, new Date()),
+        },
+      })
+      await recordAudit(tx, session.user, { entity: "SIP", entityId: created.id, action: "CREATE", after: created })
+      return created
     })
 
     return NextResponse.json(sip, { status: 201 })
@@ -0,0 +1,138 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { calculatePaymentDueDate } from "@/lib/credit-card-utils"
+import { validateMonthNotClosed } from "@/lib/snapshot-utils"
+import { recordAudit } from "@/lib/audit"
+
+const importRowSchema = z.object({
+  target: z.enum(["EXPENSE", "INCOME"]),
+  date: z.string().refine((date) => !isNaN(Date.parse(date)), {
+    message: "Invalid date format",
+  }),
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  reference: z.string().optional().nullable(),
+  amount: z.number().positive("Amount must be positive"),
+  expenseType: z.enum(["EXPECTED", "UNEXPECTED"]),
+  category: z.enum(["NEEDS", "PARTIAL_NEEDS", "AVOID"]),
+  needsPortion: z.number().optional(),
+  avoidPortion: z.number().optional(),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]),
+  creditCardId: z.string().optional().nullable(),
+  incomeCategory: z.string().default("OTHER"),
+  tags: z.array(z.string()).default([]),
+}).refine((data) => {
+  if (data.target === "EXPENSE" && data.category === "PARTIAL_NEEDS") {
+    const total = (data.needsPortion || 0) + (data.avoidPortion || 0)
+    return Math.abs(total - data.amount) < 0.01
+  }
+  return true
+}, {
+  message: "For partial-needs, needs and avoid portions must add up to the amount",
+}).refine((data) => data.target !== "EXPENSE" || data.paymentMethod !== "CARD" || !!data.creditCardId, {
+  message: "Credit card must be selected when payment method is CARD",
+})
+
+const commitSchema = z.object({
+  rows: z.array(importRowSchema).min(1, "Select at least one row to import").max(2000, "Import at most 2000 rows at a time"),
+})
+
+// Create the reviewed statement rows as Expense and Income records in one transaction
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { rows } = commitSchema.parse(body)
+
+    // Every month touched by the import must still be open
+    const monthStarts = new Map<string, Date>()
+    for (const row of rows) {
+      const date = new Date(row.date)
+      monthStarts.set(`${date.getFullYear()}-${date.getMonth()}`, date)
+    }
+    for (const date of monthStarts.values()) {
+      await validateMonthNotClosed(session.user.id, date, "import transactions")
+    }
+
+    const cardIds = [...new Set(rows.map(row => row.creditCardId).filter((id): id is string => !!id))]
+    const cards = await prisma.creditCard.findMany({
+      where: { id: { in: cardIds }, userId: session.user.id },
+      select: { id: true, billingCycle: true, dueDate: true },
+    })
+    if (cards.length !== cardIds.length) {
+      return NextResponse.json({ error: "Credit card not found" }, { status: 404 })
+    }
+    const cardsById = new Map(cards.map(card => [card.id, card]))
+
+    const describe = (row: z.infer<typeof importRowSchema>) =>
+      [row.description, row.reference ? `Ref: ${row.reference}` : null].filter(Boolean).join(" · ") || null
+
+    const expenseRows = rows.filter(row => row.target === "EXPENSE")
+    const incomeRows = rows.filter(row => row.target === "INCOME")
+
+    // Rows are created one by one so each gets its audit entry; a large import needs more than the default 5s
+    await prisma.$transaction(async (tx) => {
+      for (const row of expenseRows) {
+        const card = row.paymentMethod === "CARD" && row.creditCardId ? cardsById.get(row.creditCardId) : null
+        const expense = await tx.expense.create({
+          data: {
+            userId: session.user.id,
+            date: new Date(row.date),
+            title: row.title,
+            description: describe(row),
+            expenseType: row.expenseType,
+            category: row.category,
+            amount: row.amount,
+            needsPortion: row.category === "PARTIAL_NEEDS" ? row.needsPortion ?? null : null,
+            avoidPortion: row.category === "PARTIAL_NEEDS" ? row.avoidPortion ?? null : null,
+            paymentMethod: row.paymentMethod,
+            creditCardId: card ? card.id : null,
+            paymentDueDate: card ? calculatePaymentDueDate(new Date(row.date), card) : null,
+            tags: [...new Set(["imported", ...row.tags])],
+          },
+        })
+        await recordAudit(tx, session.user, { entity: "EXPENSE", entityId: expense.id, action: "CREATE", operation: "statement import", after: expense })
+      }
+
+      for (const row of incomeRows) {
+        const income = await tx.income.create({
+          data: {
+            userId: session.user.id,
+            date: new Date(row.date),
+            title: row.title,
+            description: describe(row),
+            amount: row.amount,
+            category: row.incomeCategory,
+          },
+        })
+        await recordAudit(tx, session.user, { entity: "INCOME", entityId: income.id, action: "CREATE", operation: "statement import", after: income })
+      }
+    }, { timeout: 120000 })
+
+    return NextResponse.json({
+      message: `Imported ${expenseRows.length} expenses and ${incomeRows.length} income entries`,
+      expensesCreated: expenseRows.length,
+      incomesCreated: incomeRows.length,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    if (error instanceof Error && error.message.includes("month has been closed")) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Error committing statement import:", error)
+    return NextResponse.json(
+      { error: "Failed to import transactions" },
+      { status: 500 }
+    )
+  }
+}
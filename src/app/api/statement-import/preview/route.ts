@@ -0,0 +1,96 @@
+import { getServerSession } from "next-auth"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import {
+  detectStatementFormat,
+  getStatementMapping,
+  parseStatementCsv,
+  parseStatementOfx,
+} from "@/lib/statement-parser"
+import { stageStatementRows } from "@/lib/statement-import"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+const previewSchema = z.object({
+  bank: z.string().optional(),
+  accountType: z.enum(["BANK", "CREDIT_CARD"]),
+  creditCardId: z.string().optional(),
+})
+
+// Parse an uploaded statement and return staged rows for review (nothing is saved)
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file")
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "Statement file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "Statement file must be under 5 MB" }, { status: 400 })
+    }
+
+    const data = previewSchema.parse({
+      bank: formData.get("bank") || undefined,
+      accountType: formData.get("accountType") || "BANK",
+      creditCardId: formData.get("creditCardId") || undefined,
+    })
+
+    if (data.accountType === "CREDIT_CARD") {
+      if (!data.creditCardId) {
+        return NextResponse.json({ error: "Select the credit card this statement belongs to" }, { status: 400 })
+      }
+      const card = await prisma.creditCard.findFirst({
+        where: { id: data.creditCardId, userId: session.user.id },
+      })
+      if (!card) {
+        return NextResponse.json({ error: "Credit card not found" }, { status: 404 })
+      }
+    }
+
+    const content = await file.text()
+    const format = detectStatementFormat(file.name, content)
+
+    let parsed
+    try {
+      parsed = format === "OFX"
+        ? parseStatementOfx(content)
+        : parseStatementCsv(content, getStatementMapping(data.bank ?? null))
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read the statement" },
+        { status: 400 }
+      )
+    }
+
+    const rows = await stageStatementRows(session.user.id, parsed.rows, {
+      accountType: data.accountType,
+      creditCardId: data.creditCardId ?? null,
+    })
+
+    return NextResponse.json({
+      format,
+      bank: data.bank ?? null,
+      accountType: data.accountType,
+      rows,
+      skippedLines: parsed.skippedLines,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0]?.message || "Validation error" }, { status: 400 })
+    }
+    console.error("Error previewing statement import:", error)
+    return NextResponse.json(
+      { error: "Failed to read statement" },
+      { status: 500 }
+    )
+  }
+}
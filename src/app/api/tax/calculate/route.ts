@@ -3,11 +3,42 @@ import { NextResponse } from "next/server"
 import { z } from "zod"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getFinancialYear } from "@/lib/tax-calculator"
+import { getMonthlyTax, getRegimeComparison } from "@/lib/tax-utils"
 
 const calculateRequestSchema = z.object({
   monthly: z.number().positive(),
 })
 
+// Compare old and new regimes for a financial year (defaults to the current FY)
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const fyParam = searchParams.get("fy")
+    const financialYear = fyParam ? parseInt(fyParam) : getFinancialYear(new Date())
+
+    if (isNaN(financialYear) || financialYear < 2000 || financialYear > 2100) {
+      return NextResponse.json({ error: "Invalid financial year" }, { status: 400 })
+    }
+
+    const comparison = await getRegimeComparison(session.user.id, financialYear)
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error("Error comparing tax regimes:", error)
+    return NextResponse.json(
+      { error: "Failed to compare tax regimes" },
+      { status: 500 }
+    )
+  }
+}
+
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions)
@@ -68,6 +99,12 @@ export async function POST(request: Request) {
           Number(taxSetting.fixedAmount)
         break
 
+      case "REGIME": {
+        const result = await getMonthlyTax(session.user.id, data.monthly)
+        calculatedTax = result.taxAmount
+        break
+      }
+
       default:
         return NextResponse.json(
           { error: "Invalid tax mode" },
@@ -78,6 +115,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       monthly: data.monthly,
       taxMode: taxSetting.mode,
+      regime: taxSetting.mode === "REGIME" ? taxSetting.regime : null,
       percentage: taxSetting.percentage ? Number(taxSetting.percentage) : null,
       fixedAmount: taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : null,
       calculatedTax: Number(calculatedTax.toFixed(2)),
@@ -6,9 +6,18 @@ import { prisma } from "@/lib/prisma"
 
 const taxSettingSchema = z
   .object({
-    mode: z.enum(["PERCENTAGE", "FIXED", "HYBRID"]),
+    mode: z.enum(["PERCENTAGE", "FIXED", "HYBRID", "REGIME"]),
     percentage: z.number().min(0).max(100).optional(),
     fixedAmount: z.number().min(0).optional(),
+    regime: z.enum(["OLD", "NEW"]).optional(),
+    section80C: z.number().min(0).optional(),
+    section80D: z.number().min(0).optional(),
+    section80CCD1B: z.number().min(0).optional(),
+    hraReceived: z.number().min(0).optional(),
+    rentPaid: z.number().min(0).optional(),
+    basicSalary: z.number().min(0).optional(),
+    isMetroCity: z.boolean().optional(),
+    otherDeductions: z.number().min(0).optional(),
   })
   .refine(
     (data) => {
@@ -21,11 +30,14 @@ const taxSettingSchema = z
       if (data.mode === "HYBRID" && (data.percentage === undefined || data.fixedAmount === undefined)) {
         return false
       }
+      if (data.mode === "REGIME" && data.regime === undefined) {
+        return false
+      }
       return true
     },
     {
       message:
-        "Invalid tax mode configuration. PERCENTAGE requires percentage, FIXED requires fixedAmount, HYBRID requires both.",
+        "Invalid tax mode configuration. PERCENTAGE requires percentage, FIXED requires fixedAmount, HYBRID requires both, REGIME requires regime.",
     }
   )
 
@@ -68,26 +80,35 @@ export async function POST(request: Request) {
       where: { userId: session.user.id },
     })
 
+    const settingData = {
+      mode: data.mode,
+      percentage: data.percentage ?? null,
+      fixedAmount: data.fixedAmount ?? null,
+      regime: data.regime ?? "NEW",
+      section80C: data.section80C ?? null,
+      section80D: data.section80D ?? null,
+      section80CCD1B: data.section80CCD1B ?? null,
+      hraReceived: data.hraReceived ?? null,
+      rentPaid: data.rentPaid ?? null,
+      basicSalary: data.basicSalary ?? null,
+      isMetroCity: data.isMetroCity ?? false,
+      otherDeductions: data.otherDeductions ?? null,
+    }
+
     let taxSetting
 
     if (existingTaxSetting) {
       // Update existing tax setting
       taxSetting = await prisma.taxSetting.update({
         where: { id: existingTaxSetting.id },
-        data: {
-          mode: data.mode,
-          percentage: data.percentage ?? null,
-          fixedAmount: data.fixedAmount ?? null,
-        },
+        data: settingData,
       })
     } else {
       // Create new tax setting
       taxSetting = await prisma.taxSetting.create({
         data: {
           userId: session.user.id,
-          mode: data.mode,
-          percentage: data.percentage ?? null,
-          fixedAmount: data.fixedAmount ?? null,
+          ...settingData,
         },
       })
     }
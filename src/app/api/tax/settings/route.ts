@@ -5,9 +5,18 @@ import { prisma } from "@/lib/prisma"
 import { z } from "zod"
 
 const taxSettingSchema = z.object({
-  mode: z.enum(["PERCENTAGE", "FIXED", "HYBRID"]),
+  mode: z.enum(["PERCENTAGE", "FIXED", "HYBRID", "REGIME"]),
   percentage: z.number().min(0).max(100).optional(),
   fixedAmount: z.number().min(0).optional(),
+  regime: z.enum(["OLD", "NEW"]).optional(),
+  section80C: z.number().min(0).optional(),
+  section80D: z.number().min(0).optional(),
+  section80CCD1B: z.number().min(0).optional(),
+  hraReceived: z.number().min(0).optional(),
+  rentPaid: z.number().min(0).optional(),
+  basicSalary: z.number().min(0).optional(),
+  isMetroCity: z.boolean().optional(),
+  otherDeductions: z.number().min(0).optional(),
 }).refine((data) => {
   if (data.mode === "PERCENTAGE" && !data.percentage) {
     return false
@@ -18,6 +27,9 @@ const taxSettingSchema = z.object({
   if (data.mode === "HYBRID" && (!data.percentage || !data.fixedAmount)) {
     return false
   }
+  if (data.mode === "REGIME" && !data.regime) {
+    return false
+  }
   return true
 }, {
   message: "Required fields missing for selected tax mode",
@@ -53,7 +65,22 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { mode, percentage, fixedAmount } = taxSettingSchema.parse(body)
+    const { mode, percentage, fixedAmount, regime, isMetroCity, ...deductions } = taxSettingSchema.parse(body)
+
+    const settingData = {
+      mode,
+      percentage: percentage || null,
+      fixedAmount: fixedAmount || null,
+      regime: regime || "NEW",
+      section80C: deductions.section80C || null,
+      section80D: deductions.section80D || null,
+      section80CCD1B: deductions.section80CCD1B || null,
+      hraReceived: deductions.hraReceived || null,
+      rentPaid: deductions.rentPaid || null,
+      basicSalary: deductions.basicSalary || null,
+      isMetroCity: isMetroCity || false,
+      otherDeductions: deductions.otherDeductions || null,
+    }
 
     // Upsert tax setting (update if exists, create if not)
     const existingTaxSetting = await prisma.taxSetting.findFirst({
@@ -63,18 +90,12 @@ export async function POST(request: NextRequest) {
     const taxSetting = existingTaxSetting
       ? await prisma.taxSetting.update({
           where: { id: existingTaxSetting.id },
-          data: {
-            mode,
-            percentage: percentage || null,
-            fixedAmount: fixedAmount || null,
-          },
+          data: settingData,
         })
       : await prisma.taxSetting.create({
           data: {
             userId: session.user.id,
-            mode,
-            percentage: percentage || null,
-            fixedAmount: fixedAmount || null,
+            ...settingData,
           },
         })
 
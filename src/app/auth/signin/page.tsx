@@ -9,7 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "sonner"
-import { Role } from "@/constants"
+import { Role, TWO_FACTOR_ERRORS } from "@/constants"
 
 export default function SignIn() {
   const [email, setEmail] = useState("")
@@ -75,6 +75,13 @@ export default function SignIn() {
       })
 
       if (result?.error) {
+        // Password accepted - continue with the authentication code
+        if (result.error.startsWith(`${TWO_FACTOR_ERRORS.REQUIRED}:`)) {
+          sessionStorage.setItem("twoFactorChallenge", result.error.slice(TWO_FACTOR_ERRORS.REQUIRED.length + 1))
+          router.push("/auth/verify-2fa")
+          return
+        }
+
         // Check if error is due to blocked user
         if (result.error.includes("BLOCKED_USER")) {
           toast.error("You have been blocked by the admin", {
@@ -0,0 +1,157 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { signIn } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { ArrowLeft } from "lucide-react"
+import { TOTP_DIGITS, TWO_FACTOR_ERRORS, TWO_FACTOR_LOCK_MINUTES } from "@/constants"
+
+export default function VerifyTwoFactor() {
+  const [code, setCode] = useState("")
+  const [challenge, setChallenge] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const router = useRouter()
+
+  useEffect(() => {
+    // Get the challenge issued after the password from session storage
+    const storedChallenge = sessionStorage.getItem("twoFactorChallenge")
+    if (!storedChallenge) {
+      toast.error("Please sign in again")
+      router.push("/auth/signin")
+      return
+    }
+    setChallenge(storedChallenge)
+  }, [router])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const result = await signIn("credentials", {
+        challenge,
+        code,
+        redirect: false,
+      })
+
+      if (result?.error) {
+        if (result.error.includes(TWO_FACTOR_ERRORS.EXPIRED)) {
+          sessionStorage.removeItem("twoFactorChallenge")
+          toast.error("Your sign-in has expired. Please sign in again")
+          router.push("/auth/signin")
+        } else if (result.error.includes(TWO_FACTOR_ERRORS.LOCKED)) {
+          toast.error(`Too many wrong codes. Try again in ${TWO_FACTOR_LOCK_MINUTES} minutes`, {
+            duration: 6000,
+          })
+        } else if (result.error.includes("BLOCKED_USER")) {
+          toast.error("You have been blocked by the admin", {
+            duration: 5000,
+          })
+        } else {
+          toast.error(useRecoveryCode ? "Invalid recovery code" : "Invalid code")
+        }
+        setCode("")
+      } else {
+        sessionStorage.removeItem("twoFactorChallenge")
+        router.push("/dashboard")
+        router.refresh()
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const isCodeComplete = useRecoveryCode ? code.replace(/[\s-]/g, "").length === 10 : code.length === TOTP_DIGITS
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="mb-4">
+            <Link
+              href="/auth/signin"
+              onClick={() => sessionStorage.removeItem("twoFactorChallenge")}
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Link>
+          </div>
+          <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you set up two-factor authentication"
+              : "Enter the 6-digit code from your authenticator app"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="code">{useRecoveryCode ? "Recovery Code" : "Authentication Code"}</Label>
+              {useRecoveryCode ? (
+                <Input
+                  id="code"
+                  type="text"
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.trim().slice(0, 11))}
+                  autoComplete="off"
+                  required
+                  className="text-center text-xl tracking-widest font-mono"
+                />
+              ) : (
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="000000"
+                  value={code}
+                  onChange={(e) => {
+                    const value = e.target.value.replace(/\D/g, "").slice(0, TOTP_DIGITS)
+                    setCode(value)
+                  }}
+                  maxLength={TOTP_DIGITS}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  className="text-center text-2xl tracking-widest font-mono"
+                />
+              )}
+              {useRecoveryCode && (
+                <p className="text-xs text-muted-foreground">
+                  Each recovery code can only be used once
+                </p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading || !challenge || !isCodeComplete}>
+              {isLoading ? "Verifying..." : "Verify"}
+            </Button>
+            <div className="text-center text-sm">
+              {useRecoveryCode ? "Have your authenticator app?" : "Lost access to your authenticator app?"}{" "}
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode)
+                  setCode("")
+                }}
+                disabled={isLoading}
+                className="text-primary hover:underline font-medium"
+              >
+                {useRecoveryCode ? "Use a code" : "Use a recovery code"}
+              </button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
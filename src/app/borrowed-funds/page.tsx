@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/alert-dialog"
 import { AddFundModal } from "@/components/borrowed-funds/add-fund-modal"
 import { ReturnFundModal } from "@/components/borrowed-funds/return-fund-modal"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import { toast } from "sonner"
 import {
   Plus,
@@ -34,11 +35,13 @@ import {
   DollarSign,
 } from "lucide-react"
 import { format } from "date-fns"
+import { DEFAULT_CURRENCY, getCurrencySymbol } from "@/constants"
 
 interface BorrowedFund {
   id: string
   lenderName: string
   borrowedAmount: number
+  currency: string
   borrowedDate: string
   expectedReturnDate: string | null
   actualReturnDate: string | null
@@ -51,6 +54,12 @@ interface BorrowedFund {
   interestRate: number | null
   notes: string | null
   transactionIds: string[]
+  base: {
+    currency: string
+    borrowedAmount: number
+    returnedAmount: number
+    profitLoss: number
+  }
   member: {
     id: string
     name: string
@@ -129,13 +138,14 @@ export default function BorrowedFundsPage() {
   const activeFunds = funds.filter((f) => !f.isFullyReturned)
   const returnedFunds = funds.filter((f) => f.isFullyReturned)
 
-  const totalBorrowed = activeFunds.reduce((sum, f) => sum + f.borrowedAmount, 0)
-  const totalReturned = activeFunds.reduce((sum, f) => sum + f.returnedAmount, 0)
+  const totalBorrowed = activeFunds.reduce((sum, f) => sum + f.base.borrowedAmount, 0)
+  const totalReturned = activeFunds.reduce((sum, f) => sum + f.base.returnedAmount, 0)
   const totalOutstanding = totalBorrowed - totalReturned
   const totalProfit = activeFunds.reduce(
-    (sum, f) => sum + (f.profitLoss || 0),
+    (sum, f) => sum + f.base.profitLoss,
     0
   )
+  const currencySymbol = getCurrencySymbol(funds[0]?.base.currency ?? DEFAULT_CURRENCY)
 
   if (isLoading) {
     return (
@@ -203,7 +213,7 @@ export default function BorrowedFundsPage() {
                     Total Borrowed
                   </p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    ₹{totalBorrowed.toLocaleString()}
+                    {currencySymbol}{totalBorrowed.toLocaleString()}
                   </p>
                 </div>
               </div>
@@ -225,12 +235,12 @@ export default function BorrowedFundsPage() {
                     Outstanding
                   </p>
                   <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                    ₹{totalOutstanding.toLocaleString()}
+                    {currencySymbol}{totalOutstanding.toLocaleString()}
                   </p>
                 </div>
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-500 mt-2">
-                {totalReturned > 0 ? `₹${totalReturned.toLocaleString()} returned` : "No returns yet"}
+                {totalReturned > 0 ? `${currencySymbol}${totalReturned.toLocaleString()} returned` : "No returns yet"}
               </p>
             </div>
           </div>
@@ -251,7 +261,7 @@ export default function BorrowedFundsPage() {
                     Profit/Loss
                   </p>
                   <p className={`text-2xl font-bold ${totalProfit >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
-                    {totalProfit >= 0 ? "+" : ""}₹{totalProfit.toLocaleString()}
+                    {totalProfit >= 0 ? "+" : ""}{currencySymbol}{totalProfit.toLocaleString()}
                   </p>
                 </div>
               </div>
@@ -312,7 +322,7 @@ export default function BorrowedFundsPage() {
                               Borrowed
                             </p>
                             <p className="text-lg font-bold text-gray-900 dark:text-white">
-                              ₹{fund.borrowedAmount.toLocaleString()}
+                              {getCurrencySymbol(fund.currency)}{fund.borrowedAmount.toLocaleString()}
                             </p>
                           </div>
                           <div>
@@ -320,7 +330,7 @@ export default function BorrowedFundsPage() {
                               Returned
                             </p>
                             <p className="text-lg font-bold text-green-600 dark:text-green-400">
-                              ₹{fund.returnedAmount.toLocaleString()}
+                              {getCurrencySymbol(fund.currency)}{fund.returnedAmount.toLocaleString()}
                             </p>
                           </div>
                           <div>
@@ -328,7 +338,7 @@ export default function BorrowedFundsPage() {
                               Outstanding
                             </p>
                             <p className="text-lg font-bold text-orange-600 dark:text-orange-400">
-                              ₹{outstanding.toLocaleString()}
+                              {getCurrencySymbol(fund.currency)}{outstanding.toLocaleString()}
                             </p>
                           </div>
                           {fund.profitLoss !== null && (
@@ -339,7 +349,7 @@ export default function BorrowedFundsPage() {
                               <p
                                 className={`text-lg font-bold ${fund.profitLoss >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
                               >
-                                {fund.profitLoss >= 0 ? "+" : ""}₹
+                                {fund.profitLoss >= 0 ? "+" : ""}{getCurrencySymbol(fund.currency)}
                                 {fund.profitLoss.toLocaleString()}
                               </p>
                             </div>
@@ -403,6 +413,7 @@ export default function BorrowedFundsPage() {
                           <ArrowLeft className="h-4 w-4 lg:mr-0 mr-1" />
                           <span className="lg:hidden">Return</span>
                         </Button>
+                        <AuditHistoryButton entity="BORROWED_FUND" entityId={fund.id} title={fund.lenderName} />
                         <Button
                           variant="outline"
                           size="sm"
@@ -468,7 +479,7 @@ export default function BorrowedFundsPage() {
                         <div>
                           <p className="text-gray-600 dark:text-gray-400">Amount</p>
                           <p className="font-semibold text-gray-900 dark:text-white">
-                            ₹{fund.borrowedAmount.toLocaleString()}
+                            {getCurrencySymbol(fund.currency)}{fund.borrowedAmount.toLocaleString()}
                           </p>
                         </div>
                         {fund.profitLoss !== null && (
@@ -477,7 +488,7 @@ export default function BorrowedFundsPage() {
                             <p
                               className={`font-semibold ${fund.profitLoss >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
                             >
-                              {fund.profitLoss >= 0 ? "+" : ""}₹
+                              {fund.profitLoss >= 0 ? "+" : ""}{getCurrencySymbol(fund.currency)}
                               {fund.profitLoss.toLocaleString()}
                             </p>
                           </div>
@@ -540,6 +551,7 @@ export default function BorrowedFundsPage() {
                 lenderName: editingFund.lenderName,
                 memberId: editingFund.member?.id,
                 borrowedAmount: editingFund.borrowedAmount,
+                currency: editingFund.currency,
                 borrowedDate: editingFund.borrowedDate,
                 expectedReturnDate: editingFund.expectedReturnDate,
                 transactionIds: editingFund.transactionIds,
@@ -562,6 +574,7 @@ export default function BorrowedFundsPage() {
             lenderName: returnModal.fund.lenderName,
             borrowedAmount: returnModal.fund.borrowedAmount,
             returnedAmount: returnModal.fund.returnedAmount,
+            currency: returnModal.fund.currency,
           }}
         />
       )}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -20,6 +21,8 @@ import {
   Trash2,
   Calendar,
   Check,
+  FileText,
+  Gift,
 } from "lucide-react";
 import {
   Dialog,
@@ -39,8 +42,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import type { CreditCard } from "@/types";
+import type { CardUtilisation, CreditCard } from "@/types";
 import { INDIAN_BANKS } from "@/constants/banks";
+import { CARD_UTILISATION_COLORS } from "@/constants";
 
 export default function CreditCardsPage() {
   const [cards, setCards] = useState<CreditCard[]>([]);
@@ -50,6 +54,7 @@ export default function CreditCardsPage() {
   const [currentCard, setCurrentCard] = useState<CreditCard | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [cardToDelete, setCardToDelete] = useState<string | null>(null);
+  const [utilisation, setUtilisation] = useState<Record<string, CardUtilisation>>({});
 
   // Form state
   const [cardName, setCardName] = useState("");
@@ -66,6 +71,7 @@ export default function CreditCardsPage() {
 
   useEffect(() => {
     loadCards();
+    loadUtilisation();
   }, []);
 
   // Filter banks based on input
@@ -99,6 +105,22 @@ export default function CreditCardsPage() {
     }
   };
 
+  const loadUtilisation = async () => {
+    try {
+      const response = await fetch("/api/credit-cards/statements");
+      if (response.ok) {
+        const data = await response.json();
+        setUtilisation(
+          Object.fromEntries(
+            (data.utilisation as CardUtilisation[]).map((item) => [item.creditCardId, item]),
+          ),
+        );
+      }
+    } catch (error) {
+      console.error("Error loading card utilisation:", error);
+    }
+  };
+
   const resetForm = () => {
     setCardName("");
     setLastFourDigits("");
@@ -179,6 +201,7 @@ export default function CreditCardsPage() {
         setIsDialogOpen(false);
         resetForm();
         loadCards();
+        loadUtilisation();
       } else {
         const data = await response.json();
         toast.error(data.error || "Failed to save card");
@@ -226,10 +249,24 @@ export default function CreditCardsPage() {
             Manage your credit cards and billing cycles
           </p>
         </div>
-        <Button onClick={() => handleOpenDialog()} className="w-full sm:w-auto">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Card
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link href="/credit-cards/statements">
+              <FileText className="h-4 w-4 mr-2" />
+              Statements
+            </Link>
+          </Button>
+          <Button variant="outline" asChild className="w-full sm:w-auto">
+            <Link href="/credit-cards/rewards">
+              <Gift className="h-4 w-4 mr-2" />
+              Rewards
+            </Link>
+          </Button>
+          <Button onClick={() => handleOpenDialog()} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Card
+          </Button>
+        </div>
       </div>
 
       {isLoading ? (
@@ -346,6 +383,34 @@ export default function CreditCardsPage() {
                       </span>
                     </div>
                   )}
+                  {utilisation[card.id]?.utilisationPercent != null && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-sm gap-2">
+                        <span className="text-muted-foreground flex-shrink-0">
+                          Utilisation
+                        </span>
+                        <span
+                          className={
+                            utilisation[card.id].level === "CRITICAL"
+                              ? "text-red-600 dark:text-red-400 font-medium"
+                              : utilisation[card.id].level === "WARNING"
+                                ? "text-amber-600 dark:text-amber-400 font-medium"
+                                : ""
+                          }
+                        >
+                          {utilisation[card.id].utilisationPercent}%
+                        </span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                        <div
+                          className={`h-full ${CARD_UTILISATION_COLORS[utilisation[card.id].level]}`}
+                          style={{
+                            width: `${Math.min(100, utilisation[card.id].utilisationPercent ?? 0)}%`,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
                 <div className="flex gap-2 mt-4">
                   <Button
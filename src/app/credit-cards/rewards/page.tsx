@@ -0,0 +1,275 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { ArrowLeft, CreditCard as CreditCardIcon, Gift, Settings2, Trash2 } from "lucide-react"
+import { format } from "date-fns"
+import { RewardProgramModal } from "@/components/credit-cards/reward-program-modal"
+import { RedeemRewardsModal } from "@/components/credit-cards/redeem-rewards-modal"
+import { DEFAULT_CURRENCY, getCurrencySymbol } from "@/constants"
+import type { CardRewardProgram, CardRewardSummary } from "@/types"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+
+const formatPoints = (value: number) => value.toLocaleString("en-IN", { maximumFractionDigits: 2 })
+
+// One-line description of a program, e.g. "2 points per ₹100 • 5x dining • 10,000 a cycle at most"
+function describeProgram(program: CardRewardProgram, currency: string): string {
+  const symbol = getCurrencySymbol(currency).trim()
+  const rate = program.rewardType === "CASHBACK"
+    ? `${symbol}${program.pointsPerUnit} cashback per ${symbol}${program.spendUnit}`
+    : `${program.pointsPerUnit} points per ${symbol}${program.spendUnit}`
+
+  return [
+    rate,
+    ...program.multipliers.map((multiplier) => `${multiplier.multiplier}x ${multiplier.category}`),
+    program.monthlyCap !== null ? `${formatPoints(program.monthlyCap)} a cycle at most` : null,
+  ].filter(Boolean).join(" • ")
+}
+
+export default function CardRewardsPage() {
+  const [cards, setCards] = useState<CardRewardSummary[]>([])
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingCard, setEditingCard] = useState<CardRewardSummary | null>(null)
+  const [redeemingCard, setRedeemingCard] = useState<CardRewardSummary | null>(null)
+
+  const loadRewards = async () => {
+    try {
+      const response = await fetch("/api/credit-cards/rewards")
+      if (response.ok) {
+        const data = await response.json()
+        setCards(data.cards)
+        setCurrency(data.currency)
+      } else {
+        toast.error("Failed to load rewards")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRewards()
+  }, [])
+
+  const handleDeleteRedemption = async (redemptionId: string) => {
+    if (!confirm("Delete this redemption? Its points return to the card's balance.")) return
+
+    try {
+      const response = await fetch(`/api/credit-cards/rewards/redemptions/${redemptionId}`, { method: "DELETE" })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to delete redemption")
+      }
+      toast.success("Redemption deleted")
+      loadRewards()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete redemption")
+    }
+  }
+
+  const totalAvailableValue = cards.reduce((sum, card) => sum + card.availableValue, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Card Rewards
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Points and cashback earned per statement cycle, worth {formatAmount(totalAvailableValue, currency)} to redeem
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/credit-cards">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Credit Cards
+          </Link>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : cards.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <CreditCardIcon className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Active Cards</h3>
+              <p className="text-muted-foreground text-sm">
+                Add a credit card to set up its reward program
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        cards.map((card) => {
+          const isCashback = card.program?.rewardType === "CASHBACK"
+          const unit = isCashback ? "cashback" : "points"
+
+          return (
+            <div
+              key={card.creditCardId}
+              className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50"
+            >
+              <div className="relative p-6 space-y-4">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {card.bank} {card.cardName}
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                      •••• {card.lastFourDigits}
+                      {card.program && ` • ${describeProgram(card.program, currency)}`}
+                    </p>
+                    {card.program && card.program.milestones.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {card.program.milestones.map((milestone) => (
+                          <Badge key={milestone.id} variant="outline">
+                            {formatPoints(milestone.bonusPoints)} bonus at {formatAmount(milestone.spendThreshold, currency)}
+                            {milestone.period === "CYCLE" ? " a cycle" : " a year"}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditingCard(card)}>
+                      <Settings2 className="h-4 w-4 mr-1" />
+                      {card.program ? "Edit Program" : "Set Up Rewards"}
+                    </Button>
+                    {card.availablePoints > 0 && (
+                      <Button size="sm" onClick={() => setRedeemingCard(card)}>
+                        <Gift className="h-4 w-4 mr-1" />
+                        Redeem
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {card.program && (
+                  <div className="grid grid-cols-3 gap-3 text-sm">
+                    <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                      <p className="text-muted-foreground">Available</p>
+                      <p className="text-lg font-semibold text-green-600 dark:text-green-400">
+                        {isCashback ? formatAmount(card.availablePoints, currency) : `${formatPoints(card.availablePoints)} pts`}
+                      </p>
+                      {!isCashback && <p className="text-xs text-muted-foreground">≈ {formatAmount(card.availableValue, currency)}</p>}
+                    </div>
+                    <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                      <p className="text-muted-foreground">Pending (Open Cycle)</p>
+                      <p className="text-lg font-semibold">
+                        {isCashback ? formatAmount(card.pendingPoints, currency) : `${formatPoints(card.pendingPoints)} pts`}
+                      </p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                      <p className="text-muted-foreground">Redeemed</p>
+                      <p className="text-lg font-semibold">
+                        {isCashback ? formatAmount(card.redeemedPoints, currency) : `${formatPoints(card.redeemedPoints)} pts`}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                {card.accruals.length > 0 && (
+                  <div className="overflow-x-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-gray-50 dark:bg-gray-900">
+                          <TableHead className="font-semibold">Cycle</TableHead>
+                          <TableHead className="text-right font-semibold">Spend</TableHead>
+                          <TableHead className="text-right font-semibold">From Spend</TableHead>
+                          <TableHead className="text-right font-semibold">Milestones</TableHead>
+                          <TableHead className="text-right font-semibold">Lost to Caps</TableHead>
+                          <TableHead className="text-right font-semibold">Earned</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {card.accruals.map((accrual) => (
+                          <TableRow key={accrual.id} className="hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(accrual.periodStart), "MMM dd")} – {format(new Date(accrual.periodEnd), "MMM dd, yyyy")}
+                              {accrual.isOpen && <Badge variant="secondary" className="ml-2">Open</Badge>}
+                            </TableCell>
+                            <TableCell className="text-right">{formatAmount(accrual.spend, currency)}</TableCell>
+                            <TableCell className="text-right">{formatPoints(accrual.spendPoints)}</TableCell>
+                            <TableCell className="text-right">{accrual.milestonePoints > 0 ? formatPoints(accrual.milestonePoints) : "-"}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">
+                              {accrual.cappedPoints > 0 ? formatPoints(accrual.cappedPoints) : "-"}
+                            </TableCell>
+                            <TableCell className="text-right font-semibold">
+                              {formatPoints(accrual.points)} {unit}
+                              {!isCashback && <div className="text-xs font-normal text-muted-foreground">{formatAmount(accrual.value, currency)}</div>}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+
+                {card.redemptions.length > 0 && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">Redemptions</h3>
+                    <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+                      {card.redemptions.map((redemption) => (
+                        <div key={redemption.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                          <div className="min-w-0">
+                            <p>
+                              {formatPoints(redemption.points)} {unit} for {formatAmount(redemption.value, currency)}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {format(new Date(redemption.redeemedOn), "MMM dd, yyyy")}
+                              {redemption.notes && ` • ${redemption.notes}`}
+                            </p>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteRedemption(redemption.id)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        })
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Rewards follow each card&apos;s statement cycles. Points of the open cycle become available once it closes.
+        Category multipliers match expense tags, so tag merchants with auto-categorisation rules.
+      </p>
+
+      <RewardProgramModal
+        open={editingCard !== null}
+        onOpenChange={(open) => !open && setEditingCard(null)}
+        card={editingCard ? { id: editingCard.creditCardId, bank: editingCard.bank, cardName: editingCard.cardName, lastFourDigits: editingCard.lastFourDigits } : null}
+        program={editingCard?.program ?? null}
+        currency={currency}
+        onSuccess={loadRewards}
+      />
+
+      <RedeemRewardsModal
+        open={redeemingCard !== null}
+        onOpenChange={(open) => !open && setRedeemingCard(null)}
+        summary={redeemingCard}
+        currency={currency}
+        onSuccess={loadRewards}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,258 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { AlertTriangle, ArrowLeft, CreditCard as CreditCardIcon, FileSearch, Wallet } from "lucide-react"
+import { format } from "date-fns"
+import { PayBillModal } from "@/components/credit-cards/pay-bill-modal"
+import { ReconcileStatementModal } from "@/components/credit-cards/reconcile-statement-modal"
+import {
+  CARD_STATEMENT_STATUS_COLORS,
+  CARD_STATEMENT_STATUS_LABELS,
+  CARD_UTILISATION_COLORS,
+  DEFAULT_CURRENCY,
+  getCurrencySymbol,
+} from "@/constants"
+import type { CardStatement, CardUtilisation } from "@/types"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+
+export default function CardStatementsPage() {
+  const [statements, setStatements] = useState<CardStatement[]>([])
+  const [utilisation, setUtilisation] = useState<CardUtilisation[]>([])
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const [isLoading, setIsLoading] = useState(true)
+  const [payingStatement, setPayingStatement] = useState<CardStatement | null>(null)
+  const [reconcilingStatement, setReconcilingStatement] = useState<CardStatement | null>(null)
+
+  const loadStatements = async () => {
+    try {
+      const response = await fetch("/api/credit-cards/statements")
+      if (response.ok) {
+        const data = await response.json()
+        setStatements(data.statements)
+        setUtilisation(data.utilisation)
+        setCurrency(data.currency)
+      } else {
+        toast.error("Failed to load statements")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadStatements()
+  }, [])
+
+  // Payments go to each card's latest billed statement; older unpaid amounts are carried into it
+  const payableIds = new Set(
+    utilisation
+      .map(card => statements.find(statement => statement.creditCardId === card.creditCardId && statement.status !== "OPEN"))
+      .filter((statement): statement is CardStatement => !!statement && statement.outstanding > 0)
+      .map(statement => statement.id)
+  )
+
+  const alerts = utilisation.filter(card => card.level !== "OK")
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Card Statements
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Monthly statements built from your card expenses, with dues, payments and utilisation
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/credit-cards">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Credit Cards
+          </Link>
+        </Button>
+      </div>
+
+      {/* Utilisation alerts */}
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map((card) => (
+            <div
+              key={card.creditCardId}
+              className={`flex items-center gap-3 p-4 rounded-lg border ${
+                card.level === "CRITICAL"
+                  ? "bg-red-50 dark:bg-red-950/30 border-red-200 dark:border-red-900 text-red-700 dark:text-red-300"
+                  : "bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-900 text-amber-700 dark:text-amber-300"
+              }`}
+            >
+              <AlertTriangle className="h-5 w-5 shrink-0" />
+              <p className="text-sm">
+                {card.bank} {card.cardName} (•••• {card.lastFourDigits}) is at {card.utilisationPercent}% of its limit
+                {" "}({formatAmount(card.outstanding, currency)} of {formatAmount(card.cardLimit ?? 0, currency)})
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : utilisation.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <CreditCardIcon className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Active Cards</h3>
+              <p className="text-muted-foreground text-sm">
+                Add a credit card and record card expenses to see its statements
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        utilisation.map((card) => {
+          const cardStatements = statements.filter(statement => statement.creditCardId === card.creditCardId)
+
+          return (
+            <div
+              key={card.creditCardId}
+              className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50"
+            >
+              <div className="relative p-6 space-y-4">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {card.bank} {card.cardName}
+                    </h2>
+                    <p className="text-sm text-muted-foreground">•••• {card.lastFourDigits}</p>
+                  </div>
+                  {card.utilisationPercent !== null && (
+                    <div className="sm:w-64 space-y-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Utilisation</span>
+                        <span>{card.utilisationPercent}%</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                        <div
+                          className={`h-full ${CARD_UTILISATION_COLORS[card.level]}`}
+                          style={{ width: `${Math.min(100, card.utilisationPercent)}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {cardStatements.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No card expenses recorded yet</p>
+                ) : (
+                  <div className="overflow-x-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-gray-50 dark:bg-gray-900">
+                          <TableHead className="font-semibold">Period</TableHead>
+                          <TableHead className="font-semibold">Due Date</TableHead>
+                          <TableHead className="text-right font-semibold">Spend</TableHead>
+                          <TableHead className="text-right font-semibold">Total Due</TableHead>
+                          <TableHead className="text-right font-semibold">Minimum Due</TableHead>
+                          <TableHead className="text-right font-semibold">Paid</TableHead>
+                          <TableHead className="font-semibold">Status</TableHead>
+                          <TableHead className="text-right font-semibold">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cardStatements.map((statement) => (
+                          <TableRow key={statement.id} className="hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(statement.periodStart), "MMM dd")} – {format(new Date(statement.periodEnd), "MMM dd, yyyy")}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {format(new Date(statement.dueDate), "MMM dd, yyyy")}
+                            </TableCell>
+                            <TableCell className="text-right">{formatAmount(statement.spend, currency)}</TableCell>
+                            <TableCell className="text-right font-semibold">
+                              {formatAmount(statement.totalDue, currency)}
+                              {(statement.previousBalance > 0 || statement.interest > 0 || statement.lateFee > 0) && (
+                                <div className="text-xs font-normal text-muted-foreground">
+                                  {statement.previousBalance > 0 && `Carried ${formatAmount(statement.previousBalance, currency)}`}
+                                  {statement.interest > 0 && ` • Interest ${formatAmount(statement.interest, currency)}`}
+                                  {statement.lateFee > 0 && ` • Late fee ${formatAmount(statement.lateFee, currency)}`}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{formatAmount(statement.minimumDue, currency)}</TableCell>
+                            <TableCell className="text-right">
+                              {formatAmount(statement.paidAmount, currency)}
+                              {statement.payments.length > 0 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {statement.payments.length} payment{statement.payments.length === 1 ? "" : "s"}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge className={`${CARD_STATEMENT_STATUS_COLORS[statement.status]} text-white`}>
+                                {CARD_STATEMENT_STATUS_LABELS[statement.status]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                {payableIds.has(statement.id) && (
+                                  <Button size="sm" onClick={() => setPayingStatement(statement)}>
+                                    <Wallet className="h-4 w-4 mr-1" />
+                                    Pay
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setReconcilingStatement(statement)}
+                                  title="Reconcile with the bank's statement"
+                                >
+                                  <FileSearch className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        })
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Unpaid balances carry into the next statement with interest, and a late fee applies when the minimum due is missed.
+        Bill payments settle card dues and are not recorded as expenses.
+      </p>
+
+      <PayBillModal
+        open={payingStatement !== null}
+        onOpenChange={(open) => !open && setPayingStatement(null)}
+        statement={payingStatement}
+        currency={currency}
+        onSuccess={loadStatements}
+      />
+
+      <ReconcileStatementModal
+        open={reconcilingStatement !== null}
+        onOpenChange={(open) => !open && setReconcilingStatement(null)}
+        statement={reconcilingStatement}
+        currency={currency}
+      />
+    </div>
+  )
+}
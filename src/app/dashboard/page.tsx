@@ -11,8 +11,15 @@ import { SalaryFlowPipeline } from "@/components/dashboard/salary-flow-pipeline"
 import { RecentExpenses } from "@/components/dashboard/recent-expenses"
 import { UpcomingEMI } from "@/components/dashboard/upcoming-emi"
 import { InvestmentTracking } from "@/components/dashboard/investment-tracking"
+import { NetWorthChart } from "@/components/dashboard/net-worth-chart"
+import { GoalsWidget } from "@/components/dashboard/goals-widget"
 import { getAmountForMonth } from "@/lib/frequency-utils"
+import { getScheduleAdjustments } from "@/lib/sip-schedule"
 import { getHoldingsValueWithFreshPrices } from "@/lib/holdings-calculator"
+import { getMonthlyTax } from "@/lib/tax-utils"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { getCurrencySymbol } from "@/constants"
+import type { CurrencyConverter } from "@/types"
 
 export const metadata: Metadata = {
   title: "Dashboard",
@@ -38,7 +45,7 @@ async function getSalary(userId: string, month: number, year: number) {
   return salary ? Number(salary.monthly) : 0
 }
 
-async function getAdditionalIncome(userId: string, month: number, year: number) {
+async function getAdditionalIncome(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 0, 23, 59, 59, 999)
 
@@ -52,47 +59,11 @@ async function getAdditionalIncome(userId: string, month: number, year: number)
     },
   })
 
-  const totalIncome = incomes.reduce((sum, income) => sum + Number(income.amount), 0)
+  const totalIncome = incomes.reduce((sum, income) => sum + converter.convert(Number(income.amount), income.currency, income.date), 0)
   return { totalIncome, count: incomes.length }
 }
 
-async function getTaxCalculation(userId: string, salary: number) {
-  const taxSetting = await prisma.taxSetting.findFirst({
-    where: { userId },
-    orderBy: { updatedAt: "desc" },
-  })
-
-  let taxAmount = 0
-  let taxPercentage = 0
-
-  if (taxSetting && salary > 0) {
-    switch (taxSetting.mode) {
-      case "PERCENTAGE":
-        if (taxSetting.percentage) {
-          taxAmount = (salary * Number(taxSetting.percentage)) / 100
-          taxPercentage = Number(taxSetting.percentage)
-        }
-        break
-      case "FIXED":
-        if (taxSetting.fixedAmount) {
-          taxAmount = Number(taxSetting.fixedAmount)
-          taxPercentage = (taxAmount / salary) * 100
-        }
-        break
-      case "HYBRID":
-        if (taxSetting.percentage && taxSetting.fixedAmount) {
-          const percentAmount = (salary * Number(taxSetting.percentage)) / 100
-          taxAmount = percentAmount + Number(taxSetting.fixedAmount)
-          taxPercentage = (taxAmount / salary) * 100
-        }
-        break
-    }
-  }
-
-  return { taxAmount, taxPercentage }
-}
-
-async function getActiveSIPs(userId: string, month: number, year: number) {
+async function getActiveSIPs(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startOfMonth = new Date(year, month - 1, 1)
   const endOfMonth = new Date(year, month, 1)
 
@@ -106,25 +77,28 @@ async function getActiveSIPs(userId: string, month: number, year: number) {
         { endDate: { gte: startOfMonth } }, // Ends on or after start of month
       ],
     },
+    include: { pauses: true, skips: true },
   })
 
   let totalSIPAmount = 0
   sips.forEach((sip) => {
-    const sipAmount = Number(sip.amount)
+    // Step-ups are in the SIP's own terms, so convert the month's amount; SIPs with an INR amount are debited in INR
     const amountForThisMonth = getAmountForMonth(
-      sipAmount,
+      Number(sip.amount),
       sip.frequency,
       new Date(sip.startDate),
       month - 1, // month is 1-12, getAmountForMonth expects 0-11
-      year
+      year,
+      getScheduleAdjustments(sip)
     )
-    totalSIPAmount += amountForThisMonth
+    totalSIPAmount += converter.convert(amountForThisMonth, sip.amountInINR ? "INR" : sip.currency)
   })
 
   // Convert Decimal to number for client components
   const serializedSips = sips.map(sip => ({
     ...sip,
     amount: Number(sip.amount),
+    stepUpValue: sip.stepUpValue ? Number(sip.stepUpValue) : null,
   }))
 
   return { count: sips.length, totalAmount: totalSIPAmount, sips: serializedSips }
@@ -158,7 +132,7 @@ async function getExpenseBudget(userId: string) {
   }
 }
 
-async function getActiveLoans(userId: string, month: number, year: number) {
+async function getActiveLoans(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startOfMonth = new Date(year, month - 1, 1)
   const endOfMonth = new Date(year, month, 1)
 
@@ -189,7 +163,7 @@ async function getActiveLoans(userId: string, month: number, year: number) {
   // Calculate current month's total EMI (both paid and unpaid)
   const currentMonthTotalEMI = loans.reduce((sum, loan) => {
     const allEmis = loan.emis
-    const emiTotal = allEmis.reduce((emiSum, emi) => emiSum + Number(emi.emiAmount), 0)
+    const emiTotal = allEmis.reduce((emiSum, emi) => emiSum + converter.convert(Number(emi.emiAmount), loan.currency, emi.dueDate), 0)
     return sum + emiTotal
   }, 0)
 
@@ -203,7 +177,7 @@ async function getActiveLoans(userId: string, month: number, year: number) {
     return count + loan.emis.filter(emi => !emi.isPaid).length
   }, 0)
 
-  const totalEMI = loans.reduce((sum, loan) => sum + Number(loan.emiAmount), 0)
+  const totalEMI = loans.reduce((sum, loan) => sum + converter.convert(Number(loan.emiAmount), loan.currency), 0)
 
   // Convert Decimal to number for client components
   const serializedLoans = loans.map(loan => ({
@@ -226,7 +200,7 @@ async function getActiveLoans(userId: string, month: number, year: number) {
   return { count: loans.length, totalEMI, loans: serializedLoans, currentMonthTotalEMI, currentMonthEMICount, unpaidEMICount }
 }
 
-async function getRecentExpenses(userId: string, month: number, year: number) {
+async function getRecentExpenses(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 1)
 
@@ -254,10 +228,12 @@ async function getRecentExpenses(userId: string, month: number, year: number) {
     },
     select: {
       amount: true,
+      currency: true,
+      date: true,
     },
   })
 
-  const totalExpenses = allExpenses.reduce((sum, expense) => sum + Number(expense.amount), 0)
+  const totalExpenses = allExpenses.reduce((sum, expense) => sum + converter.convert(Number(expense.amount), expense.currency, expense.date), 0)
 
   // Convert Decimal to number for client components
   const serializedExpenses = expenses.map(expense => ({
@@ -316,7 +292,7 @@ async function getMemberTransactions(userId: string, month: number, year: number
   return { borrowed, lent, count: transactions.length, transactions: serializedTransactions }
 }
 
-async function getBorrowedFundsSurplus(userId: string, month: number, year: number) {
+async function getBorrowedFundsSurplus(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 0, 23, 59, 59, 999)
 
@@ -333,7 +309,7 @@ async function getBorrowedFundsSurplus(userId: string, month: number, year: numb
 
   // Sum up the surplus amounts (borrowed money not invested)
   const totalSurplus = borrowedFunds.reduce(
-    (sum, fund) => sum + Number(fund.surplusAmount),
+    (sum, fund) => sum + converter.convert(Number(fund.surplusAmount), fund.currency, fund.borrowedDate),
     0
   )
 
@@ -350,7 +326,7 @@ async function getBorrowedFundsSurplus(userId: string, month: number, year: numb
   }
 }
 
-async function getOneTimeTransactions(userId: string, month: number, year: number) {
+async function getOneTimeTransactions(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 0, 23, 59, 59, 999)
 
@@ -365,12 +341,15 @@ async function getOneTimeTransactions(userId: string, month: number, year: numbe
     },
   })
 
-  const totalAmount = transactions.reduce((sum, txn) => sum + Number(txn.amount), 0)
+  const totalAmount = transactions.reduce(
+    (sum, txn) => sum + converter.convert(Number(txn.amount), txn.currency, txn.purchaseDate, txn.inrRate ? Number(txn.inrRate) : null),
+    0
+  )
 
   return { count: transactions.length, totalAmount }
 }
 
-async function getSIPExecutions(userId: string, month: number, year: number) {
+async function getSIPExecutions(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 0, 23, 59, 59, 999)
 
@@ -385,7 +364,10 @@ async function getSIPExecutions(userId: string, month: number, year: number) {
     },
   })
 
-  const totalExecuted = executions.reduce((sum, exec) => sum + Number(exec.amount), 0)
+  const totalExecuted = executions.reduce(
+    (sum, exec) => sum + converter.convert(Number(exec.amount), exec.currency, exec.executionDate, exec.inrRate ? Number(exec.inrRate) : null),
+    0
+  )
 
   return { count: executions.length, totalAmount: totalExecuted }
 }
@@ -395,7 +377,7 @@ async function getHoldingsValue(userId: string) {
   return getHoldingsValueWithFreshPrices(userId)
 }
 
-async function getCurrentMonthReturns(userId: string, month: number, year: number) {
+async function getCurrentMonthReturns(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 0, 23, 59, 59, 999)
 
@@ -421,8 +403,10 @@ async function getCurrentMonthReturns(userId: string, month: number, year: numbe
     const buyPrice = Number(txn.price)
     const currentPrice = txn.holding?.currentPrice ? Number(txn.holding.currentPrice) : buyPrice
 
-    totalInvested += qty * buyPrice
-    totalCurrentValue += qty * currentPrice
+    const inrRate = txn.inrRate ? Number(txn.inrRate) : null
+
+    totalInvested += converter.convert(qty * buyPrice, txn.currency, txn.purchaseDate, inrRate)
+    totalCurrentValue += converter.convert(qty * currentPrice, txn.currency, undefined, inrRate)
   })
 
   const monthReturns = totalCurrentValue - totalInvested
@@ -437,7 +421,7 @@ async function getCurrentMonthReturns(userId: string, month: number, year: numbe
   }
 }
 
-async function getPaidEMIs(userId: string, month: number, year: number) {
+async function getPaidEMIs(userId: string, month: number, year: number, converter: CurrencyConverter) {
   const startDate = new Date(year, month - 1, 1)
   const endDate = new Date(year, month, 0, 23, 59, 59, 999)
 
@@ -453,12 +437,16 @@ async function getPaidEMIs(userId: string, month: number, year: number) {
         lte: endDate,
       },
     },
+    include: {
+      loan: { select: { currency: true } },
+    },
   })
 
+  const paidInBase = (emi: typeof paidEMIs[0]) =>
+    converter.convert(emi.paidAmount ? Number(emi.paidAmount) : Number(emi.emiAmount), emi.loan.currency, emi.paidDate ?? emi.dueDate)
+
   // Calculate total paid
-  const totalPaid = paidEMIs.reduce((sum, emi) => {
-    return sum + (emi.paidAmount ? Number(emi.paidAmount) : Number(emi.emiAmount))
-  }, 0)
+  const totalPaid = paidEMIs.reduce((sum, emi) => sum + paidInBase(emi), 0)
 
   // Separate current month EMIs vs additional payments
   // Current month EMIs are those with dueDate in current month
@@ -473,13 +461,9 @@ async function getPaidEMIs(userId: string, month: number, year: number) {
   })
 
   // Calculate amounts
-  const currentMonthPaid = currentMonthEMIs.reduce((sum, emi) => {
-    return sum + (emi.paidAmount ? Number(emi.paidAmount) : Number(emi.emiAmount))
-  }, 0)
+  const currentMonthPaid = currentMonthEMIs.reduce((sum, emi) => sum + paidInBase(emi), 0)
 
-  const additionalPaid = additionalEMIs.reduce((sum, emi) => {
-    return sum + (emi.paidAmount ? Number(emi.paidAmount) : Number(emi.emiAmount))
-  }, 0)
+  const additionalPaid = additionalEMIs.reduce((sum, emi) => sum + paidInBase(emi), 0)
 
   return {
     count: paidEMIs.length,
@@ -504,6 +488,10 @@ export default async function Dashboard({
   const selectedMonth = params.month ? parseInt(params.month) : new Date().getMonth() + 1
   const selectedYear = params.year ? parseInt(params.year) : new Date().getFullYear()
 
+  const converter = await getUserCurrencyConverter(userId)
+  const currency = converter.baseCurrency
+  const currencySymbol = getCurrencySymbol(currency)
+
   // Fetch all data in parallel
   const [
     salary,
@@ -522,23 +510,23 @@ export default async function Dashboard({
     borrowedFundsSurplus,
   ] = await Promise.all([
     getSalary(userId, selectedMonth, selectedYear),
-    getAdditionalIncome(userId, selectedMonth, selectedYear),
-    getActiveSIPs(userId, selectedMonth, selectedYear),
-    getActiveLoans(userId, selectedMonth, selectedYear),
-    getRecentExpenses(userId, selectedMonth, selectedYear),
+    getAdditionalIncome(userId, selectedMonth, selectedYear, converter),
+    getActiveSIPs(userId, selectedMonth, selectedYear, converter),
+    getActiveLoans(userId, selectedMonth, selectedYear, converter),
+    getRecentExpenses(userId, selectedMonth, selectedYear, converter),
     getInvestmentAllocations(userId),
     getExpenseBudget(userId),
-    getOneTimeTransactions(userId, selectedMonth, selectedYear),
-    getSIPExecutions(userId, selectedMonth, selectedYear),
+    getOneTimeTransactions(userId, selectedMonth, selectedYear, converter),
+    getSIPExecutions(userId, selectedMonth, selectedYear, converter),
     getHoldingsValue(userId),
-    getPaidEMIs(userId, selectedMonth, selectedYear),
-    getCurrentMonthReturns(userId, selectedMonth, selectedYear),
+    getPaidEMIs(userId, selectedMonth, selectedYear, converter),
+    getCurrentMonthReturns(userId, selectedMonth, selectedYear, converter),
     getMemberTransactions(userId, selectedMonth, selectedYear),
-    getBorrowedFundsSurplus(userId, selectedMonth, selectedYear),
+    getBorrowedFundsSurplus(userId, selectedMonth, selectedYear, converter),
   ])
 
   const totalIncome = salary + additionalIncome.totalIncome
-  const { taxAmount, taxPercentage } = await getTaxCalculation(userId, totalIncome)
+  const { taxAmount, taxPercentage } = await getMonthlyTax(userId, totalIncome, selectedMonth, selectedYear)
 
   // Use new budget/allocation logic with current month's total EMI and member transactions
   const financialSummary = calculateFinancialSummary(
@@ -601,10 +589,10 @@ export default async function Dashboard({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-green-600 dark:text-green-400 break-words">
-              {totalIncome > 0 ? `₹${totalIncome.toLocaleString('en-IN')}` : 'Not set'}
+              {totalIncome > 0 ? `${currencySymbol}${totalIncome.toLocaleString('en-IN')}` : 'Not set'}
             </div>
             <p className="text-xs text-muted-foreground mt-1 break-words">
-              {additionalIncome.count > 0 ? `Salary: ₹${salary.toLocaleString('en-IN')} + ₹${additionalIncome.totalIncome.toLocaleString('en-IN')} other` : 'Monthly income'}
+              {additionalIncome.count > 0 ? `Salary: ${currencySymbol}${salary.toLocaleString('en-IN')} + ${currencySymbol}${additionalIncome.totalIncome.toLocaleString('en-IN')} other` : 'Monthly income'}
             </p>
           </div>
         </div>
@@ -619,7 +607,7 @@ export default async function Dashboard({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-orange-600 dark:text-orange-400 break-words">
-              ₹{loansData.currentMonthTotalEMI.toLocaleString('en-IN')}
+              {currencySymbol}{loansData.currentMonthTotalEMI.toLocaleString('en-IN')}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               {loansData.currentMonthEMICount} EMI{loansData.currentMonthEMICount !== 1 ? 's' : ''} ({loansData.unpaidEMICount} unpaid)
@@ -637,7 +625,7 @@ export default async function Dashboard({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-purple-600 dark:text-purple-400 break-words">
-              ₹{sipsData.totalAmount.toLocaleString('en-IN')}
+              {currencySymbol}{sipsData.totalAmount.toLocaleString('en-IN')}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               {sipsData.count} active SIP{sipsData.count !== 1 ? 's' : ''}
@@ -655,9 +643,9 @@ export default async function Dashboard({
               </div>
             </div>
             <div className="text-xl sm:text-2xl font-bold text-red-600 dark:text-red-400 break-words">
-              ₹{expensesData.totalExpenses.toLocaleString('en-IN')}
+              {currencySymbol}{expensesData.totalExpenses.toLocaleString('en-IN')}
             </div>
-            <p className="text-xs text-muted-foreground mt-1">₹{(financialSummary.availableForExpenses-expensesData.totalExpenses).toLocaleString('en-IN')} Remaining</p>
+            <p className="text-xs text-muted-foreground mt-1">{currencySymbol}{(financialSummary.availableForExpenses-expensesData.totalExpenses).toLocaleString('en-IN')} Remaining</p>
           </div>
         </div>
 
@@ -687,7 +675,7 @@ export default async function Dashboard({
               "text-xl sm:text-2xl font-bold break-words",
               surplus >= 0 ? "text-blue-600 dark:text-blue-400" : "text-red-600 dark:text-red-400"
             )}>
-              {surplus >= 0 ? '+' : ''}₹{surplus.toLocaleString('en-IN')}
+              {surplus >= 0 ? '+' : ''}{currencySymbol}{surplus.toLocaleString('en-IN')}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               After EMI, SIPs & expenses
@@ -707,7 +695,7 @@ export default async function Dashboard({
                 </div>
               </div>
               <div className="text-xl sm:text-2xl font-bold text-indigo-600 dark:text-indigo-400 break-words">
-                ₹{oneTimeTransactions.totalAmount.toLocaleString('en-IN')}
+                {currencySymbol}{oneTimeTransactions.totalAmount.toLocaleString('en-IN')}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
                 {oneTimeTransactions.count} transaction{oneTimeTransactions.count !== 1 ? 's' : ''} this month
@@ -728,14 +716,14 @@ export default async function Dashboard({
                 </div>
               </div>
               <div className="text-xl sm:text-2xl font-bold text-teal-600 dark:text-teal-400 break-words">
-                ₹{paidEMIs.totalPaid.toLocaleString('en-IN')}
+                {currencySymbol}{paidEMIs.totalPaid.toLocaleString('en-IN')}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
                 {paidEMIs.currentMonthCount} current + {paidEMIs.additionalCount} extra
               </p>
               {paidEMIs.additionalPaid > 0 && (
                 <p className="text-xs text-amber-600 dark:text-amber-400 mt-0.5">
-                  ₹{paidEMIs.additionalPaid.toLocaleString('en-IN')} old/advance
+                  {currencySymbol}{paidEMIs.additionalPaid.toLocaleString('en-IN')} old/advance
                 </p>
               )}
             </div>
@@ -761,7 +749,7 @@ export default async function Dashboard({
                       <span className="text-xs text-muted-foreground">You Owe</span>
                     </div>
                     <div className="text-lg sm:text-xl font-bold text-red-600 dark:text-red-400">
-                      ₹{memberTransactionsData.borrowed.toLocaleString('en-IN')}
+                      {currencySymbol}{memberTransactionsData.borrowed.toLocaleString('en-IN')}
                     </div>
                   </div>
                 )}
@@ -772,7 +760,7 @@ export default async function Dashboard({
                       <span className="text-xs text-muted-foreground">They Owe</span>
                     </div>
                     <div className="text-lg sm:text-xl font-bold text-green-600 dark:text-green-400">
-                      ₹{memberTransactionsData.lent.toLocaleString('en-IN')}
+                      {currencySymbol}{memberTransactionsData.lent.toLocaleString('en-IN')}
                     </div>
                   </div>
                 )}
@@ -796,7 +784,7 @@ export default async function Dashboard({
                 </div>
               </div>
               <div className="text-xl sm:text-2xl font-bold text-cyan-600 dark:text-cyan-400 break-words">
-                +₹{borrowedFundsSurplus.totalSurplus.toLocaleString('en-IN')}
+                +{currencySymbol}{borrowedFundsSurplus.totalSurplus.toLocaleString('en-IN')}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
                 {borrowedFundsSurplus.count} borrowed fund{borrowedFundsSurplus.count !== 1 ? 's' : ''} (surplus added to cash)
@@ -832,14 +820,14 @@ export default async function Dashboard({
               "text-2xl sm:text-3xl font-bold break-words",
               financialSummary.cashRemaining >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
             )}>
-              {financialSummary.cashRemaining >= 0 ? '+' : ''}₹{financialSummary.cashRemaining.toLocaleString('en-IN')}
+              {financialSummary.cashRemaining >= 0 ? '+' : ''}{currencySymbol}{financialSummary.cashRemaining.toLocaleString('en-IN')}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               Actual cash after all transactions
             </p>
             {financialSummary.additionalTransactions > 0 && (
               <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
-                ⚡ ₹{financialSummary.additionalTransactions.toLocaleString('en-IN')} extra spent
+                ⚡ {currencySymbol}{financialSummary.additionalTransactions.toLocaleString('en-IN')} extra spent
               </p>
             )}
           </div>
@@ -851,6 +839,7 @@ export default async function Dashboard({
         <RecentExpenses
           expenses={expensesData.expenses}
           totalExpenses={expensesData.totalExpenses}
+          currency={currency}
           monthName={monthName}
           selectedYear={selectedYear}
         />
@@ -858,6 +847,8 @@ export default async function Dashboard({
         {/* Upcoming EMIs */}
         <UpcomingEMI
           loans={loansData.loans}
+          totalEMI={loansData.currentMonthTotalEMI}
+          currency={currency}
           monthName={monthName}
           selectedYear={selectedYear}
         />
@@ -885,6 +876,7 @@ export default async function Dashboard({
         oneTimeTransactions={oneTimeTransactions}
         sipExecutions={sipExecutions}
         paidEMIs={paidEMIs}
+        currency={currency}
       />
 
       {/* Investment Tracking Section */}
@@ -901,9 +893,16 @@ export default async function Dashboard({
           sipExecutionCount: sipExecutions.count,
         }}
         currentMonthReturns={currentMonthReturns}
+        currency={currency}
         monthName={monthName}
         year={selectedYear}
       />
+
+      {/* Net Worth */}
+      <NetWorthChart showDetailsLink />
+
+      {/* Goals */}
+      <GoalsWidget />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,429 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { ArrowLeft, FileUp, Loader2, Upload } from "lucide-react"
+import { INCOME_CATEGORIES, IMPORT_TARGETS, PAYMENT_METHODS, STATEMENT_ACCOUNT_TYPES } from "@/constants"
+import { INDIAN_BANKS } from "@/constants/banks"
+import type { CreditCard, ImportTarget, StagedImportRow, StatementAccountType, StatementPreview } from "@/types"
+
+const GENERIC_BANK = "OTHER"
+
+export default function StatementImportPage() {
+  const [bank, setBank] = useState<string>(GENERIC_BANK)
+  const [accountType, setAccountType] = useState<StatementAccountType>("BANK")
+  const [creditCardId, setCreditCardId] = useState<string>("")
+  const [file, setFile] = useState<File | null>(null)
+  const [creditCards, setCreditCards] = useState<CreditCard[]>([])
+  const [preview, setPreview] = useState<StatementPreview | null>(null)
+  const [rows, setRows] = useState<StagedImportRow[]>([])
+  const [isParsing, setIsParsing] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+
+  useEffect(() => {
+    const loadCreditCards = async () => {
+      try {
+        const response = await fetch("/api/credit-cards")
+        if (response.ok) {
+          const data = await response.json()
+          setCreditCards(data.filter((card: CreditCard) => card.isActive))
+        }
+      } catch (error) {
+        console.error("Error loading credit cards:", error)
+      }
+    }
+    loadCreditCards()
+  }, [])
+
+  const handlePreview = async () => {
+    if (!file) {
+      toast.error("Choose a statement file to import")
+      return
+    }
+    if (accountType === "CREDIT_CARD" && !creditCardId) {
+      toast.error("Select the credit card this statement belongs to")
+      return
+    }
+
+    try {
+      setIsParsing(true)
+      const formData = new FormData()
+      formData.append("file", file)
+      formData.append("accountType", accountType)
+      if (bank !== GENERIC_BANK) formData.append("bank", bank)
+      if (accountType === "CREDIT_CARD") formData.append("creditCardId", creditCardId)
+
+      const response = await fetch("/api/statement-import/preview", {
+        method: "POST",
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to read statement")
+      }
+
+      const data: StatementPreview = await response.json()
+      setPreview(data)
+      setRows(data.rows)
+      if (data.rows.length === 0) {
+        toast.error("No transactions found in this statement")
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read statement")
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const updateRow = (rowNumber: number, changes: Partial<StagedImportRow>) => {
+    setRows(current => current.map(row => row.rowNumber === rowNumber ? { ...row, ...changes } : row))
+  }
+
+  const selectedRows = rows.filter(row => row.target !== "SKIP")
+
+  const handleImport = async () => {
+    if (selectedRows.some(row => row.monthClosed)) {
+      toast.error("Some selected rows fall in a closed month. Skip them or reopen the month")
+      return
+    }
+    if (selectedRows.some(row => !row.title.trim())) {
+      toast.error("Every imported row needs a title")
+      return
+    }
+
+    try {
+      setIsImporting(true)
+      const response = await fetch("/api/statement-import/commit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: selectedRows.map(row => ({
+            target: row.target,
+            date: row.date,
+            title: row.title.trim(),
+            description: row.description,
+            reference: row.reference,
+            amount: row.amount,
+            expenseType: row.expenseType,
+            category: row.category,
+            paymentMethod: row.paymentMethod,
+            creditCardId: row.paymentMethod === "CARD" ? row.creditCardId : null,
+            incomeCategory: row.incomeCategory,
+            tags: row.tags,
+          })),
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to import transactions")
+      }
+
+      const result = await response.json()
+      toast.success(result.message)
+      setPreview(null)
+      setRows([])
+      setFile(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import transactions")
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const expenseCount = selectedRows.filter(row => row.target === "EXPENSE").length
+  const incomeCount = selectedRows.filter(row => row.target === "INCOME").length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Import Statement
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Upload a bank or credit card statement (CSV or OFX) and review each row before importing
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/expenses">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Expenses
+          </Link>
+        </Button>
+      </div>
+
+      {/* Upload */}
+      <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+        <div className="relative p-6 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Account Type</Label>
+              <Select value={accountType} onValueChange={(value) => setAccountType(value as StatementAccountType)}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATEMENT_ACCOUNT_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {accountType === "CREDIT_CARD" ? (
+              <div className="space-y-2">
+                <Label>Credit Card</Label>
+                <Select value={creditCardId} onValueChange={setCreditCardId}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue placeholder="Select card" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {creditCards.map((card) => (
+                      <SelectItem key={card.id} value={card.id}>
+                        {card.cardName} •••• {card.lastFourDigits}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Bank</Label>
+                <Select value={bank} onValueChange={setBank}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={GENERIC_BANK}>Other / Generic</SelectItem>
+                    {INDIAN_BANKS.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="statement">Statement File</Label>
+              <Input
+                id="statement"
+                type="file"
+                accept=".csv,.ofx,.qfx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="bg-background"
+              />
+            </div>
+          </div>
+
+          <Button onClick={handlePreview} disabled={isParsing || !file}>
+            {isParsing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading...
+              </>
+            ) : (
+              <>
+                <FileUp className="h-4 w-4 mr-2" />
+                Preview
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {/* Review */}
+      {preview && rows.length > 0 && (
+        <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+          <div className="relative p-6 space-y-4">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Review Transactions</h3>
+                <p className="text-sm text-muted-foreground">
+                  {rows.length} rows read from {preview.format}
+                  {preview.skippedLines > 0 && ` · ${preview.skippedLines} lines skipped`}
+                  {" · "}Duplicates and rows in closed months are skipped by default
+                </p>
+              </div>
+              <Button onClick={handleImport} disabled={isImporting || selectedRows.length === 0}>
+                {isImporting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {expenseCount} Expenses, {incomeCount} Income
+                  </>
+                )}
+              </Button>
+            </div>
+
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50 dark:bg-gray-900">
+                    <TableHead className="font-semibold">Date</TableHead>
+                    <TableHead className="font-semibold">Narration</TableHead>
+                    <TableHead className="text-right font-semibold">Amount</TableHead>
+                    <TableHead className="font-semibold">Import As</TableHead>
+                    <TableHead className="font-semibold">Title</TableHead>
+                    <TableHead className="font-semibold">Classification</TableHead>
+                    <TableHead className="font-semibold">Payment / Category</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow
+                      key={row.rowNumber}
+                      className={row.target === "SKIP" ? "opacity-60" : "hover:bg-gray-50 dark:hover:bg-gray-900/50"}
+                    >
+                      <TableCell className="whitespace-nowrap">{new Date(row.date).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="max-w-[260px] truncate text-sm" title={row.description}>
+                          {row.description}
+                        </div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {row.duplicateOf && (
+                            <Badge variant="outline" className="border-amber-500 text-amber-600" title={`Matches "${row.duplicateOf.title}"`}>
+                              Possible duplicate
+                            </Badge>
+                          )}
+                          {row.target === "EXPENSE" && row.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary">
+                              {tag}
+                            </Badge>
+                          ))}
+                          {row.monthClosed && (
+                            <Badge variant="outline" className="border-red-500 text-red-600">
+                              Month closed
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className={`text-right font-semibold whitespace-nowrap ${row.direction === "DEBIT" ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}`}>
+                        {row.direction === "DEBIT" ? "-" : "+"}₹{row.amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={row.target}
+                          onValueChange={(value) => updateRow(row.rowNumber, { target: value as ImportTarget })}
+                        >
+                          <SelectTrigger className="w-[110px] bg-background">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {IMPORT_TARGETS.map((target) => (
+                              <SelectItem key={target.value} value={target.value}>
+                                {target.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={row.title}
+                          onChange={(e) => updateRow(row.rowNumber, { title: e.target.value })}
+                          disabled={row.target === "SKIP"}
+                          className="min-w-[160px] bg-background"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {row.target === "EXPENSE" && (
+                          <div className="flex gap-2">
+                            <Select
+                              value={row.category}
+                              onValueChange={(value) => updateRow(row.rowNumber, { category: value as StagedImportRow["category"] })}
+                            >
+                              <SelectTrigger className="w-[100px] bg-background">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="NEEDS">Needs</SelectItem>
+                                <SelectItem value="AVOID">Avoid</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={row.expenseType}
+                              onValueChange={(value) => updateRow(row.rowNumber, { expenseType: value as StagedImportRow["expenseType"] })}
+                            >
+                              <SelectTrigger className="w-[130px] bg-background">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="EXPECTED">Expected</SelectItem>
+                                <SelectItem value="UNEXPECTED">Unexpected</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.target === "EXPENSE" && (
+                          <Select
+                            value={row.paymentMethod}
+                            onValueChange={(value) => updateRow(row.rowNumber, { paymentMethod: value as StagedImportRow["paymentMethod"] })}
+                            disabled={preview.accountType === "CREDIT_CARD"}
+                          >
+                            <SelectTrigger className="w-[130px] bg-background">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {PAYMENT_METHODS.filter((method) => method.value !== "CARD" || row.creditCardId).map((method) => (
+                                <SelectItem key={method.value} value={method.value}>
+                                  {method.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {row.target === "INCOME" && (
+                          <Select
+                            value={row.incomeCategory}
+                            onValueChange={(value) => updateRow(row.rowNumber, { incomeCategory: value })}
+                          >
+                            <SelectTrigger className="w-[150px] bg-background">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {INCOME_CATEGORIES.map((category) => (
+                                <SelectItem key={category.value} value={category.value}>
+                                  {category.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
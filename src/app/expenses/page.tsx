@@ -6,11 +6,12 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
-import { Receipt, PlusCircle, Wallet, Calendar, TrendingUp, TrendingDown, DollarSign, Trash2, Edit as EditIcon, AlertCircle, CreditCard as CardIcon, Info, Search, UserPlus, X } from "lucide-react"
+import { Receipt, PlusCircle, Wallet, Calendar, TrendingUp, TrendingDown, DollarSign, Trash2, Edit as EditIcon, AlertCircle, CreditCard as CardIcon, Info, Search, UserPlus, X, Sparkles } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,8 +30,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import type { AvailableAmount, Expense, ExpenseSummary, CreditCard } from "@/types"
-import { MONTHS } from "@/constants"
+import type { AvailableAmount, CardRewardSuggestion, Expense, ExpenseSummary, CreditCard } from "@/types"
+import { CURRENCIES, DEFAULT_CURRENCY, MONTHS, getCurrencySymbol } from "@/constants"
 
 export default function ExpensesPage() {
   const router = useRouter()
@@ -61,10 +62,13 @@ export default function ExpensesPage() {
   const [expenseType, setExpenseType] = useState<"EXPECTED" | "UNEXPECTED">("EXPECTED")
   const [category, setCategory] = useState<"NEEDS" | "PARTIAL_NEEDS" | "AVOID">("NEEDS")
   const [amount, setAmount] = useState("")
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
   const [needsPortion, setNeedsPortion] = useState("")
   const [avoidPortion, setAvoidPortion] = useState("")
   const [paymentMethod, setPaymentMethod] = useState<"CASH" | "CARD" | "UPI" | "NET_BANKING" | "OTHER">("CASH")
   const [creditCardId, setCreditCardId] = useState("")
+  const [cardSuggestions, setCardSuggestions] = useState<CardRewardSuggestion[]>([])
+  const [suggestionCurrency, setSuggestionCurrency] = useState(DEFAULT_CURRENCY)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   // Member tracking states
@@ -267,6 +271,34 @@ export default function ExpensesPage() {
     }
   }, [dialogOpen])
 
+  // Suggest the card that earns the most rewards for a new card expense, once typing settles
+  useEffect(() => {
+    const value = parseFloat(amount)
+    if (!dialogOpen || isEditing || paymentMethod !== "CARD" || !(value > 0)) {
+      setCardSuggestions([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ amount: value.toString(), currency, title })
+        if (date) params.set("date", date)
+        if (description) params.set("description", description)
+
+        const response = await fetch(`/api/credit-cards/rewards/best-card?${params}`)
+        if (response.ok) {
+          const data = await response.json()
+          setCardSuggestions(data.suggestions)
+          setSuggestionCurrency(data.currency)
+        }
+      } catch (error) {
+        console.error("Error loading card suggestions:", error)
+      }
+    }, 400)
+
+    return () => clearTimeout(timer)
+  }, [dialogOpen, isEditing, paymentMethod, amount, currency, date, title, description])
+
   // Auto-calculate total amount for partial-needs
   useEffect(() => {
     if (category === "PARTIAL_NEEDS") {
@@ -308,6 +340,7 @@ export default function ExpensesPage() {
       setExpenseType(expense.expenseType)
       setCategory(expense.category)
       setAmount(expense.amount.toString())
+      setCurrency(expense.currency)
       setNeedsPortion(expense.needsPortion?.toString() || "")
       setAvoidPortion(expense.avoidPortion?.toString() || "")
       setPaymentMethod(expense.paymentMethod)
@@ -325,6 +358,7 @@ export default function ExpensesPage() {
       setExpenseType("EXPECTED")
       setCategory("NEEDS")
       setAmount("")
+      setCurrency(DEFAULT_CURRENCY)
       setNeedsPortion("")
       setAvoidPortion("")
       setPaymentMethod("CASH")
@@ -396,6 +430,7 @@ export default function ExpensesPage() {
         expenseType,
         category,
         amount: parseFloat(amount),
+        currency,
         paymentMethod,
       }
 
@@ -517,6 +552,7 @@ export default function ExpensesPage() {
 
   const currentYear = new Date().getFullYear()
   const years = Array.from({ length: 5 }, (_, i) => currentYear - i)
+  const currencySymbol = getCurrencySymbol(summary?.currency ?? DEFAULT_CURRENCY)
 
   return (
     <div className="space-y-6">
@@ -583,7 +619,7 @@ export default function ExpensesPage() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Expenses</p>
-                  <div className="text-2xl font-bold text-gray-900 dark:text-white">₹{summary.totalExpenses.toLocaleString()}</div>
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{currencySymbol}{summary.totalExpenses.toLocaleString()}</div>
                 </div>
               </div>
               <p className="text-xs text-gray-600 dark:text-gray-400">{summary.count} expenses</p>
@@ -600,7 +636,7 @@ export default function ExpensesPage() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Needs</p>
-                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">₹{summary.needsTotal.toLocaleString()}</div>
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">{currencySymbol}{summary.needsTotal.toLocaleString()}</div>
                 </div>
               </div>
               <p className="text-xs text-gray-600 dark:text-gray-400">
@@ -619,7 +655,7 @@ export default function ExpensesPage() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Avoid</p>
-                  <div className="text-2xl font-bold text-red-600 dark:text-red-400">₹{summary.avoidTotal.toLocaleString()}</div>
+                  <div className="text-2xl font-bold text-red-600 dark:text-red-400">{currencySymbol}{summary.avoidTotal.toLocaleString()}</div>
                 </div>
               </div>
               <p className="text-xs text-gray-600 dark:text-gray-400">
@@ -638,7 +674,7 @@ export default function ExpensesPage() {
                 </div>
                 <div>
                   <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Unexpected</p>
-                  <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">₹{summary.unexpectedTotal.toLocaleString()}</div>
+                  <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">{currencySymbol}{summary.unexpectedTotal.toLocaleString()}</div>
                 </div>
               </div>
               <p className="text-xs text-gray-600 dark:text-gray-400">
@@ -689,13 +725,13 @@ export default function ExpensesPage() {
                     )}
                   </div>
                   <span className="text-xl font-bold text-blue-600 dark:text-blue-400">
-                    ₹{available.availableForExpenses.toLocaleString()}
+                    {currencySymbol}{available.availableForExpenses.toLocaleString()}
                   </span>
                 </div>
                 <div className="flex items-center justify-between mb-3">
                   <span className="text-sm font-medium">Total Spent</span>
                   <span className="text-xl font-bold text-gray-900 dark:text-gray-100">
-                    ₹{summary.totalExpenses.toLocaleString()}
+                    {currencySymbol}{summary.totalExpenses.toLocaleString()}
                   </span>
                 </div>
                 <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
@@ -726,7 +762,7 @@ export default function ExpensesPage() {
                         : 'text-green-600 dark:text-green-400'
                     }`}>
                       {summary.totalExpenses > available.availableForExpenses ? 'Overspent: ' : 'Remaining: '}
-                      ₹{Math.abs(available.availableForExpenses - summary.totalExpenses).toLocaleString()}
+                      {currencySymbol}{Math.abs(available.availableForExpenses - summary.totalExpenses).toLocaleString()}
                     </span>
                   </div>
                 </div>
@@ -741,13 +777,13 @@ export default function ExpensesPage() {
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm font-medium">Expected Budget</span>
                         <span className="text-sm font-bold text-blue-600 dark:text-blue-400">
-                          ₹{available.expectedBudget!.toLocaleString()}
+                          {currencySymbol}{available.expectedBudget!.toLocaleString()}
                         </span>
                       </div>
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm">Actual Spent</span>
                         <span className="text-sm font-semibold">
-                          ₹{summary.expectedTotal.toLocaleString()}
+                          {currencySymbol}{summary.expectedTotal.toLocaleString()}
                         </span>
                       </div>
                       <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
@@ -779,13 +815,13 @@ export default function ExpensesPage() {
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm font-medium">Unexpected Budget</span>
                         <span className="text-sm font-bold text-orange-600 dark:text-orange-400">
-                          ₹{available.unexpectedBudget!.toLocaleString()}
+                          {currencySymbol}{available.unexpectedBudget!.toLocaleString()}
                         </span>
                       </div>
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm">Actual Spent</span>
                         <span className="text-sm font-semibold">
-                          ₹{summary.unexpectedTotal.toLocaleString()}
+                          {currencySymbol}{summary.unexpectedTotal.toLocaleString()}
                         </span>
                       </div>
                       <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
@@ -822,7 +858,7 @@ export default function ExpensesPage() {
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-medium text-green-700 dark:text-green-400">Needs</span>
                       <span className="text-sm font-bold text-green-700 dark:text-green-400">
-                        ₹{summary.needsTotal.toLocaleString()}
+                        {currencySymbol}{summary.needsTotal.toLocaleString()}
                       </span>
                     </div>
                     <p className="text-xs text-muted-foreground mt-1">
@@ -835,7 +871,7 @@ export default function ExpensesPage() {
                     <div className="flex items-center justify-between">
                       <span className="text-sm font-medium text-red-700 dark:text-red-400">Avoid</span>
                       <span className="text-sm font-bold text-red-700 dark:text-red-400">
-                        ₹{summary.avoidTotal.toLocaleString()}
+                        {currencySymbol}{summary.avoidTotal.toLocaleString()}
                       </span>
                     </div>
                     <p className="text-xs text-muted-foreground mt-1">
@@ -953,8 +989,8 @@ export default function ExpensesPage() {
                           {getCategoryBadge(expense.category)}
                           {expense.category === "PARTIAL_NEEDS" && expense.needsPortion && expense.avoidPortion && (
                             <div className="text-xs text-muted-foreground">
-                              <div>Needs: ₹{expense.needsPortion.toLocaleString()}</div>
-                              <div>Avoid: ₹{expense.avoidPortion.toLocaleString()}</div>
+                              <div>Needs: {getCurrencySymbol(expense.currency)}{expense.needsPortion.toLocaleString()}</div>
+                              <div>Avoid: {getCurrencySymbol(expense.currency)}{expense.avoidPortion.toLocaleString()}</div>
                             </div>
                           )}
                         </div>
@@ -986,10 +1022,11 @@ export default function ExpensesPage() {
                         </div>
                       </TableCell>
                       <TableCell className="text-right font-bold">
-                        ₹{Number(expense.amount).toLocaleString()}
+                        {getCurrencySymbol(expense.currency)}{Number(expense.amount).toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
+                          <AuditHistoryButton entity="EXPENSE" entityId={expense.id} title={expense.title} />
                           {canEdit(expense.date) && (
                             <Button
                               variant="ghost"
@@ -1139,7 +1176,7 @@ export default function ExpensesPage() {
 
                 <div className="grid grid-cols-3 gap-2">
                   <div className="space-y-1.5">
-                    <Label htmlFor="dialog-needs" className="text-sm">Needs (₹) *</Label>
+                    <Label htmlFor="dialog-needs" className="text-sm">Needs ({getCurrencySymbol(currency).trim()}) *</Label>
                     <Input
                       id="dialog-needs"
                       type="number"
@@ -1153,7 +1190,7 @@ export default function ExpensesPage() {
                   </div>
 
                   <div className="space-y-1.5">
-                    <Label htmlFor="dialog-avoid" className="text-sm">Avoid (₹) *</Label>
+                    <Label htmlFor="dialog-avoid" className="text-sm">Avoid ({getCurrencySymbol(currency).trim()}) *</Label>
                     <Input
                       id="dialog-avoid"
                       type="number"
@@ -1167,7 +1204,7 @@ export default function ExpensesPage() {
                   </div>
 
                   <div className="space-y-1.5">
-                    <Label htmlFor="dialog-amount" className="text-sm">Total (₹)</Label>
+                    <Label htmlFor="dialog-amount" className="text-sm">Total ({getCurrencySymbol(currency).trim()})</Label>
                     <Input
                       id="dialog-amount"
                       type="number"
@@ -1181,7 +1218,7 @@ export default function ExpensesPage() {
               </div>
             ) : (
               <div className="space-y-1.5">
-                <Label htmlFor="dialog-amount" className="text-sm">Amount (₹) *</Label>
+                <Label htmlFor="dialog-amount" className="text-sm">Amount ({getCurrencySymbol(currency).trim()}) *</Label>
                 <Input
                   id="dialog-amount"
                   type="number"
@@ -1196,6 +1233,22 @@ export default function ExpensesPage() {
               </div>
             )}
 
+            <div className="space-y-1.5">
+              <Label htmlFor="dialog-currency" className="text-sm">Currency *</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="dialog-currency" className="h-9 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
               <div className="space-y-1.5">
                 <Label htmlFor="dialog-payment" className="text-sm">Payment Method *</Label>
@@ -1251,6 +1304,32 @@ export default function ExpensesPage() {
               )}
             </div>
 
+            {paymentMethod === "CARD" && cardSuggestions.length > 0 && cardSuggestions[0].value > 0 && (
+              <div className="flex items-start justify-between gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900 text-sm">
+                <div className="flex items-start gap-2 min-w-0">
+                  <Sparkles className="h-4 w-4 mt-0.5 text-amber-600 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      Best card: {cardSuggestions[0].bank} {cardSuggestions[0].cardName} (••••{cardSuggestions[0].lastFourDigits})
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Earns {cardSuggestions[0].rewardType === "CASHBACK"
+                        ? `${getCurrencySymbol(suggestionCurrency)}${cardSuggestions[0].points.toLocaleString()} cashback`
+                        : `${cardSuggestions[0].points.toLocaleString()} points (${getCurrencySymbol(suggestionCurrency)}${cardSuggestions[0].value.toLocaleString()})`}
+                      {cardSuggestions[0].multiplier !== 1 && ` at ${cardSuggestions[0].multiplier}x`}
+                      {cardSuggestions[0].milestoneReached && ", reaching a milestone"}
+                      {cardSuggestions.length > 1 && `; next best ${cardSuggestions[1].cardName} earns ${getCurrencySymbol(suggestionCurrency)}${cardSuggestions[1].value.toLocaleString()}`}
+                    </p>
+                  </div>
+                </div>
+                {creditCardId !== cardSuggestions[0].creditCardId && (
+                  <Button type="button" size="sm" variant="outline" onClick={() => setCreditCardId(cardSuggestions[0].creditCardId)}>
+                    Use
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Member Tracking Section */}
             <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
               <div className="flex items-center gap-2">
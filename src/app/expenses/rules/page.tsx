@@ -0,0 +1,377 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Edit as EditIcon, Eye, Loader2, Plus, Trash2, Wand2 } from "lucide-react"
+import { ExpenseRuleModal } from "@/components/expenses/expense-rule-modal"
+import { PAYMENT_METHODS } from "@/constants"
+import type { CreditCard, ExpenseRule, ExpenseRuleApplyResult } from "@/types"
+
+const LABELS: Record<string, string> = {
+  EXPECTED: "Expected",
+  UNEXPECTED: "Unexpected",
+  NEEDS: "Needs",
+  PARTIAL_NEEDS: "Partial-Needs",
+  AVOID: "Avoid",
+}
+
+const describeConditions = (rule: ExpenseRule) => {
+  const conditions: string[] = []
+  if (rule.pattern) conditions.push(`matches /${rule.pattern}/`)
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    conditions.push(`₹${rule.minAmount.toLocaleString("en-IN")} – ₹${rule.maxAmount.toLocaleString("en-IN")}`)
+  } else if (rule.minAmount !== null) {
+    conditions.push(`≥ ₹${rule.minAmount.toLocaleString("en-IN")}`)
+  } else if (rule.maxAmount !== null) {
+    conditions.push(`≤ ₹${rule.maxAmount.toLocaleString("en-IN")}`)
+  }
+  if (rule.paymentMethod) {
+    conditions.push(PAYMENT_METHODS.find(method => method.value === rule.paymentMethod)?.label ?? rule.paymentMethod)
+  }
+  if (rule.creditCard) conditions.push(`${rule.creditCard.cardName} •••• ${rule.creditCard.lastFourDigits}`)
+  return conditions
+}
+
+export default function ExpenseRulesPage() {
+  const [rules, setRules] = useState<ExpenseRule[]>([])
+  const [creditCards, setCreditCards] = useState<CreditCard[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [modalOpen, setModalOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<ExpenseRule | null>(null)
+
+  const today = new Date()
+  const [fromDate, setFromDate] = useState(
+    new Date(today.getFullYear(), today.getMonth() - 2, 1).toISOString().split("T")[0]
+  )
+  const [toDate, setToDate] = useState(today.toISOString().split("T")[0])
+  const [preview, setPreview] = useState<ExpenseRuleApplyResult | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+
+  useEffect(() => {
+    loadRules()
+    const loadCreditCards = async () => {
+      try {
+        const response = await fetch("/api/credit-cards")
+        if (response.ok) {
+          const data = await response.json()
+          setCreditCards(data.filter((card: CreditCard) => card.isActive))
+        }
+      } catch (error) {
+        console.error("Error loading credit cards:", error)
+      }
+    }
+    loadCreditCards()
+  }, [])
+
+  const loadRules = async () => {
+    try {
+      const response = await fetch("/api/expenses/rules")
+      if (response.ok) {
+        setRules(await response.json())
+      } else {
+        toast.error("Failed to load rules")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleToggle = async (rule: ExpenseRule, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/expenses/rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update rule")
+      }
+      setRules(current => current.map(item => item.id === rule.id ? { ...item, isActive } : item))
+      setPreview(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update rule")
+    }
+  }
+
+  const handleDelete = async (rule: ExpenseRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Expenses it already changed are not reverted.`)) return
+
+    try {
+      const response = await fetch(`/api/expenses/rules/${rule.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to delete rule")
+      }
+      toast.success("Rule deleted successfully")
+      setPreview(null)
+      loadRules()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete rule")
+    }
+  }
+
+  const runRules = async (dryRun: boolean) => {
+    try {
+      setIsApplying(true)
+      const response = await fetch("/api/expenses/rules/apply", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from: fromDate, to: toDate, dryRun }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to apply rules")
+      }
+
+      const result: ExpenseRuleApplyResult = await response.json()
+      if (dryRun) {
+        setPreview(result)
+      } else {
+        toast.success(`Updated ${result.updated} ${result.updated === 1 ? "expense" : "expenses"}`)
+        setPreview(null)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to apply rules")
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const applicableChanges = preview?.changes.filter(change => !change.monthClosed).length ?? 0
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Expense Rules
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Categorise and tag expenses automatically when they are added or imported
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingRule(null)
+            setModalOpen(true)
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      {/* Rules */}
+      {isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <Wand2 className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Rules Yet</h3>
+              <p className="text-muted-foreground text-sm">
+                e.g. title matches &quot;swiggy|zomato&quot; → Unexpected, Avoid, tag food
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+          <div className="relative p-6 space-y-4">
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50 dark:bg-gray-900">
+                    <TableHead className="font-semibold">Priority</TableHead>
+                    <TableHead className="font-semibold">Rule</TableHead>
+                    <TableHead className="font-semibold">When</TableHead>
+                    <TableHead className="font-semibold">Then</TableHead>
+                    <TableHead className="font-semibold">Active</TableHead>
+                    <TableHead className="text-right font-semibold">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id} className={rule.isActive ? "hover:bg-gray-50 dark:hover:bg-gray-900/50" : "opacity-60"}>
+                      <TableCell className="font-mono">{rule.priority}</TableCell>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {describeConditions(rule).map((condition) => (
+                            <Badge key={condition} variant="outline" className="font-normal">
+                              {condition}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {rule.expenseType && <Badge>{LABELS[rule.expenseType]}</Badge>}
+                          {rule.category && <Badge>{LABELS[rule.category]}</Badge>}
+                          {rule.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={rule.isActive} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setEditingRule(rule)
+                              setModalOpen(true)
+                            }}
+                          >
+                            <EditIcon className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              When several rules match, the highest priority rule decides the type and category. Tags from every
+              matching rule are added. Partial-needs expenses keep their split.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Retroactive application */}
+      <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+        <div className="relative p-6 space-y-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Apply to Past Expenses</h3>
+            <p className="text-sm text-muted-foreground">
+              Preview what the active rules would change, then apply. Closed months are never changed.
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="fromDate">From</Label>
+              <Input
+                id="fromDate"
+                type="date"
+                value={fromDate}
+                onChange={(e) => {
+                  setFromDate(e.target.value)
+                  setPreview(null)
+                }}
+                className="bg-background"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="toDate">To</Label>
+              <Input
+                id="toDate"
+                type="date"
+                value={toDate}
+                onChange={(e) => {
+                  setToDate(e.target.value)
+                  setPreview(null)
+                }}
+                className="bg-background"
+              />
+            </div>
+            <Button variant="outline" onClick={() => runRules(true)} disabled={isApplying || rules.length === 0}>
+              {isApplying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+              Preview Changes
+            </Button>
+            {preview && applicableChanges > 0 && (
+              <Button onClick={() => runRules(false)} disabled={isApplying}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Apply {applicableChanges} {applicableChanges === 1 ? "Change" : "Changes"}
+              </Button>
+            )}
+          </div>
+
+          {preview && (
+            preview.changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Scanned {preview.scanned} expenses. Nothing would change.
+              </p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50 dark:bg-gray-900">
+                      <TableHead className="font-semibold">Date</TableHead>
+                      <TableHead className="font-semibold">Expense</TableHead>
+                      <TableHead className="text-right font-semibold">Amount</TableHead>
+                      <TableHead className="font-semibold">Before</TableHead>
+                      <TableHead className="font-semibold">After</TableHead>
+                      <TableHead className="font-semibold">Rules</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changes.map((change) => (
+                      <TableRow key={change.expenseId} className={change.monthClosed ? "opacity-60" : undefined}>
+                        <TableCell className="whitespace-nowrap">{new Date(change.date).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{change.title}</div>
+                          {change.monthClosed && (
+                            <Badge variant="outline" className="border-red-500 text-red-600 mt-1">
+                              Month closed
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          ₹{change.amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {LABELS[change.before.expenseType]} · {LABELS[change.before.category]}
+                          {change.before.tags.length > 0 && ` · ${change.before.tags.join(", ")}`}
+                        </TableCell>
+                        <TableCell className="text-sm font-medium">
+                          {LABELS[change.after.expenseType]} · {LABELS[change.after.category]}
+                          {change.after.tags.length > 0 && ` · ${change.after.tags.join(", ")}`}
+                        </TableCell>
+                        <TableCell className="text-sm">{change.ruleNames.join(", ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+
+      <ExpenseRuleModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        onSuccess={() => {
+          setPreview(null)
+          loadRules()
+        }}
+        creditCards={creditCards}
+        rule={editingRule}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { Archive, ArchiveRestore, ArrowLeft, Edit, Plus, Target, Trash2 } from "lucide-react"
+import { format } from "date-fns"
+import { GoalModal } from "@/components/goals/goal-modal"
+import {
+  DEFAULT_CURRENCY,
+  GOAL_PRIORITY_COLORS,
+  GOAL_SIMULATION_PATHS,
+  GOAL_STATUS_COLORS,
+  GOAL_STATUS_LABELS,
+  getCurrencySymbol,
+  getGoalCategoryLabel,
+} from "@/constants"
+import type { Goal } from "@/types"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+// "3y 4m" from a number of months
+const formatDuration = (months: number) => {
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  if (years === 0) return `${rest}m`
+  return rest === 0 ? `${years}y` : `${years}y ${rest}m`
+}
+
+export default function GoalsPage() {
+  const [goals, setGoals] = useState<Goal[]>([])
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null)
+
+  const loadGoals = async () => {
+    try {
+      const response = await fetch("/api/goals")
+      if (response.ok) {
+        const data = await response.json()
+        setGoals(data.goals)
+        setCurrency(data.currency)
+      } else {
+        toast.error("Failed to load goals")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadGoals()
+  }, [])
+
+  const openModal = (goal: Goal | null) => {
+    setEditingGoal(goal)
+    setIsModalOpen(true)
+  }
+
+  const handleToggleActive = async (goal: Goal) => {
+    try {
+      const response = await fetch(`/api/goals/${goal.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !goal.isActive }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update goal")
+      }
+      toast.success(goal.isActive ? "Goal archived" : "Goal restored")
+      loadGoals()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update goal")
+    }
+  }
+
+  const handleDelete = async (goal: Goal) => {
+    if (!confirm(`Delete "${goal.name}"? Its earmarked investments are released.`)) return
+
+    try {
+      const response = await fetch(`/api/goals/${goal.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to delete goal")
+      }
+      toast.success("Goal deleted")
+      loadGoals()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete goal")
+    }
+  }
+
+  const activeGoals = goals.filter((goal) => goal.isActive)
+  const totalRequiredSip = activeGoals.reduce((sum, goal) => sum + goal.progress.additionalMonthlySip, 0)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Goals
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            {activeGoals.length > 0 && totalRequiredSip > 0
+              ? `Invest ${formatAmount(totalRequiredSip, currency)} more a month to fund every active goal`
+              : "Inflation-adjusted targets funded by earmarked investments"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+          <Button onClick={() => openModal(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Goal
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : goals.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <Target className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Goals Yet</h3>
+              <p className="text-muted-foreground text-sm">
+                Add a goal like a house down payment or your child&apos;s education
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {goals.map((goal) => {
+            const { progress } = goal
+            return (
+              <div
+                key={goal.id}
+                className={`relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 ${goal.isActive ? "" : "opacity-60"}`}
+              >
+                <div className="relative p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-2 h-2 rounded-full ${GOAL_PRIORITY_COLORS[goal.priority]}`} />
+                        <h2 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{goal.name}</h2>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {getGoalCategoryLabel(goal.category)} • {format(new Date(goal.targetDate), "MMM yyyy")}
+                        {progress.monthsLeft > 0 && ` • ${formatDuration(progress.monthsLeft)} left`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {goal.isActive ? (
+                        <Badge className={`${GOAL_STATUS_COLORS[progress.status]} text-white`}>
+                          {GOAL_STATUS_LABELS[progress.status]}
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">Archived</Badge>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => openModal(goal)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleToggleActive(goal)}>
+                        {goal.isActive ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(goal)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{formatAmount(progress.currentValue, currency)}</span>
+                      <span className="text-muted-foreground">of {formatAmount(progress.inflatedTarget, currency)}</span>
+                    </div>
+                    <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className={`h-full ${GOAL_STATUS_COLORS[progress.status]}`}
+                        style={{ width: `${progress.progressPercent}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatAmount(goal.targetAmount, currency)} today at {goal.inflationRate}% inflation
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-3 text-sm">
+                    <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                      <p className="text-muted-foreground">Success</p>
+                      <p className="text-lg font-semibold">{progress.probability.toFixed(0)}%</p>
+                      <p className="text-xs text-muted-foreground">{progress.volatility.toFixed(0)}% volatility</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                      <p className="text-muted-foreground">Monthly SIP</p>
+                      <p className="text-lg font-semibold">{formatAmount(progress.monthlyContribution, currency)}</p>
+                      <p className="text-xs text-muted-foreground">needs {formatAmount(progress.requiredMonthlySip, currency)}</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                      <p className="text-muted-foreground">Projected</p>
+                      <p className="text-lg font-semibold">{formatAmount(progress.projectedValue, currency)}</p>
+                      <p className="text-xs text-muted-foreground">at {goal.expectedReturn}% a year</p>
+                    </div>
+                  </div>
+
+                  {goal.isActive && progress.status !== "ACHIEVED" && progress.additionalMonthlySip > 0 && (
+                    <p className="text-sm text-amber-700 dark:text-amber-400">
+                      Add {formatAmount(progress.additionalMonthlySip, currency)}/month to close a projected shortfall of {formatAmount(progress.shortfall, currency)}
+                    </p>
+                  )}
+
+                  {goal.earmarks.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {goal.earmarks.map((earmark) => (
+                        <Badge key={earmark.id} variant="outline">
+                          {earmark.label}
+                          {earmark.percent < 100 && ` (${earmark.percent}%)`}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Nothing earmarked yet</p>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Success is the share of {GOAL_SIMULATION_PATHS.toLocaleString("en-IN")} simulated market paths that reach the inflation-adjusted target, using the volatility of the earmarked buckets.
+      </p>
+
+      <GoalModal
+        open={isModalOpen}
+        onOpenChange={setIsModalOpen}
+        goal={editingGoal}
+        currency={currency}
+        onSuccess={loadGoals}
+      />
+    </div>
+  )
+}
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge"
 import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import { toast } from "sonner"
 import { DollarSign, Plus, Edit, Trash2, TrendingUp, Calendar as CalendarIcon, Repeat, Briefcase, History } from "lucide-react"
 import {
@@ -30,7 +31,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import type { Income, Salary } from "@/types"
-import { INCOME_CATEGORIES } from "@/constants"
+import { CURRENCIES, DEFAULT_CURRENCY, INCOME_CATEGORIES, getCurrencySymbol } from "@/constants"
 
 export default function IncomePage() {
   const [incomes, setIncomes] = useState<Income[]>([])
@@ -41,6 +42,7 @@ export default function IncomePage() {
   const [isEditing, setIsEditing] = useState(false)
   const [currentIncome, setCurrentIncome] = useState<Income | null>(null)
   const [totalIncome, setTotalIncome] = useState(0)
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY)
   const [isSalaryDialogOpen, setIsSalaryDialogOpen] = useState(false)
   const [deleteIncomeDialogOpen, setDeleteIncomeDialogOpen] = useState(false)
   const [deleteSalaryDialogOpen, setDeleteSalaryDialogOpen] = useState(false)
@@ -52,6 +54,7 @@ export default function IncomePage() {
   const [title, setTitle] = useState("")
   const [description, setDescription] = useState("")
   const [amount, setAmount] = useState("")
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
   const [category, setCategory] = useState("OTHER")
   const [isRecurring, setIsRecurring] = useState(false)
 
@@ -90,6 +93,7 @@ export default function IncomePage() {
         const data = await incomeRes.json()
         setIncomes(data.incomes)
         setTotalIncome(data.total)
+        setBaseCurrency(data.currency)
       }
     } catch (error) {
       console.error("Error loading data:", error)
@@ -105,6 +109,7 @@ export default function IncomePage() {
     setTitle("")
     setDescription("")
     setAmount("")
+    setCurrency(baseCurrency)
     setCategory("OTHER")
     setIsRecurring(false)
     setCurrentIncome(null)
@@ -117,6 +122,7 @@ export default function IncomePage() {
       setTitle(income.title)
       setDescription(income.description || "")
       setAmount(income.amount.toString())
+      setCurrency(income.currency)
       setCategory(income.category)
       setIsRecurring(income.isRecurring)
       setCurrentIncome(income)
@@ -136,6 +142,7 @@ export default function IncomePage() {
         title,
         description: description || undefined,
         amount: parseFloat(amount),
+        currency,
         category,
         isRecurring,
       }
@@ -252,6 +259,7 @@ export default function IncomePage() {
   }
 
   const monthlyTotal = (salary?.monthly || 0) + totalIncome
+  const currencySymbol = getCurrencySymbol(baseCurrency)
 
   return (
     <div className="space-y-6">
@@ -358,7 +366,7 @@ export default function IncomePage() {
               </div>
             </div>
             <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-              ₹{(salary?.monthly || 0).toLocaleString()}
+              {currencySymbol}{(salary?.monthly || 0).toLocaleString()}
             </div>
             {salary?.effectiveFrom && (
               <p className="text-xs text-muted-foreground mt-1">
@@ -381,7 +389,7 @@ export default function IncomePage() {
               </div>
             </div>
             <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-              ₹{totalIncome.toLocaleString()}
+              {currencySymbol}{totalIncome.toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               {incomes.length} {incomes.length === 1 ? 'entry' : 'entries'}
@@ -402,7 +410,7 @@ export default function IncomePage() {
               </div>
             </div>
             <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
-              ₹{monthlyTotal.toLocaleString()}
+              {currencySymbol}{monthlyTotal.toLocaleString()}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               For {new Date(selectedYear, selectedMonth - 1).toLocaleString('default', { month: 'long', year: 'numeric' })}
@@ -465,10 +473,11 @@ export default function IncomePage() {
                   <div className="flex items-center justify-between gap-4 sm:justify-end">
                     <div className="text-right">
                       <div className="text-lg font-bold text-green-600 dark:text-green-400">
-                        +₹{income.amount.toLocaleString()}
+                        +{getCurrencySymbol(income.currency)}{income.amount.toLocaleString()}
                       </div>
                     </div>
                     <div className="flex gap-2">
+                      <AuditHistoryButton entity="INCOME" entityId={income.id} title={income.title} />
                       <Button
                         variant="outline"
                         size="sm"
@@ -513,7 +522,7 @@ export default function IncomePage() {
                 </div>
               </div>
               <div className="text-3xl font-bold text-green-600 dark:text-green-400">
-                ₹{salary ? Number(salary.monthly).toLocaleString() : '0'}
+                {currencySymbol}{salary ? Number(salary.monthly).toLocaleString() : '0'}
               </div>
               <p className="text-sm text-muted-foreground mt-2">
                 Monthly take-home
@@ -561,7 +570,7 @@ export default function IncomePage() {
                     >
                       <div className="flex-1 min-w-0">
                         <div className="flex flex-wrap items-center gap-2 mb-1">
-                          <h4 className="font-semibold">₹{Number(salaryItem.monthly).toLocaleString()}</h4>
+                          <h4 className="font-semibold">{currencySymbol}{Number(salaryItem.monthly).toLocaleString()}</h4>
                           {index === 0 && (
                             <Badge variant="default" className="text-xs">
                               Current
@@ -628,7 +637,7 @@ export default function IncomePage() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="amount">Amount (₹) *</Label>
+              <Label htmlFor="amount">Amount ({getCurrencySymbol(currency).trim()}) *</Label>
               <Input
                 id="amount"
                 type="number"
@@ -641,6 +650,22 @@ export default function IncomePage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency *</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="category">Category *</Label>
               <Select value={category} onValueChange={setCategory}>
@@ -709,7 +734,7 @@ export default function IncomePage() {
           </DialogHeader>
           <form onSubmit={handleSalarySubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="salaryAmount">Monthly Salary (₹) *</Label>
+              <Label htmlFor="salaryAmount">Monthly Salary ({currencySymbol.trim()}) *</Label>
               <Input
                 id="salaryAmount"
                 type="number"
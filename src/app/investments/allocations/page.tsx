@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Badge } from "@/components/ui/badge"
+import { RebalancingAdvisor } from "@/components/investments/rebalancing-advisor"
 import { toast } from "sonner"
 import { Settings, Save, Percent, DollarSign, Info } from "lucide-react"
 import type { InvestmentAllocation } from "@/types"
@@ -378,6 +379,9 @@ export default function AllocationsPage() {
           </div>
         </div>
       </div>
+
+      {/* Rebalancing */}
+      <RebalancingAdvisor />
     </div>
   )
 }
@@ -0,0 +1,264 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { Download, FileText, Landmark, Receipt, TrendingDown, TrendingUp } from "lucide-react"
+import {
+  BUCKET_LABELS,
+  CAPITAL_GAIN_HEAD_LABELS,
+  CAPITAL_GAIN_TERM_COLORS,
+  CAPITAL_GAIN_TERM_LABELS,
+} from "@/constants"
+import { formatFinancialYear, getFinancialYear } from "@/lib/tax-calculator"
+import type { CapitalGainsReport } from "@/types"
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? "-" : ""}₹${Math.abs(value).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+const gainClass = (value: number) =>
+  value >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+
+export default function CapitalGainsPage() {
+  const currentFinancialYear = getFinancialYear(new Date())
+  const financialYears = Array.from({ length: 5 }, (_, i) => currentFinancialYear - i)
+
+  const [selectedYear, setSelectedYear] = useState(String(currentFinancialYear))
+  const [report, setReport] = useState<CapitalGainsReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadReport()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedYear])
+
+  const loadReport = async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(`/api/investments/capital-gains?fy=${selectedYear}`)
+      if (response.ok) {
+        setReport(await response.json())
+      } else {
+        toast.error("Failed to load capital gains")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const summaryCards = report
+    ? [
+        { label: "Total Gain / Loss", value: report.totalGain, icon: report.totalGain >= 0 ? TrendingUp : TrendingDown, hint: `${report.lots.length} lots sold` },
+        { label: "Short Term", value: report.buckets.reduce((sum, b) => sum + b.shortTermGain, 0), icon: Receipt, hint: "Held below the long-term period" },
+        { label: "Long Term", value: report.buckets.reduce((sum, b) => sum + b.longTermGain, 0), icon: Landmark, hint: "Includes grandfathered lots" },
+        { label: "Estimated Tax", value: report.estimatedTax, icon: FileText, hint: "Incl. cess, excl. slab-rate gains" },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Capital Gains
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Realised gains by financial year, matched first-in, first-out (Schedule CG)
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={selectedYear} onValueChange={setSelectedYear}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {financialYears.map((year) => (
+                <SelectItem key={year} value={String(year)}>
+                  {formatFinancialYear(year)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {report && report.lots.length > 0 && (
+            <Button variant="outline" asChild>
+              <a href={`/api/investments/capital-gains?fy=${selectedYear}&format=csv`}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-24 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-64 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      ) : !report || report.lots.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <FileText className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Sales in {formatFinancialYear(Number(selectedYear))}</h3>
+              <p className="text-muted-foreground text-sm">
+                Record a sale from the Holdings page to see realised gains here
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {summaryCards.map((card) => (
+              <div
+                key={card.label}
+                className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50"
+              >
+                <div className="relative p-5">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{card.label}</p>
+                    <card.icon className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                  <p className={`text-2xl font-bold ${card.label === "Estimated Tax" ? "text-gray-900 dark:text-white" : gainClass(card.value)}`}>
+                    {formatAmount(card.value)}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">{card.hint}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Tax Heads */}
+          <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+            <div className="relative p-6 space-y-4">
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white">Summary by Head</h3>
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50 dark:bg-gray-900">
+                      <TableHead className="font-semibold">Head</TableHead>
+                      <TableHead className="text-right font-semibold">Sale Value</TableHead>
+                      <TableHead className="text-right font-semibold">Cost</TableHead>
+                      <TableHead className="text-right font-semibold">Gain / Loss</TableHead>
+                      <TableHead className="text-right font-semibold">Exemption</TableHead>
+                      <TableHead className="text-right font-semibold">Taxable</TableHead>
+                      <TableHead className="text-right font-semibold">Est. Tax</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.heads.map((head) => (
+                      <TableRow key={head.head}>
+                        <TableCell className="font-medium">{CAPITAL_GAIN_HEAD_LABELS[head.head]}</TableCell>
+                        <TableCell className="text-right">{formatAmount(head.saleValue)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(head.costForTax)}</TableCell>
+                        <TableCell className={`text-right font-semibold ${gainClass(head.gain)}`}>
+                          {formatAmount(head.gain)}
+                        </TableCell>
+                        <TableCell className="text-right">{head.exemption > 0 ? formatAmount(head.exemption) : "-"}</TableCell>
+                        <TableCell className="text-right">{formatAmount(head.taxableGain)}</TableCell>
+                        <TableCell className="text-right">
+                          {head.estimatedTax === null ? (
+                            <span className="text-muted-foreground text-sm">Slab rate</span>
+                          ) : (
+                            formatAmount(head.estimatedTax)
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Estimates use the rates applicable on the sale date and exclude surcharge, set-off across heads
+                and brought-forward losses. Confirm final figures with your CA.
+              </p>
+            </div>
+          </div>
+
+          {/* Lots */}
+          <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+            <div className="relative p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Lot Details</h3>
+                <Badge variant="secondary">{report.lots.length} {report.lots.length === 1 ? "Lot" : "Lots"}</Badge>
+              </div>
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50 dark:bg-gray-900">
+                      <TableHead className="font-semibold">Symbol</TableHead>
+                      <TableHead className="font-semibold">Bucket</TableHead>
+                      <TableHead className="text-right font-semibold">Quantity</TableHead>
+                      <TableHead className="font-semibold">Acquired</TableHead>
+                      <TableHead className="font-semibold">Sold</TableHead>
+                      <TableHead className="font-semibold">Term</TableHead>
+                      <TableHead className="text-right font-semibold">Cost</TableHead>
+                      <TableHead className="text-right font-semibold">FMV 31-Jan-18</TableHead>
+                      <TableHead className="text-right font-semibold">Sale Value</TableHead>
+                      <TableHead className="text-right font-semibold">Gain / Loss</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.lots.map((lot) => (
+                      <TableRow key={lot.id} className="hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                        <TableCell>
+                          <div className="font-mono font-semibold">{lot.symbol}</div>
+                          <div className="text-xs text-muted-foreground max-w-[180px] truncate" title={lot.name}>
+                            {lot.name}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{BUCKET_LABELS[lot.bucket] || lot.bucket}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {lot.qty.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(lot.acquiredOn).toLocaleDateString()}</TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(lot.soldOn).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <Badge className={CAPITAL_GAIN_TERM_COLORS[lot.term]}>
+                            {CAPITAL_GAIN_TERM_LABELS[lot.term]}
+                          </Badge>
+                          <div className="text-xs text-muted-foreground mt-1">{lot.holdingDays} days</div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(lot.costOfAcquisition)}
+                          {lot.costForTax !== lot.costOfAcquisition && (
+                            <div className="text-xs text-muted-foreground">Tax cost {formatAmount(lot.costForTax)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {lot.fmvJan2018 !== null ? formatAmount(lot.fmvJan2018) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(lot.saleValue)}</TableCell>
+                        <TableCell className={`text-right font-semibold ${gainClass(lot.gain)}`}>
+                          {formatAmount(lot.gain)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
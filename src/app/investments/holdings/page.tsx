@@ -6,10 +6,12 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { toast } from "sonner"
-import { TrendingUp, TrendingDown, PlusCircle, Trash2, Wallet, Target, ArrowUpRight, ArrowDownRight, PieChart } from "lucide-react"
+import { TrendingUp, TrendingDown, PlusCircle, Trash2, Wallet, Target, ArrowUpRight, ArrowDownRight, PieChart, HandCoins } from "lucide-react"
 import type { Holding } from "@/types"
-import { BUCKET_LABELS, BUCKET_COLORS } from "@/constants"
+import { BUCKET_LABELS, BUCKET_COLORS, getCurrencySymbol } from "@/constants"
 import { AddHoldingDialog } from "@/components/AddHoldingDialog"
+import { SellHoldingModal } from "@/components/investments/sell-holding-modal"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 
 export default function HoldingsPage() {
   const searchParams = useSearchParams()
@@ -18,6 +20,7 @@ export default function HoldingsPage() {
   const [holdings, setHoldings] = useState<Holding[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [sellingHolding, setSellingHolding] = useState<Holding | null>(null)
 
   useEffect(() => {
     loadHoldings()
@@ -92,11 +95,11 @@ export default function HoldingsPage() {
     return { amount, percent }
   }
 
-  const getInrValue = (holding: Holding, usdAmount: number) => {
-    if (holding.currency === "USD" && holding.usdInrRate) {
-      return usdAmount * Number(holding.usdInrRate)
+  const getInrValue = (holding: Holding, amount: number) => {
+    if (holding.currency !== "INR" && holding.inrRate) {
+      return amount * Number(holding.inrRate)
     }
-    return usdAmount
+    return amount
   }
 
   const calculateTotalPL = () => {
@@ -394,14 +397,14 @@ export default function HoldingsPage() {
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="text-sm">
-                            {holding.currency === "USD" ? "$" : "₹"}
+                            {getCurrencySymbol(holding.currency)}
                             {holding.avgCost.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            Total: {holding.currency === "USD" ? "$" : "₹"}
+                            Total: {getCurrencySymbol(holding.currency)}
                             {totalCost.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                           </div>
-                          {holding.currency === "USD" && holding.usdInrRate && (
+                          {holding.currency !== "INR" && holding.inrRate && (
                             <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
                               ≈ ₹{getInrValue(holding, totalCost).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                             </div>
@@ -411,7 +414,7 @@ export default function HoldingsPage() {
                           {holding.currentPrice ? (
                             <div>
                               <div className="text-sm font-medium text-blue-600 dark:text-blue-400">
-                                {holding.currency === "USD" ? "$" : "₹"}
+                                {getCurrencySymbol(holding.currency)}
                                 {holding.currentPrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                               </div>
                               <Badge variant="secondary" className="text-xs mt-1">
@@ -424,10 +427,10 @@ export default function HoldingsPage() {
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="font-semibold text-gray-900 dark:text-white">
-                            {holding.currency === "USD" ? "$" : "₹"}
+                            {getCurrencySymbol(holding.currency)}
                             {totalValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
                           </div>
-                          {holding.currency === "USD" && holding.usdInrRate && (
+                          {holding.currency !== "INR" && holding.inrRate && (
                             <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
                               ≈ ₹{getInrValue(holding, totalValue).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                             </div>
@@ -444,7 +447,7 @@ export default function HoldingsPage() {
                                 )}
                                 <span>
                                   {pl.amount >= 0 ? "+" : ""}
-                                  {holding.currency === "USD" ? "$" : "₹"}
+                                  {getCurrencySymbol(holding.currency)}
                                   {Math.abs(pl.amount).toLocaleString(undefined, { maximumFractionDigits: 0 })}
                                 </span>
                               </div>
@@ -460,6 +463,15 @@ export default function HoldingsPage() {
                           )}
                         </TableCell>
                         <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSellingHolding(holding)}
+                            title="Sell"
+                          >
+                            <HandCoins className="h-4 w-4" />
+                          </Button>
+                          <AuditHistoryButton entity="HOLDING" entityId={holding.id} title={holding.name} />
                           <Button
                             variant="ghost"
                             size="sm"
@@ -502,6 +514,15 @@ export default function HoldingsPage() {
         onOpenChange={setIsDialogOpen}
         onSuccess={loadHoldings}
       />
+
+      {sellingHolding && (
+        <SellHoldingModal
+          open={!!sellingHolding}
+          onOpenChange={(open) => !open && setSellingHolding(null)}
+          onSuccess={loadHoldings}
+          holding={sellingHolding}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,330 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { ArrowLeft, FileUp, Loader2, Upload } from "lucide-react"
+import { CAS_PURCHASE_TYPES, CAS_TRANSACTION_TYPE_LABELS, CAS_UNITS_TOLERANCE } from "@/constants"
+import type { CasImportPreview, CasImportResult, StagedCasScheme } from "@/types"
+
+const formatUnits = (units: number) => units.toLocaleString("en-IN", { maximumFractionDigits: 3 })
+
+export default function CasImportPage() {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<CasImportPreview | null>(null)
+  const [schemes, setSchemes] = useState<StagedCasScheme[]>([])
+  const [isParsing, setIsParsing] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handlePreview = async () => {
+    if (!file) {
+      toast.error("Choose a CAS file to import")
+      return
+    }
+
+    try {
+      setIsParsing(true)
+      const formData = new FormData()
+      formData.append("file", file)
+
+      const response = await fetch("/api/cas-import/preview", {
+        method: "POST",
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to read CAS")
+      }
+
+      const data: CasImportPreview = await response.json()
+      setPreview(data)
+      setSchemes(data.schemes)
+      if (data.schemes.every(scheme => scheme.transactions.length === 0)) {
+        toast.error("No transactions found in this CAS")
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read CAS")
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const updateScheme = (index: number, changes: Partial<StagedCasScheme>) => {
+    setSchemes(current => current.map((scheme, i) => i === index ? { ...scheme, ...changes } : scheme))
+  }
+
+  const toggleTransaction = (index: number, id: string, selected: boolean) => {
+    setSchemes(current => current.map((scheme, i) => i === index
+      ? { ...scheme, transactions: scheme.transactions.map(txn => txn.id === id ? { ...txn, selected } : txn) }
+      : scheme
+    ))
+  }
+
+  // Units the holding will have once the selected rows are recorded
+  const getUnitsAfterImport = (scheme: StagedCasScheme) => {
+    const opening = scheme.replacesOpeningBalance ? 0 : scheme.holdingQty ?? 0
+    return scheme.transactions
+      .filter(txn => txn.selected)
+      .reduce((units, txn) => units + (CAS_PURCHASE_TYPES.includes(txn.type) ? txn.units : -txn.units), opening)
+  }
+
+  const selectedSchemes = schemes
+    .map(scheme => ({ ...scheme, transactions: scheme.transactions.filter(txn => txn.selected) }))
+    .filter(scheme => scheme.transactions.length > 0)
+  const selectedCount = selectedSchemes.reduce((sum, scheme) => sum + scheme.transactions.length, 0)
+
+  const handleImport = async () => {
+    if (selectedSchemes.some(scheme => !scheme.symbol?.trim())) {
+      toast.error("Enter the AMFI scheme code of every scheme you import")
+      return
+    }
+    if (selectedSchemes.some(scheme => scheme.transactions.some(txn => txn.monthClosed))) {
+      toast.error("Some selected rows fall in a closed month. Deselect them or reopen the month")
+      return
+    }
+
+    try {
+      setIsImporting(true)
+      const response = await fetch("/api/cas-import/commit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          schemes: selectedSchemes.map(scheme => ({
+            symbol: scheme.symbol?.trim(),
+            name: scheme.name,
+            transactions: scheme.transactions.map(txn => ({
+              date: txn.date,
+              description: txn.description,
+              type: txn.type,
+              amount: txn.amount,
+              units: txn.units,
+              nav: txn.nav,
+            })),
+          })),
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to import CAS")
+      }
+
+      const result: CasImportResult & { message: string } = await response.json()
+      if (result.errors.length > 0) {
+        toast.warning(`${result.message}. ${result.errors.length} could not be recorded: ${result.errors[0]}`)
+      } else {
+        toast.success(result.message)
+      }
+      setPreview(null)
+      setSchemes([])
+      setFile(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import CAS")
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Import Mutual Fund CAS
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Upload the consolidated account statement from CAMS or KFintech and review each scheme before importing
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/investments/holdings">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Holdings
+          </Link>
+        </Button>
+      </div>
+
+      {/* Upload */}
+      <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+        <div className="relative p-6 space-y-4">
+          <div className="space-y-2 max-w-xl">
+            <Label htmlFor="cas">CAS File</Label>
+            <Input
+              id="cas"
+              type="file"
+              accept=".txt,.json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="bg-background"
+            />
+            <p className="text-xs text-muted-foreground">
+              Text extracted from the CAS PDF (e.g. pdftotext -layout) or the casparser JSON export
+            </p>
+          </div>
+
+          <Button onClick={handlePreview} disabled={isParsing || !file}>
+            {isParsing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Reading...
+              </>
+            ) : (
+              <>
+                <FileUp className="h-4 w-4 mr-2" />
+                Preview
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {/* Review */}
+      {preview && schemes.length > 0 && (
+        <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+          <div className="relative p-6 space-y-6">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Review Schemes</h3>
+                <p className="text-sm text-muted-foreground">
+                  {schemes.length} schemes read from {preview.format}
+                  {preview.periodFrom && preview.periodTo && ` for ${new Date(preview.periodFrom).toLocaleDateString()} to ${new Date(preview.periodTo).toLocaleDateString()}`}
+                  {preview.skippedLines > 0 && ` · ${preview.skippedLines} lines skipped`}
+                  {" · "}Transactions already recorded and rows in closed months are deselected
+                </p>
+              </div>
+              <Button onClick={handleImport} disabled={isImporting || selectedCount === 0}>
+                {isImporting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Importing...
+                  </>
+                ) : (
+                  <>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {selectedCount} Transactions
+                  </>
+                )}
+              </Button>
+            </div>
+
+            {schemes.map((scheme, index) => {
+              const unitsAfterImport = getUnitsAfterImport(scheme)
+              const reconciles = scheme.closingUnits === null ||
+                Math.abs(unitsAfterImport - scheme.closingUnits) < CAS_UNITS_TOLERANCE * 10
+
+              return (
+                <div key={`${scheme.isin}-${scheme.folio}`} className="space-y-3 rounded-lg border border-border/50 p-4">
+                  <div className="flex flex-col gap-3 lg:flex-row lg:items-start lg:justify-between">
+                    <div>
+                      <p className="font-semibold">{scheme.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {scheme.amc && `${scheme.amc} · `}Folio {scheme.folio || "-"}{scheme.isin && ` · ${scheme.isin}`}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {scheme.holdingId ? (
+                          <Badge variant="outline">Holding: {formatUnits(scheme.holdingQty ?? 0)} units</Badge>
+                        ) : (
+                          <Badge variant="outline" className="border-blue-500 text-blue-600">New holding</Badge>
+                        )}
+                        {scheme.replacesOpeningBalance && (
+                          <Badge variant="outline" className="border-amber-500 text-amber-600" title="The holding has no transactions, so its units are rebuilt from this statement">
+                            Replaces opening balance
+                          </Badge>
+                        )}
+                        {scheme.closingUnits !== null && (
+                          <Badge
+                            variant="outline"
+                            className={reconciles ? "border-green-500 text-green-600" : "border-red-500 text-red-600"}
+                          >
+                            {formatUnits(unitsAfterImport)} after import / {formatUnits(scheme.closingUnits)} in CAS
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">AMFI Scheme Code</Label>
+                      <Input
+                        value={scheme.symbol ?? ""}
+                        onChange={(e) => updateScheme(index, { symbol: e.target.value })}
+                        placeholder="e.g. 118989"
+                        className="w-[140px] bg-background"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-gray-50 dark:bg-gray-900">
+                          <TableHead className="w-10"></TableHead>
+                          <TableHead className="font-semibold">Date</TableHead>
+                          <TableHead className="font-semibold">Type</TableHead>
+                          <TableHead className="font-semibold">Narration</TableHead>
+                          <TableHead className="text-right font-semibold">Units</TableHead>
+                          <TableHead className="text-right font-semibold">NAV</TableHead>
+                          <TableHead className="text-right font-semibold">Amount</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {scheme.transactions.map((txn) => {
+                          const adds = CAS_PURCHASE_TYPES.includes(txn.type)
+                          return (
+                            <TableRow key={txn.id} className={txn.selected ? "hover:bg-gray-50 dark:hover:bg-gray-900/50" : "opacity-60"}>
+                              <TableCell>
+                                <Checkbox
+                                  checked={txn.selected}
+                                  onCheckedChange={(checked) => toggleTransaction(index, txn.id, checked === true)}
+                                />
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">{new Date(txn.date).toLocaleDateString()}</TableCell>
+                              <TableCell>
+                                <Badge variant="secondary">{CAS_TRANSACTION_TYPE_LABELS[txn.type]}</Badge>
+                              </TableCell>
+                              <TableCell>
+                                <div className="max-w-[280px] truncate text-sm" title={txn.description}>
+                                  {txn.description}
+                                </div>
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {txn.duplicateOf && (
+                                    <Badge
+                                      variant="outline"
+                                      className="border-amber-500 text-amber-600"
+                                      title={`Recorded on ${new Date(txn.duplicateOf.date).toLocaleDateString()} for ${formatUnits(txn.duplicateOf.qty)} units`}
+                                    >
+                                      Already recorded
+                                    </Badge>
+                                  )}
+                                  {txn.monthClosed && (
+                                    <Badge variant="outline" className="border-red-500 text-red-600">
+                                      Month closed
+                                    </Badge>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell className={`text-right font-semibold whitespace-nowrap ${adds ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                                {adds ? "+" : "-"}{formatUnits(txn.units)}
+                              </TableCell>
+                              <TableCell className="text-right">₹{txn.nav.toLocaleString("en-IN", { maximumFractionDigits: 4 })}</TableCell>
+                              <TableCell className="text-right">₹{txn.amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}</TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,215 @@
 "use client"
 
-import { useRouter } from "next/navigation"
-import { useEffect } from "react"
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Activity, BarChart3, Percent, TrendingDown, TrendingUp, Wallet } from "lucide-react"
+import { format } from "date-fns"
+import { PortfolioValueChart } from "@/components/investments/portfolio-value-chart"
+import { BUCKET_LABELS } from "@/constants"
+import type { PortfolioReturns, ReturnMetrics } from "@/types"
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? "-" : ""}₹${Math.abs(value).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+const formatPct = (value: number | null) => (value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(2)}%`)
+
+const gainClass = (value: number | null) =>
+  value === null ? "text-muted-foreground" : value >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+
+interface ReturnsRow extends ReturnMetrics {
+  key: string
+  label: string
+  detail?: string
+  badge?: string
+}
+
+function ReturnsTable({ title, rows }: { title: string; rows: ReturnsRow[] }) {
+  if (rows.length === 0) return null
+
+  return (
+    <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+      <div className="relative p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">{title}</h3>
+          <Badge variant="secondary">{rows.length}</Badge>
+        </div>
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50 dark:bg-gray-900">
+                <TableHead className="font-semibold">Name</TableHead>
+                <TableHead className="text-right font-semibold">Invested</TableHead>
+                <TableHead className="text-right font-semibold">Current Value</TableHead>
+                <TableHead className="text-right font-semibold">Gain / Loss</TableHead>
+                <TableHead className="text-right font-semibold">Absolute</TableHead>
+                <TableHead className="text-right font-semibold">XIRR</TableHead>
+                <TableHead className="text-right font-semibold">TWR</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key} className="hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {row.label}
+                      {row.badge && <Badge variant="outline">{row.badge}</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.detail}
+                      {row.since && `${row.detail ? " · " : ""}since ${format(new Date(row.since), "MMM yyyy")}`}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatAmount(row.invested)}
+                    {row.withdrawn > 0 && (
+                      <div className="text-xs text-muted-foreground">{formatAmount(row.withdrawn)} sold</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(row.currentValue)}</TableCell>
+                  <TableCell className={`text-right font-semibold ${gainClass(row.gain)}`}>{formatAmount(row.gain)}</TableCell>
+                  <TableCell className={`text-right ${gainClass(row.absoluteReturnPct)}`}>{formatPct(row.absoluteReturnPct)}</TableCell>
+                  <TableCell className={`text-right font-semibold ${gainClass(row.xirr)}`}>{formatPct(row.xirr)}</TableCell>
+                  <TableCell className={`text-right ${gainClass(row.twr)}`}>
+                    {formatPct(row.twr)}
+                    {row.annualizedTwr !== null && (
+                      <div className="text-xs text-muted-foreground">{formatPct(row.annualizedTwr)} p.a.</div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  )
+}
 
 export default function InvestmentsOverviewPage() {
-  const router = useRouter()
+  const [returns, setReturns] = useState<PortfolioReturns | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
-    router.push("/investments")
-  }, [router])
+    const loadReturns = async () => {
+      try {
+        const response = await fetch("/api/investments/returns")
+        if (response.ok) {
+          setReturns(await response.json())
+        } else {
+          toast.error("Failed to load portfolio returns")
+        }
+      } catch {
+        toast.error("An error occurred")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadReturns()
+  }, [])
+
+  const portfolio = returns?.portfolio
+  const summaryCards = portfolio
+    ? [
+        { label: "Current Value", value: formatAmount(portfolio.currentValue), className: "text-gray-900 dark:text-white", icon: Wallet, hint: `${formatAmount(portfolio.invested)} invested` },
+        { label: "Gain / Loss", value: formatAmount(portfolio.gain), className: gainClass(portfolio.gain), icon: portfolio.gain >= 0 ? TrendingUp : TrendingDown, hint: `${formatPct(portfolio.absoluteReturnPct)} absolute` },
+        { label: "XIRR", value: formatPct(portfolio.xirr), className: gainClass(portfolio.xirr), icon: Percent, hint: "Annualised, weighted by when money went in" },
+        { label: "Time-Weighted Return", value: formatPct(portfolio.twr), className: gainClass(portfolio.twr), icon: Activity, hint: portfolio.annualizedTwr !== null ? `${formatPct(portfolio.annualizedTwr)} annualised` : "Cumulative, independent of SIP timing" },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+          Portfolio Returns
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+          XIRR and time-weighted returns from every purchase, SIP instalment and sale
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-24 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-64 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      ) : !returns || (returns.holdings.length === 0 && returns.buckets.length === 0) ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <BarChart3 className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Investments Yet</h3>
+              <p className="text-muted-foreground text-sm">
+                Add holdings or start a SIP to see your returns here
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {summaryCards.map((card) => (
+              <div
+                key={card.label}
+                className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50"
+              >
+                <div className="relative p-5">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{card.label}</p>
+                    <card.icon className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                  <p className={`text-2xl font-bold ${card.className}`}>{card.value}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{card.hint}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <PortfolioValueChart />
+
+          <ReturnsTable
+            title="Returns by Bucket"
+            rows={returns.buckets.map((bucket) => ({
+              ...bucket,
+              key: bucket.bucket,
+              label: BUCKET_LABELS[bucket.bucket] || bucket.bucket,
+            }))}
+          />
+
+          <ReturnsTable
+            title="Returns by Holding"
+            rows={returns.holdings.map((holding) => ({
+              ...holding,
+              key: holding.holdingId,
+              label: holding.name,
+              detail: `${holding.symbol} · ${BUCKET_LABELS[holding.bucket] || holding.bucket}`,
+            }))}
+          />
+
+          <ReturnsTable
+            title="Returns by SIP"
+            rows={returns.sips.map((sip) => ({
+              ...sip,
+              key: sip.sipId,
+              label: sip.name,
+              detail: sip.bucket ? BUCKET_LABELS[sip.bucket] || sip.bucket : undefined,
+              badge: sip.isActive ? undefined : "Stopped",
+            }))}
+          />
 
-  return null
-}
\ No newline at end of file
+          <p className="text-xs text-muted-foreground">
+            Values use the last refreshed prices; the chart uses the daily price history. XIRR weighs each rupee by how long it was invested; the
+            time-weighted return measures how the investments themselves performed, regardless of when you
+            bought. Emergency fund is excluded. Returns over short periods can look extreme when annualised.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
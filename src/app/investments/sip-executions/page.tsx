@@ -2,15 +2,18 @@
 
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
-import { Calendar, TrendingUp, CheckCircle, AlertCircle, Clock, Filter } from "lucide-react"
-import type { SIPExecution, ExecutionStatus } from "@/types"
+import { Calendar, TrendingUp, CheckCircle, AlertCircle, Clock, Filter, Loader2, Play } from "lucide-react"
+import { SIPExecutionRuns } from "@/components/investments/sip-execution-runs"
+import type { SIPExecution, SIPExecutionRunResult, ExecutionStatus } from "@/types"
 import {
   BUCKET_LABELS,
   EXECUTION_STATUS_LABELS,
   EXECUTION_STATUS_COLORS,
+  getCurrencySymbol,
 } from "@/constants"
 
 interface SIPExecutionWithRelations extends Omit<SIPExecution, 'executionDate' | 'createdAt' | 'updatedAt'> {
@@ -36,6 +39,8 @@ export default function SIPExecutionsPage() {
   const [selectedMonth, setSelectedMonth] = useState(String(new Date().getMonth() + 1))
   const [selectedYear, setSelectedYear] = useState(String(new Date().getFullYear()))
   const [selectedStatus, setSelectedStatus] = useState<string>("all")
+  const [isRunning, setIsRunning] = useState(false)
+  const [runsKey, setRunsKey] = useState(0)
 
   useEffect(() => {
     loadExecutions()
@@ -69,6 +74,33 @@ export default function SIPExecutionsPage() {
     }
   }
 
+  const handleRunNow = async () => {
+    setIsRunning(true)
+    try {
+      const response = await fetch("/api/investments/sip-executions/run", { method: "POST" })
+      if (!response.ok) {
+        const error = await response.json()
+        toast.error(error.error || "Failed to run SIPs")
+        return
+      }
+
+      const result: SIPExecutionRunResult = await response.json()
+      if (result.failed > 0) {
+        toast.warning(`${result.executed} executed, ${result.failed} failed and will be retried`)
+      } else if (result.executed > 0) {
+        toast.success(`${result.executed} ${result.executed === 1 ? "instalment" : "instalments"} executed`)
+      } else {
+        toast.info("No instalments due")
+      }
+      setRunsKey((key) => key + 1)
+      loadExecutions()
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
   const calculateTotals = () => {
     const totals: Record<ExecutionStatus, { count: number; amount: number }> = {
       SUCCESS: { count: 0, amount: 0 },
@@ -78,14 +110,14 @@ export default function SIPExecutionsPage() {
 
     executions.forEach((exec) => {
       totals[exec.status].count += 1
-      // Use amountInr if available (for USD SIPs), otherwise use amount (for INR)
+      // Use amountInr if available (for foreign currency SIPs), otherwise use amount (for INR)
       let amountInInr: number
-      if (exec.currency === "USD") {
-        // For USD executions, use amountInr if available, otherwise convert using usdInrRate
+      if (exec.currency !== "INR") {
+        // For foreign currency executions, use amountInr if available, otherwise convert using inrRate
         if (exec.amountInr) {
           amountInInr = Number(exec.amountInr)
-        } else if (exec.usdInrRate) {
-          amountInInr = Number(exec.amount) * Number(exec.usdInrRate)
+        } else if (exec.inrRate) {
+          amountInInr = Number(exec.amount) * Number(exec.inrRate)
         } else {
           // Fallback: skip this execution if we can't convert to INR
           amountInInr = 0
@@ -153,13 +185,23 @@ export default function SIPExecutionsPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
-          SIP Execution History
-        </h1>
-        <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
-          Track all automated SIP executions and their status
-        </p>
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            SIP Execution History
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Track all automated SIP executions and their status
+          </p>
+        </div>
+        <Button onClick={handleRunNow} disabled={isRunning}>
+          {isRunning ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          Run Now
+        </Button>
       </div>
 
       {/* Filters */}
@@ -326,7 +368,7 @@ export default function SIPExecutionsPage() {
               <Table>
                 <TableHeader>
                   <TableRow className="bg-gray-50 dark:bg-gray-900">
-                    <TableHead className="font-semibold">Date</TableHead>
+                    <TableHead className="font-semibold">Due Date</TableHead>
                     <TableHead className="font-semibold">SIP Name</TableHead>
                     <TableHead className="font-semibold">Bucket</TableHead>
                     <TableHead className="font-semibold">Symbol</TableHead>
@@ -345,7 +387,7 @@ export default function SIPExecutionsPage() {
                         <div className="flex items-center space-x-2">
                           <Calendar className="h-4 w-4 text-gray-400" />
                           <span className="text-sm">
-                            {new Date(exec.executionDate).toLocaleDateString()}
+                            {new Date(exec.dueDate ?? exec.executionDate).toLocaleDateString()}
                           </span>
                         </div>
                       </TableCell>
@@ -365,13 +407,13 @@ export default function SIPExecutionsPage() {
                         {exec.sip.symbol || "-"}
                       </TableCell>
                       <TableCell className="text-right font-semibold">
-                        {exec.currency === "USD" ? "$" : "₹"}{exec.amount.toLocaleString()}
+                        {getCurrencySymbol(exec.currency)}{exec.amount.toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right">
                         {exec.amountInr ? `₹${exec.amountInr.toLocaleString()}` : "-"}
-                        {exec.usdInrRate && exec.currency === "USD" && (
+                        {exec.inrRate && exec.currency !== "INR" && (
                           <div className="text-xs text-muted-foreground">
-                            @ ₹{exec.usdInrRate.toLocaleString()}
+                            @ ₹{exec.inrRate.toLocaleString()}
                           </div>
                         )}
                       </TableCell>
@@ -379,7 +421,7 @@ export default function SIPExecutionsPage() {
                         {exec.qty ? exec.qty.toLocaleString(undefined, { maximumFractionDigits: 9 }) : "-"}
                       </TableCell>
                       <TableCell className="text-right">
-                        {exec.price ? `${exec.currency === "USD" ? "$" : "₹"}${exec.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : "-"}
+                        {exec.price ? `${getCurrencySymbol(exec.currency)}${exec.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : "-"}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -388,6 +430,16 @@ export default function SIPExecutionsPage() {
                             {EXECUTION_STATUS_LABELS[exec.status]}
                           </Badge>
                         </div>
+                        {exec.attempts > 1 && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {exec.attempts} attempts
+                          </div>
+                        )}
+                        {exec.status !== "SUCCESS" && exec.nextRetryAt && (
+                          <div className="text-xs text-muted-foreground">
+                            Retry {new Date(exec.nextRetryAt).toLocaleString()}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground" title={exec.errorMessage || ""}>
                         {exec.errorMessage || "-"}
@@ -406,7 +458,7 @@ export default function SIPExecutionsPage() {
                 <div>
                   <h3 className="text-lg font-semibold mb-1">No Executions Found</h3>
                   <p className="text-muted-foreground text-sm">
-                    No SIP executions for the selected period. SIPs run automatically at the end of each day.
+                    No SIP executions for the selected period. SIPs run automatically every day; missed instalments are caught up on the next run.
                   </p>
                 </div>
               </div>
@@ -415,6 +467,9 @@ export default function SIPExecutionsPage() {
         </div>
         </div>
       </div>
+
+      {/* Run Log */}
+      <SIPExecutionRuns refreshKey={runsKey} />
     </div>
   )
 }
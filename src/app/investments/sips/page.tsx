@@ -4,11 +4,14 @@ import { useEffect, useState } from "react"
 import { toast } from "sonner"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Plus, Pencil, Trash2, TrendingUp, Calendar, IndianRupee } from "lucide-react"
-import { convertToMonthlyAmount, getFrequencyLabel } from "@/lib/frequency-utils"
+import { Plus, Pencil, Trash2, TrendingUp, Calendar, CalendarClock, IndianRupee } from "lucide-react"
+import { convertToMonthlyAmount, getFrequencyLabel, getInstalmentStatus } from "@/lib/frequency-utils"
 import type { SIPFrequency } from "@/types/investment"
 import { SIP_FREQUENCY_BADGE_COLORS } from "@/constants"
 import SIPDialog from "@/components/SIPDialog"
+import { SIPScheduleModal } from "@/components/investments/sip-schedule-modal"
+import { SIPCalendar } from "@/components/investments/sip-calendar"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import {
   Table,
   TableBody,
@@ -38,6 +41,8 @@ export default function SIPsPage() {
   const [dialogOpen, setDialogOpen] = useState(false)
   const [dialogMode, setDialogMode] = useState<'create' | 'edit'>('create')
   const [editingSipId, setEditingSipId] = useState<string | undefined>()
+  const [scheduleSip, setScheduleSip] = useState<SIP | null>(null)
+  const [calendarKey, setCalendarKey] = useState(0)
 
   const fetchSIPs = async () => {
     try {
@@ -46,6 +51,7 @@ export default function SIPsPage() {
       if (!response.ok) throw new Error("Failed to fetch SIPs")
       const data = await response.json()
       setSips(data)
+      setCalendarKey((key) => key + 1)
     } catch (error) {
       toast.error("Failed to load SIPs")
       console.error(error)
@@ -66,6 +72,7 @@ export default function SIPsPage() {
       if (!response.ok) throw new Error("Failed to delete SIP")
       toast.success("SIP deleted successfully")
       setSips(sips.filter((sip) => sip.id !== id))
+      setCalendarKey((key) => key + 1)
     } catch (error) {
       toast.error("Failed to delete SIP")
       console.error(error)
@@ -85,6 +92,7 @@ export default function SIPsPage() {
       if (!response.ok) throw new Error("Failed to update SIP")
       const updatedSip = await response.json()
       setSips(sips.map((sip) => (sip.id === id ? updatedSip : sip)))
+      setCalendarKey((key) => key + 1)
       toast.success(`SIP ${!currentStatus ? "activated" : "deactivated"}`)
     } catch (error) {
       toast.error("Failed to update SIP status")
@@ -124,6 +132,18 @@ export default function SIPsPage() {
     }).format(amount)
   }
 
+  const getStepUpLabel = (sip: SIP) => {
+    if (!sip.stepUpType || !sip.stepUpValue) return null
+    return sip.stepUpType === "PERCENT"
+      ? `+${Number(sip.stepUpValue)}% every year`
+      : `+${formatCurrency(Number(sip.stepUpValue))} every year`
+  }
+
+  // Paused today, from a pause range covering today
+  const isPausedToday = (sip: SIP) => getInstalmentStatus(new Date(), {
+    pauses: (sip.pauses ?? []).map((pause) => ({ startDate: new Date(pause.startDate), endDate: new Date(pause.endDate) })),
+  }) === "PAUSED"
+
   const getFrequencyBadge = (frequency: string, customDay?: number | null) => {
     if (frequency === "CUSTOM" && customDay) {
       return (
@@ -295,7 +315,10 @@ export default function SIPsPage() {
                         </div>
                       </TableCell>
                       <TableCell className="font-semibold text-green-600">
-                        {formatCurrency(Number(sip.amount))}
+                        <div>{formatCurrency(Number(sip.amount))}</div>
+                        {getStepUpLabel(sip) && (
+                          <div className="text-xs font-normal text-muted-foreground mt-1">{getStepUpLabel(sip)}</div>
+                        )}
                       </TableCell>
                       <TableCell>{getFrequencyBadge(sip.frequency, sip.customDay)}</TableCell>
                       <TableCell>{formatDate(sip.startDate)}</TableCell>
@@ -312,7 +335,9 @@ export default function SIPsPage() {
                             disabled={togglingId === sip.id}
                           />
                           <span className="text-sm">
-                            {sip.isActive ? (
+                            {sip.isActive && isPausedToday(sip) ? (
+                              <Badge className="bg-yellow-500">Paused</Badge>
+                            ) : sip.isActive ? (
                               <Badge className="bg-green-500">Active</Badge>
                             ) : (
                               <Badge variant="secondary">Inactive</Badge>
@@ -322,6 +347,15 @@ export default function SIPsPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setScheduleSip(sip)}
+                            title="Step-up, pauses and skips"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                          </Button>
+                          <AuditHistoryButton entity="SIP" entityId={sip.id} title={sip.name} />
                           <Button
                             variant="outline"
                             size="sm"
@@ -352,6 +386,8 @@ export default function SIPsPage() {
         </div>
       </div>
 
+      <SIPCalendar refreshKey={calendarKey} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent className="bg-white/95 dark:bg-gray-800/95 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
@@ -376,6 +412,13 @@ export default function SIPsPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <SIPScheduleModal
+        open={!!scheduleSip}
+        onOpenChange={(open) => !open && setScheduleSip(null)}
+        sip={scheduleSip}
+        onSuccess={fetchSIPs}
+      />
+
       {/* SIP Dialog */}
       <SIPDialog
         open={dialogOpen}
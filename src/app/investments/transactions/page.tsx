@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Button } from "@/components/ui/button"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import {
   Dialog,
   DialogContent,
@@ -32,6 +33,7 @@ import {
   BUCKET_LABELS,
   TRANSACTION_TYPE_LABELS,
   TRANSACTION_TYPE_COLORS,
+  getCurrencySymbol,
 } from "@/constants"
 
 interface TransactionWithHolding extends Omit<Transaction, 'purchaseDate' | 'createdAt' | 'updatedAt'> {
@@ -63,7 +65,7 @@ export default function TransactionsPage() {
   const [editPrice, setEditPrice] = useState<number>(0)
   const [editAmount, setEditAmount] = useState<number>(0)
   const [editAmountInr, setEditAmountInr] = useState<number | null>(null)
-  const [editUsdInrRate, setEditUsdInrRate] = useState<number | null>(null)
+  const [editInrRate, setEditInrRate] = useState<number | null>(null)
 
   useEffect(() => {
     loadTransactions()
@@ -107,7 +109,7 @@ export default function TransactionsPage() {
     setEditPrice(transaction.price)
     setEditAmount(transaction.amount)
     setEditAmountInr(transaction.amountInr ?? null)
-    setEditUsdInrRate(transaction.usdInrRate ?? null)
+    setEditInrRate(transaction.inrRate ?? null)
     setIsEditDialogOpen(true)
   }
 
@@ -121,8 +123,8 @@ export default function TransactionsPage() {
     setEditQty(value)
     const newAmount = parseFloat((value * editPrice).toFixed(2))
     setEditAmount(newAmount)
-    if (editingTransaction?.currency === "USD" && editUsdInrRate) {
-      setEditAmountInr(parseFloat((newAmount * editUsdInrRate).toFixed(2)))
+    if (editingTransaction?.currency !== "INR" && editInrRate) {
+      setEditAmountInr(parseFloat((newAmount * editInrRate).toFixed(2)))
     }
   }
 
@@ -130,8 +132,8 @@ export default function TransactionsPage() {
     setEditPrice(value)
     const newAmount = parseFloat((editQty * value).toFixed(2))
     setEditAmount(newAmount)
-    if (editingTransaction?.currency === "USD" && editUsdInrRate) {
-      setEditAmountInr(parseFloat((newAmount * editUsdInrRate).toFixed(2)))
+    if (editingTransaction?.currency !== "INR" && editInrRate) {
+      setEditAmountInr(parseFloat((newAmount * editInrRate).toFixed(2)))
     }
   }
 
@@ -139,29 +141,29 @@ export default function TransactionsPage() {
     setEditAmount(value)
     if (editPrice > 0) {
       // Use higher precision for US stocks
-      const precision = editingTransaction?.currency === "USD" ? 10 : 6
+      const precision = editingTransaction?.currency !== "INR" ? 10 : 6
       setEditQty(parseFloat((value / editPrice).toFixed(precision)))
     }
-    if (editingTransaction?.currency === "USD" && editUsdInrRate) {
-      setEditAmountInr(parseFloat((value * editUsdInrRate).toFixed(2)))
+    if (editingTransaction?.currency !== "INR" && editInrRate) {
+      setEditAmountInr(parseFloat((value * editInrRate).toFixed(2)))
     }
   }
 
   const handleAmountInrChange = (value: number | null) => {
     setEditAmountInr(value)
-    if (value && editUsdInrRate && editUsdInrRate > 0) {
-      const newAmount = parseFloat((value / editUsdInrRate).toFixed(2))
+    if (value && editInrRate && editInrRate > 0) {
+      const newAmount = parseFloat((value / editInrRate).toFixed(2))
       setEditAmount(newAmount)
       if (editPrice > 0) {
         // Use higher precision for US stocks
-        const precision = editingTransaction?.currency === "USD" ? 10 : 6
+        const precision = editingTransaction?.currency !== "INR" ? 10 : 6
         setEditQty(parseFloat((newAmount / editPrice).toFixed(precision)))
       }
     }
   }
 
-  const handleUsdInrRateChange = (value: number | null) => {
-    setEditUsdInrRate(value)
+  const handleInrRateChange = (value: number | null) => {
+    setEditInrRate(value)
     if (value && editAmount > 0) {
       setEditAmountInr(parseFloat((editAmount * value).toFixed(2)))
     }
@@ -209,7 +211,7 @@ export default function TransactionsPage() {
         description: string
         purchaseDate: string
         amountInr?: number | null
-        usdInrRate?: number | null
+        inrRate?: number | null
       } = {
         qty: editQty,
         price: editPrice,
@@ -218,14 +220,14 @@ export default function TransactionsPage() {
         purchaseDate: formData.get("purchaseDate") as string,
       }
 
-      // Only include currency fields if currency is USD
-      if (editingTransaction.currency === "USD") {
+      // Only include currency fields if the currency is not INR
+      if (editingTransaction.currency !== "INR") {
         if (editAmountInr !== null) {
           updateData.amountInr = editAmountInr
         }
 
-        if (editUsdInrRate !== null) {
-          updateData.usdInrRate = editUsdInrRate
+        if (editInrRate !== null) {
+          updateData.inrRate = editInrRate
         }
       }
 
@@ -258,17 +260,18 @@ export default function TransactionsPage() {
       SIP_EXECUTION: 0,
       MANUAL_ENTRY: 0,
       MANUAL_EDIT: 0,
+      SELL: 0,
     }
 
     transactions.forEach((txn) => {
-      // Use amountInr if available (for USD transactions), otherwise use amount (for INR)
+      // Use amountInr if available (for foreign currency transactions), otherwise use amount (for INR)
       let amountInInr: number
-      if (txn.currency === "USD") {
-        // For USD transactions, use amountInr if available, otherwise convert using usdInrRate
+      if (txn.currency !== "INR") {
+        // For foreign currency transactions, use amountInr if available, otherwise convert using inrRate
         if (txn.amountInr) {
           amountInInr = Number(txn.amountInr)
-        } else if (txn.usdInrRate) {
-          amountInInr = Number(txn.amount) * Number(txn.usdInrRate)
+        } else if (txn.inrRate) {
+          amountInInr = Number(txn.amount) * Number(txn.inrRate)
         } else {
           // Fallback: skip this transaction if we can't convert to INR
           amountInInr = 0
@@ -316,6 +319,7 @@ export default function TransactionsPage() {
     { value: "SIP_EXECUTION", label: "SIP Execution" },
     { value: "MANUAL_ENTRY", label: "Manual Entry" },
     { value: "MANUAL_EDIT", label: "Manual Edit" },
+    { value: "SELL", label: "Sell" },
   ]
 
   if (isLoading) {
@@ -330,7 +334,10 @@ export default function TransactionsPage() {
   }
 
   const totals = calculateTotals()
-  const grandTotal = Object.values(totals).reduce((sum, val) => sum + val, 0)
+  // Sales are not investments, keep them out of the invested total
+  const grandTotal = Object.entries(totals)
+    .filter(([type]) => type !== "SELL")
+    .reduce((sum, [, val]) => sum + val, 0)
 
   return (
     <div className="space-y-6">
@@ -585,16 +592,16 @@ export default function TransactionsPage() {
                         {txn.qty.toLocaleString(undefined, { maximumFractionDigits: 9 })}
                       </TableCell>
                       <TableCell className="text-right">
-                        {txn.currency === "USD" ? "$" : "₹"}{txn.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                        {getCurrencySymbol(txn.currency)}{txn.price.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                       </TableCell>
                       <TableCell className="text-right font-semibold">
-                        {txn.currency === "USD" ? "$" : "₹"}{txn.amount.toLocaleString()}
+                        {getCurrencySymbol(txn.currency)}{txn.amount.toLocaleString()}
                       </TableCell>
                       <TableCell className="text-right">
                         {txn.amountInr ? `₹${txn.amountInr.toLocaleString()}` : "-"}
-                        {txn.usdInrRate && txn.currency === "USD" && (
+                        {txn.inrRate && txn.currency !== "INR" && (
                           <div className="text-xs text-muted-foreground">
-                            @ ₹{txn.usdInrRate.toLocaleString()}
+                            @ ₹{txn.inrRate.toLocaleString()}
                           </div>
                         )}
                       </TableCell>
@@ -603,14 +610,17 @@ export default function TransactionsPage() {
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center justify-center gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEdit(txn)}
-                            className="h-8 w-8 p-0"
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
+                          <AuditHistoryButton entity="TRANSACTION" entityId={txn.id} title={txn.name} />
+                          {txn.transactionType !== "SELL" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(txn)}
+                              className="h-8 w-8 p-0"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -673,7 +683,7 @@ export default function TransactionsPage() {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="price">Price ({editingTransaction.currency === "USD" ? "$" : "₹"})</Label>
+                    <Label htmlFor="price">Price ({getCurrencySymbol(editingTransaction.currency).trim()})</Label>
                     <Input
                       id="price"
                       name="price"
@@ -687,7 +697,7 @@ export default function TransactionsPage() {
                 </div>
 
                 <div>
-                  <Label htmlFor="amount">Amount ({editingTransaction.currency === "USD" ? "$" : "₹"})</Label>
+                  <Label htmlFor="amount">Amount ({getCurrencySymbol(editingTransaction.currency).trim()})</Label>
                   <Input
                     id="amount"
                     name="amount"
@@ -702,7 +712,7 @@ export default function TransactionsPage() {
                   </p>
                 </div>
 
-                {editingTransaction.currency === "USD" && (
+                {editingTransaction.currency !== "INR" && (
                   <>
                     <div>
                       <Label htmlFor="amountInr">Amount (INR)</Label>
@@ -720,14 +730,14 @@ export default function TransactionsPage() {
                       </p>
                     </div>
                     <div>
-                      <Label htmlFor="usdInrRate">USD/INR Rate</Label>
+                      <Label htmlFor="inrRate">{editingTransaction.currency}/INR Rate</Label>
                       <Input
-                        id="usdInrRate"
-                        name="usdInrRate"
+                        id="inrRate"
+                        name="inrRate"
                         type="number"
                         step="any"
-                        value={editUsdInrRate || ""}
-                        onChange={(e) => handleUsdInrRateChange(e.target.value ? parseFloat(e.target.value) : null)}
+                        value={editInrRate || ""}
+                        onChange={(e) => handleInrRateChange(e.target.value ? parseFloat(e.target.value) : null)}
                         placeholder="Exchange rate"
                       />
                     </div>
@@ -795,8 +805,8 @@ export default function TransactionsPage() {
                   <div className="mt-4 p-3 bg-gray-100/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-md space-y-1 text-sm border border-gray-200/50 dark:border-gray-700/50">
                   <div><strong>Symbol:</strong> {deletingTransaction.symbol}</div>
                   <div><strong>Quantity:</strong> {deletingTransaction.qty.toLocaleString()}</div>
-                  <div><strong>Price:</strong> {deletingTransaction.currency === "USD" ? "$" : "₹"}{deletingTransaction.price.toLocaleString()}</div>
-                  <div><strong>Amount:</strong> {deletingTransaction.currency === "USD" ? "$" : "₹"}{deletingTransaction.amount.toLocaleString()}</div>
+                  <div><strong>Price:</strong> {getCurrencySymbol(deletingTransaction.currency)}{deletingTransaction.price.toLocaleString()}</div>
+                  <div><strong>Amount:</strong> {getCurrencySymbol(deletingTransaction.currency)}{deletingTransaction.amount.toLocaleString()}</div>
                 </div>
               )}
               <p className="mt-4 text-amber-600 dark:text-amber-500 font-medium">
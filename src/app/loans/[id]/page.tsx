@@ -15,12 +15,16 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import { toast } from "sonner"
-import { ArrowLeft, Calendar, IndianRupee, Loader2, CheckCircle, DollarSign, Clock, Edit, Trash2 } from "lucide-react"
+import { ArrowLeft, Calendar, IndianRupee, Loader2, CheckCircle, DollarSign, Clock, Edit, Trash2, TrendingDown } from "lucide-react"
 import { format } from "date-fns"
 import type { Loan, EMI } from "@/types"
 import { PayEmiModal } from "@/components/loans/pay-emi-modal"
 import { CloseLoanModal } from "@/components/loans/close-loan-modal"
 import { EditEmiModal } from "@/components/loans/edit-emi-modal"
+import { AmortizationSchedule } from "@/components/loans/amortization-schedule"
+import { LoanEventModal } from "@/components/loans/loan-event-modal"
+import { PrepaymentSimulator } from "@/components/loans/prepayment-simulator"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import { getLoanTypeLabel, getFrequencyLabel } from "@/constants"
 
 export default function LoanDetailPage() {
@@ -63,6 +67,7 @@ export default function LoanDetailPage() {
     emiDueDate: string
   } | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [loanEventModalOpen, setLoanEventModalOpen] = useState(false)
 
   useEffect(() => {
     fetchLoan()
@@ -194,17 +199,27 @@ export default function LoanDetailPage() {
           Back to Loans
         </Button>
         {!loan.isClosed && loan.isActive && (
-          <Button
-            onClick={() => setCloseLoanModal({
-              open: true,
-              loanId: loan.id,
-              currentOutstanding: loan.currentOutstanding,
-            })}
-            className="w-full sm:w-auto bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 shadow-lg shadow-green-500/30"
-          >
-            <DollarSign className="h-4 w-4 mr-2" />
-            Close Loan
-          </Button>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Button
+              variant="outline"
+              onClick={() => setLoanEventModalOpen(true)}
+              className="w-full sm:w-auto bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm border-gray-200/50 dark:border-gray-700/50"
+            >
+              <TrendingDown className="h-4 w-4 mr-2" />
+              Prepay / Revise
+            </Button>
+            <Button
+              onClick={() => setCloseLoanModal({
+                open: true,
+                loanId: loan.id,
+                currentOutstanding: loan.currentOutstanding,
+              })}
+              className="w-full sm:w-auto bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 shadow-lg shadow-green-500/30"
+            >
+              <DollarSign className="h-4 w-4 mr-2" />
+              Close Loan
+            </Button>
+          </div>
         )}
       </div>
 
@@ -230,6 +245,7 @@ export default function LoanDetailPage() {
                     Closed
                   </Badge>
                 )}
+                <AuditHistoryButton entity="LOAN" entityId={loan.id} title={loan.institution} />
               </div>
               <p className="text-base sm:text-lg text-gray-700 dark:text-gray-300 font-medium">{loan.institution}</p>
               <p className="text-sm text-gray-600 dark:text-gray-400">A/c: {loan.accountHolderName}</p>
@@ -562,6 +578,7 @@ export default function LoanDetailPage() {
                       </h4>
                     </div>
                     <div className="flex gap-2">
+                      <AuditHistoryButton entity="EMI" entityId={emi.id} title={`Instalment ${emi.installmentNumber}`} />
                       <Button
                         variant="ghost"
                         size="sm"
@@ -671,7 +688,28 @@ export default function LoanDetailPage() {
         </div>
       )}
 
+      {/* Amortization Schedule */}
+      <AmortizationSchedule
+        loanId={loan.id}
+        isClosed={loan.isClosed}
+        refreshKey={`${loan.totalPaid}-${loan.currentOutstanding}-${loan.emiAmount}`}
+        onRegenerated={fetchLoan}
+      />
+
+      {/* What-If Simulator */}
+      {!loan.isClosed && (
+        <PrepaymentSimulator loanId={loan.id} interestRate={loan.interestRate} />
+      )}
+
       {/* Modals */}
+      <LoanEventModal
+        open={loanEventModalOpen}
+        onOpenChange={setLoanEventModalOpen}
+        loanId={loan.id}
+        interestRate={loan.interestRate}
+        emiAmount={loan.emiAmount}
+        onSuccess={fetchLoan}
+      />
       {payEmiModal && (
         <PayEmiModal
           open={payEmiModal.open}
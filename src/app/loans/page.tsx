@@ -790,6 +790,7 @@ export default function LoansPage() {
             institution: editingLoan.institution,
             accountHolderName: editingLoan.accountHolderName,
             principalAmount: editingLoan.principalAmount,
+            currency: editingLoan.currency,
             interestRate: editingLoan.interestRate,
             tenure: editingLoan.tenure,
             emiAmount: editingLoan.emiAmount,
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import {
   Select,
   SelectContent,
@@ -356,6 +357,7 @@ export default function MemberDetailPage() {
                 <Badge className={categoryColors[member.category]}>
                   {member.category}
                 </Badge>
+                <AuditHistoryButton entity="MEMBER" entityId={member.id} title={member.name} />
               </div>
 
               <div className="space-y-2 mt-4">
@@ -511,6 +513,7 @@ export default function MemberDetailPage() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        <AuditHistoryButton entity="MEMBER_TRANSACTION" entityId={transaction.id} title={transaction.description ?? undefined} />
                         <Button
                           size="sm"
                           variant="outline"
@@ -599,13 +602,16 @@ export default function MemberDetailPage() {
                       {transaction.settledNotes || "-"}
                     </TableCell>
                     <TableCell>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleUnsettleTransaction(transaction.id)}
-                      >
-                        Unsettle
-                      </Button>
+                      <div className="flex gap-2">
+                        <AuditHistoryButton entity="MEMBER_TRANSACTION" entityId={transaction.id} title={transaction.description ?? undefined} />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleUnsettleTransaction(transaction.id)}
+                        >
+                          Unsettle
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { AuditHistoryButton } from "@/components/audit/audit-history-sheet"
 import {
   Select,
   SelectContent,
@@ -421,6 +422,7 @@ export default function MembersPage() {
                     >
                       <Eye className="w-4 h-4" />
                     </Button>
+                    <AuditHistoryButton entity="MEMBER" entityId={member.id} title={member.name} />
                     <Button
                       variant="ghost"
                       size="icon"
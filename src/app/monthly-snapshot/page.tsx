@@ -6,7 +6,7 @@ import { formatDate } from "@/lib/utils"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
-import { Calendar, Lock, Unlock, TrendingUp, TrendingDown, CheckCircle, AlertCircle, Receipt } from "lucide-react"
+import { Calendar, Lock, Unlock, TrendingUp, TrendingDown, CheckCircle, AlertCircle, Receipt, RefreshCw, Loader2 } from "lucide-react"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,17 +17,42 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { MonthCloseHistory } from "@/components/monthly-snapshot/month-close-history"
+import { SnapshotChangesTable } from "@/components/monthly-snapshot/snapshot-changes-table"
+import { DEFAULT_CURRENCY, getCurrencySymbol, getLoanEventLabel } from "@/constants"
+import type { MonthRecomputePreview } from "@/types"
 
 interface LoanData {
   loanId: string
   loanType: string
   institution: string
   emiAmount: number
+  currency?: string
   isPaid: boolean
   paidDate: string | null
   dueDate: string | null
   isClosed: boolean
   closedAt: string | null
+  events?: LoanEventData[]
+}
+
+interface LoanEventData {
+  type: string
+  effectiveDate: string
+  amount: number | null
+  interestRate: number | null
+  tenure: number | null
+  emiAmount: number | null
 }
 
 interface BorrowedFundData {
@@ -35,6 +60,7 @@ interface BorrowedFundData {
   lenderName: string
   borrowedAmount: number
   returnedAmount: number
+  currency?: string
   currentValue: number | null
   profitLoss: number | null
   investedIn: string | null
@@ -45,6 +71,7 @@ interface MonthlySnapshot {
   id: string
   month: number
   year: number
+  currency?: string
   salary: number
   taxAmount: number
   afterTax: number
@@ -60,6 +87,10 @@ interface MonthlySnapshot {
   surplusAmount: number
   previousSurplus: number
   investmentsMade: number | null
+  overallPortfolioValue?: number
+  overallPortfolioPnLPct?: number
+  overallPortfolioXirr?: number | null
+  overallPortfolioTwr?: number | null
   loansData?: LoanData[]
   borrowedFundsReceived?: number
   borrowedFundsReturned?: number
@@ -68,6 +99,7 @@ interface MonthlySnapshot {
   borrowedFundsProfit?: number
   isClosed: boolean
   closedAt: string | null
+  isReopened?: boolean
 }
 
 const MONTHS = [
@@ -79,13 +111,22 @@ export default function MonthlySnapshotPage() {
   const [snapshot, setSnapshot] = useState<MonthlySnapshot | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
+  const currencySymbol = getCurrencySymbol(snapshot?.currency ?? DEFAULT_CURRENCY)
+
   // Helper function to format currency or show dash for zero values
   const formatAmount = (amount: number, showZero = false) => {
     if (amount === 0 && !showZero) return "-"
-    return `₹${amount.toLocaleString()}`
+    return `${currencySymbol}${amount.toLocaleString()}`
   }
   const [isClosing, setIsClosing] = useState(false)
   const [showCloseDialog, setShowCloseDialog] = useState(false)
+  const [showReopenDialog, setShowReopenDialog] = useState(false)
+  const [reopenReason, setReopenReason] = useState("")
+  const [isReopening, setIsReopening] = useState(false)
+  const [recomputePreview, setRecomputePreview] = useState<MonthRecomputePreview | null>(null)
+  const [isLoadingRecompute, setIsLoadingRecompute] = useState(false)
+  const [isRecomputing, setIsRecomputing] = useState(false)
+  const [historyKey, setHistoryKey] = useState(0)
 
   const currentDate = new Date()
   const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth() + 1)
@@ -139,6 +180,7 @@ export default function MonthlySnapshotPage() {
       if (response.ok) {
         toast.success("Month closed successfully")
         loadSnapshot()
+        setHistoryKey(key => key + 1)
         setShowCloseDialog(false)
       } else {
         const error = await response.json()
@@ -152,6 +194,91 @@ export default function MonthlySnapshotPage() {
     }
   }
 
+  const handleReopenMonth = async () => {
+    if (!reopenReason.trim()) {
+      toast.error("Enter a reason for reopening the month")
+      return
+    }
+
+    try {
+      setIsReopening(true)
+      const response = await fetch("/api/monthly-snapshot/reopen", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          month: selectedMonth,
+          year: selectedYear,
+          reason: reopenReason,
+        }),
+      })
+
+      if (response.ok) {
+        toast.success("Month reopened")
+        setShowReopenDialog(false)
+        setReopenReason("")
+        setHistoryKey(key => key + 1)
+        loadSnapshot()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || "Failed to reopen month")
+      }
+    } catch (error) {
+      console.error("Error reopening month:", error)
+      toast.error("An error occurred")
+    } finally {
+      setIsReopening(false)
+    }
+  }
+
+  const handlePreviewRecompute = async () => {
+    try {
+      setIsLoadingRecompute(true)
+      const response = await fetch(`/api/monthly-snapshot/recompute?month=${selectedMonth}&year=${selectedYear}`)
+
+      if (response.ok) {
+        setRecomputePreview(await response.json())
+      } else {
+        const error = await response.json()
+        toast.error(error.error || "Failed to recompute month")
+      }
+    } catch (error) {
+      console.error("Error previewing recompute:", error)
+      toast.error("An error occurred")
+    } finally {
+      setIsLoadingRecompute(false)
+    }
+  }
+
+  const handleApplyRecompute = async () => {
+    try {
+      setIsRecomputing(true)
+      const response = await fetch("/api/monthly-snapshot/recompute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          month: selectedMonth,
+          year: selectedYear,
+        }),
+      })
+
+      if (response.ok) {
+        const { changes } = await response.json()
+        toast.success(changes.length > 0 ? `Snapshot updated - ${changes.length} fields changed` : "Snapshot is already up to date")
+        setRecomputePreview(null)
+        setHistoryKey(key => key + 1)
+        loadSnapshot()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || "Failed to recompute month")
+      }
+    } catch (error) {
+      console.error("Error recomputing month:", error)
+      toast.error("An error occurred")
+    } finally {
+      setIsRecomputing(false)
+    }
+  }
+
   const years = Array.from({ length: 5 }, (_, i) => currentDate.getFullYear() - i)
 
   if (isLoading) {
@@ -329,7 +456,7 @@ export default function MonthlySnapshotPage() {
               )}
             </h3>
             <div className={`text-xl sm:text-2xl font-bold ${snapshot.surplusAmount >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
-              {snapshot.surplusAmount === 0 ? '-' : `${snapshot.surplusAmount >= 0 ? '+' : ''}₹${Math.abs(snapshot.surplusAmount).toLocaleString()}`}
+              {snapshot.surplusAmount === 0 ? '-' : `${snapshot.surplusAmount >= 0 ? '+' : ''}${currencySymbol}${Math.abs(snapshot.surplusAmount).toLocaleString()}`}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               Available - Spent
@@ -443,38 +570,51 @@ export default function MonthlySnapshotPage() {
                           Closed on: {new Date(loan.closedAt).toLocaleDateString('en-IN')}
                         </p>
                       )}
+                      {loan.events?.map((event, index) => (
+                        <p key={index} className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                          {getLoanEventLabel(event.type)} on {new Date(event.effectiveDate).toLocaleDateString('en-IN')}
+                          {event.amount != null && `: ${getCurrencySymbol(loan.currency ?? DEFAULT_CURRENCY)}${event.amount.toLocaleString()}`}
+                          {event.interestRate != null && `: ${event.interestRate}%`}
+                          {event.tenure != null && `: ${event.tenure} EMIs remaining`}
+                          {event.emiAmount != null && `: ${getCurrencySymbol(loan.currency ?? DEFAULT_CURRENCY)}${event.emiAmount.toLocaleString()} EMI`}
+                        </p>
+                      ))}
                     </div>
-                    <div className="text-left sm:text-right">
-                      <p className="text-xl font-bold text-orange-600 dark:text-orange-400">
-                        ₹{loan.emiAmount.toLocaleString()}
-                      </p>
-                      <div className="flex items-center gap-2 mt-1 justify-start sm:justify-end">
-                        {loan.isPaid ? (
-                          <>
-                            <CheckCircle className="h-4 w-4 text-green-600" />
-                            <span className="text-sm font-semibold text-green-600">Paid</span>
-                            {loan.paidDate && (
-                              <span className="text-xs text-muted-foreground">
-                                on {new Date(loan.paidDate).toLocaleDateString('en-IN')}
-                              </span>
-                            )}
-                          </>
-                        ) : (
-                          <>
-                            <AlertCircle className="h-4 w-4 text-orange-600" />
-                            <span className="text-sm font-semibold text-orange-600">Unpaid</span>
-                          </>
-                        )}
+                    {loan.dueDate ? (
+                      <div className="text-left sm:text-right">
+                        <p className="text-xl font-bold text-orange-600 dark:text-orange-400">
+                          {currencySymbol}{loan.emiAmount.toLocaleString()}
+                        </p>
+                        <div className="flex items-center gap-2 mt-1 justify-start sm:justify-end">
+                          {loan.isPaid ? (
+                            <>
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                              <span className="text-sm font-semibold text-green-600">Paid</span>
+                              {loan.paidDate && (
+                                <span className="text-xs text-muted-foreground">
+                                  on {new Date(loan.paidDate).toLocaleDateString('en-IN')}
+                                </span>
+                              )}
+                            </>
+                          ) : (
+                            <>
+                              <AlertCircle className="h-4 w-4 text-orange-600" />
+                              <span className="text-sm font-semibold text-orange-600">Unpaid</span>
+                            </>
+                          )}
+                        </div>
                       </div>
-                    </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No EMI due this month</p>
+                    )}
                   </div>
                 </div>
               ))}
               <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800 mt-4">
                 <p className="text-sm text-blue-900 dark:text-blue-100">
-                  <strong>Total EMI this month:</strong> ₹{snapshot.totalLoans.toLocaleString()}
+                  <strong>Total EMI this month:</strong> {currencySymbol}{snapshot.totalLoans.toLocaleString()}
                   <span className="ml-2 text-xs">
-                    ({snapshot.loansData.filter(l => l.isPaid).length} of {snapshot.loansData.length} paid)
+                    ({snapshot.loansData.filter(l => l.dueDate && l.isPaid).length} of {snapshot.loansData.filter(l => l.dueDate).length} paid)
                   </span>
                 </p>
               </div>
@@ -512,7 +652,7 @@ export default function MonthlySnapshotPage() {
                   <div className="flex-1">
                     <p className="text-xs sm:text-sm text-muted-foreground mb-1">Total Investments Made</p>
                     <p className="text-2xl sm:text-3xl font-bold text-indigo-600 dark:text-indigo-400">
-                      ₹{(snapshot.investmentsMade ?? 0).toLocaleString()}
+                      {currencySymbol}{(snapshot.investmentsMade ?? 0).toLocaleString()}
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
                       One-time purchases and SIP executions combined
@@ -521,7 +661,7 @@ export default function MonthlySnapshotPage() {
                   <div className="sm:text-right">
                     <p className="text-xs sm:text-sm text-muted-foreground mb-1">SIP Deductions</p>
                     <p className="text-xl sm:text-2xl font-bold text-purple-600 dark:text-purple-400">
-                      ₹{snapshot.totalSIPs.toLocaleString()}
+                      {currencySymbol}{snapshot.totalSIPs.toLocaleString()}
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
                       Recurring investments
@@ -539,7 +679,7 @@ export default function MonthlySnapshotPage() {
                     </Badge>
                   </div>
                   <p className="text-lg sm:text-xl font-bold text-green-600 dark:text-green-400">
-                    ₹{((snapshot.investmentsMade ?? 0) - (snapshot.totalSIPs ?? 0)).toLocaleString()}
+                    {currencySymbol}{((snapshot.investmentsMade ?? 0) - (snapshot.totalSIPs ?? 0)).toLocaleString()}
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
                     From current month salary
@@ -554,7 +694,7 @@ export default function MonthlySnapshotPage() {
                     </Badge>
                   </div>
                   <p className="text-lg sm:text-xl font-bold text-orange-600 dark:text-orange-400">
-                    ₹{snapshot.totalSIPs.toLocaleString()}
+                    {currencySymbol}{snapshot.totalSIPs.toLocaleString()}
                   </p>
                   <p className="text-xs text-muted-foreground mt-1">
                     Scheduled recurring investments
@@ -580,6 +720,48 @@ export default function MonthlySnapshotPage() {
         </div>
       )}
 
+      {/* Portfolio Returns - Only show if there is a portfolio */}
+      {Number(snapshot.overallPortfolioValue ?? 0) > 0 && (
+        <div className="backdrop-blur-md bg-gradient-to-br from-green-500/10 via-emerald-500/10 to-green-500/10 dark:from-green-500/20 dark:via-emerald-500/20 dark:to-green-500/20 border border-green-500/20 rounded-lg shadow-lg">
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+              <div>
+                <h3 className="text-lg font-semibold flex items-center gap-2 mb-2">
+                  <TrendingUp className="h-5 w-5" />
+                  Portfolio Returns
+                </h3>
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  XIRR and time-weighted return account for when each investment was made
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full sm:w-auto"
+                onClick={() => window.location.href = "/investments/overview"}
+              >
+                View by Holding
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {[
+                { label: "Portfolio Value", value: `${currencySymbol}${Number(snapshot.overallPortfolioValue).toLocaleString()}`, raw: null },
+                { label: "Absolute P&L", value: `${Number(snapshot.overallPortfolioPnLPct ?? 0).toFixed(2)}%`, raw: Number(snapshot.overallPortfolioPnLPct ?? 0) },
+                { label: "XIRR", value: snapshot.overallPortfolioXirr != null ? `${Number(snapshot.overallPortfolioXirr).toFixed(2)}%` : "-", raw: snapshot.overallPortfolioXirr != null ? Number(snapshot.overallPortfolioXirr) : null },
+                { label: "Time-Weighted", value: snapshot.overallPortfolioTwr != null ? `${Number(snapshot.overallPortfolioTwr).toFixed(2)}%` : "-", raw: snapshot.overallPortfolioTwr != null ? Number(snapshot.overallPortfolioTwr) : null },
+              ].map((item) => (
+                <div key={item.label} className="p-3 border rounded-lg bg-white dark:bg-gray-900">
+                  <p className="text-xs sm:text-sm font-medium text-muted-foreground mb-1">{item.label}</p>
+                  <p className={`text-lg sm:text-xl font-bold ${item.raw === null ? "" : item.raw >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                    {item.value}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Borrowed Funds - Only show if there are borrowed funds or activity */}
       {((snapshot.borrowedFundsCount ?? 0) > 0 ||
         (snapshot.borrowedFundsReceived ?? 0) > 0 ||
@@ -610,21 +792,21 @@ export default function MonthlySnapshotPage() {
               <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
                 <p className="text-xs text-muted-foreground mb-1">Received This Month</p>
                 <p className="text-2xl font-bold text-green-600 dark:text-green-400">
-                  ₹{(snapshot.borrowedFundsReceived ?? 0).toLocaleString()}
+                  {currencySymbol}{(snapshot.borrowedFundsReceived ?? 0).toLocaleString()}
                 </p>
               </div>
 
               <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
                 <p className="text-xs text-muted-foreground mb-1">Returned This Month</p>
                 <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                  ₹{(snapshot.borrowedFundsReturned ?? 0).toLocaleString()}
+                  {currencySymbol}{(snapshot.borrowedFundsReturned ?? 0).toLocaleString()}
                 </p>
               </div>
 
               <div className="p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border border-purple-200 dark:border-purple-800">
                 <p className="text-xs text-muted-foreground mb-1">Investment Profit/Loss</p>
                 <p className={`text-2xl font-bold ${(snapshot.borrowedFundsProfit ?? 0) >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                  {(snapshot.borrowedFundsProfit ?? 0) >= 0 ? '+' : ''}₹{Math.abs(snapshot.borrowedFundsProfit ?? 0).toLocaleString()}
+                  {(snapshot.borrowedFundsProfit ?? 0) >= 0 ? '+' : ''}{currencySymbol}{Math.abs(snapshot.borrowedFundsProfit ?? 0).toLocaleString()}
                 </p>
               </div>
             </div>
@@ -638,8 +820,8 @@ export default function MonthlySnapshotPage() {
                       <div className="flex-1">
                         <p className="font-medium">{fund.lenderName}</p>
                         <p className="text-sm text-muted-foreground">
-                          Borrowed: ₹{fund.borrowedAmount.toLocaleString()}
-                          {fund.returnedAmount > 0 && ` • Returned: ₹{fund.returnedAmount.toLocaleString()}`}
+                          Borrowed: {getCurrencySymbol(fund.currency ?? DEFAULT_CURRENCY)}{fund.borrowedAmount.toLocaleString()}
+                          {fund.returnedAmount > 0 && ` • Returned: ${getCurrencySymbol(fund.currency ?? DEFAULT_CURRENCY)}${fund.returnedAmount.toLocaleString()}`}
                         </p>
                         {fund.investedIn && (
                           <p className="text-xs text-muted-foreground mt-1">
@@ -650,7 +832,7 @@ export default function MonthlySnapshotPage() {
                       <div className="flex items-center gap-3">
                         {fund.profitLoss !== null && fund.profitLoss !== 0 && (
                           <Badge variant={fund.profitLoss >= 0 ? "default" : "destructive"}>
-                            {fund.profitLoss >= 0 ? '+' : ''}₹{Math.abs(fund.profitLoss).toLocaleString()}
+                            {fund.profitLoss >= 0 ? '+' : ''}{getCurrencySymbol(fund.currency ?? DEFAULT_CURRENCY)}{Math.abs(fund.profitLoss).toLocaleString()}
                           </Badge>
                         )}
                         {fund.isFullyReturned && (
@@ -679,6 +861,7 @@ export default function MonthlySnapshotPage() {
             </h3>
             <p className="text-xs sm:text-sm text-muted-foreground mb-4">
               Closing will save the snapshot, lock all data, and carry forward the surplus to next month. Currently viewing preview data.
+              {snapshot.isReopened && " This month was reopened, so closing it again replaces the saved snapshot."}
             </p>
             <Button
               onClick={() => setShowCloseDialog(true)}
@@ -695,11 +878,27 @@ export default function MonthlySnapshotPage() {
       {snapshot.isClosed && snapshot.closedAt && (
         <div className="backdrop-blur-md bg-gradient-to-br from-green-500/10 via-emerald-500/10 to-green-500/10 dark:from-green-500/20 dark:via-emerald-500/20 dark:to-green-500/20 border border-green-500/20 rounded-lg shadow-lg">
           <div className="p-6">
-            <div className="flex items-center space-x-2 text-green-600 dark:text-green-400">
-              <CheckCircle className="h-5 w-5" />
-              <p className="font-semibold">
-                Month closed on {formatDate(snapshot.closedAt)}
-              </p>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-center space-x-2 text-green-600 dark:text-green-400">
+                <CheckCircle className="h-5 w-5" />
+                <p className="font-semibold">
+                  Month closed on {formatDate(snapshot.closedAt)}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handlePreviewRecompute} disabled={isLoadingRecompute}>
+                  {isLoadingRecompute ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Recompute
+                </Button>
+                <Button variant="outline" onClick={() => setShowReopenDialog(true)}>
+                  <Unlock className="h-4 w-4 mr-2" />
+                  Reopen
+                </Button>
+              </div>
             </div>
           </div>
         </div>
@@ -711,18 +910,18 @@ export default function MonthlySnapshotPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Close {MONTHS[selectedMonth - 1]} {selectedYear}?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently lock the month&apos;s data.{" "}
+              This will lock the month&apos;s data.{" "}
               {snapshot.surplusAmount !== 0 && (
                 <>
                   The surplus amount of{" "}
                   <span className="font-bold text-foreground">
-                    {snapshot.surplusAmount >= 0 ? '+' : ''}₹{Math.abs(snapshot.surplusAmount).toLocaleString()}
+                    {snapshot.surplusAmount >= 0 ? '+' : ''}{currencySymbol}{Math.abs(snapshot.surplusAmount).toLocaleString()}
                   </span>{" "}
                   will be carried forward to the next month.
                 </>
               )}
               <br /><br />
-              You cannot undo this action.
+              To change it later you will need to reopen the month with a reason.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -733,6 +932,72 @@ export default function MonthlySnapshotPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <MonthCloseHistory
+        month={selectedMonth}
+        year={selectedYear}
+        currencySymbol={currencySymbol}
+        refreshKey={historyKey}
+      />
+
+      {/* Reopen Month Dialog */}
+      <Dialog open={showReopenDialog} onOpenChange={setShowReopenDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen {MONTHS[selectedMonth - 1]} {selectedYear}?</DialogTitle>
+            <DialogDescription>
+              The month&apos;s data can be edited again until you close it once more. The reason is kept in the month&apos;s close history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopenReason">Reason</Label>
+            <Textarea
+              id="reopenReason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="e.g. Missed a card statement for this month"
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReopenDialog(false)} disabled={isReopening}>
+              Cancel
+            </Button>
+            <Button onClick={handleReopenMonth} disabled={isReopening || !reopenReason.trim()}>
+              {isReopening ? "Reopening..." : "Reopen Month"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Recompute Dialog */}
+      <Dialog open={!!recomputePreview} onOpenChange={(open) => !open && setRecomputePreview(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Recompute {MONTHS[selectedMonth - 1]} {selectedYear}</DialogTitle>
+            <DialogDescription>
+              {recomputePreview && recomputePreview.changes.length > 0
+                ? "Calculating the month again from its current data would change these saved fields. The month stays closed."
+                : "The saved snapshot matches the month's current data."}
+            </DialogDescription>
+          </DialogHeader>
+          {recomputePreview && recomputePreview.changes.length > 0 && (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <SnapshotChangesTable changes={recomputePreview.changes} currencySymbol={currencySymbol} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecomputePreview(null)} disabled={isRecomputing}>
+              {recomputePreview?.changes.length ? "Cancel" : "Close"}
+            </Button>
+            {recomputePreview && recomputePreview.changes.length > 0 && (
+              <Button onClick={handleApplyRecompute} disabled={isRecomputing}>
+                {isRecomputing ? "Updating..." : "Update Snapshot"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,250 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Edit as EditIcon, Landmark, Plus, Trash2 } from "lucide-react"
+import { format } from "date-fns"
+import { NetWorthChart } from "@/components/dashboard/net-worth-chart"
+import { ManualAssetModal } from "@/components/net-worth/manual-asset-modal"
+import { DEFAULT_CURRENCY, getCurrencySymbol, getManualAssetLabel } from "@/constants"
+import type { ManualAsset, NetWorthBreakdown } from "@/types"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+export default function NetWorthPage() {
+  const [current, setCurrent] = useState<NetWorthBreakdown | null>(null)
+  const [assets, setAssets] = useState<ManualAsset[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [modalOpen, setModalOpen] = useState(false)
+  const [editingAsset, setEditingAsset] = useState<ManualAsset | null>(null)
+
+  const loadAssets = async () => {
+    try {
+      const response = await fetch("/api/net-worth/assets")
+      if (response.ok) {
+        setAssets(await response.json())
+      } else {
+        toast.error("Failed to load assets")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAssets()
+  }, [])
+
+  const handleChanged = () => {
+    loadAssets()
+    setRefreshKey(key => key + 1)
+  }
+
+  const handleLoaded = useCallback((breakdown: NetWorthBreakdown) => setCurrent(breakdown), [])
+
+  const handleToggle = async (asset: ManualAsset, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/net-worth/assets/${asset.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update asset")
+      }
+      toast.success(isActive ? "Asset included in net worth" : "Asset excluded from net worth")
+      handleChanged()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update asset")
+    }
+  }
+
+  const handleDelete = async (asset: ManualAsset) => {
+    if (!confirm(`Delete "${asset.name}"? Net worth already recorded is kept.`)) return
+
+    try {
+      const response = await fetch(`/api/net-worth/assets/${asset.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to delete asset")
+      }
+      toast.success("Asset deleted")
+      handleChanged()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete asset")
+    }
+  }
+
+  const openModal = (asset: ManualAsset | null) => {
+    setEditingAsset(asset)
+    setModalOpen(true)
+  }
+
+  const breakdown = current
+    ? [
+        {
+          title: "Assets",
+          total: current.totalAssets,
+          className: "text-green-600 dark:text-green-400",
+          items: [
+            { label: "Investments", value: current.assets.holdings },
+            { label: "Emergency Fund", value: current.assets.emergencyFund },
+            { label: "Manual Assets", value: current.assets.manualAssets },
+            { label: "Money Lent to Members", value: current.assets.moneyLent },
+          ],
+        },
+        {
+          title: "Liabilities",
+          total: current.totalLiabilities,
+          className: "text-red-600 dark:text-red-400",
+          items: [
+            { label: "Loan Outstanding", value: current.liabilities.loans },
+            { label: "Borrowed Funds", value: current.liabilities.borrowedFunds },
+            { label: "Credit Card Dues", value: current.liabilities.creditCardDues },
+            { label: "Owed to Members", value: current.liabilities.moneyOwed },
+          ],
+        },
+      ]
+    : []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Net Worth
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Everything you own minus everything you owe, recorded every day
+          </p>
+        </div>
+        <Button onClick={() => openModal(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Asset
+        </Button>
+      </div>
+
+      <NetWorthChart refreshKey={refreshKey.toString()} onLoaded={handleLoaded} />
+
+      {/* Breakdown */}
+      {current && (
+        <div className="grid gap-4 grid-cols-1 md:grid-cols-2">
+          {breakdown.map((group) => (
+            <div
+              key={group.title}
+              className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50"
+            >
+              <div className="relative p-5 space-y-3">
+                <div className="flex justify-between items-baseline">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{group.title}</p>
+                  <p className={`text-2xl font-bold ${group.className}`}>{formatAmount(group.total, current.currency)}</p>
+                </div>
+                <div className="rounded-md border divide-y">
+                  {group.items.map((item) => (
+                    <div key={item.label} className="flex justify-between items-center px-4 py-2 text-sm">
+                      <span className="text-muted-foreground">{item.label}</span>
+                      <span className="font-medium">{formatAmount(item.value, current.currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Manual Assets */}
+      {isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : assets.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <Landmark className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Manual Assets</h3>
+              <p className="text-muted-foreground text-sm">
+                Add real estate, gold, EPF, PPF or fixed deposits to include them in your net worth
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+          <div className="relative p-6">
+            <h2 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">Manual Assets</h2>
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50 dark:bg-gray-900">
+                    <TableHead className="font-semibold">Name</TableHead>
+                    <TableHead className="font-semibold">Type</TableHead>
+                    <TableHead className="text-right font-semibold">Value</TableHead>
+                    <TableHead className="font-semibold">Valued On</TableHead>
+                    <TableHead className="text-right font-semibold">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assets.map((asset) => (
+                    <TableRow
+                      key={asset.id}
+                      className={asset.isActive ? "hover:bg-gray-50 dark:hover:bg-gray-900/50" : "text-muted-foreground"}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{asset.name}</div>
+                        {asset.notes && <div className="text-xs text-muted-foreground">{asset.notes}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getManualAssetLabel(asset.type)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{formatAmount(asset.value, current?.currency ?? DEFAULT_CURRENCY)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(asset.valuationDate), "MMM dd, yyyy")}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end items-center gap-1">
+                          <Switch
+                            checked={asset.isActive}
+                            onCheckedChange={(checked) => handleToggle(asset, checked)}
+                            title={asset.isActive ? "Exclude from net worth" : "Include in net worth"}
+                          />
+                          <Button variant="ghost" size="sm" onClick={() => openModal(asset)}>
+                            <EditIcon className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(asset)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">
+              Switch off assets you have sold or that have matured. Holdings, loans, borrowed funds, card dues and member balances are included automatically.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <ManualAssetModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        asset={editingAsset}
+        onSuccess={handleChanged}
+      />
+    </div>
+  )
+}
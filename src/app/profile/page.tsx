@@ -8,8 +8,12 @@ import { Label } from "@/components/ui/label"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
-import { Role, ROLE_LABELS, getRoleBadgeColor } from "@/constants"
+import { CURRENCIES, DEFAULT_CURRENCY, Role, ROLE_LABELS, getRoleBadgeColor } from "@/constants"
+import { TwoFactorSettings } from "@/components/profile/two-factor-settings"
+import { DeviceSessions } from "@/components/profile/device-sessions"
+import { IdentityDocuments } from "@/components/profile/identity-documents"
 
 export default function Profile() {
   const { data: session, update } = useSession()
@@ -21,6 +25,14 @@ export default function Profile() {
   const [currentPassword, setCurrentPassword] = useState("")
   const [newPassword, setNewPassword] = useState("")
   const [confirmPassword, setConfirmPassword] = useState("")
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY)
+  const [activeTab, setActiveTab] = useState("profile")
+
+  useEffect(() => {
+    // Links such as the 2FA enrolment redirect open a specific tab
+    const tab = new URLSearchParams(window.location.search).get("tab")
+    if (tab) setActiveTab(tab)
+  }, [])
 
   useEffect(() => {
     if (session?.user) {
@@ -29,6 +41,21 @@ export default function Profile() {
     }
   }, [session])
 
+  useEffect(() => {
+    const fetchBaseCurrency = async () => {
+      try {
+        const response = await fetch("/api/profile/currency")
+        if (response.ok) {
+          const data = await response.json()
+          setBaseCurrency(data.baseCurrency)
+        }
+      } catch (error) {
+        console.error("Error fetching base currency:", error)
+      }
+    }
+    fetchBaseCurrency()
+  }, [])
+
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -99,6 +126,32 @@ export default function Profile() {
     }
   }
 
+  const handleCurrencyUpdate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const response = await fetch("/api/profile/currency", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ baseCurrency }),
+      })
+
+      if (response.ok) {
+        toast.success("Base currency updated successfully!")
+      } else {
+        const data = await response.json()
+        toast.error(data.message || "Failed to update base currency")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   if (!session?.user) {
     return <div>Loading...</div>
   }
@@ -141,10 +194,12 @@ export default function Profile() {
         </div>
       </div>
 
-      <Tabs defaultValue="profile" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="profile">Profile Info</TabsTrigger>
           <TabsTrigger value="password">Change Password</TabsTrigger>
+          <TabsTrigger value="currency">Currency</TabsTrigger>
+          <TabsTrigger value="security">Security</TabsTrigger>
         </TabsList>
 
         <TabsContent value="profile">
@@ -185,6 +240,19 @@ export default function Profile() {
               </form>
             </div>
           </div>
+
+          <div className="mt-6 relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl hover:shadow-2xl transition-all duration-200">
+            <div className="absolute inset-0 bg-gradient-to-br from-teal-500/5 via-transparent to-cyan-500/5 pointer-events-none"></div>
+            <div className="relative p-6">
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Identity Documents</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Your PAN and Aadhaar number
+                </p>
+              </div>
+              <IdentityDocuments />
+            </div>
+          </div>
         </TabsContent>
 
         <TabsContent value="password">
@@ -235,6 +303,68 @@ export default function Profile() {
             </div>
           </div>
         </TabsContent>
+
+        <TabsContent value="currency">
+          <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl hover:shadow-2xl transition-all duration-200">
+            <div className="absolute inset-0 bg-gradient-to-br from-green-500/5 via-transparent to-emerald-500/5 pointer-events-none"></div>
+            <div className="relative p-6">
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Base Currency</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Reports, snapshots and the dashboard are shown in this currency
+                </p>
+              </div>
+              <form onSubmit={handleCurrencyUpdate} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="baseCurrency">Currency</Label>
+                  <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+                    <SelectTrigger id="baseCurrency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Updating..." : "Update Currency"}
+                </Button>
+              </form>
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="security">
+          <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl hover:shadow-2xl transition-all duration-200">
+            <div className="absolute inset-0 bg-gradient-to-br from-red-500/5 via-transparent to-rose-500/5 pointer-events-none"></div>
+            <div className="relative p-6">
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Two-Factor Authentication</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Ask for a code from your authenticator app after your password when you sign in
+                </p>
+              </div>
+              <TwoFactorSettings />
+            </div>
+          </div>
+
+          <div className="mt-6 relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl hover:shadow-2xl transition-all duration-200">
+            <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 via-transparent to-indigo-500/5 pointer-events-none"></div>
+            <div className="relative p-6">
+              <div className="mb-6">
+                <h3 className="text-xl font-bold text-gray-900 dark:text-white">Devices</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Where you are signed in. Sign out a device you no longer use or have lost
+                </p>
+              </div>
+              <DeviceSessions />
+            </div>
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   )
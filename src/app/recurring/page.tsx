@@ -0,0 +1,275 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Edit as EditIcon, Plus, Repeat, Trash2 } from "lucide-react"
+import { RecurringTemplateModal } from "@/components/recurring/recurring-template-modal"
+import { EditRecurringModal } from "@/components/recurring/edit-recurring-modal"
+import { getFrequencyLabel } from "@/lib/frequency-utils"
+import { DEFAULT_CURRENCY, getCurrencySymbol } from "@/constants"
+import type { CreditCard, RecurringTemplate } from "@/types"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+
+export default function RecurringPage() {
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([])
+  const [creditCards, setCreditCards] = useState<CreditCard[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [createOpen, setCreateOpen] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null>(null)
+
+  useEffect(() => {
+    loadTemplates()
+    const loadCreditCards = async () => {
+      try {
+        const response = await fetch("/api/credit-cards")
+        if (response.ok) {
+          const data = await response.json()
+          setCreditCards(data.filter((card: CreditCard) => card.isActive))
+        }
+      } catch (error) {
+        console.error("Error loading credit cards:", error)
+      }
+    }
+    loadCreditCards()
+  }, [])
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch("/api/recurring")
+      if (response.ok) {
+        const data: RecurringTemplate[] = await response.json()
+        setTemplates(data)
+        setEditingTemplate(current => current ? data.find(item => item.id === current.id) ?? null : null)
+      } else {
+        toast.error("Failed to load recurring entries")
+      }
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleToggle = async (template: RecurringTemplate, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/recurring/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update recurring entry")
+      }
+      toast.success(isActive ? "Resumed" : "Paused")
+      loadTemplates()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update recurring entry")
+    }
+  }
+
+  const handleDelete = async (template: RecurringTemplate) => {
+    if (!confirm(`Delete "${template.title}"? Entries already created are kept.`)) return
+
+    try {
+      const response = await fetch(`/api/recurring/${template.id}`, { method: "DELETE" })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to delete recurring entry")
+      }
+      toast.success("Recurring entry deleted")
+      loadTemplates()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete recurring entry")
+    }
+  }
+
+  const active = templates.filter(template => template.isActive && template.nextRunDate)
+  const monthlyExpenses = active
+    .filter(template => template.kind === "EXPENSE" && template.frequency === "MONTHLY")
+    .reduce((sum, template) => sum + (template.baseAmount ?? template.currentAmount), 0)
+  const baseCurrency = templates[0]?.baseCurrency ?? DEFAULT_CURRENCY
+  const monthlyIncome = active
+    .filter(template => template.kind === "INCOME" && template.frequency === "MONTHLY")
+    .reduce((sum, template) => sum + (template.baseAmount ?? template.currentAmount), 0)
+
+  const statusOf = (template: RecurringTemplate) => {
+    if (!template.nextRunDate) return { label: "Ended", className: "bg-gray-500" }
+    if (!template.isActive) return { label: "Paused", className: "bg-amber-500" }
+    if (template.pausedUntil && new Date(template.pausedUntil) > new Date()) {
+      return { label: `Paused until ${new Date(template.pausedUntil).toLocaleDateString()}`, className: "bg-amber-500" }
+    }
+    return { label: "Active", className: "bg-green-500" }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Recurring
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Rent, subscriptions, premiums and regular income, added automatically when due
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Recurring Entry
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+        {[
+          { label: "Active Entries", value: active.length.toString() },
+          { label: "Monthly Expenses", value: formatAmount(monthlyExpenses, baseCurrency) },
+          { label: "Monthly Income", value: formatAmount(monthlyIncome, baseCurrency) },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50"
+          >
+            <div className="relative p-5">
+              <p className="text-sm text-gray-600 dark:text-gray-400">{card.label}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{card.value}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-16 border-2 border-dashed rounded-lg">
+          <div className="flex flex-col items-center space-y-4">
+            <div className="p-4 bg-gray-100 dark:bg-gray-800 rounded-full">
+              <Repeat className="h-8 w-8 text-gray-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold mb-1">No Recurring Entries</h3>
+              <p className="text-muted-foreground text-sm">
+                Add rent, subscriptions or insurance premiums once and they are recorded every period
+              </p>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+          <div className="relative p-6">
+            <div className="overflow-x-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50 dark:bg-gray-900">
+                    <TableHead className="font-semibold">Title</TableHead>
+                    <TableHead className="font-semibold">Type</TableHead>
+                    <TableHead className="font-semibold">Schedule</TableHead>
+                    <TableHead className="text-right font-semibold">Amount</TableHead>
+                    <TableHead className="font-semibold">Next Date</TableHead>
+                    <TableHead className="font-semibold">Status</TableHead>
+                    <TableHead className="text-right font-semibold">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => {
+                    const status = statusOf(template)
+                    const upcomingChange = template.amountChanges.find(
+                      change => new Date(change.effectiveFrom) > new Date(template.nextRunDate ?? Date.now())
+                    )
+                    return (
+                      <TableRow key={template.id} className="hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                        <TableCell>
+                          <div className="font-medium">{template.title}</div>
+                          {template.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {template.tags.map((tag) => (
+                                <Badge key={tag} variant="secondary">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{template.kind === "EXPENSE" ? "Expense" : "Income"}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {template.frequency === "CUSTOM"
+                            ? `Monthly on day ${template.customDay}`
+                            : getFrequencyLabel(template.frequency)}
+                          {template.endDate && (
+                            <div className="text-xs text-muted-foreground">
+                              Until {new Date(template.endDate).toLocaleDateString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className={`font-semibold ${template.kind === "INCOME" ? "text-green-600 dark:text-green-400" : ""}`}>
+                            {formatAmount(template.currentAmount, template.currency)}
+                          </div>
+                          {upcomingChange && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatAmount(upcomingChange.amount, template.currency)} from {new Date(upcomingChange.effectiveFrom).toLocaleDateString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {template.nextRunDate ? new Date(template.nextRunDate).toLocaleDateString() : "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={status.className}>{status.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end items-center gap-1">
+                            {template.nextRunDate && (
+                              <Switch
+                                checked={template.isActive}
+                                onCheckedChange={(checked) => handleToggle(template, checked)}
+                                title={template.isActive ? "Pause" : "Resume"}
+                              />
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => setEditingTemplate(template)}>
+                              <EditIcon className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDelete(template)}>
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground mt-4">
+              Occurrences that fall in a closed month or while paused are skipped. Resuming continues from today.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <RecurringTemplateModal
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onSuccess={loadTemplates}
+        creditCards={creditCards}
+      />
+      {editingTemplate && (
+        <EditRecurringModal
+          open={!!editingTemplate}
+          onOpenChange={(open) => !open && setEditingTemplate(null)}
+          onSuccess={loadTemplates}
+          template={editingTemplate}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { ArrowLeft, Loader2, Play, RotateCcw } from "lucide-react"
+import { CorpusProjectionChart } from "@/components/retirement/corpus-projection-chart"
+import { WithdrawalRateChart } from "@/components/retirement/withdrawal-rate-chart"
+import { BUCKET_LABELS, DEFAULT_CURRENCY, getCurrencySymbol } from "@/constants"
+import type { RetirementAssumptions, RetirementInputs, RetirementSimulation } from "@/types"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+// Top-level numeric assumptions shown as inputs
+const ASSUMPTION_FIELDS: { key: Exclude<keyof RetirementAssumptions, "buckets">; label: string; step: string }[] = [
+  { key: "currentAge", label: "Current Age", step: "1" },
+  { key: "retirementAge", label: "Retirement Age", step: "1" },
+  { key: "lifeExpectancy", label: "Life Expectancy", step: "1" },
+  { key: "monthlySpend", label: "Monthly Spend (today)", step: "100" },
+  { key: "inflationRate", label: "Inflation (%)", step: "0.1" },
+  { key: "salaryGrowth", label: "Salary Growth (%)", step: "0.1" },
+  { key: "withdrawalRate", label: "Withdrawal Rate (%)", step: "0.1" },
+  { key: "seed", label: "Seed", step: "1" },
+]
+
+export default function RetirementPage() {
+  const [inputs, setInputs] = useState<RetirementInputs | null>(null)
+  const [defaults, setDefaults] = useState<RetirementAssumptions | null>(null)
+  const [assumptions, setAssumptions] = useState<RetirementAssumptions | null>(null)
+  const [simulation, setSimulation] = useState<RetirementSimulation | null>(null)
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+
+  useEffect(() => {
+    const loadProjection = async () => {
+      try {
+        const response = await fetch("/api/retirement")
+        if (response.ok) {
+          const data = await response.json()
+          setInputs(data.inputs)
+          setDefaults(data.assumptions)
+          setAssumptions(data.assumptions)
+          setSimulation(data.simulation)
+          setCurrency(data.currency)
+        } else {
+          toast.error("Failed to load retirement projection")
+        }
+      } catch {
+        toast.error("An error occurred")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    loadProjection()
+  }, [])
+
+  const runSimulation = async () => {
+    if (!assumptions) return
+
+    try {
+      setIsRunning(true)
+      const response = await fetch("/api/retirement", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(assumptions),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to run simulation")
+      }
+      setSimulation(result.simulation)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run simulation")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const updateBucket = (bucket: string, field: "expectedReturn" | "volatility", value: string) => {
+    setAssumptions((current) => current && {
+      ...current,
+      buckets: current.buckets.map((item) => (item.bucket === bucket ? { ...item, [field]: Number(value) } : item)),
+    })
+  }
+
+  const formatAge = (age: number | null) => (age === null ? "Not before retiring" : `${age}`)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white">
+            Retirement &amp; FIRE
+          </h1>
+          <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400">
+            Monte Carlo projection of your investments, SIPs and spending, in today&apos;s money
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/goals">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Goals
+          </Link>
+        </Button>
+      </div>
+
+      {isLoading || !inputs || !assumptions ? (
+        <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded"></div>
+      ) : (
+        <>
+          {simulation && (
+            <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+              <div className="p-4 rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+                <p className="text-sm text-muted-foreground">FIRE Age</p>
+                <p className="text-2xl font-bold">{formatAge(simulation.fireAge.p50)}</p>
+                <p className="text-xs text-muted-foreground">
+                  P10 {formatAge(simulation.fireAge.p10)} • P90 {formatAge(simulation.fireAge.p90)}
+                </p>
+              </div>
+              <div className="p-4 rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+                <p className="text-sm text-muted-foreground">FIRE Number</p>
+                <p className="text-2xl font-bold">{formatAmount(simulation.fireNumber, currency)}</p>
+                <p className="text-xs text-muted-foreground">{simulation.fireProbability.toFixed(0)}% reach it by {assumptions.retirementAge}</p>
+              </div>
+              <div className="p-4 rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+                <p className="text-sm text-muted-foreground">Corpus at {assumptions.retirementAge}</p>
+                <p className="text-2xl font-bold">{formatAmount(simulation.corpusAtRetirement.p50, currency)}</p>
+                <p className="text-xs text-muted-foreground">
+                  P10 {formatAmount(simulation.corpusAtRetirement.p10, currency)} • P90 {formatAmount(simulation.corpusAtRetirement.p90, currency)}
+                </p>
+              </div>
+              <div className="p-4 rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+                <p className="text-sm text-muted-foreground">Lasts to {assumptions.lifeExpectancy}</p>
+                <p className="text-2xl font-bold">{simulation.successProbability.toFixed(0)}%</p>
+                <p className="text-xs text-muted-foreground">withdrawing {assumptions.withdrawalRate}% a year</p>
+              </div>
+            </div>
+          )}
+
+          {/* Assumptions */}
+          <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+            <div className="relative p-6 space-y-4">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Assumptions</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Salary {formatAmount(inputs.monthlySalary, currency)}/month • spend averaged over {inputs.spendMonths} snapshot{inputs.spendMonths === 1 ? "" : "s"}
+                    {simulation && simulation.savingsRate > 0 && ` • ${simulation.savingsRate.toFixed(0)}% of salary in SIPs`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setAssumptions(defaults)} disabled={isRunning}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reset
+                  </Button>
+                  <Button size="sm" onClick={runSimulation} disabled={isRunning}>
+                    {isRunning ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                    Run Simulation
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                {ASSUMPTION_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={field.key}>{field.label}</Label>
+                    <Input
+                      id={field.key}
+                      type="number"
+                      step={field.step}
+                      value={assumptions[field.key]}
+                      onChange={(e) => setAssumptions({ ...assumptions, [field.key]: Number(e.target.value) })}
+                      className="bg-background"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50 dark:bg-gray-900">
+                      <TableHead className="font-semibold">Bucket</TableHead>
+                      <TableHead className="text-right font-semibold">Current Value</TableHead>
+                      <TableHead className="text-right font-semibold">Monthly SIP</TableHead>
+                      <TableHead className="text-right font-semibold">Return (%)</TableHead>
+                      <TableHead className="text-right font-semibold">Volatility (%)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inputs.buckets.map((input) => {
+                      const assumption = assumptions.buckets.find((item) => item.bucket === input.bucket)
+                      return (
+                        <TableRow key={input.bucket} className="hover:bg-gray-50 dark:hover:bg-gray-900/50">
+                          <TableCell>{BUCKET_LABELS[input.bucket] ?? input.bucket}</TableCell>
+                          <TableCell className="text-right">{formatAmount(input.value, currency)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(input.monthlySip, currency)}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              step="0.1"
+                              value={assumption?.expectedReturn ?? 0}
+                              onChange={(e) => updateBucket(input.bucket, "expectedReturn", e.target.value)}
+                              className="w-24 h-8 ml-auto bg-background"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              step="0.1"
+                              value={assumption?.volatility ?? 0}
+                              onChange={(e) => updateBucket(input.bucket, "volatility", e.target.value)}
+                              className="w-24 h-8 ml-auto bg-background"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+
+          {simulation && (
+            <>
+              <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+                <div className="relative p-6 space-y-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Corpus Distribution</h2>
+                    <p className="text-sm text-muted-foreground">
+                      {simulation.paths.toLocaleString("en-IN")} simulated paths; the band covers the 10th to 90th percentile
+                    </p>
+                  </div>
+                  <CorpusProjectionChart
+                    projection={simulation.projection}
+                    retirementAge={assumptions.retirementAge}
+                    fireNumber={simulation.fireNumber}
+                    currency={currency}
+                  />
+                </div>
+              </div>
+
+              <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+                <div className="relative p-6 space-y-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Safe Withdrawal</h2>
+                    <p className="text-sm text-muted-foreground">
+                      Chance the corpus lasts to {assumptions.lifeExpectancy} when the first year&apos;s withdrawal grows with inflation
+                    </p>
+                  </div>
+                  <WithdrawalRateChart rates={simulation.withdrawalRates} selectedRate={assumptions.withdrawalRate} />
+                </div>
+              </div>
+            </>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Buckets grow by independent yearly returns. SIPs step up with the salary until retirement, but never beyond what the salary leaves after spending.
+            The same seed and assumptions always give the same projection.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
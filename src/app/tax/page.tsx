@@ -11,13 +11,25 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
-import { Calculator, TrendingUp, DollarSign, Percent, AlertCircle, Info } from "lucide-react"
+import { Calculator, TrendingUp, DollarSign, Percent, AlertCircle, Info, Scale } from "lucide-react"
+import { RegimeComparisonPanel } from "@/components/tax/regime-comparison"
+import { TAX_REGIMES, TAX_REGIME_LABELS } from "@/constants"
+import type { RegimeComparison, TaxMode, TaxRegime } from "@/types"
 
 interface TaxSetting {
   id: string
-  mode: "PERCENTAGE" | "FIXED" | "HYBRID"
+  mode: TaxMode
   percentage?: number
   fixedAmount?: number
+  regime: TaxRegime
+  section80C?: number
+  section80D?: number
+  section80CCD1B?: number
+  hraReceived?: number
+  rentPaid?: number
+  basicSalary?: number
+  isMetroCity: boolean
+  otherDeductions?: number
   createdAt: string
   updatedAt: string
 }
@@ -28,11 +40,22 @@ interface SalaryInfo {
 }
 
 // Zod schema for tax settings form
+const optionalAmount = z.union([z.number().min(0, "Must be at least 0"), z.nan()]).optional()
+
 const taxFormSchema = z
   .object({
-    mode: z.enum(["PERCENTAGE", "FIXED", "HYBRID"]),
+    mode: z.enum(["PERCENTAGE", "FIXED", "HYBRID", "REGIME"]),
     percentage: z.union([z.number().min(0, "Must be at least 0").max(100, "Must be at most 100"), z.nan()]).optional(),
-    fixedAmount: z.union([z.number().min(0, "Must be at least 0"), z.nan()]).optional(),
+    fixedAmount: optionalAmount,
+    regime: z.enum(["OLD", "NEW"]),
+    section80C: optionalAmount,
+    section80D: optionalAmount,
+    section80CCD1B: optionalAmount,
+    hraReceived: optionalAmount,
+    rentPaid: optionalAmount,
+    basicSalary: optionalAmount,
+    isMetroCity: z.boolean(),
+    otherDeductions: optionalAmount,
   })
   .refine(
     (data) => {
@@ -56,28 +79,49 @@ const taxFormSchema = z
 
 type TaxFormValues = z.infer<typeof taxFormSchema>
 
+type DeductionField = "section80C" | "section80D" | "section80CCD1B" | "hraReceived" | "rentPaid" | "basicSalary" | "otherDeductions"
+
+const DEDUCTION_FIELDS: { name: DeductionField; label: string; placeholder: string; help: string }[] = [
+  { name: "section80C", label: "Section 80C (₹/year)", placeholder: "150000", help: "EPF, PPF, ELSS, life insurance, principal on home loan (max ₹1.5L)" },
+  { name: "section80D", label: "Section 80D (₹/year)", placeholder: "25000", help: "Health insurance premiums for self, family and parents" },
+  { name: "section80CCD1B", label: "Section 80CCD(1B) (₹/year)", placeholder: "50000", help: "Additional NPS contribution (max ₹50K)" },
+  { name: "basicSalary", label: "Basic + DA (₹/year)", placeholder: "600000", help: "Used to compute the HRA exemption" },
+  { name: "hraReceived", label: "HRA Received (₹/year)", placeholder: "240000", help: "House rent allowance paid by your employer" },
+  { name: "rentPaid", label: "Rent Paid (₹/year)", placeholder: "300000", help: "Total rent paid during the financial year" },
+  { name: "otherDeductions", label: "Other Deductions (₹/year)", placeholder: "0", help: "80E, 80G, 80TTA and other eligible deductions" },
+]
+
+const toOptionalNumber = (value?: number) =>
+  value === undefined || value === null || isNaN(value) ? undefined : Number(value)
+
 export default function TaxConfiguration() {
   const [isLoading, setIsLoading] = useState(false)
   const [taxSetting, setTaxSetting] = useState<TaxSetting | null>(null)
   const [currentSalary, setCurrentSalary] = useState<SalaryInfo | null>(null)
+  const [comparison, setComparison] = useState<RegimeComparison | null>(null)
 
   // React Hook Form with Zod validation
   const form = useForm<TaxFormValues>({
     resolver: zodResolver(taxFormSchema),
     defaultValues: {
-      mode: "PERCENTAGE",
+      mode: "REGIME",
       percentage: undefined,
       fixedAmount: undefined,
+      regime: "NEW",
+      isMetroCity: false,
     },
   })
 
   const watchedMode = form.watch("mode")
   const watchedPercentage = form.watch("percentage")
   const watchedFixedAmount = form.watch("fixedAmount")
+  const watchedRegime = form.watch("regime")
+  const watchedIsMetroCity = form.watch("isMetroCity")
 
   useEffect(() => {
     fetchTaxSettings()
     fetchCurrentSalary()
+    fetchComparison()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
@@ -92,6 +136,15 @@ export default function TaxConfiguration() {
             mode: data.mode,
             percentage: data.percentage || undefined,
             fixedAmount: data.fixedAmount || undefined,
+            regime: data.regime || "NEW",
+            section80C: toOptionalNumber(data.section80C),
+            section80D: toOptionalNumber(data.section80D),
+            section80CCD1B: toOptionalNumber(data.section80CCD1B),
+            hraReceived: toOptionalNumber(data.hraReceived),
+            rentPaid: toOptionalNumber(data.rentPaid),
+            basicSalary: toOptionalNumber(data.basicSalary),
+            isMetroCity: data.isMetroCity ?? false,
+            otherDeductions: toOptionalNumber(data.otherDeductions),
           })
         }
       }
@@ -101,6 +154,18 @@ export default function TaxConfiguration() {
     }
   }
 
+  const fetchComparison = async () => {
+    try {
+      const response = await fetch("/api/tax/calculate")
+      if (response.ok) {
+        const data = await response.json()
+        setComparison(data)
+      }
+    } catch (error) {
+      console.error("Failed to fetch regime comparison:", error)
+    }
+  }
+
   const fetchCurrentSalary = async () => {
     try {
       const response = await fetch("/api/profile/salary-history")
@@ -149,10 +214,12 @@ export default function TaxConfiguration() {
       }
 
       const body: {
-        mode: "PERCENTAGE" | "FIXED" | "HYBRID";
+        mode: TaxMode;
         percentage?: number;
         fixedAmount?: number;
-      } = { mode: data.mode }
+        regime?: TaxRegime;
+        isMetroCity?: boolean;
+      } & Partial<Record<DeductionField, number>> = { mode: data.mode }
 
       if (data.mode === "PERCENTAGE" || data.mode === "HYBRID") {
         body.percentage = data.percentage
@@ -162,6 +229,17 @@ export default function TaxConfiguration() {
         body.fixedAmount = data.fixedAmount
       }
 
+      if (data.mode === "REGIME") {
+        body.regime = data.regime
+        body.isMetroCity = data.isMetroCity
+        for (const field of DEDUCTION_FIELDS) {
+          const value = toOptionalNumber(data[field.name])
+          if (value !== undefined) {
+            body[field.name] = value
+          }
+        }
+      }
+
       const response = await fetch("/api/tax", {
         method: "POST",
         headers: {
@@ -173,6 +251,7 @@ export default function TaxConfiguration() {
       if (response.ok) {
         toast.success("Tax settings updated successfully!")
         await fetchTaxSettings()
+        await fetchComparison()
       } else {
         const errorData = await response.json()
         toast.error(errorData.error || "Failed to update tax settings")
@@ -199,6 +278,8 @@ export default function TaxConfiguration() {
       const percentageTax = (monthlySalary * watchedPercentage) / 100
       const fixedTax = watchedFixedAmount
       tax = Math.max(percentageTax, fixedTax)
+    } else if (watchedMode === "REGIME" && comparison) {
+      tax = watchedRegime === "OLD" ? comparison.old.monthlyTax : comparison.new.monthlyTax
     }
 
     return tax
@@ -236,6 +317,7 @@ export default function TaxConfiguration() {
       <Tabs defaultValue="settings" className="space-y-4">
         <TabsList>
           <TabsTrigger value="settings">Tax Settings</TabsTrigger>
+          <TabsTrigger value="regimes">Regime Comparison</TabsTrigger>
           <TabsTrigger value="projections">Projections</TabsTrigger>
         </TabsList>
 
@@ -255,8 +337,22 @@ export default function TaxConfiguration() {
                   <Label>Tax Mode</Label>
                   <RadioGroup
                     value={watchedMode}
-                    onValueChange={(value) => form.setValue("mode", value as "PERCENTAGE" | "FIXED" | "HYBRID")}
+                    onValueChange={(value) => form.setValue("mode", value as TaxMode)}
                   >
+                    {/* Regime Mode */}
+                    <div className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+                      <RadioGroupItem value="REGIME" id="regime-mode" />
+                      <div className="flex-1 space-y-1">
+                        <Label htmlFor="regime-mode" className="font-medium cursor-pointer">
+                          Income Tax Regime (Slab-based)
+                        </Label>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Calculate tax using Indian income tax slabs for the financial year, with standard deduction, rebate u/s 87A, surcharge and cess.
+                        </p>
+                      </div>
+                      <Scale className="h-5 w-5 text-gray-400" />
+                    </div>
+
                     {/* Percentage Mode */}
                     <div className="flex items-start space-x-3 p-4 border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
                       <RadioGroupItem value="PERCENTAGE" id="percentage-mode" />
@@ -353,8 +449,70 @@ export default function TaxConfiguration() {
                   </div>
                 )}
 
+                {watchedMode === "REGIME" && (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Regime</Label>
+                      <RadioGroup
+                        value={watchedRegime}
+                        onValueChange={(value) => form.setValue("regime", value as TaxRegime)}
+                        className="grid grid-cols-1 sm:grid-cols-2 gap-3"
+                      >
+                        {TAX_REGIMES.map((option) => (
+                          <div key={option.value} className="flex items-center space-x-3 p-3 border rounded-lg">
+                            <RadioGroupItem value={option.value} id={`regime-${option.value}`} />
+                            <Label htmlFor={`regime-${option.value}`} className="cursor-pointer">
+                              {option.label}
+                            </Label>
+                            {comparison?.recommended === option.value && (
+                              <Badge variant="secondary" className="ml-auto">Cheaper</Badge>
+                            )}
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </div>
+
+                    <div className="p-4 bg-gray-50 dark:bg-gray-900/40 rounded-lg border space-y-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">Deductions & Exemptions</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">
+                          Only applied under the old regime. The new regime allows the standard deduction alone.
+                        </p>
+                      </div>
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        {DEDUCTION_FIELDS.map((field) => (
+                          <div key={field.name} className="space-y-1">
+                            <Label htmlFor={field.name}>{field.label}</Label>
+                            <Input
+                              id={field.name}
+                              type="number"
+                              step="1"
+                              min="0"
+                              placeholder={field.placeholder}
+                              {...form.register(field.name, { valueAsNumber: true })}
+                            />
+                            <p className="text-xs text-gray-600 dark:text-gray-400">{field.help}</p>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          id="isMetroCity"
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={watchedIsMetroCity}
+                          onChange={(e) => form.setValue("isMetroCity", e.target.checked)}
+                        />
+                        <Label htmlFor="isMetroCity" className="cursor-pointer">
+                          I live in a metro city (Delhi, Mumbai, Kolkata, Chennai)
+                        </Label>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 {/* Real-time Calculation Preview */}
-                {currentSalary && (watchedPercentage !== undefined || watchedFixedAmount !== undefined) && (
+                {currentSalary && (watchedPercentage !== undefined || watchedFixedAmount !== undefined || (watchedMode === "REGIME" && comparison)) && (
                   <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
                     <div className="flex items-start gap-2">
                       <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5" />
@@ -367,6 +525,11 @@ export default function TaxConfiguration() {
                           your tax will be <span className="font-semibold">₹{monthlyTax.toLocaleString()}</span>,
                           leaving <span className="font-semibold">₹{netAfterTax.toLocaleString()}</span> after tax.
                         </p>
+                        {watchedMode === "REGIME" && (
+                          <p className="text-xs text-blue-700 dark:text-blue-300 mt-2">
+                            Based on saved deductions under the {TAX_REGIME_LABELS[watchedRegime]}. Save settings to refresh the estimate.
+                          </p>
+                        )}
                         {watchedMode === "HYBRID" && watchedPercentage !== undefined && watchedFixedAmount !== undefined && (
                           <p className="text-xs text-blue-700 dark:text-blue-300 mt-2">
                             Percentage: ₹{((currentSalary.monthly * watchedPercentage) / 100).toLocaleString()} |
@@ -387,6 +550,10 @@ export default function TaxConfiguration() {
           </div>
         </TabsContent>
 
+        <TabsContent value="regimes">
+          <RegimeComparisonPanel comparison={comparison} selectedRegime={taxSetting?.mode === "REGIME" ? taxSetting.regime : null} />
+        </TabsContent>
+
         <TabsContent value="projections">
           <div className="space-y-6">
             {currentSalary && (
@@ -403,7 +570,9 @@ export default function TaxConfiguration() {
                     </p>
                     <div className="flex items-center space-x-4">
                       <Badge variant="outline" className="text-sm">
-                        {taxSetting?.mode || "Not configured"}
+                        {taxSetting?.mode === "REGIME"
+                          ? TAX_REGIME_LABELS[taxSetting.regime]
+                          : taxSetting?.mode || "Not configured"}
                       </Badge>
                       {taxSetting?.percentage && (
                         <div className="flex items-center space-x-1">
@@ -496,6 +665,7 @@ export default function TaxConfiguration() {
                             {taxSetting?.mode === "PERCENTAGE" && `${taxSetting.percentage}% of monthly salary`}
                             {taxSetting?.mode === "FIXED" && "Fixed amount"}
                             {taxSetting?.mode === "HYBRID" && "Higher of percentage or fixed"}
+                            {taxSetting?.mode === "REGIME" && `${TAX_REGIME_LABELS[taxSetting.regime]} slab tax spread over 12 months`}
                           </p>
                         </div>
                         <div className="text-lg font-bold">-₹{monthlyTax.toLocaleString()}</div>
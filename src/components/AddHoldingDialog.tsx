@@ -10,7 +10,7 @@ import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { toast } from "sonner"
 import { Search, Loader2 } from "lucide-react"
-import { INVESTMENT_BUCKETS } from "@/constants"
+import { CURRENCIES, INVESTMENT_BUCKETS, getCurrencySymbol } from "@/constants"
 import type { SearchResult } from "@/types"
 
 const BUCKETS = INVESTMENT_BUCKETS
@@ -35,7 +35,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
   const [avgCost, setAvgCost] = useState("")
   const [currentPrice, setCurrentPrice] = useState("")
   const [currency, setCurrency] = useState("INR")
-  const [usdInrRate, setUsdInrRate] = useState<number | null>(null)
+  const [inrRate, setInrRate] = useState<number | null>(null)
   const [isManual, setIsManual] = useState(false)
   const [purchaseDate, setPurchaseDate] = useState(new Date().toISOString().split('T')[0])
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
@@ -61,7 +61,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
       setAvgCost("")
       setCurrentPrice("")
       setCurrency("INR")
-      setUsdInrRate(null)
+      setInrRate(null)
       setIsManual(false)
       setPurchaseDate(new Date().toISOString().split('T')[0])
       initialCurrencySet.current = false
@@ -106,28 +106,30 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
     return () => document.removeEventListener("mousedown", handleClickOutside)
   }, [])
 
-  // Auto-set currency based on bucket and fetch USD-INR rate
+  // Auto-set currency based on bucket
   useEffect(() => {
-    if (bucket === "US_STOCK") {
-      setCurrency("USD")
-      // Fetch current USD-INR exchange rate
-      const fetchExchangeRate = async () => {
-        try {
-          const response = await fetch("/api/exchange-rate?from=USD&to=INR")
-          if (response.ok) {
-            const data = await response.json()
-            setUsdInrRate(data.rate)
-          }
-        } catch (error) {
-          console.error("Error fetching exchange rate:", error)
+    setCurrency(bucket === "US_STOCK" ? "USD" : "INR")
+  }, [bucket])
+
+  // Fetch the current INR rate of a foreign currency
+  useEffect(() => {
+    if (currency === "INR") {
+      setInrRate(null)
+      return
+    }
+    const fetchExchangeRate = async () => {
+      try {
+        const response = await fetch(`/api/exchange-rate?from=${currency}&to=INR`)
+        if (response.ok) {
+          const data = await response.json()
+          setInrRate(data.rate)
         }
+      } catch (error) {
+        console.error("Error fetching exchange rate:", error)
       }
-      fetchExchangeRate()
-    } else {
-      setCurrency("INR")
-      setUsdInrRate(null)
     }
-  }, [bucket])
+    fetchExchangeRate()
+  }, [currency])
 
   // Refetch price when currency changes (if we already have a symbol selected)
   useEffect(() => {
@@ -146,7 +148,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
             const priceData = await priceResponse.json()
             if (priceData.price) {
               setCurrentPrice(priceData.price.toString())
-              toast.success(`Updated price: ${currency === "USD" ? "$" : "₹"}${priceData.price}`)
+              toast.success(`Updated price: ${getCurrencySymbol(currency)}${priceData.price}`)
             } else {
               toast.warning("Could not fetch price in selected currency")
             }
@@ -247,7 +249,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
           const priceData = await priceResponse.json()
           if (priceData.price) {
             setCurrentPrice(priceData.price.toString())
-            toast.success(`Current price: ${currency === "USD" ? "$" : "₹"}${priceData.price}`)
+            toast.success(`Current price: ${getCurrencySymbol(currency)}${priceData.price}`)
           } else {
             toast.warning("Could not fetch current price. Please enter manually.")
           }
@@ -301,7 +303,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
         avgCost: parseFloat(avgCost),
         currentPrice: currentPrice ? parseFloat(currentPrice) : null,
         currency,
-        usdInrRate: bucket === "US_STOCK" && currency === "USD" ? usdInrRate : undefined,
+        inrRate: currency !== "INR" ? inrRate : undefined,
         isManual,
         purchaseDate: isManual ? undefined : purchaseDate,
       }
@@ -398,13 +400,16 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="INR">INR (₹)</SelectItem>
-                  <SelectItem value="USD">USD ($)</SelectItem>
+                  {CURRENCIES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
-              {bucket === "US_STOCK" && usdInrRate && (
+              {currency !== "INR" && inrRate && (
                 <p className="text-xs text-muted-foreground">
-                  Current rate: $1 = ₹{usdInrRate.toFixed(2)}
+                  Current rate: {getCurrencySymbol(currency).trim()}1 = ₹{inrRate.toFixed(2)}
                 </p>
               )}
             </div>
@@ -584,7 +589,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="buyPrice">
-                    Total Buy Price ({currency === "USD" ? "$" : "₹"})
+                    Total Buy Price ({getCurrencySymbol(currency).trim()})
                   </Label>
                   <Input
                     id="buyPrice"
@@ -605,7 +610,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
 
                 <div className="space-y-2">
                   <Label htmlFor="avgCost">
-                    Avg Cost Per Unit ({currency === "USD" ? "$" : "₹"})
+                    Avg Cost Per Unit ({getCurrencySymbol(currency).trim()})
                   </Label>
                   <Input
                     id="avgCost"
@@ -668,7 +673,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
 
               <div className="space-y-2">
                 <Label htmlFor="avgCost">
-                  {bucket === "EMERGENCY_FUND" ? "Value" : "Average Cost"} ({currency === "USD" ? "$" : "₹"}) *
+                  {bucket === "EMERGENCY_FUND" ? "Value" : "Average Cost"} ({getCurrencySymbol(currency).trim()}) *
                 </Label>
                 <Input
                   id="avgCost"
@@ -688,7 +693,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
           {(bucket === "CRYPTO" || bucket === "US_STOCK") && (
             <div className="space-y-2">
               <Label htmlFor="currentPrice">
-                Current Price ({currency === "USD" ? "$" : "₹"}) (Optional)
+                Current Price ({getCurrencySymbol(currency).trim()}) (Optional)
               </Label>
               <Input
                 id="currentPrice"
@@ -709,7 +714,7 @@ export function AddHoldingDialog({ open, onOpenChange, onSuccess }: AddHoldingDi
           {bucket !== "EMERGENCY_FUND" && bucket !== "CRYPTO" && bucket !== "US_STOCK" && (
             <div className="space-y-2">
               <Label htmlFor="currentPrice">
-                Current Price ({currency === "USD" ? "$" : "₹"}) (Optional)
+                Current Price ({getCurrencySymbol(currency).trim()}) (Optional)
               </Label>
               <Input
                 id="currentPrice"
@@ -16,7 +16,7 @@ import { Switch } from "@/components/ui/switch"
 import { Loader2, Search } from "lucide-react"
 import { convertToMonthlyAmount, getFrequencyLabel } from "@/lib/frequency-utils"
 import type { SIPFrequency, Holding, SIP, SearchResult, BucketAllocation } from "@/types"
-import { INVESTMENT_BUCKETS } from "@/constants"
+import { CURRENCIES, DEFAULT_CURRENCY, INVESTMENT_BUCKETS, getCurrencySymbol } from "@/constants"
 import {
   Form,
   FormControl,
@@ -56,7 +56,7 @@ const sipFormSchema = z.object({
   startDate: z.string().min(1, "Start date is required"),
   endDate: z.string().optional(),
   description: z.string().max(500, "Description too long").optional(),
-  currency: z.enum(["INR", "USD"]).optional(),
+  currency: z.string().optional(),
   amountInINR: z.boolean().optional(),
 }).refine(
   (data) => {
@@ -93,7 +93,7 @@ const sipEditSchema = z.object({
   endDate: z.string().optional(),
   isActive: z.boolean(),
   description: z.string().max(500, "Description too long").optional(),
-  currency: z.enum(["INR", "USD"]).optional(),
+  currency: z.string().optional(),
   amountInINR: z.boolean().optional(),
 })
 
@@ -230,7 +230,7 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
         endDate: foundSip.endDate ? new Date(foundSip.endDate).toISOString().split("T")[0] : "",
         isActive: foundSip.isActive,
         description: foundSip.description || "",
-        currency: (foundSip.currency as "INR" | "USD") || "INR",
+        currency: foundSip.currency || DEFAULT_CURRENCY,
         amountInINR: foundSip.amountInINR ?? true,
       })
     } catch (error) {
@@ -763,8 +763,11 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="INR">INR (₹)</SelectItem>
-                            <SelectItem value="USD">USD ($)</SelectItem>
+                            {CURRENCIES.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormDescription>
@@ -776,8 +779,8 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                   />
                 )}
 
-                {/* Amount Input Option - Only when USD is selected */}
-                {watchCurrency === "USD" && (watchBucket === "US_STOCK" || watchBucket === "CRYPTO") && (
+                {/* Amount Input Option - Only when a foreign currency is selected */}
+                {watchCurrency && watchCurrency !== "INR" && (watchBucket === "US_STOCK" || watchBucket === "CRYPTO") && (
                   <FormField
                     control={createForm.control}
                     name="amountInINR"
@@ -785,7 +788,7 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                       <FormItem>
                         <FormLabel>Amount Input Option *</FormLabel>
                         <Select
-                          value={field.value ? "INR" : "USD"}
+                          value={field.value ? "INR" : "FOREIGN"}
                           onValueChange={(value) => {
                             field.onChange(value === "INR")
                           }}
@@ -796,14 +799,14 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="USD">Enter amount in USD (Direct)</SelectItem>
-                            <SelectItem value="INR">Enter amount in INR (Will convert to USD)</SelectItem>
+                            <SelectItem value="FOREIGN">Enter amount in {watchCurrency} (Direct)</SelectItem>
+                            <SelectItem value="INR">Enter amount in INR (Will convert to {watchCurrency})</SelectItem>
                           </SelectContent>
                         </Select>
                         <FormDescription>
                           {field.value
-                            ? "You'll enter the amount in INR, which will be used to buy in USD"
-                            : "You'll enter the amount directly in USD"}
+                            ? `You'll enter the amount in INR, which will be used to buy in ${watchCurrency}`
+                            : `You'll enter the amount directly in ${watchCurrency}`}
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -821,9 +824,9 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                     const monthlyAmount = frequency ? convertToMonthlyAmount(amount, frequency) : 0
                     const exceedsLimit = bucketAllocation && monthlyAmount > bucketAllocation.available
 
-                    const isUSDSIP = watchCurrency === "USD" && (watchBucket === "US_STOCK" || watchBucket === "CRYPTO")
-                    const currencySymbol = isUSDSIP && !watchAmountInINR ? "$" : "₹"
-                    const currencyLabel = isUSDSIP && !watchAmountInINR ? "USD" : "INR"
+                    const isForeignSIP = !!watchCurrency && watchCurrency !== "INR" && (watchBucket === "US_STOCK" || watchBucket === "CRYPTO")
+                    const currencyLabel = isForeignSIP && !watchAmountInINR ? watchCurrency! : "INR"
+                    const currencySymbol = getCurrencySymbol(currencyLabel).trim()
 
                     return (
                       <FormItem>
@@ -835,7 +838,7 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                             </span>
                             <Input
                               type="number"
-                              placeholder={isUSDSIP && !watchAmountInINR ? "100" : "5000"}
+                              placeholder={isForeignSIP && !watchAmountInINR ? "100" : "5000"}
                               className={`pl-8 bg-white/50 dark:bg-gray-900/50 backdrop-blur-sm ${exceedsLimit ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
                               step="0.01"
                               {...field}
@@ -845,9 +848,9 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                         </FormControl>
                         <FormDescription>
                           The investment amount per installment
-                          {isUSDSIP && watchAmountInINR && (
+                          {isForeignSIP && watchAmountInINR && (
                             <span className="block mt-1 text-blue-600 dark:text-blue-400">
-                              This INR amount will be converted to USD at execution time
+                              This INR amount will be converted to {watchCurrency} at execution time
                             </span>
                           )}
                           {frequency === "YEARLY" && amount > 0 && (
@@ -1116,8 +1119,11 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="INR">INR (₹)</SelectItem>
-                            <SelectItem value="USD">USD ($)</SelectItem>
+                            {CURRENCIES.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormDescription>
@@ -1129,8 +1135,8 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                   />
                 )}
 
-                {/* Amount Input Option - Only when USD is selected */}
-                {watchCurrency === "USD" && sip?.bucket && (sip.bucket === "US_STOCK" || sip.bucket === "CRYPTO") && (
+                {/* Amount Input Option - Only when a foreign currency is selected */}
+                {watchCurrency && watchCurrency !== "INR" && sip?.bucket && (sip.bucket === "US_STOCK" || sip.bucket === "CRYPTO") && (
                   <FormField
                     control={editForm.control}
                     name="amountInINR"
@@ -1138,7 +1144,7 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                       <FormItem>
                         <FormLabel>Amount Input Option *</FormLabel>
                         <Select
-                          value={field.value ? "INR" : "USD"}
+                          value={field.value ? "INR" : "FOREIGN"}
                           onValueChange={(value) => {
                             field.onChange(value === "INR")
                           }}
@@ -1149,14 +1155,14 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="USD">Enter amount in USD (Direct)</SelectItem>
-                            <SelectItem value="INR">Enter amount in INR (Will convert to USD)</SelectItem>
+                            <SelectItem value="FOREIGN">Enter amount in {watchCurrency} (Direct)</SelectItem>
+                            <SelectItem value="INR">Enter amount in INR (Will convert to {watchCurrency})</SelectItem>
                           </SelectContent>
                         </Select>
                         <FormDescription>
                           {field.value
-                            ? "You'll enter the amount in INR, which will be used to buy in USD"
-                            : "You'll enter the amount directly in USD"}
+                            ? `You'll enter the amount in INR, which will be used to buy in ${watchCurrency}`
+                            : `You'll enter the amount directly in ${watchCurrency}`}
                         </FormDescription>
                         <FormMessage />
                       </FormItem>
@@ -1169,9 +1175,9 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                   control={editForm.control}
                   name="amount"
                   render={({ field }) => {
-                    const isUSDSIP = watchCurrency === "USD" && sip?.bucket && (sip.bucket === "US_STOCK" || sip.bucket === "CRYPTO")
-                    const currencySymbol = isUSDSIP && !watchAmountInINR ? "$" : "₹"
-                    const currencyLabel = isUSDSIP && !watchAmountInINR ? "USD" : "INR"
+                    const isForeignSIP = !!watchCurrency && watchCurrency !== "INR" && sip?.bucket && (sip.bucket === "US_STOCK" || sip.bucket === "CRYPTO")
+                    const currencyLabel = isForeignSIP && !watchAmountInINR ? watchCurrency! : "INR"
+                    const currencySymbol = getCurrencySymbol(currencyLabel).trim()
 
                     return (
                       <FormItem>
@@ -1183,7 +1189,7 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                             </span>
                             <Input
                               type="number"
-                              placeholder={isUSDSIP && !watchAmountInINR ? "100" : "5000"}
+                              placeholder={isForeignSIP && !watchAmountInINR ? "100" : "5000"}
                               className="pl-8 bg-white/50 dark:bg-gray-900/50 backdrop-blur-sm"
                               step="0.01"
                               {...field}
@@ -1192,9 +1198,9 @@ export default function SIPDialog({ open, onOpenChange, mode, sipId, onSuccess }
                         </FormControl>
                         <FormDescription>
                           The investment amount per installment
-                          {isUSDSIP && watchAmountInINR && (
+                          {isForeignSIP && watchAmountInINR && (
                             <span className="block mt-1 text-blue-600 dark:text-blue-400">
-                              This INR amount will be converted to USD at execution time
+                              This INR amount will be converted to {watchCurrency} at execution time
                             </span>
                           )}
                         </FormDescription>
@@ -0,0 +1,55 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AUDIT_IGNORED_FIELDS } from "@/constants"
+import type { AuditLogEntry } from "@/types"
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—"
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+// Fields worth showing: what changed in an update, everything else the row held
+const fieldsOf = (entry: AuditLogEntry) => {
+  if (entry.action === "UPDATE") return entry.changedFields
+  return Object.keys(entry.after ?? entry.before ?? {}).filter(field => !AUDIT_IGNORED_FIELDS.includes(field))
+}
+
+export function AuditChanges({ entry }: { entry: AuditLogEntry }) {
+  const fields = fieldsOf(entry)
+  if (fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field changes recorded</p>
+  }
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/4">Field</TableHead>
+            {entry.action !== "CREATE" && <TableHead>Before</TableHead>}
+            {entry.action !== "DELETE" && <TableHead>After</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map((field) => (
+            <TableRow key={field}>
+              <TableCell className="font-mono text-xs align-top">{field}</TableCell>
+              {entry.action !== "CREATE" && (
+                <TableCell className="text-xs break-all whitespace-normal align-top text-muted-foreground">
+                  {formatValue(entry.before?.[field])}
+                </TableCell>
+              )}
+              {entry.action !== "DELETE" && (
+                <TableCell className="text-xs break-all whitespace-normal align-top">
+                  {formatValue(entry.after?.[field])}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
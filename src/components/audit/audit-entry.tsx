@@ -0,0 +1,66 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ChevronDown, ChevronRight } from "lucide-react"
+import { format } from "date-fns"
+import { AuditChanges } from "@/components/audit/audit-changes"
+import { AUDIT_ACTION_BADGE_COLORS, AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from "@/constants"
+import type { AuditLogEntry } from "@/types"
+
+interface AuditEntryProps {
+  entry: AuditLogEntry
+  currentUserId?: string // Shows "You" for the viewer's own changes
+  showEntity?: boolean
+  defaultOpen?: boolean
+}
+
+/**
+ * Who made a change: you, an administrator acting on the account, another user or a scheduled job
+ */
+export function describeActor(entry: AuditLogEntry, currentUserId?: string) {
+  if (!entry.actorId) return "System"
+  if (currentUserId && entry.actorId === currentUserId) return "You"
+  if (entry.actorIsAdmin) return `Admin (${entry.actorEmail ?? "unknown"})`
+  return entry.actorEmail ?? "Unknown"
+}
+
+export function AuditEntry({ entry, currentUserId, showEntity = false, defaultOpen = false }: AuditEntryProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen)
+
+  return (
+    <div className="rounded-lg border border-border/50 p-3 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge className={AUDIT_ACTION_BADGE_COLORS[entry.action]}>
+              {AUDIT_ACTION_LABELS[entry.action]}
+            </Badge>
+            {showEntity && (
+              <span className="font-medium">{AUDIT_ENTITY_LABELS[entry.entity]}</span>
+            )}
+            {entry.operation && (
+              <span className="text-sm text-muted-foreground">{entry.operation}</span>
+            )}
+            {entry.actorIsAdmin && <Badge variant="outline">By admin</Badge>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {describeActor(entry, currentUserId)} · {format(new Date(entry.createdAt), "d MMM yyyy, HH:mm:ss")}
+          </p>
+          {showEntity && (
+            <p className="text-xs text-muted-foreground font-mono break-all">
+              {entry.entityId}
+              {entry.userEmail && ` · ${entry.userEmail}`}
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)}>
+          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          {entry.action === "UPDATE" ? `${entry.changedFields.length} changed` : "Details"}
+        </Button>
+      </div>
+      {isOpen && <AuditChanges entry={entry} />}
+    </div>
+  )
+}
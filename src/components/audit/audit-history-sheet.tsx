@@ -0,0 +1,73 @@
+"use client"
+
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { History } from "lucide-react"
+import { toast } from "sonner"
+import { AuditEntry } from "@/components/audit/audit-entry"
+import { AUDIT_ENTITY_LABELS } from "@/constants"
+import type { AuditEntity, AuditLogEntry } from "@/types"
+
+interface AuditHistoryButtonProps {
+  entity: AuditEntity
+  entityId: string
+  title?: string // Name of the record, shown in the drawer header
+}
+
+/**
+ * History button opening a drawer with every recorded change of one record, newest first
+ */
+export function AuditHistoryButton({ entity, entityId, title }: AuditHistoryButtonProps) {
+  const { data: session } = useSession()
+  const [history, setHistory] = useState<AuditLogEntry[] | null>(null)
+
+  const loadHistory = async () => {
+    setHistory(null)
+    try {
+      const params = new URLSearchParams({ entity, entityId })
+      const response = await fetch(`/api/audit?${params.toString()}`)
+      if (!response.ok) throw new Error("Failed to fetch history")
+      setHistory(await response.json())
+    } catch (error) {
+      console.error("Error fetching history:", error)
+      toast.error("Failed to load history")
+      setHistory([])
+    }
+  }
+
+  return (
+    <Sheet onOpenChange={(open) => open && loadHistory()}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" title="History">
+          <History className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>{AUDIT_ENTITY_LABELS[entity]} History</SheetTitle>
+          <SheetDescription>{title ?? "Every change recorded for this record"}</SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+          {history === null ? (
+            <div className="animate-pulse h-32 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+          ) : (
+            history.map((entry) => (
+              <AuditEntry key={entry.id} entry={entry} currentUserId={session?.user.id} />
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -26,6 +26,7 @@ import { toast } from "sonner"
 import { Loader2, User, Calendar, Plus, TrendingUp, ChevronDown, ChevronUp } from "lucide-react"
 import { Checkbox } from "@/components/ui/checkbox"
 import { format } from "date-fns"
+import { CURRENCIES, DEFAULT_CURRENCY, getCurrencySymbol } from "@/constants"
 
 const fundFormSchema = z.object({
   lenderName: z.string().min(1, "Lender name is required"),
@@ -37,6 +38,7 @@ const fundFormSchema = z.object({
       (val) => !isNaN(Number(val)) && Number(val) > 0,
       "Borrowed amount must be a positive number"
     ),
+  currency: z.string().min(1, "Currency is required"),
   borrowedDate: z.string().min(1, "Borrowed date is required"),
   expectedReturnDate: z.string().optional(),
   transactionIds: z.array(z.string()).optional(),
@@ -87,6 +89,7 @@ interface AddFundModalProps {
     lenderName: string
     memberId?: string | null
     borrowedAmount: number
+    currency: string
     borrowedDate: string
     expectedReturnDate?: string | null
     transactionIds?: string[]
@@ -123,11 +126,13 @@ export function AddFundModal({
   } = useForm<FundFormData>({
     resolver: zodResolver(fundFormSchema),
     defaultValues: {
+      currency: DEFAULT_CURRENCY,
       borrowedDate: new Date().toISOString().split("T")[0],
     },
   })
 
   const memberId = watch("memberId")
+  const currency = watch("currency")
 
   const fetchMembers = async () => {
     try {
@@ -238,6 +243,7 @@ export function AddFundModal({
         setValue("lenderName", fund.lenderName)
         setValue("memberId", fund.memberId || undefined)
         setValue("borrowedAmount", fund.borrowedAmount.toString())
+        setValue("currency", fund.currency)
         setValue("borrowedDate", fund.borrowedDate.split("T")[0])
         setValue(
           "expectedReturnDate",
@@ -251,6 +257,7 @@ export function AddFundModal({
         setValue("notes", fund.notes || "")
       } else {
         reset({
+          currency: DEFAULT_CURRENCY,
           borrowedDate: new Date().toISOString().split("T")[0],
           memberId: undefined,
           transactionIds: [],
@@ -269,6 +276,7 @@ export function AddFundModal({
         lenderName: data.lenderName,
         memberId: data.memberId || undefined,
         borrowedAmount: Number(data.borrowedAmount),
+        currency: data.currency,
         borrowedDate: data.borrowedDate,
         expectedReturnDate: data.expectedReturnDate || undefined,
         transactionIds: selectedTransactions,
@@ -470,7 +478,7 @@ export function AddFundModal({
                 </Label>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                    ₹
+                    {getCurrencySymbol(currency)}
                   </span>
                   <Input
                     id="borrowedAmount"
@@ -488,6 +496,24 @@ export function AddFundModal({
                 )}
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="currency">
+                  Currency <span className="text-destructive">*</span>
+                </Label>
+                <Select value={currency} onValueChange={(value) => setValue("currency", value)}>
+                  <SelectTrigger id="currency" className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="borrowedDate">
                   Borrowed Date <span className="text-destructive">*</span>
@@ -603,7 +629,7 @@ export function AddFundModal({
                               {txn.symbol} - {txn.name}
                             </p>
                             <p className="text-xs text-muted-foreground">
-                              {txn.transactionType} • {txn.qty} @ {txn.currency === "USD" ? "$" : "₹"}{txn.price.toLocaleString()}
+                              {txn.transactionType} • {txn.qty} @ {getCurrencySymbol(txn.currency)}{txn.price.toLocaleString()}
                             </p>
                             <p className="text-xs text-muted-foreground">
                               {format(new Date(txn.purchaseDate), "PP")}
@@ -611,11 +637,13 @@ export function AddFundModal({
                           </div>
                           <div className="text-right">
                             <p className="font-semibold text-sm">
-                              ₹{(txn.currency === "USD" && txn.amountInr ? txn.amountInr : txn.amount).toLocaleString()}
+                              {txn.currency !== "INR" && txn.amountInr
+                                ? `₹${txn.amountInr.toLocaleString()}`
+                                : `${getCurrencySymbol(txn.currency)}${txn.amount.toLocaleString()}`}
                             </p>
-                            {txn.currency === "USD" && txn.amountInr && (
+                            {txn.currency !== "INR" && txn.amountInr && (
                               <p className="text-xs text-muted-foreground">
-                                ${txn.amount.toLocaleString()}
+                                {getCurrencySymbol(txn.currency)}{txn.amount.toLocaleString()}
                               </p>
                             )}
                             <p className="text-xs text-muted-foreground">
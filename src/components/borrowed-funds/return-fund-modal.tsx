@@ -17,6 +17,7 @@ import {
 import { Textarea } from "@/components/ui/textarea"
 import { toast } from "sonner"
 import { Loader2, IndianRupee, CheckCircle } from "lucide-react"
+import { getCurrencySymbol } from "@/constants"
 
 const returnFormSchema = z.object({
   returnAmount: z
@@ -41,6 +42,7 @@ interface ReturnFundModalProps {
     lenderName: string
     borrowedAmount: number
     returnedAmount: number
+    currency: string
   }
 }
 
@@ -53,6 +55,7 @@ export function ReturnFundModal({
   const [isLoading, setIsLoading] = useState(false)
 
   const remainingBalance = fund.borrowedAmount - fund.returnedAmount
+  const currencySymbol = getCurrencySymbol(fund.currency)
 
   const {
     register,
@@ -133,7 +136,7 @@ export function ReturnFundModal({
                 Total Borrowed
               </span>
               <span className="font-semibold">
-                ₹{fund.borrowedAmount.toLocaleString()}
+                {currencySymbol}{fund.borrowedAmount.toLocaleString()}
               </span>
             </div>
             <div className="flex justify-between items-center">
@@ -141,14 +144,14 @@ export function ReturnFundModal({
                 Already Returned
               </span>
               <span className="font-semibold text-green-500">
-                ₹{fund.returnedAmount.toLocaleString()}
+                {currencySymbol}{fund.returnedAmount.toLocaleString()}
               </span>
             </div>
             <div className="pt-3 border-t border-border/50">
               <div className="flex justify-between items-center">
                 <span className="font-medium">Outstanding Balance</span>
                 <span className="text-xl font-bold text-orange-500">
-                  ₹{remainingBalance.toLocaleString()}
+                  {currencySymbol}{remainingBalance.toLocaleString()}
                 </span>
               </div>
             </div>
@@ -162,7 +165,7 @@ export function ReturnFundModal({
               </Label>
               <div className="relative">
                 <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                  ₹
+                  {currencySymbol.trim()}
                 </span>
                 <Input
                   id="returnAmount"
@@ -283,7 +286,7 @@ export function ReturnFundModal({
                         New Balance After Return
                       </span>
                       <span className="font-bold text-lg">
-                        ₹{newBalance.toLocaleString()}
+                        {currencySymbol}{newBalance.toLocaleString()}
                       </span>
                     </div>
                     <div className="flex justify-between items-center text-sm">
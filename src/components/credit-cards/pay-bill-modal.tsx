@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { getCurrencySymbol } from "@/constants"
+import type { CardStatement } from "@/types"
+
+const paymentSchema = z.object({
+  amount: z.string().min(1, "Amount is required").refine(
+    (val) => !isNaN(Number(val)) && Number(val) > 0,
+    "Amount must be a positive number"
+  ),
+  paidOn: z.string().min(1, "Payment date is required"),
+  notes: z.string().optional(),
+})
+
+type PaymentFormData = z.infer<typeof paymentSchema>
+
+interface PayBillModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  statement: CardStatement | null
+  currency: string
+  onSuccess?: () => void
+}
+
+export function PayBillModal({ open, onOpenChange, statement, currency, onSuccess }: PayBillModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const currencySymbol = getCurrencySymbol(currency)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    reset,
+  } = useForm<PaymentFormData>({
+    resolver: zodResolver(paymentSchema),
+  })
+
+  useEffect(() => {
+    if (open && statement) {
+      reset({
+        amount: statement.outstanding.toString(),
+        paidOn: new Date().toISOString().split("T")[0],
+        notes: "",
+      })
+    }
+  }, [open, statement, reset])
+
+  if (!statement) return null
+
+  const remainingMinimum = Math.max(0, statement.minimumDue - statement.paidAmount)
+
+  const onSubmit = async (data: PaymentFormData) => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(`/api/credit-cards/statements/${statement.id}/pay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: Number(data.amount),
+          paidOn: data.paidOn,
+          notes: data.notes || undefined,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to record payment")
+      }
+
+      toast.success(result.status === "PAID" ? "Bill paid in full" : "Payment recorded")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error("Error recording card payment:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to record payment")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Pay Bill
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {statement.creditCard
+              ? `${statement.creditCard.bank} ${statement.creditCard.cardName} •••• ${statement.creditCard.lastFourDigits}, `
+              : ""}
+            due {new Date(statement.dueDate).toLocaleDateString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="p-4 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total Due</span>
+              <span className="font-semibold">{currencySymbol}{statement.totalDue.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Minimum Due</span>
+              <span className="font-semibold">{currencySymbol}{statement.minimumDue.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Already Paid</span>
+              <span className="font-semibold text-green-600 dark:text-green-400">{currencySymbol}{statement.paidAmount.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-border/50">
+              <span className="text-muted-foreground">Outstanding</span>
+              <span className="font-bold">{currencySymbol}{statement.outstanding.toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount ({currencySymbol.trim()})</Label>
+              <Input id="amount" {...register("amount")} type="number" step="0.01" className="bg-background" />
+              {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => setValue("amount", statement.outstanding.toString())}>
+                  Full Outstanding
+                </Button>
+                {remainingMinimum > 0 && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => setValue("amount", remainingMinimum.toString())}>
+                    Minimum Due
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="paidOn">Paid On</Label>
+              <Input id="paidOn" {...register("paidOn")} type="date" className="bg-background" />
+              {errors.paidOn && <p className="text-sm text-destructive">{errors.paidOn.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Textarea id="notes" {...register("notes")} rows={2} className="bg-background resize-none" />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Record Payment"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { CheckCircle2, Loader2 } from "lucide-react"
+import { getCurrencySymbol } from "@/constants"
+import type { CardReconciliation, CardStatement } from "@/types"
+
+interface ReconcileStatementModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  statement: CardStatement | null
+  currency: string
+}
+
+export function ReconcileStatementModal({ open, onOpenChange, statement, currency }: ReconcileStatementModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [result, setResult] = useState<CardReconciliation | null>(null)
+  const [isReconciling, setIsReconciling] = useState(false)
+  const currencySymbol = getCurrencySymbol(currency)
+
+  useEffect(() => {
+    if (open) {
+      setFile(null)
+      setResult(null)
+    }
+  }, [open])
+
+  if (!statement) return null
+
+  const formatAmount = (value: number) => `${currencySymbol}${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+
+  const handleReconcile = async () => {
+    if (!file) {
+      toast.error("Choose the bank's statement file")
+      return
+    }
+
+    try {
+      setIsReconciling(true)
+      const formData = new FormData()
+      formData.append("file", file)
+
+      const response = await fetch(`/api/credit-cards/statements/${statement.id}/reconcile`, {
+        method: "POST",
+        body: formData,
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to reconcile statement")
+      }
+
+      setResult(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reconcile statement")
+    } finally {
+      setIsReconciling(false)
+    }
+  }
+
+  const isBalanced = result !== null
+    && result.missingFromApp.length === 0
+    && result.missingFromStatement.length === 0
+    && Math.abs(result.difference) < 0.01
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Reconcile Statement
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Compare the card expenses recorded for {new Date(statement.periodStart).toLocaleDateString()} – {new Date(statement.periodEnd).toLocaleDateString()} with the bank&apos;s statement. Nothing is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="reconcile-statement">Statement File</Label>
+              <Input
+                id="reconcile-statement"
+                type="file"
+                accept=".csv,.ofx,.qfx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="bg-background"
+              />
+            </div>
+            <Button onClick={handleReconcile} disabled={isReconciling || !file}>
+              {isReconciling ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Reconciling...
+                </>
+              ) : (
+                "Reconcile"
+              )}
+            </Button>
+          </div>
+
+          {result && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-3 gap-3 text-sm">
+                <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                  <p className="text-muted-foreground">On Statement</p>
+                  <p className="font-semibold">{formatAmount(result.statementCharges)}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                  <p className="text-muted-foreground">Recorded</p>
+                  <p className="font-semibold">{formatAmount(result.recordedSpend)}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50">
+                  <p className="text-muted-foreground">Difference</p>
+                  <p className={`font-semibold ${Math.abs(result.difference) < 0.01 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                    {formatAmount(result.difference)}
+                  </p>
+                </div>
+              </div>
+
+              {isBalanced && (
+                <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Every charge on the statement matches a recorded expense
+                </div>
+              )}
+
+              {result.missingFromApp.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">
+                    Not Recorded <Badge variant="destructive" className="ml-1">{result.missingFromApp.length}</Badge>
+                  </h3>
+                  <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+                    {result.missingFromApp.map((row) => (
+                      <div key={row.rowNumber} className="flex justify-between gap-3 p-3 text-sm">
+                        <div className="min-w-0">
+                          <p className="truncate">{row.description}</p>
+                          <p className="text-xs text-muted-foreground">{new Date(row.date).toLocaleDateString()}</p>
+                        </div>
+                        <span className="font-medium whitespace-nowrap">{formatAmount(row.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.missingFromStatement.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">
+                    Not on Statement <Badge variant="secondary" className="ml-1">{result.missingFromStatement.length}</Badge>
+                  </h3>
+                  <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+                    {result.missingFromStatement.map((expense) => (
+                      <div key={expense.id} className="flex justify-between gap-3 p-3 text-sm">
+                        <div className="min-w-0">
+                          <p className="truncate">{expense.title}</p>
+                          <p className="text-xs text-muted-foreground">{new Date(expense.date).toLocaleDateString()}</p>
+                        </div>
+                        <span className="font-medium whitespace-nowrap">{formatAmount(expense.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {result.matched.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">
+                    Matched <Badge variant="outline" className="ml-1">{result.matched.length}</Badge>
+                  </h3>
+                  <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+                    {result.matched.map((match) => (
+                      <div key={match.expense.id} className="flex justify-between gap-3 p-3 text-sm">
+                        <div className="min-w-0">
+                          <p className="truncate">{match.expense.title}</p>
+                          <p className="text-xs text-muted-foreground truncate">{match.description}</p>
+                        </div>
+                        <span className="font-medium whitespace-nowrap">{formatAmount(match.expense.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { getCurrencySymbol } from "@/constants"
+import type { CardRewardSummary } from "@/types"
+
+const redemptionSchema = z.object({
+  points: z.string().min(1, "Points are required").refine(
+    (val) => !isNaN(Number(val)) && Number(val) > 0,
+    "Points must be a positive number"
+  ),
+  value: z.string().min(1, "Value is required").refine(
+    (val) => !isNaN(Number(val)) && Number(val) >= 0,
+    "Value must be zero or more"
+  ),
+  redeemedOn: z.string().min(1, "Redemption date is required"),
+  notes: z.string().optional(),
+})
+
+type RedemptionFormData = z.infer<typeof redemptionSchema>
+
+interface RedeemRewardsModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  summary: CardRewardSummary | null
+  currency: string
+  onSuccess?: () => void
+}
+
+export function RedeemRewardsModal({ open, onOpenChange, summary, currency, onSuccess }: RedeemRewardsModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const currencySymbol = getCurrencySymbol(currency)
+  const pointValue = summary?.program?.pointValue ?? 1
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    reset,
+  } = useForm<RedemptionFormData>({
+    resolver: zodResolver(redemptionSchema),
+  })
+
+  useEffect(() => {
+    if (open && summary) {
+      reset({
+        points: summary.availablePoints.toString(),
+        value: summary.availableValue.toString(),
+        redeemedOn: new Date().toISOString().split("T")[0],
+        notes: "",
+      })
+    }
+  }, [open, summary, reset])
+
+  if (!summary) return null
+
+  const isCashback = summary.program?.rewardType === "CASHBACK"
+
+  const onSubmit = async (data: RedemptionFormData) => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch("/api/credit-cards/rewards/redemptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          creditCardId: summary.creditCardId,
+          points: Number(data.points),
+          value: Number(data.value),
+          redeemedOn: data.redeemedOn,
+          notes: data.notes || undefined,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to redeem rewards")
+      }
+
+      toast.success(isCashback ? "Cashback redeemed" : "Points redeemed")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error("Error redeeming rewards:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to redeem rewards")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            {isCashback ? "Redeem Cashback" : "Redeem Points"}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {summary.bank} {summary.cardName} •••• {summary.lastFourDigits}, {summary.availablePoints.toLocaleString()} {isCashback ? "cashback" : "points"} available
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="points">{isCashback ? `Cashback (${currencySymbol.trim()})` : "Points"}</Label>
+                <Input
+                  id="points"
+                  {...register("points", {
+                    onChange: (e) => {
+                      const points = Number(e.target.value)
+                      if (!isNaN(points)) setValue("value", (Math.round(points * pointValue * 100) / 100).toString())
+                    },
+                  })}
+                  type="number"
+                  step="0.01"
+                  className="bg-background"
+                />
+                {errors.points && <p className="text-sm text-destructive">{errors.points.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="value">Redeemed For ({currencySymbol.trim()})</Label>
+                <Input id="value" {...register("value")} type="number" step="0.01" className="bg-background" />
+                {errors.value && <p className="text-sm text-destructive">{errors.value.message}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="redeemedOn">Redeemed On</Label>
+              <Input id="redeemedOn" {...register("redeemedOn")} type="date" className="bg-background" />
+              {errors.redeemedOn && <p className="text-sm text-destructive">{errors.redeemedOn.message}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Textarea id="notes" {...register("notes")} rows={2} placeholder="e.g. Statement credit, air miles" className="bg-background resize-none" />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Redeem"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,375 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { CARD_MILESTONE_PERIODS, CARD_REWARD_TYPES, getCurrencySymbol } from "@/constants"
+import type { CardMilestonePeriod, CardRewardProgram, CardRewardType } from "@/types"
+
+const positiveNumber = (message: string) =>
+  z.string().min(1, message).refine((val) => !isNaN(Number(val)) && Number(val) > 0, message)
+
+const optionalPositiveNumber = (message: string) =>
+  z.string().optional().refine((val) => !val || (!isNaN(Number(val)) && Number(val) > 0), message)
+
+const programSchema = z.object({
+  rewardType: z.enum(["POINTS", "CASHBACK"]),
+  spendUnit: positiveNumber("Spend per reward must be a positive number"),
+  pointsPerUnit: z.string().min(1, "Reward rate is required").refine(
+    (val) => !isNaN(Number(val)) && Number(val) >= 0,
+    "Reward rate must be zero or more"
+  ),
+  pointValue: positiveNumber("Point value must be a positive number"),
+  monthlyCap: optionalPositiveNumber("Cap must be a positive number"),
+  multipliers: z.array(z.object({
+    category: z.string().trim().min(1, "Category is required"),
+    multiplier: z.string().min(1, "Multiplier is required").refine(
+      (val) => !isNaN(Number(val)) && Number(val) >= 0,
+      "Multiplier must be zero or more"
+    ),
+    monthlyCap: optionalPositiveNumber("Cap must be a positive number"),
+  })),
+  milestones: z.array(z.object({
+    period: z.enum(["CYCLE", "YEAR"]),
+    spendThreshold: positiveNumber("Spend must be a positive number"),
+    bonusPoints: positiveNumber("Bonus must be a positive number"),
+    description: z.string().optional(),
+  })),
+})
+
+type ProgramFormData = z.infer<typeof programSchema>
+
+interface RewardProgramModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  card: { id: string; bank: string; cardName: string; lastFourDigits: string } | null
+  program: CardRewardProgram | null
+  currency: string
+  onSuccess?: () => void
+}
+
+const toOptionalNumber = (value?: string) => (value ? Number(value) : null)
+
+export function RewardProgramModal({ open, onOpenChange, card, program, currency, onSuccess }: RewardProgramModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isRemoving, setIsRemoving] = useState(false)
+  const currencySymbol = getCurrencySymbol(currency).trim()
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch,
+    reset,
+  } = useForm<ProgramFormData>({
+    resolver: zodResolver(programSchema),
+  })
+
+  const multipliers = useFieldArray({ control, name: "multipliers" })
+  const milestones = useFieldArray({ control, name: "milestones" })
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        rewardType: program?.rewardType ?? "POINTS",
+        spendUnit: program ? program.spendUnit.toString() : "100",
+        pointsPerUnit: program ? program.pointsPerUnit.toString() : "",
+        pointValue: program ? program.pointValue.toString() : "0.25",
+        monthlyCap: program?.monthlyCap?.toString() ?? "",
+        multipliers: (program?.multipliers ?? []).map((multiplier) => ({
+          category: multiplier.category,
+          multiplier: multiplier.multiplier.toString(),
+          monthlyCap: multiplier.monthlyCap?.toString() ?? "",
+        })),
+        milestones: (program?.milestones ?? []).map((milestone) => ({
+          period: milestone.period,
+          spendThreshold: milestone.spendThreshold.toString(),
+          bonusPoints: milestone.bonusPoints.toString(),
+          description: milestone.description ?? "",
+        })),
+      })
+    }
+  }, [open, program, reset])
+
+  if (!card) return null
+
+  const rewardType = watch("rewardType")
+  const isCashback = rewardType === "CASHBACK"
+  const unitLabel = isCashback ? currencySymbol : "points"
+
+  const onSubmit = async (data: ProgramFormData) => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(`/api/credit-cards/${card.id}/rewards`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rewardType: data.rewardType,
+          spendUnit: Number(data.spendUnit),
+          pointsPerUnit: Number(data.pointsPerUnit),
+          pointValue: data.rewardType === "CASHBACK" ? 1 : Number(data.pointValue),
+          monthlyCap: toOptionalNumber(data.monthlyCap),
+          multipliers: data.multipliers.map((multiplier) => ({
+            category: multiplier.category,
+            multiplier: Number(multiplier.multiplier),
+            monthlyCap: toOptionalNumber(multiplier.monthlyCap),
+          })),
+          milestones: data.milestones.map((milestone) => ({
+            period: milestone.period,
+            spendThreshold: Number(milestone.spendThreshold),
+            bonusPoints: Number(milestone.bonusPoints),
+            description: milestone.description || null,
+          })),
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save reward program")
+      }
+
+      toast.success(program ? "Reward program updated" : "Reward program added")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error("Error saving reward program:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save reward program")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!confirm("Remove this card's reward program? Earned points are dropped; redemptions are kept.")) return
+
+    try {
+      setIsRemoving(true)
+      const response = await fetch(`/api/credit-cards/${card.id}/rewards`, { method: "DELETE" })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to remove reward program")
+      }
+
+      toast.success("Reward program removed")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove reward program")
+    } finally {
+      setIsRemoving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Reward Program
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {card.bank} {card.cardName} •••• {card.lastFourDigits}. Categories are expense tags; use auto-categorisation rules to tag merchants.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Reward Type</Label>
+                <Select value={rewardType} onValueChange={(value) => setValue("rewardType", value as CardRewardType)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CARD_REWARD_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isCashback && (
+                <div className="space-y-2">
+                  <Label htmlFor="pointValue">Value per Point ({currencySymbol})</Label>
+                  <Input id="pointValue" {...register("pointValue")} type="number" step="0.0001" className="bg-background" />
+                  {errors.pointValue && <p className="text-sm text-destructive">{errors.pointValue.message}</p>}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pointsPerUnit">{isCashback ? `Cashback (${currencySymbol})` : "Points"}</Label>
+                <Input id="pointsPerUnit" {...register("pointsPerUnit")} type="number" step="0.0001" className="bg-background" />
+                {errors.pointsPerUnit && <p className="text-sm text-destructive">{errors.pointsPerUnit.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="spendUnit">Per Spend ({currencySymbol})</Label>
+                <Input id="spendUnit" {...register("spendUnit")} type="number" step="0.01" className="bg-background" />
+                {errors.spendUnit && <p className="text-sm text-destructive">{errors.spendUnit.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="monthlyCap">Cycle Cap ({unitLabel})</Label>
+                <Input id="monthlyCap" {...register("monthlyCap")} type="number" step="0.01" placeholder="No cap" className="bg-background" />
+                {errors.monthlyCap && <p className="text-sm text-destructive">{errors.monthlyCap.message}</p>}
+              </div>
+            </div>
+
+            {/* Category multipliers */}
+            <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Category Multipliers</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => multipliers.append({ category: "", multiplier: "", monthlyCap: "" })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {multipliers.fields.length === 0 && (
+                <p className="text-xs text-muted-foreground">Every expense earns the base rate. Use 0x to exclude a category, e.g. fuel or rent.</p>
+              )}
+              {multipliers.fields.map((field, index) => (
+                <div key={field.id} className="grid grid-cols-[1fr_6rem_8rem_auto] gap-2 items-start">
+                  <div>
+                    <Input {...register(`multipliers.${index}.category`)} placeholder="Tag, e.g. dining" className="bg-background" />
+                    {errors.multipliers?.[index]?.category && (
+                      <p className="text-xs text-destructive">{errors.multipliers[index]?.category?.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Input {...register(`multipliers.${index}.multiplier`)} type="number" step="0.01" placeholder="x" className="bg-background" />
+                    {errors.multipliers?.[index]?.multiplier && (
+                      <p className="text-xs text-destructive">{errors.multipliers[index]?.multiplier?.message}</p>
+                    )}
+                  </div>
+                  <Input {...register(`multipliers.${index}.monthlyCap`)} type="number" step="0.01" placeholder="Extra cap" className="bg-background" />
+                  <Button type="button" variant="ghost" size="sm" onClick={() => multipliers.remove(index)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Milestones */}
+            <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Milestone Benefits</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => milestones.append({ period: "YEAR", spendThreshold: "", bonusPoints: "", description: "" })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {milestones.fields.map((field, index) => (
+                <div key={field.id} className="grid grid-cols-[10rem_1fr_1fr_auto] gap-2 items-start">
+                  <Select
+                    value={watch(`milestones.${index}.period`)}
+                    onValueChange={(value) => setValue(`milestones.${index}.period`, value as CardMilestonePeriod)}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CARD_MILESTONE_PERIODS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div>
+                    <Input
+                      {...register(`milestones.${index}.spendThreshold`)}
+                      type="number"
+                      step="0.01"
+                      placeholder={`Spend (${currencySymbol})`}
+                      className="bg-background"
+                    />
+                    {errors.milestones?.[index]?.spendThreshold && (
+                      <p className="text-xs text-destructive">{errors.milestones[index]?.spendThreshold?.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Input
+                      {...register(`milestones.${index}.bonusPoints`)}
+                      type="number"
+                      step="0.01"
+                      placeholder={`Bonus (${unitLabel})`}
+                      className="bg-background"
+                    />
+                    {errors.milestones?.[index]?.bonusPoints && (
+                      <p className="text-xs text-destructive">{errors.milestones[index]?.bonusPoints?.message}</p>
+                    )}
+                  </div>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => milestones.remove(index)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            {program && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleRemove}
+                className="text-red-600 hover:text-red-700"
+                disabled={isSubmitting || isRemoving}
+              >
+                {isRemoving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Remove"}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || isRemoving} className="flex-1">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Program"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
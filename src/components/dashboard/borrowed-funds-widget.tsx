@@ -11,6 +11,7 @@ import {
   ArrowRight,
   User,
 } from "lucide-react"
+import { DEFAULT_CURRENCY, getCurrencySymbol } from "@/constants"
 
 interface BorrowedFund {
   id: string
@@ -18,6 +19,13 @@ interface BorrowedFund {
   borrowedAmount: number
   returnedAmount: number
   profitLoss: number | null
+  currency: string
+  base: {
+    currency: string
+    borrowedAmount: number
+    returnedAmount: number
+    profitLoss: number
+  }
   investedInHolding: {
     symbol: string
     name: string
@@ -34,18 +42,19 @@ export function BorrowedFundsWidget({ funds }: BorrowedFundsWidgetProps) {
   )
 
   const totalBorrowed = activeFunds.reduce(
-    (sum, f) => sum + f.borrowedAmount,
+    (sum, f) => sum + f.base.borrowedAmount,
     0
   )
   const totalReturned = activeFunds.reduce(
-    (sum, f) => sum + f.returnedAmount,
+    (sum, f) => sum + f.base.returnedAmount,
     0
   )
   const totalOutstanding = totalBorrowed - totalReturned
   const totalProfit = activeFunds.reduce(
-    (sum, f) => sum + (f.profitLoss || 0),
+    (sum, f) => sum + f.base.profitLoss,
     0
   )
+  const currencySymbol = getCurrencySymbol(funds[0]?.base.currency ?? DEFAULT_CURRENCY)
 
   if (activeFunds.length === 0) {
     return null
@@ -75,7 +84,7 @@ export function BorrowedFundsWidget({ funds }: BorrowedFundsWidgetProps) {
           <div className="space-y-1">
             <p className="text-xs text-muted-foreground">Outstanding</p>
             <p className="text-lg font-semibold">
-              ₹{(totalOutstanding / 1000).toFixed(1)}k
+              {currencySymbol}{(totalOutstanding / 1000).toFixed(1)}k
             </p>
           </div>
           <div className="space-y-1">
@@ -88,7 +97,7 @@ export function BorrowedFundsWidget({ funds }: BorrowedFundsWidgetProps) {
               ) : (
                 <TrendingDown className="h-4 w-4" />
               )}
-              {totalProfit >= 0 ? "+" : ""}₹{Math.abs(totalProfit).toLocaleString()}
+              {totalProfit >= 0 ? "+" : ""}{currencySymbol}{Math.abs(totalProfit).toLocaleString()}
             </p>
           </div>
         </div>
@@ -114,7 +123,7 @@ export function BorrowedFundsWidget({ funds }: BorrowedFundsWidgetProps) {
                     </p>
                   </div>
                   <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                    <span>₹{outstanding.toLocaleString()} outstanding</span>
+                    <span>{getCurrencySymbol(fund.currency)}{outstanding.toLocaleString()} outstanding</span>
                     {fund.investedInHolding && (
                       <>
                         <span>•</span>
@@ -143,7 +152,7 @@ export function BorrowedFundsWidget({ funds }: BorrowedFundsWidgetProps) {
                     variant={fund.profitLoss >= 0 ? "default" : "destructive"}
                     className="ml-2 flex-shrink-0"
                   >
-                    {fund.profitLoss >= 0 ? "+" : ""}₹
+                    {fund.profitLoss >= 0 ? "+" : ""}{getCurrencySymbol(fund.currency)}
                     {Math.abs(fund.profitLoss).toLocaleString()}
                   </Badge>
                 )}
@@ -164,13 +173,13 @@ export function BorrowedFundsWidget({ funds }: BorrowedFundsWidgetProps) {
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Total Borrowed</span>
             <span className="font-semibold">
-              ₹{totalBorrowed.toLocaleString()}
+              {currencySymbol}{totalBorrowed.toLocaleString()}
             </span>
           </div>
           <div className="flex items-center justify-between text-sm mt-1">
             <span className="text-muted-foreground">Total Returned</span>
             <span className="font-semibold">
-              ₹{totalReturned.toLocaleString()}
+              {currencySymbol}{totalReturned.toLocaleString()}
             </span>
           </div>
         </div>
@@ -0,0 +1,88 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ArrowRight, Target } from "lucide-react"
+import { GOAL_STATUS_COLORS, GOAL_STATUS_LABELS, getCurrencySymbol } from "@/constants"
+import type { Goal } from "@/types"
+
+// Active goals shown on the dashboard, highest priority first
+const MAX_GOALS = 4
+
+export function GoalsWidget() {
+  const [goals, setGoals] = useState<Goal[]>([])
+  const [currency, setCurrency] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchGoals = async () => {
+      try {
+        const response = await fetch("/api/goals")
+        if (!response.ok) throw new Error("Failed to load goals")
+        const data = await response.json()
+        setGoals((data.goals as Goal[]).filter((goal) => goal.isActive))
+        setCurrency(data.currency)
+      } catch (error) {
+        console.error("Error fetching goals:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchGoals()
+  }, [])
+
+  if (isLoading) {
+    return <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+  }
+
+  if (goals.length === 0) return null
+
+  const currencySymbol = getCurrencySymbol(currency)
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+      <div className="relative p-4 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2 text-gray-800 dark:text-gray-200">
+            <Target className="h-5 w-5 sm:h-6 sm:w-6 text-blue-600 dark:text-blue-400" />
+            Goals
+          </h2>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/goals">
+              All Goals
+              <ArrowRight className="h-4 w-4 ml-1" />
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {goals.slice(0, MAX_GOALS).map((goal) => (
+            <div key={goal.id} className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium truncate">{goal.name}</p>
+                <Badge className={`${GOAL_STATUS_COLORS[goal.progress.status]} text-white`}>
+                  {GOAL_STATUS_LABELS[goal.progress.status]}
+                </Badge>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full ${GOAL_STATUS_COLORS[goal.progress.status]}`}
+                  style={{ width: `${goal.progress.progressPercent}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>
+                  {currencySymbol}{goal.progress.currentValue.toLocaleString("en-IN", { maximumFractionDigits: 0 })} of{" "}
+                  {currencySymbol}{goal.progress.inflatedTarget.toLocaleString("en-IN", { maximumFractionDigits: 0 })}
+                </span>
+                <span>{goal.progress.probability.toFixed(0)}% likely</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { TrendingUp, ShoppingCart, Repeat, PieChart, ArrowUpRight, ArrowDownRigh
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
+import { getCurrencySymbol } from "@/constants"
 
 interface InvestmentTrackingProps {
   holdingsData: {
@@ -31,6 +32,7 @@ interface InvestmentTrackingProps {
     returnPercentage: number
     transactionCount: number
   }
+  currency: string
   monthName: string
   year: number
 }
@@ -40,11 +42,13 @@ export function InvestmentTracking({
   plannedInvestments,
   actualInvestments,
   currentMonthReturns,
+  currency,
   monthName,
   year,
 }: InvestmentTrackingProps) {
   const [holdingsData, setHoldingsData] = useState(initialHoldingsData)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const currencySymbol = getCurrencySymbol(currency)
 
   const fetchCurrentPrices = async () => {
     try {
@@ -132,12 +136,12 @@ export function InvestmentTracking({
             </div>
             <h4 className="text-xs font-medium text-indigo-700 dark:text-indigo-300 mb-1">Portfolio Value</h4>
             <p className="text-2xl font-bold text-indigo-600 dark:text-indigo-400 mb-2">
-              ₹{holdingsData.totalCurrentValue.toLocaleString('en-IN')}
+              {currencySymbol}{holdingsData.totalCurrentValue.toLocaleString('en-IN')}
             </p>
             <div className="text-xs space-y-1 mt-auto pt-2 border-t border-indigo-200 dark:border-indigo-700">
               <div className="flex justify-between">
                 <span className="text-indigo-600/80 dark:text-indigo-400/80">Invested:</span>
-                <span className="font-semibold text-indigo-700 dark:text-indigo-300">₹{holdingsData.totalInvestment.toLocaleString('en-IN')}</span>
+                <span className="font-semibold text-indigo-700 dark:text-indigo-300">{currencySymbol}{holdingsData.totalInvestment.toLocaleString('en-IN')}</span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-indigo-600/80 dark:text-indigo-400/80">P&L:</span>
@@ -146,7 +150,7 @@ export function InvestmentTracking({
                   holdingsData.totalPL >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
                 )}>
                   {holdingsData.totalPL >= 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
-                  {holdingsData.totalPL >= 0 ? '+' : ''}₹{holdingsData.totalPL.toLocaleString('en-IN')}
+                  {holdingsData.totalPL >= 0 ? '+' : ''}{currencySymbol}{holdingsData.totalPL.toLocaleString('en-IN')}
                   <span className="text-[10px]">({plPercentage.toFixed(1)}%)</span>
                 </span>
               </div>
@@ -161,12 +165,12 @@ export function InvestmentTracking({
             </div>
             <h4 className="text-xs font-medium text-blue-700 dark:text-blue-300 mb-1">SIP Investments</h4>
             <p className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
-              ₹{actualInvestments.sipExecutions.toLocaleString('en-IN')}
+              {currencySymbol}{actualInvestments.sipExecutions.toLocaleString('en-IN')}
             </p>
             <div className="text-xs space-y-1 mt-auto pt-2 border-t border-blue-200 dark:border-blue-700">
               <div className="flex justify-between">
                 <span className="text-blue-600/80 dark:text-blue-400/80">Planned:</span>
-                <span className="font-semibold text-blue-700 dark:text-blue-300">₹{totalPlanned.toLocaleString('en-IN')}</span>
+                <span className="font-semibold text-blue-700 dark:text-blue-300">{currencySymbol}{totalPlanned.toLocaleString('en-IN')}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-blue-600/80 dark:text-blue-400/80">Executed:</span>
@@ -183,7 +187,7 @@ export function InvestmentTracking({
             </div>
             <h4 className="text-xs font-medium text-violet-700 dark:text-violet-300 mb-1">One-Time Purchases</h4>
             <p className="text-2xl font-bold text-violet-600 dark:text-violet-400 mb-2">
-              ₹{actualInvestments.oneTime.toLocaleString('en-IN')}
+              {currencySymbol}{actualInvestments.oneTime.toLocaleString('en-IN')}
             </p>
             <div className="text-xs mt-auto">
               {actualInvestments.oneTimeCount > 0 ? (
@@ -206,16 +210,16 @@ export function InvestmentTracking({
             </div>
             <h4 className="text-xs font-medium text-teal-700 dark:text-teal-300 mb-1">Total Invested</h4>
             <p className="text-2xl font-bold text-teal-600 dark:text-teal-400 mb-2">
-              ₹{totalActual.toLocaleString('en-IN')}
+              {currencySymbol}{totalActual.toLocaleString('en-IN')}
             </p>
             <div className="text-xs space-y-1 mt-auto pt-2 border-t border-teal-200 dark:border-teal-700">
               <div className="flex justify-between">
                 <span className="text-teal-600/80 dark:text-teal-400/80">SIPs:</span>
-                <span className="font-semibold text-teal-700 dark:text-teal-300">₹{actualInvestments.sipExecutions.toLocaleString('en-IN')}</span>
+                <span className="font-semibold text-teal-700 dark:text-teal-300">{currencySymbol}{actualInvestments.sipExecutions.toLocaleString('en-IN')}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-teal-600/80 dark:text-teal-400/80">One-time:</span>
-                <span className="font-semibold text-teal-700 dark:text-teal-300">₹{actualInvestments.oneTime.toLocaleString('en-IN')}</span>
+                <span className="font-semibold text-teal-700 dark:text-teal-300">{currencySymbol}{actualInvestments.oneTime.toLocaleString('en-IN')}</span>
               </div>
               {currentMonthReturns.transactionCount > 0 && (
                 <div className="pt-1 border-t border-teal-200 dark:border-teal-700">
@@ -225,7 +229,7 @@ export function InvestmentTracking({
                   )}>
                     {currentMonthReturns.returns >= 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
                     <span className="text-[10px]">
-                      {currentMonthReturns.returns >= 0 ? '+' : ''}₹{currentMonthReturns.returns.toLocaleString('en-IN')} ({currentMonthReturns.returnPercentage >= 0 ? '+' : ''}{currentMonthReturns.returnPercentage.toFixed(2)}%) current value
+                      {currentMonthReturns.returns >= 0 ? '+' : ''}{currencySymbol}{currentMonthReturns.returns.toLocaleString('en-IN')} ({currentMonthReturns.returnPercentage >= 0 ? '+' : ''}{currentMonthReturns.returnPercentage.toFixed(2)}%) current value
                     </span>
                   </div>
                 </div>
@@ -240,21 +244,21 @@ export function InvestmentTracking({
           {(actualInvestments.sipExecutions < totalPlanned) && totalPlanned > 0 && (
             <div className="p-3 bg-blue-50/50 dark:bg-blue-900/10 rounded-lg border border-blue-200/50 dark:border-blue-700/50">
               <p className="text-xs text-blue-700 dark:text-blue-300">
-                💡 SIP shortfall: ₹{(totalPlanned - actualInvestments.sipExecutions).toLocaleString('en-IN')} planned SIPs not yet executed this month.
+                💡 SIP shortfall: {currencySymbol}{(totalPlanned - actualInvestments.sipExecutions).toLocaleString('en-IN')} planned SIPs not yet executed this month.
               </p>
             </div>
           )}
           {actualInvestments.oneTime > 0 && (
             <div className="p-3 bg-violet-50/50 dark:bg-violet-900/10 rounded-lg border border-violet-200/50 dark:border-violet-700/50">
               <p className="text-xs text-violet-700 dark:text-violet-300">
-                📊 One-time purchases of ₹{actualInvestments.oneTime.toLocaleString('en-IN')} made outside regular SIPs.
+                📊 One-time purchases of {currencySymbol}{actualInvestments.oneTime.toLocaleString('en-IN')} made outside regular SIPs.
               </p>
             </div>
           )}
           {(totalActual > totalPlanned) && totalPlanned > 0 && (
             <div className="p-3 bg-amber-50/50 dark:bg-amber-900/10 rounded-lg border border-amber-200/50 dark:border-amber-700/50">
               <p className="text-xs text-amber-700 dark:text-amber-300">
-                ⚠️ Total investments (₹{totalActual.toLocaleString('en-IN')}) exceeded planned SIPs (₹{totalPlanned.toLocaleString('en-IN')}) by ₹{(totalActual - totalPlanned).toLocaleString('en-IN')}.
+                ⚠️ Total investments ({currencySymbol}{totalActual.toLocaleString('en-IN')}) exceeded planned SIPs ({currencySymbol}{totalPlanned.toLocaleString('en-IN')}) by {currencySymbol}{(totalActual - totalPlanned).toLocaleString('en-IN')}.
               </p>
             </div>
           )}
@@ -0,0 +1,191 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { ArrowRight, Landmark } from "lucide-react"
+import { format } from "date-fns"
+import { NET_WORTH_DEFAULT_RANGE_DAYS, NET_WORTH_RANGES, getCurrencySymbol } from "@/constants"
+import type { NetWorthBreakdown, NetWorthPoint } from "@/types"
+
+interface NetWorthChartProps {
+  refreshKey?: string
+  showDetailsLink?: boolean
+  onLoaded?: (current: NetWorthBreakdown) => void
+}
+
+// Assets are stacked above the axis and liabilities below it
+const ASSET_SERIES = [
+  { key: "holdings", label: "Investments", color: "#3b82f6" },
+  { key: "emergencyFund", label: "Emergency Fund", color: "#14b8a6" },
+  { key: "manualAssets", label: "Manual Assets", color: "#f59e0b" },
+  { key: "moneyLent", label: "Money Lent", color: "#8b5cf6" },
+] as const
+
+const LIABILITY_SERIES = [
+  { key: "loans", label: "Loans", color: "#ef4444" },
+  { key: "borrowedFunds", label: "Borrowed Funds", color: "#f97316" },
+  { key: "creditCardDues", label: "Card Dues", color: "#ec4899" },
+  { key: "moneyOwed", label: "Money Owed", color: "#a855f7" },
+] as const
+
+const formatCompact = (value: number, symbol: string) => {
+  const abs = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (abs >= 10000000) return `${sign}${symbol}${(abs / 10000000).toFixed(1)}Cr`
+  if (abs >= 100000) return `${sign}${symbol}${(abs / 100000).toFixed(1)}L`
+  if (abs >= 1000) return `${sign}${symbol}${(abs / 1000).toFixed(0)}K`
+  return `${sign}${symbol}${abs.toFixed(0)}`
+}
+
+export function NetWorthChart({ refreshKey, showDetailsLink = false, onLoaded }: NetWorthChartProps) {
+  const [days, setDays] = useState(NET_WORTH_DEFAULT_RANGE_DAYS.toString())
+  const [history, setHistory] = useState<NetWorthPoint[]>([])
+  const [current, setCurrent] = useState<NetWorthBreakdown | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchNetWorth = async () => {
+      try {
+        const response = await fetch(`/api/net-worth?days=${days}`)
+        if (!response.ok) throw new Error("Failed to load net worth")
+        const data = await response.json()
+        setHistory(data.history)
+        setCurrent(data.current)
+        onLoaded?.(data.current)
+      } catch (error) {
+        console.error("Error fetching net worth:", error)
+        toast.error("Failed to load net worth")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchNetWorth()
+    // onLoaded is a notification only; refetching when its identity changes would loop
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days, refreshKey])
+
+  if (isLoading) {
+    return <div className="animate-pulse h-80 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+  }
+
+  if (!current) return null
+
+  const chartData = history.map(point => ({
+    ...point,
+    label: format(new Date(point.date), "dd MMM yy"),
+    ...Object.fromEntries(LIABILITY_SERIES.map(series => [series.key, -point[series.key]])),
+  }))
+
+  const currencySymbol = getCurrencySymbol(current.currency)
+  const first = history[0]
+  const change = first && history.length > 1 ? current.netWorth - first.netWorth : null
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-white/80 via-blue-50/40 to-emerald-50/60 dark:from-gray-800/80 dark:via-gray-800/60 dark:to-gray-900/60 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 via-transparent to-emerald-500/5 pointer-events-none"></div>
+      <div className="relative p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2 text-gray-800 dark:text-gray-200">
+              <Landmark className="h-5 w-5 sm:h-6 sm:w-6 text-emerald-600 dark:text-emerald-400" />
+              Net Worth
+            </h2>
+            <p className={`text-2xl sm:text-3xl font-bold mt-1 ${current.netWorth >= 0 ? "text-gray-900 dark:text-white" : "text-red-600 dark:text-red-400"}`}>
+              {currencySymbol}{current.netWorth.toLocaleString("en-IN", { maximumFractionDigits: 0 })}
+            </p>
+            {change !== null && (
+              <p className={`text-sm ${change >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                {change >= 0 ? "+" : "-"}{currencySymbol}{Math.abs(change).toLocaleString("en-IN", { maximumFractionDigits: 0 })} since {format(new Date(first.date), "MMM dd, yyyy")}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-[130px] bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NET_WORTH_RANGES.map((range) => (
+                  <SelectItem key={range.value} value={range.value}>
+                    {range.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {showDetailsLink && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/net-worth">
+                  Details
+                  <ArrowRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {history.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            Net worth is recorded daily. The chart appears once there is more than one day of history.
+          </p>
+        ) : (
+          <div className="h-72 sm:h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} stackOffset="sign" margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                <YAxis tickFormatter={value => formatCompact(value, currencySymbol)} tick={{ fontSize: 12 }} width={70} />
+                <Tooltip
+                  formatter={(value, name) => [
+                    `${currencySymbol}${Math.abs(Number(value)).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`,
+                    name,
+                  ]}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {[...ASSET_SERIES, ...LIABILITY_SERIES].map((series) => (
+                  <Area
+                    key={series.key}
+                    type="monotone"
+                    dataKey={series.key}
+                    name={series.label}
+                    stackId="breakdown"
+                    stroke={series.color}
+                    fill={series.color}
+                    fillOpacity={0.25}
+                  />
+                ))}
+                <Line
+                  type="monotone"
+                  dataKey="netWorth"
+                  name="Net Worth"
+                  stroke="#10b981"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
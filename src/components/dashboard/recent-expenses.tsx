@@ -3,11 +3,13 @@
 import { useState } from "react"
 import { ChevronDown, ChevronUp, Receipt } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
+import { getCurrencySymbol } from "@/constants"
 
 interface Expense {
   id: string
   title: string
   amount: number
+  currency: string
   date: Date
   expenseType: string
   category: string
@@ -16,11 +18,12 @@ interface Expense {
 interface RecentExpensesProps {
   expenses: Expense[]
   totalExpenses: number
+  currency: string
   monthName: string
   selectedYear: number
 }
 
-export function RecentExpenses({ expenses, totalExpenses, monthName, selectedYear }: RecentExpensesProps) {
+export function RecentExpenses({ expenses, totalExpenses, currency, monthName, selectedYear }: RecentExpensesProps) {
   const [isExpanded, setIsExpanded] = useState(true)
 
   return (
@@ -61,7 +64,7 @@ export function RecentExpenses({ expenses, totalExpenses, monthName, selectedYea
           <div className="flex items-center">
             <div className="px-2 py-0.5 rounded-full bg-red-50/80 dark:bg-red-900/30 backdrop-blur-sm border border-red-200/50 dark:border-red-700/50">
               <span className="text-xs font-semibold text-red-700 dark:text-red-300">
-                ₹{totalExpenses.toLocaleString('en-IN')}
+                {getCurrencySymbol(currency)}{totalExpenses.toLocaleString('en-IN')}
               </span>
             </div>
           </div>
@@ -97,7 +100,7 @@ export function RecentExpenses({ expenses, totalExpenses, monthName, selectedYea
                     </div>
                   </div>
                   <div className="text-left sm:text-right shrink-0">
-                    <p className="font-bold text-base sm:text-lg break-words text-red-600 dark:text-red-400">₹{Number(expense.amount).toLocaleString('en-IN')}</p>
+                    <p className="font-bold text-base sm:text-lg break-words text-red-600 dark:text-red-400">{getCurrencySymbol(expense.currency)}{Number(expense.amount).toLocaleString('en-IN')}</p>
                   </div>
                 </div>
               ))}
@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Badge } from "@/components/ui/badge"
 import { IndianRupee, Receipt, Calculator, Wallet, Repeat, PieChart, TrendingUp, ChevronDown, ChevronUp, Users, ArrowDownRight, ArrowUpRight } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { getCurrencySymbol } from "@/constants"
 
 interface InvestmentAllocation {
   bucket: string
@@ -70,6 +71,7 @@ interface SalaryFlowPipelineProps {
     currentMonthCount: number
     additionalCount: number
   }
+  currency: string
 }
 
 export function SalaryFlowPipeline({
@@ -89,8 +91,10 @@ export function SalaryFlowPipeline({
   selectedYear,
   oneTimeTransactions,
   paidEMIs,
+  currency,
 }: SalaryFlowPipelineProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const currencySymbol = getCurrencySymbol(currency)
 
   return (
     <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 hover:shadow-xl hover:bg-white/80 dark:hover:bg-gray-800/80 transition-all duration-200">
@@ -119,7 +123,7 @@ export function SalaryFlowPipeline({
         <div className="hidden md:flex items-center gap-2 flex-shrink-0">
           <div className="px-3 py-1.5 rounded-full bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-700">
             <p className="text-xs font-semibold text-green-700 dark:text-green-300">
-              Income: ₹{totalIncome.toLocaleString()}
+              Income: {currencySymbol}{totalIncome.toLocaleString()}
             </p>
           </div>
           <div className={cn(
@@ -132,7 +136,7 @@ export function SalaryFlowPipeline({
               "text-xs font-semibold",
               financialSummary.cashRemaining >= 0 ? "text-emerald-700 dark:text-emerald-300" : "text-red-700 dark:text-red-300"
             )}>
-              Cash Left: {financialSummary.cashRemaining >= 0 ? '+' : ''}₹{financialSummary.cashRemaining.toLocaleString()}
+              Cash Left: {financialSummary.cashRemaining >= 0 ? '+' : ''}{currencySymbol}{financialSummary.cashRemaining.toLocaleString()}
             </p>
           </div>
         </div>
@@ -160,17 +164,17 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-green-700 dark:text-green-300 mb-1">Total Income</h4>
               <p className="text-xl sm:text-2xl font-bold text-green-600 dark:text-green-400 mb-2">
-                ₹{totalIncome.toLocaleString('en-IN')}
+                {currencySymbol}{totalIncome.toLocaleString('en-IN')}
               </p>
               {additionalIncome.count > 0 && (
                 <div className="text-xs text-green-600/80 dark:text-green-400/80 space-y-0.5">
                   <div className="flex justify-between">
                     <span>Salary:</span>
-                    <span className="font-semibold">₹{salary.toLocaleString('en-IN')}</span>
+                    <span className="font-semibold">{currencySymbol}{salary.toLocaleString('en-IN')}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Other:</span>
-                    <span className="font-semibold">₹{additionalIncome.totalIncome.toLocaleString('en-IN')}</span>
+                    <span className="font-semibold">{currencySymbol}{additionalIncome.totalIncome.toLocaleString('en-IN')}</span>
                   </div>
                 </div>
               )}
@@ -184,12 +188,12 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-red-700 dark:text-red-300 mb-1">Tax Deduction</h4>
               <p className="text-xl sm:text-2xl font-bold text-red-600 dark:text-red-400 mb-1">
-                -₹{taxAmount.toLocaleString('en-IN')}
+                -{currencySymbol}{taxAmount.toLocaleString('en-IN')}
               </p>
               <div className="text-xs text-red-600/80 dark:text-red-400/80 mt-auto">
                 <div className="flex justify-between items-center pt-2 border-t border-red-200 dark:border-red-700">
                   <span>After Tax:</span>
-                  <span className="font-semibold">₹{financialSummary.afterTax.toLocaleString('en-IN')}</span>
+                  <span className="font-semibold">{currencySymbol}{financialSummary.afterTax.toLocaleString('en-IN')}</span>
                 </div>
               </div>
             </div>
@@ -202,7 +206,7 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-orange-700 dark:text-orange-300 mb-1">Loan EMIs</h4>
               <p className="text-xl sm:text-2xl font-bold text-orange-600 dark:text-orange-400 mb-1">
-                -₹{loansData.currentMonthTotalEMI.toLocaleString('en-IN')}
+                -{currencySymbol}{loansData.currentMonthTotalEMI.toLocaleString('en-IN')}
               </p>
               <div className="text-xs text-orange-600/80 dark:text-orange-400/80 mt-auto">
                 <div className="flex justify-between items-center">
@@ -210,7 +214,7 @@ export function SalaryFlowPipeline({
                 </div>
                 <div className="flex justify-between items-center pt-2 border-t border-orange-200 dark:border-orange-700">
                   <span>After EMI:</span>
-                  <span className="font-semibold">₹{financialSummary.afterLoans.toLocaleString('en-IN')}</span>
+                  <span className="font-semibold">{currencySymbol}{financialSummary.afterLoans.toLocaleString('en-IN')}</span>
                 </div>
               </div>
             </div>
@@ -223,12 +227,12 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-purple-700 dark:text-purple-300 mb-1">Active SIPs</h4>
               <p className="text-xl sm:text-2xl font-bold text-purple-600 dark:text-purple-400 mb-1">
-                -₹{sipsData.totalAmount.toLocaleString('en-IN')}
+                -{currencySymbol}{sipsData.totalAmount.toLocaleString('en-IN')}
               </p>
               <div className="text-xs text-purple-600/80 dark:text-purple-400/80 mt-auto">
                 <div className="flex justify-between items-center pt-2 border-t border-purple-200 dark:border-purple-700">
                   <span>After SIPs:</span>
-                  <span className="font-semibold">₹{financialSummary.afterSIPs.toLocaleString('en-IN')}</span>
+                  <span className="font-semibold">{currencySymbol}{financialSummary.afterSIPs.toLocaleString('en-IN')}</span>
                 </div>
               </div>
             </div>
@@ -249,7 +253,7 @@ export function SalaryFlowPipeline({
                         <span className="text-[10px] text-red-600 dark:text-red-400">Borrowed</span>
                       </div>
                       <span className="text-sm font-bold text-red-600 dark:text-red-400">
-                        -₹{memberTransactionsData.borrowed.toLocaleString('en-IN')}
+                        -{currencySymbol}{memberTransactionsData.borrowed.toLocaleString('en-IN')}
                       </span>
                     </div>
                   )}
@@ -260,7 +264,7 @@ export function SalaryFlowPipeline({
                         <span className="text-[10px] text-green-600 dark:text-green-400">Lent</span>
                       </div>
                       <span className="text-sm font-bold text-green-600 dark:text-green-400">
-                        +₹{memberTransactionsData.lent.toLocaleString('en-IN')}
+                        +{currencySymbol}{memberTransactionsData.lent.toLocaleString('en-IN')}
                       </span>
                     </div>
                   )}
@@ -268,7 +272,7 @@ export function SalaryFlowPipeline({
                 <div className="text-xs text-pink-600/80 dark:text-pink-400/80 mt-auto">
                   <div className="flex justify-between items-center pt-2 border-t border-pink-200 dark:border-pink-700">
                     <span>After Members:</span>
-                    <span className="font-semibold">₹{(financialSummary.afterSIPs + memberTransactionsData.borrowed - memberTransactionsData.lent).toLocaleString('en-IN')}</span>
+                    <span className="font-semibold">{currencySymbol}{(financialSummary.afterSIPs + memberTransactionsData.borrowed - memberTransactionsData.lent).toLocaleString('en-IN')}</span>
                   </div>
                 </div>
               </div>
@@ -281,7 +285,7 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-blue-700 dark:text-blue-300 mb-1">Available Surplus</h4>
               <p className="text-xl sm:text-2xl font-bold text-blue-600 dark:text-blue-400 mb-2">
-                ₹{financialSummary.availableSurplus.toLocaleString('en-IN')}
+                {currencySymbol}{financialSummary.availableSurplus.toLocaleString('en-IN')}
               </p>
               <div className="text-xs text-blue-600/80 dark:text-blue-400/80">
                 <p>After tax, EMI, SIPs & members</p>
@@ -299,17 +303,17 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-yellow-700 dark:text-yellow-300 mb-1">Expense Budget</h4>
               <p className="text-xl sm:text-2xl font-bold text-yellow-600 dark:text-yellow-400 mb-1">
-                ₹{financialSummary.availableForExpenses.toLocaleString('en-IN')}
+                {currencySymbol}{financialSummary.availableForExpenses.toLocaleString('en-IN')}
               </p>
               {financialSummary.isUsingBudget && (
                 <div className="text-xs text-yellow-600/80 dark:text-yellow-400/80 space-y-0.5 mt-auto pt-2 border-t border-yellow-200 dark:border-yellow-700">
                   <div className="flex justify-between">
                     <span>Expected:</span>
-                    <span className="font-semibold">₹{(financialSummary.expectedBudget ?? 0).toLocaleString('en-IN')}</span>
+                    <span className="font-semibold">{currencySymbol}{(financialSummary.expectedBudget ?? 0).toLocaleString('en-IN')}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Unexpected:</span>
-                    <span className="font-semibold">₹{(financialSummary.unexpectedBudget ?? 0).toLocaleString('en-IN')}</span>
+                    <span className="font-semibold">{currencySymbol}{(financialSummary.unexpectedBudget ?? 0).toLocaleString('en-IN')}</span>
                   </div>
                 </div>
               )}
@@ -325,7 +329,7 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-indigo-700 dark:text-indigo-300 mb-1">Investment Allocation</h4>
               <p className="text-xl sm:text-2xl font-bold text-indigo-600 dark:text-indigo-400 mb-2">
-                ₹{financialSummary.availableForInvestment.toLocaleString('en-IN')}
+                {currencySymbol}{financialSummary.availableForInvestment.toLocaleString('en-IN')}
               </p>
               <div className="text-xs text-indigo-600/80 dark:text-indigo-400/80">
                 {hasAllocations ? (
@@ -343,12 +347,12 @@ export function SalaryFlowPipeline({
               </div>
               <h4 className="text-xs font-medium text-rose-700 dark:text-rose-300 mb-1">Total Expenses</h4>
               <p className="text-xl sm:text-2xl font-bold text-rose-600 dark:text-rose-400 mb-1">
-                -₹{expensesData.totalExpenses.toLocaleString('en-IN')}
+                -{currencySymbol}{expensesData.totalExpenses.toLocaleString('en-IN')}
               </p>
               <div className="text-xs text-rose-600/80 dark:text-rose-400/80 mt-auto">
                 <div className="flex justify-between items-center pt-2 border-t border-rose-200 dark:border-rose-700">
                   <span>Remaining:</span>
-                  <span className="font-semibold">₹{(financialSummary.availableForExpenses - expensesData.totalExpenses).toLocaleString('en-IN')}</span>
+                  <span className="font-semibold">{currencySymbol}{(financialSummary.availableForExpenses - expensesData.totalExpenses).toLocaleString('en-IN')}</span>
                 </div>
               </div>
             </div>
@@ -362,7 +366,7 @@ export function SalaryFlowPipeline({
                 </div>
                 <h4 className="text-xs font-medium text-violet-700 dark:text-violet-300 mb-1">One-Time Investments</h4>
                 <p className="text-xl sm:text-2xl font-bold text-violet-600 dark:text-violet-400 mb-1">
-                  -₹{oneTimeTransactions.totalAmount.toLocaleString('en-IN')}
+                  -{currencySymbol}{oneTimeTransactions.totalAmount.toLocaleString('en-IN')}
                 </p>
                 <div className="text-xs text-violet-600/80 dark:text-violet-400/80 mt-auto">
                   <p>This month&apos;s purchases</p>
@@ -379,17 +383,17 @@ export function SalaryFlowPipeline({
                 </div>
                 <h4 className="text-xs font-medium text-teal-700 dark:text-teal-300 mb-1">EMIs Paid</h4>
                 <p className="text-xl sm:text-2xl font-bold text-teal-600 dark:text-teal-400 mb-1">
-                  -₹{paidEMIs.totalPaid.toLocaleString('en-IN')}
+                  -{currencySymbol}{paidEMIs.totalPaid.toLocaleString('en-IN')}
                 </p>
                 <div className="text-xs text-teal-600/80 dark:text-teal-400/80 mt-auto">
                   <div className="flex justify-between">
                     <span>Current:</span>
-                    <span className="font-semibold">₹{paidEMIs.currentMonthPaid.toLocaleString('en-IN')}</span>
+                    <span className="font-semibold">{currencySymbol}{paidEMIs.currentMonthPaid.toLocaleString('en-IN')}</span>
                   </div>
                   {paidEMIs.additionalPaid > 0 && (
                     <div className="flex justify-between text-amber-600 dark:text-amber-400">
                       <span>Extra:</span>
-                      <span className="font-semibold">₹{paidEMIs.additionalPaid.toLocaleString('en-IN')}</span>
+                      <span className="font-semibold">{currencySymbol}{paidEMIs.additionalPaid.toLocaleString('en-IN')}</span>
                     </div>
                   )}
                 </div>
@@ -423,7 +427,7 @@ export function SalaryFlowPipeline({
                 "text-xl sm:text-2xl font-bold mb-1",
                 financialSummary.plannedSurplus >= 0 ? "text-blue-600 dark:text-blue-400" : "text-red-600 dark:text-red-400"
               )}>
-                {financialSummary.plannedSurplus >= 0 ? '+' : ''}₹{financialSummary.plannedSurplus.toLocaleString('en-IN')}
+                {financialSummary.plannedSurplus >= 0 ? '+' : ''}{currencySymbol}{financialSummary.plannedSurplus.toLocaleString('en-IN')}
               </p>
               <div className={cn(
                 "text-xs mt-auto",
@@ -460,7 +464,7 @@ export function SalaryFlowPipeline({
                 "text-xl sm:text-2xl font-bold mb-1",
                 financialSummary.cashRemaining >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
               )}>
-                {financialSummary.cashRemaining >= 0 ? '+' : ''}₹{financialSummary.cashRemaining.toLocaleString('en-IN')}
+                {financialSummary.cashRemaining >= 0 ? '+' : ''}{currencySymbol}{financialSummary.cashRemaining.toLocaleString('en-IN')}
               </p>
               <div className={cn(
                 "text-xs mt-auto",
@@ -486,7 +490,7 @@ export function SalaryFlowPipeline({
               <div className="flex flex-wrap gap-2">
                 {financialSummary.investmentAllocationBreakdown.map((alloc) => (
                   <Badge key={alloc.bucket} variant="outline" className="text-xs">
-                    {alloc.bucket.replace(/_/g, ' ')}: ₹{alloc.amount.toLocaleString('en-IN')}
+                    {alloc.bucket.replace(/_/g, ' ')}: {currencySymbol}{alloc.amount.toLocaleString('en-IN')}
                   </Badge>
                 ))}
               </div>
@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { ChevronDown, ChevronUp, Wallet } from "lucide-react"
+import { getCurrencySymbol } from "@/constants"
 
 interface EMI {
   id: string
@@ -14,16 +15,19 @@ interface Loan {
   id: string
   loanType: string
   institution: string
+  currency: string
   emis: EMI[]
 }
 
 interface UpcomingEMIProps {
   loans: Loan[]
+  totalEMI: number
+  currency: string
   monthName: string
   selectedYear: number
 }
 
-export function UpcomingEMI({ loans, monthName, selectedYear }: UpcomingEMIProps) {
+export function UpcomingEMI({ loans, totalEMI, currency, monthName, selectedYear }: UpcomingEMIProps) {
   const [isExpanded, setIsExpanded] = useState(true)
 
   // Flatten all EMIs from all loans and sort by amount ascending
@@ -31,12 +35,11 @@ export function UpcomingEMI({ loans, monthName, selectedYear }: UpcomingEMIProps
     loan.emis.map(emi => ({
       ...emi,
       loanType: loan.loanType,
-      institution: loan.institution
+      institution: loan.institution,
+      currency: loan.currency
     }))
   ).sort((a, b) => Number(a.emiAmount) - Number(b.emiAmount))
 
-  // Calculate total current month EMI
-  const currentMonthTotal = allEMIs.reduce((sum, emi) => sum + Number(emi.emiAmount), 0)
 
   return (
     <div className={`relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 hover:shadow-xl hover:bg-white/80 dark:hover:bg-gray-800/80 transition-all duration-200 ${
@@ -76,7 +79,7 @@ export function UpcomingEMI({ loans, monthName, selectedYear }: UpcomingEMIProps
           <div className="flex items-center">
             <div className="px-2 py-0.5 rounded-full bg-orange-50/80 dark:bg-orange-900/30 backdrop-blur-sm border border-orange-200/50 dark:border-orange-700/50">
               <span className="text-xs font-semibold text-orange-700 dark:text-orange-300">
-                ₹{currentMonthTotal.toLocaleString('en-IN')}
+                {getCurrencySymbol(currency)}{totalEMI.toLocaleString('en-IN')}
               </span>
             </div>
           </div>
@@ -125,7 +128,7 @@ export function UpcomingEMI({ loans, monthName, selectedYear }: UpcomingEMIProps
                       </div>
                     </div>
                     <div className="text-left sm:text-right shrink-0">
-                      <p className={`font-bold text-base sm:text-lg break-words ${amountColor}`}>₹{Number(emi.emiAmount).toLocaleString('en-IN')}</p>
+                      <p className={`font-bold text-base sm:text-lg break-words ${amountColor}`}>{getCurrencySymbol(emi.currency)}{Number(emi.emiAmount).toLocaleString('en-IN')}</p>
                     </div>
                   </div>
                 )
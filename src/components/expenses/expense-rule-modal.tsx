@@ -0,0 +1,322 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { PAYMENT_METHODS } from "@/constants"
+import type { CreditCard, ExpenseRule } from "@/types"
+
+const ANY = "any"
+
+const optionalAmount = z
+  .string()
+  .optional()
+  .refine((val) => !val || (!isNaN(Number(val)) && Number(val) >= 0), "Must be a positive number")
+
+const ruleFormSchema = z.object({
+  name: z.string().min(1, "Rule name is required"),
+  priority: z
+    .string()
+    .refine((val) => !val || (Number.isInteger(Number(val)) && Number(val) >= 0), "Priority must be a whole number"),
+  pattern: z.string().optional(),
+  minAmount: optionalAmount,
+  maxAmount: optionalAmount,
+  paymentMethod: z.string(),
+  creditCardId: z.string(),
+  expenseType: z.string(),
+  category: z.string(),
+  tags: z.string().optional(),
+})
+
+type RuleFormData = z.infer<typeof ruleFormSchema>
+
+const emptyForm: RuleFormData = {
+  name: "",
+  priority: "0",
+  pattern: "",
+  minAmount: "",
+  maxAmount: "",
+  paymentMethod: ANY,
+  creditCardId: ANY,
+  expenseType: ANY,
+  category: ANY,
+  tags: "",
+}
+
+interface ExpenseRuleModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+  creditCards: CreditCard[]
+  rule?: ExpenseRule | null
+}
+
+export function ExpenseRuleModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  creditCards,
+  rule,
+}: ExpenseRuleModalProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyForm,
+  })
+
+  useEffect(() => {
+    if (!open) return
+    if (rule) {
+      reset({
+        name: rule.name,
+        priority: rule.priority.toString(),
+        pattern: rule.pattern || "",
+        minAmount: rule.minAmount?.toString() || "",
+        maxAmount: rule.maxAmount?.toString() || "",
+        paymentMethod: rule.paymentMethod || ANY,
+        creditCardId: rule.creditCardId || ANY,
+        expenseType: rule.expenseType || ANY,
+        category: rule.category || ANY,
+        tags: rule.tags.join(", "),
+      })
+    } else {
+      reset(emptyForm)
+    }
+  }, [open, rule, reset])
+
+  const paymentMethod = watch("paymentMethod")
+
+  const onSubmit = async (data: RuleFormData) => {
+    try {
+      setIsLoading(true)
+
+      const payload = {
+        name: data.name,
+        priority: data.priority ? Number(data.priority) : 0,
+        pattern: data.pattern || null,
+        minAmount: data.minAmount ? Number(data.minAmount) : null,
+        maxAmount: data.maxAmount ? Number(data.maxAmount) : null,
+        paymentMethod: data.paymentMethod === ANY ? null : data.paymentMethod,
+        creditCardId: data.creditCardId === ANY ? null : data.creditCardId,
+        expenseType: data.expenseType === ANY ? null : data.expenseType,
+        category: data.category === ANY ? null : data.category,
+        tags: (data.tags || "").split(",").map(tag => tag.trim()).filter(Boolean),
+      }
+
+      const response = await fetch(rule ? `/api/expenses/rules/${rule.id}` : "/api/expenses/rules", {
+        method: rule ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to save rule")
+      }
+
+      toast.success(rule ? "Rule updated successfully" : "Rule created successfully")
+      onOpenChange(false)
+      onSuccess()
+    } catch (error) {
+      console.error("Error saving rule:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save rule")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            {rule ? "Edit Rule" : "New Rule"}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Expenses matching every condition get the actions below
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="name">
+                Name <span className="text-destructive">*</span>
+              </Label>
+              <Input id="name" {...register("name")} placeholder="e.g., Food delivery" className="bg-background" />
+              {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="priority">Priority</Label>
+              <Input id="priority" {...register("priority")} type="number" min="0" className="bg-background" />
+              {errors.priority && <p className="text-sm text-destructive">{errors.priority.message}</p>}
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-4">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Conditions</h4>
+            <div className="space-y-2">
+              <Label htmlFor="pattern">Title or description matches</Label>
+              <Input
+                id="pattern"
+                {...register("pattern")}
+                placeholder="e.g., swiggy|zomato"
+                className="bg-background font-mono"
+              />
+              <p className="text-xs text-muted-foreground">Case-insensitive regular expression</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="minAmount">Min Amount (₹)</Label>
+                <Input id="minAmount" {...register("minAmount")} type="number" step="0.01" className="bg-background" />
+                {errors.minAmount && <p className="text-sm text-destructive">{errors.minAmount.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxAmount">Max Amount (₹)</Label>
+                <Input id="maxAmount" {...register("maxAmount")} type="number" step="0.01" className="bg-background" />
+                {errors.maxAmount && <p className="text-sm text-destructive">{errors.maxAmount.message}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Payment Method</Label>
+                <Select
+                  value={paymentMethod}
+                  onValueChange={(value) => {
+                    setValue("paymentMethod", value)
+                    if (value !== ANY && value !== "CARD") setValue("creditCardId", ANY)
+                  }}
+                >
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Credit Card</Label>
+                <Select
+                  value={watch("creditCardId")}
+                  onValueChange={(value) => setValue("creditCardId", value)}
+                  disabled={paymentMethod !== ANY && paymentMethod !== "CARD"}
+                >
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {creditCards.map((card) => (
+                      <SelectItem key={card.id} value={card.id}>
+                        {card.cardName} •••• {card.lastFourDigits}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-4">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Actions</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Set Type</Label>
+                <Select value={watch("expenseType")} onValueChange={(value) => setValue("expenseType", value)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>No change</SelectItem>
+                    <SelectItem value="EXPECTED">Expected</SelectItem>
+                    <SelectItem value="UNEXPECTED">Unexpected</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Set Category</Label>
+                <Select value={watch("category")} onValueChange={(value) => setValue("category", value)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>No change</SelectItem>
+                    <SelectItem value="NEEDS">Needs</SelectItem>
+                    <SelectItem value="AVOID">Avoid</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tags">Add Tags</Label>
+              <Input id="tags" {...register("tags")} placeholder="e.g., food, delivery" className="bg-background" />
+              <p className="text-xs text-muted-foreground">Comma separated</p>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading} className="flex-1">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : rule ? (
+                "Save Rule"
+              ) : (
+                "Create Rule"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,338 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import {
+  GOAL_CATEGORIES,
+  GOAL_DEFAULT_INFLATION_PERCENT,
+  GOAL_DEFAULT_RETURN_PERCENT,
+  GOAL_PRIORITIES,
+  getCurrencySymbol,
+} from "@/constants"
+import type { Goal, GoalCategory, GoalEarmarkOption, GoalPriority } from "@/types"
+
+const percentField = (label: string) =>
+  z.string().min(1, `${label} is required`).refine(
+    (val) => !isNaN(Number(val)) && Number(val) >= 0 && Number(val) <= 100,
+    `${label} must be between 0 and 100`
+  )
+
+const goalFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.enum(["HOUSE", "EDUCATION", "RETIREMENT", "VEHICLE", "WEDDING", "TRAVEL", "OTHER"]),
+  targetAmount: z.string().min(1, "Target amount is required").refine(
+    (val) => !isNaN(Number(val)) && Number(val) > 0,
+    "Target amount must be a positive number"
+  ),
+  targetDate: z.string().min(1, "Target date is required"),
+  inflationRate: percentField("Inflation"),
+  expectedReturn: percentField("Expected return"),
+  priority: z.enum(["HIGH", "MEDIUM", "LOW"]),
+  notes: z.string().optional(),
+})
+
+type GoalFormData = z.infer<typeof goalFormSchema>
+
+interface GoalModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  goal: Goal | null
+  currency: string
+  onSuccess?: () => void
+}
+
+// Earmark key as returned by the options endpoint
+const earmarkKey = (earmark: Goal["earmarks"][number]) => earmark.holdingId ?? earmark.sipId ?? "EMERGENCY_FUND"
+
+const formatAmount = (value: number, currency: string) =>
+  `${getCurrencySymbol(currency)}${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+export function GoalModal({ open, onOpenChange, goal, currency, onSuccess }: GoalModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [options, setOptions] = useState<GoalEarmarkOption[]>([])
+  const [isLoadingOptions, setIsLoadingOptions] = useState(false)
+  // Percent earmarked per option id
+  const [earmarks, setEarmarks] = useState<Record<string, string>>({})
+  const currencySymbol = getCurrencySymbol(currency).trim()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch,
+    reset,
+  } = useForm<GoalFormData>({
+    resolver: zodResolver(goalFormSchema),
+  })
+
+  useEffect(() => {
+    if (!open) return
+
+    reset({
+      name: goal?.name ?? "",
+      category: goal?.category ?? "OTHER",
+      targetAmount: goal ? goal.targetAmount.toString() : "",
+      targetDate: goal ? goal.targetDate.split("T")[0] : "",
+      inflationRate: (goal?.inflationRate ?? GOAL_DEFAULT_INFLATION_PERCENT).toString(),
+      expectedReturn: (goal?.expectedReturn ?? GOAL_DEFAULT_RETURN_PERCENT).toString(),
+      priority: goal?.priority ?? "MEDIUM",
+      notes: goal?.notes ?? "",
+    })
+    setEarmarks(Object.fromEntries((goal?.earmarks ?? []).map((earmark) => [earmarkKey(earmark), earmark.percent.toString()])))
+
+    const loadOptions = async () => {
+      try {
+        setIsLoadingOptions(true)
+        const response = await fetch(`/api/goals/earmark-options${goal ? `?goalId=${goal.id}` : ""}`)
+        if (response.ok) {
+          const data = await response.json()
+          setOptions(data.options)
+        }
+      } catch (error) {
+        console.error("Error loading earmark options:", error)
+      } finally {
+        setIsLoadingOptions(false)
+      }
+    }
+    loadOptions()
+  }, [open, goal, reset])
+
+  const toggleEarmark = (option: GoalEarmarkOption, checked: boolean) => {
+    setEarmarks((current) => {
+      const next = { ...current }
+      if (checked) {
+        next[option.id] = Math.max(0, 100 - option.earmarkedPercent).toString()
+      } else {
+        delete next[option.id]
+      }
+      return next
+    })
+  }
+
+  const onSubmit = async (data: GoalFormData) => {
+    const selected = options.filter((option) => earmarks[option.id] !== undefined)
+    const invalid = selected.find((option) => {
+      const percent = Number(earmarks[option.id])
+      return isNaN(percent) || percent <= 0 || percent + option.earmarkedPercent > 100
+    })
+    if (invalid) {
+      toast.error(`Earmark between 0 and ${100 - invalid.earmarkedPercent}% of ${invalid.label}`)
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(goal ? `/api/goals/${goal.id}` : "/api/goals", {
+        method: goal ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: data.name,
+          category: data.category,
+          targetAmount: Number(data.targetAmount),
+          targetDate: data.targetDate,
+          inflationRate: Number(data.inflationRate),
+          expectedReturn: Number(data.expectedReturn),
+          priority: data.priority,
+          notes: data.notes || null,
+          earmarks: selected.map((option) => ({
+            type: option.type,
+            id: option.id,
+            percent: Number(earmarks[option.id]),
+          })),
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save goal")
+      }
+
+      toast.success(goal ? "Goal updated" : "Goal added")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error("Error saving goal:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save goal")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            {goal ? "Edit Goal" : "Add Goal"}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Set the target in today&apos;s money and earmark the investments that fund it
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Goal Name</Label>
+              <Input id="name" {...register("name")} placeholder="e.g. House down payment" className="bg-background" />
+              {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={watch("category")} onValueChange={(value) => setValue("category", value as GoalCategory)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GOAL_CATEGORIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={watch("priority")} onValueChange={(value) => setValue("priority", value as GoalPriority)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GOAL_PRIORITIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="targetAmount">Target Amount ({currencySymbol}, today)</Label>
+                <Input id="targetAmount" {...register("targetAmount")} type="number" step="1" className="bg-background" />
+                {errors.targetAmount && <p className="text-sm text-destructive">{errors.targetAmount.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="targetDate">Target Date</Label>
+                <Input id="targetDate" {...register("targetDate")} type="date" className="bg-background" />
+                {errors.targetDate && <p className="text-sm text-destructive">{errors.targetDate.message}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="inflationRate">Inflation (% a year)</Label>
+                <Input id="inflationRate" {...register("inflationRate")} type="number" step="0.1" className="bg-background" />
+                {errors.inflationRate && <p className="text-sm text-destructive">{errors.inflationRate.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expectedReturn">Expected Return (% a year)</Label>
+                <Input id="expectedReturn" {...register("expectedReturn")} type="number" step="0.1" className="bg-background" />
+                {errors.expectedReturn && <p className="text-sm text-destructive">{errors.expectedReturn.message}</p>}
+              </div>
+            </div>
+
+            {/* Earmarks */}
+            <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+              <Label className="text-sm font-medium">Earmarked Investments</Label>
+              {isLoadingOptions ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : options.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Add holdings or SIPs to earmark them for this goal.</p>
+              ) : (
+                <div className="max-h-64 overflow-y-auto space-y-1">
+                  {options.map((option) => {
+                    const isSelected = earmarks[option.id] !== undefined
+                    const isFull = option.earmarkedPercent >= 100 && !isSelected
+                    return (
+                      <div key={option.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+                        <Checkbox
+                          id={`earmark-${option.id}`}
+                          checked={isSelected}
+                          disabled={isFull}
+                          onCheckedChange={(checked: boolean) => toggleEarmark(option, checked)}
+                        />
+                        <label htmlFor={`earmark-${option.id}`} className="flex-1 min-w-0 cursor-pointer text-sm">
+                          <p className="truncate">{option.label}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {option.type === "SIP" ? `${formatAmount(option.value, currency)}/month SIP` : formatAmount(option.value, currency)}
+                            {option.earmarkedPercent > 0 && ` • ${option.earmarkedPercent}% used by other goals`}
+                          </p>
+                        </label>
+                        {isSelected && (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              step="1"
+                              value={earmarks[option.id]}
+                              onChange={(e) => setEarmarks((current) => ({ ...current, [option.id]: e.target.value }))}
+                              className="w-20 h-8 bg-background"
+                            />
+                            <span className="text-sm text-muted-foreground">%</span>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Textarea id="notes" {...register("notes")} rows={2} className="bg-background resize-none" />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                goal ? "Save Goal" : "Add Goal"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
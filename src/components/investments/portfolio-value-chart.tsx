@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { LineChart } from "lucide-react"
+import { format } from "date-fns"
+import { NET_WORTH_DEFAULT_RANGE_DAYS, NET_WORTH_RANGES } from "@/constants"
+import type { PortfolioValuePoint } from "@/types"
+
+const formatCompact = (value: number) => {
+  const abs = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (abs >= 10000000) return `${sign}₹${(abs / 10000000).toFixed(1)}Cr`
+  if (abs >= 100000) return `${sign}₹${(abs / 100000).toFixed(1)}L`
+  if (abs >= 1000) return `${sign}₹${(abs / 1000).toFixed(0)}K`
+  return `${sign}₹${abs.toFixed(0)}`
+}
+
+export function PortfolioValueChart() {
+  const [days, setDays] = useState(NET_WORTH_DEFAULT_RANGE_DAYS.toString())
+  const [history, setHistory] = useState<PortfolioValuePoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/investments/value-history?days=${days}`)
+        if (!response.ok) throw new Error("Failed to load portfolio value")
+        setHistory(await response.json())
+      } catch (error) {
+        console.error("Error fetching portfolio value history:", error)
+        toast.error("Failed to load portfolio value")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchHistory()
+  }, [days])
+
+  if (isLoading) {
+    return <div className="animate-pulse h-80 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+  }
+
+  // Skip the days before the first purchase in the range
+  const firstHeld = history.findIndex(point => point.value > 0 || point.invested !== 0)
+  const chartData = (firstHeld < 0 ? [] : history.slice(firstHeld)).map(point => ({
+    ...point,
+    label: format(new Date(point.date), "dd MMM yy"),
+  }))
+
+  return (
+    <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+      <div className="relative p-6 space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <h3 className="text-xl font-bold flex items-center gap-2 text-gray-900 dark:text-white">
+            <LineChart className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+            Portfolio Value
+          </h3>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[130px] bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NET_WORTH_RANGES.map((range) => (
+                <SelectItem key={range.value} value={range.value}>
+                  {range.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {chartData.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No investments held in this period.
+          </p>
+        ) : (
+          <div className="h-72 sm:h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                <YAxis tickFormatter={formatCompact} tick={{ fontSize: 12 }} width={70} />
+                <Tooltip
+                  formatter={(value, name) => [
+                    `₹${Number(value).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`,
+                    name,
+                  ]}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Area
+                  type="monotone"
+                  dataKey="invested"
+                  name="Invested"
+                  stroke="#9ca3af"
+                  fill="#9ca3af"
+                  fillOpacity={0.15}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="value"
+                  name="Value"
+                  stroke="#3b82f6"
+                  fill="#3b82f6"
+                  fillOpacity={0.25}
+                  strokeWidth={2}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,393 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Loader2, Save, Scale, ShoppingCart } from "lucide-react"
+import {
+  BUCKET_LABELS,
+  CAPITAL_GAIN_HEAD_LABELS,
+  INVESTMENT_BUCKETS,
+  REBALANCE_DEFAULT_TOLERANCE_PERCENT,
+  REBALANCE_MODES,
+  getCurrencySymbol,
+} from "@/constants"
+import type { InvestmentBucket, RebalanceMode, RebalancePlan, TargetAllocation } from "@/types"
+
+interface TargetInput {
+  target: string
+  tolerance: string
+}
+
+const emptyTargets = (): Record<InvestmentBucket, TargetInput> => ({
+  MUTUAL_FUND: { target: "", tolerance: String(REBALANCE_DEFAULT_TOLERANCE_PERCENT) },
+  IND_STOCK: { target: "", tolerance: String(REBALANCE_DEFAULT_TOLERANCE_PERCENT) },
+  US_STOCK: { target: "", tolerance: String(REBALANCE_DEFAULT_TOLERANCE_PERCENT) },
+  CRYPTO: { target: "", tolerance: String(REBALANCE_DEFAULT_TOLERANCE_PERCENT) },
+  EMERGENCY_FUND: { target: "", tolerance: String(REBALANCE_DEFAULT_TOLERANCE_PERCENT) },
+})
+
+export function RebalancingAdvisor() {
+  const [targets, setTargets] = useState(emptyTargets)
+  const [mode, setMode] = useState<RebalanceMode>("BUY_ONLY")
+  const [cash, setCash] = useState("")
+  const [plan, setPlan] = useState<RebalancePlan | null>(null)
+  const [currency, setCurrency] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSavingTargets, setIsSavingTargets] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const fetchPlan = useCallback(async (planMode: RebalanceMode, planCash: string, loadTargets = false) => {
+    try {
+      const params = new URLSearchParams({ mode: planMode })
+      if (planCash !== "") params.set("cash", planCash)
+      const response = await fetch(`/api/investments/rebalance?${params}`)
+      if (!response.ok) throw new Error("Failed to load rebalancing plan")
+      const data = await response.json()
+      setPlan(data.plan)
+      setCurrency(data.currency)
+      if (loadTargets) {
+        const loaded = emptyTargets()
+        for (const target of data.targets as TargetAllocation[]) {
+          loaded[target.bucket] = { target: String(target.targetPercent), tolerance: String(target.tolerancePercent) }
+        }
+        setTargets(loaded)
+        setCash(data.suggestedCash > 0 ? String(Math.round(data.suggestedCash)) : "")
+      }
+    } catch (error) {
+      console.error("Error fetching rebalancing plan:", error)
+      toast.error("Failed to load rebalancing plan")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPlan("BUY_ONLY", "", true)
+  }, [fetchPlan])
+
+  const totalTarget = Object.values(targets).reduce((sum, input) => sum + (Number(input.target) || 0), 0)
+
+  const handleTargetChange = (bucket: InvestmentBucket, field: keyof TargetInput, value: string) => {
+    setTargets((prev) => ({ ...prev, [bucket]: { ...prev[bucket], [field]: value } }))
+  }
+
+  const handleSaveTargets = async () => {
+    setIsSavingTargets(true)
+    try {
+      const payload = INVESTMENT_BUCKETS
+        .filter((bucket) => Number(targets[bucket.id].target) > 0)
+        .map((bucket) => ({
+          bucket: bucket.id,
+          targetPercent: Number(targets[bucket.id].target),
+          tolerancePercent: Number(targets[bucket.id].tolerance) || 0,
+        }))
+
+      const response = await fetch("/api/investments/rebalance/targets", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error(data.error || "Failed to save target allocation")
+        return
+      }
+
+      toast.success("Target allocation saved")
+      await fetchPlan(mode, cash)
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsSavingTargets(false)
+    }
+  }
+
+  const handleModeChange = (value: RebalanceMode) => {
+    setMode(value)
+    fetchPlan(value, cash)
+  }
+
+  const buyTrades = plan?.trades.filter((trade) => trade.action === "BUY" && trade.holdingId) ?? []
+
+  const handleCreateInvestments = async () => {
+    setIsCreating(true)
+    try {
+      const response = await fetch("/api/investments/rebalance/execute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          purchases: buyTrades.map((trade) => ({ holdingId: trade.holdingId, amount: trade.amount })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.error || "Failed to create investments")
+        return
+      }
+
+      toast.success(data.message)
+      await fetchPlan(mode, "0")
+      setCash("0")
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+  }
+
+  const currencySymbol = getCurrencySymbol(currency)
+  const formatAmount = (amount: number) =>
+    `${currencySymbol}${amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+  return (
+    <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+      <div className="absolute inset-0 bg-gradient-to-br from-purple-500/5 via-transparent to-blue-500/5 pointer-events-none"></div>
+      <div className="relative p-6 space-y-6">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center space-x-2">
+            <Scale className="h-5 w-5" />
+            <span>Rebalancing Advisor</span>
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Set target weights for your holdings and see the trades that bring them back within their bands
+          </p>
+        </div>
+
+        {/* Target weights */}
+        <div className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            {INVESTMENT_BUCKETS.map((bucket) => (
+              <div key={bucket.id} className="p-3 rounded-lg border border-border/50 bg-gray-50/50 dark:bg-gray-900/50 space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className={`w-3 h-3 rounded-full ${bucket.color}`} />
+                  <span className="text-sm font-semibold">{bucket.label}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`target-${bucket.id}`} className="text-xs">Target %</Label>
+                    <Input
+                      id={`target-${bucket.id}`}
+                      type="number"
+                      step="1"
+                      min="0"
+                      max="100"
+                      placeholder="0"
+                      value={targets[bucket.id].target}
+                      onChange={(e) => handleTargetChange(bucket.id, "target", e.target.value)}
+                      className="bg-background"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`tolerance-${bucket.id}`} className="text-xs">Band ±%</Label>
+                    <Input
+                      id={`tolerance-${bucket.id}`}
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      value={targets[bucket.id].tolerance}
+                      onChange={(e) => handleTargetChange(bucket.id, "tolerance", e.target.value)}
+                      className="bg-background"
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <p className={`text-sm font-medium ${totalTarget === 0 || Math.abs(totalTarget - 100) <= 0.01 ? "text-gray-600 dark:text-gray-400" : "text-red-600 dark:text-red-400"}`}>
+              Total target: {totalTarget.toFixed(1)}%
+            </p>
+            <Button
+              onClick={handleSaveTargets}
+              disabled={isSavingTargets || (totalTarget !== 0 && Math.abs(totalTarget - 100) > 0.01)}
+            >
+              {isSavingTargets ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Targets
+            </Button>
+          </div>
+        </div>
+
+        {plan && plan.drifts.length === 0 ? (
+          <div className="text-center py-8 border-2 border-dashed rounded-lg text-sm text-muted-foreground">
+            Save target weights that add up to 100% to see how far your holdings have drifted
+          </div>
+        ) : plan && (
+          <>
+            {/* Drift */}
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50 dark:bg-gray-900">
+                    <TableHead className="font-semibold">Bucket</TableHead>
+                    <TableHead className="text-right font-semibold">Value</TableHead>
+                    <TableHead className="text-right font-semibold">Current</TableHead>
+                    <TableHead className="text-right font-semibold">Target</TableHead>
+                    <TableHead className="text-right font-semibold">Drift</TableHead>
+                    <TableHead className="font-semibold">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.drifts.map((drift) => (
+                    <TableRow key={drift.bucket}>
+                      <TableCell className="font-medium">{BUCKET_LABELS[drift.bucket]}</TableCell>
+                      <TableCell className="text-right">{formatAmount(drift.value)}</TableCell>
+                      <TableCell className="text-right">{drift.currentPercent.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">
+                        {drift.targetPercent.toFixed(1)}% <span className="text-xs text-muted-foreground">±{drift.tolerancePercent}</span>
+                      </TableCell>
+                      <TableCell className={`text-right ${drift.drift > 0 ? "text-orange-600 dark:text-orange-400" : "text-blue-600 dark:text-blue-400"}`}>
+                        {drift.drift > 0 ? "+" : ""}{drift.drift.toFixed(1)}%
+                      </TableCell>
+                      <TableCell>
+                        {drift.isOutOfBand ? (
+                          <Badge variant="destructive">Out of band</Badge>
+                        ) : (
+                          <Badge variant="secondary">Within band</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Plan inputs */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Mode</Label>
+                <Select value={mode} onValueChange={(value) => handleModeChange(value as RebalanceMode)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REBALANCE_MODES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rebalanceCash">New Money ({currencySymbol.trim()})</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="rebalanceCash"
+                    type="number"
+                    step="1000"
+                    min="0"
+                    value={cash}
+                    onChange={(e) => setCash(e.target.value)}
+                    className="bg-background"
+                  />
+                  <Button variant="outline" onClick={() => fetchPlan(mode, cash)}>
+                    Update
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {/* Trades */}
+            {plan.trades.length === 0 ? (
+              <div className="text-center py-6 border-2 border-dashed rounded-lg text-sm text-muted-foreground">
+                {plan.needsRebalance
+                  ? "Add new money or switch to buy and sell to bring your holdings back within their bands"
+                  : "Your holdings are within their bands; no trades needed"}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50 dark:bg-gray-900">
+                        <TableHead className="font-semibold">Action</TableHead>
+                        <TableHead className="font-semibold">Bucket</TableHead>
+                        <TableHead className="font-semibold">Holding</TableHead>
+                        <TableHead className="text-right font-semibold">Amount</TableHead>
+                        <TableHead className="text-right font-semibold">Est. Gain</TableHead>
+                        <TableHead className="text-right font-semibold">Est. Tax</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.trades.map((trade, index) => (
+                        <TableRow key={`${trade.action}-${trade.bucket}-${trade.holdingId ?? index}`}>
+                          <TableCell>
+                            <Badge className={`${trade.action === "BUY" ? "bg-green-600" : "bg-red-600"} text-white`}>
+                              {trade.action === "BUY" ? "Buy" : "Sell"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{BUCKET_LABELS[trade.bucket]}</TableCell>
+                          <TableCell>
+                            {trade.symbol ? (
+                              <div>
+                                <p className="font-medium">{trade.symbol}</p>
+                                {trade.name && <p className="text-xs text-muted-foreground truncate max-w-[200px]">{trade.name}</p>}
+                              </div>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">No holding yet</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatAmount(trade.amount)}</TableCell>
+                          <TableCell className={`text-right ${(trade.estimatedGain ?? 0) < 0 ? "text-red-600 dark:text-red-400" : ""}`}>
+                            {trade.estimatedGain !== null ? formatAmount(trade.estimatedGain) : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {trade.estimatedTax !== null ? (
+                              <div>
+                                <p>{formatAmount(trade.estimatedTax)}</p>
+                                {trade.taxHeads.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    {trade.taxHeads.map((head) => CAPITAL_GAIN_HEAD_LABELS[head]).join(", ")}
+                                  </p>
+                                )}
+                              </div>
+                            ) : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="text-sm text-gray-600 dark:text-gray-400 space-x-4">
+                    <span>Buy: <strong>{formatAmount(plan.totalBuy)}</strong></span>
+                    {plan.totalSell > 0 && <span>Sell: <strong>{formatAmount(plan.totalSell)}</strong></span>}
+                    {plan.totalSell > 0 && <span>Est. tax: <strong>{formatAmount(plan.estimatedTax)}</strong></span>}
+                  </div>
+                  <Button onClick={handleCreateInvestments} disabled={isCreating || buyTrades.length === 0}>
+                    {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShoppingCart className="h-4 w-4 mr-2" />}
+                    Create One-Time Investments
+                  </Button>
+                </div>
+                {plan.totalSell > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Sells are not recorded automatically; use Sell on each holding once done. The tax estimate
+                    offsets losses within each head, uses what is left of this year&apos;s equity LTCG exemption and
+                    includes cess but not surcharge.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,349 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { BUCKET_LABELS, CAPITAL_GAIN_TERM_LABELS, EQUITY_BUCKETS, getCurrencySymbol } from "@/constants"
+import type { Holding, InvestmentBucket, MatchedLot } from "@/types"
+
+const positiveNumber = (message: string) =>
+  z.string().min(1, message).refine((val) => !isNaN(Number(val)) && Number(val) > 0, message)
+
+const optionalPositiveNumber = z
+  .string()
+  .optional()
+  .refine((val) => !val || (!isNaN(Number(val)) && Number(val) > 0), "Must be a positive number")
+
+const sellFormSchema = z.object({
+  qty: positiveNumber("Quantity must be a positive number"),
+  price: positiveNumber("Sale price must be a positive number"),
+  saleDate: z.string().min(1, "Sale date is required"),
+  inrRate: optionalPositiveNumber,
+  fmvJan2018: optionalPositiveNumber,
+  description: z.string().optional(),
+})
+
+type SellFormData = z.infer<typeof sellFormSchema>
+
+interface SellHoldingModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+  holding: Holding
+}
+
+export function SellHoldingModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  holding,
+}: SellHoldingModalProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [bookedLots, setBookedLots] = useState<MatchedLot[] | null>(null)
+
+  const currencySymbol = getCurrencySymbol(holding.currency)
+  const isEquity = EQUITY_BUCKETS.includes(holding.bucket as InvestmentBucket)
+  const heldBeforeGrandfathering = isEquity && new Date(holding.createdAt) < new Date(2018, 1, 1)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<SellFormData>({
+    resolver: zodResolver(sellFormSchema),
+    defaultValues: {
+      qty: holding.qty.toString(),
+      price: holding.currentPrice ? holding.currentPrice.toString() : "",
+      saleDate: new Date().toISOString().split("T")[0],
+      inrRate: "",
+      fmvJan2018: holding.fmvJan2018 ? holding.fmvJan2018.toString() : "",
+      description: "",
+    },
+  })
+
+  const qtyNum = Number(watch("qty")) || 0
+  const priceNum = Number(watch("price")) || 0
+  const saleValue = qtyNum * priceNum
+  const estimatedGain = qtyNum * (priceNum - holding.avgCost)
+
+  const handleClose = () => {
+    onOpenChange(false)
+    setBookedLots(null)
+    reset()
+  }
+
+  const onSubmit = async (data: SellFormData) => {
+    try {
+      setIsLoading(true)
+
+      const payload = {
+        qty: Number(data.qty),
+        price: Number(data.price),
+        saleDate: data.saleDate,
+        inrRate: data.inrRate ? Number(data.inrRate) : undefined,
+        fmvJan2018: data.fmvJan2018 ? Number(data.fmvJan2018) : undefined,
+        description: data.description || undefined,
+      }
+
+      const response = await fetch(`/api/investments/holdings/${holding.id}/sell`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to record sale")
+      }
+
+      const result = await response.json()
+      const gain = Number(result.realizedGain)
+      toast.success(
+        `Sale recorded · ${gain >= 0 ? "Gain" : "Loss"} of ₹${Math.abs(gain).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+      )
+      setBookedLots(result.lots)
+      onSuccess()
+    } catch (error) {
+      console.error("Error recording sale:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to record sale")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(value) : handleClose())}>
+      <DialogContent className="max-w-lg bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Sell {holding.symbol}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Units are matched first-in, first-out against your purchases
+          </DialogDescription>
+        </DialogHeader>
+
+        {bookedLots ? (
+          <div className="space-y-4">
+            <div className="rounded-lg border border-border/50 divide-y divide-border/50">
+              {bookedLots.map((lot, index) => (
+                <div key={index} className="p-3 text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {lot.qty.toLocaleString(undefined, { maximumFractionDigits: 6 })} units bought{" "}
+                      {new Date(lot.acquiredOn).toLocaleDateString()}
+                    </span>
+                    <span className="font-medium">{CAPITAL_GAIN_TERM_LABELS[lot.term]}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Gain / Loss</span>
+                    <span className={lot.gain >= 0 ? "font-semibold text-green-600" : "font-semibold text-red-600"}>
+                      ₹{lot.gain.toLocaleString("en-IN", { maximumFractionDigits: 2 })}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button className="w-full" onClick={handleClose}>
+              Done
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {/* Summary Card */}
+            <div className="p-4 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 backdrop-blur-sm border border-border/50 space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Bucket</span>
+                <span className="font-semibold">{BUCKET_LABELS[holding.bucket] || holding.bucket}</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Units Held</span>
+                <span className="font-semibold">
+                  {holding.qty.toLocaleString(undefined, { maximumFractionDigits: 9 })}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Average Cost</span>
+                <span className="font-semibold">
+                  {currencySymbol}{holding.avgCost.toLocaleString(undefined, { maximumFractionDigits: 4 })}
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="qty">
+                    Quantity <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="qty"
+                    {...register("qty")}
+                    type="number"
+                    step="any"
+                    className="bg-background"
+                  />
+                  {errors.qty && (
+                    <p className="text-sm text-destructive">{errors.qty.message}</p>
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setValue("qty", holding.qty.toString())}
+                  >
+                    Sell All
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="price">
+                    Sale Price ({currencySymbol}) <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="price"
+                    {...register("price")}
+                    type="number"
+                    step="any"
+                    className="bg-background"
+                  />
+                  {errors.price && (
+                    <p className="text-sm text-destructive">{errors.price.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="saleDate">
+                  Sale Date <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="saleDate"
+                  {...register("saleDate")}
+                  type="date"
+                  className="bg-background"
+                />
+                {errors.saleDate && (
+                  <p className="text-sm text-destructive">{errors.saleDate.message}</p>
+                )}
+              </div>
+
+              {holding.currency !== "INR" && (
+                <div className="space-y-2">
+                  <Label htmlFor="inrRate">{holding.currency}/INR Rate on Sale Date</Label>
+                  <Input
+                    id="inrRate"
+                    {...register("inrRate")}
+                    type="number"
+                    step="0.0001"
+                    placeholder="Leave blank to use today's rate"
+                    className="bg-background"
+                  />
+                  {errors.inrRate && (
+                    <p className="text-sm text-destructive">{errors.inrRate.message}</p>
+                  )}
+                </div>
+              )}
+
+              {(heldBeforeGrandfathering || holding.fmvJan2018) && (
+                <div className="space-y-2">
+                  <Label htmlFor="fmvJan2018">FMV per unit on 31-Jan-2018</Label>
+                  <Input
+                    id="fmvJan2018"
+                    {...register("fmvJan2018")}
+                    type="number"
+                    step="any"
+                    placeholder="Highest price on 31-Jan-2018 (NAV for funds)"
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Used as cost for units bought on or before 31-Jan-2018 (grandfathering)
+                  </p>
+                  {errors.fmvJan2018 && (
+                    <p className="text-sm text-destructive">{errors.fmvJan2018.message}</p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Notes (Optional)</Label>
+                <Textarea
+                  id="description"
+                  {...register("description")}
+                  placeholder="Add any notes about this sale..."
+                  rows={2}
+                  className="bg-background resize-none"
+                />
+              </div>
+            </div>
+
+            {/* Preview */}
+            {saleValue > 0 && (
+              <div className="p-4 rounded-lg bg-blue-50/50 dark:bg-blue-900/10 border border-blue-200 dark:border-blue-800 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Sale Value</span>
+                  <span className="font-bold text-lg">
+                    {currencySymbol}{saleValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">Approx. gain at average cost</span>
+                  <span className={estimatedGain >= 0 ? "font-semibold text-green-600" : "font-semibold text-red-600"}>
+                    {currencySymbol}{estimatedGain.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The booked gain uses FIFO lot cost and may differ
+                </p>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClose}
+                className="flex-1"
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading || qtyNum <= 0 || qtyNum > holding.qty}
+                className="flex-1"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Recording...
+                  </>
+                ) : (
+                  "Record Sale"
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { CalendarDays } from "lucide-react"
+import { format } from "date-fns"
+import {
+  SIP_INSTALMENT_STATUS_COLORS,
+  SIP_INSTALMENT_STATUS_LABELS,
+  getCurrencySymbol,
+} from "@/constants"
+import type { SIPCalendarMonth } from "@/types"
+
+interface SIPCalendarProps {
+  refreshKey: number
+}
+
+// Instalments listed per month before collapsing the rest into a count (daily SIPs)
+const MAX_INSTALMENTS = 6
+
+export function SIPCalendar({ refreshKey }: SIPCalendarProps) {
+  const [months, setMonths] = useState<SIPCalendarMonth[]>([])
+  const [currency, setCurrency] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchCalendar = async () => {
+      try {
+        const response = await fetch("/api/sips/calendar")
+        if (!response.ok) throw new Error("Failed to load SIP calendar")
+        const data = await response.json()
+        setMonths(data.months)
+        setCurrency(data.currency)
+      } catch (error) {
+        console.error("Error fetching SIP calendar:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchCalendar()
+  }, [refreshKey])
+
+  if (isLoading) {
+    return <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+  }
+
+  if (months.every((month) => month.instalments.length === 0)) return null
+
+  const currencySymbol = getCurrencySymbol(currency)
+  const formatAmount = (amount: number) =>
+    `${currencySymbol}${amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+  return (
+    <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+      <div className="absolute inset-0 bg-gradient-to-br from-purple-500/5 via-transparent to-blue-500/5 pointer-events-none"></div>
+      <div className="relative p-6">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Projected SIP Calendar
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          Upcoming instalments of your active SIPs with step-ups applied; paused and skipped ones are not counted
+        </p>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {months.map((month) => (
+            <div
+              key={`${month.year}-${month.month}`}
+              className="p-3 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50 space-y-2"
+            >
+              <div className="flex items-center justify-between">
+                <p className="font-semibold">{format(new Date(month.year, month.month - 1, 1), "MMM yyyy")}</p>
+                <p className="font-bold text-green-600 dark:text-green-400">{formatAmount(month.total)}</p>
+              </div>
+              {month.instalments.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No instalments</p>
+              ) : (
+                <div className="space-y-1">
+                  {month.instalments.slice(0, MAX_INSTALMENTS).map((instalment) => (
+                    <div key={`${instalment.sipId}-${instalment.date}`} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="truncate">
+                        <span className="text-muted-foreground">{format(new Date(instalment.date), "d MMM")}</span>{" "}
+                        {instalment.sipName}
+                      </span>
+                      <span className="flex items-center gap-1 shrink-0">
+                        {instalment.status !== "SCHEDULED" && (
+                          <Badge className={`${SIP_INSTALMENT_STATUS_COLORS[instalment.status]} text-white text-[10px] px-1.5 py-0`}>
+                            {SIP_INSTALMENT_STATUS_LABELS[instalment.status]}
+                          </Badge>
+                        )}
+                        <span className={instalment.status === "SCHEDULED" ? "" : "line-through text-muted-foreground"}>
+                          {formatAmount(instalment.amount)}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                  {month.instalments.length > MAX_INSTALMENTS && (
+                    <p className="text-xs text-muted-foreground">
+                      +{month.instalments.length - MAX_INSTALMENTS} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
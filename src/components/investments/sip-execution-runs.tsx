@@ -0,0 +1,99 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { History } from "lucide-react"
+import { format } from "date-fns"
+import { SIP_RUN_STATUS_COLORS, SIP_RUN_STATUS_LABELS, SIP_RUN_TRIGGER_LABELS } from "@/constants"
+import type { SIPExecutionRun } from "@/types"
+
+interface SIPExecutionRunsProps {
+  refreshKey: number
+}
+
+const formatDuration = (run: SIPExecutionRun) => {
+  if (!run.finishedAt) return "-"
+  const seconds = Math.max(0, Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000))
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+export function SIPExecutionRuns({ refreshKey }: SIPExecutionRunsProps) {
+  const [runs, setRuns] = useState<SIPExecutionRun[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        const response = await fetch("/api/investments/sip-executions/runs")
+        if (!response.ok) throw new Error("Failed to load SIP execution runs")
+        setRuns(await response.json())
+      } catch (error) {
+        console.error("Error fetching SIP execution runs:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchRuns()
+  }, [refreshKey])
+
+  if (isLoading) {
+    return <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 via-transparent to-indigo-500/5 pointer-events-none"></div>
+      <div className="relative p-6">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Run Log
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          Recent runs of the SIP engine with the outcome of your instalments in each
+        </p>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The SIP engine has not run yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50 dark:bg-gray-900">
+                  <TableHead className="font-semibold">Started</TableHead>
+                  <TableHead className="font-semibold">Trigger</TableHead>
+                  <TableHead className="font-semibold">Status</TableHead>
+                  <TableHead className="text-right font-semibold">Duration</TableHead>
+                  <TableHead className="text-right font-semibold">Succeeded</TableHead>
+                  <TableHead className="text-right font-semibold">Failed</TableHead>
+                  <TableHead className="text-right font-semibold">Pending</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(run.startedAt), "d MMM yyyy, HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{SIP_RUN_TRIGGER_LABELS[run.trigger]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={`${SIP_RUN_STATUS_COLORS[run.status]} text-white`}>
+                        {SIP_RUN_STATUS_LABELS[run.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{formatDuration(run)}</TableCell>
+                    <TableCell className="text-right text-green-600 dark:text-green-400">{run.succeeded}</TableCell>
+                    <TableCell className="text-right text-red-600 dark:text-red-400">{run.failed}</TableCell>
+                    <TableCell className="text-right text-yellow-600 dark:text-yellow-400">{run.pending}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,288 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { Loader2, Plus, X } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import { getOccurrencesBetween } from "@/lib/frequency-utils"
+import { SIP_STEP_UP_TYPES } from "@/constants"
+import type { SIP, SIPStepUpType } from "@/types"
+
+interface SIPScheduleModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sip: SIP | null
+  onSuccess?: () => void
+}
+
+interface PauseInput {
+  startDate: string
+  endDate: string
+  reason: string
+}
+
+interface SkipInput {
+  date: string
+  reason: string
+}
+
+// Upcoming instalments offered for a one-off skip
+const SKIP_OPTIONS = 24
+
+const NO_STEP_UP = "NONE"
+
+const toDateInput = (date: string | Date) => format(new Date(date), "yyyy-MM-dd")
+
+export function SIPScheduleModal({ open, onOpenChange, sip, onSuccess }: SIPScheduleModalProps) {
+  const [stepUpType, setStepUpType] = useState<SIPStepUpType | typeof NO_STEP_UP>(NO_STEP_UP)
+  const [stepUpValue, setStepUpValue] = useState("")
+  const [pauses, setPauses] = useState<PauseInput[]>([])
+  const [skips, setSkips] = useState<SkipInput[]>([])
+  const [newSkip, setNewSkip] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!open || !sip) return
+    setStepUpType(sip.stepUpType ?? NO_STEP_UP)
+    setStepUpValue(sip.stepUpValue ? String(Number(sip.stepUpValue)) : "")
+    setPauses((sip.pauses ?? []).map((pause) => ({
+      startDate: toDateInput(pause.startDate),
+      endDate: toDateInput(pause.endDate),
+      reason: pause.reason ?? "",
+    })))
+    setSkips((sip.skips ?? []).map((skip) => ({ date: toDateInput(skip.date), reason: skip.reason ?? "" })))
+    setNewSkip("")
+  }, [open, sip])
+
+  const skipOptions = useMemo(() => {
+    if (!sip) return []
+    const today = new Date()
+    const horizon = new Date(today.getFullYear() + 2, today.getMonth(), today.getDate())
+    return getOccurrencesBetween(new Date(sip.startDate), sip.frequency, today, horizon, sip.customDay)
+      .filter((date) => !sip.endDate || date <= new Date(sip.endDate))
+      .map(toDateInput)
+      .filter((date) => !skips.some((skip) => skip.date === date))
+      .slice(0, SKIP_OPTIONS)
+  }, [sip, skips])
+
+  const updatePause = (index: number, field: keyof PauseInput, value: string) => {
+    setPauses((prev) => prev.map((pause, i) => (i === index ? { ...pause, [field]: value } : pause)))
+  }
+
+  const handleAddSkip = () => {
+    if (!newSkip) return
+    setSkips((prev) => [...prev, { date: newSkip, reason: "" }].sort((a, b) => a.date.localeCompare(b.date)))
+    setNewSkip("")
+  }
+
+  const handleSubmit = async () => {
+    if (!sip) return
+    if (pauses.some((pause) => !pause.startDate || !pause.endDate)) {
+      toast.error("Each pause needs a start and end date")
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/sips/${sip.id}/schedule`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          stepUpType: stepUpType === NO_STEP_UP ? null : stepUpType,
+          stepUpValue: stepUpType === NO_STEP_UP || !stepUpValue ? null : Number(stepUpValue),
+          pauses: pauses.map((pause) => ({ ...pause, reason: pause.reason || undefined })),
+          skips: skips.map((skip) => ({ ...skip, reason: skip.reason || undefined })),
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        toast.error(error.error || "Failed to save schedule")
+        return
+      }
+
+      toast.success("SIP schedule saved")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch {
+      toast.error("An error occurred")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Step-Up, Pauses &amp; Skips
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {sip?.name}: raise the amount every year, pause for a while or skip a single instalment
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Step-up */}
+          <div className="space-y-2">
+            <Label className="font-semibold">Annual Step-Up</Label>
+            <div className="grid grid-cols-2 gap-4">
+              <Select value={stepUpType} onValueChange={(value) => setStepUpType(value as SIPStepUpType | typeof NO_STEP_UP)}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STEP_UP}>No step-up</SelectItem>
+                  {SIP_STEP_UP_TYPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step={stepUpType === "PERCENT" ? "1" : "100"}
+                min="0"
+                placeholder={stepUpType === "PERCENT" ? "e.g. 10" : "e.g. 1000"}
+                value={stepUpValue}
+                onChange={(e) => setStepUpValue(e.target.value)}
+                disabled={stepUpType === NO_STEP_UP}
+                className="bg-background"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Applied on every anniversary of the start date{sip ? ` (${format(new Date(sip.startDate), "d MMM")})` : ""}
+            </p>
+          </div>
+
+          {/* Pauses */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="font-semibold">Pauses</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPauses((prev) => [...prev, { startDate: "", endDate: "", reason: "" }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Pause
+              </Button>
+            </div>
+            {pauses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pauses. Instalments between a pause&apos;s start and end dates are not invested.</p>
+            ) : (
+              pauses.map((pause, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    type="date"
+                    value={pause.startDate}
+                    onChange={(e) => updatePause(index, "startDate", e.target.value)}
+                    className="bg-background"
+                  />
+                  <Input
+                    type="date"
+                    value={pause.endDate}
+                    onChange={(e) => updatePause(index, "endDate", e.target.value)}
+                    className="bg-background"
+                  />
+                  <Input
+                    placeholder="Reason (optional)"
+                    value={pause.reason}
+                    onChange={(e) => updatePause(index, "reason", e.target.value)}
+                    className="bg-background"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPauses((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Skips */}
+          <div className="space-y-2">
+            <Label className="font-semibold">Skipped Instalments</Label>
+            <div className="flex gap-2">
+              <Select value={newSkip} onValueChange={setNewSkip}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue placeholder="Choose an upcoming instalment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {skipOptions.map((date) => (
+                    <SelectItem key={date} value={date}>
+                      {format(parseISO(date), "d MMM yyyy")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" variant="outline" onClick={handleAddSkip} disabled={!newSkip}>
+                <Plus className="h-4 w-4 mr-1" />
+                Skip
+              </Button>
+            </div>
+            {skips.map((skip, index) => (
+              <div key={skip.date} className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center">
+                <span className="text-sm font-medium">{format(parseISO(skip.date), "d MMM yyyy")}</span>
+                <Input
+                  placeholder="Reason (optional)"
+                  value={skip.reason}
+                  onChange={(e) => setSkips((prev) => prev.map((item, i) => (i === index ? { ...item, reason: e.target.value } : item)))}
+                  className="bg-background"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSkips((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="flex-1"
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting} className="flex-1">
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save Schedule"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
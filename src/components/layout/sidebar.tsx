@@ -25,6 +25,14 @@ import {
   Users,
   Shield,
   Banknote,
+  Upload,
+  Wand2,
+  Landmark,
+  Activity,
+  Gift,
+  Target,
+  Sunset,
+  History,
 } from "lucide-react"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
@@ -35,6 +43,9 @@ import { Role } from "@/constants"
 
 const navigation: NavigationItem[] = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
+  { name: "Net Worth", href: "/net-worth", icon: Landmark },
+  { name: "Goals", href: "/goals", icon: Target },
+  { name: "Retirement", href: "/retirement", icon: Sunset },
   { name: "Profile", href: "/profile", icon: User },
   { name: "Income", href: "/income", icon: TrendingUp },
   { name: "Tax", href: "/tax", icon: Calculator },
@@ -49,6 +60,9 @@ const navigation: NavigationItem[] = [
       { name: "SIPs", href: "/investments/sips", icon: Repeat },
       { name: "Transactions", href: "/investments/transactions", icon: Receipt },
       { name: "SIP Executions", href: "/investments/sip-executions", icon: TrendingUp },
+      { name: "Import CAS", href: "/investments/import", icon: Upload },
+      { name: "Capital Gains", href: "/investments/capital-gains", icon: FileText },
+      { name: "Returns", href: "/investments/overview", icon: Activity },
     ],
   },
   {
@@ -57,11 +71,22 @@ const navigation: NavigationItem[] = [
     icon: Receipt,
     children: [
       { name: "Add Expense", href: "/expenses?add=true", icon: Plus },
+      { name: "Import Statement", href: "/expenses/import", icon: Upload },
+      { name: "Rules", href: "/expenses/rules", icon: Wand2 },
       { name: "Budget", href: "/expenses/budget", icon: PieChart },
       { name: "Reports", href: "/expenses/reports", icon: FileText },
     ],
   },
-  { name: "Credit Cards", href: "/credit-cards", icon: CreditCard },
+  { name: "Recurring", href: "/recurring", icon: Repeat },
+  {
+    name: "Credit Cards",
+    href: "/credit-cards",
+    icon: CreditCard,
+    children: [
+      { name: "Statements", href: "/credit-cards/statements", icon: FileText },
+      { name: "Rewards", href: "/credit-cards/rewards", icon: Gift },
+    ],
+  },
   { name: "Members", href: "/members", icon: Users },
   { name: "Borrowed Funds", href: "/borrowed-funds", icon: Banknote },
   { name: "Monthly Snapshot", href: "/monthly-snapshot", icon: Calendar },
@@ -78,6 +103,7 @@ const adminNavigation: NavigationItem[] = [
       { name: "Customers", href: "/admin/users/customers", icon: User },
     ],
   },
+  { name: "Audit Log", href: "/admin/audit", icon: History },
   { name: "System Settings", href: "/admin/settings", icon: Settings },
 ]
 
@@ -12,7 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
 import { Loader2, Plus, X, Check, ChevronRight, ChevronLeft, Info } from "lucide-react"
-import { LOAN_TYPES, EMI_FREQUENCIES, type LoanType, type EMIFrequency } from "@/constants"
+import { CURRENCIES, DEFAULT_CURRENCY, LOAN_TYPES, EMI_FREQUENCIES, getCurrencySymbol, type LoanType, type EMIFrequency } from "@/constants"
 import { INDIAN_BANKS } from "@/constants/banks"
 import type { PaymentScheduleDate } from "@/types/finance"
 import { autoCalculateLoanField } from "@/lib/emi-calculator"
@@ -27,6 +27,7 @@ const loanFormSchema = z.object({
     (val) => !isNaN(Number(val)) && Number(val) > 0,
     "Principal amount must be a positive number"
   ),
+  currency: z.string(),
   interestRate: z.string().min(1, "Interest rate is required").refine(
     (val) => !isNaN(Number(val)) && Number(val) >= 0 && Number(val) <= 100,
     "Interest rate must be between 0 and 100"
@@ -71,6 +72,7 @@ interface AddLoanModalProps {
     institution: string
     accountHolderName: string
     principalAmount: number
+    currency: string
     interestRate: number
     tenure: number
     emiAmount: number
@@ -151,6 +153,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
   } = useForm<LoanFormData>({
     resolver: zodResolver(loanFormSchema),
     defaultValues: {
+      currency: DEFAULT_CURRENCY,
       emiFrequency: "MONTHLY",
     },
   })
@@ -162,6 +165,8 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
   const emiAmount = watch("emiAmount")
   const emiFrequency = watch("emiFrequency")
   const startDate = watch("startDate")
+  const currency = watch("currency")
+  const currencySymbol = getCurrencySymbol(currency ?? DEFAULT_CURRENCY)
 
   const isGoldLoan = loanType === "GOLD_LOAN"
 
@@ -191,6 +196,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
         setInstitutionInput(loan.institution)
         setValue("accountHolderName", loan.accountHolderName)
         setValue("principalAmount", loan.principalAmount.toString())
+        setValue("currency", loan.currency)
         setValue("interestRate", loan.interestRate.toString())
         setValue("tenure", loan.tenure.toString())
         setValue("emiAmount", loan.emiAmount.toString())
@@ -199,7 +205,8 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
         const dateObj = new Date(loan.startDate)
         const formattedDate = dateObj.toISOString().split('T')[0]
         setValue("startDate", formattedDate)
-        setValue("accountNumber", loan.accountNumber || "")
+        // The saved number comes back masked; left blank, it is kept as it is
+        setValue("accountNumber", "")
         setValue("description", loan.description || "")
 
         // Populate gold items if available
@@ -585,6 +592,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
         institution: data.institution,
         accountHolderName: data.accountHolderName,
         principalAmount: Number(data.principalAmount),
+        currency: data.currency,
         interestRate: Number(data.interestRate),
         tenure: data.tenure ? Number(data.tenure) : calculatedTenure || undefined,
         emiAmount: data.emiAmount ? Number(data.emiAmount) : calculatedEMI || undefined,
@@ -818,10 +826,26 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
         </p>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="currency">Currency</Label>
+        <Select value={currency} onValueChange={(value) => setValue("currency", value)}>
+          <SelectTrigger id="currency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CURRENCIES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-2">
           <Label htmlFor="principalAmount">
-            Principal Amount (₹) <span className="text-red-500">*</span>
+            Principal Amount ({currencySymbol.trim()}) <span className="text-red-500">*</span>
           </Label>
           <Input
             id="principalAmount"
@@ -871,7 +895,8 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
           <Label htmlFor="accountNumber">Account Number (Optional)</Label>
           <Input
             id="accountNumber"
-            placeholder="Enter account number"
+            placeholder={loan?.accountNumber ? `Leave blank to keep ${loan.accountNumber}` : "Enter account number"}
+            autoComplete="off"
             {...register("accountNumber")}
           />
           {errors.accountNumber && (
@@ -1076,7 +1101,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="space-y-2">
           <Label htmlFor="emiAmount">
-            EMI Amount (₹) {!tenure && !calculatedTenure && <span className="text-red-500">*</span>}
+            EMI Amount ({currencySymbol.trim()}) {!tenure && !calculatedTenure && <span className="text-red-500">*</span>}
           </Label>
           <Input
             id="emiAmount"
@@ -1172,7 +1197,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
           )}
           {calculatedEMI && (
             <p className="text-xs text-green-600 font-medium">
-              ✓ Calculated EMI Amount: ₹{calculatedEMI.toLocaleString()}
+              ✓ Calculated EMI Amount: {currencySymbol}{calculatedEMI.toLocaleString()}
             </p>
           )}
         </div>
@@ -1187,7 +1212,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
           <div className="grid grid-cols-2 gap-2 text-sm">
             <div>
               <span className="text-muted-foreground">Principal Amount:</span>
-              <p className="font-medium">₹{Number(principalAmount).toLocaleString()}</p>
+              <p className="font-medium">{currencySymbol}{Number(principalAmount).toLocaleString()}</p>
             </div>
             <div>
               <span className="text-muted-foreground">Interest Rate:</span>
@@ -1195,7 +1220,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
             </div>
             <div>
               <span className="text-muted-foreground">EMI Amount:</span>
-              <p className="font-medium">₹{(Number(emiAmount) || calculatedEMI || 0).toLocaleString()}</p>
+              <p className="font-medium">{currencySymbol}{(Number(emiAmount) || calculatedEMI || 0).toLocaleString()}</p>
             </div>
             <div>
               <span className="text-muted-foreground">Tenure:</span>
@@ -1203,11 +1228,11 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
             </div>
             <div className="col-span-2">
               <span className="text-muted-foreground">Total Amount Payable:</span>
-              <p className="font-medium text-lg">₹{((Number(emiAmount) || calculatedEMI || 0) * (Number(tenure) || calculatedTenure || 0)).toLocaleString()}</p>
+              <p className="font-medium text-lg">{currencySymbol}{((Number(emiAmount) || calculatedEMI || 0) * (Number(tenure) || calculatedTenure || 0)).toLocaleString()}</p>
             </div>
             <div className="col-span-2">
               <span className="text-muted-foreground">Total Interest:</span>
-              <p className="font-medium text-lg text-orange-600">₹{(((Number(emiAmount) || calculatedEMI || 0) * (Number(tenure) || calculatedTenure || 0)) - Number(principalAmount)).toLocaleString()}</p>
+              <p className="font-medium text-lg text-orange-600">{currencySymbol}{(((Number(emiAmount) || calculatedEMI || 0) * (Number(tenure) || calculatedTenure || 0)) - Number(principalAmount)).toLocaleString()}</p>
             </div>
           </div>
         </div>
@@ -1329,7 +1354,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
                     </Label>
                     {/* Mobile: Amount on the right */}
                     <div className={`sm:hidden flex-shrink-0 text-right text-xs font-semibold ${isPaid ? 'text-green-600 dark:text-green-400' : 'text-gray-700 dark:text-gray-300'}`}>
-                      ₹{Number(emi.amount).toLocaleString()}
+                      {currencySymbol}{Number(emi.amount).toLocaleString()}
                     </div>
                   </div>
 
@@ -1353,7 +1378,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
                     </div>
                     {/* Desktop: Amount on the right */}
                     <div className={`hidden sm:block flex-shrink-0 w-20 md:w-24 text-right text-xs sm:text-sm ${isPaid ? 'text-green-600 dark:text-green-400 font-medium' : 'text-muted-foreground'}`}>
-                      ₹{Number(emi.amount).toLocaleString()}
+                      {currencySymbol}{Number(emi.amount).toLocaleString()}
                     </div>
                   </div>
                 </div>
@@ -1399,7 +1424,7 @@ export function AddLoanModal({ open, onOpenChange, onSuccess, loan }: AddLoanMod
               </div>
               <div>
                 <span className="text-muted-foreground">Total Amount:</span>
-                <p className="font-medium">₹{customEMIs.reduce((sum, emi) => sum + Number(emi.amount), 0).toLocaleString()}</p>
+                <p className="font-medium">{currencySymbol}{customEMIs.reduce((sum, emi) => sum + Number(emi.amount), 0).toLocaleString()}</p>
               </div>
             </div>
           </div>
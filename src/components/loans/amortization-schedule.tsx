@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Loader2, RefreshCw, TableProperties, X } from "lucide-react"
+import { format } from "date-fns"
+import { getLoanEventLabel } from "@/constants"
+import type { AmortizationSchedule as Schedule, LoanEvent } from "@/types"
+
+interface AmortizationScheduleProps {
+  loanId: string
+  isClosed: boolean
+  refreshKey: string
+  onRegenerated: () => void
+}
+
+const PREVIEW_ROWS = 12
+
+export function AmortizationSchedule({ loanId, isClosed, refreshKey, onRegenerated }: AmortizationScheduleProps) {
+  const [schedule, setSchedule] = useState<Schedule | null>(null)
+  const [events, setEvents] = useState<LoanEvent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRegenerating, setIsRegenerating] = useState(false)
+  const [showAll, setShowAll] = useState(false)
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch(`/api/loans/${loanId}/schedule`)
+        if (!response.ok) throw new Error("Failed to load schedule")
+        const data = await response.json()
+        setSchedule(data.schedule)
+        setEvents(data.events)
+      } catch (error) {
+        console.error("Error fetching loan schedule:", error)
+        toast.error("Failed to load amortization schedule")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSchedule()
+  }, [loanId, refreshKey])
+
+  const handleRegenerate = async () => {
+    if (!confirm("Rewrite the unpaid EMIs and outstanding balance from this schedule? Paid EMIs are not changed.")) return
+
+    try {
+      setIsRegenerating(true)
+      const response = await fetch(`/api/loans/${loanId}/schedule`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to regenerate schedule")
+      toast.success(data.message)
+      onRegenerated()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to regenerate schedule")
+    } finally {
+      setIsRegenerating(false)
+    }
+  }
+
+  const handleDeleteEvent = async (event: LoanEvent) => {
+    if (!confirm(`Delete this ${getLoanEventLabel(event.type).toLowerCase()}? Unpaid EMIs will be recalculated.`)) return
+
+    try {
+      const response = await fetch(`/api/loans/${loanId}/events/${event.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to delete loan event")
+      toast.success(data.message)
+      onRegenerated()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete loan event")
+    }
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+  }
+
+  if (!schedule || schedule.rows.length === 0) return null
+
+  // Start the preview a couple of rows before the first unpaid installment
+  const firstUnpaid = schedule.rows.findIndex(row => !row.isPaid)
+  const previewStart = Math.max(0, (firstUnpaid === -1 ? schedule.rows.length : firstUnpaid) - 2)
+  const visibleRows = showAll ? schedule.rows : schedule.rows.slice(previewStart, previewStart + PREVIEW_ROWS)
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-white/80 via-gray-50/60 to-blue-50/60 dark:from-gray-800/80 dark:via-gray-800/60 dark:to-gray-900/60 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+      <div className="absolute inset-0 bg-gradient-to-br from-gray-500/5 via-transparent to-blue-500/5 pointer-events-none"></div>
+      <div className="relative p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2 text-gray-800 dark:text-gray-200">
+              <TableProperties className="h-5 w-5 sm:h-6 sm:w-6 text-blue-600 dark:text-blue-400" />
+              Amortization Schedule
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Principal and interest split of every EMI, including recorded prepayments, rate revisions and restructurings
+            </p>
+          </div>
+          {!isClosed && (
+            <Button variant="outline" size="sm" onClick={handleRegenerate} disabled={isRegenerating}>
+              {isRegenerating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Regenerate EMIs
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          {[
+            { label: "Outstanding (Schedule)", value: `₹${schedule.outstanding.toLocaleString()}` },
+            { label: "Total Interest", value: `₹${schedule.totalInterest.toLocaleString()}` },
+            { label: "Remaining EMIs", value: schedule.remainingInstallments.toString() },
+            { label: "Last EMI", value: schedule.endDate ? format(new Date(schedule.endDate), "MMM yyyy") : "-" },
+          ].map((stat) => (
+            <div
+              key={stat.label}
+              className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl p-3 border border-gray-200/50 dark:border-gray-700/50"
+            >
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{stat.label}</p>
+              <p className="text-base sm:text-lg font-bold text-gray-900 dark:text-white">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {events.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {events.map((event) => (
+              <Badge key={event.id} variant="outline" className="gap-1">
+                {format(new Date(event.effectiveDate), "MMM dd, yyyy")}: {getLoanEventLabel(event.type)}
+                {event.amount != null && ` ₹${event.amount.toLocaleString()}`}
+                {event.interestRate != null && ` → ${event.interestRate}%`}
+                {event.tenure != null && ` → ${event.tenure} EMIs`}
+                {event.emiAmount != null && ` → ₹${event.emiAmount.toLocaleString()}`}
+                {!isClosed && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteEvent(event)}
+                    className="ml-1 text-muted-foreground hover:text-destructive"
+                    title="Delete event"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50 dark:bg-gray-900">
+                <TableHead className="font-semibold">#</TableHead>
+                <TableHead className="font-semibold">Due Date</TableHead>
+                <TableHead className="text-right font-semibold">Opening</TableHead>
+                <TableHead className="text-right font-semibold">EMI</TableHead>
+                <TableHead className="text-right font-semibold">Principal</TableHead>
+                <TableHead className="text-right font-semibold">Interest</TableHead>
+                <TableHead className="text-right font-semibold">Closing</TableHead>
+                <TableHead className="text-right font-semibold">Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map((row) => (
+                <TableRow
+                  key={row.installment}
+                  className={row.isPaid ? "text-muted-foreground" : "hover:bg-gray-50 dark:hover:bg-gray-900/50"}
+                >
+                  <TableCell>{row.installment}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(row.dueDate), "MMM dd, yyyy")}
+                    {row.isPaid && <Badge variant="secondary" className="ml-2">Paid</Badge>}
+                    {row.prepayment > 0 && (
+                      <div className="text-xs text-green-600 dark:text-green-400">
+                        Prepaid ₹{row.prepayment.toLocaleString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">₹{row.openingBalance.toLocaleString()}</TableCell>
+                  <TableCell className="text-right font-medium">₹{row.payment.toLocaleString()}</TableCell>
+                  <TableCell className="text-right text-blue-600 dark:text-blue-400">₹{row.principal.toLocaleString()}</TableCell>
+                  <TableCell className="text-right text-purple-600 dark:text-purple-400">₹{row.interest.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">₹{row.closingBalance.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{row.interestRate}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {schedule.rows.length > PREVIEW_ROWS && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? "Show fewer installments" : `Show all ${schedule.rows.length} installments`}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { LOAN_ADJUSTMENT_STRATEGIES, LOAN_EVENT_TYPES, PAYMENT_METHODS } from "@/constants"
+import type { LoanAdjustmentStrategy, LoanEventType } from "@/types"
+
+const positiveNumber = (message: string) =>
+  z.string().optional().refine((val) => !val || (!isNaN(Number(val)) && Number(val) > 0), message)
+
+const eventSchema = z.object({
+  type: z.enum(["PREPAYMENT", "RATE_CHANGE", "TENURE_CHANGE", "EMI_CHANGE"]),
+  effectiveDate: z.string().min(1, "Effective date is required"),
+  amount: positiveNumber("Amount must be a positive number"),
+  interestRate: positiveNumber("Rate must be a positive number"),
+  tenure: positiveNumber("Installments must be a positive number"),
+  emiAmount: positiveNumber("EMI must be a positive number"),
+  strategy: z.enum(["REDUCE_EMI", "REDUCE_TENURE"]),
+  paymentMethod: z.enum(["CASH", "CARD", "UPI", "NET_BANKING", "OTHER"]).optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.type !== "PREPAYMENT" || !!data.amount, {
+  message: "Prepayment amount is required",
+  path: ["amount"],
+}).refine((data) => data.type !== "RATE_CHANGE" || !!data.interestRate, {
+  message: "New interest rate is required",
+  path: ["interestRate"],
+}).refine((data) => data.type !== "TENURE_CHANGE" || !!data.tenure, {
+  message: "Remaining installments are required",
+  path: ["tenure"],
+}).refine((data) => data.type !== "EMI_CHANGE" || !!data.emiAmount, {
+  message: "New EMI amount is required",
+  path: ["emiAmount"],
+})
+
+type EventFormData = z.infer<typeof eventSchema>
+
+interface LoanEventModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  loanId: string
+  interestRate: number
+  emiAmount: number
+  onSuccess?: () => void
+}
+
+export function LoanEventModal({
+  open,
+  onOpenChange,
+  loanId,
+  interestRate,
+  emiAmount,
+  onSuccess,
+}: LoanEventModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch,
+    reset,
+  } = useForm<EventFormData>({
+    resolver: zodResolver(eventSchema),
+  })
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        type: "PREPAYMENT",
+        effectiveDate: new Date().toISOString().split("T")[0],
+        strategy: "REDUCE_TENURE",
+      })
+    }
+  }, [open, reset])
+
+  const type = watch("type")
+  const strategy = watch("strategy")
+  const paymentMethod = watch("paymentMethod")
+
+  const onSubmit = async (data: EventFormData) => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(`/api/loans/${loanId}/events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: data.type,
+          effectiveDate: data.effectiveDate,
+          amount: data.type === "PREPAYMENT" ? Number(data.amount) : undefined,
+          interestRate: data.type === "RATE_CHANGE" ? Number(data.interestRate) : undefined,
+          tenure: data.type === "TENURE_CHANGE" ? Number(data.tenure) : undefined,
+          emiAmount: data.type === "EMI_CHANGE" ? Number(data.emiAmount) : undefined,
+          strategy: data.strategy,
+          paymentMethod: data.type === "PREPAYMENT" ? data.paymentMethod : undefined,
+          notes: data.notes || undefined,
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to record loan event")
+      }
+
+      toast.success(result.message)
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error("Error recording loan event:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to record loan event")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const showStrategy = type === "PREPAYMENT" || type === "RATE_CHANGE"
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Record Loan Event
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Unpaid EMIs, rate, tenure and outstanding are recalculated from the effective date
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Event</Label>
+                <Select value={type} onValueChange={(value) => setValue("type", value as LoanEventType)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOAN_EVENT_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="effectiveDate">Effective Date</Label>
+                <Input id="effectiveDate" {...register("effectiveDate")} type="date" className="bg-background" />
+                {errors.effectiveDate && <p className="text-sm text-destructive">{errors.effectiveDate.message}</p>}
+              </div>
+            </div>
+
+            {type === "PREPAYMENT" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="amount">Amount (₹)</Label>
+                  <Input id="amount" {...register("amount")} type="number" step="0.01" className="bg-background" />
+                  {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label>Payment Method</Label>
+                  <Select
+                    value={paymentMethod}
+                    onValueChange={(value) => setValue("paymentMethod", value as EventFormData["paymentMethod"])}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue placeholder="Select method" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method.value} value={method.value}>
+                          {method.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {type === "RATE_CHANGE" && (
+              <div className="space-y-2">
+                <Label htmlFor="interestRate">New Interest Rate (%)</Label>
+                <Input
+                  id="interestRate"
+                  {...register("interestRate")}
+                  type="number"
+                  step="0.01"
+                  placeholder={interestRate.toString()}
+                  className="bg-background"
+                />
+                {errors.interestRate && <p className="text-sm text-destructive">{errors.interestRate.message}</p>}
+              </div>
+            )}
+
+            {type === "TENURE_CHANGE" && (
+              <div className="space-y-2">
+                <Label htmlFor="tenure">Remaining EMIs</Label>
+                <Input id="tenure" {...register("tenure")} type="number" step="1" className="bg-background" />
+                <p className="text-xs text-muted-foreground">The EMI is recalculated to close the loan in this many installments</p>
+                {errors.tenure && <p className="text-sm text-destructive">{errors.tenure.message}</p>}
+              </div>
+            )}
+
+            {type === "EMI_CHANGE" && (
+              <div className="space-y-2">
+                <Label htmlFor="emiAmount">New EMI (₹)</Label>
+                <Input
+                  id="emiAmount"
+                  {...register("emiAmount")}
+                  type="number"
+                  step="0.01"
+                  placeholder={emiAmount.toString()}
+                  className="bg-background"
+                />
+                <p className="text-xs text-muted-foreground">The tenure is recalculated for the new EMI</p>
+                {errors.emiAmount && <p className="text-sm text-destructive">{errors.emiAmount.message}</p>}
+              </div>
+            )}
+
+            {showStrategy && (
+              <div className="space-y-2">
+                <Label>Adjust By</Label>
+                <Select value={strategy} onValueChange={(value) => setValue("strategy", value as LoanAdjustmentStrategy)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOAN_ADJUSTMENT_STRATEGIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Textarea id="notes" {...register("notes")} rows={2} className="bg-background resize-none" />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Recording...
+                </>
+              ) : (
+                "Record Event"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
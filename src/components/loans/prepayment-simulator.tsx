@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { toast } from "sonner"
+import { Calculator, Loader2 } from "lucide-react"
+import { format } from "date-fns"
+import { LOAN_ADJUSTMENT_STRATEGIES } from "@/constants"
+import type { LoanAdjustmentStrategy, LoanSimulationResult } from "@/types"
+
+interface PrepaymentSimulatorProps {
+  loanId: string
+  interestRate: number
+}
+
+export function PrepaymentSimulator({ loanId, interestRate }: PrepaymentSimulatorProps) {
+  const today = new Date().toISOString().split("T")[0]
+  const [prepaymentAmount, setPrepaymentAmount] = useState("")
+  const [prepaymentDate, setPrepaymentDate] = useState(today)
+  const [newRate, setNewRate] = useState("")
+  const [rateDate, setRateDate] = useState(today)
+  const [strategy, setStrategy] = useState<LoanAdjustmentStrategy>("REDUCE_TENURE")
+  const [result, setResult] = useState<LoanSimulationResult | null>(null)
+  const [isSimulating, setIsSimulating] = useState(false)
+
+  const handleSimulate = async () => {
+    const events = []
+    if (prepaymentAmount) {
+      events.push({ type: "PREPAYMENT", effectiveDate: prepaymentDate, amount: Number(prepaymentAmount), strategy })
+    }
+    if (newRate) {
+      events.push({ type: "RATE_CHANGE", effectiveDate: rateDate, interestRate: Number(newRate), strategy })
+    }
+    if (events.length === 0) {
+      toast.error("Enter a prepayment amount or a new interest rate")
+      return
+    }
+
+    try {
+      setIsSimulating(true)
+      const response = await fetch(`/api/loans/${loanId}/schedule/simulate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ events }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to run simulation")
+      setResult(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run simulation")
+    } finally {
+      setIsSimulating(false)
+    }
+  }
+
+  const comparison = result
+    ? [
+        { label: "EMI", before: result.baseline.nextEmi, after: result.simulated.nextEmi, currency: true },
+        { label: "Remaining EMIs", before: result.baseline.remainingInstallments, after: result.simulated.remainingInstallments },
+        { label: "Total Interest", before: result.baseline.totalInterest, after: result.simulated.totalInterest, currency: true },
+      ]
+    : []
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-white/80 via-purple-50/40 to-blue-50/60 dark:from-gray-800/80 dark:via-gray-800/60 dark:to-gray-900/60 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50 shadow-xl">
+      <div className="absolute inset-0 bg-gradient-to-br from-purple-500/5 via-transparent to-blue-500/5 pointer-events-none"></div>
+      <div className="relative p-4 sm:p-6 space-y-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2 text-gray-800 dark:text-gray-200">
+            <Calculator className="h-5 w-5 sm:h-6 sm:w-6 text-purple-600 dark:text-purple-400" />
+            What-If Simulator
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            See how a part-prepayment or rate revision changes your EMI, tenure and total interest. Nothing is saved.
+          </p>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-2">
+            <Label htmlFor="prepaymentAmount">Prepayment (₹)</Label>
+            <Input
+              id="prepaymentAmount"
+              type="number"
+              step="1000"
+              value={prepaymentAmount}
+              onChange={(e) => setPrepaymentAmount(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prepaymentDate">Prepayment Date</Label>
+            <Input
+              id="prepaymentDate"
+              type="date"
+              value={prepaymentDate}
+              onChange={(e) => setPrepaymentDate(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="newRate">New Rate (%)</Label>
+            <Input
+              id="newRate"
+              type="number"
+              step="0.05"
+              placeholder={interestRate.toString()}
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rateDate">Rate Effective From</Label>
+            <Input
+              id="rateDate"
+              type="date"
+              value={rateDate}
+              onChange={(e) => setRateDate(e.target.value)}
+              className="bg-background"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Adjust By</Label>
+            <Select value={strategy} onValueChange={(value) => setStrategy(value as LoanAdjustmentStrategy)}>
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOAN_ADJUSTMENT_STRATEGIES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button onClick={handleSimulate} disabled={isSimulating}>
+          {isSimulating ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Simulating...
+            </>
+          ) : (
+            "Simulate"
+          )}
+        </Button>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl p-3 border border-green-200/50 dark:border-green-700/50">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Interest Saved</p>
+                <p className={`text-base sm:text-lg font-bold ${result.interestSaved >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                  ₹{result.interestSaved.toLocaleString()}
+                </p>
+              </div>
+              <div className="bg-white/70 dark:bg-gray-800/70 backdrop-blur-sm rounded-xl p-3 border border-blue-200/50 dark:border-blue-700/50">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">EMIs Saved</p>
+                <p className="text-base sm:text-lg font-bold text-blue-600 dark:text-blue-400">
+                  {result.installmentsSaved}
+                  {result.simulated.endDate && (
+                    <span className="text-xs font-normal text-gray-500 dark:text-gray-400 ml-2">
+                      ends {format(new Date(result.simulated.endDate), "MMM yyyy")}
+                    </span>
+                  )}
+                </p>
+              </div>
+            </div>
+
+            <div className="rounded-md border divide-y">
+              {comparison.map((item) => (
+                <div key={item.label} className="flex justify-between items-center px-4 py-2 text-sm">
+                  <span className="text-muted-foreground">{item.label}</span>
+                  <span>
+                    {item.currency ? `₹${(item.before ?? 0).toLocaleString()}` : item.before}
+                    {" → "}
+                    <span className="font-semibold">
+                      {item.currency ? `₹${(item.after ?? 0).toLocaleString()}` : item.after}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { History } from "lucide-react"
+import { format } from "date-fns"
+import { MONTH_CLOSE_ACTION_LABELS, MONTH_CLOSE_TRIGGER_LABELS } from "@/constants"
+import type { MonthCloseAction, MonthCloseEventEntry } from "@/types"
+import { SnapshotChangesTable } from "./snapshot-changes-table"
+
+interface MonthCloseHistoryProps {
+  month: number
+  year: number
+  currencySymbol: string
+  refreshKey: number
+}
+
+const ACTION_BADGE_CLASSES: Record<MonthCloseAction, string> = {
+  CLOSE: "border-green-500 text-green-600",
+  REOPEN: "border-amber-500 text-amber-600",
+  RECOMPUTE: "border-blue-500 text-blue-600",
+}
+
+export function MonthCloseHistory({ month, year, currencySymbol, refreshKey }: MonthCloseHistoryProps) {
+  const [events, setEvents] = useState<MonthCloseEventEntry[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/monthly-snapshot/history?month=${month}&year=${year}`)
+        if (!response.ok) throw new Error("Failed to load month close history")
+        setEvents(await response.json())
+      } catch (error) {
+        console.error("Error fetching month close history:", error)
+        setEvents([])
+      }
+    }
+    fetchHistory()
+  }, [month, year, refreshKey])
+
+  if (events.length === 0) return null
+
+  return (
+    <div className="backdrop-blur-md bg-white/60 dark:bg-gray-800/60 border border-gray-200/50 dark:border-gray-700/50 rounded-lg shadow-lg">
+      <div className="p-6">
+        <h3 className="text-base sm:text-lg font-semibold flex items-center space-x-2 mb-1">
+          <History className="h-5 w-5 flex-shrink-0" />
+          <span>Close History</span>
+        </h3>
+        <p className="text-xs sm:text-sm text-muted-foreground mb-4">
+          Every close, reopen and recompute of this month
+        </p>
+
+        <div className="space-y-3">
+          {events.map((event) => (
+            <div key={event.id} className="rounded-lg border border-border/50 p-3 space-y-2">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={ACTION_BADGE_CLASSES[event.action]}>
+                    {MONTH_CLOSE_ACTION_LABELS[event.action]}
+                  </Badge>
+                  <Badge variant="secondary">{MONTH_CLOSE_TRIGGER_LABELS[event.trigger]}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {format(new Date(event.createdAt), "d MMM yyyy, HH:mm")}
+                  </span>
+                </div>
+                {event.changes && (
+                  <button
+                    type="button"
+                    className="text-xs text-primary hover:underline text-left"
+                    onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  >
+                    {event.changes.length === 0
+                      ? "No changes"
+                      : `${expandedId === event.id ? "Hide" : "Show"} ${event.changes.length} changed fields`}
+                  </button>
+                )}
+              </div>
+              {event.reason && (
+                <p className="text-sm">{event.reason}</p>
+              )}
+              {expandedId === event.id && event.changes && event.changes.length > 0 && (
+                <SnapshotChangesTable changes={event.changes} currencySymbol={currencySymbol} />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { SNAPSHOT_FIELDS } from "@/constants"
+import type { SnapshotFieldChange } from "@/types"
+
+interface SnapshotChangesTableProps {
+  changes: SnapshotFieldChange[]
+  currencySymbol: string
+}
+
+export function SnapshotChangesTable({ changes, currencySymbol }: SnapshotChangesTableProps) {
+  const formatValue = (change: SnapshotFieldChange, value: SnapshotFieldChange["stored"]) => {
+    if (value === null) return "-"
+    switch (change.kind) {
+      case "amount":
+        return `${currencySymbol}${Number(value).toLocaleString()}`
+      case "percent":
+        return `${Number(value).toFixed(2)}%`
+      case "details":
+        return `${value} entries`
+      case "flag":
+        return value ? "Yes" : "No"
+      default:
+        return String(value)
+    }
+  }
+
+  const formatDifference = (change: SnapshotFieldChange) => {
+    if (change.difference === null) return "Changed"
+    const sign = change.difference >= 0 ? "+" : "-"
+    const amount = Math.abs(change.difference)
+    if (change.kind === "amount") return `${sign}${currencySymbol}${amount.toLocaleString()}`
+    if (change.kind === "percent") return `${sign}${amount.toFixed(2)} pts`
+    return `${sign}${amount}`
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-gray-50 dark:bg-gray-900">
+            <TableHead className="font-semibold">Field</TableHead>
+            <TableHead className="text-right font-semibold">Stored</TableHead>
+            <TableHead className="text-right font-semibold">Recomputed</TableHead>
+            <TableHead className="text-right font-semibold">Change</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {changes.map((change) => (
+            <TableRow key={change.field}>
+              <TableCell className="text-sm">
+                {SNAPSHOT_FIELDS.find(item => item.field === change.field)?.label ?? change.field}
+              </TableCell>
+              <TableCell className="text-right text-sm whitespace-nowrap">{formatValue(change, change.stored)}</TableCell>
+              <TableCell className="text-right text-sm whitespace-nowrap">{formatValue(change, change.computed)}</TableCell>
+              <TableCell
+                className={`text-right text-sm font-semibold whitespace-nowrap ${
+                  change.difference === null
+                    ? "text-muted-foreground"
+                    : change.difference >= 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {formatDifference(change)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { MANUAL_ASSET_TYPES } from "@/constants"
+import type { ManualAsset, ManualAssetType } from "@/types"
+
+const assetSchema = z.object({
+  type: z.enum(["REAL_ESTATE", "GOLD", "EPF", "PPF", "FIXED_DEPOSIT", "OTHER"]),
+  name: z.string().trim().min(1, "Name is required"),
+  value: z.string().min(1, "Value is required").refine(
+    (val) => !isNaN(Number(val)) && Number(val) >= 0,
+    "Value must be zero or more"
+  ),
+  valuationDate: z.string().min(1, "Valuation date is required"),
+  notes: z.string().optional(),
+})
+
+type AssetFormData = z.infer<typeof assetSchema>
+
+interface ManualAssetModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  asset?: ManualAsset | null
+  onSuccess?: () => void
+}
+
+export function ManualAssetModal({ open, onOpenChange, asset, onSuccess }: ManualAssetModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isEdit = !!asset
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch,
+    reset,
+  } = useForm<AssetFormData>({
+    resolver: zodResolver(assetSchema),
+  })
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        type: asset?.type ?? "REAL_ESTATE",
+        name: asset?.name ?? "",
+        value: asset ? asset.value.toString() : "",
+        valuationDate: new Date().toISOString().split("T")[0],
+        notes: asset?.notes ?? "",
+      })
+    }
+  }, [open, asset, reset])
+
+  const type = watch("type")
+
+  const onSubmit = async (data: AssetFormData) => {
+    try {
+      setIsSubmitting(true)
+
+      const response = await fetch(asset ? `/api/net-worth/assets/${asset.id}` : "/api/net-worth/assets", {
+        method: isEdit ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: data.type,
+          name: data.name,
+          value: Number(data.value),
+          valuationDate: data.valuationDate,
+          notes: data.notes || (isEdit ? null : undefined),
+        }),
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save asset")
+      }
+
+      toast.success(isEdit ? "Asset updated" : "Asset added")
+      onOpenChange(false)
+      onSuccess?.()
+    } catch (error) {
+      console.error("Error saving manual asset:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save asset")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            {isEdit ? "Update Asset" : "Add Asset"}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Property, gold, provident funds and deposits that are not tracked as holdings
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => setValue("type", value as ManualAssetType)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_ASSET_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input id="name" {...register("name")} placeholder="e.g. SBI PPF" className="bg-background" />
+                {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="value">Current Value (base currency)</Label>
+                <Input id="value" {...register("value")} type="number" step="0.01" className="bg-background" />
+                {errors.value && <p className="text-sm text-destructive">{errors.value.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="valuationDate">Valued On</Label>
+                <Input id="valuationDate" {...register("valuationDate")} type="date" className="bg-background" />
+                {errors.valuationDate && <p className="text-sm text-destructive">{errors.valuationDate.message}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes (Optional)</Label>
+              <Textarea id="notes" {...register("notes")} rows={2} className="bg-background resize-none" />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                isEdit ? "Update Asset" : "Add Asset"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
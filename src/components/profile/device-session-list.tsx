@@ -0,0 +1,65 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Monitor, Smartphone } from "lucide-react"
+import { formatDistanceToNow, format } from "date-fns"
+import type { DeviceSessionEntry } from "@/types"
+
+interface DeviceSessionListProps {
+  sessions: DeviceSessionEntry[]
+  onSignOut: (session: DeviceSessionEntry) => void
+  signingOutId: string | null
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent)
+
+export function DeviceSessionList({ sessions, onSignOut, signingOutId }: DeviceSessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No active sessions</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.map((deviceSession) => {
+        const Icon = isMobile(deviceSession.userAgent) ? Smartphone : Monitor
+        return (
+          <div
+            key={deviceSession.id}
+            className="flex flex-col gap-3 rounded-lg border border-border/50 p-3 sm:flex-row sm:items-center sm:justify-between"
+          >
+            <div className="flex items-start gap-3">
+              <Icon className="h-5 w-5 mt-0.5 flex-shrink-0 text-muted-foreground" />
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium" title={deviceSession.userAgent ?? undefined}>
+                    {deviceSession.device}
+                  </span>
+                  {deviceSession.current && (
+                    <Badge variant="outline" className="text-green-600">This device</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {deviceSession.ipAddress ?? "Unknown IP"} · Signed in {format(new Date(deviceSession.createdAt), "d MMM yyyy, HH:mm")}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Last seen {formatDistanceToNow(new Date(deviceSession.lastSeenAt), { addSuffix: true })}
+                </p>
+              </div>
+            </div>
+            {!deviceSession.current && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSignOut(deviceSession)}
+                disabled={signingOutId === deviceSession.id}
+              >
+                {signingOutId === deviceSession.id ? "Signing out..." : "Sign Out"}
+              </Button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { LogOut } from "lucide-react"
+import type { DeviceSessionEntry } from "@/types"
+import { DeviceSessionList } from "./device-session-list"
+
+export function DeviceSessions() {
+  const [sessions, setSessions] = useState<DeviceSessionEntry[] | null>(null)
+  const [signingOutId, setSigningOutId] = useState<string | null>(null)
+  const [isSigningOutOthers, setIsSigningOutOthers] = useState(false)
+
+  const loadSessions = async () => {
+    try {
+      const response = await fetch("/api/profile/sessions")
+      if (response.ok) {
+        setSessions(await response.json())
+      }
+    } catch (error) {
+      console.error("Error fetching sessions:", error)
+    }
+  }
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const handleSignOut = async (deviceSession: DeviceSessionEntry) => {
+    setSigningOutId(deviceSession.id)
+    try {
+      const response = await fetch(`/api/profile/sessions/${deviceSession.id}`, {
+        method: "DELETE",
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(`${deviceSession.device} signed out`)
+        loadSessions()
+      } else {
+        toast.error(data.message || "Failed to sign out session")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setSigningOutId(null)
+    }
+  }
+
+  const handleSignOutOthers = async () => {
+    setIsSigningOutOthers(true)
+    try {
+      const response = await fetch("/api/profile/sessions", {
+        method: "DELETE",
+      })
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(data.message)
+        loadSessions()
+      } else {
+        toast.error(data.message || "Failed to sign out other sessions")
+      }
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsSigningOutOthers(false)
+    }
+  }
+
+  if (!sessions) {
+    return <div className="animate-pulse h-32 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+  }
+
+  const hasOtherSessions = sessions.some(deviceSession => !deviceSession.current)
+
+  return (
+    <div className="space-y-4">
+      <DeviceSessionList sessions={sessions} onSignOut={handleSignOut} signingOutId={signingOutId} />
+      {hasOtherSessions && (
+        <Button variant="destructive" onClick={handleSignOutOthers} disabled={isSigningOutOthers}>
+          <LogOut className="h-4 w-4 mr-2" />
+          {isSigningOutOthers ? "Signing out..." : "Sign Out Other Sessions"}
+        </Button>
+      )}
+    </div>
+  )
+}
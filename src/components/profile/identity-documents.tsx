@@ -0,0 +1,119 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import type { IdentityDocuments as IdentityDocumentsData } from "@/types"
+
+/**
+ * PAN and Aadhaar entry; stored numbers are only ever shown masked, so the inputs start empty
+ */
+export function IdentityDocuments() {
+  const [documents, setDocuments] = useState<IdentityDocumentsData | null>(null)
+  const [panNumber, setPanNumber] = useState("")
+  const [aadharNumber, setAadharNumber] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchDocuments = async () => {
+      try {
+        const response = await fetch("/api/profile/identity")
+        if (response.ok) {
+          setDocuments(await response.json())
+        }
+      } catch (error) {
+        console.error("Error fetching identity documents:", error)
+      }
+    }
+
+    fetchDocuments()
+  }, [])
+
+  const saveDocuments = async (body: Partial<IdentityDocumentsData>) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/profile/identity", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.message || "Failed to save identity documents")
+        return
+      }
+      setDocuments(data)
+      setPanNumber("")
+      setAadharNumber("")
+      toast.success("Identity documents saved")
+    } catch {
+      toast.error("An error occurred. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const body: Partial<IdentityDocumentsData> = {}
+    if (panNumber.trim()) body.panNumber = panNumber
+    if (aadharNumber.trim()) body.aadharNumber = aadharNumber
+    if (Object.keys(body).length === 0) {
+      toast.error("Enter a PAN or Aadhaar number to save")
+      return
+    }
+    await saveDocuments(body)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="panNumber">PAN</Label>
+        <div className="flex gap-2">
+          <Input
+            id="panNumber"
+            value={panNumber}
+            onChange={(e) => setPanNumber(e.target.value.toUpperCase())}
+            placeholder={documents?.panNumber ? `Saved as ${documents.panNumber}` : "ABCDE1234F"}
+            autoComplete="off"
+            maxLength={10}
+          />
+          {documents?.panNumber && (
+            <Button type="button" variant="outline" disabled={isLoading} onClick={() => saveDocuments({ panNumber: "" })}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="aadharNumber">Aadhaar Number</Label>
+        <div className="flex gap-2">
+          <Input
+            id="aadharNumber"
+            value={aadharNumber}
+            onChange={(e) => setAadharNumber(e.target.value)}
+            placeholder={documents?.aadharNumber ? `Saved as ${documents.aadharNumber}` : "1234 5678 9012"}
+            autoComplete="off"
+            inputMode="numeric"
+            maxLength={14}
+          />
+          {documents?.aadharNumber && (
+            <Button type="button" variant="outline" disabled={isLoading} onClick={() => saveDocuments({ aadharNumber: "" })}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Stored encrypted and only ever shown masked. Enter a number again to replace it.
+      </p>
+      <Button type="submit" disabled={isLoading}>
+        {isLoading ? "Saving..." : "Save Identity Documents"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,311 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useSession } from "next-auth/react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { Copy, Download, KeyRound, ShieldAlert, ShieldCheck } from "lucide-react"
+import { TOTP_DIGITS } from "@/constants"
+import type { TwoFactorSetup, TwoFactorStatus } from "@/types"
+
+const toDigits = (value: string) => value.replace(/\D/g, "").slice(0, TOTP_DIGITS)
+
+export function TwoFactorSettings() {
+  const { update } = useSession()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null)
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [disableCode, setDisableCode] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadStatus = async () => {
+    try {
+      const response = await fetch("/api/profile/two-factor")
+      if (response.ok) {
+        setStatus(await response.json())
+      }
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error)
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const postCode = async (url: string, body: object) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(data.message || "Something went wrong")
+        return null
+      }
+      return data
+    } catch {
+      toast.error("An error occurred. Please try again.")
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    const data = await postCode("/api/profile/two-factor/setup", {})
+    if (data) {
+      setSetup(data)
+      setCode("")
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await postCode("/api/profile/two-factor/enable", { code })
+    if (data) {
+      toast.success(data.message)
+      setSetup(null)
+      setCode("")
+      setBackupCodes(data.backupCodes)
+      // Refresh the session so an enrolment required by the admin stops redirecting here
+      await update()
+      loadStatus()
+    }
+  }
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await postCode("/api/profile/two-factor/backup-codes", { code })
+    if (data) {
+      toast.success(data.message)
+      setCode("")
+      setBackupCodes(data.backupCodes)
+      loadStatus()
+    }
+  }
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await postCode("/api/profile/two-factor/disable", { code: disableCode })
+    if (data) {
+      toast.success(data.message)
+      setDisableCode("")
+      setBackupCodes(null)
+      loadStatus()
+    }
+  }
+
+  const handleCopyCodes = async () => {
+    if (!backupCodes) return
+    await navigator.clipboard.writeText(backupCodes.join("\n"))
+    toast.success("Recovery codes copied")
+  }
+
+  const handleDownloadCodes = () => {
+    if (!backupCodes) return
+    const blob = new Blob([`Namma Paisa recovery codes\n\n${backupCodes.join("\n")}\n`], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "namma-paisa-recovery-codes.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (!status) {
+    return <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-xl"></div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {status.enabled ? (
+          <Badge variant="outline" className="flex items-center gap-1 text-green-600">
+            <ShieldCheck className="h-3 w-3" />
+            Enabled
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="flex items-center gap-1 text-orange-600">
+            <ShieldAlert className="h-3 w-3" />
+            Not enabled
+          </Badge>
+        )}
+        {status.required && (
+          <Badge variant="secondary">Required by your administrator</Badge>
+        )}
+        {status.enabled && (
+          <span className="text-sm text-muted-foreground">
+            {status.backupCodesRemaining} recovery codes left
+          </span>
+        )}
+      </div>
+
+      {status.lockedUntil && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-800 dark:text-red-200">
+            Too many wrong codes. Verification is locked until {new Date(status.lockedUntil).toLocaleTimeString()}.
+          </p>
+        </div>
+      )}
+
+      {status.required && !status.enabled && !setup && (
+        <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          <p className="text-sm text-yellow-800 dark:text-yellow-200">
+            Your administrator requires two-factor authentication. Set it up to continue using Namma Paisa.
+          </p>
+        </div>
+      )}
+
+      {/* Recovery codes, shown once */}
+      {backupCodes && (
+        <div className="space-y-3 p-4 border rounded-lg">
+          <div>
+            <p className="font-semibold">Save your recovery codes</p>
+            <p className="text-sm text-muted-foreground">
+              Each code signs you in once if you lose your phone. They will not be shown again.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {backupCodes.map((backupCode) => (
+              <span key={backupCode} className="rounded bg-gray-100 dark:bg-gray-900 px-2 py-1 text-center">
+                {backupCode}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleCopyCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleDownloadCodes}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button type="button" size="sm" onClick={() => setBackupCodes(null)}>
+              I have saved them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Enrolment */}
+      {!status.enabled && !setup && (
+        <Button onClick={handleStartSetup} disabled={isLoading}>
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          {isLoading ? "Preparing..." : "Set Up Two-Factor Authentication"}
+        </Button>
+      )}
+
+      {!status.enabled && setup && (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-6">
+            <Image
+              src={setup.qrCode}
+              alt="QR code for your authenticator app"
+              width={220}
+              height={220}
+              unoptimized
+              className="rounded-lg border bg-white"
+            />
+            <div className="space-y-3 text-sm">
+              <p>
+                1. Scan the QR code with an authenticator app such as Google Authenticator, Authy or 1Password.
+              </p>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+                <p className="font-mono break-all rounded bg-gray-100 dark:bg-gray-900 px-2 py-1">{setup.secret}</p>
+              </div>
+              <p>2. Enter the 6-digit code the app shows.</p>
+            </div>
+          </div>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="twoFactorCode">Authentication Code</Label>
+            <Input
+              id="twoFactorCode"
+              inputMode="numeric"
+              placeholder="000000"
+              value={code}
+              onChange={(e) => setCode(toDigits(e.target.value))}
+              maxLength={TOTP_DIGITS}
+              autoComplete="one-time-code"
+              className="text-center text-xl tracking-widest font-mono"
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isLoading || code.length !== TOTP_DIGITS}>
+              {isLoading ? "Verifying..." : "Verify & Enable"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setSetup(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Enabled */}
+      {status.enabled && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <form onSubmit={handleRegenerate} className="space-y-3">
+            <div>
+              <p className="font-semibold flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                New Recovery Codes
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Replaces your current recovery codes
+              </p>
+            </div>
+            <Input
+              inputMode="numeric"
+              placeholder="Code from your app"
+              value={code}
+              onChange={(e) => setCode(toDigits(e.target.value))}
+              maxLength={TOTP_DIGITS}
+              autoComplete="one-time-code"
+              required
+            />
+            <Button type="submit" variant="outline" disabled={isLoading || code.length !== TOTP_DIGITS}>
+              Generate New Codes
+            </Button>
+          </form>
+
+          {!status.required && (
+            <form onSubmit={handleDisable} className="space-y-3">
+              <div>
+                <p className="font-semibold flex items-center gap-2">
+                  <ShieldAlert className="h-4 w-4" />
+                  Disable Two-Factor Authentication
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Confirm with a code from your app or a recovery code
+                </p>
+              </div>
+              <Input
+                placeholder="Code or recovery code"
+                value={disableCode}
+                onChange={(e) => setDisableCode(e.target.value.trim())}
+                autoComplete="off"
+                required
+              />
+              <Button type="submit" variant="destructive" disabled={isLoading || !disableCode}>
+                Disable
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
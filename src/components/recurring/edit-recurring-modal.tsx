@@ -0,0 +1,222 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Loader2, X } from "lucide-react"
+import { getCurrencySymbol } from "@/constants"
+import type { RecurringTemplate } from "@/types"
+
+const editFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  endDate: z.string().optional(),
+  pausedUntil: z.string().optional(),
+  newAmount: z
+    .string()
+    .optional()
+    .refine((val) => !val || (!isNaN(Number(val)) && Number(val) > 0), "Amount must be a positive number"),
+  effectiveFrom: z.string().optional(),
+}).refine((data) => !data.newAmount || !!data.effectiveFrom, {
+  message: "Choose when the new amount starts",
+  path: ["effectiveFrom"],
+})
+
+type EditFormData = z.infer<typeof editFormSchema>
+
+interface EditRecurringModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+  template: RecurringTemplate
+}
+
+export function EditRecurringModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  template,
+}: EditRecurringModalProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<EditFormData>({
+    resolver: zodResolver(editFormSchema),
+  })
+
+  useEffect(() => {
+    if (open) {
+      reset({
+        title: template.title,
+        endDate: template.endDate?.split("T")[0] || "",
+        pausedUntil: template.pausedUntil?.split("T")[0] || "",
+        newAmount: "",
+        effectiveFrom: template.nextRunDate?.split("T")[0] || new Date().toISOString().split("T")[0],
+      })
+    }
+  }, [open, template, reset])
+
+  const removeAmountChange = async (changeId: string) => {
+    try {
+      const response = await fetch(`/api/recurring/${template.id}/amount-changes?changeId=${changeId}`, {
+        method: "DELETE",
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to remove amount change")
+      }
+      toast.success("Amount change removed")
+      onSuccess()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove amount change")
+    }
+  }
+
+  const onSubmit = async (data: EditFormData) => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/recurring/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: data.title,
+          endDate: data.endDate || null,
+          pausedUntil: data.pausedUntil || null,
+        }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update recurring template")
+      }
+
+      if (data.newAmount && data.effectiveFrom) {
+        const amountResponse = await fetch(`/api/recurring/${template.id}/amount-changes`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ amount: Number(data.newAmount), effectiveFrom: data.effectiveFrom }),
+        })
+        if (!amountResponse.ok) {
+          const error = await amountResponse.json()
+          throw new Error(error.error || "Failed to change amount")
+        }
+      }
+
+      toast.success("Recurring template updated")
+      onOpenChange(false)
+      onSuccess()
+    } catch (error) {
+      console.error("Error updating recurring template:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update recurring template")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            Edit {template.title}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Changes apply to future occurrences only
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="title">Title</Label>
+              <Input id="title" {...register("title")} className="bg-background" />
+              {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="endDate">End Date</Label>
+                <Input id="endDate" {...register("endDate")} type="date" className="bg-background" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pausedUntil">Pause Until</Label>
+                <Input id="pausedUntil" {...register("pausedUntil")} type="date" className="bg-background" />
+                <p className="text-xs text-muted-foreground">Occurrences before this date are skipped</p>
+              </div>
+            </div>
+
+            {/* Amount changes */}
+            <div className="p-4 rounded-lg bg-gray-50/50 dark:bg-gray-900/50 border border-border/50 space-y-3">
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-muted-foreground">Base amount</span>
+                <span className="font-semibold">{getCurrencySymbol(template.currency)}{template.amount.toLocaleString("en-IN")}</span>
+              </div>
+              {template.amountChanges.map((change) => (
+                <div key={change.id} className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">
+                    From {new Date(change.effectiveFrom).toLocaleDateString()}
+                  </span>
+                  <span className="flex items-center gap-2 font-semibold">
+                    {getCurrencySymbol(template.currency)}{change.amount.toLocaleString("en-IN")}
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeAmountChange(change.id)}>
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </span>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="newAmount">New Amount ({getCurrencySymbol(template.currency).trim()})</Label>
+                  <Input id="newAmount" {...register("newAmount")} type="number" step="0.01" className="bg-background" />
+                  {errors.newAmount && <p className="text-sm text-destructive">{errors.newAmount.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="effectiveFrom">Effective From</Label>
+                  <Input id="effectiveFrom" {...register("effectiveFrom")} type="date" className="bg-background" />
+                  {errors.effectiveFrom && <p className="text-sm text-destructive">{errors.effectiveFrom.message}</p>}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading} className="flex-1">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,393 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { Loader2 } from "lucide-react"
+import { CURRENCIES, DEFAULT_CURRENCY, INCOME_CATEGORIES, PAYMENT_METHODS, RECURRING_FREQUENCIES, RECURRING_KINDS, getCurrencySymbol } from "@/constants"
+import type { CreditCard, RecurringKind, SIPFrequency } from "@/types"
+
+const templateFormSchema = z.object({
+  kind: z.enum(["EXPENSE", "INCOME"]),
+  title: z.string().min(1, "Title is required"),
+  description: z.string().optional(),
+  amount: z
+    .string()
+    .min(1, "Amount is required")
+    .refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Amount must be a positive number"),
+  currency: z.string(),
+  frequency: z.string(),
+  customDay: z.string().optional(),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().optional(),
+  expenseType: z.string(),
+  category: z.string(),
+  paymentMethod: z.string(),
+  creditCardId: z.string().optional(),
+  tags: z.string().optional(),
+  incomeCategory: z.string(),
+}).refine((data) => data.frequency !== "CUSTOM" || (!!data.customDay && Number(data.customDay) >= 1 && Number(data.customDay) <= 31), {
+  message: "Enter a day of month between 1 and 31",
+  path: ["customDay"],
+}).refine((data) => data.kind !== "EXPENSE" || data.paymentMethod !== "CARD" || !!data.creditCardId, {
+  message: "Select a credit card",
+  path: ["creditCardId"],
+})
+
+type TemplateFormData = z.infer<typeof templateFormSchema>
+
+const defaultValues = (): TemplateFormData => ({
+  kind: "EXPENSE",
+  title: "",
+  description: "",
+  amount: "",
+  currency: DEFAULT_CURRENCY,
+  frequency: "MONTHLY",
+  customDay: "",
+  startDate: new Date().toISOString().split("T")[0],
+  endDate: "",
+  expenseType: "EXPECTED",
+  category: "NEEDS",
+  paymentMethod: "UPI",
+  creditCardId: "",
+  tags: "",
+  incomeCategory: "OTHER",
+})
+
+interface RecurringTemplateModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess: () => void
+  creditCards: CreditCard[]
+}
+
+export function RecurringTemplateModal({
+  open,
+  onOpenChange,
+  onSuccess,
+  creditCards,
+}: RecurringTemplateModalProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<TemplateFormData>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: defaultValues(),
+  })
+
+  useEffect(() => {
+    if (open) reset(defaultValues())
+  }, [open, reset])
+
+  const kind = watch("kind")
+  const frequency = watch("frequency")
+  const paymentMethod = watch("paymentMethod")
+  const currency = watch("currency")
+
+  const onSubmit = async (data: TemplateFormData) => {
+    try {
+      setIsLoading(true)
+
+      const isExpense = data.kind === "EXPENSE"
+      const payload = {
+        kind: data.kind,
+        title: data.title,
+        description: data.description || undefined,
+        amount: Number(data.amount),
+        currency: data.currency,
+        frequency: data.frequency,
+        customDay: data.frequency === "CUSTOM" ? Number(data.customDay) : null,
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+        ...(isExpense
+          ? {
+              expenseType: data.expenseType,
+              category: data.category,
+              paymentMethod: data.paymentMethod,
+              creditCardId: data.paymentMethod === "CARD" ? data.creditCardId : null,
+              tags: (data.tags || "").split(",").map(tag => tag.trim()).filter(Boolean),
+            }
+          : {
+              incomeCategory: data.incomeCategory,
+            }),
+      }
+
+      const response = await fetch("/api/recurring", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to create recurring template")
+      }
+
+      toast.success("Recurring template created")
+      onOpenChange(false)
+      onSuccess()
+    } catch (error) {
+      console.error("Error creating recurring template:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to create recurring template")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl border border-gray-200/50 dark:border-gray-700/50">
+        <DialogHeader>
+          <DialogTitle className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">
+            New Recurring Entry
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Entries are created automatically each day they fall due
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={kind} onValueChange={(value) => setValue("kind", value as RecurringKind)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_KINDS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select value={currency} onValueChange={(value) => setValue("currency", value)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="amount">
+                  Amount ({getCurrencySymbol(currency).trim()}) <span className="text-destructive">*</span>
+                </Label>
+                <Input id="amount" {...register("amount")} type="number" step="0.01" className="bg-background" />
+                {errors.amount && <p className="text-sm text-destructive">{errors.amount.message}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="title">
+                Title <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="title"
+                {...register("title")}
+                placeholder={kind === "EXPENSE" ? "e.g., House Rent" : "e.g., Rental Income"}
+                className="bg-background"
+              />
+              {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={frequency} onValueChange={(value) => setValue("frequency", value as SIPFrequency)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_FREQUENCIES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {frequency === "CUSTOM" && (
+                <div className="space-y-2">
+                  <Label htmlFor="customDay">Day of Month</Label>
+                  <Input id="customDay" {...register("customDay")} type="number" min="1" max="31" className="bg-background" />
+                  {errors.customDay && <p className="text-sm text-destructive">{errors.customDay.message}</p>}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="startDate">
+                  First Date <span className="text-destructive">*</span>
+                </Label>
+                <Input id="startDate" {...register("startDate")} type="date" className="bg-background" />
+                {errors.startDate && <p className="text-sm text-destructive">{errors.startDate.message}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endDate">End Date (Optional)</Label>
+                <Input id="endDate" {...register("endDate")} type="date" className="bg-background" />
+              </div>
+            </div>
+
+            {kind === "EXPENSE" ? (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Expense Type</Label>
+                    <Select value={watch("expenseType")} onValueChange={(value) => setValue("expenseType", value)}>
+                      <SelectTrigger className="bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="EXPECTED">Expected</SelectItem>
+                        <SelectItem value="UNEXPECTED">Unexpected</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select value={watch("category")} onValueChange={(value) => setValue("category", value)}>
+                      <SelectTrigger className="bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="NEEDS">Needs</SelectItem>
+                        <SelectItem value="AVOID">Avoid</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Payment Method</Label>
+                    <Select value={paymentMethod} onValueChange={(value) => setValue("paymentMethod", value)}>
+                      <SelectTrigger className="bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {paymentMethod === "CARD" && (
+                    <div className="space-y-2">
+                      <Label>Credit Card</Label>
+                      <Select value={watch("creditCardId") || undefined} onValueChange={(value) => setValue("creditCardId", value)}>
+                        <SelectTrigger className="bg-background">
+                          <SelectValue placeholder="Select card" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {creditCards.map((card) => (
+                            <SelectItem key={card.id} value={card.id}>
+                              {card.cardName} •••• {card.lastFourDigits}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {errors.creditCardId && <p className="text-sm text-destructive">{errors.creditCardId.message}</p>}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="tags">Tags</Label>
+                  <Input id="tags" {...register("tags")} placeholder="e.g., rent, housing" className="bg-background" />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label>Income Category</Label>
+                <Select value={watch("incomeCategory")} onValueChange={(value) => setValue("incomeCategory", value)}>
+                  <SelectTrigger className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INCOME_CATEGORIES.map((category) => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Notes (Optional)</Label>
+              <Textarea
+                id="description"
+                {...register("description")}
+                rows={2}
+                className="bg-background resize-none"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading} className="flex-1">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                "Create"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
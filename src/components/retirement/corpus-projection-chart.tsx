@@ -0,0 +1,80 @@
+"use client"
+
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { getCurrencySymbol } from "@/constants"
+import type { RetirementProjectionPoint } from "@/types"
+
+interface CorpusProjectionChartProps {
+  projection: RetirementProjectionPoint[]
+  retirementAge: number
+  fireNumber: number
+  currency: string
+}
+
+const formatCompact = (value: number, symbol: string) => {
+  const abs = Math.abs(value)
+  const sign = value < 0 ? "-" : ""
+  if (abs >= 10000000) return `${sign}${symbol}${(abs / 10000000).toFixed(1)}Cr`
+  if (abs >= 100000) return `${sign}${symbol}${(abs / 100000).toFixed(1)}L`
+  if (abs >= 1000) return `${sign}${symbol}${(abs / 1000).toFixed(0)}K`
+  return `${sign}${symbol}${abs.toFixed(0)}`
+}
+
+// P10 to P90 band of the corpus by age with the median on top, in today's money
+export function CorpusProjectionChart({ projection, retirementAge, fireNumber, currency }: CorpusProjectionChartProps) {
+  const currencySymbol = getCurrencySymbol(currency).trim()
+  const chartData = projection.map(point => ({
+    age: point.age,
+    range: [point.p10, point.p90],
+    p50: point.p50,
+  }))
+
+  const formatValue = (value: number) => `${currencySymbol}${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+  return (
+    <div className="h-72 sm:h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+          <XAxis dataKey="age" tick={{ fontSize: 12 }} minTickGap={16} />
+          <YAxis tickFormatter={value => formatCompact(value, currencySymbol)} tick={{ fontSize: 12 }} width={70} />
+          <Tooltip
+            labelFormatter={label => `Age ${label}`}
+            formatter={(value, name) => [
+              Array.isArray(value)
+                ? `${formatValue(Number(value[0]))} – ${formatValue(Number(value[1]))}`
+                : formatValue(Number(value)),
+              name,
+            ]}
+          />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Area
+            type="monotone"
+            dataKey="range"
+            name="P10 – P90"
+            stroke="#3b82f6"
+            strokeOpacity={0.4}
+            fill="#3b82f6"
+            fillOpacity={0.2}
+          />
+          <Line type="monotone" dataKey="p50" name="Median" stroke="#10b981" strokeWidth={2} dot={false} />
+          <ReferenceLine x={retirementAge} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: "Retire", fontSize: 12, position: "top" }} />
+          {fireNumber > 0 && (
+            <ReferenceLine y={fireNumber} stroke="#ef4444" strokeDasharray="4 4" label={{ value: "FIRE number", fontSize: 12, position: "insideTopLeft" }} />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
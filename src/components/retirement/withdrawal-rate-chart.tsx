@@ -0,0 +1,38 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import type { WithdrawalRatePoint } from "@/types"
+
+interface WithdrawalRateChartProps {
+  rates: WithdrawalRatePoint[]
+  selectedRate: number
+}
+
+// Share of paths where the corpus lasts, per first-year withdrawal rate
+export function WithdrawalRateChart({ rates, selectedRate }: WithdrawalRateChartProps) {
+  const chartData = rates.map(point => ({ ...point, label: `${point.rate}%` }))
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis domain={[0, 100]} tickFormatter={value => `${value}%`} tick={{ fontSize: 12 }} width={45} />
+          <Tooltip
+            labelFormatter={label => `Withdrawing ${label} a year`}
+            formatter={value => [`${Number(value).toFixed(1)}%`, "Corpus lasts"]}
+          />
+          <Bar dataKey="successProbability" radius={[4, 4, 0, 0]}>
+            {chartData.map(point => (
+              <Cell
+                key={point.rate}
+                fill={point.rate === selectedRate ? "#10b981" : point.successProbability >= 90 ? "#3b82f6" : "#f59e0b"}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
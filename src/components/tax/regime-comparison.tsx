@@ -0,0 +1,136 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle, Scale } from "lucide-react"
+import { TAX_REGIME_LABELS } from "@/constants"
+import { formatFinancialYear } from "@/lib/tax-calculator"
+import { cn } from "@/lib/utils"
+import type { RegimeComparison, RegimeTaxResult, TaxRegime } from "@/types"
+
+interface RegimeComparisonPanelProps {
+  comparison: RegimeComparison | null
+  selectedRegime: TaxRegime | null
+}
+
+const formatAmount = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+
+function RegimeCard({
+  result,
+  isRecommended,
+  isSelected,
+}: {
+  result: RegimeTaxResult
+  isRecommended: boolean
+  isSelected: boolean
+}) {
+  const rows: { label: string; value: number; negative?: boolean; hidden?: boolean }[] = [
+    { label: "Gross Income", value: result.grossIncome },
+    { label: "Standard Deduction", value: result.deductions.standardDeduction, negative: true },
+    { label: "Section 80C", value: result.deductions.section80C, negative: true, hidden: result.deductions.section80C === 0 },
+    { label: "Section 80D", value: result.deductions.section80D, negative: true, hidden: result.deductions.section80D === 0 },
+    { label: "Section 80CCD(1B)", value: result.deductions.section80CCD1B, negative: true, hidden: result.deductions.section80CCD1B === 0 },
+    { label: "HRA Exemption", value: result.deductions.hraExemption, negative: true, hidden: result.deductions.hraExemption === 0 },
+    { label: "Other Deductions", value: result.deductions.otherDeductions, negative: true, hidden: result.deductions.otherDeductions === 0 },
+    { label: "Taxable Income", value: result.taxableIncome },
+    { label: "Tax on Slabs", value: result.slabTax },
+    { label: "Rebate u/s 87A", value: result.rebate, negative: true, hidden: result.rebate === 0 },
+    { label: "Surcharge", value: result.surcharge, hidden: result.surcharge === 0 },
+    { label: "Health & Education Cess (4%)", value: result.cess },
+  ]
+
+  return (
+    <div
+      className={cn(
+        "relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50 border-l-4",
+        isRecommended ? "border-l-green-500" : "border-l-gray-400"
+      )}
+    >
+      <div className="relative p-6 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {TAX_REGIME_LABELS[result.regime]}
+          </h3>
+          <div className="flex gap-2">
+            {isSelected && <Badge variant="outline">Selected</Badge>}
+            {isRecommended && (
+              <Badge className="bg-green-600 hover:bg-green-600">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Cheaper
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {rows.filter(row => !row.hidden).map(row => (
+            <div key={row.label} className="flex items-center justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">{row.label}</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {row.negative ? "-" : ""}{formatAmount(row.value)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="pt-4 border-t space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-semibold">Total Tax (Annual)</span>
+            <span className="text-xl font-bold">{formatAmount(result.totalTax)}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>Monthly</span>
+            <span>{formatAmount(result.monthlyTax)}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <span>Effective Rate</span>
+            <span>{result.effectiveRate.toFixed(2)}%</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function RegimeComparisonPanel({ comparison, selectedRegime }: RegimeComparisonPanelProps) {
+  if (!comparison || comparison.grossIncome <= 0) {
+    return (
+      <div className="relative overflow-hidden rounded-xl bg-white/60 dark:bg-gray-800/60 backdrop-blur-lg border border-gray-200/50 dark:border-gray-700/50">
+        <div className="relative text-center py-8 px-6">
+          <Scale className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2 text-gray-900 dark:text-white">No Income Data</h3>
+          <p className="text-gray-600 dark:text-gray-400">
+            Add your salary history and income entries to compare tax regimes.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+        <p className="text-sm font-medium text-blue-900 dark:text-blue-100">
+          {formatFinancialYear(comparison.financialYear)} · Gross income {formatAmount(comparison.grossIncome)}
+        </p>
+        <p className="text-sm text-blue-800 dark:text-blue-200 mt-1">
+          {comparison.savings > 0
+            ? `The ${TAX_REGIME_LABELS[comparison.recommended]} saves you ${formatAmount(comparison.savings)} this year.`
+            : "Both regimes result in the same tax this year."}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <RegimeCard
+          result={comparison.old}
+          isRecommended={comparison.savings > 0 && comparison.recommended === "OLD"}
+          isSelected={selectedRegime === "OLD"}
+        />
+        <RegimeCard
+          result={comparison.new}
+          isRecommended={comparison.savings > 0 && comparison.recommended === "NEW"}
+          isSelected={selectedRegime === "NEW"}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import type { AuditAction, AuditEntity } from "@/types"
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  EXPENSE: "Expense",
+  INCOME: "Income",
+  LOAN: "Loan",
+  EMI: "EMI",
+  LOAN_EVENT: "Loan Event",
+  HOLDING: "Holding",
+  TRANSACTION: "Transaction",
+  SIP: "SIP",
+  MEMBER: "Member",
+  MEMBER_TRANSACTION: "Member Transaction",
+  BORROWED_FUND: "Borrowed Fund",
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: "Created",
+  UPDATE: "Updated",
+  DELETE: "Deleted",
+}
+
+export const AUDIT_ACTION_BADGE_COLORS: Record<AuditAction, string> = {
+  CREATE: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  UPDATE: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  DELETE: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+}
+
+// Bookkeeping columns left out of the changed fields of an update
+export const AUDIT_IGNORED_FIELDS = ["updatedAt"]
+
+export const AUDIT_PAGE_SIZE = 50
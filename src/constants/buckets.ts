@@ -26,3 +26,15 @@ export const BUCKET_COLORS: Record<string, string> = {
   CRYPTO: "bg-orange-500",
   EMERGENCY_FUND: "bg-red-500",
 }
+
+// Annual volatility (percent) assumed for each bucket in goal and retirement simulations
+export const BUCKET_VOLATILITY_PERCENT: Record<InvestmentBucket, number> = {
+  MUTUAL_FUND: 15,
+  IND_STOCK: 20,
+  US_STOCK: 18,
+  CRYPTO: 70,
+  EMERGENCY_FUND: 1,
+}
+
+// Used for SIPs without a bucket and goals with nothing earmarked
+export const DEFAULT_VOLATILITY_PERCENT = 15
@@ -0,0 +1,60 @@
+import type { CapitalGainHead, CapitalGainTerm, InvestmentBucket, SelectOption } from "@/types"
+
+export const CAPITAL_GAIN_TERMS: readonly SelectOption<CapitalGainTerm>[] = [
+  { value: "SHORT_TERM", label: "Short Term" },
+  { value: "LONG_TERM", label: "Long Term" },
+  { value: "VDA", label: "Virtual Digital Asset" },
+] as const
+
+export const CAPITAL_GAIN_TERM_LABELS: Record<CapitalGainTerm, string> = {
+  SHORT_TERM: "Short Term",
+  LONG_TERM: "Long Term",
+  VDA: "VDA",
+}
+
+export const CAPITAL_GAIN_TERM_COLORS: Record<CapitalGainTerm, string> = {
+  SHORT_TERM: "bg-amber-500",
+  LONG_TERM: "bg-green-500",
+  VDA: "bg-orange-500",
+}
+
+export const CAPITAL_GAIN_HEAD_LABELS: Record<CapitalGainHead, string> = {
+  EQUITY_STCG: "STCG on equity (Sec 111A)",
+  EQUITY_LTCG: "LTCG on equity (Sec 112A)",
+  OTHER_LTCG: "LTCG on other assets (Sec 112)",
+  SLAB_STCG: "STCG at slab rates",
+  VDA: "Virtual digital assets (Sec 115BBH)",
+}
+
+// Months an asset must be held (strictly more than) to be long term; null = never long term
+export const LONG_TERM_HOLDING_MONTHS: Record<InvestmentBucket, number | null> = {
+  MUTUAL_FUND: 12,
+  IND_STOCK: 12,
+  US_STOCK: 24,
+  CRYPTO: null, // Taxed as VDA regardless of holding period
+  EMERGENCY_FUND: null, // Debt funds / deposits: slab rates (Sec 50AA)
+}
+
+// Equity buckets covered by STT-paid rules (111A / 112A) and grandfathering
+export const EQUITY_BUCKETS: readonly InvestmentBucket[] = ["MUTUAL_FUND", "IND_STOCK"] as const
+
+// Lots acquired on or before this date use the 31-Jan-2018 FMV as cost (Sec 112A grandfathering)
+export const GRANDFATHERING_DATE = new Date(2018, 0, 31, 23, 59, 59, 999)
+
+// Budget 2024 rates apply to transfers on or after this date
+export const CAPITAL_GAIN_RATE_CHANGE_DATE = new Date(2024, 6, 23)
+
+// Rates in percentage, before and after the Budget 2024 change
+export const CAPITAL_GAIN_RATES = {
+  before: { equitySTCG: 15, equityLTCG: 10, otherLTCG: 20 },
+  after: { equitySTCG: 20, equityLTCG: 12.5, otherLTCG: 12.5 },
+} as const
+
+export const VDA_TAX_RATE = 30
+
+// Annual Sec 112A exemption; the higher limit applies to the whole of FY 2024-25 onwards
+export const EQUITY_LTCG_EXEMPTION = {
+  before: 100000,
+  after: 125000,
+  fromFinancialYear: 2024,
+} as const
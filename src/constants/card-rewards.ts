@@ -0,0 +1,11 @@
+import type { CardMilestonePeriod, CardRewardType, SelectOption } from "@/types"
+
+export const CARD_REWARD_TYPES: readonly SelectOption<CardRewardType>[] = [
+  { value: "POINTS", label: "Reward Points" },
+  { value: "CASHBACK", label: "Cashback" },
+] as const
+
+export const CARD_MILESTONE_PERIODS: readonly SelectOption<CardMilestonePeriod>[] = [
+  { value: "CYCLE", label: "Per Statement Cycle" },
+  { value: "YEAR", label: "Per Calendar Year" },
+] as const
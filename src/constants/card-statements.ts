@@ -0,0 +1,47 @@
+import type { CardStatementStatus, CardUtilisationLevel } from "@/types"
+
+export const CARD_STATEMENT_STATUS_LABELS: Record<CardStatementStatus, string> = {
+  OPEN: "Open",
+  BILLED: "Billed",
+  PARTIALLY_PAID: "Partially Paid",
+  PAID: "Paid",
+  OVERDUE: "Overdue",
+}
+
+export const CARD_STATEMENT_STATUS_COLORS: Record<CardStatementStatus, string> = {
+  OPEN: "bg-blue-500",
+  BILLED: "bg-yellow-500",
+  PARTIALLY_PAID: "bg-orange-500",
+  PAID: "bg-green-500",
+  OVERDUE: "bg-red-500",
+}
+
+// Minimum due: a percentage of the total due, with a floor (capped at the total due)
+export const CARD_MINIMUM_DUE_PERCENT = 5
+export const CARD_MINIMUM_DUE_FLOOR = 200
+
+// Monthly finance charge on a balance carried past the due date
+export const CARD_MONTHLY_INTEREST_PERCENT = 3.6
+
+// Late fee slabs by total due, charged when the minimum due is not paid by the due date plus grace period
+export const CARD_LATE_FEE_SLABS: readonly { upTo: number; fee: number }[] = [
+  { upTo: 500, fee: 0 },
+  { upTo: 5000, fee: 500 },
+  { upTo: 10000, fee: 750 },
+  { upTo: 25000, fee: 950 },
+  { upTo: 50000, fee: 1100 },
+  { upTo: Infinity, fee: 1300 },
+] as const
+
+// Utilisation of the card limit (percent) at which the card is flagged
+export const CARD_UTILISATION_WARNING_PERCENT = 30
+export const CARD_UTILISATION_CRITICAL_PERCENT = 80
+
+export const CARD_UTILISATION_COLORS: Record<CardUtilisationLevel, string> = {
+  OK: "bg-green-500",
+  WARNING: "bg-amber-500",
+  CRITICAL: "bg-red-500",
+}
+
+// Days a charge may post after the expense date and still match it during reconciliation
+export const CARD_RECONCILIATION_DAY_TOLERANCE = 3
@@ -0,0 +1,41 @@
+import type { CasTransactionType } from "@/types"
+
+export const CAS_TRANSACTION_TYPE_LABELS: Record<CasTransactionType, string> = {
+  PURCHASE: "Purchase",
+  SIP: "SIP Instalment",
+  REDEMPTION: "Redemption",
+  SWITCH_IN: "Switch In",
+  SWITCH_OUT: "Switch Out",
+  DIVIDEND_REINVESTMENT: "IDCW Reinvestment",
+}
+
+// Types that add units; the others redeem them
+export const CAS_PURCHASE_TYPES: readonly CasTransactionType[] = ["PURCHASE", "SIP", "SWITCH_IN", "DIVIDEND_REINVESTMENT"] as const
+
+// Narration keywords of CAS text statements, checked in order; rows matching none are
+// purchases when they add units and redemptions when they remove them
+export const CAS_TRANSACTION_KEYWORDS: { keywords: string[]; type: CasTransactionType }[] = [
+  { keywords: ["SWITCH IN", "SWITCH-IN", "SWITCHIN", "STP IN", "LATERAL SHIFT IN", "TRANSFER IN"], type: "SWITCH_IN" },
+  { keywords: ["SWITCH OUT", "SWITCH-OUT", "SWITCHOUT", "STP OUT", "LATERAL SHIFT OUT", "TRANSFER OUT"], type: "SWITCH_OUT" },
+  { keywords: ["REINVEST", "REINV", "DIV. REINV", "IDCW REINVESTMENT"], type: "DIVIDEND_REINVESTMENT" },
+  { keywords: ["SIP", "SYSTEMATIC INVESTMENT", "SYS. INVESTMENT", "SYSTEMATIC PURCHASE"], type: "SIP" },
+  { keywords: ["REDEMPTION", "REDEEM", "REPURCHASE", "SWP", "SYSTEMATIC WITHDRAWAL"], type: "REDEMPTION" },
+]
+
+// Transaction types of the casparser JSON export
+export const CAS_JSON_TRANSACTION_TYPES: Record<string, CasTransactionType> = {
+  PURCHASE: "PURCHASE",
+  PURCHASE_SIP: "SIP",
+  REDEMPTION: "REDEMPTION",
+  SWITCH_IN: "SWITCH_IN",
+  SWITCH_IN_MERGER: "SWITCH_IN",
+  SWITCH_OUT: "SWITCH_OUT",
+  SWITCH_OUT_MERGER: "SWITCH_OUT",
+  DIVIDEND_REINVEST: "DIVIDEND_REINVESTMENT",
+  DIVIDEND_REINVESTMENT: "DIVIDEND_REINVESTMENT",
+}
+
+// A recorded transaction within this many days, with the same units or amount, is the same transaction
+// (SIP instalments are allotted a day or two after the due date)
+export const CAS_DUPLICATE_WINDOW_DAYS = 3
+export const CAS_UNITS_TOLERANCE = 0.001
@@ -0,0 +1,37 @@
+import type { SelectOption } from "@/types"
+
+export const DEFAULT_CURRENCY = "INR"
+
+// ISO 4217 code, e.g. EUR
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/
+
+// Currencies offered in forms; any ISO 4217 code is accepted by the API
+export const CURRENCIES: readonly SelectOption<string>[] = [
+  { value: "INR", label: "INR (₹)" },
+  { value: "USD", label: "USD ($)" },
+  { value: "EUR", label: "EUR (€)" },
+  { value: "GBP", label: "GBP (£)" },
+  { value: "AED", label: "AED (د.إ)" },
+  { value: "SGD", label: "SGD (S$)" },
+  { value: "JPY", label: "JPY (¥)" },
+  { value: "AUD", label: "AUD (A$)" },
+  { value: "CAD", label: "CAD (C$)" },
+  { value: "CHF", label: "CHF (Fr)" },
+] as const
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  INR: "₹",
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  AED: "د.إ ",
+  SGD: "S$",
+  JPY: "¥",
+  AUD: "A$",
+  CAD: "C$",
+  CHF: "Fr ",
+}
+
+export function getCurrencySymbol(currency: string): string {
+  return CURRENCY_SYMBOLS[currency] ?? `${currency} `
+}
@@ -0,0 +1,15 @@
+// Field-level encryption of PAN, Aadhaar and loan account numbers
+// Stored values start with this prefix; a value without it is plaintext not yet migrated
+export const ENCRYPTED_FIELD_PREFIX = "enc:v1:"
+
+// Characters left visible at the end of a masked value
+export const MASK_VISIBLE_CHARS = 4
+
+// Shown in place of an encrypted value in audit entries
+export const ENCRYPTED_AUDIT_VALUE = "[encrypted]"
+
+// Columns holding encrypted values; audit entries redact them by name, even while a row is not yet migrated
+export const ENCRYPTED_FIELDS = ["accountNumber", "panNumber", "aadharNumber"]
+
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/
+export const AADHAAR_PATTERN = /^\d{12}$/
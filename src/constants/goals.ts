@@ -0,0 +1,51 @@
+import type { GoalCategory, GoalPriority, GoalStatus, SelectOption } from "@/types"
+
+export const GOAL_CATEGORIES: readonly SelectOption<GoalCategory>[] = [
+  { value: "HOUSE", label: "House" },
+  { value: "EDUCATION", label: "Education" },
+  { value: "RETIREMENT", label: "Retirement" },
+  { value: "VEHICLE", label: "Vehicle" },
+  { value: "WEDDING", label: "Wedding" },
+  { value: "TRAVEL", label: "Travel" },
+  { value: "OTHER", label: "Other" },
+] as const
+
+export const GOAL_PRIORITIES: readonly SelectOption<GoalPriority>[] = [
+  { value: "HIGH", label: "High" },
+  { value: "MEDIUM", label: "Medium" },
+  { value: "LOW", label: "Low" },
+] as const
+
+export const GOAL_PRIORITY_COLORS: Record<GoalPriority, string> = {
+  HIGH: "bg-red-500",
+  MEDIUM: "bg-amber-500",
+  LOW: "bg-gray-500",
+}
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  ACHIEVED: "Achieved",
+  ON_TRACK: "On Track",
+  AT_RISK: "At Risk",
+  OFF_TRACK: "Off Track",
+}
+
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  ACHIEVED: "bg-emerald-500",
+  ON_TRACK: "bg-green-500",
+  AT_RISK: "bg-amber-500",
+  OFF_TRACK: "bg-red-500",
+}
+
+export function getGoalCategoryLabel(category: string): string {
+  return GOAL_CATEGORIES.find((option) => option.value === category)?.label || category
+}
+
+export const GOAL_DEFAULT_INFLATION_PERCENT = 6
+export const GOAL_DEFAULT_RETURN_PERCENT = 12
+
+// Simulated market paths behind a goal's probability; the goal id seeds them so results are stable
+export const GOAL_SIMULATION_PATHS = 1000
+
+// Probability of reaching a goal (percent) at which it counts as on track or at risk
+export const GOAL_ON_TRACK_PROBABILITY = 75
+export const GOAL_AT_RISK_PROBABILITY = 40
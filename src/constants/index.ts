@@ -1,8 +1,25 @@
 // Re-export all constants for easy importing
+export * from "./audit"
 export * from "./buckets"
+export * from "./capital-gains"
+export * from "./card-rewards"
+export * from "./card-statements"
+export * from "./cas-import"
 export * from "./categories"
+export * from "./currencies"
+export * from "./field-encryption"
+export * from "./goals"
 export * from "./loans"
+export * from "./monthly-snapshot"
 export * from "./months"
+export * from "./net-worth"
 export * from "./payment-methods"
+export * from "./rebalancing"
+export * from "./recurring"
+export * from "./retirement"
 export * from "./roles"
+export * from "./sessions"
+export * from "./statement-import"
+export * from "./tax"
 export * from "./transactions"
+export * from "./two-factor"
@@ -19,6 +19,21 @@ export const EMI_FREQUENCIES: readonly SelectOption[] = [
   { value: "CUSTOM", label: "Custom Date" },
 ] as const
 
+export const LOAN_EVENT_TYPES: readonly SelectOption[] = [
+  { value: "PREPAYMENT", label: "Part Prepayment" },
+  { value: "RATE_CHANGE", label: "Interest Rate Revision" },
+  { value: "TENURE_CHANGE", label: "Tenure Change" },
+  { value: "EMI_CHANGE", label: "EMI Change" },
+] as const
+
+export const LOAN_ADJUSTMENT_STRATEGIES: readonly SelectOption[] = [
+  { value: "REDUCE_TENURE", label: "Reduce Tenure" },
+  { value: "REDUCE_EMI", label: "Reduce EMI" },
+] as const
+
+// Upper bound on schedule length (50 years of monthly EMIs) when an EMI barely covers interest
+export const LOAN_SCHEDULE_MAX_INSTALLMENTS = 600
+
 export const FREQUENCY_LABELS: Record<string, string> = {
   MONTHLY: "Monthly",
   QUARTERLY: "Quarterly",
@@ -34,6 +49,10 @@ export function getLoanTypeLabel(type: string): string {
     .join(" ")
 }
 
+export function getLoanEventLabel(type: string): string {
+  return LOAN_EVENT_TYPES.find((option) => option.value === type)?.label || type
+}
+
 export function getFrequencyLabel(frequency: string): string {
   return FREQUENCY_LABELS[frequency] || frequency
 }
@@ -0,0 +1,73 @@
+import type { MonthCloseAction, MonthCloseTrigger, SnapshotFieldKind } from "@/types"
+
+export const MONTH_CLOSE_ACTION_LABELS: Record<MonthCloseAction, string> = {
+  CLOSE: "Closed",
+  REOPEN: "Reopened",
+  RECOMPUTE: "Recomputed",
+}
+
+export const MONTH_CLOSE_TRIGGER_LABELS: Record<MonthCloseTrigger, string> = {
+  MANUAL: "Manual",
+  CRON: "Scheduled",
+}
+
+// Snapshot fields compared by a recompute, in display order
+export const SNAPSHOT_FIELDS: readonly { field: string; label: string; kind: SnapshotFieldKind }[] = [
+  { field: "currency", label: "Currency", kind: "text" },
+  { field: "salary", label: "Income", kind: "amount" },
+  { field: "taxAmount", label: "Tax", kind: "amount" },
+  { field: "afterTax", label: "After Tax", kind: "amount" },
+  { field: "totalLoans", label: "Loan EMIs", kind: "amount" },
+  { field: "totalSIPs", label: "SIPs", kind: "amount" },
+  { field: "totalExpenses", label: "Total Expenses", kind: "amount" },
+  { field: "expectedExpenses", label: "Expected Expenses", kind: "amount" },
+  { field: "unexpectedExpenses", label: "Unexpected Expenses", kind: "amount" },
+  { field: "needsExpenses", label: "Needs", kind: "amount" },
+  { field: "avoidExpenses", label: "Avoidable", kind: "amount" },
+  { field: "availableAmount", label: "Available", kind: "amount" },
+  { field: "spentAmount", label: "Spent", kind: "amount" },
+  { field: "surplusAmount", label: "Surplus", kind: "amount" },
+  { field: "plannedSurplus", label: "Planned Surplus", kind: "amount" },
+  { field: "cashRemaining", label: "Cash Remaining", kind: "amount" },
+  { field: "previousSurplus", label: "Carried Forward", kind: "amount" },
+  { field: "investmentsMade", label: "Investments Made", kind: "amount" },
+  { field: "loansData", label: "Loan Details", kind: "details" },
+  { field: "currentMonthEMIPaid", label: "EMIs Paid", kind: "amount" },
+  { field: "currentMonthEMIUnpaid", label: "EMIs Unpaid", kind: "amount" },
+  { field: "currentMonthEMIPaidCount", label: "EMIs Paid (count)", kind: "count" },
+  { field: "currentMonthEMIUnpaidCount", label: "EMIs Unpaid (count)", kind: "count" },
+  { field: "additionalEMIPaid", label: "Other EMIs Paid", kind: "amount" },
+  { field: "additionalEMIPaidCount", label: "Other EMIs Paid (count)", kind: "count" },
+  { field: "totalSIPInvested", label: "Planned SIP Investment", kind: "amount" },
+  { field: "sipExecutionsAmount", label: "SIP Executions", kind: "amount" },
+  { field: "sipExecutionsCount", label: "SIP Executions (count)", kind: "count" },
+  { field: "oneTimeInvestments", label: "One-Time Investments", kind: "amount" },
+  { field: "oneTimeInvestmentsCount", label: "One-Time Investments (count)", kind: "count" },
+  { field: "additionalTransactions", label: "Additional Transactions", kind: "amount" },
+  { field: "monthOnMonthSIPProfit", label: "SIP Profit This Month", kind: "amount" },
+  { field: "monthOnMonthSIPProfitPct", label: "SIP Profit This Month %", kind: "percent" },
+  { field: "currentMonthReturns", label: "Returns This Month", kind: "amount" },
+  { field: "currentMonthReturnsPct", label: "Returns This Month %", kind: "percent" },
+  { field: "overallPortfolioValue", label: "Portfolio Value", kind: "amount" },
+  { field: "overallPortfolioPnL", label: "Portfolio P&L", kind: "amount" },
+  { field: "overallPortfolioPnLPct", label: "Portfolio P&L %", kind: "percent" },
+  { field: "overallPortfolioXirr", label: "Portfolio XIRR", kind: "percent" },
+  { field: "overallPortfolioTwr", label: "Portfolio TWR", kind: "percent" },
+  { field: "plannedExpenses", label: "Planned Expenses", kind: "amount" },
+  { field: "expectedBudget", label: "Expected Budget", kind: "amount" },
+  { field: "unexpectedBudget", label: "Unexpected Budget", kind: "amount" },
+  { field: "isUsingBudget", label: "Budget Configured", kind: "flag" },
+  { field: "loansAdded", label: "Loans Added", kind: "count" },
+  { field: "loansAddedData", label: "Loans Added Details", kind: "details" },
+  { field: "loansClosed", label: "Loans Closed", kind: "count" },
+  { field: "loansClosedData", label: "Loans Closed Details", kind: "details" },
+  { field: "memberBorrowed", label: "Borrowed from Members", kind: "amount" },
+  { field: "memberLent", label: "Lent to Members", kind: "amount" },
+  { field: "memberTransactionsCount", label: "Member Transactions", kind: "count" },
+  { field: "memberTransactionsData", label: "Member Transaction Details", kind: "details" },
+  { field: "borrowedFundsReceived", label: "Borrowed Funds Received", kind: "amount" },
+  { field: "borrowedFundsReturned", label: "Borrowed Funds Returned", kind: "amount" },
+  { field: "borrowedFundsCount", label: "Borrowed Funds", kind: "count" },
+  { field: "borrowedFundsData", label: "Borrowed Fund Details", kind: "details" },
+  { field: "borrowedFundsProfit", label: "Borrowed Funds Profit", kind: "amount" },
+] as const
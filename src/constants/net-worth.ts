@@ -0,0 +1,25 @@
+import type { ManualAssetType, SelectOption } from "@/types"
+
+export const MANUAL_ASSET_TYPES: readonly SelectOption<ManualAssetType>[] = [
+  { value: "REAL_ESTATE", label: "Real Estate" },
+  { value: "GOLD", label: "Gold" },
+  { value: "EPF", label: "EPF" },
+  { value: "PPF", label: "PPF" },
+  { value: "FIXED_DEPOSIT", label: "Fixed Deposit" },
+  { value: "OTHER", label: "Other" },
+] as const
+
+export function getManualAssetLabel(type: string): string {
+  return MANUAL_ASSET_TYPES.find((option) => option.value === type)?.label || type
+}
+
+// History ranges offered on the net worth and portfolio value charts, in days
+export const NET_WORTH_RANGES: readonly SelectOption<string>[] = [
+  { value: "90", label: "3 Months" },
+  { value: "180", label: "6 Months" },
+  { value: "365", label: "1 Year" },
+  { value: "1825", label: "5 Years" },
+] as const
+
+export const NET_WORTH_DEFAULT_RANGE_DAYS = 365
+export const NET_WORTH_MAX_RANGE_DAYS = 3650
@@ -0,0 +1,14 @@
+import type { RebalanceMode, SelectOption } from "@/types"
+
+export const REBALANCE_MODES: readonly SelectOption<RebalanceMode>[] = [
+  { value: "BUY_ONLY", label: "Buy only (from surplus)" },
+  { value: "BUY_SELL", label: "Buy and sell" },
+] as const
+
+export const REBALANCE_DEFAULT_TOLERANCE_PERCENT = 5
+
+// Trades smaller than this (base currency) are not worth suggesting
+export const REBALANCE_MIN_TRADE_AMOUNT = 100
+
+// Short-term gains outside equity are added to income; the top slab is assumed for the estimate
+export const REBALANCE_SLAB_TAX_RATE = 30
@@ -0,0 +1,19 @@
+import type { RecurringKind, SelectOption, SIPFrequency } from "@/types"
+
+export const RECURRING_KINDS: readonly SelectOption<RecurringKind>[] = [
+  { value: "EXPENSE", label: "Expense" },
+  { value: "INCOME", label: "Income" },
+] as const
+
+export const RECURRING_FREQUENCIES: readonly SelectOption<SIPFrequency>[] = [
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "MONTHLY", label: "Monthly" },
+  { value: "QUARTERLY", label: "Quarterly" },
+  { value: "HALF_YEARLY", label: "Half-Yearly" },
+  { value: "YEARLY", label: "Yearly" },
+  { value: "CUSTOM", label: "Custom Day of Month" },
+] as const
+
+// Maximum occurrences materialised for one template in a single cron run (limits catch-up after downtime)
+export const RECURRING_MAX_CATCH_UP = 60
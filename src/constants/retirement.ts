@@ -0,0 +1,29 @@
+import type { InvestmentBucket } from "@/types"
+
+// Annual return (percent) assumed for each bucket until the user changes it
+export const RETIREMENT_DEFAULT_RETURN_PERCENT: Record<InvestmentBucket, number> = {
+  MUTUAL_FUND: 12,
+  IND_STOCK: 13,
+  US_STOCK: 11,
+  CRYPTO: 15,
+  EMERGENCY_FUND: 6.5,
+}
+
+export const RETIREMENT_DEFAULTS = {
+  currentAge: 30, // When the profile has no date of birth
+  retirementAge: 60,
+  lifeExpectancy: 85,
+  inflationRate: 6,
+  salaryGrowth: 8,
+  withdrawalRate: 4,
+  seed: 42,
+} as const
+
+// Simulated market paths per projection
+export const RETIREMENT_SIMULATION_PATHS = 1000
+
+// Monthly snapshots averaged for the current spend
+export const RETIREMENT_SPEND_MONTHS = 12
+
+// Withdrawal rates (percent) compared in the safe-withdrawal chart
+export const RETIREMENT_WITHDRAWAL_RATES = [2, 2.5, 3, 3.5, 4, 4.5, 5, 5.5, 6] as const
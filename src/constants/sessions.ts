@@ -0,0 +1,6 @@
+// Signed-in device sessions
+// A session not seen for this long has expired with its JWT
+export const SESSION_MAX_AGE_DAYS = 30
+
+// Error a token of a remotely signed-out session fails with
+export const SESSION_REVOKED_ERROR = "SESSION_REVOKED"
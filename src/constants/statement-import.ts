@@ -0,0 +1,135 @@
+import type { BankName } from "./banks"
+import type {
+  Expense,
+  ImportTarget,
+  SelectOption,
+  StatementAccountType,
+  StatementColumnMapping,
+} from "@/types"
+
+export const STATEMENT_ACCOUNT_TYPES: readonly SelectOption<StatementAccountType>[] = [
+  { value: "BANK", label: "Bank Account" },
+  { value: "CREDIT_CARD", label: "Credit Card" },
+] as const
+
+export const IMPORT_TARGETS: readonly SelectOption<ImportTarget>[] = [
+  { value: "EXPENSE", label: "Expense" },
+  { value: "INCOME", label: "Income" },
+  { value: "SKIP", label: "Skip" },
+] as const
+
+// Used for banks without a specific mapping; matches the most common header names
+export const GENERIC_STATEMENT_MAPPING: StatementColumnMapping = {
+  date: ["date", "txn date", "transaction date", "tran date", "posting date", "value date"],
+  description: ["description", "narration", "particulars", "transaction remarks", "remarks", "details", "transaction details"],
+  debit: ["debit", "withdrawal", "withdrawal amt.", "withdrawal amount", "withdrawal amount (inr )", "dr", "debit amount"],
+  credit: ["credit", "deposit", "deposit amt.", "deposit amount", "deposit amount (inr )", "cr", "credit amount"],
+  amount: ["amount", "transaction amount", "amount (inr)"],
+  direction: ["dr / cr", "dr/cr", "type", "debit/credit", "cr/dr"],
+  reference: ["chq./ref.no.", "ref no./cheque no.", "cheque number", "chq / ref no.", "reference", "reference no", "chqno"],
+  dateOrder: "DMY",
+}
+
+// CSV column mappings for banks' statement exports (Excel exports saved as CSV)
+export const BANK_STATEMENT_MAPPINGS: Partial<Record<BankName, StatementColumnMapping>> = {
+  "HDFC Bank": {
+    date: ["date"],
+    description: ["narration"],
+    debit: ["withdrawal amt.", "withdrawal amount"],
+    credit: ["deposit amt.", "deposit amount"],
+    reference: ["chq./ref.no.", "chq/ref number"],
+    dateOrder: "DMY",
+  },
+  "ICICI Bank": {
+    date: ["transaction date", "value date"],
+    description: ["transaction remarks", "description"],
+    debit: ["withdrawal amount (inr )", "withdrawal amount (inr)", "withdrawal amount"],
+    credit: ["deposit amount (inr )", "deposit amount (inr)", "deposit amount"],
+    reference: ["cheque number"],
+    dateOrder: "DMY",
+  },
+  "State Bank of India (SBI)": {
+    date: ["txn date"],
+    description: ["description"],
+    debit: ["debit"],
+    credit: ["credit"],
+    reference: ["ref no./cheque no."],
+    dateOrder: "DMY",
+  },
+  "Axis Bank": {
+    date: ["tran date"],
+    description: ["particulars"],
+    debit: ["dr"],
+    credit: ["cr"],
+    reference: ["chqno"],
+    dateOrder: "DMY",
+  },
+  "Kotak Mahindra Bank": {
+    date: ["transaction date"],
+    description: ["description"],
+    amount: ["amount"],
+    direction: ["dr / cr"],
+    reference: ["chq / ref no."],
+    dateOrder: "DMY",
+  },
+  "IDFC First Bank": {
+    date: ["transaction date"],
+    description: ["particulars"],
+    debit: ["debit"],
+    credit: ["credit"],
+    reference: ["cheque no."],
+    dateOrder: "DMY",
+  },
+  "American Express": {
+    date: ["date"],
+    description: ["description"],
+    amount: ["amount"],
+    reference: ["reference"],
+    dateOrder: "DMY",
+    debitIsPositive: true,
+  },
+}
+
+// Keyword rules for suggesting how a statement row should be recorded (matched against the narration)
+export const IMPORT_PAYMENT_METHOD_KEYWORDS: { keywords: string[]; paymentMethod: Expense["paymentMethod"] }[] = [
+  { keywords: ["UPI", "GPAY", "PHONEPE", "PAYTM"], paymentMethod: "UPI" },
+  { keywords: ["NEFT", "IMPS", "RTGS", "NETBANKING", "NET BANKING", "BILLPAY", "ACH", "NACH", "ECS"], paymentMethod: "NET_BANKING" },
+  { keywords: ["ATM", "CASH WDL", "CASH WITHDRAWAL", "NWD", "AWB"], paymentMethod: "CASH" },
+  // Debit card spends; CARD is reserved for credit cards
+  { keywords: ["POS", "DEBIT CARD", "ECOM", "VPS"], paymentMethod: "OTHER" },
+]
+
+export const IMPORT_CATEGORY_KEYWORDS: { keywords: string[]; category: Expense["category"]; expenseType: Expense["expenseType"] }[] = [
+  { keywords: ["RENT", "ELECTRICITY", "BESCOM", "TNEB", "WATER", "GAS", "BROADBAND", "AIRTEL", "JIO", "INSURANCE", "LIC", "SCHOOL", "FEES"], category: "NEEDS", expenseType: "EXPECTED" },
+  { keywords: ["GROCERY", "BIGBASKET", "BLINKIT", "ZEPTO", "DMART", "MILK", "PHARMACY", "APOLLO", "MEDPLUS", "HOSPITAL", "FUEL", "PETROL", "HPCL", "BPCL", "IOCL"], category: "NEEDS", expenseType: "EXPECTED" },
+  { keywords: ["SWIGGY", "ZOMATO", "NETFLIX", "PRIME VIDEO", "HOTSTAR", "SPOTIFY", "BOOKMYSHOW", "PVR", "INOX", "MYNTRA", "AJIO", "NYKAA"], category: "AVOID", expenseType: "UNEXPECTED" },
+]
+
+// Debits that move money rather than spend it (card bill payments, SIPs, EMIs, own transfers)
+export const IMPORT_SKIP_DEBIT_KEYWORDS = [
+  "CREDIT CARD",
+  "CC PAYMENT",
+  "CARD PAYMENT",
+  "AUTOPAY",
+  "MUTUAL FUND",
+  "SIP",
+  "EMI",
+  "LOAN",
+  "SELF TRANSFER",
+]
+
+// Credits that are tracked elsewhere (salary history) or are card bill payments
+export const IMPORT_SKIP_CREDIT_KEYWORDS = [
+  "SALARY",
+  "SAL CREDIT",
+  "PAYMENT RECEIVED",
+  "PAYMENT - THANK YOU",
+  "SELF TRANSFER",
+]
+
+export const IMPORT_INCOME_CATEGORY_KEYWORDS: { keywords: string[]; category: string }[] = [
+  { keywords: ["REFUND", "REVERSAL", "CASHBACK"], category: "REFUND" },
+  { keywords: ["INT.PD", "INTEREST", "DIVIDEND"], category: "INVESTMENT_RETURN" },
+  { keywords: ["RENT"], category: "RENTAL" },
+  { keywords: ["BONUS"], category: "BONUS" },
+]
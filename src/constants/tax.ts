@@ -0,0 +1,90 @@
+import type { SelectOption, TaxRegime, TaxRegimeRules } from "@/types"
+
+export const TAX_REGIMES: readonly SelectOption<TaxRegime>[] = [
+  { value: "NEW", label: "New Regime (115BAC)" },
+  { value: "OLD", label: "Old Regime" },
+] as const
+
+export const TAX_REGIME_LABELS: Record<TaxRegime, string> = {
+  OLD: "Old Regime",
+  NEW: "New Regime",
+}
+
+// Health & education cess on tax + surcharge
+export const TAX_CESS_RATE = 4
+
+// Chapter VI-A caps (old regime only)
+export const DEDUCTION_LIMITS = {
+  section80C: 150000,
+  section80D: 100000, // Self/family + senior citizen parents
+  section80CCD1B: 50000,
+} as const
+
+const OLD_REGIME_RULES: TaxRegimeRules = {
+  slabs: [
+    { upTo: 250000, rate: 0 },
+    { upTo: 500000, rate: 5 },
+    { upTo: 1000000, rate: 20 },
+    { upTo: null, rate: 30 },
+  ],
+  standardDeduction: 50000,
+  rebateIncomeLimit: 500000,
+  maxRebate: 12500,
+  rebateMarginalRelief: false,
+  surcharge: [
+    { above: 5000000, rate: 10 },
+    { above: 10000000, rate: 15 },
+    { above: 20000000, rate: 25 },
+    { above: 50000000, rate: 37 },
+  ],
+  allowsChapterVIA: true,
+}
+
+const NEW_REGIME_SURCHARGE = [
+  { above: 5000000, rate: 10 },
+  { above: 10000000, rate: 15 },
+  { above: 20000000, rate: 25 }, // Capped at 25% under the new regime
+]
+
+// Slab rules keyed by the starting year of the financial year (2025 = FY 2025-26)
+export const TAX_RULES_BY_FY: Record<number, Record<TaxRegime, TaxRegimeRules>> = {
+  2024: {
+    OLD: OLD_REGIME_RULES,
+    NEW: {
+      slabs: [
+        { upTo: 300000, rate: 0 },
+        { upTo: 700000, rate: 5 },
+        { upTo: 1000000, rate: 10 },
+        { upTo: 1200000, rate: 15 },
+        { upTo: 1500000, rate: 20 },
+        { upTo: null, rate: 30 },
+      ],
+      standardDeduction: 75000,
+      rebateIncomeLimit: 700000,
+      maxRebate: 25000,
+      rebateMarginalRelief: true,
+      surcharge: NEW_REGIME_SURCHARGE,
+      allowsChapterVIA: false,
+    },
+  },
+  2025: {
+    OLD: OLD_REGIME_RULES,
+    NEW: {
+      slabs: [
+        { upTo: 400000, rate: 0 },
+        { upTo: 800000, rate: 5 },
+        { upTo: 1200000, rate: 10 },
+        { upTo: 1600000, rate: 15 },
+        { upTo: 2000000, rate: 20 },
+        { upTo: 2400000, rate: 25 },
+        { upTo: null, rate: 30 },
+      ],
+      standardDeduction: 75000,
+      rebateIncomeLimit: 1200000,
+      maxRebate: 60000,
+      rebateMarginalRelief: true,
+      surcharge: NEW_REGIME_SURCHARGE,
+      allowsChapterVIA: false,
+    },
+  },
+}
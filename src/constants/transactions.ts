@@ -1,4 +1,4 @@
-import type { SelectOption, TransactionType, ExecutionStatus, SIPFrequency } from "@/types"
+import type { SelectOption, TransactionType, ExecutionStatus, SIPFrequency, SIPInstalmentStatus, SIPRunStatus, SIPRunTrigger, SIPStepUpType } from "@/types"
 
 // Transaction type options
 export const TRANSACTION_TYPES: readonly SelectOption<TransactionType>[] = [
@@ -6,6 +6,7 @@ export const TRANSACTION_TYPES: readonly SelectOption<TransactionType>[] = [
   { value: "SIP_EXECUTION", label: "SIP Execution" },
   { value: "MANUAL_ENTRY", label: "Manual Entry" },
   { value: "MANUAL_EDIT", label: "Manual Edit" },
+  { value: "SELL", label: "Sell" },
 ] as const
 
 // Transaction type labels mapping
@@ -14,6 +15,7 @@ export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
   SIP_EXECUTION: "SIP Execution",
   MANUAL_ENTRY: "Manual Entry",
   MANUAL_EDIT: "Manual Edit",
+  SELL: "Sell",
 }
 
 // Transaction type colors mapping
@@ -22,6 +24,7 @@ export const TRANSACTION_TYPE_COLORS: Record<TransactionType, string> = {
   SIP_EXECUTION: "bg-green-500",
   MANUAL_ENTRY: "bg-gray-500",
   MANUAL_EDIT: "bg-yellow-500",
+  SELL: "bg-red-500",
 }
 
 // Execution status options
@@ -77,3 +80,56 @@ export const SIP_FREQUENCY_BADGE_COLORS: Record<SIPFrequency, string> = {
   YEARLY: "bg-green-50 text-green-700 border-green-200",
   CUSTOM: "bg-purple-50 text-purple-700 border-purple-200",
 }
+
+// SIP step-up options
+export const SIP_STEP_UP_TYPES: readonly SelectOption<SIPStepUpType>[] = [
+  { value: "PERCENT", label: "Percent per year" },
+  { value: "AMOUNT", label: "Fixed amount per year" },
+] as const
+
+// SIP instalment status labels and colors (projected calendar)
+export const SIP_INSTALMENT_STATUS_LABELS: Record<SIPInstalmentStatus, string> = {
+  SCHEDULED: "Scheduled",
+  PAUSED: "Paused",
+  SKIPPED: "Skipped",
+}
+
+export const SIP_INSTALMENT_STATUS_COLORS: Record<SIPInstalmentStatus, string> = {
+  SCHEDULED: "bg-green-500",
+  PAUSED: "bg-yellow-500",
+  SKIPPED: "bg-gray-400",
+}
+
+// Months shown in the projected SIP calendar
+export const SIP_CALENDAR_MONTHS = 12
+
+// SIP execution engine
+// Instalments executed for one SIP in a single run (limits catch-up after downtime)
+export const SIP_MAX_CATCH_UP = 60
+
+// Failed executions are retried after 30 min, 1 h, 2 h, ... until the attempts run out
+export const SIP_RETRY_BASE_MINUTES = 30
+export const SIP_MAX_ATTEMPTS = 6
+
+// An attempt still PENDING this long after it started is treated as interrupted and retried
+export const SIP_ATTEMPT_TIMEOUT_MINUTES = 15
+
+// Catch-up instalments use the last close within this many days of the due date
+export const SIP_PRICE_LOOKBACK_DAYS = 7
+
+export const SIP_RUN_TRIGGER_LABELS: Record<SIPRunTrigger, string> = {
+  CRON: "Scheduled",
+  MANUAL: "Run now",
+}
+
+export const SIP_RUN_STATUS_LABELS: Record<SIPRunStatus, string> = {
+  RUNNING: "Running",
+  COMPLETED: "Completed",
+  FAILED: "Failed",
+}
+
+export const SIP_RUN_STATUS_COLORS: Record<SIPRunStatus, string> = {
+  RUNNING: "bg-blue-500",
+  COMPLETED: "bg-green-500",
+  FAILED: "bg-red-500",
+}
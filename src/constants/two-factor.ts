@@ -0,0 +1,24 @@
+// Two-factor authentication (RFC 6238 TOTP, as used by Google Authenticator, Authy and 1Password)
+export const TWO_FACTOR_ISSUER = "Namma Paisa"
+export const TOTP_PERIOD_SECONDS = 30
+export const TOTP_DIGITS = 6
+
+// Codes from one period either side are accepted, for clock drift
+export const TOTP_WINDOW = 1
+
+export const BACKUP_CODE_COUNT = 10
+
+// Wrong codes in a row before verification is locked, and for how long
+export const TWO_FACTOR_MAX_ATTEMPTS = 5
+export const TWO_FACTOR_LOCK_MINUTES = 15
+
+// Time allowed between the password and the code at sign-in
+export const TWO_FACTOR_CHALLENGE_MINUTES = 5
+
+// Sign-in errors returned by the credentials provider
+export const TWO_FACTOR_ERRORS = {
+  REQUIRED: "TWO_FACTOR_REQUIRED", // Followed by ":" and the challenge token
+  INVALID: "TWO_FACTOR_INVALID",
+  LOCKED: "TWO_FACTOR_LOCKED",
+  EXPIRED: "TWO_FACTOR_EXPIRED",
+} as const
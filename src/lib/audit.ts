@@ -0,0 +1,222 @@
+import type { Session } from "next-auth"
+import { Prisma } from "@/generated/prisma"
+import { prisma } from "@/lib/prisma"
+import { AUDIT_IGNORED_FIELDS, AUDIT_PAGE_SIZE, ENCRYPTED_AUDIT_VALUE, ENCRYPTED_FIELD_PREFIX, ENCRYPTED_FIELDS, Role } from "@/constants"
+import type { AuditAction, AuditEntity, AuditLogEntry, AuditLogPage } from "@/types"
+
+type AuditClient = Prisma.TransactionClient | typeof prisma
+
+// Whoever made the change; null for scheduled jobs
+export type AuditActor = Pick<Session["user"], "id" | "email" | "roles"> | null
+
+export interface AuditChange {
+  entity: AuditEntity
+  entityId: string
+  action: AuditAction
+  operation?: string
+  before?: object | null
+  after?: object | null
+  userId?: string // Owner of the record; the actor's own id when omitted
+}
+
+// Decimals become strings and dates ISO strings, as the API returns them
+// Encrypted fields are left out; a change to one shows in its blind index
+const toJson = (value: object | null | undefined): Record<string, unknown> | null =>
+  value
+    ? JSON.parse(JSON.stringify(value), (key, item) =>
+        typeof item === "string" && (ENCRYPTED_FIELDS.includes(key) || item.startsWith(ENCRYPTED_FIELD_PREFIX))
+          ? ENCRYPTED_AUDIT_VALUE
+          : item
+      )
+    : null
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+/**
+ * A row without some of its fields, e.g. the relations it was loaded with
+ */
+export function omitFields<T extends object, K extends keyof T>(row: T, ...fields: K[]): Omit<T, K> {
+  const copy = { ...row }
+  for (const field of fields) delete copy[field]
+  return copy
+}
+
+/**
+ * Fields whose values differ between two versions of a row, ignoring bookkeeping columns
+ */
+export function diffFields(before: Record<string, unknown> | null, after: Record<string, unknown> | null): string[] {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  return [...keys]
+    .filter(key => !AUDIT_IGNORED_FIELDS.includes(key))
+    .filter(key => stableStringify(before?.[key]) !== stableStringify(after?.[key]))
+    .sort()
+}
+
+/**
+ * Append an audit entry for a create, update or delete
+ * - Pass the transaction client where the change runs in one, so both commit together
+ * - Pass rows without included relations; those are audited as their own entities
+ * - An update that changed nothing is not recorded
+ */
+export async function recordAudit(db: AuditClient, actor: AuditActor, change: AuditChange) {
+  const userId = change.userId ?? actor?.id
+  if (!userId) throw new Error("Audit entry needs the owner of the record")
+
+  const before = toJson(change.before)
+  const after = toJson(change.after)
+  const changedFields = change.action === "UPDATE" ? diffFields(before, after) : []
+  if (change.action === "UPDATE" && changedFields.length === 0) return null
+
+  return db.auditLog.create({
+    data: {
+      userId,
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+      actorIsAdmin: !!actor && actor.id !== userId && actor.roles.includes(Role.SUPER_ADMIN),
+      entity: change.entity,
+      entityId: change.entityId,
+      action: change.action,
+      operation: change.operation ?? null,
+      before: (before as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+      after: (after as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+      changedFields,
+    },
+  })
+}
+
+/**
+ * Audit each row of a batch change, e.g. the EMIs regenerated with a loan
+ */
+export async function recordAuditMany(db: AuditClient, actor: AuditActor, changes: AuditChange[]) {
+  for (const change of changes) {
+    await recordAudit(db, actor, change)
+  }
+}
+
+/**
+ * Move a member's running balance and audit it as an update of the member
+ * - Balances change alongside expenses, member transactions and settlements, always inside their transaction
+ */
+export async function changeMemberBalance(
+  tx: Prisma.TransactionClient,
+  actor: AuditActor,
+  memberId: string,
+  change: Prisma.Decimal,
+  operation: string
+) {
+  const member = await tx.member.update({
+    where: { id: memberId },
+    data: {
+      currentBalance: {
+        increment: change,
+      },
+    },
+  })
+
+  await recordAudit(tx, actor, {
+    entity: "MEMBER",
+    entityId: memberId,
+    action: "UPDATE",
+    operation,
+    before: { ...member, currentBalance: member.currentBalance.minus(change) },
+    after: member,
+    userId: member.userId,
+  })
+
+  return member
+}
+
+type AuditLogRow = Prisma.AuditLogGetPayload<object>
+
+const toEntry = (log: AuditLogRow, userEmail?: string | null): AuditLogEntry => ({
+  id: log.id,
+  userId: log.userId,
+  userEmail,
+  actorId: log.actorId,
+  actorEmail: log.actorEmail,
+  actorIsAdmin: log.actorIsAdmin,
+  entity: log.entity,
+  entityId: log.entityId,
+  action: log.action,
+  operation: log.operation,
+  before: log.before as Record<string, unknown> | null,
+  after: log.after as Record<string, unknown> | null,
+  changedFields: log.changedFields,
+  createdAt: log.createdAt.toISOString(),
+})
+
+/**
+ * History of one record of a user, newest first
+ */
+export async function getEntityHistory(userId: string, entity: AuditEntity, entityId: string): Promise<AuditLogEntry[]> {
+  const logs = await prisma.auditLog.findMany({
+    where: { userId, entity, entityId },
+    orderBy: { createdAt: "desc" },
+  })
+  return logs.map(log => toEntry(log))
+}
+
+export interface AuditSearch {
+  query?: string // Matches the record id, the actor's email or the owner's email
+  entity?: AuditEntity
+  action?: AuditAction
+  from?: Date
+  to?: Date
+  page?: number
+}
+
+/**
+ * Audit entries across all users for the admin audit page, newest first
+ */
+export async function searchAuditLogs(search: AuditSearch): Promise<AuditLogPage> {
+  const page = Math.max(1, search.page ?? 1)
+  const where: Prisma.AuditLogWhereInput = {
+    entity: search.entity,
+    action: search.action,
+    createdAt: search.from || search.to ? { gte: search.from, lte: search.to } : undefined,
+  }
+
+  const query = search.query?.trim()
+  if (query) {
+    const owners = await prisma.user.findMany({
+      where: { email: { contains: query, mode: "insensitive" } },
+      select: { id: true },
+    })
+    where.OR = [
+      { entityId: query },
+      { userId: query },
+      { actorEmail: { contains: query, mode: "insensitive" } },
+      { userId: { in: owners.map(owner => owner.id) } },
+    ]
+  }
+
+  const [logs, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * AUDIT_PAGE_SIZE,
+      take: AUDIT_PAGE_SIZE,
+    }),
+    prisma.auditLog.count({ where }),
+  ])
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...new Set(logs.map(log => log.userId))] } },
+    select: { id: true, email: true },
+  })
+  const emails = new Map(users.map(user => [user.id, user.email]))
+
+  return {
+    entries: logs.map(log => toEntry(log, emails.get(log.userId) ?? null)),
+    total,
+    page,
+    pageSize: AUDIT_PAGE_SIZE,
+  }
+}
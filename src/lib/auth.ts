@@ -1,27 +1,56 @@
 import { PrismaAdapter } from "@auth/prisma-adapter"
 import { Adapter } from "next-auth/adapters"
 import bcrypt from "bcrypt"
-import { NextAuthOptions } from "next-auth"
+import { NextAuthOptions, User } from "next-auth"
 import CredentialsProvider from "next-auth/providers/credentials"
+import { User as DbUser } from "@/generated/prisma"
 import { prisma } from "./prisma"
+import { createSignInChallenge, hashToken, verifyTwoFactorCode } from "./two-factor"
+import { createDeviceSession } from "./device-sessions"
+import { TWO_FACTOR_ERRORS } from "@/constants/two-factor"
+import { SESSION_MAX_AGE_DAYS, SESSION_REVOKED_ERROR } from "@/constants/sessions"
 
-// Throttle map to track last update time per user
+// Throttle map to track last update time per device session
 const lastUpdateMap = new Map<string, number>()
 
-// Update recentlyAccessedAt only once per minute per user
-async function updateRecentlyAccessedAt(userId: string) {
+// Update recentlyAccessedAt and the device's last seen only once per minute per session
+async function updateRecentlyAccessedAt(userId: string, sessionId?: string) {
   const now = Date.now()
-  const lastUpdate = lastUpdateMap.get(userId) || 0
+  const key = sessionId ?? userId
+  const lastUpdate = lastUpdateMap.get(key) || 0
   const oneMinute = 60 * 1000
 
   // Only update if more than 1 minute has passed
   if (now - lastUpdate > oneMinute) {
-    lastUpdateMap.set(userId, now)
+    lastUpdateMap.set(key, now)
 
     await prisma.user.update({
       where: { id: userId },
       data: { recentlyAccessedAt: new Date() },
     })
+
+    if (sessionId) {
+      await prisma.deviceSession.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { lastSeenAt: new Date() },
+      })
+    }
+  }
+}
+
+// Complete a sign-in: record the device and hand its id to the JWT
+async function signInUser(user: DbUser, headers: Record<string, string | string[] | undefined> | undefined): Promise<User> {
+  const sessionId = await createDeviceSession(user.id, headers)
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    image: user.image,
+    roles: user.roles,
+    isBlocked: user.isBlocked,
+    sessionId,
+    tokenVersion: user.tokenVersion,
   }
 }
 
@@ -33,8 +62,40 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        challenge: { label: "Challenge", type: "text" },
+        code: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
+        // Second step: the challenge issued after the password, with a TOTP or recovery code
+        if (credentials?.challenge) {
+          const user = await prisma.user.findUnique({
+            where: { twoFactorChallenge: hashToken(credentials.challenge) },
+          })
+
+          if (!user || !user.twoFactorChallengeExpiry || user.twoFactorChallengeExpiry < new Date()) {
+            throw new Error(TWO_FACTOR_ERRORS.EXPIRED)
+          }
+
+          if (user.isBlocked) {
+            throw new Error("BLOCKED_USER")
+          }
+
+          const verification = await verifyTwoFactorCode(user.id, credentials.code ?? "")
+          if (verification === "LOCKED") {
+            throw new Error(TWO_FACTOR_ERRORS.LOCKED)
+          }
+          if (verification === "INVALID") {
+            throw new Error(TWO_FACTOR_ERRORS.INVALID)
+          }
+
+          await prisma.user.update({
+            where: { id: user.id },
+            data: { twoFactorChallenge: null, twoFactorChallengeExpiry: null },
+          })
+
+          return signInUser(user, req.headers)
+        }
+
         if (!credentials?.email || !credentials?.password) {
           return null
         }
@@ -66,32 +127,43 @@ export const authOptions: NextAuthOptions = {
           return null
         }
 
-        return {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          image: user.image,
-          roles: user.roles,
-          isBlocked: user.isBlocked,
+        // With 2FA the password only earns a challenge for the code step
+        if (user.twoFactorEnabled) {
+          const challenge = await createSignInChallenge(user.id)
+          throw new Error(`${TWO_FACTOR_ERRORS.REQUIRED}:${challenge}`)
         }
+
+        return signInUser(user, req.headers)
       },
     }),
   ],
   session: {
     strategy: "jwt",
+    maxAge: SESSION_MAX_AGE_DAYS * 24 * 60 * 60,
   },
   callbacks: {
     async jwt({ token, user }) {
       if (user) {
         token.roles = user.roles
         token.isBlocked = user.isBlocked
+        token.sessionId = user.sessionId
+        token.tokenVersion = user.tokenVersion
       }
 
       // Check if user is blocked on each request
       if (token.sub) {
         const currentUser = await prisma.user.findUnique({
           where: { id: token.sub },
-          select: { isBlocked: true },
+          select: {
+            isBlocked: true,
+            twoFactorRequired: true,
+            twoFactorEnabled: true,
+            tokenVersion: true,
+            deviceSessions: {
+              where: { id: token.sessionId ?? "", revokedAt: null },
+              select: { id: true },
+            },
+          },
         })
 
         if (currentUser?.isBlocked) {
@@ -99,7 +171,19 @@ export const authOptions: NextAuthOptions = {
           return { ...token, isBlocked: true, error: "blocked" }
         }
 
+        // Signed out remotely: the device session was revoked or every token was, by raising the version
+        // Tokens from before device sessions were tracked carry no session id and end here too
+        if (
+          !currentUser ||
+          currentUser.deviceSessions.length === 0 ||
+          currentUser.tokenVersion !== (token.tokenVersion ?? 0)
+        ) {
+          return { ...token, error: "revoked" }
+        }
+
         token.isBlocked = currentUser?.isBlocked || false
+        // An admin can require 2FA; until the user enrols only the profile is reachable
+        token.twoFactorSetupRequired = !!currentUser?.twoFactorRequired && !currentUser.twoFactorEnabled
       }
 
       return token
@@ -110,14 +194,19 @@ export const authOptions: NextAuthOptions = {
         throw new Error("BLOCKED_USER")
       }
 
+      if (token.error === "revoked") {
+        throw new Error(SESSION_REVOKED_ERROR)
+      }
+
       if (token && session.user) {
         session.user.id = token.sub!
         session.user.roles = token.roles
         session.user.isBlocked = token.isBlocked as boolean
+        session.sessionId = token.sessionId
 
-        // Update recentlyAccessedAt (throttled to once per minute)
+        // Update recentlyAccessedAt and the device's last seen (throttled to once per minute)
         if (token.sub) {
-          updateRecentlyAccessedAt(token.sub).catch(() => {
+          updateRecentlyAccessedAt(token.sub, token.sessionId).catch(() => {
             // Silently fail to not block the session
           })
         }
@@ -136,6 +225,17 @@ export const authOptions: NextAuthOptions = {
       return `${baseUrl}/dashboard`
     },
   },
+  events: {
+    async signOut({ token }) {
+      // Signing out ends the device session too, so it leaves the device list
+      if (token?.sessionId) {
+        await prisma.deviceSession.updateMany({
+          where: { id: token.sessionId, revokedAt: null },
+          data: { revokedAt: new Date() },
+        })
+      }
+    },
+  },
   pages: {
     signIn: "/auth/signin",
   },
@@ -1,4 +1,7 @@
 import { prisma } from "@/lib/prisma"
+import { createCurrencyConverter } from "@/lib/currency"
+import type { Transaction } from "@/generated/prisma"
+import type { CurrencyConverter } from "@/types"
 
 /**
  * Calculate the current value and profit/loss for a borrowed fund
@@ -106,12 +109,13 @@ export async function updateAllBorrowedFundsProfitLoss(userId: string) {
 }
 
 /**
- * Calculate borrowed funds summary for a specific month
+ * Calculate borrowed funds summary for a specific month, in the converter's base currency
  */
 export async function calculateBorrowedFundsSummary(
   userId: string,
   month: number,
-  year: number
+  year: number,
+  converter: CurrencyConverter
 ) {
   const monthStart = new Date(year, month - 1, 1)
   const monthEnd = new Date(year, month, 0, 23, 59, 59)
@@ -128,7 +132,7 @@ export async function calculateBorrowedFundsSummary(
   })
 
   const totalReceived = fundsReceived.reduce(
-    (sum, fund) => sum + Number(fund.borrowedAmount),
+    (sum, fund) => sum + converter.convert(Number(fund.borrowedAmount), fund.currency, fund.borrowedDate),
     0
   )
 
@@ -165,14 +169,14 @@ export async function calculateBorrowedFundsSummary(
       fund.actualReturnDate >= monthStart &&
       fund.actualReturnDate <= monthEnd
     ) {
-      return sum + Number(fund.returnedAmount)
+      return sum + converter.convert(Number(fund.returnedAmount), fund.currency, fund.actualReturnDate)
     }
     return sum
   }, 0)
 
   // Calculate total profit/loss
   const totalProfit = activeFunds.reduce(
-    (sum, fund) => sum + (Number(fund.profitLoss) || 0),
+    (sum, fund) => sum + converter.convert(Number(fund.profitLoss) || 0, fund.currency),
     0
   )
 
@@ -182,6 +186,7 @@ export async function calculateBorrowedFundsSummary(
     lenderName: fund.lenderName,
     borrowedAmount: Number(fund.borrowedAmount),
     returnedAmount: Number(fund.returnedAmount),
+    currency: fund.currency,
     currentValue: fund.currentValue ? Number(fund.currentValue) : null,
     profitLoss: fund.profitLoss ? Number(fund.profitLoss) : null,
     investedIn: fund.investedInHolding
@@ -198,3 +203,16 @@ export async function calculateBorrowedFundsSummary(
     borrowedFundsData: fundsData,
   }
 }
+
+/**
+ * Total of linked investment transactions in a borrowed fund's currency, each at its purchase date rate
+ * The recorded INR amount is used as is for INR funds
+ */
+export async function sumTransactionsInCurrency(transactions: Transaction[], currency: string) {
+  const converter = await createCurrencyConverter(currency, transactions.map(txn => txn.currency))
+
+  return transactions.reduce((sum, txn) => {
+    if (converter.baseCurrency === "INR" && txn.amountInr) return sum + Number(txn.amountInr)
+    return sum + converter.convert(Number(txn.amount), txn.currency, txn.purchaseDate, txn.inrRate ? Number(txn.inrRate) : null)
+  }, 0)
+}
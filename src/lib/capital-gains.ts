@@ -0,0 +1,505 @@
+/**
+ * Capital Gains Calculator
+ * Matches sales against purchase lots FIFO, classifies each matched lot as
+ * short term / long term / VDA by bucket holding-period rules, applies
+ * 31-Jan-2018 grandfathering for equity and builds the FY-wise Schedule CG report
+ */
+
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { formatFinancialYear } from "@/lib/tax-calculator"
+import {
+  BUCKET_LABELS,
+  CAPITAL_GAIN_HEAD_LABELS,
+  CAPITAL_GAIN_RATE_CHANGE_DATE,
+  CAPITAL_GAIN_RATES,
+  CAPITAL_GAIN_TERM_LABELS,
+  EQUITY_BUCKETS,
+  EQUITY_LTCG_EXEMPTION,
+  GRANDFATHERING_DATE,
+  LONG_TERM_HOLDING_MONTHS,
+  TAX_CESS_RATE,
+  VDA_TAX_RATE,
+} from "@/constants"
+import type {
+  CapitalGainBucketSummary,
+  CapitalGainHead,
+  CapitalGainHeadSummary,
+  CapitalGainLotRow,
+  CapitalGainsReport,
+  CapitalGainTerm,
+  InvestmentBucket,
+  MatchedLot,
+  OpenLot,
+} from "@/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const QTY_EPSILON = 1e-9
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function toInr(amount: number, inrRate: number | null): number {
+  return inrRate ? amount * inrRate : amount
+}
+
+/**
+ * Classify a lot by holding period
+ * Long term requires holding for more than the bucket's threshold (e.g. 12 months + 1 day)
+ */
+export function classifyTerm(bucket: InvestmentBucket, acquiredOn: Date, soldOn: Date): CapitalGainTerm {
+  if (bucket === "CRYPTO") return "VDA"
+
+  const months = LONG_TERM_HOLDING_MONTHS[bucket]
+  if (months === null) return "SHORT_TERM"
+
+  const threshold = new Date(acquiredOn)
+  threshold.setMonth(threshold.getMonth() + months)
+
+  return soldOn > threshold ? "LONG_TERM" : "SHORT_TERM"
+}
+
+/**
+ * Map a bucket and term to the Schedule CG head it is reported under
+ */
+export function getCapitalGainHead(bucket: InvestmentBucket, term: CapitalGainTerm): CapitalGainHead {
+  if (term === "VDA") return "VDA"
+
+  const isEquity = EQUITY_BUCKETS.includes(bucket)
+  if (term === "LONG_TERM") return isEquity ? "EQUITY_LTCG" : "OTHER_LTCG"
+
+  return isEquity ? "EQUITY_STCG" : "SLAB_STCG"
+}
+
+/**
+ * Whether the 31-Jan-2018 FMV can replace the cost of a lot (Sec 112A)
+ */
+export function isGrandfathered(bucket: InvestmentBucket, acquiredOn: Date, term: CapitalGainTerm): boolean {
+  return term === "LONG_TERM" && EQUITY_BUCKETS.includes(bucket) && acquiredOn <= GRANDFATHERING_DATE
+}
+
+/**
+ * Rebuild the open lots of a holding by replaying its transactions in date order
+ * - Purchases (one-time, SIP, manual entry) open a lot
+ * - Sales consume lots FIFO
+ * - Manual edits restate the whole position as one lot, keeping the earliest acquisition date
+ * Quantity not explained by transactions (holdings added without tracking) becomes an opening lot
+ */
+export function buildOpenLots(
+  transactions: {
+    id: string
+    transactionType: string
+    qty: number
+    price: number
+    amount: number
+    amountInr: number | null
+    inrRate: number | null
+    purchaseDate: Date
+  }[],
+  holding: { qty: number; avgCost: number; inrRate: number | null; createdAt: Date }
+): OpenLot[] {
+  let lots: OpenLot[] = []
+
+  const sorted = [...transactions].sort((a, b) => a.purchaseDate.getTime() - b.purchaseDate.getTime())
+
+  for (const txn of sorted) {
+    // USD transactions without a stored rate can still be converted through amountInr
+    const inrRate = txn.inrRate ?? (txn.amountInr && txn.amount ? txn.amountInr / txn.amount : null)
+
+    switch (txn.transactionType) {
+      case "SELL":
+        lots = matchLotsFifo(lots, txn.qty).remaining
+        break
+      case "MANUAL_EDIT":
+        lots = [{
+          buyTransactionId: txn.id,
+          acquiredOn: lots[0]?.acquiredOn ?? txn.purchaseDate,
+          qty: txn.qty,
+          price: txn.price,
+          inrRate,
+        }]
+        break
+      default:
+        lots.push({
+          buyTransactionId: txn.id,
+          acquiredOn: txn.purchaseDate,
+          qty: txn.qty,
+          price: txn.price,
+          inrRate,
+        })
+    }
+  }
+
+  const trackedQty = lots.reduce((sum, lot) => sum + lot.qty, 0)
+  const untrackedQty = holding.qty - trackedQty
+
+  if (untrackedQty > QTY_EPSILON) {
+    lots.push({
+      buyTransactionId: null,
+      acquiredOn: holding.createdAt,
+      qty: untrackedQty,
+      price: holding.avgCost,
+      inrRate: holding.inrRate,
+    })
+    lots.sort((a, b) => a.acquiredOn.getTime() - b.acquiredOn.getTime())
+  } else if (untrackedQty < -QTY_EPSILON) {
+    // Holding was reduced outside the transaction log; drop the oldest units to match
+    lots = matchLotsFifo(lots, -untrackedQty).remaining
+  }
+
+  return lots
+}
+
+/**
+ * Consume a quantity from open lots in FIFO order
+ */
+export function matchLotsFifo(lots: OpenLot[], qty: number): { consumed: OpenLot[]; remaining: OpenLot[] } {
+  const consumed: OpenLot[] = []
+  const remaining: OpenLot[] = []
+  let toMatch = qty
+
+  for (const lot of lots) {
+    if (toMatch <= QTY_EPSILON) {
+      remaining.push(lot)
+      continue
+    }
+
+    const matchedQty = Math.min(lot.qty, toMatch)
+    consumed.push({ ...lot, qty: matchedQty })
+    toMatch -= matchedQty
+
+    if (lot.qty - matchedQty > QTY_EPSILON) {
+      remaining.push({ ...lot, qty: lot.qty - matchedQty })
+    }
+  }
+
+  return { consumed, remaining }
+}
+
+/**
+ * Match a sale against open lots and compute the gain on each matched lot in INR
+ * fmvJan2018 is the per-unit fair market value on 31-Jan-2018 in the holding currency
+ */
+export function computeSaleLots(
+  lots: OpenLot[],
+  sale: {
+    bucket: InvestmentBucket
+    qty: number
+    price: number
+    inrRate: number | null
+    soldOn: Date
+    fmvJan2018?: number | null
+  }
+): { matched: MatchedLot[]; remaining: OpenLot[] } {
+  const { consumed, remaining } = matchLotsFifo(lots, sale.qty)
+
+  const matched = consumed.map((lot): MatchedLot => {
+    const term = classifyTerm(sale.bucket, lot.acquiredOn, sale.soldOn)
+    const costOfAcquisition = round(toInr(lot.qty * lot.price, lot.inrRate))
+    const saleValue = round(toInr(lot.qty * sale.price, sale.inrRate))
+
+    let fmvJan2018: number | null = null
+    let costForTax = costOfAcquisition
+
+    if (sale.fmvJan2018 && isGrandfathered(sale.bucket, lot.acquiredOn, term)) {
+      fmvJan2018 = round(toInr(lot.qty * sale.fmvJan2018, lot.inrRate))
+      costForTax = Math.max(costOfAcquisition, Math.min(fmvJan2018, saleValue))
+    }
+
+    return {
+      ...lot,
+      costOfAcquisition,
+      fmvJan2018,
+      costForTax,
+      saleValue,
+      gain: round(saleValue - costForTax),
+      term,
+      holdingDays: Math.floor((sale.soldOn.getTime() - lot.acquiredOn.getTime()) / DAY_MS),
+    }
+  })
+
+  return { matched, remaining }
+}
+
+/**
+ * Tax on a head whose rate changed on 23-Jul-2024
+ * Losses are set off across the two periods; the exemption is used against the higher-rate gains first
+ */
+function taxAcrossRateChange(
+  lots: CapitalGainLotRow[],
+  beforeRate: number,
+  afterRate: number,
+  exemption: number
+): { taxableGain: number; tax: number } {
+  let before = 0
+  let after = 0
+  for (const lot of lots) {
+    if (new Date(lot.soldOn) >= CAPITAL_GAIN_RATE_CHANGE_DATE) {
+      after += lot.gain
+    } else {
+      before += lot.gain
+    }
+  }
+
+  if (before + after <= 0) return { taxableGain: 0, tax: 0 }
+
+  // Set off a loss in one period against the gain in the other
+  if (before < 0) {
+    after += before
+    before = 0
+  } else if (after < 0) {
+    before += after
+    after = 0
+  }
+
+  const [higher, lower] = afterRate >= beforeRate
+    ? [{ gain: after, rate: afterRate }, { gain: before, rate: beforeRate }]
+    : [{ gain: before, rate: beforeRate }, { gain: after, rate: afterRate }]
+
+  const exemptFromHigher = Math.min(higher.gain, exemption)
+  const exemptFromLower = Math.min(lower.gain, exemption - exemptFromHigher)
+  const taxableHigher = higher.gain - exemptFromHigher
+  const taxableLower = lower.gain - exemptFromLower
+
+  return {
+    taxableGain: round(taxableHigher + taxableLower),
+    tax: round((taxableHigher * higher.rate + taxableLower * lower.rate) / 100),
+  }
+}
+
+function summariseHead(head: CapitalGainHead, lots: CapitalGainLotRow[], financialYear: number): CapitalGainHeadSummary {
+  const saleValue = round(lots.reduce((sum, lot) => sum + lot.saleValue, 0))
+  const costForTax = round(lots.reduce((sum, lot) => sum + lot.costForTax, 0))
+  const gain = round(lots.reduce((sum, lot) => sum + lot.gain, 0))
+
+  let exemption = 0
+  let taxableGain = Math.max(0, gain)
+  let estimatedTax: number | null = null
+
+  switch (head) {
+    case "EQUITY_STCG": {
+      const result = taxAcrossRateChange(
+        lots,
+        CAPITAL_GAIN_RATES.before.equitySTCG,
+        CAPITAL_GAIN_RATES.after.equitySTCG,
+        0
+      )
+      taxableGain = result.taxableGain
+      estimatedTax = result.tax
+      break
+    }
+    case "EQUITY_LTCG": {
+      const annualExemption = financialYear >= EQUITY_LTCG_EXEMPTION.fromFinancialYear
+        ? EQUITY_LTCG_EXEMPTION.after
+        : EQUITY_LTCG_EXEMPTION.before
+      const result = taxAcrossRateChange(
+        lots,
+        CAPITAL_GAIN_RATES.before.equityLTCG,
+        CAPITAL_GAIN_RATES.after.equityLTCG,
+        annualExemption
+      )
+      exemption = round(Math.min(annualExemption, Math.max(0, gain)))
+      taxableGain = result.taxableGain
+      estimatedTax = result.tax
+      break
+    }
+    case "OTHER_LTCG": {
+      const result = taxAcrossRateChange(
+        lots,
+        CAPITAL_GAIN_RATES.before.otherLTCG,
+        CAPITAL_GAIN_RATES.after.otherLTCG,
+        0
+      )
+      taxableGain = result.taxableGain
+      estimatedTax = result.tax
+      break
+    }
+    case "VDA":
+      // VDA losses cannot be set off, even against other VDA gains
+      taxableGain = round(lots.reduce((sum, lot) => sum + Math.max(0, lot.gain), 0))
+      estimatedTax = round((taxableGain * VDA_TAX_RATE) / 100)
+      break
+    case "SLAB_STCG":
+      // Added to total income and taxed at slab rates
+      break
+  }
+
+  return { head, saleValue, costForTax, gain, exemption, taxableGain, estimatedTax }
+}
+
+/**
+ * Build the FY report from matched lots
+ * Tax is an estimate before surcharge and ignores set-off across heads and brought-forward losses
+ */
+export function summariseCapitalGains(financialYear: number, lots: CapitalGainLotRow[]): CapitalGainsReport {
+  const heads: CapitalGainHeadSummary[] = []
+  for (const head of Object.keys(CAPITAL_GAIN_HEAD_LABELS) as CapitalGainHead[]) {
+    const headLots = lots.filter(lot => lot.head === head)
+    if (headLots.length > 0) {
+      heads.push(summariseHead(head, headLots, financialYear))
+    }
+  }
+
+  const bucketMap = new Map<InvestmentBucket, CapitalGainBucketSummary>()
+  for (const lot of lots) {
+    const summary = bucketMap.get(lot.bucket) ?? {
+      bucket: lot.bucket,
+      saleValue: 0,
+      costForTax: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      vdaGain: 0,
+    }
+    summary.saleValue = round(summary.saleValue + lot.saleValue)
+    summary.costForTax = round(summary.costForTax + lot.costForTax)
+    if (lot.term === "SHORT_TERM") summary.shortTermGain = round(summary.shortTermGain + lot.gain)
+    if (lot.term === "LONG_TERM") summary.longTermGain = round(summary.longTermGain + lot.gain)
+    if (lot.term === "VDA") summary.vdaGain = round(summary.vdaGain + lot.gain)
+    bucketMap.set(lot.bucket, summary)
+  }
+
+  const taxBeforeCess = heads.reduce((sum, head) => sum + (head.estimatedTax ?? 0), 0)
+
+  return {
+    financialYear,
+    lots,
+    heads,
+    buckets: Array.from(bucketMap.values()),
+    totalGain: round(lots.reduce((sum, lot) => sum + lot.gain, 0)),
+    estimatedTax: round(taxBeforeCess * (1 + TAX_CESS_RATE / 100)),
+    slabGain: heads.find(head => head.head === "SLAB_STCG")?.gain ?? 0,
+  }
+}
+
+/**
+ * Export the lot-level report as CSV for the CA
+ */
+export function capitalGainsToCsv(report: CapitalGainsReport): string {
+  const toDate = (value: string) => {
+    const date = new Date(value)
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+  }
+  const escape = (value: string | number | null) => {
+    if (value === null) return ""
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const header = [
+    "Financial Year",
+    "Head",
+    "Bucket",
+    "Symbol",
+    "Name",
+    "Quantity",
+    "Date of Acquisition",
+    "Date of Transfer",
+    "Holding Days",
+    "Term",
+    "Cost of Acquisition",
+    "FMV on 31-Jan-2018",
+    "Cost for Tax",
+    "Sale Consideration",
+    "Gain/Loss",
+  ]
+
+  const rows = report.lots.map(lot => [
+    formatFinancialYear(report.financialYear),
+    CAPITAL_GAIN_HEAD_LABELS[lot.head],
+    BUCKET_LABELS[lot.bucket],
+    lot.symbol,
+    lot.name,
+    lot.qty,
+    toDate(lot.acquiredOn),
+    toDate(lot.soldOn),
+    lot.holdingDays,
+    CAPITAL_GAIN_TERM_LABELS[lot.term],
+    lot.costOfAcquisition,
+    lot.fmvJan2018,
+    lot.costForTax,
+    lot.saleValue,
+    lot.gain,
+  ])
+
+  return [header, ...rows].map(row => row.map(escape).join(",")).join("\n")
+}
+
+/**
+ * Load the open lots of a holding from its transactions
+ * Pass the transaction client to read them inside a transaction
+ */
+export async function getOpenLots(holding: {
+  id: string
+  userId: string
+  bucket: InvestmentBucket
+  symbol: string
+  qty: unknown
+  avgCost: unknown
+  inrRate: unknown
+  createdAt: Date
+}, db: Prisma.TransactionClient | typeof prisma = prisma): Promise<OpenLot[]> {
+  const transactions = await db.transaction.findMany({
+    where: {
+      userId: holding.userId,
+      OR: [
+        { holdingId: holding.id },
+        // Transactions of an earlier, fully sold holding of the same symbol
+        { holdingId: null, bucket: holding.bucket, symbol: { equals: holding.symbol, mode: "insensitive" } },
+      ],
+    },
+    orderBy: [{ purchaseDate: "asc" }, { createdAt: "asc" }],
+  })
+
+  return buildOpenLots(
+    transactions.map(txn => ({
+      id: txn.id,
+      transactionType: txn.transactionType,
+      qty: Number(txn.qty),
+      price: Number(txn.price),
+      amount: Number(txn.amount),
+      amountInr: txn.amountInr ? Number(txn.amountInr) : null,
+      inrRate: txn.inrRate ? Number(txn.inrRate) : null,
+      purchaseDate: txn.purchaseDate,
+    })),
+    {
+      qty: Number(holding.qty),
+      avgCost: Number(holding.avgCost),
+      inrRate: holding.inrRate ? Number(holding.inrRate) : null,
+      createdAt: holding.createdAt,
+    }
+  )
+}
+
+/**
+ * Get the capital gains report for a financial year from booked sale lots
+ */
+export async function getCapitalGainsReport(userId: string, financialYear: number): Promise<CapitalGainsReport> {
+  const lots = await prisma.capitalGainLot.findMany({
+    where: { userId, financialYear },
+    orderBy: [{ soldOn: "asc" }, { acquiredOn: "asc" }],
+  })
+
+  return summariseCapitalGains(
+    financialYear,
+    lots.map(lot => ({
+      id: lot.id,
+      sellTransactionId: lot.sellTransactionId,
+      buyTransactionId: lot.buyTransactionId,
+      bucket: lot.bucket,
+      symbol: lot.symbol,
+      name: lot.name,
+      qty: Number(lot.qty),
+      acquiredOn: lot.acquiredOn.toISOString(),
+      soldOn: lot.soldOn.toISOString(),
+      costOfAcquisition: Number(lot.costOfAcquisition),
+      fmvJan2018: lot.fmvJan2018 ? Number(lot.fmvJan2018) : null,
+      costForTax: Number(lot.costForTax),
+      saleValue: Number(lot.saleValue),
+      gain: Number(lot.gain),
+      term: lot.term,
+      head: getCapitalGainHead(lot.bucket, lot.term),
+      holdingDays: lot.holdingDays,
+    }))
+  )
+}
@@ -0,0 +1,349 @@
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { applyExpenseRules, getActiveExpenseRules } from "@/lib/expense-rules"
+import { getStatementPeriod } from "@/lib/card-statements"
+import type {
+  CardRewardMultiplier,
+  CardRewardProgram,
+  CardRewardRedemption,
+  CardRewardSuggestion,
+  CardRewardSummary,
+} from "@/types"
+
+type RewardProgramRecord = Prisma.CardRewardProgramGetPayload<{ include: { multipliers: true; milestones: true } }>
+
+type RewardRedemptionRecord = Prisma.CardRewardRedemptionGetPayload<true>
+
+interface RewardExpense {
+  amount: number // In the base currency
+  tags: string[]
+}
+
+interface CycleRewards {
+  spend: number
+  spendPoints: number
+  cappedPoints: number
+  milestonePoints: number
+  points: number
+  value: number
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+const nextDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+
+/**
+ * Serialise a reward program with its multipliers and milestones
+ */
+export function serializeRewardProgram(program: RewardProgramRecord): CardRewardProgram {
+  return {
+    id: program.id,
+    creditCardId: program.creditCardId,
+    rewardType: program.rewardType,
+    spendUnit: Number(program.spendUnit),
+    pointsPerUnit: Number(program.pointsPerUnit),
+    pointValue: Number(program.pointValue),
+    monthlyCap: program.monthlyCap !== null ? Number(program.monthlyCap) : null,
+    multipliers: program.multipliers.map(multiplier => ({
+      id: multiplier.id,
+      category: multiplier.category,
+      multiplier: Number(multiplier.multiplier),
+      monthlyCap: multiplier.monthlyCap !== null ? Number(multiplier.monthlyCap) : null,
+    })),
+    milestones: program.milestones
+      .map(milestone => ({
+        id: milestone.id,
+        period: milestone.period,
+        spendThreshold: Number(milestone.spendThreshold),
+        bonusPoints: Number(milestone.bonusPoints),
+        description: milestone.description,
+      }))
+      .sort((a, b) => a.spendThreshold - b.spendThreshold),
+  }
+}
+
+/**
+ * Serialise a reward redemption for API responses
+ */
+export function serializeRewardRedemption(redemption: RewardRedemptionRecord): CardRewardRedemption {
+  return {
+    id: redemption.id,
+    creditCardId: redemption.creditCardId,
+    points: Number(redemption.points),
+    value: Number(redemption.value),
+    redeemedOn: redemption.redeemedOn.toISOString(),
+    notes: redemption.notes,
+    createdAt: redemption.createdAt.toISOString(),
+  }
+}
+
+/**
+ * The multiplier an expense earns at: the highest of those whose category is one of its tags
+ */
+export function getRewardMultiplier(program: CardRewardProgram, tags: string[]): CardRewardMultiplier | null {
+  const expenseTags = new Set(tags.map(tag => tag.trim().toLowerCase()))
+  return program.multipliers
+    .filter(multiplier => expenseTags.has(multiplier.category.trim().toLowerCase()))
+    .reduce<CardRewardMultiplier | null>((best, multiplier) => !best || multiplier.multiplier > best.multiplier ? multiplier : best, null)
+}
+
+/**
+ * Rewards a statement cycle earns from its expenses
+ * - Points are earned per whole spend unit of each expense; cashback is proportional to the amount
+ * - A multiplier scales an expense's points; the extra points of each category are capped per cycle
+ * - Points from spend are capped per cycle by the program cap; milestone bonuses come on top
+ * - A yearly milestone is reached in the cycle where spend since the first cycle of the year crosses it
+ */
+export function calculateCycleRewards(program: CardRewardProgram, expenses: RewardExpense[], yearSpendBefore: number = 0): CycleRewards {
+  const earn = (amount: number) => program.rewardType === "CASHBACK"
+    ? (amount / program.spendUnit) * program.pointsPerUnit
+    : Math.floor(amount / program.spendUnit) * program.pointsPerUnit
+
+  let basePoints = 0
+  const extraByCategory = new Map<string, { extra: number; cap: number | null }>()
+
+  for (const expense of expenses) {
+    const points = earn(expense.amount)
+    basePoints += points
+
+    const multiplier = getRewardMultiplier(program, expense.tags)
+    if (!multiplier) continue
+    const category = extraByCategory.get(multiplier.id) ?? { extra: 0, cap: multiplier.monthlyCap }
+    category.extra += points * (multiplier.multiplier - 1)
+    extraByCategory.set(multiplier.id, category)
+  }
+
+  let cappedPoints = 0
+  let extraPoints = 0
+  for (const { extra, cap } of extraByCategory.values()) {
+    const allowed = cap !== null && extra > cap ? cap : extra
+    cappedPoints += extra - allowed
+    extraPoints += allowed
+  }
+
+  const uncapped = Math.max(0, basePoints + extraPoints)
+  const spendPoints = program.monthlyCap !== null ? Math.min(uncapped, program.monthlyCap) : uncapped
+  cappedPoints += uncapped - spendPoints
+
+  const spend = expenses.reduce((sum, expense) => sum + expense.amount, 0)
+  const milestonePoints = program.milestones
+    .filter(milestone => milestone.period === "CYCLE"
+      ? spend >= milestone.spendThreshold
+      : yearSpendBefore < milestone.spendThreshold && yearSpendBefore + spend >= milestone.spendThreshold)
+    .reduce((sum, milestone) => sum + milestone.bonusPoints, 0)
+
+  const points = spendPoints + milestonePoints
+  return {
+    spend: round2(spend),
+    spendPoints: round2(spendPoints),
+    cappedPoints: round2(cappedPoints),
+    milestonePoints: round2(milestonePoints),
+    points: round2(points),
+    value: round2(points * program.pointValue),
+  }
+}
+
+/**
+ * Accrue rewards for every statement cycle of a user's cards with a reward program
+ * Run after generateCardStatements, since accruals follow the statements' cycles.
+ * Accruals are recalculated on every run, so edited expenses and program changes flow through;
+ * cards without a program lose their accruals
+ * Returns the number of accruals written
+ */
+export async function accrueCardRewards(userId: string): Promise<number> {
+  const [converter, cards] = await Promise.all([
+    getUserCurrencyConverter(userId),
+    prisma.creditCard.findMany({
+      where: { userId },
+      include: {
+        rewardProgram: { include: { multipliers: true, milestones: true } },
+        expenses: {
+          where: { paymentMethod: "CARD" },
+          select: { amount: true, currency: true, date: true, tags: true },
+        },
+        statements: {
+          select: { id: true, periodStart: true, periodEnd: true },
+          orderBy: { periodEnd: "asc" },
+        },
+      },
+    }),
+  ])
+
+  let written = 0
+
+  for (const card of cards) {
+    if (!card.rewardProgram) {
+      await prisma.cardRewardAccrual.deleteMany({ where: { creditCardId: card.id } })
+      continue
+    }
+
+    const program = serializeRewardProgram(card.rewardProgram)
+    let year: number | null = null
+    let yearSpend = 0
+
+    for (const statement of card.statements) {
+      const end = nextDay(statement.periodEnd)
+      const expenses = card.expenses
+        .filter(expense => expense.date >= statement.periodStart && expense.date < end)
+        .map(expense => ({
+          amount: converter.convert(Number(expense.amount), expense.currency, expense.date),
+          tags: expense.tags,
+        }))
+
+      if (statement.periodEnd.getFullYear() !== year) {
+        year = statement.periodEnd.getFullYear()
+        yearSpend = 0
+      }
+
+      const rewards = calculateCycleRewards(program, expenses, yearSpend)
+      yearSpend += rewards.spend
+
+      await prisma.cardRewardAccrual.upsert({
+        where: { statementId: statement.id },
+        create: { userId, creditCardId: card.id, statementId: statement.id, ...rewards },
+        update: rewards,
+      })
+      written++
+    }
+  }
+
+  return written
+}
+
+/**
+ * Reward balances of a user's cards: active cards and any card that has earned rewards
+ * Points of the open cycle are pending until it closes and cannot be redeemed yet
+ */
+export async function getCardRewardSummaries(userId: string): Promise<CardRewardSummary[]> {
+  const cards = await prisma.creditCard.findMany({
+    where: {
+      userId,
+      OR: [{ isActive: true }, { rewardAccruals: { some: {} } }],
+    },
+    include: {
+      rewardProgram: { include: { multipliers: true, milestones: true } },
+      rewardAccruals: {
+        include: { statement: { select: { periodStart: true, periodEnd: true, status: true } } },
+      },
+      rewardRedemptions: { orderBy: { redeemedOn: "desc" } },
+    },
+    orderBy: { createdAt: "desc" },
+  })
+
+  return cards.map(card => {
+    const program = card.rewardProgram ? serializeRewardProgram(card.rewardProgram) : null
+    const accruals = card.rewardAccruals
+      .map(accrual => ({
+        id: accrual.id,
+        statementId: accrual.statementId,
+        periodStart: accrual.statement.periodStart.toISOString(),
+        periodEnd: accrual.statement.periodEnd.toISOString(),
+        isOpen: accrual.statement.status === "OPEN",
+        spend: Number(accrual.spend),
+        spendPoints: Number(accrual.spendPoints),
+        cappedPoints: Number(accrual.cappedPoints),
+        milestonePoints: Number(accrual.milestonePoints),
+        points: Number(accrual.points),
+        value: Number(accrual.value),
+      }))
+      .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))
+    const redemptions = card.rewardRedemptions.map(serializeRewardRedemption)
+
+    const earnedPoints = round2(accruals.filter(accrual => !accrual.isOpen).reduce((sum, accrual) => sum + accrual.points, 0))
+    const pendingPoints = round2(accruals.filter(accrual => accrual.isOpen).reduce((sum, accrual) => sum + accrual.points, 0))
+    const redeemedPoints = round2(redemptions.reduce((sum, redemption) => sum + redemption.points, 0))
+    const availablePoints = round2(Math.max(0, earnedPoints - redeemedPoints))
+
+    return {
+      creditCardId: card.id,
+      cardName: card.cardName,
+      bank: card.bank,
+      lastFourDigits: card.lastFourDigits,
+      program,
+      earnedPoints,
+      pendingPoints,
+      redeemedPoints,
+      availablePoints,
+      availableValue: round2(availablePoints * (program?.pointValue ?? 1)),
+      accruals,
+      redemptions,
+    }
+  })
+}
+
+/**
+ * Rank a user's active cards with a reward program by what an expense would earn on them
+ * - The expense is tagged by the user's auto-categorisation rules, as it would be when saved
+ * - Earnings are the difference the expense makes to its cycle's rewards, so caps already used up
+ *   and milestones it would cross are taken into account
+ */
+export async function suggestBestCard(
+  userId: string,
+  expense: { amount: number; currency: string; date: Date; title: string; description?: string | null; tags?: string[] }
+): Promise<CardRewardSuggestion[]> {
+  const [converter, rules, cards] = await Promise.all([
+    getUserCurrencyConverter(userId),
+    getActiveExpenseRules(userId),
+    prisma.creditCard.findMany({
+      where: { userId, isActive: true, rewardProgram: { isNot: null } },
+      include: { rewardProgram: { include: { multipliers: true, milestones: true } } },
+    }),
+  ])
+
+  const amount = converter.convert(expense.amount, expense.currency, expense.date)
+
+  const programs = cards.flatMap(card => card.rewardProgram ? [{ card, program: serializeRewardProgram(card.rewardProgram) }] : [])
+
+  const suggestions = await Promise.all(programs.map(async ({ card, program }) => {
+    const { periodStart, periodEnd } = getStatementPeriod(expense.date, card.billingCycle)
+    const yearStart = getStatementPeriod(new Date(periodEnd.getFullYear(), 0, 1), card.billingCycle).periodStart
+
+    const recorded = await prisma.expense.findMany({
+      where: {
+        creditCardId: card.id,
+        paymentMethod: "CARD",
+        date: { gte: periodStart < yearStart ? periodStart : yearStart, lt: nextDay(periodEnd) },
+      },
+      select: { amount: true, currency: true, date: true, tags: true },
+    })
+    const toRewardExpense = (row: (typeof recorded)[number]) => ({
+      amount: converter.convert(Number(row.amount), row.currency, row.date),
+      tags: row.tags,
+    })
+
+    const cycleExpenses = recorded.filter(row => row.date >= periodStart).map(toRewardExpense)
+    const yearSpendBefore = recorded
+      .filter(row => row.date >= yearStart && row.date < periodStart)
+      .reduce((sum, row) => sum + toRewardExpense(row).amount, 0)
+
+    const { tags } = applyExpenseRules(rules, {
+      title: expense.title,
+      description: expense.description,
+      amount: expense.amount,
+      paymentMethod: "CARD",
+      creditCardId: card.id,
+      expenseType: "EXPECTED",
+      category: "NEEDS",
+      tags: expense.tags ?? [],
+    })
+
+    const without = calculateCycleRewards(program, cycleExpenses, yearSpendBefore)
+    const withExpense = calculateCycleRewards(program, [...cycleExpenses, { amount, tags }], yearSpendBefore)
+
+    return {
+      creditCardId: card.id,
+      cardName: card.cardName,
+      bank: card.bank,
+      lastFourDigits: card.lastFourDigits,
+      rewardType: program.rewardType,
+      points: round2(withExpense.points - without.points),
+      value: round2(withExpense.value - without.value),
+      multiplier: getRewardMultiplier(program, tags)?.multiplier ?? 1,
+      milestoneReached: withExpense.milestonePoints > without.milestonePoints,
+      capped: withExpense.cappedPoints > without.cappedPoints,
+    }
+  }))
+
+  return suggestions.sort((a, b) => b.value - a.value)
+}
@@ -0,0 +1,325 @@
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { calculatePaymentDueDate } from "@/lib/credit-card-utils"
+import {
+  CARD_LATE_FEE_SLABS,
+  CARD_MINIMUM_DUE_FLOOR,
+  CARD_MINIMUM_DUE_PERCENT,
+  CARD_MONTHLY_INTEREST_PERCENT,
+  CARD_RECONCILIATION_DAY_TOLERANCE,
+  CARD_UTILISATION_CRITICAL_PERCENT,
+  CARD_UTILISATION_WARNING_PERCENT,
+} from "@/constants"
+import type {
+  CardReconciliation,
+  CardStatementStatus,
+  CardUtilisation,
+  CardUtilisationLevel,
+  ParsedStatementRow,
+  ReconciledExpense,
+} from "@/types"
+
+type CardStatementRecord = Prisma.CardStatementGetPayload<{
+  include: { payments: true; creditCard: { select: { cardName: true; bank: true; lastFourDigits: true } } }
+}>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Day of a month the cycle closes, for cycle days the month does not have (e.g. 31st in February)
+function getClosingDate(year: number, month: number, billingCycle: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate()
+  return new Date(year, month, Math.min(billingCycle, lastDay))
+}
+
+/**
+ * Billing cycle a date falls in: from the day after the previous closing day to the closing day
+ * A date on the closing day belongs to the cycle closing that day, as in calculatePaymentDueDate
+ */
+export function getStatementPeriod(date: Date, billingCycle: number): { periodStart: Date; periodEnd: Date } {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  let periodEnd = getClosingDate(day.getFullYear(), day.getMonth(), billingCycle)
+  if (day > periodEnd) {
+    periodEnd = getClosingDate(day.getFullYear(), day.getMonth() + 1, billingCycle)
+  }
+
+  const previousEnd = getClosingDate(periodEnd.getFullYear(), periodEnd.getMonth() - 1, billingCycle)
+  const periodStart = new Date(previousEnd.getFullYear(), previousEnd.getMonth(), previousEnd.getDate() + 1)
+  return { periodStart, periodEnd }
+}
+
+/**
+ * Minimum due: a percentage of the total due with a floor, never more than the total due
+ */
+export function getMinimumDue(totalDue: number): number {
+  if (totalDue <= 0) return 0
+  return round2(Math.min(totalDue, Math.max(CARD_MINIMUM_DUE_FLOOR, (totalDue * CARD_MINIMUM_DUE_PERCENT) / 100)))
+}
+
+/**
+ * Late fee for a statement whose minimum due was missed, by its total due
+ */
+export function getLateFee(totalDue: number): number {
+  return CARD_LATE_FEE_SLABS.find(slab => totalDue <= slab.upTo)?.fee ?? 0
+}
+
+/**
+ * Utilisation level of a card from the share of its limit in use
+ */
+export function getUtilisationLevel(utilisationPercent: number | null): CardUtilisationLevel {
+  if (utilisationPercent === null) return "OK"
+  if (utilisationPercent >= CARD_UTILISATION_CRITICAL_PERCENT) return "CRITICAL"
+  if (utilisationPercent >= CARD_UTILISATION_WARNING_PERCENT) return "WARNING"
+  return "OK"
+}
+
+/**
+ * Generate or refresh a user's card statements, one per billing cycle, up to the cycle containing `asOf`
+ * - Spend is the cycle's CARD expenses, converted to the base currency on the day of each expense
+ * - A statement carries the unpaid amount of the previous one; once the previous due date plus grace
+ *   period has passed, interest is charged on that amount and a late fee when its minimum due was missed
+ * - Statements are recalculated on every run, so edited expenses and new payments flow through;
+ *   payments stay attached to the statement they were made against
+ * - Cycles left without expenses or payments after a billing cycle change are removed
+ * Returns the number of statements written
+ */
+export async function generateCardStatements(userId: string, asOf: Date = new Date()): Promise<number> {
+  const [converter, cards] = await Promise.all([
+    getUserCurrencyConverter(userId),
+    prisma.creditCard.findMany({
+      where: { userId },
+      include: {
+        expenses: {
+          where: { paymentMethod: "CARD" },
+          select: { amount: true, currency: true, date: true },
+          orderBy: { date: "asc" },
+        },
+        statements: {
+          include: { payments: true },
+          orderBy: { periodEnd: "asc" },
+        },
+      },
+    }),
+  ])
+
+  let written = 0
+
+  for (const card of cards) {
+    const starts = [
+      ...card.expenses.map(expense => expense.date),
+      ...card.statements.filter(statement => statement.payments.length > 0).map(statement => statement.periodStart),
+    ]
+    if (starts.length === 0) continue
+
+    const first = getStatementPeriod(new Date(Math.min(...starts.map(date => date.getTime()))), card.billingCycle)
+    const last = getStatementPeriod(asOf, card.billingCycle)
+    const existing = new Map(card.statements.map(statement => [statement.periodEnd.getTime(), statement]))
+
+    let previous: { totalDue: number; minimumDue: number; paidAmount: number; paidByGraceEnd: number; graceEnd: Date } | null = null
+    const periodEnds: Date[] = []
+
+    for (let period = first; period.periodEnd <= last.periodEnd; ) {
+      const { periodStart, periodEnd } = period
+      const nextStart = new Date(periodEnd.getFullYear(), periodEnd.getMonth(), periodEnd.getDate() + 1)
+      periodEnds.push(periodEnd)
+
+      const spend = round2(card.expenses
+        .filter(expense => expense.date >= periodStart && expense.date < nextStart)
+        .reduce((sum, expense) => sum + converter.convert(Number(expense.amount), expense.currency, expense.date), 0))
+
+      const previousBalance = previous ? round2(Math.max(0, previous.totalDue - previous.paidAmount)) : 0
+      const lapsed = previous && previous.graceEnd < asOf ? previous : null
+      const interest = lapsed && previousBalance > 0
+        ? round2((previousBalance * CARD_MONTHLY_INTEREST_PERCENT) / 100)
+        : 0
+      const lateFee = lapsed && lapsed.totalDue > 0 && lapsed.paidByGraceEnd < lapsed.minimumDue
+        ? getLateFee(lapsed.totalDue)
+        : 0
+
+      const totalDue = round2(previousBalance + spend + interest + lateFee)
+      const minimumDue = getMinimumDue(totalDue)
+      const dueDate = calculatePaymentDueDate(periodEnd, card)
+      const graceEnd = new Date(dueDate.getTime() + (card.gracePeriod + 1) * DAY_MS)
+
+      const payments = [...(existing.get(periodEnd.getTime())?.payments ?? [])]
+        .sort((a, b) => a.paidOn.getTime() - b.paidOn.getTime())
+      const paidAmount = round2(payments.reduce((sum, payment) => sum + Number(payment.amount), 0))
+      const paidByGraceEnd = payments
+        .filter(payment => payment.paidOn < graceEnd)
+        .reduce((sum, payment) => sum + Number(payment.amount), 0)
+
+      // Payment that brought the total paid up to the total due
+      let runningPaid = 0
+      const settlingPayment = payments.find(payment => (runningPaid += Number(payment.amount)) >= totalDue - 0.005)
+
+      let status: CardStatementStatus
+      if (nextStart > asOf) {
+        status = "OPEN"
+      } else if (paidAmount >= totalDue - 0.005) {
+        status = "PAID"
+      } else if (graceEnd < asOf) {
+        status = "OVERDUE"
+      } else {
+        status = paidAmount > 0 ? "PARTIALLY_PAID" : "BILLED"
+      }
+
+      const data = {
+        periodStart,
+        dueDate,
+        spend,
+        previousBalance,
+        interest,
+        lateFee,
+        totalDue,
+        minimumDue,
+        paidAmount,
+        status,
+        paidAt: status === "PAID" ? settlingPayment?.paidOn ?? nextStart : null,
+      }
+
+      await prisma.cardStatement.upsert({
+        where: { creditCardId_periodEnd: { creditCardId: card.id, periodEnd } },
+        create: { userId, creditCardId: card.id, periodEnd, ...data },
+        update: data,
+      })
+      written++
+
+      previous = { totalDue, minimumDue, paidAmount, paidByGraceEnd, graceEnd }
+      period = getStatementPeriod(nextStart, card.billingCycle)
+    }
+
+    await prisma.cardStatement.deleteMany({
+      where: {
+        creditCardId: card.id,
+        periodEnd: { notIn: periodEnds },
+        payments: { none: {} },
+      },
+    })
+  }
+
+  return written
+}
+
+/**
+ * The statement a bill payment goes to: the latest closed statement of the card
+ * Earlier unpaid amounts are carried into it, so older statements are not paid directly
+ */
+export async function getPayableStatement(creditCardId: string) {
+  return prisma.cardStatement.findFirst({
+    where: { creditCardId, status: { not: "OPEN" } },
+    orderBy: { periodEnd: "desc" },
+  })
+}
+
+/**
+ * Share of each active card's limit in use: the latest statement's total due (which carries
+ * unpaid billed amounts) less what has been paid against it
+ */
+export async function getCardUtilisation(userId: string): Promise<CardUtilisation[]> {
+  const cards = await prisma.creditCard.findMany({
+    where: { userId, isActive: true },
+    include: {
+      statements: {
+        orderBy: { periodEnd: "desc" },
+        take: 1,
+        select: { totalDue: true, paidAmount: true },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+  })
+
+  return cards.map(card => {
+    const latest = card.statements[0]
+    const outstanding = latest ? round2(Math.max(0, Number(latest.totalDue) - Number(latest.paidAmount))) : 0
+    const cardLimit = card.cardLimit ? Number(card.cardLimit) : null
+    const utilisationPercent = cardLimit ? round2((outstanding / cardLimit) * 100) : null
+
+    return {
+      creditCardId: card.id,
+      cardName: card.cardName,
+      bank: card.bank,
+      lastFourDigits: card.lastFourDigits,
+      cardLimit,
+      outstanding,
+      utilisationPercent,
+      level: getUtilisationLevel(utilisationPercent),
+    }
+  })
+}
+
+/**
+ * Match a statement cycle's CARD expenses against the debits of an imported statement file
+ * - A charge matches an expense for the same amount posted within a few days of it; expenses in
+ *   another currency match the converted amount within 2% to allow for the card's exchange rate
+ * - Each charge matches at most one expense, preferring the closest date
+ */
+export function reconcileCardStatement(
+  statementId: string,
+  expenses: (ReconciledExpense & { currency: string; baseAmount: number })[],
+  rows: ParsedStatementRow[]
+): CardReconciliation {
+  const charges = rows.filter(row => row.direction === "DEBIT")
+  const unmatched = new Set(charges.map(row => row.rowNumber))
+  const matched: CardReconciliation["matched"] = []
+  const missingFromStatement: ReconciledExpense[] = []
+
+  const amountMatches = (expense: (typeof expenses)[number], amount: number) =>
+    Math.abs(expense.amount - amount) < 0.01 ||
+    Math.abs(expense.baseAmount - amount) < 0.01 ||
+    (expense.baseAmount !== expense.amount && Math.abs(expense.baseAmount - amount) <= expense.baseAmount * 0.02)
+
+  for (const expense of [...expenses].sort((a, b) => a.date.localeCompare(b.date))) {
+    const expenseTime = new Date(expense.date).getTime()
+    const candidates = charges
+      .filter(row => unmatched.has(row.rowNumber) && amountMatches(expense, row.amount))
+      .map(row => ({ row, gap: Math.abs(new Date(row.date).getTime() - expenseTime) }))
+      .filter(candidate => candidate.gap <= CARD_RECONCILIATION_DAY_TOLERANCE * DAY_MS)
+      .sort((a, b) => a.gap - b.gap)
+
+    const { id, title, date, amount } = expense
+    if (candidates.length > 0) {
+      const { row } = candidates[0]
+      unmatched.delete(row.rowNumber)
+      matched.push({ expense: { id, title, date, amount }, rowNumber: row.rowNumber, description: row.description })
+    } else {
+      missingFromStatement.push({ id, title, date, amount })
+    }
+  }
+
+  const statementCharges = round2(charges.reduce((sum, row) => sum + row.amount, 0))
+  const recordedSpend = round2(expenses.reduce((sum, expense) => sum + expense.baseAmount, 0))
+
+  return {
+    statementId,
+    matched,
+    missingFromStatement,
+    missingFromApp: charges
+      .filter(row => unmatched.has(row.rowNumber))
+      .map(row => ({ rowNumber: row.rowNumber, date: row.date, description: row.description, amount: row.amount })),
+    statementCharges,
+    recordedSpend,
+    difference: round2(statementCharges - recordedSpend),
+  }
+}
+
+/**
+ * Serialise a card statement for API responses
+ */
+export function serializeCardStatement(statement: CardStatementRecord) {
+  return {
+    ...statement,
+    spend: Number(statement.spend),
+    previousBalance: Number(statement.previousBalance),
+    interest: Number(statement.interest),
+    lateFee: Number(statement.lateFee),
+    totalDue: Number(statement.totalDue),
+    minimumDue: Number(statement.minimumDue),
+    paidAmount: Number(statement.paidAmount),
+    outstanding: round2(Math.max(0, Number(statement.totalDue) - Number(statement.paidAmount))),
+    payments: statement.payments
+      .map(payment => ({ ...payment, amount: Number(payment.amount) }))
+      .sort((a, b) => a.paidOn.getTime() - b.paidOn.getTime()),
+  }
+}
@@ -0,0 +1,225 @@
+import { prisma } from "@/lib/prisma"
+import { getSchemeCodeByIsin } from "@/lib/market-data"
+import { recordOneTimePurchase } from "@/lib/investment-purchases"
+import { recordSale } from "@/lib/investment-sales"
+import { recordAudit, type AuditActor } from "@/lib/audit"
+import {
+  CAS_DUPLICATE_WINDOW_DAYS,
+  CAS_PURCHASE_TYPES,
+  CAS_UNITS_TOLERANCE,
+} from "@/constants/cas-import"
+import type {
+  CasDuplicate,
+  CasImportResult,
+  CasTransactionType,
+  ParsedCas,
+  ParsedCasScheme,
+  ParsedCasTransaction,
+  StagedCasScheme,
+} from "@/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const isPurchase = (type: CasTransactionType) => CAS_PURCHASE_TYPES.includes(type)
+
+const byDate = (a: ParsedCasTransaction, b: ParsedCasTransaction) => a.date.localeCompare(b.date)
+
+/**
+ * Scheme code prices are keyed by: the AMFI code when the statement has it, else looked up by ISIN
+ */
+async function resolveSchemeCode(scheme: ParsedCasScheme): Promise<string | null> {
+  if (scheme.amfiCode) return scheme.amfiCode
+  if (!scheme.isin) return null
+  try {
+    return await getSchemeCodeByIsin(scheme.isin)
+  } catch (error) {
+    console.error(`[CAS Import] Failed to look up ${scheme.isin}:`, error)
+    return null
+  }
+}
+
+/**
+ * Stage parsed CAS schemes for review
+ * - Maps each scheme to its mfapi scheme code and merges folios of the same scheme
+ * - Matches it to the user's mutual fund holding with that symbol
+ * - Flags unit movements already recorded as a transaction of the holding within a few days,
+ *   for the same units or amount, so a statement can be imported again without duplicating
+ * - A holding added without transactions has its opening balance replaced by the statement's history
+ * - Marks movements that fall in a closed month
+ */
+export async function stageCasImport(userId: string, parsed: ParsedCas): Promise<StagedCasScheme[]> {
+  const resolved = await Promise.all(
+    parsed.schemes.map(async scheme => ({ scheme, symbol: await resolveSchemeCode(scheme) }))
+  )
+
+  // Folios of one scheme become one holding
+  const grouped: { scheme: ParsedCasScheme; symbol: string | null }[] = []
+  for (const { scheme, symbol } of resolved) {
+    const existing = symbol ? grouped.find(group => group.symbol === symbol) : undefined
+    if (existing) {
+      existing.scheme = {
+        ...existing.scheme,
+        folio: `${existing.scheme.folio}, ${scheme.folio}`,
+        closingUnits: existing.scheme.closingUnits !== null && scheme.closingUnits !== null
+          ? existing.scheme.closingUnits + scheme.closingUnits
+          : null,
+        transactions: [...existing.scheme.transactions, ...scheme.transactions].sort(byDate),
+      }
+    } else {
+      grouped.push({ scheme, symbol })
+    }
+  }
+
+  const symbols = grouped.map(group => group.symbol).filter((symbol): symbol is string => !!symbol)
+
+  const [holdings, transactions, closedSnapshots] = await Promise.all([
+    prisma.holding.findMany({
+      where: { userId, bucket: "MUTUAL_FUND", symbol: { in: symbols } },
+    }),
+    prisma.transaction.findMany({
+      where: { userId, bucket: "MUTUAL_FUND", symbol: { in: symbols } },
+      select: { id: true, symbol: true, transactionType: true, purchaseDate: true, qty: true, amount: true },
+    }),
+    prisma.monthlySnapshot.findMany({
+      where: { userId, isClosed: true },
+      select: { year: true, month: true },
+    }),
+  ])
+
+  const closedMonths = new Set(closedSnapshots.map(snapshot => `${snapshot.year}-${snapshot.month}`))
+
+  return grouped.map(({ scheme, symbol }, schemeIndex) => {
+    const holding = symbol ? holdings.find(item => item.symbol.toUpperCase() === symbol.toUpperCase()) : undefined
+    const recorded = symbol ? transactions.filter(txn => txn.symbol.toUpperCase() === symbol.toUpperCase()) : []
+    const matchedIds = new Set<string>()
+
+    const findDuplicate = (txn: ParsedCasTransaction): CasDuplicate | null => {
+      const time = new Date(txn.date).getTime()
+      const match = recorded.find(item =>
+        !matchedIds.has(item.id) &&
+        item.transactionType !== "MANUAL_EDIT" &&
+        (item.transactionType === "SELL") === !isPurchase(txn.type) &&
+        Math.abs(item.purchaseDate.getTime() - time) <= CAS_DUPLICATE_WINDOW_DAYS * DAY_MS &&
+        (Math.abs(Number(item.qty) - txn.units) < CAS_UNITS_TOLERANCE || Math.abs(Number(item.amount) - txn.amount) < 1)
+      )
+      if (!match) return null
+
+      matchedIds.add(match.id)
+      return {
+        id: match.id,
+        transactionType: match.transactionType,
+        date: match.purchaseDate.toISOString(),
+        qty: Number(match.qty),
+        amount: Number(match.amount),
+      }
+    }
+
+    return {
+      ...scheme,
+      symbol,
+      holdingId: holding?.id ?? null,
+      holdingQty: holding ? Number(holding.qty) : null,
+      replacesOpeningBalance: !!holding && recorded.length === 0,
+      transactions: scheme.transactions.map((txn, index) => {
+        const date = new Date(txn.date)
+        const duplicateOf = findDuplicate(txn)
+        const monthClosed = closedMonths.has(`${date.getFullYear()}-${date.getMonth() + 1}`)
+        return {
+          ...txn,
+          id: `${schemeIndex}-${index}`,
+          selected: !!symbol && !duplicateOf && !monthClosed,
+          duplicateOf,
+          monthClosed,
+        }
+      }),
+    }
+  })
+}
+
+/**
+ * Record reviewed CAS unit movements, scheme by scheme in date order
+ * - Purchases, SIP instalments, switch-ins and reinvestments are added to the holding
+ *   (created when missing) as ONE_TIME_PURCHASE or SIP_EXECUTION transactions
+ * - Redemptions and switch-outs are sold FIFO with their capital gains booked
+ * - A holding added without transactions is reset first, since the statement's history replaces it
+ * Movements that cannot be recorded (e.g. selling more units than held) are reported and skipped
+ */
+export async function applyCasImport(
+  userId: string,
+  schemes: { symbol: string; name: string; transactions: ParsedCasTransaction[] }[],
+  actor: AuditActor
+): Promise<CasImportResult> {
+  const result: CasImportResult = { purchases: 0, redemptions: 0, holdingsCreated: 0, errors: [] }
+
+  for (const scheme of schemes) {
+    const symbol = scheme.symbol.trim().toUpperCase()
+    const findHolding = () => prisma.holding.findFirst({
+      where: { userId, bucket: "MUTUAL_FUND", symbol: { equals: symbol, mode: "insensitive" } },
+    })
+
+    const existing = await findHolding()
+    if (existing) {
+      const recordedCount = await prisma.transaction.count({
+        where: { userId, bucket: "MUTUAL_FUND", symbol: { equals: symbol, mode: "insensitive" } },
+      })
+      if (recordedCount === 0) {
+        const reset = await prisma.holding.update({
+          where: { id: existing.id },
+          data: { qty: 0, avgCost: 0, isManual: false },
+        })
+        await recordAudit(prisma, actor, {
+          entity: "HOLDING",
+          entityId: existing.id,
+          action: "UPDATE",
+          operation: "CAS import reset",
+          before: existing,
+          after: reset,
+          userId,
+        })
+      }
+    }
+
+    for (const txn of [...scheme.transactions].sort(byDate)) {
+      const date = new Date(txn.date)
+      const description = `CAS: ${txn.description}`
+
+      try {
+        if (isPurchase(txn.type)) {
+          const holding = await findHolding()
+          await recordOneTimePurchase(userId, {
+            bucket: "MUTUAL_FUND",
+            symbol,
+            name: scheme.name,
+            qty: txn.units,
+            buyPrice: txn.nav,
+            date,
+            description,
+            currency: "INR",
+            transactionType: txn.type === "SIP" ? "SIP_EXECUTION" : "ONE_TIME_PURCHASE",
+          }, actor)
+          if (!holding) result.holdingsCreated++
+          result.purchases++
+        } else {
+          const holding = await findHolding()
+          if (!holding) throw new Error("No units held")
+          // Rounding in the statement can leave a full redemption a fraction above the units held
+          const heldQty = Number(holding.qty)
+          await recordSale(userId, holding, {
+            qty: txn.units > heldQty && txn.units - heldQty < CAS_UNITS_TOLERANCE ? heldQty : txn.units,
+            price: txn.nav,
+            soldOn: date,
+            inrRate: null,
+            description,
+          }, actor)
+          result.redemptions++
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        result.errors.push(`${scheme.name} (${date.toLocaleDateString("en-IN")}): ${errorMessage}`)
+        console.error(`[CAS Import] Failed to record ${txn.type} of ${symbol}:`, error)
+      }
+    }
+  }
+
+  return result
+}
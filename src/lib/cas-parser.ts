@@ -0,0 +1,245 @@
+/**
+ * CAS Parser
+ * Parses the mutual fund consolidated account statement that CAMS and KFintech email, as
+ * text extracted from the PDF or as the casparser JSON export, into schemes and unit movements
+ */
+
+import { parseStatementAmount, parseStatementDate } from "@/lib/statement-parser"
+import {
+  CAS_JSON_TRANSACTION_TYPES,
+  CAS_PURCHASE_TYPES,
+  CAS_TRANSACTION_KEYWORDS,
+  CAS_UNITS_TOLERANCE,
+} from "@/constants/cas-import"
+import type { CasFormat, CasTransactionType, ParsedCas, ParsedCasScheme } from "@/types"
+
+const NUMBER = String.raw`\(?-?[\d,]+\.\d+\)?`
+const TRANSACTION_LINE = new RegExp(
+  String.raw`^(\d{1,2}-[A-Za-z]{3}-\d{4})\s+(.+?)\s+(${NUMBER})\s+(${NUMBER})\s+(${NUMBER})\s+(${NUMBER})$`
+)
+const PERIOD_LINE = /(\d{1,2}-[A-Za-z]{3}-\d{4})\s+(?:to|-)\s+(\d{1,2}-[A-Za-z]{3}-\d{4})/i
+const ISIN_PATTERN = /ISIN\s*:\s*([A-Z]{2}[A-Z0-9]{9}\d)/i
+const REVERSAL_PATTERN = /REVERS|REJECT/i
+
+function matchesKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(`(^|[^A-Z0-9])${escaped}([^A-Z0-9]|$)`).test(text)
+}
+
+/**
+ * Classify a unit movement from its narration
+ * Keyword rules only apply in the direction they describe, so a "switch" narration that
+ * removes units is a switch out whatever it says
+ */
+export function classifyCasTransaction(description: string, units: number): CasTransactionType {
+  const text = description.toUpperCase()
+  const adds = units > 0
+
+  const rule = CAS_TRANSACTION_KEYWORDS.find(rule =>
+    CAS_PURCHASE_TYPES.includes(rule.type) === adds && rule.keywords.some(keyword => matchesKeyword(text, keyword))
+  )
+  if (rule) return rule.type
+  if (text.includes("SWITCH")) return adds ? "SWITCH_IN" : "SWITCH_OUT"
+  return adds ? "PURCHASE" : "REDEMPTION"
+}
+
+/**
+ * Detect whether a CAS file is the JSON export or extracted text
+ */
+export function detectCasFormat(fileName: string, content: string): CasFormat {
+  return /\.json$/i.test(fileName) || /^\s*\{/.test(content) ? "JSON" : "TEXT"
+}
+
+/**
+ * Add a unit movement to a scheme
+ * A reversal (bounced SIP, rejected purchase) cancels the latest earlier row with the same
+ * units instead of being imported
+ */
+function addTransaction(
+  scheme: ParsedCasScheme,
+  row: { date: Date; description: string; amount: number; units: number; nav: number; type?: CasTransactionType }
+): boolean {
+  if (REVERSAL_PATTERN.test(row.description)) {
+    const index = scheme.transactions.findLastIndex(txn =>
+      Math.abs(txn.units - Math.abs(row.units)) < CAS_UNITS_TOLERANCE &&
+      CAS_PURCHASE_TYPES.includes(txn.type) === row.units < 0
+    )
+    if (index !== -1) scheme.transactions.splice(index, 1)
+    return index !== -1
+  }
+
+  scheme.transactions.push({
+    date: row.date.toISOString(),
+    description: row.description,
+    type: row.type ?? classifyCasTransaction(row.description, row.units),
+    amount: Math.abs(row.amount),
+    units: Math.abs(row.units),
+    nav: row.nav,
+  })
+  return true
+}
+
+/**
+ * Parse the text of a CAS PDF (pdftotext or copy-paste, one transaction per line)
+ * - "Folio No:" starts a folio, a line with "ISIN:" starts a scheme within it
+ * - Transaction lines are "date narration amount units nav balance"; amounts and units of
+ *   redemptions are negative or in brackets
+ * - Lines with fewer columns (stamp duty, STT, TDS, dividend payouts) are skipped
+ */
+export function parseCasText(content: string): ParsedCas {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).map(line => line.replace(/\s+/g, " ").trim())
+
+  const schemes: ParsedCasScheme[] = []
+  let periodFrom: string | null = null
+  let periodTo: string | null = null
+  let amc: string | null = null
+  let folio = ""
+  let scheme: ParsedCasScheme | null = null
+  let skippedLines = 0
+  let previousLine = ""
+
+  for (const line of lines) {
+    if (!line) continue
+
+    const period: RegExpMatchArray | null = !periodFrom ? line.match(PERIOD_LINE) : null
+    if (period) {
+      periodFrom = parseStatementDate(period[1], "DMY")?.toISOString() ?? null
+      periodTo = parseStatementDate(period[2], "DMY")?.toISOString() ?? null
+    }
+
+    if (/^[A-Za-z0-9 &.'()-]+ Mutual Fund$/i.test(line)) {
+      amc = line
+    } else if (/Folio No\s*:/i.test(line)) {
+      folio = line.match(/Folio No\s*:\s*([0-9A-Za-z]+(?:\s*\/\s*[0-9A-Za-z]+)?)/i)?.[1].replace(/\s+/g, "") ?? ""
+    } else if (ISIN_PATTERN.test(line)) {
+      const isin = line.match(ISIN_PATTERN)![1].toUpperCase()
+      const nameText = line.slice(0, line.search(/ISIN\s*:/i)).replace(/[\s-]+$/, "") || previousLine
+      scheme = {
+        folio,
+        amc,
+        // CAMS prefixes the scheme name with its product code, e.g. "B205RG-"
+        name: nameText.replace(/^[A-Z0-9]{2,10}-\s*/, "").replace(/\s*\((?:Non-Demat|Demat)\)\s*/i, " ").trim(),
+        isin,
+        amfiCode: line.match(/AMFI(?: Code)?\s*:\s*(\d+)/i)?.[1] ?? null,
+        closingUnits: null,
+        transactions: [],
+      }
+      schemes.push(scheme)
+    } else if (scheme && /Closing Unit Balance/i.test(line)) {
+      const closing = line.match(/Closing Unit Balance\s*:?\s*([\d,]+\.\d+)/i)
+      scheme.closingUnits = closing ? parseStatementAmount(closing[1]) : null
+    } else if (scheme && /^\d{1,2}-[A-Za-z]{3}-\d{4}\s/.test(line)) {
+      const match = line.match(TRANSACTION_LINE)
+      const date = match ? parseStatementDate(match[1], "DMY") : null
+      const amount = match ? parseStatementAmount(match[3]) : null
+      const units = match ? parseStatementAmount(match[4]) : null
+      const nav = match ? parseStatementAmount(match[5]) : null
+
+      if (!match || !date || amount === null || !units || !nav || !addTransaction(scheme, { date, description: match[2], amount, units, nav })) {
+        skippedLines++
+      }
+    }
+
+    previousLine = line
+  }
+
+  if (schemes.length === 0) {
+    throw new Error("No schemes found. Upload the text of a CAMS or KFintech CAS with ISINs")
+  }
+
+  return { format: "TEXT", periodFrom, periodTo, schemes, skippedLines }
+}
+
+interface CasJsonTransaction {
+  date?: string
+  description?: string
+  amount?: number | string | null
+  units?: number | string | null
+  nav?: number | string | null
+  type?: string
+}
+
+interface CasJsonScheme {
+  scheme?: string
+  isin?: string | null
+  amfi?: string | number | null
+  close?: number | string | null
+  close_calculated?: number | string | null
+  transactions?: CasJsonTransaction[]
+}
+
+interface CasJsonFolio {
+  folio?: string
+  amc?: string
+  schemes?: CasJsonScheme[]
+}
+
+const toNumber = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === "" ? null : Number(value)
+
+/**
+ * Parse the casparser JSON export ({ statement_period, folios: [{ folio, amc, schemes: [...] }] })
+ * Transactions without units (charges, TDS, dividend payouts) are skipped
+ */
+export function parseCasJson(content: string): ParsedCas {
+  let data: { statement_period?: { from?: string; to?: string }; folios?: CasJsonFolio[] }
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new Error("The CAS file is not valid JSON")
+  }
+
+  if (!Array.isArray(data?.folios)) {
+    throw new Error("No folios found in the CAS JSON")
+  }
+
+  const parseDate = (value: string | undefined) =>
+    value ? parseStatementDate(value, /^\d{4}/.test(value) ? "YMD" : "DMY") : null
+
+  const schemes: ParsedCasScheme[] = []
+  let skippedLines = 0
+
+  for (const folio of data.folios) {
+    for (const item of folio.schemes ?? []) {
+      const scheme: ParsedCasScheme = {
+        folio: (folio.folio ?? "").replace(/\s+/g, ""),
+        amc: folio.amc ?? null,
+        name: (item.scheme ?? "").trim(),
+        isin: item.isin ? item.isin.toUpperCase() : null,
+        amfiCode: item.amfi ? String(item.amfi) : null,
+        closingUnits: toNumber(item.close) ?? toNumber(item.close_calculated),
+        transactions: [],
+      }
+
+      for (const txn of item.transactions ?? []) {
+        const date = parseDate(txn.date)
+        const units = toNumber(txn.units)
+        const nav = toNumber(txn.nav)
+        const amount = toNumber(txn.amount) ?? (units && nav ? units * nav : null)
+        const type = txn.type === "REVERSAL" ? undefined : CAS_JSON_TRANSACTION_TYPES[txn.type ?? ""]
+        const description = (txn.description ?? txn.type ?? "").replace(/\s+/g, " ").trim()
+
+        if (!date || !units || !nav || amount === null || (txn.type && txn.type !== "REVERSAL" && !type)) {
+          skippedLines++
+          continue
+        }
+        if (!addTransaction(scheme, { date, description: txn.type === "REVERSAL" ? `Reversal ${description}` : description, amount, units, nav, type })) {
+          skippedLines++
+        }
+      }
+
+      if (scheme.name) schemes.push(scheme)
+    }
+  }
+
+  const periodFrom = parseDate(data.statement_period?.from)
+  const periodTo = parseDate(data.statement_period?.to)
+
+  return {
+    format: "JSON",
+    periodFrom: periodFrom ? periodFrom.toISOString() : null,
+    periodTo: periodTo ? periodTo.toISOString() : null,
+    schemes,
+    skippedLines,
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+
+/**
+ * Check a cron request carries `Authorization: Bearer <CRON_SECRET>`
+ * - Returns the response to send when it does not, null when the job may run
+ * - Without CRON_SECRET set every request is refused, so a deploy missing it is never left open
+ */
+export function verifyCronRequest(request: Request): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error("[Cron] CRON_SECRET is not set, refusing to run")
+    return NextResponse.json({ error: "Cron secret is not configured" }, { status: 500 })
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return null
+}
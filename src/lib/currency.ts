@@ -0,0 +1,180 @@
+import { prisma } from "@/lib/prisma"
+import { getExchangeRate, getExchangeRateQuote, toPriceDate } from "@/lib/market-data"
+import { DEFAULT_CURRENCY } from "@/constants"
+import type { CurrencyConverter } from "@/types"
+
+// Rates are stored per USD, so any pair is crossed through it
+const PIVOT_CURRENCY = "USD"
+
+const normalizeCurrency = (currency: string | null | undefined) => (currency || DEFAULT_CURRENCY).trim().toUpperCase()
+
+/**
+ * The currency a user's reports, snapshots and dashboard are shown in
+ */
+export async function getBaseCurrency(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { baseCurrency: true } })
+  return normalizeCurrency(user?.baseCurrency)
+}
+
+/**
+ * Store a day's rate (units of currency per USD), replacing the rate already stored for the day
+ */
+export async function saveExchangeRate(currency: string, date: Date, rate: number, source: string) {
+  const day = toPriceDate(date)
+  await prisma.exchangeRate.upsert({
+    where: { currency_date: { currency: normalizeCurrency(currency), date: day } },
+    create: { currency: normalizeCurrency(currency), date: day, rate, source },
+    update: { rate, source },
+  })
+}
+
+/**
+ * Fetch today's rate of a currency against USD from the market data providers and store it
+ * Returns the rate, or null when no provider has one
+ */
+export async function refreshExchangeRate(currency: string): Promise<number | null> {
+  const code = normalizeCurrency(currency)
+  if (code === PIVOT_CURRENCY) return 1
+
+  const quote = await getExchangeRateQuote(PIVOT_CURRENCY, code)
+  if (!quote) return null
+
+  await saveExchangeRate(code, new Date(), quote.rate, quote.source)
+  return quote.rate
+}
+
+/**
+ * Every currency money is recorded in, plus every user's base currency
+ */
+export async function getCurrenciesInUse(userId?: string): Promise<string[]> {
+  const where = userId ? { userId } : {}
+  const select = { currency: true } as const
+
+  const [users, holdings, transactions, executions, loans, expenses, incomes, borrowedFunds] = await Promise.all([
+    prisma.user.findMany({ where: userId ? { id: userId } : {}, select: { baseCurrency: true }, distinct: ["baseCurrency"] }),
+    prisma.holding.findMany({ where, select, distinct: ["currency"] }),
+    prisma.transaction.findMany({ where, select, distinct: ["currency"] }),
+    prisma.sIPExecution.findMany({ where, select, distinct: ["currency"] }),
+    prisma.loan.findMany({ where, select, distinct: ["currency"] }),
+    prisma.expense.findMany({ where, select, distinct: ["currency"] }),
+    prisma.income.findMany({ where, select, distinct: ["currency"] }),
+    prisma.borrowedFund.findMany({ where, select, distinct: ["currency"] }),
+  ])
+
+  const currencies = [
+    ...users.map(user => user.baseCurrency),
+    ...[holdings, transactions, executions, loans, expenses, incomes, borrowedFunds].flat().map(row => row.currency),
+  ].map(normalizeCurrency)
+
+  return [...new Set(currencies)].sort()
+}
+
+/**
+ * Converter to a base currency using the stored daily rates
+ * - A date uses the last rate on or before it, or the earliest stored rate for older dates
+ * - Currencies without any stored rate get today's rate fetched and stored first
+ * - Converting a currency with no rate at all throws
+ */
+export async function createCurrencyConverter(baseCurrency: string, currencies: string[]): Promise<CurrencyConverter> {
+  const base = normalizeCurrency(baseCurrency)
+  const needed = [...new Set([base, ...currencies.map(normalizeCurrency)])].filter(code => code !== PIVOT_CURRENCY)
+
+  const rows = needed.length > 0
+    ? await prisma.exchangeRate.findMany({
+      where: { currency: { in: needed } },
+      select: { currency: true, date: true, rate: true },
+      orderBy: { date: "asc" },
+    })
+    : []
+
+  const series = new Map<string, { time: number; rate: number }[]>()
+  for (const row of rows) {
+    series.set(row.currency, [...(series.get(row.currency) ?? []), { time: row.date.getTime(), rate: Number(row.rate) }])
+  }
+
+  for (const code of needed.filter(code => !series.has(code))) {
+    const rate = await refreshExchangeRate(code)
+    if (rate) series.set(code, [{ time: toPriceDate(new Date()).getTime(), rate }])
+  }
+
+  // Units of currency per USD on a date
+  const rateOn = (currency: string, date: Date): number | null => {
+    if (currency === PIVOT_CURRENCY) return 1
+    const points = series.get(currency)
+    if (!points) return null
+
+    const time = toPriceDate(date).getTime()
+    let low = 0
+    let high = points.length - 1
+    let found = 0
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2)
+      if (points[mid].time <= time) {
+        found = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return points[found].rate
+  }
+
+  return {
+    baseCurrency: base,
+
+    convert(amount, currency, date = new Date(), inrRate) {
+      const code = normalizeCurrency(currency)
+      if (code === base || amount === 0) return amount
+      if (base === "INR" && inrRate) return amount * inrRate
+
+      const from = rateOn(code, date)
+      const to = rateOn(base, date)
+      if (!from || !to) {
+        throw new Error(`No exchange rate from ${code} to ${base}`)
+      }
+      return amount * (to / from)
+    },
+  }
+}
+
+/**
+ * Converter to a user's base currency for every currency the user records money in
+ */
+export async function getUserCurrencyConverter(userId: string): Promise<CurrencyConverter> {
+  const [baseCurrency, currencies] = await Promise.all([getBaseCurrency(userId), getCurrenciesInUse(userId)])
+  return createCurrencyConverter(baseCurrency, currencies)
+}
+
+/**
+ * Amount in a user's base currency at a date's rate, rounded to paise/cents
+ * Used for records kept only in the base currency, e.g. member balances
+ */
+export async function convertToBaseCurrency(userId: string, amount: number, currency: string, date: Date): Promise<number> {
+  const baseCurrency = await getBaseCurrency(userId)
+  if (normalizeCurrency(currency) === baseCurrency) return amount
+
+  const converter = await createCurrencyConverter(baseCurrency, [currency])
+  return Math.round(converter.convert(amount, currency, date) * 100) / 100
+}
+
+/**
+ * INR per unit of a currency on a date: the live rate today, the stored rate of the date otherwise
+ * Returns null when no rate is stored on or before the date, rather than using a later one
+ */
+export async function getInrRateOn(currency: string, date: Date): Promise<number | null> {
+  const code = normalizeCurrency(currency)
+  if (code === "INR") return 1
+
+  const day = toPriceDate(date)
+  if (day.getTime() === toPriceDate(new Date()).getTime()) return getExchangeRate(code, "INR")
+
+  const needed = [code, "INR"].filter(item => item !== PIVOT_CURRENCY)
+  const stored = await prisma.exchangeRate.groupBy({
+    by: ["currency"],
+    where: { currency: { in: needed }, date: { lte: day } },
+  })
+  if (stored.length < needed.length) return null
+
+  const converter = await createCurrencyConverter("INR", [code])
+  return converter.convert(1, code, date)
+}
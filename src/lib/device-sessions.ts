@@ -0,0 +1,125 @@
+import { prisma } from "@/lib/prisma"
+import { SESSION_MAX_AGE_DAYS } from "@/constants/sessions"
+import type { DeviceSessionEntry } from "@/types"
+
+type RequestHeaders = Record<string, string | string[] | undefined> | undefined
+
+const headerValue = (headers: RequestHeaders, name: string) => {
+  const value = headers?.[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Client IP from the proxy headers, the first hop of x-forwarded-for
+ */
+export function getClientIp(headers: RequestHeaders): string | null {
+  const forwarded = headerValue(headers, "x-forwarded-for")
+  if (forwarded) return forwarded.split(",")[0].trim() || null
+  return headerValue(headers, "x-real-ip") ?? null
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+]
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+]
+
+/**
+ * Readable device name from a user agent, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device"
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+  if (browser && os) return `${browser} on ${os}`
+  return browser ?? os ?? "Unknown device"
+}
+
+/**
+ * Record the device a user just signed in on; its id goes into the JWT
+ */
+export async function createDeviceSession(userId: string, headers: RequestHeaders): Promise<string> {
+  const deviceSession = await prisma.deviceSession.create({
+    data: {
+      userId,
+      userAgent: headerValue(headers, "user-agent")?.slice(0, 512) ?? null,
+      ipAddress: getClientIp(headers),
+    },
+    select: { id: true },
+  })
+  return deviceSession.id
+}
+
+const activeSince = () => new Date(Date.now() - SESSION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000)
+
+/**
+ * Sessions not signed out and seen within the JWT lifetime, most recently seen first
+ */
+export async function listDeviceSessions(userId: string, currentSessionId?: string): Promise<DeviceSessionEntry[]> {
+  const deviceSessions = await prisma.deviceSession.findMany({
+    where: { userId, revokedAt: null, lastSeenAt: { gte: activeSince() } },
+    orderBy: { lastSeenAt: "desc" },
+  })
+
+  return deviceSessions.map(deviceSession => ({
+    id: deviceSession.id,
+    device: describeUserAgent(deviceSession.userAgent),
+    userAgent: deviceSession.userAgent,
+    ipAddress: deviceSession.ipAddress,
+    createdAt: deviceSession.createdAt.toISOString(),
+    lastSeenAt: deviceSession.lastSeenAt.toISOString(),
+    current: deviceSession.id === currentSessionId,
+  }))
+}
+
+/**
+ * Sign out one session; its token is rejected on its next request
+ * Returns false when the session is not the user's or already signed out
+ */
+export async function revokeDeviceSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.deviceSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count === 1
+}
+
+/**
+ * Sign out every session except the one making the request
+ */
+export async function revokeOtherDeviceSessions(userId: string, currentSessionId: string): Promise<number> {
+  const { count } = await prisma.deviceSession.updateMany({
+    where: { userId, revokedAt: null, id: { not: currentSessionId } },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
+
+/**
+ * Sign out everywhere, e.g. after a password reset
+ * - Raising the token version rejects every token already issued, whatever happened to its session row
+ */
+export async function revokeAllSessions(userId: string) {
+  await prisma.$transaction([
+    prisma.deviceSession.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+    }),
+  ])
+}
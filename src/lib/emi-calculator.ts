@@ -16,7 +16,7 @@ interface EMICalculationInput {
 /**
  * Get number of payments per year based on frequency
  */
-function getPaymentsPerYear(frequency: EMIFrequency): number {
+export function getPaymentsPerYear(frequency: EMIFrequency): number {
   switch (frequency) {
     case "MONTHLY":
       return 12
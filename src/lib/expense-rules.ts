@@ -0,0 +1,223 @@
+import { prisma } from "@/lib/prisma"
+import { recordAudit, type AuditActor } from "@/lib/audit"
+import type {
+  ExpenseRule,
+  ExpenseRuleApplyResult,
+  ExpenseRuleChange,
+  ExpenseRuleInput,
+  ExpenseRuleOutcome,
+} from "@/types"
+
+type RuleDefinition = Pick<
+  ExpenseRule,
+  "id" | "name" | "pattern" | "minAmount" | "maxAmount" | "paymentMethod" | "creditCardId" | "expenseType" | "category" | "tags"
+>
+
+/**
+ * Check that a rule pattern compiles as a regular expression
+ */
+export function isValidRulePattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i")
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a rule definition before saving
+ * Returns an error message, or null when the rule is valid
+ */
+export function validateExpenseRule(
+  rule: Pick<RuleDefinition, "pattern" | "minAmount" | "maxAmount" | "paymentMethod" | "creditCardId" | "expenseType" | "category" | "tags">
+): string | null {
+  if (!rule.pattern && rule.minAmount === null && rule.maxAmount === null && !rule.paymentMethod && !rule.creditCardId) {
+    return "Add at least one condition (pattern, amount range, payment method or card)"
+  }
+  if (!rule.expenseType && !rule.category && rule.tags.length === 0) {
+    return "Add at least one action (type, category or tags)"
+  }
+  if (rule.pattern && !isValidRulePattern(rule.pattern)) {
+    return "Pattern is not a valid regular expression"
+  }
+  if (rule.minAmount !== null && rule.maxAmount !== null && rule.minAmount > rule.maxAmount) {
+    return "Minimum amount cannot be greater than maximum amount"
+  }
+  if (rule.creditCardId && rule.paymentMethod && rule.paymentMethod !== "CARD") {
+    return "A card condition can only be combined with the Card payment method"
+  }
+  return null
+}
+
+/**
+ * Check whether an expense satisfies every condition set on a rule
+ * A rule without any condition never matches
+ */
+export function matchesExpenseRule(rule: RuleDefinition, expense: ExpenseRuleInput): boolean {
+  const hasCondition = !!rule.pattern || rule.minAmount !== null || rule.maxAmount !== null ||
+    !!rule.paymentMethod || !!rule.creditCardId
+  if (!hasCondition) return false
+
+  if (rule.pattern) {
+    if (!isValidRulePattern(rule.pattern)) return false
+    const regex = new RegExp(rule.pattern, "i")
+    if (!regex.test(expense.title) && !(expense.description && regex.test(expense.description))) {
+      return false
+    }
+  }
+  if (rule.minAmount !== null && expense.amount < rule.minAmount) return false
+  if (rule.maxAmount !== null && expense.amount > rule.maxAmount) return false
+  if (rule.paymentMethod && expense.paymentMethod !== rule.paymentMethod) return false
+  if (rule.creditCardId && expense.creditCardId !== rule.creditCardId) return false
+
+  return true
+}
+
+/**
+ * Apply rules to an expense
+ * - Rules must be ordered highest priority first; the first matching rule that sets a field wins
+ * - Tags from every matching rule are added to the expense's own tags
+ * - Partial-needs expenses keep their category, since the split was entered by hand
+ */
+export function applyExpenseRules(rules: RuleDefinition[], expense: ExpenseRuleInput): ExpenseRuleOutcome {
+  let expenseType: ExpenseRuleOutcome["expenseType"] | null = null
+  let category: ExpenseRuleOutcome["category"] | null = null
+  const tags = [...expense.tags]
+  const matchedRuleIds: string[] = []
+
+  for (const rule of rules) {
+    if (!matchesExpenseRule(rule, expense)) continue
+    matchedRuleIds.push(rule.id)
+
+    if (!expenseType && rule.expenseType) expenseType = rule.expenseType
+    if (!category && rule.category) category = rule.category
+    for (const tag of rule.tags) {
+      if (!tags.includes(tag)) tags.push(tag)
+    }
+  }
+
+  return {
+    expenseType: expenseType ?? expense.expenseType,
+    category: expense.category === "PARTIAL_NEEDS" ? expense.category : category ?? expense.category,
+    tags,
+    matchedRuleIds,
+  }
+}
+
+/**
+ * Get a user's active rules, highest priority first (older rules first on ties)
+ */
+export async function getActiveExpenseRules(userId: string): Promise<RuleDefinition[]> {
+  const rules = await prisma.expenseRule.findMany({
+    where: { userId, isActive: true },
+    orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+  })
+
+  return rules.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    pattern: rule.pattern,
+    minAmount: rule.minAmount !== null ? Number(rule.minAmount) : null,
+    maxAmount: rule.maxAmount !== null ? Number(rule.maxAmount) : null,
+    paymentMethod: rule.paymentMethod,
+    creditCardId: rule.creditCardId,
+    expenseType: rule.expenseType,
+    category: rule.category,
+    tags: rule.tags,
+  }))
+}
+
+/**
+ * Re-run the active rules over existing expenses in a date range
+ * With dryRun the changes are only reported; otherwise they are saved in one transaction.
+ * Expenses in closed months are reported with monthClosed and never updated.
+ * Each saved change is audited as an update of its expense by the actor.
+ */
+export async function applyExpenseRulesToRange(
+  userId: string,
+  range: { from: Date; to: Date },
+  dryRun: boolean,
+  actor: AuditActor
+): Promise<ExpenseRuleApplyResult> {
+  const [rules, expenses, closedSnapshots] = await Promise.all([
+    getActiveExpenseRules(userId),
+    prisma.expense.findMany({
+      where: { userId, date: { gte: range.from, lte: range.to } },
+      select: {
+        id: true,
+        date: true,
+        title: true,
+        description: true,
+        amount: true,
+        paymentMethod: true,
+        creditCardId: true,
+        expenseType: true,
+        category: true,
+        tags: true,
+      },
+      orderBy: { date: "asc" },
+    }),
+    prisma.monthlySnapshot.findMany({
+      where: { userId, isClosed: true },
+      select: { year: true, month: true },
+    }),
+  ])
+
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]))
+  const closedMonths = new Set(closedSnapshots.map(snapshot => `${snapshot.year}-${snapshot.month}`))
+
+  const changes: ExpenseRuleChange[] = []
+  for (const expense of expenses) {
+    const before = { expenseType: expense.expenseType, category: expense.category, tags: expense.tags }
+    const outcome = applyExpenseRules(rules, { ...expense, amount: Number(expense.amount) })
+
+    const changed = outcome.expenseType !== before.expenseType ||
+      outcome.category !== before.category ||
+      outcome.tags.length !== before.tags.length
+    if (!changed) continue
+
+    changes.push({
+      expenseId: expense.id,
+      date: expense.date.toISOString(),
+      title: expense.title,
+      amount: Number(expense.amount),
+      before,
+      after: { expenseType: outcome.expenseType, category: outcome.category, tags: outcome.tags },
+      ruleNames: outcome.matchedRuleIds.map(id => rulesById.get(id)?.name ?? id),
+      monthClosed: closedMonths.has(`${expense.date.getFullYear()}-${expense.date.getMonth() + 1}`),
+    })
+  }
+
+  const applicable = changes.filter(change => !change.monthClosed)
+  if (!dryRun && applicable.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      for (const change of applicable) {
+        await tx.expense.update({
+          where: { id: change.expenseId },
+          data: {
+            expenseType: change.after.expenseType,
+            category: change.after.category,
+            tags: change.after.tags,
+          },
+        })
+        await recordAudit(tx, actor, {
+          entity: "EXPENSE",
+          entityId: change.expenseId,
+          action: "UPDATE",
+          operation: "rules applied",
+          before: change.before,
+          after: change.after,
+          userId,
+        })
+      }
+    }, { timeout: 30000 })
+  }
+
+  return {
+    dryRun,
+    scanned: expenses.length,
+    updated: dryRun ? 0 : applicable.length,
+    changes,
+  }
+}
@@ -0,0 +1,120 @@
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from "crypto"
+import { ENCRYPTED_FIELD_PREFIX, MASK_VISIBLE_CHARS } from "@/constants/field-encryption"
+import { omitFields } from "@/lib/audit"
+
+export type SensitiveField = "pan" | "aadhaar" | "accountNumber"
+
+// The blind index is computed on the normalized value, so formatting does not defeat uniqueness
+const NORMALIZERS: Record<SensitiveField, (value: string) => string> = {
+  pan: value => value.replace(/\s/g, "").toUpperCase(),
+  aadhaar: value => value.replace(/\D/g, ""),
+  accountNumber: value => value.replace(/[\s-]/g, "").toUpperCase(),
+}
+
+export const normalizeSensitiveValue = (field: SensitiveField, value: string) => NORMALIZERS[field](value)
+
+let keys: { wrapping: Buffer; index: Buffer } | null = null
+
+/**
+ * Keys derived from FIELD_ENCRYPTION_KEY (32 bytes, base64): one wraps the data keys, the other
+ * computes blind indexes, so neither use exposes the other
+ */
+function getKeys() {
+  if (keys) return keys
+
+  const masterKey = Buffer.from(process.env.FIELD_ENCRYPTION_KEY ?? "", "base64")
+  if (masterKey.length !== 32) {
+    throw new Error("FIELD_ENCRYPTION_KEY must be set to 32 bytes encoded as base64")
+  }
+
+  const derive = (purpose: string) => Buffer.from(hkdfSync("sha256", masterKey, Buffer.alloc(0), purpose, 32))
+  keys = { wrapping: derive("field-encryption:wrapping"), index: derive("field-encryption:blind-index") }
+  return keys
+}
+
+// AES-256-GCM: 12-byte IV, then the 16-byte auth tag, then the ciphertext
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext])
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = createDecipheriv("aes-256-gcm", key, sealed.subarray(0, 12))
+  decipher.setAuthTag(sealed.subarray(12, 28))
+  return Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()])
+}
+
+export const isEncrypted = (value: string) => value.startsWith(ENCRYPTED_FIELD_PREFIX)
+
+/**
+ * Envelope encryption: the value is sealed with a fresh data key, stored wrapped by the key from env
+ */
+export function encryptField(value: string): string {
+  const dataKey = randomBytes(32)
+  const wrappedKey = seal(getKeys().wrapping, dataKey)
+  const sealedValue = seal(dataKey, Buffer.from(value, "utf8"))
+  return `${ENCRYPTED_FIELD_PREFIX}${wrappedKey.toString("base64url")}.${sealedValue.toString("base64url")}`
+}
+
+/**
+ * Plaintext of a stored value; a value not yet migrated is returned as it is
+ */
+export function decryptField(value: string | null): string | null {
+  if (!value || !isEncrypted(value)) return value
+
+  const [wrappedKey, sealedValue] = value.slice(ENCRYPTED_FIELD_PREFIX.length).split(".")
+  const dataKey = open(getKeys().wrapping, Buffer.from(wrappedKey, "base64url"))
+  return open(dataKey, Buffer.from(sealedValue, "base64url")).toString("utf8")
+}
+
+/**
+ * Deterministic keyed hash of the normalized value, for uniqueness checks and lookups
+ */
+export function blindIndex(field: SensitiveField, value: string): string {
+  return createHmac("sha256", getKeys().index)
+    .update(`${field}:${normalizeSensitiveValue(field, value)}`)
+    .digest("hex")
+}
+
+/**
+ * Columns to store for a sensitive value: the normalized value encrypted and its blind index
+ * An empty value clears both
+ */
+export function protectField(field: SensitiveField, value: string | null | undefined) {
+  const normalized = value ? normalizeSensitiveValue(field, value) : ""
+  if (!normalized) return { value: null, index: null }
+  return { value: encryptField(normalized), index: blindIndex(field, normalized) }
+}
+
+/**
+ * All but the last few characters hidden, e.g. "••••••1234"
+ */
+export function maskValue(value: string | null): string | null {
+  if (!value) return null
+  const visible = value.length > MASK_VISIBLE_CHARS ? value.slice(-MASK_VISIBLE_CHARS) : ""
+  return `${"•".repeat(Math.max(value.length - visible.length, 4))}${visible}`
+}
+
+/**
+ * Masked plaintext of a stored value, as API responses return it
+ */
+export const maskField = (value: string | null) => maskValue(decryptField(value))
+
+/**
+ * Loan columns for an account number sent by the client
+ * - Undefined, or the masked value sent back unchanged, keeps the stored number
+ */
+export function loanAccountNumberData(value: string | null | undefined) {
+  if (value === undefined || value?.includes("•")) return {}
+  const { value: accountNumber, index: accountNumberIndex } = protectField("accountNumber", value)
+  return { accountNumber, accountNumberIndex }
+}
+
+/**
+ * A loan as API responses return it: the account number masked and its blind index left out
+ */
+export function withMaskedAccountNumber<T extends { accountNumber: string | null; accountNumberIndex: string | null }>(loan: T) {
+  return { ...omitFields(loan, "accountNumberIndex"), accountNumber: maskField(loan.accountNumber) }
+}
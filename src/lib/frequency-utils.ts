@@ -1,4 +1,4 @@
-import { SIPFrequency } from "@/types/investment"
+import { SIPFrequency, SIPInstalmentStatus, SIPScheduleAdjustments, SIPStepUpType } from "@/types/investment"
 
 /**
  * Convert any SIP frequency amount to monthly equivalent
@@ -108,14 +108,46 @@ export function convertFromMonthlyAmount(monthlyAmount: number, frequency: SIPFr
 
 /**
  * Calculate the amount that will be invested in a specific month for a SIP
+ * With adjustments, instalments that are paused or skipped count as zero and the rest are
+ * stepped up; pass the amount in the SIP's own currency so amount step-ups add up correctly
  * @param amount - The SIP amount
  * @param frequency - The SIP frequency
  * @param startDate - The SIP start date
  * @param targetMonth - The target month (0-11)
  * @param targetYear - The target year
+ * @param adjustments - Step-up, pauses and skips of the SIP
  * @returns The amount that will be invested in the target month
  */
 export function getAmountForMonth(
+  amount: number,
+  frequency: SIPFrequency,
+  startDate: Date,
+  targetMonth: number,
+  targetYear: number,
+  adjustments?: SIPScheduleAdjustments
+): number {
+  const baseAmount = getBaseAmountForMonth(amount, frequency, startDate, targetMonth, targetYear)
+  if (!adjustments || baseAmount === 0 || amount === 0) return baseAmount
+
+  // Scale the month's amount by the share of its instalments that go ahead, at their stepped-up amount
+  const instalments = getOccurrencesBetween(
+    startDate,
+    frequency,
+    new Date(targetYear, targetMonth, 1),
+    new Date(targetYear, targetMonth + 1, 0),
+    adjustments.customDay
+  )
+  if (instalments.length === 0) return baseAmount
+
+  const factor = instalments.reduce((sum, date) => {
+    if (getInstalmentStatus(date, adjustments) !== "SCHEDULED") return sum
+    return sum + getSteppedUpAmount(amount, startDate, date, adjustments.stepUpType, adjustments.stepUpValue) / amount
+  }, 0) / instalments.length
+
+  return baseAmount * factor
+}
+
+function getBaseAmountForMonth(
   amount: number,
   frequency: SIPFrequency,
   startDate: Date,
@@ -151,3 +183,201 @@ export function getAmountForMonth(
       return amount
   }
 }
+
+/**
+ * Get the date of the nth occurrence (0-based) of a schedule
+ * Follows the SIP schedule: weekly repeats every 7 days from the start, monthly-style
+ * frequencies keep the start date's day (clamped to the month's last day) and CUSTOM
+ * repeats monthly on customDay from the first such day on or after the start
+ * @param startDate - The first occurrence
+ * @param frequency - The schedule frequency
+ * @param index - The occurrence number (0 is the first occurrence)
+ * @param customDay - Day of month for CUSTOM schedules
+ * @returns The occurrence date (local midnight)
+ */
+export function getOccurrenceDate(
+  startDate: Date,
+  frequency: SIPFrequency,
+  index: number,
+  customDay?: number | null
+): Date {
+  const start = new Date(startDate)
+  const year = start.getFullYear()
+  const month = start.getMonth()
+  const day = start.getDate()
+
+  const onDay = (targetYear: number, targetMonth: number, targetDay: number) => {
+    const lastDay = new Date(targetYear, targetMonth + 1, 0).getDate()
+    return new Date(targetYear, targetMonth, Math.min(targetDay, lastDay))
+  }
+
+  switch (frequency) {
+    case "DAILY":
+      return new Date(year, month, day + index)
+    case "WEEKLY":
+      return new Date(year, month, day + index * 7)
+    case "MONTHLY":
+      return onDay(year, month + index, day)
+    case "QUARTERLY":
+      return onDay(year, month + index * 3, day)
+    case "HALF_YEARLY":
+      return onDay(year, month + index * 6, day)
+    case "YEARLY":
+      return onDay(year, month + index * 12, day)
+    case "CUSTOM": {
+      const targetDay = customDay || day
+      const firstMonth = month + (targetDay >= day ? 0 : 1)
+      return onDay(year, firstMonth + index, targetDay)
+    }
+    default:
+      return onDay(year, month + index, day)
+  }
+}
+
+/**
+ * Get the first occurrence of a schedule on or after a date
+ * @param startDate - The first occurrence
+ * @param frequency - The schedule frequency
+ * @param onOrAfter - The earliest date to return
+ * @param customDay - Day of month for CUSTOM schedules
+ * @returns The next occurrence date (local midnight)
+ */
+export function getNextOccurrence(
+  startDate: Date,
+  frequency: SIPFrequency,
+  onOrAfter: Date,
+  customDay?: number | null
+): Date {
+  return getOccurrenceDate(startDate, frequency, getNextOccurrenceIndex(startDate, frequency, onOrAfter, customDay), customDay)
+}
+
+/**
+ * Get the last occurrence of a schedule on or before a date
+ * @param startDate - The first occurrence
+ * @param frequency - The schedule frequency
+ * @param onOrBefore - The latest date to return
+ * @param customDay - Day of month for CUSTOM schedules
+ * @returns The occurrence date (local midnight), or null before the first occurrence
+ */
+export function getLatestOccurrence(
+  startDate: Date,
+  frequency: SIPFrequency,
+  onOrBefore: Date,
+  customDay?: number | null
+): Date | null {
+  const day = new Date(onOrBefore.getFullYear(), onOrBefore.getMonth(), onOrBefore.getDate())
+  const index = getNextOccurrenceIndex(startDate, frequency, day, customDay)
+  const next = getOccurrenceDate(startDate, frequency, index, customDay)
+  if (next.getTime() === day.getTime()) return next
+  return index > 0 ? getOccurrenceDate(startDate, frequency, index - 1, customDay) : null
+}
+
+/**
+ * Get every occurrence of a schedule between two dates (both inclusive)
+ * @param startDate - The first occurrence
+ * @param frequency - The schedule frequency
+ * @param from - The earliest date to return
+ * @param to - The latest date to return
+ * @param customDay - Day of month for CUSTOM schedules
+ * @returns The occurrence dates (local midnight) in order
+ */
+export function getOccurrencesBetween(
+  startDate: Date,
+  frequency: SIPFrequency,
+  from: Date,
+  to: Date,
+  customDay?: number | null
+): Date[] {
+  const occurrences: Date[] = []
+  let index = getNextOccurrenceIndex(startDate, frequency, from, customDay)
+  let occurrence = getOccurrenceDate(startDate, frequency, index, customDay)
+
+  while (occurrence <= to) {
+    occurrences.push(occurrence)
+    index++
+    occurrence = getOccurrenceDate(startDate, frequency, index, customDay)
+  }
+
+  return occurrences
+}
+
+/**
+ * Get a SIP amount on a date after its yearly step-ups
+ * The amount rises on every anniversary of the start date; percent step-ups compound
+ * @param amount - The SIP amount before any step-up
+ * @param startDate - The SIP start date
+ * @param date - The instalment date
+ * @param stepUpType - PERCENT or AMOUNT (none when null)
+ * @param stepUpValue - The percent, or the amount added each year
+ * @returns The stepped-up amount
+ */
+export function getSteppedUpAmount(
+  amount: number,
+  startDate: Date,
+  date: Date,
+  stepUpType?: SIPStepUpType | null,
+  stepUpValue?: number | null
+): number {
+  if (!stepUpType || !stepUpValue) return amount
+
+  const start = new Date(startDate)
+  const beforeAnniversary = date.getMonth() < start.getMonth() ||
+    (date.getMonth() === start.getMonth() && date.getDate() < start.getDate())
+  const years = date.getFullYear() - start.getFullYear() - (beforeAnniversary ? 1 : 0)
+  if (years <= 0) return amount
+
+  return stepUpType === "PERCENT"
+    ? amount * Math.pow(1 + stepUpValue / 100, years)
+    : amount + stepUpValue * years
+}
+
+/**
+ * Get whether a SIP instalment goes ahead, falls in a pause or was skipped
+ * Dates are compared by calendar day; pause ranges include both ends
+ * @param date - The instalment date
+ * @param adjustments - Pauses and skips of the SIP
+ * @returns The instalment status
+ */
+export function getInstalmentStatus(date: Date, adjustments: SIPScheduleAdjustments): SIPInstalmentStatus {
+  const day = toDayValue(date)
+  if (adjustments.skips?.some(skip => toDayValue(skip) === day)) return "SKIPPED"
+  if (adjustments.pauses?.some(pause => toDayValue(pause.startDate) <= day && day <= toDayValue(pause.endDate))) {
+    return "PAUSED"
+  }
+  return "SCHEDULED"
+}
+
+const toDayValue = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+
+function getNextOccurrenceIndex(
+  startDate: Date,
+  frequency: SIPFrequency,
+  onOrAfter: Date,
+  customDay?: number | null
+): number {
+  const start = new Date(startDate)
+  const target = new Date(onOrAfter.getFullYear(), onOrAfter.getMonth(), onOrAfter.getDate())
+
+  // Estimate the occurrence index, then step forward to the exact occurrence
+  const daysSinceStart = Math.floor((target.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
+  const monthsSinceStart = (target.getFullYear() - start.getFullYear()) * 12 + (target.getMonth() - start.getMonth())
+  const monthsPerOccurrence = 12 / getOccurrencesPerYear(frequency)
+
+  let index = 0
+  if (frequency === "DAILY") {
+    index = daysSinceStart - 1
+  } else if (frequency === "WEEKLY") {
+    index = Math.floor(daysSinceStart / 7) - 1
+  } else {
+    index = Math.floor(monthsSinceStart / monthsPerOccurrence) - 1
+  }
+  index = Math.max(0, index)
+
+  let occurrence = getOccurrenceDate(start, frequency, index, customDay)
+  while (occurrence < target) {
+    index++
+    occurrence = getOccurrenceDate(start, frequency, index, customDay)
+  }
+
+  return index
+}
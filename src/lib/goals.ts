@@ -0,0 +1,319 @@
+import { prisma } from "@/lib/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import { convertToMonthlyAmount } from "@/lib/frequency-utils"
+import { createSeededRandom } from "@/lib/random"
+import {
+  BUCKET_LABELS,
+  BUCKET_VOLATILITY_PERCENT,
+  DEFAULT_VOLATILITY_PERCENT,
+  GOAL_AT_RISK_PROBABILITY,
+  GOAL_ON_TRACK_PROBABILITY,
+  GOAL_SIMULATION_PATHS,
+} from "@/constants"
+import type {
+  CurrencyConverter,
+  Goal,
+  GoalEarmark,
+  GoalEarmarkOption,
+  GoalProgress,
+  GoalStatus,
+  InvestmentBucket,
+} from "@/types"
+
+const EMERGENCY_FUND_ID = "EMERGENCY_FUND"
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+interface GoalProgressInput {
+  targetAmount: number
+  targetDate: Date
+  inflationRate: number
+  expectedReturn: number
+  currentValue: number
+  monthlyContribution: number
+  volatility: number
+  seed: string
+}
+
+// Whole months from one date to another, never negative
+function monthsBetween(from: Date, to: Date): number {
+  const months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth())
+  return Math.max(0, to.getDate() < from.getDate() ? months - 1 : months)
+}
+
+/**
+ * Probability (percent) of reaching a target over a number of months
+ * Each path invests the monthly contribution at the start of every month and grows at a
+ * lognormal monthly return matching the expected annual return and volatility
+ */
+export function simulateGoalProbability(
+  currentValue: number,
+  monthlyContribution: number,
+  months: number,
+  target: number,
+  expectedReturn: number,
+  volatility: number,
+  seed: string,
+  paths: number = GOAL_SIMULATION_PATHS
+): number {
+  if (months <= 0) return currentValue >= target ? 100 : 0
+
+  const random = createSeededRandom(seed)
+  const sigma = volatility / 100 / Math.sqrt(12)
+  const mu = Math.log(1 + expectedReturn / 100) / 12 - (sigma * sigma) / 2
+
+  let reached = 0
+  for (let path = 0; path < paths; path++) {
+    let value = currentValue
+    for (let month = 0; month < months; month++) {
+      value = (value + monthlyContribution) * Math.exp(mu + sigma * random.normal())
+    }
+    if (value >= target) reached++
+  }
+  return round2((reached / paths) * 100)
+}
+
+/**
+ * Progress of a goal towards its inflation-adjusted target
+ * - The target grows by inflation until the target date
+ * - Projections grow the current value and monthly SIPs (invested at the start of each month)
+ *   at the expected return
+ * - The required SIP is the monthly investment that closes the gap left by the current value
+ */
+export function calculateGoalProgress(input: GoalProgressInput, asOf: Date = new Date()): GoalProgress {
+  const monthsLeft = monthsBetween(asOf, input.targetDate)
+  const inflatedTarget = input.targetAmount * Math.pow(1 + input.inflationRate / 100, monthsLeft / 12)
+
+  const monthlyRate = Math.pow(1 + input.expectedReturn / 100, 1 / 12) - 1
+  const growth = Math.pow(1 + monthlyRate, monthsLeft)
+  const annuityFactor = monthlyRate > 0 ? ((growth - 1) / monthlyRate) * (1 + monthlyRate) : monthsLeft
+
+  const grownValue = input.currentValue * growth
+  const projectedValue = grownValue + input.monthlyContribution * annuityFactor
+  const requiredMonthlySip = annuityFactor > 0 ? Math.max(0, (inflatedTarget - grownValue) / annuityFactor) : 0
+
+  const probability = simulateGoalProbability(
+    input.currentValue,
+    input.monthlyContribution,
+    monthsLeft,
+    inflatedTarget,
+    input.expectedReturn,
+    input.volatility,
+    input.seed
+  )
+
+  let status: GoalStatus
+  if (input.currentValue >= inflatedTarget) {
+    status = "ACHIEVED"
+  } else if (probability >= GOAL_ON_TRACK_PROBABILITY) {
+    status = "ON_TRACK"
+  } else if (probability >= GOAL_AT_RISK_PROBABILITY) {
+    status = "AT_RISK"
+  } else {
+    status = "OFF_TRACK"
+  }
+
+  return {
+    monthsLeft,
+    inflatedTarget: round2(inflatedTarget),
+    currentValue: round2(input.currentValue),
+    monthlyContribution: round2(input.monthlyContribution),
+    projectedValue: round2(projectedValue),
+    progressPercent: inflatedTarget > 0 ? round2(Math.min(100, (input.currentValue / inflatedTarget) * 100)) : 100,
+    requiredMonthlySip: round2(requiredMonthlySip),
+    additionalMonthlySip: round2(Math.max(0, requiredMonthlySip - input.monthlyContribution)),
+    shortfall: round2(Math.max(0, inflatedTarget - projectedValue)),
+    probability,
+    volatility: round2(input.volatility),
+    status,
+  }
+}
+
+// Current value of each holding and the emergency fund, and the monthly amount of each active SIP, in the base currency
+async function getEarmarkableValues(userId: string, converter: CurrencyConverter) {
+  const [holdings, sips] = await Promise.all([
+    prisma.holding.findMany({
+      where: { userId, qty: { gt: 0 } },
+      select: { id: true, bucket: true, symbol: true, name: true, qty: true, avgCost: true, currentPrice: true, currency: true, inrRate: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.sIP.findMany({
+      where: { userId, isActive: true },
+      select: { id: true, name: true, amount: true, frequency: true, currency: true, amountInINR: true, bucket: true },
+      orderBy: { name: "asc" },
+    }),
+  ])
+
+  const holdingValues = new Map(holdings.map(holding => {
+    const price = holding.currentPrice != null ? Number(holding.currentPrice) : Number(holding.avgCost)
+    return [holding.id, {
+      label: `${holding.name} (${BUCKET_LABELS[holding.bucket] ?? holding.bucket})`,
+      bucket: holding.bucket as InvestmentBucket,
+      value: converter.convert(Number(holding.qty) * price, holding.currency, undefined, holding.inrRate ? Number(holding.inrRate) : null),
+    }]
+  }))
+
+  const sipAmounts = new Map(sips.map(sip => {
+    // SIPs with an INR amount are debited in INR
+    const amount = converter.convert(Number(sip.amount), sip.amountInINR ? "INR" : sip.currency)
+    return [sip.id, {
+      label: sip.name,
+      bucket: sip.bucket as InvestmentBucket | null,
+      monthly: convertToMonthlyAmount(amount, sip.frequency),
+    }]
+  }))
+
+  const emergencyFund = [...holdingValues.values()]
+    .filter(holding => holding.bucket === "EMERGENCY_FUND")
+    .reduce((sum, holding) => sum + holding.value, 0)
+
+  return { holdingValues, sipAmounts, emergencyFund }
+}
+
+/**
+ * A user's goals with their earmarks valued and progress calculated, highest priority and nearest first
+ */
+export async function getGoalsWithProgress(userId: string, asOf: Date = new Date()): Promise<Goal[]> {
+  const converter = await getUserCurrencyConverter(userId)
+  const [goals, values] = await Promise.all([
+    prisma.goal.findMany({
+      where: { userId },
+      include: { earmarks: true },
+      orderBy: [{ isActive: "desc" }, { priority: "asc" }, { targetDate: "asc" }],
+    }),
+    getEarmarkableValues(userId, converter),
+  ])
+
+  return goals.map(goal => {
+    const weights: { volatility: number; weight: number }[] = []
+    const monthsLeft = monthsBetween(asOf, goal.targetDate)
+
+    const earmarks: GoalEarmark[] = goal.earmarks.map(earmark => {
+      const share = Number(earmark.percent) / 100
+
+      if (earmark.holdingId) {
+        const holding = values.holdingValues.get(earmark.holdingId)
+        const currentValue = (holding?.value ?? 0) * share
+        if (holding) weights.push({ volatility: BUCKET_VOLATILITY_PERCENT[holding.bucket] ?? DEFAULT_VOLATILITY_PERCENT, weight: currentValue })
+        return { id: earmark.id, type: "HOLDING", holdingId: earmark.holdingId, sipId: null, label: holding?.label ?? "Sold holding", percent: Number(earmark.percent), currentValue: round2(currentValue), monthlyContribution: 0 }
+      }
+
+      if (earmark.sipId) {
+        const sip = values.sipAmounts.get(earmark.sipId)
+        const monthlyContribution = (sip?.monthly ?? 0) * share
+        if (sip) weights.push({ volatility: sip.bucket ? BUCKET_VOLATILITY_PERCENT[sip.bucket] : DEFAULT_VOLATILITY_PERCENT, weight: monthlyContribution * monthsLeft })
+        return { id: earmark.id, type: "SIP", holdingId: null, sipId: earmark.sipId, label: sip?.label ?? "Inactive SIP", percent: Number(earmark.percent), currentValue: 0, monthlyContribution: round2(monthlyContribution) }
+      }
+
+      const currentValue = values.emergencyFund * share
+      weights.push({ volatility: BUCKET_VOLATILITY_PERCENT.EMERGENCY_FUND, weight: currentValue })
+      return { id: earmark.id, type: "EMERGENCY_FUND", holdingId: null, sipId: null, label: BUCKET_LABELS.EMERGENCY_FUND, percent: Number(earmark.percent), currentValue: round2(currentValue), monthlyContribution: 0 }
+    })
+
+    const totalWeight = weights.reduce((sum, item) => sum + item.weight, 0)
+    const volatility = totalWeight > 0
+      ? weights.reduce((sum, item) => sum + item.volatility * item.weight, 0) / totalWeight
+      : DEFAULT_VOLATILITY_PERCENT
+
+    const progress = calculateGoalProgress({
+      targetAmount: Number(goal.targetAmount),
+      targetDate: goal.targetDate,
+      inflationRate: Number(goal.inflationRate),
+      expectedReturn: Number(goal.expectedReturn),
+      currentValue: earmarks.reduce((sum, earmark) => sum + earmark.currentValue, 0),
+      monthlyContribution: earmarks.reduce((sum, earmark) => sum + earmark.monthlyContribution, 0),
+      volatility,
+      seed: goal.id,
+    }, asOf)
+
+    return {
+      id: goal.id,
+      name: goal.name,
+      category: goal.category,
+      targetAmount: Number(goal.targetAmount),
+      targetDate: goal.targetDate.toISOString(),
+      inflationRate: Number(goal.inflationRate),
+      expectedReturn: Number(goal.expectedReturn),
+      priority: goal.priority,
+      notes: goal.notes,
+      isActive: goal.isActive,
+      earmarks,
+      progress,
+    }
+  })
+}
+
+/**
+ * Holdings, active SIPs and the emergency fund a goal can earmark, with the share other goals use
+ */
+export async function getGoalEarmarkOptions(userId: string, excludeGoalId?: string): Promise<GoalEarmarkOption[]> {
+  const converter = await getUserCurrencyConverter(userId)
+  const [values, earmarks] = await Promise.all([
+    getEarmarkableValues(userId, converter),
+    prisma.goalEarmark.findMany({
+      where: { goal: { userId, isActive: true }, ...(excludeGoalId && { goalId: { not: excludeGoalId } }) },
+      select: { holdingId: true, sipId: true, emergencyFund: true, percent: true },
+    }),
+  ])
+
+  const used = new Map<string, number>()
+  for (const earmark of earmarks) {
+    const key = earmark.holdingId ?? earmark.sipId ?? EMERGENCY_FUND_ID
+    used.set(key, (used.get(key) ?? 0) + Number(earmark.percent))
+  }
+
+  const options: GoalEarmarkOption[] = []
+  if (values.emergencyFund > 0) {
+    options.push({ type: "EMERGENCY_FUND", id: EMERGENCY_FUND_ID, label: BUCKET_LABELS.EMERGENCY_FUND, value: round2(values.emergencyFund), earmarkedPercent: used.get(EMERGENCY_FUND_ID) ?? 0 })
+  }
+  for (const [id, holding] of values.holdingValues) {
+    if (holding.bucket === "EMERGENCY_FUND") continue
+    options.push({ type: "HOLDING", id, label: holding.label, value: round2(holding.value), earmarkedPercent: used.get(id) ?? 0 })
+  }
+  for (const [id, sip] of values.sipAmounts) {
+    options.push({ type: "SIP", id, label: sip.label, value: round2(sip.monthly), earmarkedPercent: used.get(id) ?? 0 })
+  }
+  return options
+}
+
+/**
+ * Check a goal's earmarks before saving: each must be the user's own, and no holding, SIP or
+ * the emergency fund can be earmarked beyond 100% across active goals
+ * Returns an error message, or null when the earmarks are valid
+ */
+export async function validateGoalEarmarks(
+  userId: string,
+  goalId: string | null,
+  earmarks: { type: GoalEarmark["type"]; id: string; percent: number }[]
+): Promise<string | null> {
+  const keys = earmarks.map(earmark => earmark.id)
+  if (new Set(keys).size !== keys.length) {
+    return "Each holding, SIP or the emergency fund can only be earmarked once per goal"
+  }
+
+  const options = await getGoalEarmarkOptions(userId, goalId ?? undefined)
+  const byId = new Map(options.map(option => [option.id, option]))
+
+  for (const earmark of earmarks) {
+    const option = byId.get(earmark.id)
+    if (!option || option.type !== earmark.type) {
+      return "Earmarked holding or SIP not found"
+    }
+    if (option.earmarkedPercent + earmark.percent > 100.005) {
+      return `${option.label} is already ${option.earmarkedPercent}% earmarked to other goals`
+    }
+  }
+  return null
+}
+
+/**
+ * Earmark rows for a goal from the ids chosen in the form
+ */
+export function toEarmarkRows(earmarks: { type: GoalEarmark["type"]; id: string; percent: number }[]) {
+  return earmarks.map(earmark => ({
+    holdingId: earmark.type === "HOLDING" ? earmark.id : null,
+    sipId: earmark.type === "SIP" ? earmark.id : null,
+    emergencyFund: earmark.type === "EMERGENCY_FUND",
+    percent: earmark.percent,
+  }))
+}
@@ -0,0 +1,125 @@
+import { prisma } from "@/lib/prisma"
+import { recordAudit, type AuditActor } from "@/lib/audit"
+import { getCurrentPrice } from "@/lib/market-data"
+import { getInrRateOn } from "@/lib/currency"
+import type { InvestmentBucket } from "@/types"
+
+interface OneTimePurchase {
+  bucket: InvestmentBucket
+  symbol: string
+  name: string
+  qty: number
+  buyPrice: number
+  date: Date
+  description?: string
+  currency: string
+  transactionType?: "ONE_TIME_PURCHASE" | "SIP_EXECUTION" // Imported SIP instalments keep their type
+}
+
+/**
+ * Record a one-time purchase
+ * - Adds to the holding of the same bucket and symbol at a weighted average cost, or creates one
+ * - Refreshes the holding's current price when a quote is available
+ * - Tracks a ONE_TIME_PURCHASE transaction (or the given type), with the INR rate of the purchase date
+ *   for other currencies
+ */
+export async function recordOneTimePurchase(userId: string, purchase: OneTimePurchase, actor: AuditActor) {
+  const amount = purchase.qty * purchase.buyPrice
+
+  // Normalize symbol for consistent matching (trim and uppercase)
+  const normalizedSymbol = purchase.symbol.trim().toUpperCase()
+
+  const existingHolding = await prisma.holding.findFirst({
+    where: {
+      userId,
+      bucket: purchase.bucket,
+      symbol: {
+        equals: normalizedSymbol,
+        mode: "insensitive",
+      },
+    },
+  })
+
+  let currentPrice: number | null = null
+  try {
+    currentPrice = await getCurrentPrice(purchase.symbol, purchase.bucket, purchase.currency)
+  } catch (error) {
+    console.error("Failed to fetch current price:", error)
+    // Continue without current price
+  }
+
+  let holding
+  if (existingHolding) {
+    // Calculate weighted average cost
+    const oldQty = Number(existingHolding.qty)
+    const oldAvgCost = Number(existingHolding.avgCost)
+    const totalQty = oldQty + purchase.qty
+    const newAvgCost = (oldQty * oldAvgCost + purchase.qty * purchase.buyPrice) / totalQty
+
+    holding = await prisma.holding.update({
+      where: { id: existingHolding.id },
+      data: {
+        qty: totalQty,
+        avgCost: newAvgCost,
+        currentPrice: currentPrice,
+        updatedAt: new Date(),
+      },
+    })
+    await recordAudit(prisma, actor, {
+      entity: "HOLDING",
+      entityId: holding.id,
+      action: "UPDATE",
+      operation: "buy",
+      before: existingHolding,
+      after: holding,
+      userId,
+    })
+  } else {
+    holding = await prisma.holding.create({
+      data: {
+        userId,
+        bucket: purchase.bucket,
+        symbol: normalizedSymbol,
+        name: purchase.name,
+        qty: purchase.qty,
+        avgCost: purchase.buyPrice,
+        currentPrice: currentPrice,
+        currency: purchase.currency,
+        isManual: false,
+      },
+    })
+    await recordAudit(prisma, actor, { entity: "HOLDING", entityId: holding.id, action: "CREATE", after: holding, userId })
+  }
+
+  // INR exchange rate of the purchase date if the purchase is not in INR
+  let inrRate: number | null = null
+  let amountInr: number | null = null
+  if (purchase.currency !== "INR") {
+    inrRate = await getInrRateOn(purchase.currency, purchase.date)
+    if (inrRate) {
+      amountInr = amount * inrRate
+    }
+  }
+
+  const transaction = await prisma.transaction.create({
+    data: {
+      userId,
+      holdingId: holding.id,
+      bucket: purchase.bucket,
+      symbol: normalizedSymbol,
+      name: purchase.name,
+      qty: purchase.qty,
+      price: purchase.buyPrice,
+      amount: amount,
+      currency: purchase.currency,
+      amountInr: amountInr,
+      transactionType: purchase.transactionType ?? "ONE_TIME_PURCHASE",
+      purchaseDate: purchase.date,
+      description: purchase.description,
+      inrRate: inrRate,
+    },
+  })
+  await recordAudit(prisma, actor, { entity: "TRANSACTION", entityId: transaction.id, action: "CREATE", after: transaction, userId })
+
+  return holding
+}
@@ -0,0 +1,152 @@
+import { prisma } from "@/lib/prisma"
+import { recordAudit, type AuditActor } from "@/lib/audit"
+import type { Holding } from "@/generated/prisma"
+import { computeSaleLots, getOpenLots } from "@/lib/capital-gains"
+import { getFinancialYear } from "@/lib/tax-calculator"
+import { getInrRateOn } from "@/lib/currency"
+
+const QTY_EPSILON = 1e-9
+
+interface Sale {
+  qty: number
+  price: number
+  soldOn: Date
+  inrRate: number | null // INR per unit of the holding's currency on the sale date; looked up when null for non-INR holdings
+  fmvJan2018?: number | null
+  description?: string
+}
+
+/**
+ * Record a sale of part or all of a holding
+ * - Matches the units FIFO against lots acquired on or before the sale date and books a
+ *   capital gain lot for each
+ * - Values the remaining position at the cost of the lots still open; a holding sold in full is deleted
+ * - Runs in one transaction holding the row of the holding, so concurrent sales of it cannot
+ *   match the same lots
+ * Throws when fewer units are held than are sold, fewer were held on the sale date, or no rate is stored for it
+ */
+export async function recordSale(userId: string, holding: Holding, sale: Sale, actor: AuditActor) {
+  if (holding.currency !== "INR" && !sale.inrRate) {
+    const inrRate = await getInrRateOn(holding.currency, sale.soldOn)
+    if (!inrRate) throw new Error(`No ${holding.currency}/INR rate is stored for the sale date`)
+    sale = { ...sale, inrRate }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Locks the holding until commit; a concurrent sale waits here and then sees the quantity this one left
+    const { count } = await tx.holding.updateMany({
+      where: { id: holding.id, qty: { gte: sale.qty - QTY_EPSILON } },
+      data: { updatedAt: new Date() },
+    })
+    if (count === 0) throw new Error("Fewer units are held than are sold")
+
+    const current = await tx.holding.findUniqueOrThrow({ where: { id: holding.id } })
+    const holdingQty = Number(current.qty)
+
+    // Only lots acquired on or before the sale date can be sold
+    const openLots = await getOpenLots(current, tx)
+    const eligibleLots = openLots.filter(lot => lot.acquiredOn <= sale.soldOn)
+    const laterLots = openLots.filter(lot => lot.acquiredOn > sale.soldOn)
+    const eligibleQty = eligibleLots.reduce((sum, lot) => sum + lot.qty, 0)
+
+    if (sale.qty > eligibleQty + QTY_EPSILON) {
+      throw new Error(`Only ${eligibleQty} units were held on the sale date`)
+    }
+
+    const fmvJan2018 = sale.fmvJan2018 ?? (current.fmvJan2018 ? Number(current.fmvJan2018) : null)
+    const { matched, remaining } = computeSaleLots(eligibleLots, {
+      bucket: current.bucket,
+      qty: sale.qty,
+      price: sale.price,
+      inrRate: sale.inrRate,
+      soldOn: sale.soldOn,
+      fmvJan2018,
+    })
+
+    const saleAmount = sale.qty * sale.price
+    const costBasis = matched.reduce((sum, lot) => sum + lot.qty * lot.price, 0)
+    const realizedGain = matched.reduce((sum, lot) => sum + lot.gain, 0)
+    const financialYear = getFinancialYear(sale.soldOn)
+
+    // Remaining position is valued at the cost of the lots still open
+    const remainingLots = [...remaining, ...laterLots]
+    const newQty = holdingQty - sale.qty
+    const remainingCost = remainingLots.reduce((sum, lot) => sum + lot.qty * lot.price, 0)
+    const remainingQty = remainingLots.reduce((sum, lot) => sum + lot.qty, 0)
+    const newAvgCost = remainingQty > 0 ? remainingCost / remainingQty : Number(current.avgCost)
+
+    let newInrRate = current.inrRate ? Number(current.inrRate) : null
+    if (current.currency !== "INR" && remainingCost > 0 && remainingLots.every(lot => lot.inrRate)) {
+      newInrRate = remainingLots.reduce((sum, lot) => sum + lot.qty * lot.price * (lot.inrRate ?? 0), 0) / remainingCost
+    }
+
+    const holdingDeleted = newQty <= QTY_EPSILON
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId,
+        holdingId: current.id,
+        bucket: current.bucket,
+        symbol: current.symbol,
+        name: current.name,
+        qty: sale.qty,
+        price: sale.price,
+        amount: saleAmount,
+        currency: current.currency,
+        amountInr: sale.inrRate ? saleAmount * sale.inrRate : null,
+        transactionType: "SELL",
+        purchaseDate: sale.soldOn,
+        description: sale.description || "Sold",
+        inrRate: sale.inrRate,
+        costBasis,
+        realizedGain,
+        capitalGainLots: {
+          create: matched.map(lot => ({
+            userId,
+            buyTransactionId: lot.buyTransactionId,
+            bucket: current.bucket,
+            symbol: current.symbol,
+            name: current.name,
+            qty: lot.qty,
+            acquiredOn: lot.acquiredOn,
+            soldOn: sale.soldOn,
+            financialYear,
+            costOfAcquisition: lot.costOfAcquisition,
+            fmvJan2018: lot.fmvJan2018,
+            costForTax: lot.costForTax,
+            saleValue: lot.saleValue,
+            gain: lot.gain,
+            term: lot.term,
+            holdingDays: lot.holdingDays,
+          })),
+        },
+      },
+    })
+
+    const savedHolding = holdingDeleted
+      ? await tx.holding.delete({ where: { id: current.id } })
+      : await tx.holding.update({
+          where: { id: current.id },
+          data: {
+            qty: newQty,
+            avgCost: newAvgCost,
+            inrRate: newInrRate,
+            fmvJan2018: fmvJan2018 ?? undefined,
+            updatedAt: new Date(),
+          },
+        })
+
+    await recordAudit(tx, actor, { entity: "TRANSACTION", entityId: transaction.id, action: "CREATE", after: transaction, userId })
+    await recordAudit(tx, actor, {
+      entity: "HOLDING",
+      entityId: current.id,
+      action: holdingDeleted ? "DELETE" : "UPDATE",
+      operation: "sell",
+      before: current,
+      after: holdingDeleted ? null : savedHolding,
+      userId,
+    })
+
+    return { transaction, lots: matched, realizedGain, holdingDeleted }
+  })
+}
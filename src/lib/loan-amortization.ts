@@ -0,0 +1,232 @@
+/**
+ * Loan Amortization Utility
+ * Builds a full EMI schedule with principal/interest splits, replaying
+ * part-prepayments and floating rate revisions in date order
+ */
+
+import { calculateEMI, calculateTenure, getPaymentsPerYear } from "@/lib/emi-calculator"
+import { LOAN_SCHEDULE_MAX_INSTALLMENTS } from "@/constants"
+import type { EMIFrequency } from "@/constants"
+import type { LoanAdjustmentStrategy, LoanEventType } from "@/types"
+
+export interface ScheduleEvent {
+  type: LoanEventType
+  effectiveDate: Date
+  amount?: number | null
+  interestRate?: number | null
+  tenure?: number | null
+  emiAmount?: number | null
+  strategy: LoanAdjustmentStrategy
+}
+
+export interface ScheduleInstallment {
+  dueDate: Date
+  paidAmount?: number | null
+}
+
+export interface AmortizationInput {
+  principalAmount: number
+  interestRate: number // Annual interest rate in percentage at disbursal
+  emiAmount: number
+  frequency: EMIFrequency
+  startDate: Date
+  installments: ScheduleInstallment[] // Existing EMI rows in due date order
+  plannedInstallments?: number // Installments at disbursal; defaults to the number of EMI rows
+  events: ScheduleEvent[]
+  asOf?: Date
+}
+
+export interface ScheduleRow {
+  installment: number
+  dueDate: Date
+  interestRate: number
+  openingBalance: number
+  prepayment: number
+  payment: number
+  principal: number
+  interest: number
+  closingBalance: number
+  isPaid: boolean
+}
+
+export interface ScheduleResult {
+  rows: ScheduleRow[]
+  installments: number
+  remainingInstallments: number
+  nextEmi: number | null
+  endDate: Date | null
+  totalInterest: number
+  totalPrepaid: number
+  totalPayment: number
+  outstanding: number
+  currentInterestRate: number
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Get the number of months between installments
+ * CUSTOM schedules use the gap between the last two known due dates
+ */
+function getMonthsBetweenInstallments(frequency: EMIFrequency, installments: ScheduleInstallment[]): number {
+  if (frequency === "CUSTOM" && installments.length >= 2) {
+    const last = installments[installments.length - 1].dueDate
+    const previous = installments[installments.length - 2].dueDate
+    const months = (last.getFullYear() - previous.getFullYear()) * 12 + last.getMonth() - previous.getMonth()
+    return Math.max(1, months)
+  }
+  return 12 / getPaymentsPerYear(frequency)
+}
+
+/**
+ * Add months to a date, clamping to the last day of shorter months
+ */
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1)
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate()
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay))
+}
+
+/**
+ * Generate the amortization schedule of a loan
+ * - Interest accrues per installment on the opening balance at the rate in force
+ * - Events dated on or before a due date apply before that installment is split
+ * - REDUCE_EMI re-amortises the balance over the remaining installments; REDUCE_TENURE
+ *   keeps the EMI and shortens (or, after a rate hike, lengthens) the schedule
+ * - TENURE_CHANGE re-amortises over the given number of remaining installments;
+ *   EMI_CHANGE keeps the new EMI and recomputes the tenure
+ * - Paid installments use the amount actually paid; the rest use the scheduled EMI
+ */
+export function generateAmortizationSchedule(input: AmortizationInput): ScheduleResult {
+  const { frequency, installments } = input
+  const asOf = input.asOf ?? new Date()
+  const ratePerPeriod = (rate: number) => rate / getPaymentsPerYear(frequency) / 100
+  const stepMonths = getMonthsBetweenInstallments(frequency, installments)
+  const events = [...input.events].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime())
+
+  const getDueDate = (index: number): Date => {
+    if (index < installments.length) return installments[index].dueDate
+    const anchor = installments.length > 0 ? installments[installments.length - 1].dueDate : input.startDate
+    const offset = installments.length > 0 ? index - installments.length + 1 : index
+    return addMonths(anchor, offset * stepMonths)
+  }
+
+  const rows: ScheduleRow[] = []
+  let balance = input.principalAmount
+  let rate = input.interestRate
+  let emi = input.emiAmount
+  let currentInterestRate = rate
+  let planned = input.plannedInstallments || installments.length ||
+    calculateTenure({ principalAmount: balance, interestRate: rate, emiAmount: emi, frequency }) || 1
+  let nextEvent = 0
+  let outstanding: number | null = null
+  let previousPaid = true
+
+  for (let index = 0; balance > 0.005 && index < LOAN_SCHEDULE_MAX_INSTALLMENTS; index++) {
+    const dueDate = getDueDate(index)
+    let prepayment = 0
+    let futurePrepayment = 0
+
+    while (nextEvent < events.length && events[nextEvent].effectiveDate <= dueDate && balance > 0.005) {
+      const event = events[nextEvent++]
+
+      if (event.type === "RATE_CHANGE" && event.interestRate != null) {
+        rate = event.interestRate
+        if (event.effectiveDate <= asOf) currentInterestRate = rate
+      } else if (event.type === "PREPAYMENT" && event.amount) {
+        const applied = Math.min(event.amount, balance)
+        balance = round2(balance - applied)
+        prepayment += applied
+        if (event.effectiveDate > asOf) futurePrepayment += applied
+      }
+      if (balance <= 0.005) break
+
+      const remaining = Math.max(1, planned - index)
+      if (event.type === "TENURE_CHANGE" && event.tenure) {
+        planned = index + event.tenure
+        emi = calculateEMI({ principalAmount: balance, interestRate: rate, tenure: event.tenure, frequency })
+      } else if (event.type === "EMI_CHANGE" && event.emiAmount) {
+        emi = event.emiAmount
+        const tenure = calculateTenure({ principalAmount: balance, interestRate: rate, emiAmount: emi, frequency })
+        // An EMI below the interest never repays the loan; cap it at the installment limit
+        planned = tenure > 0 ? index + tenure : LOAN_SCHEDULE_MAX_INSTALLMENTS
+      } else if (event.strategy === "REDUCE_EMI") {
+        emi = calculateEMI({ principalAmount: balance, interestRate: rate, tenure: remaining, frequency })
+      } else {
+        const tenure = calculateTenure({ principalAmount: balance, interestRate: rate, emiAmount: emi, frequency })
+        // The EMI no longer covers the interest; fall back to re-amortising
+        if (tenure === 0) {
+          emi = calculateEMI({ principalAmount: balance, interestRate: rate, tenure: remaining, frequency })
+        } else {
+          planned = index + tenure
+        }
+      }
+    }
+
+    const paidAmount = installments[index]?.paidAmount
+    const isPaid = paidAmount != null
+
+    if (!isPaid && previousPaid) {
+      outstanding = round2(balance + futurePrepayment)
+    }
+    previousPaid = isPaid
+
+    if (balance <= 0.005) {
+      if (prepayment > 0) {
+        rows.push({
+          installment: index + 1,
+          dueDate,
+          interestRate: rate,
+          openingBalance: 0,
+          prepayment: round2(prepayment),
+          payment: 0,
+          principal: 0,
+          interest: 0,
+          closingBalance: 0,
+          isPaid,
+        })
+      }
+      break
+    }
+
+    const interest = round2(balance * ratePerPeriod(rate))
+    let payment = isPaid ? paidAmount : emi
+    // The last installment clears whatever is left
+    if (!isPaid && (index >= planned - 1 || payment > balance + interest)) {
+      payment = round2(balance + interest)
+    }
+    const principal = round2(payment - interest)
+    const closingBalance = Math.max(0, round2(balance - principal))
+
+    rows.push({
+      installment: index + 1,
+      dueDate,
+      interestRate: rate,
+      openingBalance: balance,
+      prepayment: round2(prepayment),
+      payment,
+      principal,
+      interest,
+      closingBalance,
+      isPaid,
+    })
+    balance = closingBalance
+  }
+
+  const unpaid = rows.filter(row => !row.isPaid && row.payment > 0)
+  const totalInterest = round2(rows.reduce((sum, row) => sum + row.interest, 0))
+  const totalPrepaid = round2(rows.reduce((sum, row) => sum + row.prepayment, 0))
+
+  return {
+    rows,
+    installments: rows.filter(row => row.payment > 0).length,
+    remainingInstallments: unpaid.length,
+    nextEmi: unpaid[0]?.payment ?? null,
+    endDate: rows.length > 0 ? rows[rows.length - 1].dueDate : null,
+    totalInterest,
+    totalPrepaid,
+    totalPayment: round2(rows.reduce((sum, row) => sum + row.payment, 0) + totalPrepaid),
+    outstanding: outstanding ?? round2(balance),
+    currentInterestRate,
+  }
+}
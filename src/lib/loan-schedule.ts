@@ -0,0 +1,191 @@
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { getPaymentsPerYear } from "@/lib/emi-calculator"
+import { generateAmortizationSchedule } from "@/lib/loan-amortization"
+import { recordAuditMany, type AuditActor, type AuditChange } from "@/lib/audit"
+import type { ScheduleEvent, ScheduleResult } from "@/lib/loan-amortization"
+
+type LoanWithSchedule = Prisma.LoanGetPayload<{
+  include: { emis: true; events: true }
+}>
+
+// Rewriting a long schedule updates hundreds of EMI rows; allow more than the default 5s
+export const LOAN_SCHEDULE_TRANSACTION_OPTIONS = { timeout: 30000 }
+
+export const loanScheduleInclude = {
+  emis: { orderBy: { dueDate: "asc" } },
+  events: { orderBy: { effectiveDate: "asc" } },
+} satisfies Prisma.LoanInclude
+
+/**
+ * Convert recorded loan events to schedule events
+ */
+export function toScheduleEvents(events: LoanWithSchedule["events"]): ScheduleEvent[] {
+  return events.map(event => ({
+    type: event.type,
+    effectiveDate: event.effectiveDate,
+    amount: event.amount != null ? Number(event.amount) : null,
+    interestRate: event.interestRate != null ? Number(event.interestRate) : null,
+    tenure: event.tenure,
+    emiAmount: event.emiAmount != null ? Number(event.emiAmount) : null,
+    strategy: event.strategy,
+  }))
+}
+
+/**
+ * Build the amortization schedule of a loan from its EMI rows and recorded events
+ * Events are replayed from the terms at disbursal; extra events (e.g. what-if
+ * prepayments) are replayed alongside the recorded ones
+ */
+export function buildLoanSchedule(loan: LoanWithSchedule, extraEvents: ScheduleEvent[] = []): ScheduleResult {
+  return generateAmortizationSchedule({
+    principalAmount: Number(loan.principalAmount),
+    interestRate: Number(loan.originalInterestRate ?? loan.interestRate),
+    emiAmount: Number(loan.originalEmiAmount ?? loan.emiAmount),
+    frequency: loan.emiFrequency,
+    startDate: loan.startDate,
+    plannedInstallments: loan.originalInstallments ?? undefined,
+    installments: loan.emis.map(emi => ({
+      dueDate: emi.dueDate,
+      paidAmount: emi.isPaid ? Number(emi.paidAmount ?? emi.emiAmount) : null,
+    })),
+    events: [...toScheduleEvents(loan.events), ...extraEvents],
+  })
+}
+
+/**
+ * Rewrite the unpaid EMI rows and loan terms from the schedule
+ * - Paid EMIs are never touched
+ * - Unpaid rows are updated in place, extra installments are created and surplus ones removed
+ * - interestRate, emiAmount, tenure and currentOutstanding follow the schedule; the terms
+ *   at disbursal are captured the first time so later events replay from them
+ * - A loan whose balance is cleared by prepayments is closed
+ * - Every EMI row updated, created or removed is audited; the caller audits the loan itself
+ */
+export async function regenerateLoanSchedule(
+  loanId: string,
+  actor: AuditActor,
+  tx?: Prisma.TransactionClient
+): Promise<ScheduleResult> {
+  if (!tx) {
+    return prisma.$transaction(
+      client => regenerateLoanSchedule(loanId, actor, client),
+      LOAN_SCHEDULE_TRANSACTION_OPTIONS
+    )
+  }
+
+  const loan = await tx.loan.findUniqueOrThrow({
+    where: { id: loanId },
+    include: loanScheduleInclude,
+  })
+
+  const schedule = buildLoanSchedule(loan)
+  const unpaidEmis = loan.emis.filter(emi => !emi.isPaid)
+  const unpaidRows = schedule.rows.filter(row => !row.isPaid && row.payment > 0)
+  const isCleared = unpaidRows.length === 0 && schedule.outstanding <= 0
+
+  // Tenure is stored in months, from the first installment to the last
+  const firstDueDate = schedule.rows[0]?.dueDate
+  const tenure = firstDueDate && schedule.endDate
+    ? (schedule.endDate.getFullYear() - firstDueDate.getFullYear()) * 12 +
+      schedule.endDate.getMonth() - firstDueDate.getMonth() + 12 / getPaymentsPerYear(loan.emiFrequency)
+    : loan.tenure
+
+  const emiChanges: AuditChange[] = []
+  const operation = "schedule regenerated"
+
+  for (let i = 0; i < Math.min(unpaidEmis.length, unpaidRows.length); i++) {
+    const emi = await tx.eMI.update({
+      where: { id: unpaidEmis[i].id },
+      data: {
+        emiAmount: new Prisma.Decimal(unpaidRows[i].payment),
+        dueDate: unpaidRows[i].dueDate,
+      },
+    })
+    emiChanges.push({ entity: "EMI", entityId: emi.id, action: "UPDATE", operation, before: unpaidEmis[i], after: emi, userId: loan.userId })
+  }
+
+  if (unpaidRows.length > unpaidEmis.length) {
+    const created = await tx.eMI.createManyAndReturn({
+      data: unpaidRows.slice(unpaidEmis.length).map(row => ({
+        loanId,
+        emiAmount: new Prisma.Decimal(row.payment),
+        dueDate: row.dueDate,
+        isPaid: false,
+      })),
+    })
+    for (const emi of created) {
+      emiChanges.push({ entity: "EMI", entityId: emi.id, action: "CREATE", operation, after: emi, userId: loan.userId })
+    }
+  } else if (unpaidEmis.length > unpaidRows.length) {
+    const removed = unpaidEmis.slice(unpaidRows.length)
+    await tx.eMI.deleteMany({
+      where: { id: { in: removed.map(emi => emi.id) } },
+    })
+    for (const emi of removed) {
+      emiChanges.push({ entity: "EMI", entityId: emi.id, action: "DELETE", operation, before: emi, userId: loan.userId })
+    }
+  }
+
+  await recordAuditMany(tx, actor, emiChanges)
+
+  await tx.loan.update({
+    where: { id: loanId },
+    data: {
+      originalInterestRate: loan.originalInterestRate ?? loan.interestRate,
+      originalEmiAmount: loan.originalEmiAmount ?? loan.emiAmount,
+      originalInstallments: loan.originalInstallments ?? loan.emis.length,
+      interestRate: new Prisma.Decimal(schedule.currentInterestRate),
+      currentOutstanding: new Prisma.Decimal(schedule.outstanding),
+      emiAmount: schedule.nextEmi != null ? new Prisma.Decimal(schedule.nextEmi) : undefined,
+      tenure,
+      endDate: schedule.endDate,
+      ...(isCleared && !loan.isClosed
+        ? { isClosed: true, closedAt: new Date(), isActive: false }
+        : {}),
+    },
+  })
+
+  return schedule
+}
+
+/**
+ * Serialise a schedule for API responses
+ */
+export function serializeLoanSchedule(schedule: ScheduleResult, includeRows = true) {
+  const { rows, endDate, ...summary } = schedule
+  return {
+    ...summary,
+    endDate: endDate?.toISOString() ?? null,
+    ...(includeRows
+      ? { rows: rows.map(row => ({ ...row, dueDate: row.dueDate.toISOString() })) }
+      : {}),
+  }
+}
+
+/**
+ * Serialise a loan event for API responses
+ */
+export function serializeLoanEvent(event: LoanWithSchedule["events"][number]) {
+  return {
+    ...event,
+    amount: event.amount != null ? Number(event.amount) : null,
+    interestRate: event.interestRate != null ? Number(event.interestRate) : null,
+    emiAmount: event.emiAmount != null ? Number(event.emiAmount) : null,
+  }
+}
+
+/**
+ * Loan events recorded in a month, as stored in MonthlySnapshot.loansData
+ */
+export function toSnapshotLoanEvents(events: LoanWithSchedule["events"]) {
+  return events.map(event => ({
+    type: event.type,
+    effectiveDate: event.effectiveDate.toISOString(),
+    amount: event.amount != null ? Number(event.amount) : null,
+    interestRate: event.interestRate != null ? Number(event.interestRate) : null,
+    tenure: event.tenure,
+    emiAmount: event.emiAmount != null ? Number(event.emiAmount) : null,
+    strategy: event.strategy,
+  }))
+}
@@ -0,0 +1,229 @@
+/**
+ * Market Data
+ * Prices, price history, instrument search and exchange rates from ordered providers per bucket
+ * - Each provider has a rate limit and a circuit breaker; a provider that is over its limit,
+ *   open, missing the operation, failing or without data is skipped for the next one
+ * - Results are cached for the whole process
+ * - Set MARKET_DATA_OFFLINE_FILE to a JSON file (OfflineMarketData) to answer everything from it
+ *   without network access
+ */
+
+import { createCache, createCircuitBreaker, createRateLimiter } from "./resilience"
+import { amfiProvider } from "./providers/amfi"
+import { coingeckoProvider } from "./providers/coingecko"
+import { curatedProvider } from "./providers/curated"
+import { exchangeRateApiProvider } from "./providers/exchange-rate-api"
+import { mfapiProvider } from "./providers/mfapi"
+import { createFileOfflineProvider } from "./providers/offline"
+import { yahooProvider } from "./providers/yahoo"
+import type { MarketDataProvider } from "./provider"
+import type { CircuitState, InvestmentBucket, PriceQuote, SearchResult } from "@/types"
+
+export { toPriceDate } from "./provider"
+export type { MarketDataProvider } from "./provider"
+
+const PRICE_TTL_MS = 5 * 60 * 1000
+const HISTORY_TTL_MS = 6 * 60 * 60 * 1000
+const SEARCH_TTL_MS = 10 * 60 * 1000
+const EXCHANGE_RATE_TTL_MS = 60 * 60 * 1000
+const CACHE_MAX_ENTRIES = 1000
+const FAILURE_THRESHOLD = 3
+const COOLDOWN_MS = 60 * 1000
+
+// Providers in the order they are tried
+const PRICE_PROVIDERS: Record<InvestmentBucket, MarketDataProvider[]> = {
+  MUTUAL_FUND: [mfapiProvider, amfiProvider],
+  IND_STOCK: [yahooProvider],
+  US_STOCK: [yahooProvider],
+  CRYPTO: [coingeckoProvider],
+  EMERGENCY_FUND: [],
+}
+
+const SEARCH_PROVIDERS: Record<InvestmentBucket, MarketDataProvider[]> = {
+  MUTUAL_FUND: [mfapiProvider, curatedProvider],
+  IND_STOCK: [yahooProvider, curatedProvider],
+  US_STOCK: [yahooProvider, curatedProvider],
+  CRYPTO: [coingeckoProvider, curatedProvider],
+  EMERGENCY_FUND: [],
+}
+
+const EXCHANGE_RATE_PROVIDERS: MarketDataProvider[] = [exchangeRateApiProvider, yahooProvider]
+
+const SCHEME_CODE_PROVIDERS: MarketDataProvider[] = [amfiProvider]
+
+type MarketDataOperation = "getLatestPrice" | "getPriceHistory" | "search" | "getExchangeRate" | "getSchemeCode"
+
+const cache = createCache(CACHE_MAX_ENTRIES)
+const guards = new Map<string, { limiter: ReturnType<typeof createRateLimiter>; breaker: ReturnType<typeof createCircuitBreaker> }>()
+
+function getGuard(provider: MarketDataProvider) {
+  let guard = guards.get(provider.name)
+  if (!guard) {
+    guard = {
+      limiter: createRateLimiter(provider.requestsPerMinute),
+      breaker: createCircuitBreaker(FAILURE_THRESHOLD, COOLDOWN_MS),
+    }
+    guards.set(provider.name, guard)
+  }
+  return guard
+}
+
+function getOfflineProvider(): MarketDataProvider | null {
+  const file = process.env.MARKET_DATA_OFFLINE_FILE
+  return file ? createFileOfflineProvider(file) : null
+}
+
+/**
+ * Providers to try, replaced by the offline provider when it is configured
+ * Curated search lists need no network, so they stay as the last search fallback
+ */
+function resolveProviders(providers: MarketDataProvider[]): MarketDataProvider[] {
+  const offline = getOfflineProvider()
+  if (!offline) return providers
+  return providers.includes(curatedProvider) ? [offline, curatedProvider] : [offline]
+}
+
+/**
+ * Try providers in order until one returns data
+ * Returns the result with the provider's name, or null when none had data
+ */
+async function withFallback<T>(
+  providers: MarketDataProvider[],
+  operation: MarketDataOperation,
+  call: (provider: MarketDataProvider) => Promise<T | null>,
+  isEmpty: (value: T) => boolean
+): Promise<{ value: T; source: string } | null> {
+  for (const provider of resolveProviders(providers)) {
+    if (!provider[operation]) continue
+    const guard = getGuard(provider)
+    if (!guard.limiter.tryAcquire() || !guard.breaker.canRequest()) continue
+
+    try {
+      const value = await call(provider)
+      guard.breaker.recordSuccess()
+      if (value !== null && !isEmpty(value)) return { value, source: provider.name }
+    } catch (error) {
+      guard.breaker.recordFailure()
+      console.error(`[Market Data] ${provider.name} failed:`, error instanceof Error ? error.message : error)
+    }
+  }
+  return null
+}
+
+/**
+ * Whether a bucket has market prices (emergency fund does not)
+ */
+export function isPricedBucket(bucket: string): bucket is InvestmentBucket {
+  return (PRICE_PROVIDERS[bucket as InvestmentBucket] ?? []).length > 0
+}
+
+const cacheKey = (...parts: (string | number)[]) => parts.join("|")
+
+/**
+ * Latest price of an instrument in the given currency (the bucket's native one for stocks and funds)
+ */
+export async function getLatestPrice(symbol: string, bucket: InvestmentBucket, currency: string = "INR"): Promise<PriceQuote | null> {
+  return cache.get(cacheKey("price", bucket, symbol.trim().toUpperCase(), currency), PRICE_TTL_MS, async () => {
+    const result = await withFallback(
+      PRICE_PROVIDERS[bucket] ?? [],
+      "getLatestPrice",
+      provider => provider.getLatestPrice!(symbol.trim(), bucket, currency),
+      () => false
+    )
+    return result ? { ...result.value, source: result.source } : null
+  })
+}
+
+/**
+ * Latest price of a holding's instrument, or null for buckets without market prices
+ * and when no provider has a price
+ */
+export async function getCurrentPrice(symbol: string, bucket: string, currency: string = "INR"): Promise<number | null> {
+  if (!isPricedBucket(bucket)) return null
+  const quote = await getLatestPrice(symbol, bucket, currency)
+  return quote?.price ?? null
+}
+
+/**
+ * Daily closes between two dates, oldest first
+ */
+export async function getPriceHistory(
+  symbol: string,
+  bucket: InvestmentBucket,
+  currency: string,
+  from: Date,
+  to: Date
+): Promise<PriceQuote[]> {
+  const key = cacheKey("history", bucket, symbol.trim().toUpperCase(), currency, from.toDateString(), to.toDateString())
+  return cache.get(key, HISTORY_TTL_MS, async () => {
+    const result = await withFallback(
+      PRICE_PROVIDERS[bucket] ?? [],
+      "getPriceHistory",
+      provider => provider.getPriceHistory!(symbol.trim(), bucket, currency, from, to),
+      points => points.length === 0
+    )
+    return result ? result.value.map(point => ({ ...point, source: result.source })) : []
+  })
+}
+
+/**
+ * Search instruments of a bucket by name or symbol
+ */
+export async function searchInstruments(query: string, bucket: InvestmentBucket): Promise<SearchResult[]> {
+  return cache.get(cacheKey("search", bucket, query.trim().toLowerCase()), SEARCH_TTL_MS, async () => {
+    const result = await withFallback(
+      SEARCH_PROVIDERS[bucket] ?? [],
+      "search",
+      provider => provider.search!(query.trim(), bucket),
+      results => results.length === 0
+    )
+    return result?.value ?? []
+  })
+}
+
+/**
+ * Mutual fund scheme code of an ISIN, or null when no provider lists it
+ */
+export async function getSchemeCodeByIsin(isin: string): Promise<string | null> {
+  return cache.get(cacheKey("isin", isin.trim().toUpperCase()), SEARCH_TTL_MS, async () => {
+    const result = await withFallback(
+      SCHEME_CODE_PROVIDERS,
+      "getSchemeCode",
+      provider => provider.getSchemeCode!(isin),
+      () => false
+    )
+    return result?.value ?? null
+  })
+}
+
+/**
+ * Latest exchange rate with the provider it came from: units of `to` per unit of `from`
+ */
+export async function getExchangeRateQuote(from: string, to: string): Promise<{ rate: number; source: string } | null> {
+  if (from.toUpperCase() === to.toUpperCase()) return { rate: 1, source: "identity" }
+
+  return cache.get(cacheKey("fx", from.toUpperCase(), to.toUpperCase()), EXCHANGE_RATE_TTL_MS, async () => {
+    const result = await withFallback(
+      EXCHANGE_RATE_PROVIDERS,
+      "getExchangeRate",
+      provider => provider.getExchangeRate!(from.toUpperCase(), to.toUpperCase()),
+      () => false
+    )
+    return result ? { rate: result.value, source: result.source } : null
+  })
+}
+
+/**
+ * Latest exchange rate: units of `to` per unit of `from`
+ */
+export async function getExchangeRate(from: string, to: string): Promise<number | null> {
+  const quote = await getExchangeRateQuote(from, to)
+  return quote?.rate ?? null
+}
+
+/**
+ * Circuit state of every provider used so far, for diagnostics
+ */
+export function getProviderHealth(): { provider: string; state: CircuitState }[] {
+  return [...guards.entries()].map(([provider, guard]) => ({ provider, state: guard.breaker.getState() }))
+}
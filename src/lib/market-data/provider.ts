@@ -0,0 +1,84 @@
+import type { InvestmentBucket, PricePoint, SearchResult } from "@/types"
+
+/**
+ * A source of market data
+ * Providers implement only the operations their API supports; the market data
+ * layer tries them in order per bucket and skips the ones without the operation
+ * Methods throw when the API fails and return null or [] when it has no data
+ */
+export interface MarketDataProvider {
+  name: string
+  // Requests allowed per minute, shared by every caller in the process
+  requestsPerMinute: number
+  getLatestPrice?(symbol: string, bucket: InvestmentBucket, currency: string): Promise<PricePoint | null>
+  // Daily closes between two dates, oldest first
+  getPriceHistory?(symbol: string, bucket: InvestmentBucket, currency: string, from: Date, to: Date): Promise<PricePoint[]>
+  search?(query: string, bucket: InvestmentBucket): Promise<SearchResult[]>
+  // Units of `to` per unit of `from`
+  getExchangeRate?(from: string, to: string): Promise<number | null>
+  // Mutual fund scheme code (the symbol prices are keyed by) of an ISIN
+  getSchemeCode?(isin: string): Promise<string | null>
+}
+
+const REQUEST_TIMEOUT_MS = 8000
+
+/**
+ * Fetch JSON from a provider, throwing on HTTP errors and after a timeout
+ */
+export async function fetchJson(provider: string, url: string, init: RequestInit = {}) {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    next: { revalidate: 0 },
+  })
+
+  if (!response.ok) {
+    throw new Error(`${provider} responded with status: ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Trading day of a date, as midnight UTC of its calendar day
+ */
+export function toPriceDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+}
+
+/**
+ * Trading day of a provider timestamp in seconds, as midnight UTC
+ */
+export function fromUnixSeconds(seconds: number): Date {
+  const date = new Date(seconds * 1000)
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Parse a yyyy-mm-dd or dd-mm-yyyy date as midnight UTC
+ */
+export function parsePriceDate(value: string): Date {
+  const parts = value.split("-").map(Number)
+  const [year, month, day] = parts[0] > 31 ? parts : [parts[2], parts[1], parts[0]]
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * Keep the last valid price of each day, oldest first
+ */
+export function toDailyPoints(points: PricePoint[]): PricePoint[] {
+  const byDay = new Map<number, PricePoint>()
+  points
+    .filter(point => !isNaN(point.date.getTime()) && isFinite(point.price) && point.price > 0)
+    .forEach(point => byDay.set(point.date.getTime(), point))
+  return [...byDay.values()].sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+/**
+ * Points between two dates (inclusive, by trading day)
+ */
+export function filterPointsInRange(points: PricePoint[], from: Date, to: Date): PricePoint[] {
+  const start = toPriceDate(from).getTime()
+  const end = toPriceDate(to).getTime()
+  return points.filter(point => point.date.getTime() >= start && point.date.getTime() <= end)
+}
@@ -0,0 +1,57 @@
+import { parsePriceDate } from "../provider"
+import type { MarketDataProvider } from "../provider"
+
+// AMFI publishes the latest NAV of every scheme as a semicolon separated text file:
+// Scheme Code;ISIN Div Payout/Growth;ISIN Div Reinvestment;Scheme Name;Net Asset Value;Date (dd-MMM-yyyy)
+const NAV_ALL_URL = "https://www.amfiindia.com/spages/NAVAll.txt"
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+// NAVs are published once a day, so one download serves every scheme for a while
+const NAV_FILE_TTL_MS = 60 * 60 * 1000
+
+let navFile: { text: string; fetchedAt: number } | null = null
+
+async function getNavFile(): Promise<string> {
+  if (navFile && Date.now() - navFile.fetchedAt < NAV_FILE_TTL_MS) return navFile.text
+
+  const response = await fetch(NAV_ALL_URL, {
+    signal: AbortSignal.timeout(15000),
+    next: { revalidate: 0 },
+  })
+
+  if (!response.ok) {
+    throw new Error(`AMFI responded with status: ${response.status}`)
+  }
+
+  navFile = { text: await response.text(), fetchedAt: Date.now() }
+  return navFile.text
+}
+
+export const amfiProvider: MarketDataProvider = {
+  name: "amfi",
+  requestsPerMinute: 6,
+
+  async getLatestPrice(symbol) {
+    const file = await getNavFile()
+    const line = file.split("\n").find(row => row.startsWith(`${symbol.trim()};`))
+    if (!line) return null
+
+    const columns = line.split(";")
+    const price = parseFloat(columns[4])
+    const [day, month, year] = (columns[5] || "").trim().split("-")
+    const monthIndex = MONTHS.indexOf((month || "").toUpperCase()) + 1
+    if (isNaN(price) || monthIndex === 0) return null
+
+    return { date: parsePriceDate(`${year}-${monthIndex}-${day}`), price }
+  },
+
+  async getSchemeCode(isin) {
+    const file = await getNavFile()
+    const code = isin.trim().toUpperCase()
+    const line = file.split("\n").find(row => {
+      const columns = row.split(";")
+      return columns[1]?.trim() === code || columns[2]?.trim() === code
+    })
+    return line ? line.split(";")[0].trim() : null
+  },
+}
@@ -0,0 +1,80 @@
+import { fetchJson, filterPointsInRange, fromUnixSeconds, toDailyPoints, toPriceDate } from "../provider"
+import type { MarketDataProvider } from "../provider"
+
+// CoinGecko - free crypto API (no key), keyed by coin id such as "bitcoin"
+
+const getVsCurrency = (currency: string) => (currency === "USD" ? "usd" : "inr")
+
+function determineCategory(coin: { name: string; symbol?: string; market_cap_rank?: number }): string {
+  const name = coin.name?.toLowerCase() || ''
+  const symbol = coin.symbol?.toLowerCase() || ''
+
+  // Categorize based on common patterns
+  if (name.includes('bitcoin') || symbol === 'btc') return 'Layer 1'
+  if (name.includes('ethereum') || symbol === 'eth') return 'Layer 1'
+  if (name.includes('binance') || symbol === 'bnb') return 'Exchange'
+  if (['usdt', 'usdc', 'dai', 'busd'].includes(symbol)) return 'Stablecoin'
+  if (name.includes('defi') || name.includes('swap') || name.includes('dex')) return 'DeFi'
+  if (name.includes('nft') || name.includes('art') || name.includes('collectible')) return 'NFT'
+  if (name.includes('game') || name.includes('play')) return 'Gaming'
+  if (name.includes('dog') || name.includes('shib') || name.includes('meme')) return 'Meme'
+  if (name.includes('meta') || name.includes('verse')) return 'Metaverse'
+  if (name.includes('storage') || name.includes('file')) return 'Storage'
+  if (name.includes('oracle') || name.includes('link')) return 'Oracle'
+  if (name.includes('layer 2') || name.includes('polygon') || name.includes('arbitrum')) return 'Layer 2'
+  if (coin.market_cap_rank && coin.market_cap_rank <= 50) return 'Top 50'
+
+  return 'Cryptocurrency'
+}
+
+export const coingeckoProvider: MarketDataProvider = {
+  name: "coingecko",
+  // The free tier allows roughly 30 calls a minute
+  requestsPerMinute: 25,
+
+  async getLatestPrice(symbol, _bucket, currency) {
+    const coinId = symbol.toLowerCase()
+    const vsCurrency = getVsCurrency(currency)
+    const data = await fetchJson(
+      "CoinGecko",
+      `https://api.coingecko.com/api/v3/simple/price?ids=${encodeURIComponent(coinId)}&vs_currencies=${vsCurrency}`
+    )
+    const price = data?.[coinId]?.[vsCurrency]
+
+    return price ? { date: toPriceDate(new Date()), price: parseFloat(price) } : null
+  },
+
+  // Ranges over 90 days come back as daily points at midnight UTC, shorter ones hourly
+  async getPriceHistory(symbol, _bucket, currency, from, to) {
+    const fromSeconds = Math.floor(from.getTime() / 1000)
+    const toSeconds = Math.floor(to.getTime() / 1000) + 24 * 60 * 60
+    const data = await fetchJson(
+      "CoinGecko",
+      `https://api.coingecko.com/api/v3/coins/${encodeURIComponent(symbol.toLowerCase())}/market_chart/range?vs_currency=${getVsCurrency(currency)}&from=${fromSeconds}&to=${toSeconds}`
+    )
+    const prices: [number, number][] = data?.prices ?? []
+
+    return filterPointsInRange(
+      toDailyPoints(prices.map(([time, price]) => ({ date: fromUnixSeconds(time / 1000), price }))),
+      from,
+      to
+    )
+  },
+
+  async search(query) {
+    const data = await fetchJson(
+      "CoinGecko",
+      `https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(query)}`,
+      { headers: { 'Accept': 'application/json' } }
+    )
+    const coins: { id: string; symbol?: string; name: string; market_cap_rank?: number }[] = data?.coins || []
+
+    return coins.slice(0, 20).map(coin => ({
+      id: coin.id,
+      symbol: coin.symbol?.toUpperCase(),
+      name: coin.name,
+      category: determineCategory(coin),
+      marketCapRank: coin.market_cap_rank || null
+    }))
+  },
+}
@@ -0,0 +1,78 @@
+import type { MarketDataProvider } from "../provider"
+import type { InvestmentBucket, SearchResult } from "@/types"
+
+// Built-in lists of popular instruments, searched when the live search APIs fail
+
+const CURATED_INSTRUMENTS: Partial<Record<InvestmentBucket, SearchResult[]>> = {
+  MUTUAL_FUND: [
+    { id: "MF001", symbol: "120503", name: "ICICI Prudential Bluechip Fund - Direct Plan - Growth", category: "Large Cap", amc: "ICICI Prudential" },
+    { id: "MF002", symbol: "120305", name: "Axis Bluechip Fund - Direct Plan - Growth", category: "Large Cap", amc: "Axis Mutual Fund" },
+    { id: "MF003", symbol: "118989", name: "HDFC Mid-Cap Opportunities Fund - Direct Plan - Growth", category: "Mid Cap", amc: "HDFC Mutual Fund" },
+    { id: "MF004", symbol: "122639", name: "SBI Small Cap Fund - Direct Plan - Growth", category: "Small Cap", amc: "SBI Mutual Fund" },
+    { id: "MF005", symbol: "122639", name: "Parag Parikh Flexi Cap Fund - Direct Plan - Growth", category: "Flexi Cap", amc: "PPFAS Mutual Fund" },
+  ],
+  IND_STOCK: [
+    { symbol: "RELIANCE.NS", name: "Reliance Industries Ltd", exchange: "NSE", sector: "Energy" },
+    { symbol: "TCS.NS", name: "Tata Consultancy Services Ltd", exchange: "NSE", sector: "IT Services" },
+    { symbol: "HDFCBANK.NS", name: "HDFC Bank Ltd", exchange: "NSE", sector: "Banking" },
+    { symbol: "INFY.NS", name: "Infosys Ltd", exchange: "NSE", sector: "IT Services" },
+    { symbol: "ICICIBANK.NS", name: "ICICI Bank Ltd", exchange: "NSE", sector: "Banking" },
+    { symbol: "HINDUNILVR.NS", name: "Hindustan Unilever Ltd", exchange: "NSE", sector: "FMCG" },
+    { symbol: "ITC.NS", name: "ITC Ltd", exchange: "NSE", sector: "FMCG" },
+    { symbol: "SBIN.NS", name: "State Bank of India", exchange: "NSE", sector: "Banking" },
+    { symbol: "BHARTIARTL.NS", name: "Bharti Airtel Ltd", exchange: "NSE", sector: "Telecom" },
+    { symbol: "KOTAKBANK.NS", name: "Kotak Mahindra Bank Ltd", exchange: "NSE", sector: "Banking" },
+  ],
+  US_STOCK: [
+    { symbol: "AAPL", name: "Apple Inc.", exchange: "NASDAQ", sector: "Technology" },
+    { symbol: "MSFT", name: "Microsoft Corporation", exchange: "NASDAQ", sector: "Technology" },
+    { symbol: "GOOGL", name: "Alphabet Inc.", exchange: "NASDAQ", sector: "Technology" },
+    { symbol: "AMZN", name: "Amazon.com Inc.", exchange: "NASDAQ", sector: "E-Commerce" },
+    { symbol: "TSLA", name: "Tesla Inc.", exchange: "NASDAQ", sector: "Automotive" },
+    { symbol: "META", name: "Meta Platforms Inc.", exchange: "NASDAQ", sector: "Technology" },
+    { symbol: "NVDA", name: "NVIDIA Corporation", exchange: "NASDAQ", sector: "Technology" },
+    { symbol: "JPM", name: "JPMorgan Chase & Co.", exchange: "NYSE", sector: "Banking" },
+    { symbol: "V", name: "Visa Inc.", exchange: "NYSE", sector: "Financial Services" },
+    { symbol: "WMT", name: "Walmart Inc.", exchange: "NYSE", sector: "Retail" },
+  ],
+  CRYPTO: [
+    { id: "bitcoin", symbol: "BTC", name: "Bitcoin", category: "Layer 1" },
+    { id: "ethereum", symbol: "ETH", name: "Ethereum", category: "Layer 1" },
+    { id: "binancecoin", symbol: "BNB", name: "BNB", category: "Exchange" },
+    { id: "ripple", symbol: "XRP", name: "XRP", category: "Payment" },
+    { id: "cardano", symbol: "ADA", name: "Cardano", category: "Layer 1" },
+    { id: "solana", symbol: "SOL", name: "Solana", category: "Layer 1" },
+    { id: "polkadot", symbol: "DOT", name: "Polkadot", category: "Layer 0" },
+    { id: "dogecoin", symbol: "DOGE", name: "Dogecoin", category: "Meme" },
+    { id: "avalanche-2", symbol: "AVAX", name: "Avalanche", category: "Layer 1" },
+    { id: "matic-network", symbol: "MATIC", name: "Polygon", category: "Layer 2" },
+    { id: "chainlink", symbol: "LINK", name: "Chainlink", category: "Oracle" },
+    { id: "litecoin", symbol: "LTC", name: "Litecoin", category: "Payment" },
+    { id: "uniswap", symbol: "UNI", name: "Uniswap", category: "DeFi" },
+    { id: "cosmos", symbol: "ATOM", name: "Cosmos", category: "Layer 0" },
+    { id: "stellar", symbol: "XLM", name: "Stellar", category: "Payment" },
+    { id: "tron", symbol: "TRX", name: "TRON", category: "Layer 1" },
+    { id: "algorand", symbol: "ALGO", name: "Algorand", category: "Layer 1" },
+    { id: "vechain", symbol: "VET", name: "VeChain", category: "Supply Chain" },
+    { id: "filecoin", symbol: "FIL", name: "Filecoin", category: "Storage" },
+    { id: "aave", symbol: "AAVE", name: "Aave", category: "DeFi" },
+  ],
+}
+
+/**
+ * Whether a search result matches a query by symbol, name or category
+ */
+export function matchesSearch(result: SearchResult, query: string): boolean {
+  const text = query.toLowerCase()
+  return [result.symbol, result.id, result.name, result.category]
+    .some(value => value?.toLowerCase().includes(text))
+}
+
+export const curatedProvider: MarketDataProvider = {
+  name: "curated",
+  requestsPerMinute: Infinity,
+
+  async search(query, bucket) {
+    return (CURATED_INSTRUMENTS[bucket] ?? []).filter(result => matchesSearch(result, query)).slice(0, 10)
+  },
+}
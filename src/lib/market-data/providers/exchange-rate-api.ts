@@ -0,0 +1,15 @@
+import { fetchJson } from "../provider"
+import type { MarketDataProvider } from "../provider"
+
+// exchangerate-api.com - free tier (1500 requests/month), latest rates only
+
+export const exchangeRateApiProvider: MarketDataProvider = {
+  name: "exchangerate-api",
+  requestsPerMinute: 10,
+
+  async getExchangeRate(from, to) {
+    const data = await fetchJson("Exchange rate API", `https://api.exchangerate-api.com/v4/latest/${encodeURIComponent(from)}`)
+    const rate = data?.rates?.[to]
+    return rate ? Number(rate) : null
+  },
+}
@@ -0,0 +1,73 @@
+import { fetchJson, filterPointsInRange, parsePriceDate, toDailyPoints } from "../provider"
+import type { MarketDataProvider } from "../provider"
+import type { PricePoint } from "@/types"
+
+// MFApi.in - free API for Indian mutual funds, keyed by AMFI scheme code
+
+// The scheme endpoint returns the full NAV history, latest first, with dates as dd-mm-yyyy
+async function getNavHistory(schemeCode: string): Promise<PricePoint[]> {
+  const data = await fetchJson("MFApi", `https://api.mfapi.in/mf/${encodeURIComponent(schemeCode)}`)
+  if (!Array.isArray(data?.data)) return []
+
+  return toDailyPoints(
+    data.data.map((row: { date: string; nav: string }) => ({ date: parsePriceDate(row.date), price: parseFloat(row.nav) }))
+  )
+}
+
+function extractCategory(schemeName: string): string {
+  const name = schemeName.toLowerCase()
+  if (name.includes('small cap')) return 'Small Cap'
+  if (name.includes('mid cap') || name.includes('midcap')) return 'Mid Cap'
+  if (name.includes('large cap') || name.includes('bluechip') || name.includes('blue chip')) return 'Large Cap'
+  if (name.includes('flexi cap') || name.includes('flexicap') || name.includes('multi cap')) return 'Flexi Cap'
+  if (name.includes('index') || name.includes('nifty') || name.includes('sensex')) return 'Index Fund'
+  if (name.includes('equity')) return 'Equity'
+  if (name.includes('debt') || name.includes('bond')) return 'Debt'
+  if (name.includes('hybrid') || name.includes('balanced')) return 'Hybrid'
+  if (name.includes('elss') || name.includes('tax saver')) return 'ELSS'
+  return 'Other'
+}
+
+function extractAMC(schemeName: string): string {
+  const amcPatterns = [
+    'ICICI Prudential', 'HDFC', 'Axis', 'SBI', 'Kotak', 'Aditya Birla Sun Life', 'ABSL',
+    'Mirae Asset', 'Nippon India', 'UTI', 'DSP', 'Tata', 'Franklin Templeton',
+    'Parag Parikh', 'PPFAS', 'Quant', 'Motilal Oswal', 'Edelweiss', 'Invesco'
+  ]
+
+  for (const amc of amcPatterns) {
+    if (schemeName.includes(amc)) {
+      return amc
+    }
+  }
+
+  return schemeName.split(' ')[0] || 'Unknown'
+}
+
+export const mfapiProvider: MarketDataProvider = {
+  name: "mfapi",
+  requestsPerMinute: 60,
+
+  async getLatestPrice(symbol) {
+    const history = await getNavHistory(symbol)
+    return history[history.length - 1] ?? null
+  },
+
+  async getPriceHistory(symbol, _bucket, _currency, from, to) {
+    return filterPointsInRange(await getNavHistory(symbol), from, to)
+  },
+
+  async search(query) {
+    const data = await fetchJson("MFApi", `https://api.mfapi.in/mf/search?q=${encodeURIComponent(query)}`, {
+      headers: { 'Accept': 'application/json' },
+    })
+
+    return (Array.isArray(data) ? data : []).slice(0, 15).map((fund: { schemeCode?: number; schemeName?: string }) => ({
+      id: fund.schemeCode?.toString() || '',
+      symbol: fund.schemeCode?.toString() || '',
+      name: fund.schemeName || '',
+      category: extractCategory(fund.schemeName || ''),
+      amc: extractAMC(fund.schemeName || '')
+    }))
+  },
+}
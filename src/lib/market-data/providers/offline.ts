@@ -0,0 +1,95 @@
+import { readFileSync, statSync } from "fs"
+import { filterPointsInRange, parsePriceDate, toDailyPoints, toPriceDate } from "../provider"
+import type { MarketDataProvider } from "../provider"
+import { matchesSearch } from "./curated"
+import type { OfflineMarketData, PricePoint } from "@/types"
+
+// Prices, search results and exchange rates read from a local JSON file (OfflineMarketData),
+// so the app and its tests run without network access
+
+interface OfflineIndex {
+  prices: Map<string, PricePoint[]>
+  search: NonNullable<OfflineMarketData["search"]>
+  exchangeRates: Map<string, PricePoint[]>
+}
+
+const priceKey = (symbol: string, bucket: string, currency: string) => `${bucket}:${symbol.trim().toUpperCase()}:${currency}`
+const rateKey = (from: string, to: string) => `${from.toUpperCase()}:${to.toUpperCase()}`
+
+// Undated exchange rates apply from the earliest date
+const UNDATED = "1970-01-01"
+
+/**
+ * Index the file contents by instrument and currency pair
+ */
+export function indexOfflineMarketData(data: OfflineMarketData): OfflineIndex {
+  const prices = new Map<string, PricePoint[]>()
+  for (const row of data.prices ?? []) {
+    const key = priceKey(row.symbol, row.bucket, row.currency ?? "INR")
+    prices.set(key, [...(prices.get(key) ?? []), { date: parsePriceDate(row.date), price: row.price }])
+  }
+  prices.forEach((points, key) => prices.set(key, toDailyPoints(points)))
+
+  const exchangeRates = new Map<string, PricePoint[]>()
+  for (const row of data.exchangeRates ?? []) {
+    const key = rateKey(row.from, row.to)
+    exchangeRates.set(key, [...(exchangeRates.get(key) ?? []), { date: parsePriceDate(row.date ?? UNDATED), price: row.rate }])
+  }
+  exchangeRates.forEach((points, key) => exchangeRates.set(key, toDailyPoints(points)))
+
+  return { prices, search: data.search ?? [], exchangeRates }
+}
+
+const latestOnOrBefore = (points: PricePoint[], date: Date) =>
+  filterPointsInRange(points, new Date(0), date).pop() ?? null
+
+/**
+ * Provider answering from already indexed data
+ */
+export function createOfflineProvider(load: () => OfflineIndex): MarketDataProvider {
+  return {
+    name: "offline",
+    requestsPerMinute: Infinity,
+
+    async getLatestPrice(symbol, bucket, currency) {
+      return latestOnOrBefore(load().prices.get(priceKey(symbol, bucket, currency)) ?? [], new Date())
+    },
+
+    async getPriceHistory(symbol, bucket, currency, from, to) {
+      return filterPointsInRange(load().prices.get(priceKey(symbol, bucket, currency)) ?? [], from, to)
+    },
+
+    async search(query, bucket) {
+      return load().search
+        .filter(result => result.bucket === bucket && matchesSearch(result, query))
+        .slice(0, 15)
+    },
+
+    // Falls back to the inverse of the reverse pair
+    async getExchangeRate(from, to) {
+      const { exchangeRates } = load()
+      const today = toPriceDate(new Date())
+      const direct = latestOnOrBefore(exchangeRates.get(rateKey(from, to)) ?? [], today)
+      if (direct) return direct.price
+
+      const inverse = latestOnOrBefore(exchangeRates.get(rateKey(to, from)) ?? [], today)
+      return inverse ? 1 / inverse.price : null
+    },
+  }
+}
+
+let cachedFile: { path: string; modifiedAt: number; index: OfflineIndex } | null = null
+
+/**
+ * Provider reading a JSON file, re-read whenever the file changes
+ */
+export function createFileOfflineProvider(path: string): MarketDataProvider {
+  return createOfflineProvider(() => {
+    const modifiedAt = statSync(path).mtimeMs
+    if (cachedFile?.path !== path || cachedFile.modifiedAt !== modifiedAt) {
+      const data: OfflineMarketData = JSON.parse(readFileSync(path, "utf-8"))
+      cachedFile = { path, modifiedAt, index: indexOfflineMarketData(data) }
+    }
+    return cachedFile.index
+  })
+}
@@ -0,0 +1,126 @@
+import { fetchJson, fromUnixSeconds, toDailyPoints, toPriceDate } from "../provider"
+import type { MarketDataProvider } from "../provider"
+import type { InvestmentBucket } from "@/types"
+
+// Yahoo Finance - unofficial chart and search APIs for Indian (NSE/BSE) and US stocks
+
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0',
+  'Accept': 'application/json',
+}
+
+interface YahooQuote {
+  symbol: string
+  shortname?: string
+  longname?: string
+  quoteType?: string
+  exchange?: string
+  exchDisp?: string
+  sector?: string
+  industry?: string
+}
+
+// Indian symbols without an exchange suffix are looked up on NSE
+function getTicker(symbol: string, bucket: InvestmentBucket): string {
+  return bucket === "IND_STOCK" && !symbol.includes(".") ? `${symbol}.NS` : symbol
+}
+
+async function getChart(ticker: string, query: string) {
+  const data = await fetchJson(
+    "Yahoo Finance",
+    `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(ticker)}?interval=1d&${query}`,
+    { headers: HEADERS }
+  )
+  return data?.chart?.result?.[0] ?? null
+}
+
+async function getLatestChartPrice(ticker: string) {
+  const result = await getChart(ticker, "range=1d")
+  const price = result?.meta?.regularMarketPrice
+  const time = result?.meta?.regularMarketTime
+
+  if (!price) return null
+  return { date: time ? fromUnixSeconds(time) : toPriceDate(new Date()), price: parseFloat(price) }
+}
+
+async function searchQuotes(query: string): Promise<YahooQuote[]> {
+  const data = await fetchJson(
+    "Yahoo Finance",
+    `https://query1.finance.yahoo.com/v1/finance/search?q=${encodeURIComponent(query)}&quotesCount=15&newsCount=0`,
+    { headers: HEADERS }
+  )
+  return data?.quotes || []
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: "yahoo",
+  requestsPerMinute: 60,
+
+  async getLatestPrice(symbol, bucket) {
+    return getLatestChartPrice(getTicker(symbol, bucket))
+  },
+
+  async getPriceHistory(symbol, bucket, _currency, from, to) {
+    const period1 = Math.floor(from.getTime() / 1000)
+    const period2 = Math.floor(to.getTime() / 1000) + 24 * 60 * 60
+    const result = await getChart(getTicker(symbol, bucket), `period1=${period1}&period2=${period2}`)
+    const timestamps: number[] = result?.timestamp ?? []
+    const closes: (number | null)[] = result?.indicators?.quote?.[0]?.close ?? []
+
+    return toDailyPoints(
+      timestamps.map((timestamp, index) => ({ date: fromUnixSeconds(timestamp), price: Number(closes[index]) }))
+    )
+  },
+
+  async search(query, bucket) {
+    let quotes: YahooQuote[]
+
+    if (bucket === "IND_STOCK") {
+      // Try NSE, BSE and the plain query in parallel; a failing strategy only fails the search when all do
+      const results = await Promise.allSettled([
+        searchQuotes(query.toUpperCase() + '.NS'),
+        searchQuotes(query.toUpperCase() + '.BO'),
+        searchQuotes(query),
+      ])
+      if (results.every(result => result.status === "rejected")) {
+        throw (results[0] as PromiseRejectedResult).reason
+      }
+
+      // Combine results, prioritizing exact matches, and remove duplicates based on symbol
+      const seen = new Set()
+      quotes = results
+        .flatMap(result => (result.status === "fulfilled" ? result.value : []))
+        .filter((quote) => {
+          if (seen.has(quote.symbol)) return false
+          seen.add(quote.symbol)
+          return true
+        })
+    } else {
+      quotes = await searchQuotes(query)
+    }
+
+    return quotes
+      .filter((quote) => {
+        if (bucket === "IND_STOCK") {
+          // For Indian market, only include NSE/BSE stocks
+          return quote.symbol?.includes('.NS') || quote.symbol?.includes('.BO') ||
+                 quote.exchange === 'NSI' || quote.exchange === 'BSE'
+        }
+        // For US market, include major exchanges
+        return quote.exchange ? ['NASDAQ', 'NYSE', 'AMEX', 'NYQ', 'NMS'].includes(quote.exchange) : false
+      })
+      .slice(0, 15)
+      .map((quote) => ({
+        symbol: quote.symbol,
+        name: quote.longname || quote.shortname || quote.symbol,
+        exchange: quote.exchDisp || quote.exchange,
+        sector: quote.sector || quote.industry || 'N/A'
+      }))
+  },
+
+  // Currency pairs are quoted as e.g. USDINR=X
+  async getExchangeRate(from, to) {
+    const quote = await getLatestChartPrice(`${from}${to}=X`)
+    return quote?.price ?? null
+  },
+}
@@ -0,0 +1,98 @@
+import type { CircuitState } from "@/types"
+
+/**
+ * Cache of provider results with a time to live per entry
+ * Concurrent requests for the same key share one in-flight promise
+ * Failed and empty results are not cached
+ */
+export function createCache(maxEntries: number) {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>()
+  const inFlight = new Map<string, Promise<unknown>>()
+
+  return {
+    async get<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+      const cached = entries.get(key)
+      if (cached && cached.expiresAt > Date.now()) return cached.value as T
+
+      const pending = inFlight.get(key)
+      if (pending) return pending as Promise<T>
+
+      const promise = load()
+        .then(value => {
+          const isEmpty = value === null || (Array.isArray(value) && value.length === 0)
+          if (!isEmpty) {
+            entries.delete(key)
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+            // Maps keep insertion order, so the first key is the oldest entry
+            if (entries.size > maxEntries) entries.delete(entries.keys().next().value as string)
+          }
+          return value
+        })
+        .finally(() => inFlight.delete(key))
+
+      inFlight.set(key, promise)
+      return promise
+    },
+
+    clear() {
+      entries.clear()
+    },
+  }
+}
+
+/**
+ * Sliding one-minute window of request times
+ */
+export function createRateLimiter(requestsPerMinute: number) {
+  const requests: number[] = []
+
+  return {
+    // Take a slot if one is free in the current window
+    tryAcquire(): boolean {
+      const now = Date.now()
+      while (requests.length > 0 && requests[0] <= now - 60 * 1000) requests.shift()
+      if (requests.length >= requestsPerMinute) return false
+      requests.push(now)
+      return true
+    },
+  }
+}
+
+/**
+ * Circuit breaker for a provider
+ * - CLOSED: requests go through; consecutive failures are counted
+ * - OPEN: after too many failures, requests are skipped until the cooldown passes
+ * - HALF_OPEN: one trial request is let through; success closes the circuit, failure re-opens it
+ */
+export function createCircuitBreaker(failureThreshold: number, cooldownMs: number) {
+  let state: CircuitState = "CLOSED"
+  let failures = 0
+  let openedAt = 0
+
+  return {
+    canRequest(): boolean {
+      if (state === "OPEN" && Date.now() - openedAt >= cooldownMs) {
+        state = "HALF_OPEN"
+        return true
+      }
+      return state === "CLOSED"
+    },
+
+    recordSuccess() {
+      state = "CLOSED"
+      failures = 0
+    },
+
+    recordFailure() {
+      failures++
+      if (state === "HALF_OPEN" || failures >= failureThreshold) {
+        state = "OPEN"
+        openedAt = Date.now()
+      }
+    },
+
+    getState(): CircuitState {
+      return state
+    },
+  }
+}
@@ -0,0 +1,793 @@
+import { prisma } from "@/lib/prisma"
+import { calculateFinancialSummary } from "@/lib/budget-utils"
+import { getAmountForMonth } from "@/lib/frequency-utils"
+import { getScheduleAdjustments } from "@/lib/sip-schedule"
+import { getMonthlyTax } from "@/lib/tax-utils"
+import { calculateBorrowedFundsSummary } from "@/lib/borrowed-funds-calculator"
+import { toSnapshotLoanEvents } from "@/lib/loan-schedule"
+import { getMonthlyPortfolioReturns } from "@/lib/portfolio-returns"
+import { getPriceKey, getPricesOn } from "@/lib/price-history"
+import { createCurrencyConverter, getUserCurrencyConverter } from "@/lib/currency"
+import { SNAPSHOT_FIELDS } from "@/constants/monthly-snapshot"
+import { Prisma, type MonthlySnapshot } from "@/generated/prisma"
+import type { MonthCloseTrigger, SnapshotFieldChange, SnapshotFieldKind } from "@/types"
+
+/**
+ * Monthly Snapshot Engine
+ * Calculates what a month records and runs the close workflow: close, reopen with a reason and
+ * recompute against the stored snapshot. Every step is written to the month's close history.
+ */
+
+/**
+ * Calculate everything a month's snapshot records, in the user's base currency
+ */
+export async function calculateMonthlyData(userId: string, year: number, month: number) {
+  // Get date range for the month
+  const startDate = new Date(year, month - 1, 1)
+  const endDate = new Date(year, month, 1) // First day of next month (exclusive)
+
+  // Amounts are converted to the base currency at the rate of the day they happened on
+  const converter = await getUserCurrencyConverter(userId)
+  const toBase = (amount: number, currency: string, date?: Date, inrRate?: Prisma.Decimal | null) =>
+    converter.convert(amount, currency, date, inrRate ? Number(inrRate) : null)
+
+  // Get salary that was effective during the selected month
+  const latestSalary = await prisma.salaryHistory.findFirst({
+    where: {
+      userId,
+      effectiveFrom: { lte: endDate },
+      OR: [
+        { effectiveTo: null },
+        { effectiveTo: { gte: startDate } }
+      ]
+    },
+    orderBy: { effectiveFrom: "desc" },
+  })
+  const monthlySalary = latestSalary ? Number(latestSalary.monthly) : 0
+
+  // Get additional income for this month
+  const additionalIncomes = await prisma.income.findMany({
+    where: {
+      userId,
+      date: {
+        gte: startDate,
+        lt: endDate,
+      },
+    },
+  })
+
+  const additionalIncome = additionalIncomes.reduce((sum, income) => sum + toBase(Number(income.amount), income.currency, income.date), 0)
+  const salary = monthlySalary + additionalIncome
+
+  // Get tax
+  const { taxAmount } = await getMonthlyTax(userId, salary, month, year)
+
+  const afterTax = salary - taxAmount
+
+  // Get loans for this month with EMI details
+  const loans = await prisma.loan.findMany({
+    where: {
+      userId,
+      isActive: true,
+      startDate: { lt: endDate },
+      OR: [
+        { endDate: null },
+        { endDate: { gte: startDate } }
+      ]
+    },
+    include: {
+      emis: {
+        where: {
+          dueDate: {
+            gte: startDate,
+            lt: endDate
+          }
+        }
+      },
+      events: {
+        where: {
+          effectiveDate: {
+            gte: startDate,
+            lt: endDate
+          }
+        },
+        orderBy: { effectiveDate: "asc" }
+      }
+    }
+  })
+
+  // Calculate total loans - only count EMIs that are actually due this month
+  const totalLoans = loans.reduce((sum, loan) => {
+    const emi = loan.emis[0] // Get the EMI for this month
+    // Only count if there's an EMI due this month
+    return emi ? sum + toBase(Number(emi.emiAmount), loan.currency, emi.dueDate) : sum
+  }, 0)
+
+  // Build loan tracking data - only include loans with EMIs due or events recorded this month
+  const loansData = loans
+    .filter(loan => loan.emis.length > 0 || loan.events.length > 0)
+    .map(loan => {
+      const emi = loan.emis[0] // Get the EMI for this month
+      return {
+        loanId: loan.id,
+        loanType: loan.loanType,
+        institution: loan.institution,
+        emiAmount: emi ? toBase(Number(emi.emiAmount), loan.currency, emi.dueDate) : 0,
+        currency: loan.currency, // Of the loan's own events; emiAmount is in the base currency
+        isPaid: emi ? emi.isPaid : true,
+        paidDate: emi?.paidDate?.toISOString() || null,
+        dueDate: emi?.dueDate.toISOString() || null,
+        isClosed: loan.isClosed,
+        closedAt: loan.closedAt?.toISOString() || null,
+        events: toSnapshotLoanEvents(loan.events),
+      }
+    })
+
+  // Get SIPs for this month
+  const sips = await prisma.sIP.findMany({
+    where: {
+      userId,
+      isActive: true,
+      startDate: { lt: endDate },
+      OR: [
+        { endDate: null },
+        { endDate: { gte: startDate } },
+      ],
+    },
+    include: { pauses: true, skips: true },
+  })
+
+  let totalSIPs = 0
+  sips.forEach((sip) => {
+    // Step-ups are in the SIP's own terms, so convert the month's amount; SIPs with an INR amount are debited in INR
+    const amountForMonth = getAmountForMonth(
+      Number(sip.amount),
+      sip.frequency,
+      new Date(sip.startDate),
+      month - 1, // month - 1 because getAmountForMonth expects 0-based month
+      year,
+      getScheduleAdjustments(sip)
+    )
+    totalSIPs += toBase(amountForMonth, sip.amountInINR ? "INR" : sip.currency, startDate)
+  })
+
+  // Get expenses for this month
+  const expenses = await prisma.expense.findMany({
+    where: {
+      userId,
+      date: {
+        gte: startDate,
+        lt: endDate,
+      },
+    },
+  })
+
+  let totalExpenses = 0
+  let expectedExpenses = 0
+  let unexpectedExpenses = 0
+  let needsExpenses = 0
+  let avoidExpenses = 0
+
+  for (const expense of expenses) {
+    const amount = toBase(Number(expense.amount), expense.currency, expense.date)
+    totalExpenses += amount
+
+    if (expense.expenseType === "EXPECTED") {
+      expectedExpenses += amount
+    } else {
+      unexpectedExpenses += amount
+    }
+
+    if (expense.category === "NEEDS") {
+      needsExpenses += amount
+    } else if (expense.category === "PARTIAL_NEEDS") {
+      needsExpenses += expense.needsPortion ? toBase(Number(expense.needsPortion), expense.currency, expense.date) : 0
+      avoidExpenses += expense.avoidPortion ? toBase(Number(expense.avoidPortion), expense.currency, expense.date) : 0
+    } else {
+      avoidExpenses += amount
+    }
+  }
+
+  // Get budget and allocations
+  const budgetData = await prisma.expenseBudget.findUnique({
+    where: { userId },
+  })
+
+  const budget = budgetData ? {
+    expectedPercent: budgetData.expectedPercent ? Number(budgetData.expectedPercent) : null,
+    expectedAmount: budgetData.expectedAmount ? Number(budgetData.expectedAmount) : null,
+    unexpectedPercent: budgetData.unexpectedPercent ? Number(budgetData.unexpectedPercent) : null,
+    unexpectedAmount: budgetData.unexpectedAmount ? Number(budgetData.unexpectedAmount) : null,
+  } : null
+
+  const allocationData = await prisma.investmentAllocation.findMany({
+    where: { userId },
+  })
+
+  const allocations = allocationData.map(a => ({
+    bucket: a.bucket,
+    allocationType: a.allocationType as "PERCENTAGE" | "AMOUNT",
+    percent: a.percent ? Number(a.percent) : null,
+    customAmount: a.customAmount ? Number(a.customAmount) : null,
+  }))
+
+  // Get member transactions for this month (need this before calculating financial summary)
+  const memberTransactionsPrelim = await prisma.memberTransaction.findMany({
+    where: {
+      userId,
+      date: { gte: startDate, lt: endDate },
+      isSettled: false,
+    },
+  })
+
+  let memberBorrowedPrelim = 0
+  let memberLentPrelim = 0
+
+  memberTransactionsPrelim.forEach(txn => {
+    const amount = Number(txn.amount)
+    if (txn.transactionType === "OWE" || txn.transactionType === "EXPENSE_PAID_BY_THEM") {
+      memberBorrowedPrelim += amount
+    } else if (txn.transactionType === "GAVE" || txn.transactionType === "EXPENSE_PAID_FOR_THEM") {
+      memberLentPrelim += amount
+    }
+  })
+
+  // Use financial summary calculation with budget/allocation logic
+  const financialSummary = calculateFinancialSummary(
+    salary,
+    taxAmount,
+    totalLoans,
+    totalSIPs,
+    totalExpenses,
+    budget,
+    allocations,
+    0, // oneTimeInvestments - will be calculated later
+    0, // sipExecutions - will be calculated later
+    0, // paidEMIs - will be calculated later
+    0, // additionalEMIPaid - will be calculated later
+    memberBorrowedPrelim,
+    memberLentPrelim
+  )
+
+  // Get previous month surplus
+  const previousMonth = month === 1 ? 12 : month - 1
+  const previousYear = month === 1 ? year - 1 : year
+
+  const previousSnapshot = await prisma.monthlySnapshot.findUnique({
+    where: {
+      userId_year_month: {
+        userId,
+        year: previousYear,
+        month: previousMonth,
+      },
+    },
+  })
+
+  // The previous month may have been closed in another base currency
+  const previousSurplus = previousSnapshot
+    ? (await createCurrencyConverter(converter.baseCurrency, [previousSnapshot.currency]))
+      .convert(Number(previousSnapshot.surplusAmount), previousSnapshot.currency, new Date(startDate.getTime() - 1))
+    : 0
+
+  // ============ EMI DETAILS ============
+  // Get all paid EMIs in this month (by payment date)
+  const paidEMIs = await prisma.eMI.findMany({
+    where: {
+      loan: { userId },
+      isPaid: true,
+      paidDate: { gte: startDate, lt: endDate },
+    },
+    include: { loan: { select: { currency: true } } },
+  })
+
+  // Separate current month EMIs vs additional payments (old dues/advance)
+  const currentMonthEMIs = paidEMIs.filter(emi => {
+    const dueDate = new Date(emi.dueDate)
+    return dueDate >= startDate && dueDate < endDate
+  })
+
+  const additionalEMIs = paidEMIs.filter(emi => {
+    const dueDate = new Date(emi.dueDate)
+    return dueDate < startDate || dueDate >= endDate
+  })
+
+  const paidInBase = (emi: typeof paidEMIs[number]) =>
+    toBase(Number(emi.paidAmount || emi.emiAmount), emi.loan.currency, emi.paidDate ?? emi.dueDate)
+
+  const currentMonthEMIPaid = currentMonthEMIs.reduce((sum, emi) => sum + paidInBase(emi), 0)
+  const currentMonthEMIPaidCount = currentMonthEMIs.length
+  const additionalEMIPaid = additionalEMIs.reduce((sum, emi) => sum + paidInBase(emi), 0)
+  const additionalEMIPaidCount = additionalEMIs.length
+
+  // Get unpaid EMIs for current month (by due date)
+  const unpaidEMIs = await prisma.eMI.findMany({
+    where: {
+      loan: { userId },
+      isPaid: false,
+      dueDate: { gte: startDate, lt: endDate },
+    },
+    include: { loan: { select: { currency: true } } },
+  })
+
+  const currentMonthEMIUnpaid = unpaidEMIs.reduce((sum, emi) => sum + toBase(Number(emi.emiAmount), emi.loan.currency, emi.dueDate), 0)
+  const currentMonthEMIUnpaidCount = unpaidEMIs.length
+
+  // ============ SIP & INVESTMENT DETAILS ============
+  // Get SIP executions for this month
+  const sipExecutions = await prisma.sIPExecution.findMany({
+    where: {
+      userId,
+      executionDate: { gte: startDate, lt: endDate },
+      status: "SUCCESS",
+    },
+  })
+
+  const sipExecutionsAmount = sipExecutions.reduce(
+    (sum, exec) => sum + toBase(Number(exec.amount), exec.currency, exec.executionDate, exec.inrRate),
+    0
+  )
+  const sipExecutionsCount = sipExecutions.length
+
+  // Get one-time investment transactions for this month
+  const oneTimeTransactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      purchaseDate: { gte: startDate, lt: endDate },
+      transactionType: "ONE_TIME_PURCHASE",
+    },
+  })
+
+  const oneTimeInvestments = oneTimeTransactions.reduce((sum, txn) => {
+    // Use the recorded INR amount for INR reports, otherwise convert the transaction amount
+    if (converter.baseCurrency === "INR" && txn.amountInr) return sum + Number(txn.amountInr)
+    return sum + toBase(Number(txn.amount), txn.currency, txn.purchaseDate, txn.inrRate)
+  }, 0)
+  const oneTimeInvestmentsCount = oneTimeTransactions.length
+
+  // Additional transactions (one-time + additional EMI paid)
+  const additionalTransactions = oneTimeInvestments + additionalEMIPaid
+
+  // ============ INVESTMENT RETURNS ============
+  const allHoldings = await prisma.holding.findMany({
+    where: { userId },
+  })
+
+  // Past months are valued at the prices of their last day from the price history,
+  // the current month at the latest prices
+  const isPastMonth = endDate.getTime() <= Date.now()
+  const monthEndPrices = isPastMonth
+    ? await getPricesOn(allHoldings, new Date(endDate.getTime() - 1))
+    : new Map<string, number>()
+  const getMonthEndPrice = (holding: typeof allHoldings[number]) =>
+    monthEndPrices.get(getPriceKey(holding)) ?? (holding.currentPrice ? Number(holding.currentPrice) : null)
+  const valuationDate = isPastMonth ? new Date(endDate.getTime() - 1) : new Date()
+
+  // Get all transactions (SIP + one-time) made this month
+  const allMonthTransactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      purchaseDate: { gte: startDate, lt: endDate },
+      transactionType: { in: ["SIP_EXECUTION", "ONE_TIME_PURCHASE"] },
+    },
+    include: {
+      holding: true,
+    },
+  })
+
+  let totalInvestedThisMonth = 0
+  let totalCurrentValueThisMonth = 0
+
+  allMonthTransactions.forEach(txn => {
+    const qty = Number(txn.qty)
+    const buyPrice = Number(txn.price)
+    const currentPrice = (txn.holding && getMonthEndPrice(txn.holding)) ?? buyPrice
+
+    totalInvestedThisMonth += toBase(qty * buyPrice, txn.currency, txn.purchaseDate, txn.inrRate)
+    totalCurrentValueThisMonth += toBase(qty * currentPrice, txn.currency, valuationDate, txn.inrRate)
+  })
+
+  const currentMonthReturns = totalCurrentValueThisMonth - totalInvestedThisMonth
+  const currentMonthReturnsPct = totalInvestedThisMonth > 0 ? (currentMonthReturns / totalInvestedThisMonth) * 100 : 0
+
+  // Calculate SIP-only returns
+  const sipOnlyTransactions = allMonthTransactions.filter(txn => txn.transactionType === "SIP_EXECUTION")
+  let sipInvestedThisMonth = 0
+  let sipCurrentValueThisMonth = 0
+
+  sipOnlyTransactions.forEach(txn => {
+    const qty = Number(txn.qty)
+    const buyPrice = Number(txn.price)
+    const currentPrice = (txn.holding && getMonthEndPrice(txn.holding)) ?? buyPrice
+
+    sipInvestedThisMonth += toBase(qty * buyPrice, txn.currency, txn.purchaseDate, txn.inrRate)
+    sipCurrentValueThisMonth += toBase(qty * currentPrice, txn.currency, valuationDate, txn.inrRate)
+  })
+
+  const monthOnMonthSIPProfit = sipCurrentValueThisMonth - sipInvestedThisMonth
+  const monthOnMonthSIPProfitPct = sipInvestedThisMonth > 0 ? (monthOnMonthSIPProfit / sipInvestedThisMonth) * 100 : 0
+
+  // Overall portfolio value and P&L
+  let overallPortfolioValue = 0
+  let overallPortfolioCost = 0
+
+  allHoldings.forEach(holding => {
+    const qty = Number(holding.qty)
+    const avgCost = Number(holding.avgCost)
+    const currentPrice = getMonthEndPrice(holding) ?? avgCost
+
+    overallPortfolioCost += toBase(qty * avgCost, holding.currency, holding.createdAt, holding.inrRate)
+    overallPortfolioValue += toBase(qty * currentPrice, holding.currency, valuationDate, holding.inrRate)
+  })
+
+  const overallPortfolioPnL = overallPortfolioValue - overallPortfolioCost
+  const overallPortfolioPnLPct = overallPortfolioCost > 0 ? (overallPortfolioPnL / overallPortfolioCost) * 100 : 0
+
+  // XIRR and time-weighted return from dated cashflows, which unlike P&L % account for when money went in
+  const { overallPortfolioXirr, overallPortfolioTwr } = await getMonthlyPortfolioReturns(userId, year, month)
+
+  // ============ BUDGET TRACKING ============
+  const plannedExpenses = financialSummary.isUsingBudget
+    ? financialSummary.availableForExpenses
+    : 0
+  const expectedBudget = financialSummary.expectedBudget
+  const unexpectedBudget = financialSummary.unexpectedBudget
+  const isUsingBudget = financialSummary.isUsingBudget
+
+  // ============ LOAN LIFECYCLE ============
+  // Get loans added this month
+  const loansAdded = await prisma.loan.findMany({
+    where: {
+      userId,
+      createdAt: { gte: startDate, lt: endDate },
+    },
+  })
+
+  const loansAddedCount = loansAdded.length
+  const loansAddedData = loansAdded.map(loan => ({
+    loanId: loan.id,
+    loanType: loan.loanType,
+    institution: loan.institution,
+    principalAmount: toBase(Number(loan.principalAmount), loan.currency, loan.startDate),
+    createdAt: loan.createdAt.toISOString(),
+  }))
+
+  // Get loans closed this month
+  const loansClosed = await prisma.loan.findMany({
+    where: {
+      userId,
+      isClosed: true,
+      closedAt: { gte: startDate, lt: endDate },
+    },
+  })
+
+  const loansClosedCount = loansClosed.length
+  const loansClosedData = loansClosed.map(loan => ({
+    loanId: loan.id,
+    loanType: loan.loanType,
+    institution: loan.institution,
+    closedAt: loan.closedAt?.toISOString() || null,
+  }))
+
+  // ============ MEMBER TRANSACTIONS ============
+  // Fetch member transactions with member details for snapshot data
+  const memberTransactionsWithDetails = await prisma.memberTransaction.findMany({
+    where: {
+      userId,
+      date: { gte: startDate, lt: endDate },
+      isSettled: false,
+    },
+    include: {
+      member: {
+        select: {
+          id: true,
+          name: true,
+          category: true,
+        },
+      },
+    },
+  })
+
+  const memberTransactionsData = memberTransactionsWithDetails.map(txn => ({
+    memberId: txn.member.id,
+    memberName: txn.member.name,
+    memberCategory: txn.member.category,
+    transactionType: txn.transactionType,
+    amount: Number(txn.amount),
+    date: txn.date.toISOString(),
+  }))
+
+  const memberTransactionsCount = memberTransactionsWithDetails.length
+  const memberBorrowed = memberBorrowedPrelim
+  const memberLent = memberLentPrelim
+
+  // ============ SURPLUS CALCULATIONS ============
+  // One-time purchases are now tracked through holdings, not separately
+  const investmentsMade = 0
+
+  // Calculate available amount (base surplus after deductions)
+  const availableAmount = financialSummary.availableSurplus
+  const spentAmount = totalExpenses + investmentsMade
+  const surplusAmount = availableAmount - spentAmount
+
+  // Planned surplus (after scheduled EMI, planned SIPs, and expenses)
+  const plannedSurplus = financialSummary.plannedSurplus
+
+  // Cash remaining (after all actual transactions)
+  // Start with income, deduct tax
+  const afterActualTax = salary - taxAmount
+
+  // Use actual paid EMIs instead of scheduled
+  const afterActualEMIs = afterActualTax - currentMonthEMIPaid
+
+  // For SIPs, use successful executions if available, otherwise use planned
+  const actualSIPAmount = sipExecutionsAmount > 0 ? sipExecutionsAmount : totalSIPs
+  const afterActualSIPs = afterActualEMIs - actualSIPAmount
+
+  // Apply member transactions: borrowed adds (like income), lent subtracts (like expense)
+  const afterActualMemberTransactions = afterActualSIPs + memberBorrowed - memberLent
+
+  // Deduct actual expenses and one-time investments
+  const cashRemaining = afterActualMemberTransactions - totalExpenses - oneTimeInvestments
+
+  // Calculate borrowed funds summary
+  const borrowedFundsSummary = await calculateBorrowedFundsSummary(userId, month, year, converter)
+
+  return {
+    currency: converter.baseCurrency,
+    salary,
+    taxAmount,
+    afterTax,
+    totalLoans,
+    totalSIPs,
+    totalExpenses,
+    expectedExpenses,
+    unexpectedExpenses,
+    needsExpenses,
+    avoidExpenses,
+    availableAmount,
+    spentAmount,
+    surplusAmount,
+    plannedSurplus,
+    cashRemaining,
+    previousSurplus,
+    investmentsMade,
+    loansData,
+
+    // EMI Details
+    currentMonthEMIPaid,
+    currentMonthEMIUnpaid,
+    currentMonthEMIPaidCount,
+    currentMonthEMIUnpaidCount,
+    additionalEMIPaid,
+    additionalEMIPaidCount,
+
+    // SIP & Investment Details
+    totalSIPInvested: totalSIPs,
+    sipExecutionsAmount,
+    sipExecutionsCount,
+    oneTimeInvestments,
+    oneTimeInvestmentsCount,
+    additionalTransactions,
+
+    // Investment Returns
+    monthOnMonthSIPProfit,
+    monthOnMonthSIPProfitPct,
+    currentMonthReturns,
+    currentMonthReturnsPct,
+    overallPortfolioValue,
+    overallPortfolioPnL,
+    overallPortfolioPnLPct,
+    overallPortfolioXirr,
+    overallPortfolioTwr,
+
+    // Budget Tracking
+    plannedExpenses,
+    expectedBudget,
+    unexpectedBudget,
+    isUsingBudget,
+
+    // Loan Lifecycle
+    loansAdded: loansAddedCount,
+    loansAddedData,
+    loansClosed: loansClosedCount,
+    loansClosedData,
+
+    // Member Transactions
+    memberBorrowed,
+    memberLent,
+    memberTransactionsCount,
+    memberTransactionsData,
+
+    // Borrowed Funds
+    borrowedFundsReceived: borrowedFundsSummary.borrowedFundsReceived,
+    borrowedFundsReturned: borrowedFundsSummary.borrowedFundsReturned,
+    borrowedFundsCount: borrowedFundsSummary.borrowedFundsCount,
+    borrowedFundsData: borrowedFundsSummary.borrowedFundsData,
+    borrowedFundsProfit: borrowedFundsSummary.borrowedFundsProfit,
+  }
+}
+
+export type MonthlySnapshotData = Awaited<ReturnType<typeof calculateMonthlyData>>
+
+const formatMonth = (year: number, month: number) =>
+  new Date(year, month - 1, 1).toLocaleDateString("en-US", { month: "long", year: "numeric" })
+
+// JSONB does not keep key order, so detail lists are compared with sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function toComparable(value: unknown, kind: SnapshotFieldKind): number | string | boolean | null {
+  if (kind === "details") return Array.isArray(value) ? value.length : 0
+  if (value === null || value === undefined) return null
+  switch (kind) {
+    case "amount":
+    case "percent":
+      // Stored with two decimals
+      return Math.round(Number(value) * 100) / 100
+    case "count":
+      return Number(value)
+    case "flag":
+      return Boolean(value)
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Compare a stored snapshot with freshly calculated data, field by field
+ * - Amounts and percentages are compared at the two decimals they are stored with
+ * - Detail lists are compared by content and reported by their number of entries
+ */
+export function diffSnapshot(stored: MonthlySnapshot, computed: MonthlySnapshotData): SnapshotFieldChange[] {
+  const storedValues = stored as unknown as Record<string, unknown>
+  const computedValues = computed as unknown as Record<string, unknown>
+
+  return SNAPSHOT_FIELDS.flatMap(({ field, kind }) => {
+    const before = toComparable(storedValues[field], kind)
+    const after = toComparable(computedValues[field], kind)
+    const changed = kind === "details"
+      ? stableStringify(storedValues[field]) !== stableStringify(computedValues[field])
+      : before !== after
+    if (!changed) return []
+
+    return [{
+      field,
+      kind,
+      stored: before,
+      computed: after,
+      difference: typeof before === "number" && typeof after === "number" && kind !== "details"
+        ? Math.round((after - before) * 100) / 100
+        : null,
+    }]
+  })
+}
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue
+
+async function findSnapshot(userId: string, year: number, month: number) {
+  return prisma.monthlySnapshot.findUnique({
+    where: { userId_year_month: { userId, year, month } },
+  })
+}
+
+/**
+ * Close a month: save its snapshot, lock it against edits and record the close
+ * Only the request that flips the month to closed saves the snapshot and records the event
+ * Throws when the month is already closed
+ */
+export async function closeMonth(userId: string, year: number, month: number, trigger: MonthCloseTrigger = "MANUAL") {
+  const existing = await findSnapshot(userId, year, month)
+  if (existing?.isClosed) {
+    throw new Error(`${formatMonth(year, month)} is already closed`)
+  }
+
+  const data = await calculateMonthlyData(userId, year, month)
+  const closedAt = new Date()
+  const alreadyClosed = () => new Error(`${formatMonth(year, month)} is already closed`)
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.monthlySnapshot.updateMany({
+      where: { userId, year, month, isClosed: false },
+      data: { ...data, isClosed: true, closedAt },
+    })
+
+    let created = false
+    if (count === 0) {
+      if (await tx.monthlySnapshot.findUnique({ where: { userId_year_month: { userId, year, month } } })) {
+        throw alreadyClosed()
+      }
+      try {
+        await tx.monthlySnapshot.create({ data: { userId, month, year, ...data, isClosed: true, closedAt } })
+      } catch (error) {
+        // Another close created the month's snapshot first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") throw alreadyClosed()
+        throw error
+      }
+      created = true
+    }
+
+    await tx.monthCloseEvent.create({
+      data: { userId, year, month, action: "CLOSE", trigger, snapshot: toJson(data) },
+    })
+
+    const snapshot = await tx.monthlySnapshot.findUniqueOrThrow({
+      where: { userId_year_month: { userId, year, month } },
+    })
+    return { snapshot, created }
+  })
+}
+
+/**
+ * Reopen a closed month so its data can be edited again
+ * The stored snapshot is kept until the month is closed again
+ * Throws when the month is not closed
+ */
+export async function reopenMonth(userId: string, year: number, month: number, reason: string) {
+  return prisma.$transaction(async (tx) => {
+    // Only the request that flips the flag records the reopen
+    const { count } = await tx.monthlySnapshot.updateMany({
+      where: { userId, year, month, isClosed: true },
+      data: { isClosed: false, closedAt: null },
+    })
+    if (count === 0) {
+      throw new Error(`${formatMonth(year, month)} is not closed`)
+    }
+
+    await tx.monthCloseEvent.create({
+      data: { userId, year, month, action: "REOPEN", reason },
+    })
+
+    return tx.monthlySnapshot.findUniqueOrThrow({
+      where: { userId_year_month: { userId, year, month } },
+    })
+  })
+}
+
+/**
+ * Calculate a month again and compare it with its stored snapshot, without saving
+ * Throws when no snapshot has been saved for the month
+ */
+export async function previewRecompute(userId: string, year: number, month: number) {
+  const snapshot = await findSnapshot(userId, year, month)
+  if (!snapshot) {
+    throw new Error(`No snapshot has been saved for ${formatMonth(year, month)}`)
+  }
+
+  const data = await calculateMonthlyData(userId, year, month)
+  return { snapshot, data, changes: diffSnapshot(snapshot, data) }
+}
+
+/**
+ * Replace a stored snapshot with a fresh calculation and record the fields that changed
+ * A closed month stays closed; the next month's carried forward surplus is not touched
+ */
+export async function recomputeMonth(userId: string, year: number, month: number, reason?: string) {
+  const { data, changes } = await previewRecompute(userId, year, month)
+
+  const [snapshot] = await prisma.$transaction([
+    prisma.monthlySnapshot.update({
+      where: { userId_year_month: { userId, year, month } },
+      data,
+    }),
+    prisma.monthCloseEvent.create({
+      data: {
+        userId,
+        year,
+        month,
+        action: "RECOMPUTE",
+        reason: reason || null,
+        snapshot: toJson(data),
+        changes: toJson(changes),
+      },
+    }),
+  ])
+
+  return { snapshot, changes }
+}
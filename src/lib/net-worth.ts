@@ -0,0 +1,199 @@
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import type { CurrencyConverter, ManualAssetType, NetWorthBreakdown, NetWorthPoint } from "@/types"
+
+type NetWorthSnapshotRecord = Prisma.NetWorthSnapshotGetPayload<object>
+type ManualAssetRecord = Prisma.ManualAssetGetPayload<object>
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Start of the day (local time) a net worth point is recorded for
+ */
+export function getNetWorthDate(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * Calculate a user's current net worth from stored values, in the user's base currency
+ * - Holdings use the last stored price (avg cost when never priced), converted at the day's rate
+ * - Loans and borrowed funds are converted at the day's rate
+ * - Credit card dues are what is unpaid on each card's latest statement, which carries earlier
+ *   unpaid statements and the open cycle's spend (statements are in the base currency)
+ * - Manual assets and member balances are recorded in the base currency
+ * - Member balances count as money lent when positive and money owed when negative
+ */
+export async function calculateNetWorth(userId: string, date: Date = new Date()): Promise<NetWorthBreakdown> {
+  const today = getNetWorthDate(date)
+
+  const [converter, holdings, manualAssets, members, loans, borrowedFunds, cardDues] = await Promise.all([
+    getUserCurrencyConverter(userId),
+    prisma.holding.findMany({
+      where: { userId, qty: { gt: 0 } },
+      select: { bucket: true, qty: true, avgCost: true, currentPrice: true, currency: true, inrRate: true },
+    }),
+    prisma.manualAsset.findMany({
+      where: { userId, isActive: true },
+      select: { type: true, value: true },
+    }),
+    prisma.member.findMany({
+      where: { userId, currentBalance: { not: 0 } },
+      select: { currentBalance: true },
+    }),
+    prisma.loan.findMany({
+      where: { userId, isActive: true, isClosed: false },
+      select: { currentOutstanding: true, currency: true },
+    }),
+    prisma.borrowedFund.findMany({
+      where: { userId, isFullyReturned: false },
+      select: { borrowedAmount: true, returnedAmount: true, currency: true },
+    }),
+    prisma.cardStatement.findMany({
+      where: { userId },
+      orderBy: { periodEnd: "desc" },
+      distinct: ["creditCardId"],
+      select: { totalDue: true, paidAmount: true },
+    }),
+  ])
+
+  let holdingsValue = 0
+  let emergencyFund = 0
+  for (const holding of holdings) {
+    const price = holding.currentPrice != null ? Number(holding.currentPrice) : Number(holding.avgCost)
+    const value = converter.convert(Number(holding.qty) * price, holding.currency, date)
+    if (holding.bucket === "EMERGENCY_FUND") {
+      emergencyFund += value
+    } else {
+      holdingsValue += value
+    }
+  }
+
+  const manualAssetsByType: Partial<Record<ManualAssetType, number>> = {}
+  for (const asset of manualAssets) {
+    manualAssetsByType[asset.type] = round2((manualAssetsByType[asset.type] ?? 0) + Number(asset.value))
+  }
+  const manualAssetsValue = manualAssets.reduce((sum, asset) => sum + Number(asset.value), 0)
+
+  let moneyLent = 0
+  let moneyOwed = 0
+  for (const member of members) {
+    const balance = Number(member.currentBalance)
+    if (balance > 0) {
+      moneyLent += balance
+    } else {
+      moneyOwed += Math.abs(balance)
+    }
+  }
+
+  const loansValue = loans.reduce(
+    (sum, loan) => sum + converter.convert(Number(loan.currentOutstanding), loan.currency, date),
+    0
+  )
+  const borrowedValue = borrowedFunds.reduce(
+    (sum, fund) => sum + converter.convert(Math.max(0, Number(fund.borrowedAmount) - Number(fund.returnedAmount)), fund.currency, date),
+    0
+  )
+  const creditCardDues = cardDues.reduce(
+    (sum, statement) => sum + Math.max(0, Number(statement.totalDue) - Number(statement.paidAmount)),
+    0
+  )
+
+  const assets = {
+    holdings: round2(holdingsValue),
+    emergencyFund: round2(emergencyFund),
+    manualAssets: round2(manualAssetsValue),
+    moneyLent: round2(moneyLent),
+  }
+  const liabilities = {
+    loans: round2(loansValue),
+    borrowedFunds: round2(borrowedValue),
+    creditCardDues: round2(creditCardDues),
+    moneyOwed: round2(moneyOwed),
+  }
+  const totalAssets = round2(assets.holdings + assets.emergencyFund + assets.manualAssets + assets.moneyLent)
+  const totalLiabilities = round2(
+    liabilities.loans + liabilities.borrowedFunds + liabilities.creditCardDues + liabilities.moneyOwed
+  )
+
+  return {
+    date: today.toISOString(),
+    currency: converter.baseCurrency,
+    assets,
+    liabilities,
+    manualAssetsByType,
+    totalAssets,
+    totalLiabilities,
+    netWorth: round2(totalAssets - totalLiabilities),
+  }
+}
+
+/**
+ * Calculate and store today's net worth point, replacing an earlier one from the same day
+ */
+export async function recordNetWorthSnapshot(userId: string, date: Date = new Date()) {
+  const breakdown = await calculateNetWorth(userId, date)
+  const day = getNetWorthDate(date)
+
+  const data = {
+    ...breakdown.assets,
+    ...breakdown.liabilities,
+    totalAssets: breakdown.totalAssets,
+    totalLiabilities: breakdown.totalLiabilities,
+    netWorth: breakdown.netWorth,
+    currency: breakdown.currency,
+    manualAssetsData: breakdown.manualAssetsByType,
+  }
+
+  return prisma.netWorthSnapshot.upsert({
+    where: { userId_date: { userId, date: day } },
+    create: { userId, date: day, ...data },
+    update: data,
+  })
+}
+
+/**
+ * Serialise a stored net worth point for API responses
+ * Points recorded in an earlier base currency are converted at the rate on their day
+ */
+export function serializeNetWorthSnapshot(snapshot: NetWorthSnapshotRecord, converter: CurrencyConverter): NetWorthPoint {
+  const toBase = (value: unknown) => round2(converter.convert(Number(value), snapshot.currency, snapshot.date))
+  return {
+    date: snapshot.date.toISOString(),
+    holdings: toBase(snapshot.holdings),
+    emergencyFund: toBase(snapshot.emergencyFund),
+    manualAssets: toBase(snapshot.manualAssets),
+    moneyLent: toBase(snapshot.moneyLent),
+    loans: toBase(snapshot.loans),
+    borrowedFunds: toBase(snapshot.borrowedFunds),
+    creditCardDues: toBase(snapshot.creditCardDues),
+    moneyOwed: toBase(snapshot.moneyOwed),
+    totalAssets: toBase(snapshot.totalAssets),
+    totalLiabilities: toBase(snapshot.totalLiabilities),
+    netWorth: toBase(snapshot.netWorth),
+  }
+}
+
+/**
+ * Flatten a live breakdown into a history point
+ */
+export function toNetWorthPoint(breakdown: NetWorthBreakdown): NetWorthPoint {
+  return {
+    date: breakdown.date,
+    ...breakdown.assets,
+    ...breakdown.liabilities,
+    totalAssets: breakdown.totalAssets,
+    totalLiabilities: breakdown.totalLiabilities,
+    netWorth: breakdown.netWorth,
+  }
+}
+
+/**
+ * Serialise a manual asset for API responses
+ */
+export function serializeManualAsset(asset: ManualAssetRecord) {
+  return {
+    ...asset,
+    value: Number(asset.value),
+  }
+}
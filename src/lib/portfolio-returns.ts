@@ -0,0 +1,488 @@
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { calculateTWR, calculateXIRR } from "@/lib/returns-calculator"
+import { getPriceKey, getPriceSeries, getPricesOn } from "@/lib/price-history"
+import { toPriceDate } from "@/lib/market-data"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import type { Cashflow, ValuationPoint } from "@/lib/returns-calculator"
+import { INVESTMENT_BUCKETS } from "@/constants"
+import type {
+  BucketReturns,
+  CurrencyConverter,
+  HoldingReturns,
+  InvestmentBucket,
+  PortfolioReturns,
+  PortfolioValuePoint,
+  PriceInstrument,
+  PricePoint,
+  ReturnMetrics,
+  SIPReturns,
+} from "@/types"
+
+const QTY_EPSILON = 1e-8
+
+interface LedgerEntry {
+  date: Date
+  flow: number // Base currency added (purchase) or taken out (sale, negative)
+  qty: number // Units held after the entry
+  price: number // Market price per unit in the base currency on the date
+  rate: number // Base currency per unit of the position's currency on the date
+}
+
+interface Ledger {
+  bucket: InvestmentBucket
+  entries: LedgerEntry[]
+  currentValue: number
+}
+
+interface LedgerItem {
+  type: string
+  date: Date
+  qty: number
+  price: number
+  amount: number
+  amountInr: number | null
+  inrRate: number | null
+}
+
+interface ValuedHolding {
+  currency: string
+  qty: unknown
+  avgCost: unknown
+  currentPrice: unknown
+  inrRate: unknown
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+const dayKey = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+
+/**
+ * Convert an amount in the holding currency to the base currency at the item's date
+ * Items without a recorded INR rate fall back to the rate implied by amountInr, then the holding's rate
+ */
+function toBase(
+  converter: CurrencyConverter,
+  item: LedgerItem,
+  value: number,
+  currency: string,
+  holdingRate: number | null
+): number {
+  const inrRate = item.inrRate ?? (item.amountInr && item.amount ? item.amountInr / item.amount : null) ?? holdingRate
+  return converter.convert(value, currency, item.date, inrRate)
+}
+
+/**
+ * Price per unit of a holding in the base currency on a date: the given historical price,
+ * else the current price, else average cost when never priced
+ */
+function getCurrentPriceInBase(
+  converter: CurrencyConverter,
+  holding: ValuedHolding,
+  date: Date,
+  historicalPrice?: number
+): number {
+  const price = historicalPrice ?? (holding.currentPrice != null ? Number(holding.currentPrice) : Number(holding.avgCost))
+  return converter.convert(price, holding.currency, date, holding.inrRate != null ? Number(holding.inrRate) : null)
+}
+
+/**
+ * Replay the purchases and sales of one position into a ledger of dated flows in the base currency
+ * - Purchases (one-time, SIP, manual entry) add units at their price
+ * - Sales take out their proceeds and the average cost of the units sold
+ * - Manual edits restate the whole position; the change in cost is the flow and the
+ *   last traded price stays the market price
+ */
+function buildLedgerEntries(
+  converter: CurrencyConverter,
+  items: LedgerItem[],
+  currency: string,
+  holdingRate: number | null
+): LedgerEntry[] {
+  const entries: LedgerEntry[] = []
+  let qty = 0
+  let cost = 0
+  let lastPrice: number | null = null
+
+  const sorted = [...items].sort((a, b) => a.date.getTime() - b.date.getTime())
+  for (const item of sorted) {
+    const amount = converter.baseCurrency === "INR" && item.amountInr != null
+      ? item.amountInr
+      : toBase(converter, item, item.amount, currency, holdingRate)
+    const price = toBase(converter, item, item.price, currency, holdingRate)
+    let flow: number
+
+    switch (item.type) {
+      case "SELL": {
+        const soldCost = qty > QTY_EPSILON ? cost * Math.min(1, item.qty / qty) : 0
+        cost -= soldCost
+        qty = Math.max(0, qty - item.qty)
+        flow = -amount
+        lastPrice = price
+        break
+      }
+      case "MANUAL_EDIT":
+        flow = amount - cost
+        cost = amount
+        qty = item.qty
+        lastPrice = lastPrice ?? price
+        break
+      default:
+        flow = amount
+        cost += amount
+        qty += item.qty
+        lastPrice = price
+    }
+
+    entries.push({ date: item.date, flow, qty, price: lastPrice, rate: toBase(converter, item, 1, currency, holdingRate) })
+  }
+
+  return entries
+}
+
+/**
+ * Combine ledgers into return metrics as of a date
+ * - XIRR uses every flow plus the current value as a final inflow
+ * - TWR values all positions at their last traded price on each flow date
+ */
+export function calculateLedgerReturns(ledgers: Ledger[], asOf: Date): ReturnMetrics {
+  const entries = ledgers
+    .flatMap((ledger, index) => ledger.entries.map(entry => ({ ...entry, index })))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+  const currentValue = ledgers.reduce((sum, ledger) => sum + ledger.currentValue, 0)
+
+  const invested = entries.reduce((sum, entry) => sum + Math.max(0, entry.flow), 0)
+  const withdrawn = entries.reduce((sum, entry) => sum + Math.max(0, -entry.flow), 0)
+  const gain = currentValue + withdrawn - invested
+
+  const cashflows: Cashflow[] = entries.map(entry => ({ date: entry.date, amount: -entry.flow }))
+  cashflows.push({ date: asOf, amount: currentValue })
+
+  // One valuation point per day with flows, then the current value
+  const qtys = ledgers.map(() => 0)
+  const prices = ledgers.map(() => 0)
+  const points: ValuationPoint[] = []
+  for (let i = 0; i < entries.length;) {
+    const key = dayKey(entries[i].date)
+    const day = []
+    while (i < entries.length && dayKey(entries[i].date) === key) day.push(entries[i++])
+
+    day.forEach(entry => { prices[entry.index] = entry.price })
+    const value = qtys.reduce((sum, qty, index) => sum + qty * prices[index], 0)
+    day.forEach(entry => { qtys[entry.index] = entry.qty })
+
+    points.push({
+      date: day[0].date,
+      value,
+      flow: day.reduce((sum, entry) => sum + entry.flow, 0),
+    })
+  }
+  if (points.length > 0) {
+    points.push({ date: asOf, value: currentValue, flow: 0 })
+  }
+
+  const { twr, annualizedTwr } = calculateTWR(points)
+
+  return {
+    invested: round2(invested),
+    withdrawn: round2(withdrawn),
+    currentValue: round2(currentValue),
+    gain: round2(gain),
+    absoluteReturnPct: invested > 0 ? round2((gain / invested) * 100) : null,
+    xirr: calculateXIRR(cashflows),
+    twr,
+    annualizedTwr,
+    since: entries[0]?.date.toISOString() ?? null,
+  }
+}
+
+type SIPExecutionWithHolding = Prisma.SIPExecutionGetPayload<{ include: { sip: true; holding: true } }>
+
+function executionItem(execution: SIPExecutionWithHolding): LedgerItem {
+  return {
+    type: "SIP_EXECUTION",
+    date: execution.executionDate,
+    qty: Number(execution.qty),
+    price: Number(execution.price ?? 0),
+    amount: Number(execution.amount),
+    amountInr: execution.amountInr != null ? Number(execution.amountInr) : null,
+    inrRate: execution.inrRate != null ? Number(execution.inrRate) : null,
+  }
+}
+
+/**
+ * Load a user's investments as positions with their purchases and sales
+ * - Cashflows come from Transaction rows; SIP executions without a matching
+ *   SIP_EXECUTION transaction (same holding, day and amount) are added on top
+ * - Units not explained by transactions count as bought at average cost when the holding was added
+ * - Transactions of deleted holdings join a live holding of the same symbol, or count as a
+ *   closed position in their bucket
+ * - Emergency fund is cash-like and left out
+ */
+async function loadPositions(userId: string, converter: CurrencyConverter) {
+  const [holdings, transactions, executions] = await Promise.all([
+    prisma.holding.findMany({
+      where: { userId, bucket: { not: "EMERGENCY_FUND" } },
+    }),
+    prisma.transaction.findMany({
+      where: { userId, bucket: { not: "EMERGENCY_FUND" } },
+      orderBy: [{ purchaseDate: "asc" }, { createdAt: "asc" }],
+    }),
+    prisma.sIPExecution.findMany({
+      where: { userId, status: "SUCCESS", holdingId: { not: null }, qty: { not: null } },
+      include: { sip: true, holding: true },
+      orderBy: { executionDate: "asc" },
+    }),
+  ])
+
+  const toItem = (txn: typeof transactions[number]): LedgerItem => ({
+    type: txn.transactionType,
+    date: txn.purchaseDate,
+    qty: Number(txn.qty),
+    price: Number(txn.price),
+    amount: Number(txn.amount),
+    amountInr: txn.amountInr != null ? Number(txn.amountInr) : null,
+    inrRate: txn.inrRate != null ? Number(txn.inrRate) : null,
+  })
+
+  const symbolKey = (bucket: string, symbol: string) => `${bucket}:${symbol.toLowerCase()}`
+  const holdingBySymbol = new Map(holdings.map(holding => [symbolKey(holding.bucket, holding.symbol), holding]))
+
+  // Group transactions by position
+  const itemsByHolding = new Map<string, LedgerItem[]>()
+  const closedPositions = new Map<string, { bucket: InvestmentBucket; symbol: string; currency: string; items: LedgerItem[] }>()
+  const sipTransactionKeys = new Map<string, number>()
+  for (const txn of transactions) {
+    const holdingId = txn.holdingId ?? holdingBySymbol.get(symbolKey(txn.bucket, txn.symbol))?.id
+    if (holdingId) {
+      itemsByHolding.set(holdingId, [...(itemsByHolding.get(holdingId) ?? []), toItem(txn)])
+      if (txn.transactionType === "SIP_EXECUTION") {
+        const key = `${holdingId}:${dayKey(txn.purchaseDate)}:${Number(txn.amount).toFixed(2)}`
+        sipTransactionKeys.set(key, (sipTransactionKeys.get(key) ?? 0) + 1)
+      }
+    } else {
+      const key = symbolKey(txn.bucket, txn.symbol)
+      const position = closedPositions.get(key) ?? { bucket: txn.bucket, symbol: txn.symbol, currency: txn.currency, items: [] }
+      position.items.push(toItem(txn))
+      closedPositions.set(key, position)
+    }
+  }
+
+  // Executions recorded without a transaction (e.g. before transactions were tracked)
+  for (const execution of executions) {
+    const holdingId = execution.holdingId as string
+    const key = `${holdingId}:${dayKey(execution.executionDate)}:${Number(execution.amount).toFixed(2)}`
+    const matched = sipTransactionKeys.get(key) ?? 0
+    if (matched > 0) {
+      sipTransactionKeys.set(key, matched - 1)
+    } else if (holdings.some(holding => holding.id === holdingId)) {
+      itemsByHolding.set(holdingId, [...(itemsByHolding.get(holdingId) ?? []), executionItem(execution)])
+    }
+  }
+
+  const holdingPositions = holdings.map(holding => {
+    const holdingRate = holding.inrRate != null ? Number(holding.inrRate) : null
+    const items = itemsByHolding.get(holding.id) ?? []
+
+    // Units added without a transaction count as bought at average cost on the day the holding was added
+    const tracked = buildLedgerEntries(converter, items, holding.currency, holdingRate)
+    const trackedQty = tracked.length > 0 ? tracked[tracked.length - 1].qty : 0
+    const untrackedQty = Number(holding.qty) - trackedQty
+    if (untrackedQty > QTY_EPSILON) {
+      items.push({
+        type: "MANUAL_ENTRY",
+        date: holding.createdAt,
+        qty: untrackedQty,
+        price: Number(holding.avgCost),
+        amount: untrackedQty * Number(holding.avgCost),
+        amountInr: null,
+        inrRate: holdingRate,
+      })
+    }
+
+    return { holding, holdingRate, items }
+  })
+
+  return { holdingPositions, closedPositions: [...closedPositions.values()], executions }
+}
+
+/**
+ * Calculate XIRR and time-weighted returns per holding, bucket, SIP and for the whole portfolio,
+ * in the user's base currency
+ * - Positions are valued at the last stored price; for a past date, the units held then
+ *   are valued at the day's price from the price history, falling back to the last stored
+ *   price (holdings) or the last traded price (closed positions)
+ */
+export async function getPortfolioReturns(userId: string, asOf: Date = new Date()): Promise<PortfolioReturns> {
+  const now = new Date()
+  const isCurrent = asOf.getTime() >= dayKey(now)
+
+  const converter = await getUserCurrencyConverter(userId)
+  const { holdingPositions, closedPositions, executions } = await loadPositions(userId, converter)
+
+  // Past dates are valued at the day's price from the price history
+  const historicalPrices = isCurrent
+    ? new Map<string, number>()
+    : await getPricesOn(holdingPositions.map(position => position.holding), asOf)
+  const getPriceInBase = (holding: ValuedHolding & PriceInstrument) =>
+    getCurrentPriceInBase(converter, holding, asOf, historicalPrices.get(getPriceKey(holding)))
+
+  const holdingLedgers: { holding: typeof holdingPositions[number]["holding"]; ledger: Ledger }[] = []
+  for (const { holding, holdingRate, items } of holdingPositions) {
+    const entries = buildLedgerEntries(converter, items.filter(item => item.date <= asOf), holding.currency, holdingRate)
+    if (entries.length === 0) continue
+
+    const qty = isCurrent ? Number(holding.qty) : entries[entries.length - 1].qty
+    holdingLedgers.push({
+      holding,
+      ledger: { bucket: holding.bucket, entries, currentValue: qty * getPriceInBase(holding) },
+    })
+  }
+
+  // Closed positions only hold units when looking at a date before they were sold
+  const closedPrices = isCurrent ? new Map<string, number>() : await getPricesOn(closedPositions, asOf)
+  const closedLedgers: Ledger[] = closedPositions
+    .map(position => {
+      const entries = buildLedgerEntries(converter, position.items.filter(item => item.date <= asOf), position.currency, null)
+      const last = entries[entries.length - 1]
+      const price = closedPrices.get(getPriceKey(position))
+      return {
+        bucket: position.bucket,
+        entries,
+        currentValue: last && !isCurrent ? last.qty * (price !== undefined ? price * last.rate : last.price) : 0,
+      }
+    })
+    .filter(ledger => ledger.entries.length > 0)
+
+  const allLedgers = [...holdingLedgers.map(item => item.ledger), ...closedLedgers]
+
+  const holdingReturns: HoldingReturns[] = holdingLedgers
+    .map(({ holding, ledger }) => ({
+      holdingId: holding.id,
+      bucket: holding.bucket,
+      symbol: holding.symbol,
+      name: holding.name,
+      ...calculateLedgerReturns([ledger], asOf),
+    }))
+    .sort((a, b) => b.currentValue - a.currentValue)
+
+  const bucketReturns: BucketReturns[] = INVESTMENT_BUCKETS
+    .map(bucket => bucket.id)
+    .filter(bucket => allLedgers.some(ledger => ledger.bucket === bucket))
+    .map(bucket => ({
+      bucket,
+      ...calculateLedgerReturns(allLedgers.filter(ledger => ledger.bucket === bucket), asOf),
+    }))
+
+  // SIP returns follow the units each SIP bought, valued at the holding's price
+  const executionsBySip = new Map<string, typeof executions>()
+  for (const execution of executions) {
+    if (execution.executionDate > asOf) continue
+    executionsBySip.set(execution.sipId, [...(executionsBySip.get(execution.sipId) ?? []), execution])
+  }
+  const sipReturns: SIPReturns[] = [...executionsBySip.values()]
+    .map(sipExecutions => {
+      const { sip, holding } = sipExecutions[0]
+      const currency = holding?.currency ?? sip.currency
+      const holdingRate = holding?.inrRate != null ? Number(holding.inrRate) : null
+      const entries = buildLedgerEntries(converter, sipExecutions.map(executionItem), currency, holdingRate)
+      const qty = entries[entries.length - 1].qty
+      return {
+        sipId: sip.id,
+        name: sip.name,
+        bucket: sip.bucket,
+        isActive: sip.isActive,
+        ...calculateLedgerReturns(
+          [{ bucket: sip.bucket ?? "MUTUAL_FUND", entries, currentValue: holding ? qty * getPriceInBase(holding) : 0 }],
+          asOf
+        ),
+      }
+    })
+    .sort((a, b) => b.currentValue - a.currentValue)
+
+  return {
+    asOf: asOf.toISOString(),
+    portfolio: calculateLedgerReturns(allLedgers, asOf),
+    buckets: bucketReturns,
+    holdings: holdingReturns,
+    sips: sipReturns,
+  }
+}
+
+/**
+ * Whole-portfolio XIRR and TWR for a month, as stored in MonthlySnapshot
+ * Flows up to the end of the month (or today for the current month) are included
+ */
+export async function getMonthlyPortfolioReturns(userId: string, year: number, month: number) {
+  const monthEnd = new Date(new Date(year, month, 1).getTime() - 1)
+  const asOf = monthEnd.getTime() > Date.now() ? new Date() : monthEnd
+  const { portfolio } = await getPortfolioReturns(userId, asOf)
+
+  return {
+    overallPortfolioXirr: portfolio.xirr,
+    overallPortfolioTwr: portfolio.twr,
+  }
+}
+
+/**
+ * Daily value of the portfolio over the last given days, next to the net amount invested
+ * - Units held at the end of each day are valued at the day's price from the price history,
+ *   falling back to the last traded price when no price is stored yet
+ * - Today uses the current prices, matching the returns above
+ */
+export async function getPortfolioValueHistory(userId: string, days: number): Promise<PortfolioValuePoint[]> {
+  const today = new Date()
+  const from = new Date(today.getFullYear(), today.getMonth(), today.getDate() - days)
+  const converter = await getUserCurrencyConverter(userId)
+  const { holdingPositions, closedPositions } = await loadPositions(userId, converter)
+
+  const positions = [
+    ...holdingPositions.map(({ holding, holdingRate, items }) => ({
+      instrument: holding,
+      entries: buildLedgerEntries(converter, items, holding.currency, holdingRate),
+      currentPrice: getCurrentPriceInBase(converter, holding, today),
+    })),
+    ...closedPositions.map(position => ({
+      instrument: position,
+      entries: buildLedgerEntries(converter, position.items, position.currency, null),
+      currentPrice: null,
+    })),
+  ].filter(position => position.entries.length > 0)
+
+  const series = await Promise.all(
+    positions.map(position => getPriceSeries(position.instrument, from, today))
+  )
+
+  // Walk each position's entries and prices forward one day at a time
+  const cursors = positions.map(() => ({ entry: -1, price: -1, invested: 0 }))
+  const points: PortfolioValuePoint[] = []
+  for (let day = new Date(from); day <= today; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime()
+    const priceDate = toPriceDate(day).getTime()
+    const isToday = dayKey(day) === dayKey(today)
+    let value = 0
+    let invested = 0
+
+    positions.forEach((position, index) => {
+      const cursor = cursors[index]
+      const prices: PricePoint[] = series[index]
+      while (cursor.entry + 1 < position.entries.length && position.entries[cursor.entry + 1].date.getTime() < dayEnd) {
+        cursor.entry++
+        cursor.invested += position.entries[cursor.entry].flow
+      }
+      while (cursor.price + 1 < prices.length && prices[cursor.price + 1].date.getTime() <= priceDate) cursor.price++
+      if (cursor.entry < 0) return
+
+      const last = position.entries[cursor.entry]
+      const price = isToday && position.currentPrice !== null
+        ? position.currentPrice
+        : cursor.price >= 0 ? prices[cursor.price].price * last.rate : last.price
+
+      value += last.qty * price
+      invested += cursor.invested
+    })
+
+    points.push({ date: day.toISOString(), value: round2(value), invested: round2(invested) })
+  }
+
+  return points
+}
@@ -0,0 +1,124 @@
+import { prisma } from "@/lib/prisma"
+import { getLatestPrice, isPricedBucket, toPriceDate } from "@/lib/market-data"
+import type { PriceInstrument, PricePoint } from "@/types"
+
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase()
+
+/**
+ * Key identifying an instrument's price series, e.g. "IND_STOCK:INFY:INR"
+ */
+export function getPriceKey(instrument: PriceInstrument): string {
+  return `${instrument.bucket}:${normalizeSymbol(instrument.symbol)}:${instrument.currency}`
+}
+
+const instrumentWhere = (instrument: PriceInstrument) => ({
+  bucket: instrument.bucket,
+  symbol: normalizeSymbol(instrument.symbol),
+  currency: instrument.currency,
+})
+
+/**
+ * Store one day's price, replacing the price already stored for the day
+ */
+export async function savePrice(instrument: PriceInstrument, point: PricePoint, source: string) {
+  const date = toPriceDate(point.date)
+  await prisma.priceHistory.upsert({
+    where: { bucket_symbol_currency_date: { ...instrumentWhere(instrument), date } },
+    create: { ...instrumentWhere(instrument), date, price: point.price, source },
+    update: { price: point.price, source },
+  })
+}
+
+/**
+ * Price on a date, carrying the last known price over weekends, holidays and missed days
+ * Returns null when nothing is stored on or before the date
+ */
+export async function getPriceOn(instrument: PriceInstrument, date: Date): Promise<number | null> {
+  const row = await prisma.priceHistory.findFirst({
+    where: { ...instrumentWhere(instrument), date: { lte: toPriceDate(date) } },
+    orderBy: { date: "desc" },
+    select: { price: true },
+  })
+  return row ? Number(row.price) : null
+}
+
+/**
+ * Prices of several instruments on a date, keyed by getPriceKey
+ * Instruments without a stored price are left out
+ */
+export async function getPricesOn(instruments: PriceInstrument[], date: Date): Promise<Map<string, number>> {
+  const unique = new Map(
+    instruments.filter(instrument => isPricedBucket(instrument.bucket)).map(instrument => [getPriceKey(instrument), instrument])
+  )
+  const prices = await Promise.all(
+    [...unique.entries()].map(async ([key, instrument]) => [key, await getPriceOn(instrument, date)] as const)
+  )
+
+  return new Map(prices.filter((entry): entry is readonly [string, number] => entry[1] !== null))
+}
+
+/**
+ * Stored daily prices between two dates, oldest first
+ * The last price before the range is included so the series can be carried forward from the start
+ */
+export async function getPriceSeries(instrument: PriceInstrument, from: Date, to: Date): Promise<PricePoint[]> {
+  const start = toPriceDate(from)
+  const [previous, rows] = await Promise.all([
+    prisma.priceHistory.findFirst({
+      where: { ...instrumentWhere(instrument), date: { lt: start } },
+      orderBy: { date: "desc" },
+    }),
+    prisma.priceHistory.findMany({
+      where: { ...instrumentWhere(instrument), date: { gte: start, lte: toPriceDate(to) } },
+      orderBy: { date: "asc" },
+    }),
+  ])
+
+  return [...(previous ? [previous] : []), ...rows].map(row => ({ date: row.date, price: Number(row.price) }))
+}
+
+/**
+ * Instruments that need daily prices: holdings with units and active SIPs with a symbol
+ */
+export async function getTrackedInstruments(): Promise<PriceInstrument[]> {
+  const [holdings, sips] = await Promise.all([
+    prisma.holding.findMany({
+      where: { qty: { gt: 0 }, bucket: { not: "EMERGENCY_FUND" } },
+      select: { symbol: true, bucket: true, currency: true },
+      distinct: ["bucket", "symbol", "currency"],
+    }),
+    prisma.sIP.findMany({
+      where: { isActive: true, symbol: { not: null }, bucket: { not: null } },
+      select: { symbol: true, bucket: true, currency: true },
+    }),
+  ])
+
+  const instruments = [
+    ...holdings,
+    ...sips.map(sip => ({ symbol: sip.symbol as string, bucket: sip.bucket as PriceInstrument["bucket"], currency: sip.currency })),
+  ].filter(instrument => isPricedBucket(instrument.bucket) && instrument.symbol.trim())
+
+  return [...new Map(instruments.map(instrument => [getPriceKey(instrument), instrument])).values()]
+}
+
+/**
+ * Fetch an instrument's latest price from the market data providers, store it and
+ * update the current price of every holding of the instrument
+ * Returns the number of holdings updated, or null when no price was found
+ */
+export async function refreshLatestPrice(instrument: PriceInstrument): Promise<number | null> {
+  const quote = await getLatestPrice(instrument.symbol, instrument.bucket, instrument.currency)
+  if (!quote) return null
+
+  await savePrice(instrument, quote, quote.source)
+
+  const { count } = await prisma.holding.updateMany({
+    where: {
+      bucket: instrument.bucket,
+      currency: instrument.currency,
+      symbol: { equals: instrument.symbol.trim(), mode: "insensitive" },
+    },
+    data: { currentPrice: quote.price },
+  })
+  return count
+}
@@ -0,0 +1,42 @@
+/**
+ * Seeded Random Numbers
+ * Deterministic pseudo-random streams for simulations, so the same inputs and seed always
+ * give the same result
+ */
+
+/**
+ * 32-bit hash of a string, for seeding from ids
+ */
+export function hashSeed(value: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Random stream from a seed (mulberry32)
+ * - next: uniform in [0, 1)
+ * - normal: standard normal (Box-Muller)
+ */
+export function createSeededRandom(seed: number | string) {
+  let state = typeof seed === "string" ? hashSeed(seed) : seed >>> 0
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const normal = () => {
+    const u = 1 - next() // (0, 1], so the log is finite
+    const v = next()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  }
+
+  return { next, normal }
+}
@@ -0,0 +1,260 @@
+/**
+ * Portfolio Rebalancing
+ * Compares the holdings mix to target weights with tolerance bands and suggests trades that
+ * bring it back, either by directing new money only or by also selling overweight buckets
+ */
+
+import { prisma } from "@/lib/prisma"
+import { getInrRateOn, getUserCurrencyConverter } from "@/lib/currency"
+import { computeSaleLots, getCapitalGainHead, getCapitalGainsReport, getOpenLots } from "@/lib/capital-gains"
+import { getFinancialYear } from "@/lib/tax-calculator"
+import {
+  CAPITAL_GAIN_RATES,
+  EQUITY_LTCG_EXEMPTION,
+  REBALANCE_MIN_TRADE_AMOUNT,
+  REBALANCE_SLAB_TAX_RATE,
+  TAX_CESS_RATE,
+  VDA_TAX_RATE,
+} from "@/constants"
+import type {
+  BucketDrift,
+  CapitalGainHead,
+  InvestmentBucket,
+  RebalanceMode,
+  RebalancePlan,
+  RebalanceTrade,
+  TargetAllocation,
+} from "@/types"
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Tax rate (percent, before cess) on gains under each head
+const HEAD_TAX_RATES: Record<CapitalGainHead, number> = {
+  EQUITY_STCG: CAPITAL_GAIN_RATES.after.equitySTCG,
+  EQUITY_LTCG: CAPITAL_GAIN_RATES.after.equityLTCG,
+  OTHER_LTCG: CAPITAL_GAIN_RATES.after.otherLTCG,
+  SLAB_STCG: REBALANCE_SLAB_TAX_RATE,
+  VDA: VDA_TAX_RATE,
+}
+
+const withCess = (tax: number) => tax * (1 + TAX_CESS_RATE / 100)
+
+/**
+ * Drift of each targeted bucket from its weight; buckets without a target are left out
+ */
+export function calculateDrift(
+  values: Map<InvestmentBucket, number>,
+  targets: TargetAllocation[]
+): { drifts: BucketDrift[]; totalValue: number } {
+  const totalValue = targets.reduce((sum, target) => sum + (values.get(target.bucket) ?? 0), 0)
+
+  const drifts = targets.map(target => {
+    const value = values.get(target.bucket) ?? 0
+    const currentPercent = totalValue > 0 ? (value / totalValue) * 100 : 0
+    const drift = currentPercent - target.targetPercent
+    return {
+      bucket: target.bucket,
+      value: round2(value),
+      currentPercent: round2(currentPercent),
+      targetPercent: target.targetPercent,
+      tolerancePercent: target.tolerancePercent,
+      drift: round2(drift),
+      isOutOfBand: totalValue > 0 && Math.abs(drift) > target.tolerancePercent,
+    }
+  })
+
+  return { drifts, totalValue }
+}
+
+/**
+ * Amount to buy (positive) or sell (negative) per bucket
+ * - Buy only: new cash goes to the buckets furthest below target, in proportion to their gaps;
+ *   cash left once every gap is closed is split by target weight
+ * - Buy and sell: when any bucket is outside its band, every bucket is brought to target on
+ *   the portfolio plus the new cash; inside the bands only the new cash is placed
+ */
+export function planBucketTrades(
+  drifts: BucketDrift[],
+  totalValue: number,
+  mode: RebalanceMode,
+  newCash: number
+): Map<InvestmentBucket, number> {
+  const trades = new Map<InvestmentBucket, number>()
+  const finalTotal = totalValue + newCash
+  const targetValue = (drift: BucketDrift) => (finalTotal * drift.targetPercent) / 100
+
+  if (mode === "BUY_SELL" && drifts.some(drift => drift.isOutOfBand)) {
+    for (const drift of drifts) {
+      trades.set(drift.bucket, targetValue(drift) - drift.value)
+    }
+  } else if (newCash > 0) {
+    const gaps = drifts.map(drift => ({ bucket: drift.bucket, gap: Math.max(0, targetValue(drift) - drift.value) }))
+    const totalGap = gaps.reduce((sum, item) => sum + item.gap, 0)
+    const leftover = Math.max(0, newCash - totalGap)
+    const scale = totalGap > newCash ? newCash / totalGap : 1
+    const totalWeight = drifts.reduce((sum, drift) => sum + drift.targetPercent, 0)
+
+    for (const [index, drift] of drifts.entries()) {
+      const share = totalWeight > 0 ? (leftover * drift.targetPercent) / totalWeight : 0
+      trades.set(drift.bucket, gaps[index].gap * scale + share)
+    }
+  }
+
+  for (const [bucket, amount] of trades) {
+    if (Math.abs(amount) < REBALANCE_MIN_TRADE_AMOUNT) trades.delete(bucket)
+  }
+  return trades
+}
+
+/**
+ * Target weights saved by a user, in bucket order
+ */
+export async function getTargetAllocations(userId: string): Promise<TargetAllocation[]> {
+  const targets = await prisma.targetAllocation.findMany({
+    where: { userId },
+    orderBy: { bucket: "asc" },
+  })
+
+  return targets.map(target => ({
+    bucket: target.bucket,
+    targetPercent: Number(target.targetPercent),
+    tolerancePercent: Number(target.tolerancePercent),
+  }))
+}
+
+/**
+ * Rebalancing plan for a user's holdings
+ * - Holdings are valued at their last price (or cost) in the base currency
+ * - Sells start with the holdings showing the smallest gain (losses first) and are matched
+ *   FIFO against purchase lots to estimate the gain and tax under each head
+ * - The total tax sets off losses within a head (except VDA) and uses what is left of this
+ *   financial year's equity LTCG exemption; it includes cess but not surcharge
+ * - Buys go through the largest holding of the bucket
+ */
+export async function getRebalancePlan(userId: string, mode: RebalanceMode, newCash: number): Promise<RebalancePlan> {
+  const [targets, holdings, converter] = await Promise.all([
+    getTargetAllocations(userId),
+    prisma.holding.findMany({ where: { userId, qty: { gt: 0 } } }),
+    getUserCurrencyConverter(userId),
+  ])
+
+  const valued = holdings.map(holding => {
+    const price = holding.currentPrice != null ? Number(holding.currentPrice) : Number(holding.avgCost)
+    const inrRate = holding.inrRate ? Number(holding.inrRate) : null
+    const value = converter.convert(Number(holding.qty) * price, holding.currency, undefined, inrRate)
+    const cost = converter.convert(Number(holding.qty) * Number(holding.avgCost), holding.currency, holding.createdAt, inrRate)
+    return { holding, price, value, gainRatio: value > 0 ? (value - cost) / value : 0 }
+  })
+
+  const values = new Map<InvestmentBucket, number>()
+  for (const item of valued) {
+    values.set(item.holding.bucket, (values.get(item.holding.bucket) ?? 0) + item.value)
+  }
+
+  const { drifts, totalValue } = calculateDrift(values, targets)
+  const bucketTrades = planBucketTrades(drifts, totalValue, mode, newCash)
+
+  const now = new Date()
+  const trades: RebalanceTrade[] = []
+  const headGains = new Map<CapitalGainHead, number>()
+  let vdaGains = 0
+
+  for (const [bucket, amount] of bucketTrades) {
+    const inBucket = valued.filter(item => item.holding.bucket === bucket)
+
+    if (amount > 0) {
+      const largest = [...inBucket].sort((a, b) => b.value - a.value)[0]
+      trades.push({
+        action: "BUY",
+        bucket,
+        amount: round2(amount),
+        holdingId: largest?.holding.id ?? null,
+        symbol: largest?.holding.symbol ?? null,
+        name: largest?.holding.name ?? null,
+        estimatedGain: null,
+        estimatedTax: null,
+        taxHeads: [],
+      })
+      continue
+    }
+
+    let toSell = -amount
+    for (const item of [...inBucket].sort((a, b) => a.gainRatio - b.gainRatio)) {
+      if (toSell < REBALANCE_MIN_TRADE_AMOUNT || item.value <= 0) break
+      const sellValue = Math.min(toSell, item.value)
+      toSell -= sellValue
+
+      const { holding } = item
+      const inrRate = holding.currency === "INR" ? null : await getInrRateOn(holding.currency, now)
+      const lots = (await getOpenLots(holding)).filter(lot => lot.acquiredOn <= now)
+      const { matched } = computeSaleLots(lots, {
+        bucket,
+        qty: Number(holding.qty) * (sellValue / item.value),
+        price: item.price,
+        inrRate,
+        soldOn: now,
+        fmvJan2018: holding.fmvJan2018 ? Number(holding.fmvJan2018) : null,
+      })
+
+      // Lot gains are in INR
+      let gain = 0
+      let tax = 0
+      const heads = new Set<CapitalGainHead>()
+      for (const lot of matched) {
+        const head = getCapitalGainHead(bucket, lot.term)
+        const lotGain = converter.convert(lot.gain, "INR")
+        heads.add(head)
+        gain += lotGain
+        tax += Math.max(0, lotGain) * HEAD_TAX_RATES[head] / 100
+        if (head === "VDA") {
+          vdaGains += Math.max(0, lotGain)
+        } else {
+          headGains.set(head, (headGains.get(head) ?? 0) + lotGain)
+        }
+      }
+
+      trades.push({
+        action: "SELL",
+        bucket,
+        amount: round2(sellValue),
+        holdingId: holding.id,
+        symbol: holding.symbol,
+        name: holding.name,
+        estimatedGain: round2(gain),
+        estimatedTax: round2(withCess(tax)),
+        taxHeads: [...heads],
+      })
+    }
+  }
+
+  let estimatedTax = (vdaGains * VDA_TAX_RATE) / 100
+  if (headGains.size > 0) {
+    const financialYear = getFinancialYear(now)
+    const report = await getCapitalGainsReport(userId, financialYear)
+    const annualExemption = financialYear >= EQUITY_LTCG_EXEMPTION.fromFinancialYear
+      ? EQUITY_LTCG_EXEMPTION.after
+      : EQUITY_LTCG_EXEMPTION.before
+    const bookedLtcg = report.heads.find(head => head.head === "EQUITY_LTCG")?.gain ?? 0
+    const exemptionLeft = converter.convert(Math.max(0, annualExemption - Math.max(0, bookedLtcg)), "INR")
+
+    for (const [head, gain] of headGains) {
+      const taxable = head === "EQUITY_LTCG" ? gain - exemptionLeft : gain
+      estimatedTax += (Math.max(0, taxable) * HEAD_TAX_RATES[head]) / 100
+    }
+  }
+
+  const sum = (action: RebalanceTrade["action"]) =>
+    round2(trades.filter(trade => trade.action === action).reduce((total, trade) => total + trade.amount, 0))
+
+  return {
+    mode,
+    newCash: round2(newCash),
+    totalValue: round2(totalValue),
+    drifts,
+    needsRebalance: drifts.some(drift => drift.isOutOfBand),
+    trades,
+    totalBuy: sum("BUY"),
+    totalSell: sum("SELL"),
+    estimatedTax: round2(withCess(estimatedTax)),
+  }
+}
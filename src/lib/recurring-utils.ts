@@ -0,0 +1,222 @@
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { calculatePaymentDueDate } from "@/lib/credit-card-utils"
+import { getNextOccurrence } from "@/lib/frequency-utils"
+import { isMonthClosed } from "@/lib/snapshot-utils"
+import { recordAudit } from "@/lib/audit"
+import { RECURRING_MAX_CATCH_UP } from "@/constants"
+import type { SIPFrequency } from "@/types"
+
+type TemplateWithDetails = Prisma.RecurringTemplateGetPayload<{
+  include: { amountChanges: true; creditCard: true }
+}>
+
+interface ScheduleFields {
+  startDate: Date
+  endDate: Date | null
+  frequency: SIPFrequency
+  customDay: number | null
+}
+
+/**
+ * Get the amount of a recurring template on a date
+ * The latest amount change effective on or before the date wins; otherwise the base amount applies
+ */
+export function getRecurringAmount(
+  baseAmount: number,
+  changes: { effectiveFrom: Date; amount: number }[],
+  date: Date
+): number {
+  const applicable = changes
+    .filter(change => change.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())
+
+  return applicable.length > 0 ? applicable[0].amount : baseAmount
+}
+
+/**
+ * Get the next occurrence of a template on or after a date
+ * Returns null once the schedule has passed its end date
+ */
+export function getNextRunDate(template: ScheduleFields, onOrAfter: Date): Date | null {
+  const next = getNextOccurrence(template.startDate, template.frequency, onOrAfter, template.customDay)
+  if (template.endDate && next > template.endDate) return null
+  return next
+}
+
+/**
+ * Create the Expense / Income rows for every occurrence of a template that is due by today
+ * - Occurrences before pausedUntil and in closed months are skipped, not deferred
+ * - Each occurrence is created together with its audit entry and the template's next run
+ *   date, so a failed run resumes from the first missing occurrence
+ * - At most RECURRING_MAX_CATCH_UP occurrences are created per run
+ */
+export async function materialiseRecurringTemplate(
+  template: TemplateWithDetails,
+  today: Date
+): Promise<{ created: number; skippedClosedMonth: number; skippedPaused: number }> {
+  const result = { created: 0, skippedClosedMonth: 0, skippedPaused: 0 }
+  const changes = template.amountChanges.map(change => ({
+    effectiveFrom: change.effectiveFrom,
+    amount: Number(change.amount),
+  }))
+  const closedMonths = new Map<string, boolean>()
+
+  let occurrence = template.nextRunDate
+  let processed = 0
+
+  while (occurrence && occurrence <= today && processed < RECURRING_MAX_CATCH_UP) {
+    processed++
+    const nextRunDate = getNextRunDate(
+      template,
+      new Date(occurrence.getFullYear(), occurrence.getMonth(), occurrence.getDate() + 1)
+    )
+    const advance = (db: Prisma.TransactionClient | typeof prisma = prisma) => db.recurringTemplate.update({
+      where: { id: template.id },
+      data: { nextRunDate },
+    })
+
+    const monthKey = `${occurrence.getFullYear()}-${occurrence.getMonth()}`
+    if (!closedMonths.has(monthKey)) {
+      closedMonths.set(monthKey, await isMonthClosed(template.userId, occurrence))
+    }
+
+    const where = { recurringTemplateId: template.id, date: occurrence }
+    const alreadyCreated = async () => template.kind === "EXPENSE"
+      ? !!(await prisma.expense.findFirst({ where }))
+      : !!(await prisma.income.findFirst({ where }))
+
+    if (template.pausedUntil && occurrence < template.pausedUntil) {
+      result.skippedPaused++
+      await advance()
+    } else if (closedMonths.get(monthKey)) {
+      result.skippedClosedMonth++
+      await advance()
+    } else if (await alreadyCreated()) {
+      await advance()
+    } else {
+      const amount = getRecurringAmount(Number(template.amount), changes, occurrence)
+      const date = occurrence
+
+      if (template.kind === "EXPENSE") {
+        // A card removed from the template leaves it without a card; record those as OTHER
+        const card = template.paymentMethod === "CARD" ? template.creditCard : null
+        const paymentMethod = template.paymentMethod === "CARD" && !card ? "OTHER" : template.paymentMethod ?? "OTHER"
+
+        await prisma.$transaction(async (tx) => {
+          const expense = await tx.expense.create({
+            data: {
+              userId: template.userId,
+              date,
+              title: template.title,
+              description: template.description,
+              expenseType: template.expenseType ?? "EXPECTED",
+              category: template.category ?? "NEEDS",
+              amount,
+              currency: template.currency,
+              paymentMethod,
+              creditCardId: card?.id ?? null,
+              paymentDueDate: card
+                ? calculatePaymentDueDate(date, { billingCycle: card.billingCycle, dueDate: card.dueDate })
+                : null,
+              tags: template.tags,
+              recurringTemplateId: template.id,
+            },
+          })
+          await advance(tx)
+          await recordAudit(tx, null, {
+            entity: "EXPENSE",
+            entityId: expense.id,
+            action: "CREATE",
+            operation: "recurring",
+            after: expense,
+            userId: template.userId,
+          })
+        })
+      } else {
+        await prisma.$transaction(async (tx) => {
+          const income = await tx.income.create({
+            data: {
+              userId: template.userId,
+              date,
+              title: template.title,
+              description: template.description,
+              amount,
+              currency: template.currency,
+              category: template.incomeCategory ?? "OTHER",
+              isRecurring: true,
+              recurringTemplateId: template.id,
+            },
+          })
+          await advance(tx)
+          await recordAudit(tx, null, {
+            entity: "INCOME",
+            entityId: income.id,
+            action: "CREATE",
+            operation: "recurring",
+            after: income,
+            userId: template.userId,
+          })
+        })
+      }
+      result.created++
+    }
+
+    occurrence = nextRunDate
+  }
+
+  return result
+}
+
+/**
+ * Create a monthly template for an income marked as recurring
+ * The income itself is the first occurrence, so the template starts on the following month
+ */
+export async function createRecurringIncomeTemplate(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  income: { date: Date; title: string; description: string | null; amount: number; currency: string; category: string }
+) {
+  const schedule = {
+    startDate: income.date,
+    endDate: null,
+    frequency: "MONTHLY" as const,
+    customDay: null,
+  }
+
+  return tx.recurringTemplate.create({
+    data: {
+      userId,
+      kind: "INCOME",
+      title: income.title,
+      description: income.description,
+      amount: income.amount,
+      currency: income.currency,
+      ...schedule,
+      nextRunDate: getNextRunDate(
+        schedule,
+        new Date(income.date.getFullYear(), income.date.getMonth(), income.date.getDate() + 1)
+      ),
+      incomeCategory: income.category,
+    },
+  })
+}
+
+/**
+ * Serialise a template for API responses (Decimals to numbers, with the amount for the next occurrence)
+ */
+export function serializeRecurringTemplate(template: TemplateWithDetails) {
+  const amountChanges = template.amountChanges
+    .map(change => ({ id: change.id, effectiveFrom: change.effectiveFrom, amount: Number(change.amount) }))
+    .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())
+
+  return {
+    ...template,
+    amount: Number(template.amount),
+    currentAmount: getRecurringAmount(Number(template.amount), amountChanges, template.nextRunDate ?? new Date()),
+    amountChanges,
+    creditCard: template.creditCard
+      ? { cardName: template.creditCard.cardName, lastFourDigits: template.creditCard.lastFourDigits }
+      : null,
+  }
+}
@@ -0,0 +1,280 @@
+import { prisma } from "@/lib/prisma"
+import { createCurrencyConverter, getBaseCurrency, getCurrenciesInUse } from "@/lib/currency"
+import { convertToMonthlyAmount } from "@/lib/frequency-utils"
+import { createSeededRandom } from "@/lib/random"
+import {
+  BUCKET_VOLATILITY_PERCENT,
+  INVESTMENT_BUCKETS,
+  RETIREMENT_DEFAULT_RETURN_PERCENT,
+  RETIREMENT_DEFAULTS,
+  RETIREMENT_SIMULATION_PATHS,
+  RETIREMENT_SPEND_MONTHS,
+  RETIREMENT_WITHDRAWAL_RATES,
+} from "@/constants"
+import type {
+  InvestmentBucket,
+  RetirementAssumptions,
+  RetirementInputs,
+  RetirementPercentiles,
+  RetirementSimulation,
+} from "@/types"
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Value at a percentile of ascending values (nearest rank)
+function percentileOf(sorted: ArrayLike<number>, percentile: number): number {
+  if (sorted.length === 0) return 0
+  return sorted[Math.min(sorted.length - 1, Math.floor((percentile / 100) * (sorted.length - 1)))]
+}
+
+function percentilesOf(values: Float64Array): RetirementPercentiles {
+  const sorted = Float64Array.from(values).sort()
+  return {
+    p10: round2(percentileOf(sorted, 10)),
+    p50: round2(percentileOf(sorted, 50)),
+    p90: round2(percentileOf(sorted, 90)),
+  }
+}
+
+function ageOn(dateOfBirth: Date, date: Date): number {
+  const age = date.getFullYear() - dateOfBirth.getFullYear()
+  const hadBirthday = date.getMonth() > dateOfBirth.getMonth() ||
+    (date.getMonth() === dateOfBirth.getMonth() && date.getDate() >= dateOfBirth.getDate())
+  return hadBirthday ? age : age - 1
+}
+
+/**
+ * Starting point of a user's projection, in the base currency
+ * - Holdings at their last price (or cost) per bucket
+ * - Active SIPs as monthly amounts per bucket; SIPs without a bucket count as mutual funds
+ * - The current salary and the average spend over the recent monthly snapshots
+ */
+export async function getRetirementInputs(userId: string, asOf: Date = new Date()): Promise<RetirementInputs> {
+  const [baseCurrency, currenciesInUse, profile, holdings, sips, salary, snapshots] = await Promise.all([
+    getBaseCurrency(userId),
+    getCurrenciesInUse(userId),
+    prisma.profile.findFirst({ where: { userId }, select: { dateOfBirth: true } }),
+    prisma.holding.findMany({
+      where: { userId, qty: { gt: 0 } },
+      select: { bucket: true, qty: true, avgCost: true, currentPrice: true, currency: true, inrRate: true },
+    }),
+    prisma.sIP.findMany({
+      where: { userId, isActive: true, OR: [{ endDate: null }, { endDate: { gte: asOf } }] },
+      select: { amount: true, frequency: true, currency: true, amountInINR: true, bucket: true },
+    }),
+    prisma.salaryHistory.findFirst({
+      where: { userId, effectiveFrom: { lte: asOf } },
+      orderBy: { effectiveFrom: "desc" },
+    }),
+    prisma.monthlySnapshot.findMany({
+      where: { userId },
+      select: { year: true, month: true, currency: true, spentAmount: true },
+      orderBy: [{ year: "desc" }, { month: "desc" }],
+      take: RETIREMENT_SPEND_MONTHS,
+    }),
+  ])
+
+  // Snapshots keep the base currency they were recorded in
+  const converter = await createCurrencyConverter(baseCurrency, [...currenciesInUse, ...snapshots.map(snapshot => snapshot.currency)])
+
+  const values = new Map<InvestmentBucket, { value: number; monthlySip: number }>(
+    INVESTMENT_BUCKETS.map(bucket => [bucket.id, { value: 0, monthlySip: 0 }])
+  )
+
+  for (const holding of holdings) {
+    const price = holding.currentPrice != null ? Number(holding.currentPrice) : Number(holding.avgCost)
+    const entry = values.get(holding.bucket)
+    if (entry) {
+      entry.value += converter.convert(Number(holding.qty) * price, holding.currency, undefined, holding.inrRate ? Number(holding.inrRate) : null)
+    }
+  }
+
+  for (const sip of sips) {
+    const amount = sip.amountInINR
+      ? converter.convert(Number(sip.amount), "INR")
+      : converter.convert(Number(sip.amount), sip.currency)
+    const entry = values.get(sip.bucket ?? "MUTUAL_FUND")
+    if (entry) entry.monthlySip += convertToMonthlyAmount(amount, sip.frequency)
+  }
+
+  const totalSpend = snapshots.reduce(
+    (sum, snapshot) => sum + converter.convert(Number(snapshot.spentAmount), snapshot.currency, new Date(snapshot.year, snapshot.month - 1, 1)),
+    0
+  )
+
+  return {
+    currentAge: profile?.dateOfBirth ? ageOn(profile.dateOfBirth, asOf) : null,
+    monthlySalary: salary ? Number(salary.monthly) : 0,
+    monthlySpend: snapshots.length > 0 ? round2(totalSpend / snapshots.length) : 0,
+    spendMonths: snapshots.length,
+    buckets: [...values.entries()].map(([bucket, entry]) => ({
+      bucket,
+      value: round2(entry.value),
+      monthlySip: round2(entry.monthlySip),
+    })),
+  }
+}
+
+/**
+ * Default assumptions for a user's inputs
+ */
+export function getDefaultRetirementAssumptions(inputs: RetirementInputs): RetirementAssumptions {
+  return {
+    currentAge: inputs.currentAge ?? RETIREMENT_DEFAULTS.currentAge,
+    retirementAge: RETIREMENT_DEFAULTS.retirementAge,
+    lifeExpectancy: RETIREMENT_DEFAULTS.lifeExpectancy,
+    monthlySpend: inputs.monthlySpend,
+    inflationRate: RETIREMENT_DEFAULTS.inflationRate,
+    salaryGrowth: RETIREMENT_DEFAULTS.salaryGrowth,
+    withdrawalRate: RETIREMENT_DEFAULTS.withdrawalRate,
+    buckets: INVESTMENT_BUCKETS.map(bucket => ({
+      bucket: bucket.id,
+      expectedReturn: RETIREMENT_DEFAULT_RETURN_PERCENT[bucket.id],
+      volatility: BUCKET_VOLATILITY_PERCENT[bucket.id],
+    })),
+    seed: RETIREMENT_DEFAULTS.seed,
+  }
+}
+
+/**
+ * Monte Carlo projection of a corpus through working years and retirement
+ * - Yearly steps; each bucket grows by an independent lognormal return with its expected
+ *   return and volatility
+ * - While working, each year's SIPs go in at the start of the year, stepping up with the
+ *   salary but never beyond the salary left after the inflated spend
+ * - FIRE is reached at the first age where the withdrawal rate of the corpus covers the
+ *   inflated yearly spend
+ * - In retirement the first year's withdrawal is the withdrawal rate of the corpus, then grows
+ *   with inflation; a path succeeds if the corpus lasts to the life expectancy
+ * - The same seed gives the same result, and every withdrawal rate reuses the same market
+ *   paths so the rates compare fairly
+ */
+export function simulateRetirement(
+  inputs: Pick<RetirementInputs, "monthlySalary" | "buckets">,
+  assumptions: RetirementAssumptions,
+  paths: number = RETIREMENT_SIMULATION_PATHS
+): RetirementSimulation {
+  const startYear = new Date().getFullYear()
+  const years = Math.max(1, assumptions.lifeExpectancy - assumptions.currentAge)
+  const workYears = Math.min(years, Math.max(0, assumptions.retirementAge - assumptions.currentAge))
+  const inflation = 1 + assumptions.inflationRate / 100
+  const salaryGrowth = 1 + assumptions.salaryGrowth / 100
+  const withdrawalRate = assumptions.withdrawalRate / 100
+
+  const buckets = inputs.buckets.map(input => {
+    const assumption = assumptions.buckets.find(item => item.bucket === input.bucket)
+    const expectedReturn = (assumption?.expectedReturn ?? RETIREMENT_DEFAULT_RETURN_PERCENT[input.bucket]) / 100
+    const sigma = (assumption?.volatility ?? BUCKET_VOLATILITY_PERCENT[input.bucket]) / 100
+    return {
+      value: input.value,
+      yearlySip: input.monthlySip * 12,
+      mu: Math.log(1 + expectedReturn) - (sigma * sigma) / 2,
+      sigma,
+    }
+  })
+
+  // SIPs for each working year, scaled down when they exceed what the salary leaves after spending
+  const totalYearlySip = buckets.reduce((sum, bucket) => sum + bucket.yearlySip, 0)
+  const sipScale = Array.from({ length: workYears }, (_, year) => {
+    const sip = totalYearlySip * Math.pow(salaryGrowth, year)
+    if (inputs.monthlySalary <= 0 || sip <= 0) return Math.pow(salaryGrowth, year)
+    const surplus = inputs.monthlySalary * 12 * Math.pow(salaryGrowth, year) -
+      assumptions.monthlySpend * 12 * Math.pow(inflation, year)
+    return Math.pow(salaryGrowth, year) * Math.min(1, Math.max(0, surplus) / sip)
+  })
+
+  const random = createSeededRandom(assumptions.seed)
+  const rates = [...new Set([...RETIREMENT_WITHDRAWAL_RATES, assumptions.withdrawalRate])].sort((a, b) => a - b)
+  const rateSuccesses = new Map(rates.map(rate => [rate, 0]))
+
+  // Real (today's money) corpus per age index, per path
+  const corpusByAge = Array.from({ length: years + 1 }, () => new Float64Array(paths))
+  const fireAges = new Float64Array(paths)
+  const retirementCorpus = new Float64Array(paths)
+  const growth = new Float64Array(years * buckets.length)
+  let successes = 0
+
+  for (let path = 0; path < paths; path++) {
+    for (let i = 0; i < growth.length; i++) {
+      const bucket = buckets[i % buckets.length]
+      growth[i] = Math.exp(bucket.mu + bucket.sigma * random.normal())
+    }
+
+    const values = buckets.map(bucket => bucket.value)
+    let total = values.reduce((sum, value) => sum + value, 0)
+    corpusByAge[0][path] = total
+
+    let fireAge = total * withdrawalRate >= assumptions.monthlySpend * 12 ? assumptions.currentAge : Infinity
+    for (let year = 0; year < workYears; year++) {
+      total = 0
+      for (let b = 0; b < buckets.length; b++) {
+        values[b] = (values[b] + buckets[b].yearlySip * sipScale[year]) * growth[year * buckets.length + b]
+        total += values[b]
+      }
+      const priceLevel = Math.pow(inflation, year + 1)
+      corpusByAge[year + 1][path] = total / priceLevel
+      if (fireAge === Infinity && total * withdrawalRate >= assumptions.monthlySpend * 12 * priceLevel) {
+        fireAge = assumptions.currentAge + year + 1
+      }
+    }
+    fireAges[path] = fireAge
+    retirementCorpus[path] = total / Math.pow(inflation, workYears)
+
+    // Retirement: the chosen rate fills the projection, every rate counts towards the chart
+    for (const rate of rates) {
+      const isChosen = rate === assumptions.withdrawalRate
+      const drawdown = [...values]
+      let withdrawal = total * (rate / 100)
+      let remaining = total
+      let depleted = false
+
+      for (let year = workYears; year < years; year++) {
+        if (remaining <= withdrawal) {
+          depleted = true
+          remaining = 0
+        } else {
+          const keep = (remaining - withdrawal) / remaining
+          remaining = 0
+          for (let b = 0; b < buckets.length; b++) {
+            drawdown[b] = drawdown[b] * keep * growth[year * buckets.length + b]
+            remaining += drawdown[b]
+          }
+        }
+        if (isChosen) corpusByAge[year + 1][path] = remaining / Math.pow(inflation, year + 1)
+        if (depleted) break
+        withdrawal *= inflation
+      }
+
+      if (!depleted) {
+        rateSuccesses.set(rate, (rateSuccesses.get(rate) ?? 0) + 1)
+        if (isChosen) successes++
+      }
+    }
+  }
+
+  const sortedFireAges = Float64Array.from(fireAges).sort()
+  const fireAgeAt = (percentile: number) => {
+    const age = percentileOf(sortedFireAges, percentile)
+    return Number.isFinite(age) ? age : null
+  }
+  const reachedFire = sortedFireAges.filter(age => Number.isFinite(age)).length
+
+  return {
+    paths,
+    fireNumber: round2(withdrawalRate > 0 ? (assumptions.monthlySpend * 12) / withdrawalRate : 0),
+    fireAge: { p10: fireAgeAt(10), p50: fireAgeAt(50), p90: fireAgeAt(90) },
+    fireProbability: round2((reachedFire / paths) * 100),
+    corpusAtRetirement: percentilesOf(retirementCorpus),
+    successProbability: round2((successes / paths) * 100),
+    savingsRate: inputs.monthlySalary > 0 ? round2((totalYearlySip / 12 / inputs.monthlySalary) * 100) : 0,
+    projection: corpusByAge.map((values, index) => ({
+      age: assumptions.currentAge + index,
+      year: startYear + index,
+      ...percentilesOf(values),
+    })),
+    withdrawalRates: rates.map(rate => ({
+      rate,
+      successProbability: round2(((rateSuccesses.get(rate) ?? 0) / paths) * 100),
+    })),
+  }
+}
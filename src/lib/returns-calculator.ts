@@ -0,0 +1,99 @@
+/**
+ * Returns Calculator Utility
+ * Money-weighted (XIRR) and time-weighted returns from dated cashflows
+ */
+
+export interface Cashflow {
+  date: Date
+  amount: number // Negative when money goes in (purchase), positive when it comes out (sale, current value)
+}
+
+export interface ValuationPoint {
+  date: Date
+  value: number // Market value just before the flow on this date
+  flow: number // Net money added on this date (purchases minus sales)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const XIRR_MAX_ITERATIONS = 100
+const XIRR_TOLERANCE = 1e-7
+// Search range for the annual rate: -99.99% to +10000%
+const XIRR_MIN_RATE = -0.9999
+const XIRR_MAX_RATE = 100
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Calculate XIRR (annualised money-weighted return) in percentage
+ * Uses Newton-Raphson, falling back to bisection when it does not converge
+ * Returns null without both an outflow and an inflow, or when no rate in range fits
+ */
+export function calculateXIRR(cashflows: Cashflow[]): number | null {
+  const flows = cashflows.filter(flow => Math.abs(flow.amount) > 0.005)
+  if (!flows.some(flow => flow.amount < 0) || !flows.some(flow => flow.amount > 0)) return null
+
+  const start = Math.min(...flows.map(flow => flow.date.getTime()))
+  const years = flows.map(flow => (flow.date.getTime() - start) / DAY_MS / 365)
+
+  const npv = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0)
+  const derivative = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / Math.pow(1 + rate, years[i] + 1), 0)
+
+  let rate = 0.1
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate)
+    const slope = derivative(rate)
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break
+    const next = rate - value / slope
+    if (next <= XIRR_MIN_RATE || next > XIRR_MAX_RATE || !isFinite(next)) break
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return round2(next * 100)
+    rate = next
+  }
+
+  // Bisection needs the NPV to change sign across the range
+  let low = XIRR_MIN_RATE
+  let high = XIRR_MAX_RATE
+  let lowValue = npv(low)
+  if (Math.sign(lowValue) === Math.sign(npv(high))) return null
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const midValue = npv(mid)
+    if (Math.abs(midValue) < XIRR_TOLERANCE || high - low < XIRR_TOLERANCE) return round2(mid * 100)
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid
+      lowValue = midValue
+    } else {
+      high = mid
+    }
+  }
+  return round2(((low + high) / 2) * 100)
+}
+
+/**
+ * Calculate the time-weighted return in percentage
+ * Chains the growth of each period between flows, so the timing and size of
+ * purchases do not affect the result. The last point is the current valuation.
+ * Periods that start with nothing invested are skipped.
+ * The annualised figure is only given for histories of at least a year.
+ */
+export function calculateTWR(points: ValuationPoint[]): { twr: number | null; annualizedTwr: number | null } {
+  if (points.length < 2) return { twr: null, annualizedTwr: null }
+
+  let growth = 1
+  let hasPeriod = false
+  for (let i = 1; i < points.length; i++) {
+    const startValue = points[i - 1].value + points[i - 1].flow
+    if (startValue <= 0.005) continue
+    growth *= points[i].value / startValue
+    hasPeriod = true
+  }
+  if (!hasPeriod) return { twr: null, annualizedTwr: null }
+
+  const days = (points[points.length - 1].date.getTime() - points[0].date.getTime()) / DAY_MS
+  return {
+    twr: round2((growth - 1) * 100),
+    annualizedTwr: days >= 365 && growth > 0 ? round2((Math.pow(growth, 365 / days) - 1) * 100) : null,
+  }
+}
@@ -0,0 +1,489 @@
+/**
+ * SIP Execution Engine
+ * Executes every due SIP instalment exactly once, catches up on missed due dates at the
+ * price of the due date and retries failed executions with exponential backoff. Each pass
+ * is recorded as a run.
+ */
+
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { recordAudit } from "@/lib/audit"
+import { createCurrencyConverter } from "@/lib/currency"
+import { getCurrentPrice, getExchangeRate, getPriceHistory, isPricedBucket, toPriceDate } from "@/lib/market-data"
+import { getPriceSeries } from "@/lib/price-history"
+import { getInstalmentStatus, getNextOccurrence, getSteppedUpAmount } from "@/lib/frequency-utils"
+import { getScheduleAdjustments, type SIPWithSchedule } from "@/lib/sip-schedule"
+import { isMonthClosed } from "@/lib/snapshot-utils"
+import {
+  SIP_ATTEMPT_TIMEOUT_MINUTES,
+  SIP_MAX_ATTEMPTS,
+  SIP_MAX_CATCH_UP,
+  SIP_PRICE_LOOKBACK_DAYS,
+  SIP_RETRY_BASE_MINUTES,
+} from "@/constants"
+import type { SIPExecutionRunResult, SIPRunTrigger } from "@/types"
+
+const MINUTE_MS = 60 * 1000
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Assets priced in any currency other than INR need an INR rate
+const isForeignCurrency = (currency: string | null) => (currency || "INR") !== "INR"
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+const isSameDay = (a: Date, b: Date) => toDateKey(a) === toDateKey(b)
+
+/**
+ * Key that allows one execution per SIP per due date, e.g. "ckx...:2025-06-15"
+ */
+export function getIdempotencyKey(sipId: string, dueDate: Date): string {
+  return `${sipId}:${toDateKey(dueDate)}`
+}
+
+/**
+ * Minutes to wait before the next attempt after a failed one: the base delay, doubled per attempt
+ */
+export function getRetryDelayMinutes(attempts: number): number {
+  return SIP_RETRY_BASE_MINUTES * Math.pow(2, Math.max(0, attempts - 1))
+}
+
+// Until an execution succeeds its row holds the instalment amount in the SIP's own terms:
+// INR amounts of foreign-currency SIPs in amountInr, everything else in amount
+const toPendingAmounts = (sip: SIPWithSchedule, amount: number) =>
+  isForeignCurrency(sip.currency) && sip.amountInINR
+    ? { amount: 0, amountInr: amount }
+    : { amount, amountInr: null }
+
+const fromPendingAmounts = (sip: SIPWithSchedule, execution: { amount: Prisma.Decimal; amountInr: Prisma.Decimal | null }) =>
+  isForeignCurrency(sip.currency) && sip.amountInINR ? Number(execution.amountInr ?? 0) : Number(execution.amount)
+
+/**
+ * Price of the SIP's instrument for an instalment
+ * - Today: the live price
+ * - Earlier due dates: the last stored close within the lookback window, else the providers' history
+ */
+async function getInstalmentPrice(
+  instrument: { symbol: string; bucket: string; currency: string },
+  dueDate: Date,
+  isToday: boolean
+): Promise<number | null> {
+  if (isToday) return getCurrentPrice(instrument.symbol, instrument.bucket, instrument.currency)
+  if (!isPricedBucket(instrument.bucket)) return null
+
+  const bucket = instrument.bucket
+  const from = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate() - SIP_PRICE_LOOKBACK_DAYS)
+  const stored = (await getPriceSeries({ ...instrument, bucket }, from, dueDate))
+    .filter(point => point.date >= toPriceDate(from))
+  if (stored.length > 0) return stored[stored.length - 1].price
+
+  const fetched = await getPriceHistory(instrument.symbol, bucket, instrument.currency, from, dueDate)
+  return fetched.length > 0 ? fetched[fetched.length - 1].price : null
+}
+
+/**
+ * INR per unit of a currency for an instalment: the live rate today, the stored rate of the due date otherwise
+ */
+async function getInstalmentInrRate(currency: string, dueDate: Date, isToday: boolean): Promise<number | null> {
+  if (isToday) return getExchangeRate(currency, "INR")
+  try {
+    const converter = await createCurrencyConverter("INR", [currency])
+    return converter.convert(1, currency, dueDate)
+  } catch {
+    return null
+  }
+}
+
+// The execution is still claimed by this run: a slow attempt whose claim timed out and was
+// taken over by another run must not write the instalment too
+const claimedBy = (executionId: string, runId: string) => ({ id: executionId, status: "PENDING" as const, runId })
+
+/**
+ * Buy one instalment: mark the execution successful, update or create the holding and record
+ * the SIP_EXECUTION transaction, all in one database transaction
+ * Returns false, writing nothing, when the claim passed to another run
+ * Throws when no price or exchange rate is available, leaving nothing written
+ */
+async function applyInstalment(sip: SIPWithSchedule, executionId: string, runId: string, dueDate: Date, amount: number): Promise<boolean> {
+  const { userId, bucket, symbol, name, currency, amountInINR } = sip
+  const isToday = isSameDay(dueDate, new Date())
+
+  // Without a bucket/symbol there is no holding to update; only the execution is recorded
+  if (!bucket || !symbol) {
+    const marked = await prisma.sIPExecution.updateMany({
+      where: claimedBy(executionId, runId),
+      data: { ...toPendingAmounts(sip, amount), status: "SUCCESS", nextRetryAt: null, errorMessage: null },
+    })
+    return marked.count > 0
+  }
+
+  let inrRate: number | null = null
+  if (isForeignCurrency(currency)) {
+    inrRate = await getInstalmentInrRate(currency, dueDate, isToday)
+    if (!inrRate) throw new Error(`Failed to fetch ${currency}/INR exchange rate`)
+  }
+
+  const price = await getInstalmentPrice({ symbol, bucket, currency: currency || "INR" }, dueDate, isToday)
+  if (!price) throw new Error(`No price available for ${symbol} on ${toDateKey(dueDate)}`)
+
+  // Amounts and prices stay in the asset's currency; INR amounts of foreign SIPs are converted first
+  const assetAmount = inrRate && amountInINR ? amount / inrRate : amount
+  const amountInr = inrRate ? (amountInINR ? amount : amount * inrRate) : null
+  const qty = assetAmount / price
+  const normalizedSymbol = symbol.trim().toUpperCase()
+
+  return prisma.$transaction(async (tx) => {
+    // Marking it first locks the row until commit, so only one run gets past this point
+    const marked = await tx.sIPExecution.updateMany({
+      where: claimedBy(executionId, runId),
+      data: { status: "SUCCESS", errorMessage: null, nextRetryAt: null },
+    })
+    if (marked.count === 0) return false
+
+    const existingHolding = await tx.holding.findFirst({
+      where: {
+        userId,
+        bucket,
+        symbol: { equals: normalizedSymbol, mode: "insensitive" },
+      },
+    })
+
+    let holdingId: string
+    if (existingHolding) {
+      const oldQty = Number(existingHolding.qty)
+      const totalQty = oldQty + qty
+      const weightedAvgCost = (oldQty * Number(existingHolding.avgCost) + qty * price) / totalQty
+
+      // The INR rate is qty-weighted, and only tracked when the SIP amount is in INR
+      let updatedInrRate = existingHolding.inrRate ? Number(existingHolding.inrRate) : null
+      if (inrRate && amountInINR) {
+        updatedInrRate = oldQty > 0 && updatedInrRate
+          ? (oldQty * updatedInrRate + qty * inrRate) / totalQty
+          : inrRate
+      }
+
+      const holding = await tx.holding.update({
+        where: { id: existingHolding.id },
+        data: {
+          qty: totalQty,
+          avgCost: weightedAvgCost,
+          // A catch-up instalment's price is not the current price
+          ...(isToday && { currentPrice: price }),
+          currency: currency || "INR",
+          inrRate: isForeignCurrency(currency) ? updatedInrRate : null,
+        },
+      })
+      await recordAudit(tx, null, {
+        entity: "HOLDING",
+        entityId: holding.id,
+        action: "UPDATE",
+        operation: "SIP execution",
+        before: existingHolding,
+        after: holding,
+        userId,
+      })
+      holdingId = holding.id
+    } else {
+      const holding = await tx.holding.create({
+        data: {
+          userId,
+          bucket,
+          symbol: normalizedSymbol,
+          name: name || symbol,
+          qty,
+          avgCost: price,
+          currentPrice: price,
+          currency: currency || "INR",
+          inrRate: inrRate && amountInINR ? inrRate : null,
+          isManual: false,
+        },
+      })
+      await recordAudit(tx, null, { entity: "HOLDING", entityId: holding.id, action: "CREATE", operation: "SIP execution", after: holding, userId })
+      holdingId = holding.id
+    }
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId,
+        holdingId,
+        bucket,
+        symbol: normalizedSymbol,
+        name: name || symbol,
+        qty,
+        price,
+        amount: assetAmount,
+        currency: currency || "INR",
+        amountInr,
+        transactionType: "SIP_EXECUTION",
+        purchaseDate: dueDate,
+        description: `SIP execution for ${name || symbol}`,
+        inrRate,
+      },
+    })
+    await recordAudit(tx, null, { entity: "TRANSACTION", entityId: transaction.id, action: "CREATE", operation: "SIP execution", after: transaction, userId })
+
+    await tx.sIPExecution.update({
+      where: { id: executionId },
+      data: {
+        holdingId,
+        amount: assetAmount,
+        currency: currency || "INR",
+        amountInr,
+        qty,
+        price,
+        inrRate,
+      },
+    })
+    return true
+  })
+}
+
+/**
+ * Attempt an execution that is PENDING or FAILED and due for an attempt
+ * - The row is claimed first, so a concurrent run does not attempt it too; a claimed attempt
+ *   that never finishes becomes retryable after SIP_ATTEMPT_TIMEOUT_MINUTES
+ * - A failure schedules the next attempt with exponential backoff until SIP_MAX_ATTEMPTS
+ * Returns whether it succeeded, or null when another run holds or took over the claim
+ */
+async function attemptExecution(
+  sip: SIPWithSchedule,
+  executionId: string,
+  runId: string,
+  result: SIPExecutionRunResult
+): Promise<boolean | null> {
+  const now = new Date()
+  const claimed = await prisma.sIPExecution.updateMany({
+    where: {
+      id: executionId,
+      status: { in: ["PENDING", "FAILED"] },
+      nextRetryAt: { lte: now },
+      attempts: { lt: SIP_MAX_ATTEMPTS },
+    },
+    data: {
+      status: "PENDING",
+      attempts: { increment: 1 },
+      lastAttemptAt: now,
+      nextRetryAt: new Date(now.getTime() + SIP_ATTEMPT_TIMEOUT_MINUTES * MINUTE_MS),
+      runId,
+    },
+  })
+  if (claimed.count === 0) return null
+
+  const execution = await prisma.sIPExecution.findUniqueOrThrow({ where: { id: executionId } })
+  const dueDate = execution.dueDate ?? execution.executionDate
+
+  try {
+    if (!(await applyInstalment(sip, execution.id, runId, dueDate, fromPendingAmounts(sip, execution)))) return null
+    result.executed++
+    return true
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error"
+    const canRetry = execution.attempts < SIP_MAX_ATTEMPTS
+    // A run that took over the claim owns the outcome; this one records nothing
+    const failed = await prisma.sIPExecution.updateMany({
+      where: claimedBy(execution.id, runId),
+      data: {
+        status: "FAILED",
+        errorMessage,
+        nextRetryAt: canRetry
+          ? new Date(Date.now() + getRetryDelayMinutes(execution.attempts) * MINUTE_MS)
+          : null,
+      },
+    })
+    if (failed.count === 0) return null
+    result.failed++
+    result.errors.push(`SIP ${sip.id} (${toDateKey(dueDate)}): ${errorMessage}`)
+    console.error(`[SIP Engine] Execution ${execution.id} failed (attempt ${execution.attempts}):`, error)
+    return false
+  }
+}
+
+/**
+ * Retry failed and interrupted executions whose next attempt is due
+ * Executions of SIPs that have since been deactivated are given up instead
+ */
+async function retryExecutions(runId: string, userId: string | undefined, result: SIPExecutionRunResult) {
+  const executions = await prisma.sIPExecution.findMany({
+    where: {
+      ...(userId && { userId }),
+      status: { in: ["PENDING", "FAILED"] },
+      nextRetryAt: { lte: new Date() },
+      attempts: { lt: SIP_MAX_ATTEMPTS },
+      dueDate: { not: null },
+    },
+    include: { sip: { include: { pauses: true, skips: true } } },
+    orderBy: { dueDate: "asc" },
+  })
+
+  for (const execution of executions) {
+    if (!execution.sip.isActive) {
+      await prisma.sIPExecution.update({
+        where: { id: execution.id },
+        data: { status: "FAILED", nextRetryAt: null, errorMessage: "Not retried: the SIP is inactive" },
+      })
+      continue
+    }
+
+    const outcome = await attemptExecution(execution.sip, execution.id, runId, result)
+    if (outcome !== null) result.retried++
+  }
+}
+
+/**
+ * Execute the instalments of a SIP due by today, starting from its next run date
+ * - Paused and skipped instalments, and those in closed months, are passed over
+ * - Each instalment gets an execution keyed by SIP and due date, created together with the
+ *   SIP's next run date, so instalments are never executed twice and a failed run resumes
+ *   from the first one it missed
+ */
+async function executeDueInstalments(
+  sip: SIPWithSchedule,
+  today: Date,
+  runId: string,
+  result: SIPExecutionRunResult
+) {
+  const adjustments = getScheduleAdjustments(sip)
+  const closedMonths = new Map<string, boolean>()
+
+  let cursor = sip.nextRunDate
+  let processed = 0
+
+  while (cursor && processed < SIP_MAX_CATCH_UP) {
+    const dueDate = getNextOccurrence(sip.startDate, sip.frequency, cursor, sip.customDay)
+    if (sip.endDate && dueDate > sip.endDate) {
+      await prisma.sIP.update({ where: { id: sip.id }, data: { nextRunDate: null } })
+      break
+    }
+    if (dueDate > today) break
+    processed++
+
+    const following = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate() + 1)
+    const nextRunDate = sip.endDate && following > sip.endDate ? null : following
+    const advance = prisma.sIP.update({ where: { id: sip.id }, data: { nextRunDate } })
+
+    const monthKey = `${dueDate.getFullYear()}-${dueDate.getMonth()}`
+    if (!closedMonths.has(monthKey)) {
+      closedMonths.set(monthKey, await isMonthClosed(sip.userId, dueDate))
+    }
+
+    const idempotencyKey = getIdempotencyKey(sip.id, dueDate)
+    if (getInstalmentStatus(dueDate, adjustments) !== "SCHEDULED" || closedMonths.get(monthKey)) {
+      result.skipped++
+      await advance
+    } else if (await prisma.sIPExecution.findUnique({ where: { idempotencyKey }, select: { id: true } })) {
+      await advance
+    } else {
+      const amount = round2(getSteppedUpAmount(Number(sip.amount), sip.startDate, dueDate, adjustments.stepUpType, adjustments.stepUpValue))
+
+      let executionId: string
+      try {
+        const [execution] = await prisma.$transaction([
+          prisma.sIPExecution.create({
+            data: {
+              sipId: sip.id,
+              userId: sip.userId,
+              executionDate: dueDate,
+              dueDate,
+              idempotencyKey,
+              currency: sip.currency || "INR",
+              ...toPendingAmounts(sip, amount),
+              status: "PENDING",
+              nextRetryAt: new Date(),
+              runId,
+            },
+          }),
+          advance,
+        ])
+        executionId = execution.id
+      } catch (error) {
+        // Another run created this instalment first (the idempotency key is unique): already executed
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") break
+        throw error
+      }
+
+      await attemptExecution(sip, executionId, runId, result)
+    }
+
+    cursor = nextRunDate
+  }
+}
+
+/**
+ * Run the SIP execution engine, for every user (cron) or one user (run now)
+ * Retries come first, then instalments due by today; totals are stored on the run
+ */
+export async function runSIPExecutions(trigger: SIPRunTrigger, userId?: string): Promise<SIPExecutionRunResult> {
+  const run = await prisma.sIPExecutionRun.create({
+    data: { trigger, userId: userId ?? null },
+  })
+  const result: SIPExecutionRunResult = {
+    runId: run.id,
+    sips: 0,
+    executed: 0,
+    retried: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  }
+
+  const totals = () => ({
+    sips: result.sips,
+    executed: result.executed,
+    retried: result.retried,
+    skipped: result.skipped,
+    failed: result.failed,
+    errors: result.errors,
+    finishedAt: new Date(),
+  })
+
+  try {
+    await retryExecutions(run.id, userId, result)
+
+    const now = new Date()
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999)
+    const dueSIPs = await prisma.sIP.findMany({
+      where: {
+        ...(userId && { userId }),
+        isActive: true,
+        nextRunDate: { lte: today },
+      },
+      include: { pauses: true, skips: true },
+    })
+    result.sips = dueSIPs.length
+
+    for (const sip of dueSIPs) {
+      try {
+        await executeDueInstalments(sip, today, run.id, result)
+      } catch (error) {
+        result.failed++
+        const errorMessage = error instanceof Error ? error.message : "Unknown error"
+        result.errors.push(`SIP ${sip.id}: ${errorMessage}`)
+        console.error(`[SIP Engine] Failed to process SIP ${sip.id}:`, error)
+      }
+    }
+
+    await prisma.sIPExecutionRun.update({
+      where: { id: run.id },
+      data: { ...totals(), status: "COMPLETED" },
+    })
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : "Unknown error")
+    await prisma.sIPExecutionRun.update({
+      where: { id: run.id },
+      data: { ...totals(), status: "FAILED" },
+    })
+    throw error
+  }
+
+  return result
+}
+
+/**
+ * First instalment a new or resumed SIP should run: instalments before the given day are not backfilled
+ */
+export function getInitialNextRunDate(sip: { startDate: Date; endDate: Date | null }, from: Date): Date | null {
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  const nextRunDate = sip.startDate > day ? sip.startDate : day
+  return sip.endDate && nextRunDate > sip.endDate ? null : nextRunDate
+}
@@ -0,0 +1,84 @@
+/**
+ * SIP Schedule
+ * Instalment dates and amounts of a SIP once its yearly step-up, pause ranges and one-off
+ * skips are applied
+ */
+
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@/generated/prisma"
+import { getUserCurrencyConverter } from "@/lib/currency"
+import {
+  getInstalmentStatus,
+  getOccurrencesBetween,
+  getSteppedUpAmount,
+} from "@/lib/frequency-utils"
+import type { SIPCalendarMonth, SIPScheduleAdjustments } from "@/types"
+
+export type SIPWithSchedule = Prisma.SIPGetPayload<{
+  include: { pauses: true; skips: true }
+}>
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Step-up, pauses and skips of a SIP in the shape the frequency helpers take
+ */
+export function getScheduleAdjustments(sip: SIPWithSchedule): SIPScheduleAdjustments {
+  return {
+    customDay: sip.customDay,
+    stepUpType: sip.stepUpType,
+    stepUpValue: sip.stepUpValue ? Number(sip.stepUpValue) : null,
+    pauses: sip.pauses.map(pause => ({ startDate: pause.startDate, endDate: pause.endDate })),
+    skips: sip.skips.map(skip => skip.date),
+  }
+}
+
+/**
+ * Projected instalments of a user's active SIPs, month by month from the current month
+ * - Amounts are stepped up and converted to the base currency
+ * - Paused and skipped instalments are listed but left out of the month's total
+ */
+export async function getSIPCalendar(userId: string, months: number): Promise<SIPCalendarMonth[]> {
+  const now = new Date()
+  const from = new Date(now.getFullYear(), now.getMonth(), 1)
+  const to = new Date(now.getFullYear(), now.getMonth() + months, 0)
+
+  const [sips, converter] = await Promise.all([
+    prisma.sIP.findMany({
+      where: {
+        userId,
+        isActive: true,
+        startDate: { lte: to },
+        OR: [{ endDate: null }, { endDate: { gte: from } }],
+      },
+      include: { pauses: true, skips: true },
+    }),
+    getUserCurrencyConverter(userId),
+  ])
+
+  const calendar: SIPCalendarMonth[] = Array.from({ length: months }, (_, index) => {
+    const month = new Date(from.getFullYear(), from.getMonth() + index, 1)
+    return { year: month.getFullYear(), month: month.getMonth() + 1, total: 0, instalments: [] }
+  })
+
+  for (const sip of sips) {
+    const adjustments = getScheduleAdjustments(sip)
+    const dates = getOccurrencesBetween(sip.startDate, sip.frequency, from, to, sip.customDay)
+      .filter(date => !sip.endDate || date <= sip.endDate)
+
+    for (const date of dates) {
+      const amount = getSteppedUpAmount(Number(sip.amount), sip.startDate, date, adjustments.stepUpType, adjustments.stepUpValue)
+      const status = getInstalmentStatus(date, adjustments)
+      const entry = calendar[(date.getFullYear() - from.getFullYear()) * 12 + date.getMonth() - from.getMonth()]
+      const baseAmount = round2(converter.convert(amount, sip.amountInINR ? "INR" : sip.currency))
+
+      entry.instalments.push({ sipId: sip.id, sipName: sip.name, date: date.toISOString(), amount: baseAmount, status })
+      if (status === "SCHEDULED") entry.total = round2(entry.total + baseAmount)
+    }
+  }
+
+  for (const entry of calendar) {
+    entry.instalments.sort((a, b) => a.date.localeCompare(b.date))
+  }
+  return calendar
+}
@@ -0,0 +1,212 @@
+import { prisma } from "@/lib/prisma"
+import { applyExpenseRules, getActiveExpenseRules } from "@/lib/expense-rules"
+import {
+  IMPORT_CATEGORY_KEYWORDS,
+  IMPORT_INCOME_CATEGORY_KEYWORDS,
+  IMPORT_PAYMENT_METHOD_KEYWORDS,
+  IMPORT_SKIP_CREDIT_KEYWORDS,
+  IMPORT_SKIP_DEBIT_KEYWORDS,
+} from "@/constants/statement-import"
+import type {
+  Expense,
+  ImportDuplicate,
+  ParsedStatementRow,
+  StagedImportRow,
+  StatementAccountType,
+} from "@/types"
+
+// Narration tokens that carry no merchant information
+const NARRATION_NOISE = new Set([
+  "UPI", "DR", "CR", "NEFT", "IMPS", "RTGS", "POS", "ACH", "NACH", "ECS", "ATM", "VPS", "ECOM",
+  "TXN", "REF", "PAYMENT", "TO", "FROM", "BY", "TRANSFER", "INB", "MB", "IB", "BIL", "ONL",
+])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function matchesKeyword(text: string, keywords: string[]): boolean {
+  return keywords.some(keyword => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    return new RegExp(`(^|[^A-Z0-9])${escaped}([^A-Z0-9]|$)`).test(text)
+  })
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+}
+
+/**
+ * Derive a readable title from a bank narration
+ * e.g. "UPI/DR/412345678901/SWIGGY/YESB/swiggy@ybl/Payment" => "Swiggy"
+ */
+export function suggestTitle(description: string): string {
+  const tokens = description
+    .split(/[\/|*:]+|\s-\s/)
+    .map(token => token.trim())
+    .filter(token =>
+      token.length >= 3 &&
+      !token.includes("@") &&
+      !/\d{4,}/.test(token) &&
+      !NARRATION_NOISE.has(token.toUpperCase()) &&
+      !/^[A-Z]{4}0?[A-Z0-9]{0,6}$/.test(token) // IFSC / bank codes
+    )
+
+  const title = tokens[0] ?? description
+  const cleaned = title.replace(/\s+/g, " ").slice(0, 60)
+
+  return cleaned
+    .toLowerCase()
+    .replace(/\b[a-z]/g, char => char.toUpperCase())
+}
+
+/**
+ * Suggest how to record a single statement row from keyword rules
+ * History from the user's own expenses takes precedence in stageStatementRows
+ */
+export function suggestFromNarration(
+  row: ParsedStatementRow,
+  accountType: StatementAccountType
+): Pick<StagedImportRow, "target" | "expenseType" | "category" | "paymentMethod" | "incomeCategory"> {
+  const text = row.description.toUpperCase()
+
+  const categoryRule = IMPORT_CATEGORY_KEYWORDS.find(rule => matchesKeyword(text, rule.keywords))
+  const paymentRule = IMPORT_PAYMENT_METHOD_KEYWORDS.find(rule => matchesKeyword(text, rule.keywords))
+  const incomeRule = IMPORT_INCOME_CATEGORY_KEYWORDS.find(rule => matchesKeyword(text, rule.keywords))
+
+  const skip = row.direction === "DEBIT"
+    ? accountType === "BANK" && matchesKeyword(text, IMPORT_SKIP_DEBIT_KEYWORDS)
+    : matchesKeyword(text, IMPORT_SKIP_CREDIT_KEYWORDS)
+
+  return {
+    target: skip ? "SKIP" : row.direction === "DEBIT" ? "EXPENSE" : "INCOME",
+    expenseType: categoryRule?.expenseType ?? "UNEXPECTED",
+    category: categoryRule?.category ?? "NEEDS",
+    paymentMethod: accountType === "CREDIT_CARD" ? "CARD" : paymentRule?.paymentMethod ?? "NET_BANKING",
+    incomeCategory: incomeRule?.category ?? "OTHER",
+  }
+}
+
+/**
+ * Stage parsed statement rows for review
+ * - Flags rows that already exist as an Expense (debits) or Income (credits) on the same day,
+ *   for the same amount and with a matching title
+ * - Suggests type, category and payment method from the user's previous expenses with the
+ *   same title, falling back to narration keywords
+ * - Applies the user's expense rules on top of the suggestions for debits
+ * - Marks rows that fall in a closed month
+ */
+export async function stageStatementRows(
+  userId: string,
+  rows: ParsedStatementRow[],
+  options: { accountType: StatementAccountType; creditCardId?: string | null }
+): Promise<StagedImportRow[]> {
+  if (rows.length === 0) return []
+
+  const times = rows.map(row => new Date(row.date).getTime())
+  const rangeStart = new Date(Math.min(...times) - DAY_MS)
+  const rangeEnd = new Date(Math.max(...times) + 2 * DAY_MS)
+
+  const [expenses, incomes, history, closedSnapshots, rules] = await Promise.all([
+    prisma.expense.findMany({
+      where: { userId, date: { gte: rangeStart, lt: rangeEnd } },
+      select: { id: true, title: true, date: true, amount: true },
+    }),
+    prisma.income.findMany({
+      where: { userId, date: { gte: rangeStart, lt: rangeEnd } },
+      select: { id: true, title: true, date: true, amount: true },
+    }),
+    prisma.expense.findMany({
+      where: { userId },
+      select: { title: true, expenseType: true, category: true, paymentMethod: true },
+      orderBy: { date: "desc" },
+      take: 1000,
+    }),
+    prisma.monthlySnapshot.findMany({
+      where: { userId, isClosed: true },
+      select: { year: true, month: true },
+    }),
+    getActiveExpenseRules(userId),
+  ])
+
+  // Latest classification used for each title
+  const historyByTitle = new Map<string, { expenseType: Expense["expenseType"]; category: Expense["category"]; paymentMethod: Expense["paymentMethod"] }>()
+  for (const expense of history) {
+    const key = normalise(expense.title)
+    if (key && !historyByTitle.has(key)) {
+      historyByTitle.set(key, {
+        expenseType: expense.expenseType,
+        category: expense.category,
+        paymentMethod: expense.paymentMethod,
+      })
+    }
+  }
+
+  const closedMonths = new Set(closedSnapshots.map(snapshot => `${snapshot.year}-${snapshot.month}`))
+
+  const findDuplicate = (
+    row: ParsedStatementRow,
+    title: string,
+    existing: { id: string; title: string; date: Date; amount: unknown }[]
+  ): ImportDuplicate | null => {
+    const dayKey = toDayKey(new Date(row.date))
+    const narration = normalise(row.description)
+    const titleKey = normalise(title)
+
+    const match = existing.find(item => {
+      if (toDayKey(item.date) !== dayKey) return false
+      if (Math.abs(Number(item.amount) - row.amount) >= 0.01) return false
+      const itemTitle = normalise(item.title)
+      return !!itemTitle && (
+        itemTitle === titleKey ||
+        narration.includes(itemTitle) ||
+        (titleKey.length >= 3 && itemTitle.includes(titleKey))
+      )
+    })
+
+    return match
+      ? { id: match.id, title: match.title, date: match.date.toISOString(), amount: Number(match.amount) }
+      : null
+  }
+
+  return rows.map(row => {
+    const date = new Date(row.date)
+    const title = suggestTitle(row.description)
+    const suggestion = suggestFromNarration(row, options.accountType)
+    const previous = historyByTitle.get(normalise(title))
+
+    const duplicateOf = findDuplicate(row, title, row.direction === "DEBIT" ? expenses : incomes)
+    const monthClosed = closedMonths.has(`${date.getFullYear()}-${date.getMonth() + 1}`)
+    const paymentMethod = options.accountType === "CREDIT_CARD"
+      ? "CARD"
+      : previous?.paymentMethod === "CARD" ? suggestion.paymentMethod : previous?.paymentMethod ?? suggestion.paymentMethod
+
+    const creditCardId = paymentMethod === "CARD" ? options.creditCardId ?? null : null
+    const categorised = applyExpenseRules(rules, {
+      title,
+      description: row.description,
+      amount: row.amount,
+      paymentMethod,
+      creditCardId,
+      expenseType: previous?.expenseType ?? suggestion.expenseType,
+      category: previous?.category === "PARTIAL_NEEDS" ? suggestion.category : previous?.category ?? suggestion.category,
+      tags: [],
+    })
+
+    return {
+      ...row,
+      ...suggestion,
+      expenseType: categorised.expenseType,
+      category: categorised.category,
+      paymentMethod,
+      title,
+      creditCardId,
+      tags: row.direction === "DEBIT" ? categorised.tags : [],
+      target: duplicateOf || monthClosed ? "SKIP" : suggestion.target,
+      duplicateOf,
+      monthClosed,
+    }
+  })
+}
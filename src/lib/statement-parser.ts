@@ -0,0 +1,277 @@
+/**
+ * Bank Statement Parser
+ * Parses bank and credit card statement exports (CSV, including Excel
+ * exports saved as CSV, and OFX/QFX) into normalised debit/credit rows
+ */
+
+import { BANK_STATEMENT_MAPPINGS, GENERIC_STATEMENT_MAPPING } from "@/constants/statement-import"
+import type { BankName } from "@/constants/banks"
+import type {
+  ParsedStatementRow,
+  StatementColumnMapping,
+  StatementDateOrder,
+  StatementFormat,
+} from "@/types"
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+
+/**
+ * Get the column mapping for a bank, falling back to the generic mapping
+ */
+export function getStatementMapping(bank: string | null): StatementColumnMapping {
+  return (bank && BANK_STATEMENT_MAPPINGS[bank as BankName]) || GENERIC_STATEMENT_MAPPING
+}
+
+/**
+ * Detect the file format from its name and contents
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  if (/\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(content) || /^OFXHEADER:/m.test(content)) {
+    return "OFX"
+  }
+  return "CSV"
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted fields with embedded commas, quotes and newlines
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "")
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(cell.trim())
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(cell.trim())
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell.trim())
+    rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Parse a statement date in the given day/month/year order
+ * Accepts "/", "-", "." or space separators, month names ("01 Jan 2025") and two-digit years
+ */
+export function parseStatementDate(value: string, order: StatementDateOrder): Date | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  // OFX style compact dates: 20250131 or 20250131120000[+5.5:IST]
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (compact && !/[\/\-. ]/.test(trimmed.slice(0, 8))) {
+    return new Date(Number(compact[1]), Number(compact[2]) - 1, Number(compact[3]))
+  }
+
+  const parts = trimmed.split(/[\s,]+(?=\d{1,2}:)/)[0].split(/[\/\-.\s]+/).filter(Boolean)
+  if (parts.length < 3) return null
+
+  let [day, month, year] = ["", "", ""]
+  const hasMonthName = parts.some(part => /^[a-z]{3,}$/i.test(part))
+
+  if (order === "YMD" || /^\d{4}$/.test(parts[0])) {
+    [year, month, day] = parts
+  } else if (order === "MDY" && !hasMonthName) {
+    [month, day, year] = parts
+  } else if (hasMonthName && /^[a-z]/i.test(parts[0])) {
+    [month, day, year] = parts
+  } else {
+    [day, month, year] = parts
+  }
+
+  const monthIndex = /^\d+$/.test(month)
+    ? Number(month) - 1
+    : MONTH_NAMES.indexOf(month.slice(0, 3).toLowerCase())
+  let yearNumber = Number(year.slice(0, 4))
+  if (year.length === 2) yearNumber += 2000
+
+  const dayNumber = Number(day)
+  if (monthIndex < 0 || monthIndex > 11 || !dayNumber || dayNumber > 31 || !yearNumber) return null
+
+  const date = new Date(yearNumber, monthIndex, dayNumber)
+  return date.getMonth() === monthIndex ? date : null
+}
+
+/**
+ * Parse an amount such as "1,23,456.78", "(500.00)", "-500", "₹ 500 Cr" or "500 Dr"
+ * Returns a signed number (negative for brackets, minus or a Dr suffix) or null when empty
+ */
+export function parseStatementAmount(value: string): number | null {
+  const trimmed = value.trim()
+  if (!trimmed || trimmed === "-") return null
+
+  const isNegative = /^\(.*\)$/.test(trimmed) || /^-/.test(trimmed) || /\bdr\.?$/i.test(trimmed)
+  const numeric = trimmed.replace(/rs\.?|inr|₹/gi, "").replace(/[^0-9.]/g, "")
+  if (!numeric) return null
+
+  const amount = Number(numeric)
+  if (isNaN(amount)) return null
+
+  return isNegative ? -amount : amount
+}
+
+function findColumn(header: string[], aliases: string[] | undefined): number {
+  if (!aliases) return -1
+  const normalised = header.map(cell => cell.toLowerCase().replace(/\s+/g, " ").trim())
+  for (const alias of aliases) {
+    const index = normalised.indexOf(alias)
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+/**
+ * Parse a CSV statement using a column mapping
+ * Preamble lines (account details) before the header row and summary lines after the
+ * transactions are skipped; the header row is the first row containing the date and description columns
+ */
+export function parseStatementCsv(
+  content: string,
+  mapping: StatementColumnMapping
+): { rows: ParsedStatementRow[]; skippedLines: number } {
+  const lines = parseCsv(content)
+
+  const headerIndex = lines.findIndex(line =>
+    findColumn(line, mapping.date) !== -1 && findColumn(line, mapping.description) !== -1
+  )
+  if (headerIndex === -1) {
+    throw new Error("Could not find the header row. Check that the right bank is selected")
+  }
+
+  const header = lines[headerIndex]
+  const columns = {
+    date: findColumn(header, mapping.date),
+    description: findColumn(header, mapping.description),
+    debit: findColumn(header, mapping.debit),
+    credit: findColumn(header, mapping.credit),
+    amount: findColumn(header, mapping.amount),
+    direction: findColumn(header, mapping.direction),
+    reference: findColumn(header, mapping.reference),
+  }
+
+  if (columns.amount === -1 && columns.debit === -1 && columns.credit === -1) {
+    throw new Error("Could not find the amount columns in the statement")
+  }
+
+  const rows: ParsedStatementRow[] = []
+  let skippedLines = headerIndex
+
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    const date = parseStatementDate(line[columns.date] ?? "", mapping.dateOrder)
+    const description = (line[columns.description] ?? "").replace(/\s+/g, " ").trim()
+
+    let signedAmount: number | null = null
+    if (columns.debit !== -1 || columns.credit !== -1) {
+      const debit = columns.debit !== -1 ? parseStatementAmount(line[columns.debit] ?? "") : null
+      const credit = columns.credit !== -1 ? parseStatementAmount(line[columns.credit] ?? "") : null
+      if (debit) signedAmount = -Math.abs(debit)
+      else if (credit) signedAmount = Math.abs(credit)
+    }
+
+    if (signedAmount === null && columns.amount !== -1) {
+      const amount = parseStatementAmount(line[columns.amount] ?? "")
+      if (amount !== null) {
+        const indicator = columns.direction !== -1 ? (line[columns.direction] ?? "").trim().toUpperCase() : ""
+        if (indicator.startsWith("D")) {
+          signedAmount = -Math.abs(amount)
+        } else if (indicator.startsWith("C")) {
+          signedAmount = Math.abs(amount)
+        } else {
+          signedAmount = mapping.debitIsPositive ? -amount : amount
+        }
+      }
+    }
+
+    if (!date || !description || !signedAmount) {
+      skippedLines++
+      return
+    }
+
+    rows.push({
+      rowNumber: headerIndex + index + 2,
+      date: date.toISOString(),
+      description,
+      amount: Math.abs(signedAmount),
+      direction: signedAmount < 0 ? "DEBIT" : "CREDIT",
+      reference: columns.reference !== -1 ? line[columns.reference] || null : null,
+    })
+  })
+
+  return { rows, skippedLines }
+}
+
+/**
+ * Parse an OFX/QFX statement (SGML or XML flavour)
+ * Negative TRNAMT values are debits for both bank and credit card statements
+ */
+export function parseStatementOfx(content: string): { rows: ParsedStatementRow[]; skippedLines: number } {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? []
+
+  const readTag = (block: string, tag: string) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))
+    return match ? match[1].trim() : ""
+  }
+
+  const rows: ParsedStatementRow[] = []
+  let skippedLines = 0
+
+  blocks.forEach((block, index) => {
+    const date = parseStatementDate(readTag(block, "DTPOSTED"), "YMD")
+    const amount = parseStatementAmount(readTag(block, "TRNAMT"))
+    const name = readTag(block, "NAME")
+    const memo = readTag(block, "MEMO")
+    const description = [name, memo].filter(Boolean).join(" - ") || readTag(block, "TRNTYPE")
+
+    if (!date || !amount) {
+      skippedLines++
+      return
+    }
+
+    rows.push({
+      rowNumber: index + 1,
+      date: date.toISOString(),
+      description,
+      amount: Math.abs(amount),
+      direction: amount < 0 ? "DEBIT" : "CREDIT",
+      reference: readTag(block, "FITID") || readTag(block, "CHECKNUM") || null,
+    })
+  })
+
+  if (blocks.length === 0) {
+    throw new Error("No transactions found in the OFX file")
+  }
+
+  return { rows, skippedLines }
+}
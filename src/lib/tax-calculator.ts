@@ -0,0 +1,237 @@
+/**
+ * Indian Income Tax Calculator
+ * Computes slab-based tax under the old and new regimes, including
+ * standard deduction, Chapter VI-A deductions, HRA exemption,
+ * rebate u/s 87A, surcharge (with marginal relief) and cess
+ */
+
+import { DEDUCTION_LIMITS, TAX_CESS_RATE, TAX_RULES_BY_FY } from "@/constants/tax"
+import type {
+  RegimeComparison,
+  RegimeTaxResult,
+  TaxDeductionBreakdown,
+  TaxDeductionInput,
+  TaxRegime,
+  TaxRegimeRules,
+  TaxSlab,
+} from "@/types"
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Get the financial year (April-March) a date falls in
+ * Returns the starting year, e.g. 15-Jan-2026 => 2025 (FY 2025-26)
+ */
+export function getFinancialYear(date: Date): number {
+  return date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1
+}
+
+/**
+ * Get the date range of a financial year (end is exclusive)
+ */
+export function getFinancialYearRange(financialYear: number): { start: Date; end: Date } {
+  return {
+    start: new Date(financialYear, 3, 1),
+    end: new Date(financialYear + 1, 3, 1),
+  }
+}
+
+/**
+ * Format a financial year for display, e.g. 2025 => "FY 2025-26"
+ */
+export function formatFinancialYear(financialYear: number): string {
+  return `FY ${financialYear}-${String((financialYear + 1) % 100).padStart(2, "0")}`
+}
+
+/**
+ * Get slab rules for a financial year
+ * Falls back to the nearest known year when rules are not defined
+ */
+export function getRegimeRules(regime: TaxRegime, financialYear: number): TaxRegimeRules {
+  if (TAX_RULES_BY_FY[financialYear]) {
+    return TAX_RULES_BY_FY[financialYear][regime]
+  }
+
+  const knownYears = Object.keys(TAX_RULES_BY_FY).map(Number).sort((a, b) => a - b)
+  const fallbackYear = financialYear < knownYears[0]
+    ? knownYears[0]
+    : knownYears[knownYears.length - 1]
+
+  return TAX_RULES_BY_FY[fallbackYear][regime]
+}
+
+/**
+ * Calculate tax on taxable income using progressive slabs
+ */
+export function calculateSlabTax(taxableIncome: number, slabs: TaxSlab[]): number {
+  let tax = 0
+  let lowerBound = 0
+
+  for (const slab of slabs) {
+    if (taxableIncome <= lowerBound) break
+
+    const upperBound = slab.upTo ?? Infinity
+    const taxableInSlab = Math.min(taxableIncome, upperBound) - lowerBound
+    tax += (taxableInSlab * slab.rate) / 100
+    lowerBound = upperBound
+  }
+
+  return tax
+}
+
+/**
+ * Calculate HRA exemption u/s 10(13A)
+ * Least of: actual HRA received, rent paid minus 10% of basic,
+ * and 50% (metro) or 40% (non-metro) of basic
+ */
+export function calculateHraExemption(input: TaxDeductionInput): number {
+  const hraReceived = input.hraReceived ?? 0
+  const rentPaid = input.rentPaid ?? 0
+  const basicSalary = input.basicSalary ?? 0
+
+  if (hraReceived <= 0 || rentPaid <= 0 || basicSalary <= 0) {
+    return 0
+  }
+
+  const rentOverBasic = rentPaid - basicSalary * 0.1
+  const basicPortion = basicSalary * (input.isMetroCity ? 0.5 : 0.4)
+
+  return Math.max(0, Math.min(hraReceived, rentOverBasic, basicPortion))
+}
+
+/**
+ * Calculate deductions allowed under a regime
+ */
+export function calculateDeductions(
+  rules: TaxRegimeRules,
+  input: TaxDeductionInput
+): TaxDeductionBreakdown {
+  const breakdown: TaxDeductionBreakdown = {
+    standardDeduction: rules.standardDeduction,
+    section80C: 0,
+    section80D: 0,
+    section80CCD1B: 0,
+    hraExemption: 0,
+    otherDeductions: 0,
+    total: 0,
+  }
+
+  if (rules.allowsChapterVIA) {
+    breakdown.section80C = Math.min(input.section80C ?? 0, DEDUCTION_LIMITS.section80C)
+    breakdown.section80D = Math.min(input.section80D ?? 0, DEDUCTION_LIMITS.section80D)
+    breakdown.section80CCD1B = Math.min(input.section80CCD1B ?? 0, DEDUCTION_LIMITS.section80CCD1B)
+    breakdown.hraExemption = calculateHraExemption(input)
+    breakdown.otherDeductions = Math.max(0, input.otherDeductions ?? 0)
+  }
+
+  breakdown.total =
+    breakdown.standardDeduction +
+    breakdown.section80C +
+    breakdown.section80D +
+    breakdown.section80CCD1B +
+    breakdown.hraExemption +
+    breakdown.otherDeductions
+
+  return breakdown
+}
+
+/**
+ * Calculate surcharge with marginal relief
+ * Tax + surcharge above a threshold cannot exceed the liability at the
+ * threshold plus the income earned above it
+ */
+function calculateSurcharge(taxableIncome: number, taxAfterRebate: number, rules: TaxRegimeRules): number {
+  const applicableBands = rules.surcharge.filter(band => taxableIncome > band.above)
+  if (applicableBands.length === 0) return 0
+
+  const band = applicableBands[applicableBands.length - 1]
+  const previousRate = applicableBands.length > 1 ? applicableBands[applicableBands.length - 2].rate : 0
+
+  const surcharge = (taxAfterRebate * band.rate) / 100
+
+  const taxAtThreshold = calculateSlabTax(band.above, rules.slabs)
+  const liabilityAtThreshold = taxAtThreshold * (1 + previousRate / 100)
+  const maxLiability = liabilityAtThreshold + (taxableIncome - band.above)
+
+  return Math.max(0, Math.min(surcharge, maxLiability - taxAfterRebate))
+}
+
+/**
+ * Calculate annual tax for a regime
+ */
+export function calculateRegimeTax(
+  grossIncome: number,
+  regime: TaxRegime,
+  financialYear: number,
+  input: TaxDeductionInput = {}
+): RegimeTaxResult {
+  const rules = getRegimeRules(regime, financialYear)
+  const deductions = calculateDeductions(rules, input)
+  const taxableIncome = Math.max(0, grossIncome - deductions.total)
+
+  const slabTax = calculateSlabTax(taxableIncome, rules.slabs)
+
+  // Rebate u/s 87A
+  let rebate = 0
+  if (taxableIncome <= rules.rebateIncomeLimit) {
+    rebate = Math.min(slabTax, rules.maxRebate)
+  } else if (rules.rebateMarginalRelief) {
+    // Tax payable cannot exceed the income earned above the rebate limit
+    const excessIncome = taxableIncome - rules.rebateIncomeLimit
+    rebate = Math.max(0, slabTax - excessIncome)
+  }
+
+  const taxAfterRebate = slabTax - rebate
+  const surcharge = calculateSurcharge(taxableIncome, taxAfterRebate, rules)
+  const cess = ((taxAfterRebate + surcharge) * TAX_CESS_RATE) / 100
+  const totalTax = taxAfterRebate + surcharge + cess
+
+  return {
+    regime,
+    financialYear,
+    grossIncome: round(grossIncome),
+    deductions: {
+      standardDeduction: round(deductions.standardDeduction),
+      section80C: round(deductions.section80C),
+      section80D: round(deductions.section80D),
+      section80CCD1B: round(deductions.section80CCD1B),
+      hraExemption: round(deductions.hraExemption),
+      otherDeductions: round(deductions.otherDeductions),
+      total: round(deductions.total),
+    },
+    taxableIncome: round(taxableIncome),
+    slabTax: round(slabTax),
+    rebate: round(rebate),
+    surcharge: round(surcharge),
+    cess: round(cess),
+    totalTax: round(totalTax),
+    monthlyTax: round(totalTax / 12),
+    effectiveRate: grossIncome > 0 ? round((totalTax / grossIncome) * 100) : 0,
+  }
+}
+
+/**
+ * Compare the old and new regimes and recommend the cheaper one
+ * Ties favour the new regime since it is the default
+ */
+export function compareRegimes(
+  grossIncome: number,
+  financialYear: number,
+  input: TaxDeductionInput = {}
+): RegimeComparison {
+  const oldRegime = calculateRegimeTax(grossIncome, "OLD", financialYear, input)
+  const newRegime = calculateRegimeTax(grossIncome, "NEW", financialYear, input)
+
+  const recommended: TaxRegime = oldRegime.totalTax < newRegime.totalTax ? "OLD" : "NEW"
+
+  return {
+    financialYear,
+    grossIncome: round(grossIncome),
+    old: oldRegime,
+    new: newRegime,
+    recommended,
+    savings: round(Math.abs(oldRegime.totalTax - newRegime.totalTax)),
+  }
+}
@@ -0,0 +1,157 @@
+import { prisma } from "@/lib/prisma"
+import {
+  calculateRegimeTax,
+  compareRegimes,
+  getFinancialYear,
+  getFinancialYearRange,
+} from "@/lib/tax-calculator"
+import type { RegimeComparison, TaxDeductionInput } from "@/types"
+
+type TaxSettingRecord = NonNullable<Awaited<ReturnType<typeof prisma.taxSetting.findFirst>>>
+
+/**
+ * Get the latest tax setting for a user
+ */
+export async function getTaxSetting(userId: string) {
+  return prisma.taxSetting.findFirst({
+    where: { userId },
+    orderBy: { updatedAt: "desc" },
+  })
+}
+
+/**
+ * Convert stored tax setting deductions to calculator input
+ */
+export function getDeductionInput(taxSetting: TaxSettingRecord | null): TaxDeductionInput {
+  if (!taxSetting) return {}
+
+  return {
+    section80C: taxSetting.section80C ? Number(taxSetting.section80C) : 0,
+    section80D: taxSetting.section80D ? Number(taxSetting.section80D) : 0,
+    section80CCD1B: taxSetting.section80CCD1B ? Number(taxSetting.section80CCD1B) : 0,
+    hraReceived: taxSetting.hraReceived ? Number(taxSetting.hraReceived) : 0,
+    rentPaid: taxSetting.rentPaid ? Number(taxSetting.rentPaid) : 0,
+    basicSalary: taxSetting.basicSalary ? Number(taxSetting.basicSalary) : 0,
+    isMetroCity: taxSetting.isMetroCity,
+    otherDeductions: taxSetting.otherDeductions ? Number(taxSetting.otherDeductions) : 0,
+  }
+}
+
+/**
+ * Calculate gross income for a financial year from salary history and income entries
+ * Months without a salary record after the latest revision are projected at the latest salary
+ */
+export async function getFinancialYearIncome(userId: string, financialYear: number) {
+  const { start, end } = getFinancialYearRange(financialYear)
+
+  const [salaries, incomes] = await Promise.all([
+    prisma.salaryHistory.findMany({
+      where: {
+        userId,
+        effectiveFrom: { lt: end },
+        OR: [
+          { effectiveTo: null },
+          { effectiveTo: { gte: start } },
+        ],
+      },
+      orderBy: { effectiveFrom: "desc" },
+    }),
+    prisma.income.findMany({
+      where: {
+        userId,
+        date: { gte: start, lt: end },
+      },
+    }),
+  ])
+
+  let salaryIncome = 0
+  for (let i = 0; i < 12; i++) {
+    const monthStart = new Date(financialYear, 3 + i, 1)
+    const monthEnd = new Date(financialYear, 4 + i, 0, 23, 59, 59, 999)
+
+    // Same rule as the dashboard: latest salary effective at any point during the month
+    const salary = salaries.find(s =>
+      s.effectiveFrom <= monthEnd && (!s.effectiveTo || s.effectiveTo >= monthStart)
+    )
+    salaryIncome += salary ? Number(salary.monthly) : 0
+  }
+
+  const otherIncome = incomes.reduce((sum, income) => sum + Number(income.amount), 0)
+
+  return {
+    salaryIncome,
+    otherIncome,
+    grossIncome: salaryIncome + otherIncome,
+  }
+}
+
+/**
+ * Compare old and new regimes for a user's financial year
+ */
+export async function getRegimeComparison(userId: string, financialYear: number): Promise<RegimeComparison & {
+  salaryIncome: number
+  otherIncome: number
+}> {
+  const [taxSetting, income] = await Promise.all([
+    getTaxSetting(userId),
+    getFinancialYearIncome(userId, financialYear),
+  ])
+
+  const comparison = compareRegimes(income.grossIncome, financialYear, getDeductionInput(taxSetting))
+
+  return {
+    ...comparison,
+    salaryIncome: income.salaryIncome,
+    otherIncome: income.otherIncome,
+  }
+}
+
+/**
+ * Calculate the tax to deduct for a month
+ * - PERCENTAGE / FIXED / HYBRID apply flat rules to the month's income
+ * - REGIME spreads the annual slab tax of the chosen regime evenly over the financial year
+ * Month (1-12) and year default to the current month
+ */
+export async function getMonthlyTax(
+  userId: string,
+  income: number,
+  month: number = new Date().getMonth() + 1,
+  year: number = new Date().getFullYear()
+) {
+  const taxSetting = await getTaxSetting(userId)
+
+  let taxAmount = 0
+
+  if (taxSetting && income > 0) {
+    switch (taxSetting.mode) {
+      case "PERCENTAGE":
+        taxAmount = taxSetting.percentage ? (income * Number(taxSetting.percentage)) / 100 : 0
+        break
+      case "FIXED":
+        taxAmount = taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0
+        break
+      case "HYBRID": {
+        const percentAmount = taxSetting.percentage ? (income * Number(taxSetting.percentage)) / 100 : 0
+        const fixedAmount = taxSetting.fixedAmount ? Number(taxSetting.fixedAmount) : 0
+        taxAmount = percentAmount + fixedAmount
+        break
+      }
+      case "REGIME": {
+        const financialYear = getFinancialYear(new Date(year, month - 1, 1))
+        const { grossIncome } = await getFinancialYearIncome(userId, financialYear)
+        const result = calculateRegimeTax(
+          grossIncome,
+          taxSetting.regime,
+          financialYear,
+          getDeductionInput(taxSetting)
+        )
+        taxAmount = result.monthlyTax
+        break
+      }
+    }
+  }
+
+  const taxPercentage = income > 0 ? (taxAmount / income) * 100 : 0
+
+  return { taxAmount, taxPercentage, mode: taxSetting?.mode ?? null }
+}
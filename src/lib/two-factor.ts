@@ -0,0 +1,245 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+import QRCode from "qrcode"
+import { prisma } from "@/lib/prisma"
+import {
+  BACKUP_CODE_COUNT,
+  TOTP_DIGITS,
+  TOTP_PERIOD_SECONDS,
+  TOTP_WINDOW,
+  TWO_FACTOR_CHALLENGE_MINUTES,
+  TWO_FACTOR_ISSUER,
+  TWO_FACTOR_LOCK_MINUTES,
+  TWO_FACTOR_MAX_ATTEMPTS,
+} from "@/constants/two-factor"
+import type { TwoFactorSetup } from "@/types"
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error("Invalid base32 secret")
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/**
+ * HOTP value of a time step (RFC 4226 dynamic truncation)
+ */
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 15
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS
+  return code.toString().padStart(TOTP_DIGITS, "0")
+}
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b))
+
+/**
+ * Time step a TOTP code belongs to, within the drift window, or null when it matches none
+ */
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    if (safeEqual(generateTotp(secret, currentStep + offset), code)) return currentStep + offset
+  }
+  return null
+}
+
+export const hashToken = (value: string) => createHash("sha256").update(value).digest("hex")
+
+const normalizeBackupCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase()
+
+/**
+ * Recovery codes as shown to the user (xxxxx-xxxxx) and the hashes stored for them
+ */
+export function generateBackupCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex")
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+  return { codes, hashes: codes.map(code => hashToken(normalizeBackupCode(code))) }
+}
+
+/**
+ * Start enrolment: a new secret, kept pending until a code from the authenticator confirms it
+ */
+export async function createTwoFactorSetup(userId: string, email: string): Promise<TwoFactorSetup> {
+  const secret = base32Encode(randomBytes(20))
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorPendingSecret: secret },
+  })
+
+  const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 })
+
+  return { secret, otpauthUrl, qrCode }
+}
+
+/**
+ * Issue the sign-in challenge a user completes with their code after the password
+ * Only its hash is stored; a new challenge replaces the previous one
+ */
+export async function createSignInChallenge(userId: string): Promise<string> {
+  const challenge = randomBytes(32).toString("base64url")
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorChallenge: hashToken(challenge),
+      twoFactorChallengeExpiry: new Date(Date.now() + TWO_FACTOR_CHALLENGE_MINUTES * 60 * 1000),
+    },
+  })
+  return challenge
+}
+
+export type TwoFactorVerification = "VALID" | "INVALID" | "LOCKED"
+
+/**
+ * Verify a TOTP or recovery code, rate limited per user
+ * - After TWO_FACTOR_MAX_ATTEMPTS wrong codes in a row verification is locked for TWO_FACTOR_LOCK_MINUTES,
+ *   and the pending sign-in challenge is dropped
+ * - Each attempt is counted before the code is checked, in one conditional write, so parallel
+ *   submissions cannot get past the limit
+ * - A TOTP code is accepted once; a recovery code is used up
+ * - `secret` verifies against a pending enrolment secret instead, where recovery codes do not apply
+ */
+export async function verifyTwoFactorCode(
+  userId: string,
+  code: string,
+  options: { secret?: string } = {}
+): Promise<TwoFactorVerification> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorSecret: true,
+      twoFactorBackupCodes: true,
+      twoFactorLastStep: true,
+    },
+  })
+  if (!user) return "INVALID"
+
+  const lock = () => prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorFailedAttempts: 0,
+      twoFactorLockedUntil: new Date(Date.now() + TWO_FACTOR_LOCK_MINUTES * 60 * 1000),
+      twoFactorChallenge: null,
+      twoFactorChallengeExpiry: null,
+    },
+  })
+
+  const { count: attempt } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      twoFactorFailedAttempts: { lt: TWO_FACTOR_MAX_ATTEMPTS },
+      OR: [{ twoFactorLockedUntil: null }, { twoFactorLockedUntil: { lt: new Date() } }],
+    },
+    data: { twoFactorFailedAttempts: { increment: 1 } },
+  })
+  if (attempt === 0) {
+    // Attempts used up by a request that has not written the lock yet, or never did
+    const current = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { twoFactorLockedUntil: true } })
+    if (!current.twoFactorLockedUntil || current.twoFactorLockedUntil < new Date()) await lock()
+    return "LOCKED"
+  }
+
+  const secret = options.secret ?? user.twoFactorSecret
+  const input = code.trim()
+  let accepted = false
+
+  if (secret && /^\d+$/.test(input)) {
+    const step = verifyTotp(secret, input)
+    if (step !== null) {
+      // Only a step newer than the last accepted one, so a code seen once cannot be replayed
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }] },
+        data: { twoFactorLastStep: step },
+      })
+      accepted = count === 1
+    }
+  } else if (!options.secret) {
+    const hash = hashToken(normalizeBackupCode(input))
+    if (user.twoFactorBackupCodes.includes(hash)) {
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, twoFactorBackupCodes: { has: hash } },
+        data: { twoFactorBackupCodes: user.twoFactorBackupCodes.filter(item => item !== hash) },
+      })
+      accepted = count === 1
+    }
+  }
+
+  if (accepted) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorFailedAttempts: 0, twoFactorLockedUntil: null },
+    })
+    return "VALID"
+  }
+
+  const { twoFactorFailedAttempts } = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { twoFactorFailedAttempts: true },
+  })
+  if (twoFactorFailedAttempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+    await lock()
+    return "LOCKED"
+  }
+  return "INVALID"
+}
+
+/**
+ * Turn two-factor authentication off and clear everything enrolment stored
+ */
+export async function resetTwoFactor(userId: string) {
+  return prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorPendingSecret: null,
+      twoFactorBackupCodes: [],
+      twoFactorLastStep: null,
+      twoFactorFailedAttempts: 0,
+      twoFactorLockedUntil: null,
+      twoFactorChallenge: null,
+      twoFactorChallengeExpiry: null,
+    },
+  })
+}
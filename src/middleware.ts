@@ -18,6 +18,18 @@ export default withAuth(
       return NextResponse.redirect(new URL("/dashboard", req.url))
     }
 
+    // Users an admin requires 2FA of can only reach their profile until they enrol
+    if (token?.twoFactorSetupRequired) {
+      const { pathname } = req.nextUrl
+      if (pathname.startsWith("/profile") || pathname.startsWith("/api/profile")) {
+        return NextResponse.next()
+      }
+      if (pathname.startsWith("/api")) {
+        return NextResponse.json({ error: "Two-factor authentication must be set up first" }, { status: 403 })
+      }
+      return NextResponse.redirect(new URL("/profile?tab=security", req.url))
+    }
+
     // Check if accessing admin routes
     if (req.nextUrl.pathname.startsWith("/admin")) {
       if (!roles.includes(Role.SUPER_ADMIN)) {
@@ -26,7 +38,7 @@ export default withAuth(
     }
 
     // Check if super_admin without CUSTOMER role is trying to access customer routes
-    const customerRoutes = ["/dashboard", "/profile", "/income", "/tax", "/loans", "/investments", "/expenses", "/credit-cards", "/monthly-snapshot"]
+    const customerRoutes = ["/dashboard", "/profile", "/income", "/tax", "/loans", "/investments", "/expenses", "/credit-cards", "/monthly-snapshot", "/net-worth", "/goals", "/retirement"]
     const isCustomerRoute = customerRoutes.some(route => req.nextUrl.pathname.startsWith(route))
 
     if (isCustomerRoute && roles.includes(Role.SUPER_ADMIN) && !roles.includes(Role.CUSTOMER)) {
@@ -0,0 +1,39 @@
+// Audit log types
+export type AuditEntity =
+  | "EXPENSE"
+  | "INCOME"
+  | "LOAN"
+  | "EMI"
+  | "LOAN_EVENT"
+  | "HOLDING"
+  | "TRANSACTION"
+  | "SIP"
+  | "MEMBER"
+  | "MEMBER_TRANSACTION"
+  | "BORROWED_FUND"
+
+export type AuditAction = "CREATE" | "UPDATE" | "DELETE"
+
+export interface AuditLogEntry {
+  id: string
+  userId: string
+  userEmail?: string | null // Included in the admin audit list
+  actorId: string | null
+  actorEmail: string | null
+  actorIsAdmin: boolean
+  entity: AuditEntity
+  entityId: string
+  action: AuditAction
+  operation: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  changedFields: string[]
+  createdAt: string
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[]
+  total: number
+  page: number
+  pageSize: number
+}
@@ -0,0 +1,81 @@
+import type { InvestmentBucket } from "./investment"
+
+// Capital gains types
+export type CapitalGainTerm = "SHORT_TERM" | "LONG_TERM" | "VDA"
+
+// Schedule CG heads a lot can fall under
+export type CapitalGainHead =
+  | "EQUITY_STCG" // Sec 111A
+  | "EQUITY_LTCG" // Sec 112A
+  | "OTHER_LTCG" // Sec 112
+  | "SLAB_STCG" // Added to income, taxed at slab rates
+  | "VDA" // Sec 115BBH
+
+// Open purchase lot available for FIFO matching
+export interface OpenLot {
+  buyTransactionId: string | null
+  acquiredOn: Date
+  qty: number
+  price: number // Per unit in holding currency
+  inrRate: number | null
+}
+
+// Portion of an open lot consumed by a sale
+export interface MatchedLot extends OpenLot {
+  costOfAcquisition: number // INR
+  fmvJan2018: number | null // INR, grandfathered lots only
+  costForTax: number // INR
+  saleValue: number // INR
+  gain: number // INR
+  term: CapitalGainTerm
+  holdingDays: number
+}
+
+export interface CapitalGainLotRow {
+  id: string
+  sellTransactionId: string
+  buyTransactionId: string | null
+  bucket: InvestmentBucket
+  symbol: string
+  name: string
+  qty: number
+  acquiredOn: string
+  soldOn: string
+  costOfAcquisition: number
+  fmvJan2018: number | null
+  costForTax: number
+  saleValue: number
+  gain: number
+  term: CapitalGainTerm
+  head: CapitalGainHead
+  holdingDays: number
+}
+
+export interface CapitalGainHeadSummary {
+  head: CapitalGainHead
+  saleValue: number
+  costForTax: number
+  gain: number // Net gain (losses set off within the head, except VDA)
+  exemption: number
+  taxableGain: number
+  estimatedTax: number | null // null when taxed at slab rates
+}
+
+export interface CapitalGainBucketSummary {
+  bucket: InvestmentBucket
+  saleValue: number
+  costForTax: number
+  shortTermGain: number
+  longTermGain: number
+  vdaGain: number
+}
+
+export interface CapitalGainsReport {
+  financialYear: number
+  lots: CapitalGainLotRow[]
+  heads: CapitalGainHeadSummary[]
+  buckets: CapitalGainBucketSummary[]
+  totalGain: number
+  estimatedTax: number // Excludes slab-rate gains, includes cess
+  slabGain: number // To be added to income from other sources
+}
@@ -0,0 +1,85 @@
+// Credit card reward types
+export type CardRewardType = "POINTS" | "CASHBACK"
+
+export type CardMilestonePeriod = "CYCLE" | "YEAR"
+
+export interface CardRewardMultiplier {
+  id: string
+  category: string // Expense tag
+  multiplier: number
+  monthlyCap: number | null
+}
+
+export interface CardRewardMilestone {
+  id: string
+  period: CardMilestonePeriod
+  spendThreshold: number
+  bonusPoints: number
+  description: string | null
+}
+
+export interface CardRewardProgram {
+  id: string
+  creditCardId: string
+  rewardType: CardRewardType
+  spendUnit: number
+  pointsPerUnit: number
+  pointValue: number
+  monthlyCap: number | null
+  multipliers: CardRewardMultiplier[]
+  milestones: CardRewardMilestone[]
+}
+
+export interface CardRewardAccrual {
+  id: string
+  statementId: string
+  periodStart: string
+  periodEnd: string
+  isOpen: boolean // The cycle has not closed, so its points are still pending
+  spend: number
+  spendPoints: number
+  cappedPoints: number
+  milestonePoints: number
+  points: number
+  value: number
+}
+
+export interface CardRewardRedemption {
+  id: string
+  creditCardId: string
+  points: number
+  value: number
+  redeemedOn: string
+  notes: string | null
+  createdAt: string
+}
+
+// A card's reward balance: points of closed cycles less redemptions
+export interface CardRewardSummary {
+  creditCardId: string
+  cardName: string
+  bank: string
+  lastFourDigits: string
+  program: CardRewardProgram | null
+  earnedPoints: number
+  pendingPoints: number // Earned in the open cycle
+  redeemedPoints: number
+  availablePoints: number
+  availableValue: number
+  accruals: CardRewardAccrual[]
+  redemptions: CardRewardRedemption[]
+}
+
+// What one expense would earn on a card, allowing for caps and milestones already reached
+export interface CardRewardSuggestion {
+  creditCardId: string
+  cardName: string
+  bank: string
+  lastFourDigits: string
+  rewardType: CardRewardType
+  points: number
+  value: number // In the base currency
+  multiplier: number
+  milestoneReached: boolean // The expense crosses a milestone
+  capped: boolean // A cap cut what the expense would otherwise earn
+}
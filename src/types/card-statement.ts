@@ -0,0 +1,75 @@
+// Credit card statement types
+export type CardStatementStatus = "OPEN" | "BILLED" | "PARTIALLY_PAID" | "PAID" | "OVERDUE"
+
+export type CardUtilisationLevel = "OK" | "WARNING" | "CRITICAL"
+
+export interface CardPayment {
+  id: string
+  amount: number
+  paidOn: string
+  notes: string | null
+  createdAt: string
+}
+
+export interface CardStatement {
+  id: string
+  creditCardId: string
+  periodStart: string
+  periodEnd: string
+  dueDate: string
+  spend: number
+  previousBalance: number
+  interest: number
+  lateFee: number
+  totalDue: number
+  minimumDue: number
+  paidAmount: number
+  outstanding: number // totalDue - paidAmount
+  status: CardStatementStatus
+  paidAt: string | null
+  payments: CardPayment[]
+  creditCard?: {
+    cardName: string
+    bank: string
+    lastFourDigits: string
+  }
+}
+
+// How much of a card's limit is in use: unpaid billed amounts plus the open cycle's spend
+export interface CardUtilisation {
+  creditCardId: string
+  cardName: string
+  bank: string
+  lastFourDigits: string
+  cardLimit: number | null
+  outstanding: number
+  utilisationPercent: number | null // null when the card has no limit
+  level: CardUtilisationLevel
+}
+
+export interface ReconciledExpense {
+  id: string
+  title: string
+  date: string
+  amount: number
+}
+
+// Result of matching a cycle's CARD expenses against an imported statement file
+export interface CardReconciliation {
+  statementId: string
+  matched: { expense: ReconciledExpense; rowNumber: number; description: string }[]
+  missingFromStatement: ReconciledExpense[] // Recorded expenses with no charge on the statement
+  missingFromApp: { rowNumber: number; date: string; description: string; amount: number }[] // Charges not recorded as expenses
+  statementCharges: number // Total debits on the imported statement
+  recordedSpend: number // Total of the cycle's CARD expenses
+  difference: number // statementCharges - recordedSpend
+}
+
+export interface CardStatementRunResult {
+  users: number
+  cards: number
+  statements: number
+  rewardAccruals: number
+  failed: number
+  errors: string[]
+}
@@ -0,0 +1,79 @@
+// Mutual fund CAS (consolidated account statement from CAMS/KFintech) import types
+export type CasFormat = "TEXT" | "JSON"
+
+// Unit movements of a scheme; charges, TDS and dividend payouts do not change units and are not imported
+export type CasTransactionType =
+  | "PURCHASE"
+  | "SIP"
+  | "REDEMPTION"
+  | "SWITCH_IN"
+  | "SWITCH_OUT"
+  | "DIVIDEND_REINVESTMENT"
+
+export interface ParsedCasTransaction {
+  date: string // ISO date
+  description: string
+  type: CasTransactionType
+  amount: number // Always positive, INR
+  units: number // Always positive
+  nav: number
+}
+
+export interface ParsedCasScheme {
+  folio: string
+  amc: string | null
+  name: string
+  isin: string | null
+  amfiCode: string | null // AMFI scheme code when the statement carries it
+  closingUnits: number | null
+  transactions: ParsedCasTransaction[]
+}
+
+export interface ParsedCas {
+  format: CasFormat
+  periodFrom: string | null // ISO date
+  periodTo: string | null // ISO date
+  schemes: ParsedCasScheme[]
+  skippedLines: number // Lines that are not unit movements (charges, headers, totals)
+}
+
+// A CAS transaction that is already recorded as a holding transaction
+export interface CasDuplicate {
+  id: string
+  transactionType: string
+  date: string
+  qty: number
+  amount: number
+}
+
+export interface StagedCasTransaction extends ParsedCasTransaction {
+  id: string // "<scheme index>-<transaction index>", stable for the preview
+  selected: boolean
+  duplicateOf: CasDuplicate | null
+  monthClosed: boolean
+}
+
+// A scheme matched to a holding, ready for review before commit
+export interface StagedCasScheme extends Omit<ParsedCasScheme, "transactions"> {
+  symbol: string | null // mfapi scheme code; null when the ISIN could not be mapped
+  holdingId: string | null
+  holdingQty: number | null
+  // The holding was added without transactions, so the statement's history replaces its opening balance
+  replacesOpeningBalance: boolean
+  transactions: StagedCasTransaction[]
+}
+
+export interface CasImportPreview {
+  format: CasFormat
+  periodFrom: string | null
+  periodTo: string | null
+  schemes: StagedCasScheme[]
+  skippedLines: number
+}
+
+export interface CasImportResult {
+  purchases: number
+  redemptions: number
+  holdingsCreated: number
+  errors: string[]
+}
@@ -0,0 +1,14 @@
+// Converts amounts in any currency to a user's base currency
+export interface CurrencyConverter {
+  baseCurrency: string
+  // Amount in the base currency at the rate on the date (today when omitted)
+  // A recorded INR rate (INR per unit) is used instead when the base currency is INR
+  convert(amount: number, currency: string, date?: Date, inrRate?: number | null): number
+}
+
+export interface ExchangeRateRunResult {
+  currencies: number
+  recorded: number
+  failed: number
+  errors: string[]
+}
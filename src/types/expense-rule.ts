@@ -0,0 +1,60 @@
+import type { Expense } from "./finance"
+
+// Expense auto-categorisation rule types
+export interface ExpenseRule {
+  id: string
+  name: string
+  priority: number
+  isActive: boolean
+  pattern: string | null
+  minAmount: number | null
+  maxAmount: number | null
+  paymentMethod: Expense["paymentMethod"] | null
+  creditCardId: string | null
+  creditCard?: {
+    cardName: string
+    lastFourDigits: string
+  } | null
+  expenseType: Expense["expenseType"] | null
+  category: Expense["category"] | null
+  tags: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+// Fields of an expense that rules are evaluated against
+export interface ExpenseRuleInput {
+  title: string
+  description?: string | null
+  amount: number
+  paymentMethod: Expense["paymentMethod"]
+  creditCardId?: string | null
+  expenseType: Expense["expenseType"]
+  category: Expense["category"]
+  tags: string[]
+}
+
+export interface ExpenseRuleOutcome {
+  expenseType: Expense["expenseType"]
+  category: Expense["category"]
+  tags: string[]
+  matchedRuleIds: string[]
+}
+
+export interface ExpenseRuleChange {
+  expenseId: string
+  date: string
+  title: string
+  amount: number
+  before: Pick<ExpenseRuleOutcome, "expenseType" | "category" | "tags">
+  after: Pick<ExpenseRuleOutcome, "expenseType" | "category" | "tags">
+  ruleNames: string[]
+  monthClosed: boolean // Changes in closed months are reported but never applied
+}
+
+export interface ExpenseRuleApplyResult {
+  dryRun: boolean
+  scanned: number
+  updated: number
+  changes: ExpenseRuleChange[]
+}
@@ -15,6 +15,7 @@ export interface Expense {
   expenseType: "EXPECTED" | "UNEXPECTED"
   category: "NEEDS" | "PARTIAL_NEEDS" | "AVOID"
   amount: number
+  currency: string
   needsPortion?: number
   avoidPortion?: number
   paymentMethod: "CASH" | "CARD" | "UPI" | "NET_BANKING" | "OTHER"
@@ -33,6 +34,7 @@ export interface Expense {
 }
 
 export interface ExpenseSummary {
+  currency: string // Base currency the totals are in
   totalExpenses: number
   needsTotal: number
   avoidTotal: number
@@ -55,6 +57,7 @@ export interface Income {
   title: string
   description?: string
   amount: number
+  currency: string
   category: string
   isRecurring: boolean
   createdAt: string
@@ -109,6 +112,7 @@ export interface Loan {
   accountHolderName: string
   principalAmount: number
   emiAmount: number
+  currency: string
   emiFrequency: "MONTHLY" | "QUARTERLY" | "HALF_YEARLY" | "ANNUALLY" | "CUSTOM"
   customPaymentDay?: number
   paymentSchedule?: PaymentSchedule
@@ -0,0 +1,58 @@
+// Financial goal types
+export type GoalCategory = "HOUSE" | "EDUCATION" | "RETIREMENT" | "VEHICLE" | "WEDDING" | "TRAVEL" | "OTHER"
+
+export type GoalPriority = "HIGH" | "MEDIUM" | "LOW"
+
+export type GoalStatus = "ACHIEVED" | "ON_TRACK" | "AT_RISK" | "OFF_TRACK"
+
+export type GoalEarmarkType = "HOLDING" | "SIP" | "EMERGENCY_FUND"
+
+export interface GoalEarmark {
+  id: string
+  type: GoalEarmarkType
+  holdingId: string | null
+  sipId: string | null
+  label: string
+  percent: number
+  currentValue: number // Share of the holding or emergency fund's value, in the base currency
+  monthlyContribution: number // Share of the SIP's monthly amount, in the base currency
+}
+
+export interface GoalProgress {
+  monthsLeft: number
+  inflatedTarget: number // Target amount grown by inflation to the target date
+  currentValue: number
+  monthlyContribution: number
+  projectedValue: number // Earmarked value and SIPs grown at the expected return to the target date
+  progressPercent: number // Current value against the inflated target
+  requiredMonthlySip: number // Monthly investment needed on top of the current value to reach the target
+  additionalMonthlySip: number // Required SIP beyond what is already earmarked
+  shortfall: number // Inflated target less the projected value, when short
+  probability: number // Percent of simulated market paths that reach the target
+  volatility: number // Annual percent assumed for the simulation, from the earmarked buckets
+  status: GoalStatus
+}
+
+export interface Goal {
+  id: string
+  name: string
+  category: GoalCategory
+  targetAmount: number
+  targetDate: string
+  inflationRate: number
+  expectedReturn: number
+  priority: GoalPriority
+  notes: string | null
+  isActive: boolean
+  earmarks: GoalEarmark[]
+  progress: GoalProgress
+}
+
+// Something that can be earmarked, with how much of it other goals already use
+export interface GoalEarmarkOption {
+  type: GoalEarmarkType
+  id: string // Holding or SIP id, or "EMERGENCY_FUND"
+  label: string
+  value: number // Current value, or the monthly amount for SIPs, in the base currency
+  earmarkedPercent: number // Already earmarked to other goals
+}
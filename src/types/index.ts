@@ -1,7 +1,26 @@
 // Re-export all types for easy importing
+export * from "./audit"
+export * from "./capital-gains"
+export * from "./card-reward"
+export * from "./card-statement"
+export * from "./cas-import"
 export * from "./common"
+export * from "./currency"
+export * from "./expense-rule"
 export * from "./finance"
+export * from "./goal"
 export * from "./investment"
+export * from "./loan-schedule"
+export * from "./market-data"
+export * from "./monthly-snapshot"
 export * from "./navigation"
+export * from "./net-worth"
+export * from "./portfolio-returns"
+export * from "./price-history"
+export * from "./rebalancing"
+export * from "./recurring"
+export * from "./retirement"
 export * from "./search"
+export * from "./statement-import"
+export * from "./tax"
 export * from "./user"
@@ -12,11 +12,29 @@ export type TransactionType =
   | "SIP_EXECUTION"
   | "MANUAL_ENTRY"
   | "MANUAL_EDIT"
+  | "SELL"
 
 export type ExecutionStatus = "SUCCESS" | "FAILED" | "PENDING"
 
+export type SIPRunTrigger = "CRON" | "MANUAL"
+
+export type SIPRunStatus = "RUNNING" | "COMPLETED" | "FAILED"
+
 export type SIPFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "QUARTERLY" | "HALF_YEARLY" | "YEARLY" | "CUSTOM"
 
+export type SIPStepUpType = "PERCENT" | "AMOUNT"
+
+export type SIPInstalmentStatus = "SCHEDULED" | "PAUSED" | "SKIPPED"
+
+// Step-up, pauses and skips applied on top of a SIP's frequency
+export interface SIPScheduleAdjustments {
+  customDay?: number | null
+  stepUpType?: SIPStepUpType | null
+  stepUpValue?: number | null
+  pauses?: { startDate: Date; endDate: Date }[]
+  skips?: Date[]
+}
+
 // Transaction interface
 export interface Transaction {
   id: string
@@ -33,7 +51,9 @@ export interface Transaction {
   transactionType: TransactionType
   purchaseDate: string
   description?: string | null
-  usdInrRate?: number | null
+  inrRate?: number | null
+  costBasis?: number | null
+  realizedGain?: number | null
   createdAt: string
   updatedAt: string
 }
@@ -52,11 +72,38 @@ export interface SIPExecution {
   price?: number | null
   status: ExecutionStatus
   errorMessage?: string | null
-  usdInrRate?: number | null
+  inrRate?: number | null
+  dueDate?: string | null
+  attempts: number
+  lastAttemptAt?: string | null
+  nextRetryAt?: string | null
   createdAt: string
   updatedAt: string
 }
 
+// Totals of one SIP execution engine run
+export interface SIPExecutionRunResult {
+  runId: string
+  sips: number
+  executed: number
+  retried: number
+  skipped: number
+  failed: number
+  errors: string[]
+}
+
+// A run as listed to a user: counts cover only the user's own executions
+export interface SIPExecutionRun {
+  id: string
+  trigger: SIPRunTrigger
+  status: SIPRunStatus
+  startedAt: string
+  finishedAt: string | null
+  succeeded: number
+  failed: number
+  pending: number
+}
+
 // SIP types
 export interface SIP {
   id: string
@@ -72,10 +119,43 @@ export interface SIP {
   symbol?: string | null
   currency: string
   amountInINR: boolean
+  stepUpType?: SIPStepUpType | null
+  stepUpValue?: number | null
+  pauses?: SIPPause[]
+  skips?: SIPSkip[]
   createdAt: string
   updatedAt: string
 }
 
+export interface SIPPause {
+  id: string
+  startDate: string
+  endDate: string
+  reason?: string | null
+}
+
+export interface SIPSkip {
+  id: string
+  date: string
+  reason?: string | null
+}
+
+// A projected SIP instalment; amounts are in the base currency
+export interface SIPInstalment {
+  sipId: string
+  sipName: string
+  date: string
+  amount: number
+  status: SIPInstalmentStatus
+}
+
+export interface SIPCalendarMonth {
+  year: number
+  month: number // 1-12
+  total: number // Scheduled instalments only
+  instalments: SIPInstalment[]
+}
+
 // Holding types
 export interface Holding {
   id: string
@@ -86,8 +166,9 @@ export interface Holding {
   avgCost: number
   currentPrice: number | null
   currency: string
-  usdInrRate?: number | null
+  inrRate?: number | null
   isManual: boolean
+  fmvJan2018?: number | null
   createdAt: string
   updatedAt: string
 }
@@ -0,0 +1,54 @@
+// Loan amortization schedule types
+
+export type LoanEventType = "PREPAYMENT" | "RATE_CHANGE" | "TENURE_CHANGE" | "EMI_CHANGE"
+
+export type LoanAdjustmentStrategy = "REDUCE_EMI" | "REDUCE_TENURE"
+
+export interface LoanEvent {
+  id: string
+  type: LoanEventType
+  effectiveDate: string
+  amount?: number | null
+  interestRate?: number | null
+  tenure?: number | null
+  emiAmount?: number | null
+  paymentMethod?: "CASH" | "CARD" | "UPI" | "NET_BANKING" | "OTHER" | null
+  strategy: LoanAdjustmentStrategy
+  notes?: string | null
+}
+
+export interface AmortizationRow {
+  installment: number
+  dueDate: string
+  interestRate: number
+  openingBalance: number
+  prepayment: number
+  payment: number
+  principal: number
+  interest: number
+  closingBalance: number
+  isPaid: boolean
+}
+
+export interface AmortizationSummary {
+  installments: number
+  remainingInstallments: number
+  nextEmi: number | null
+  endDate: string | null
+  totalInterest: number
+  totalPrepaid: number
+  totalPayment: number
+  outstanding: number
+}
+
+export interface AmortizationSchedule extends AmortizationSummary {
+  rows: AmortizationRow[]
+}
+
+export interface LoanSimulationResult {
+  baseline: AmortizationSummary
+  simulated: AmortizationSummary
+  interestSaved: number
+  installmentsSaved: number
+  rows: AmortizationRow[]
+}
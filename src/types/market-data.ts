@@ -0,0 +1,28 @@
+import type { InvestmentBucket } from "./investment"
+import type { PricePoint } from "./price-history"
+import type { SearchResult } from "./search"
+
+// A price together with the provider that supplied it
+export interface PriceQuote extends PricePoint {
+  source: string
+}
+
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN"
+
+// File read by the offline market data provider (MARKET_DATA_OFFLINE_FILE)
+export interface OfflineMarketData {
+  prices?: {
+    symbol: string
+    bucket: InvestmentBucket
+    currency?: string // Defaults to INR
+    date: string // yyyy-mm-dd
+    price: number
+  }[]
+  search?: (SearchResult & { bucket: InvestmentBucket })[]
+  exchangeRates?: {
+    from: string
+    to: string
+    rate: number
+    date?: string // yyyy-mm-dd; undated rates apply to every day
+  }[]
+}
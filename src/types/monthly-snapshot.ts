@@ -0,0 +1,34 @@
+// Monthly close types
+export type MonthCloseAction = "CLOSE" | "REOPEN" | "RECOMPUTE"
+
+export type MonthCloseTrigger = "MANUAL" | "CRON"
+
+// Detail fields (loan, member and borrowed fund lists) are compared by their number of entries
+export type SnapshotFieldKind = "amount" | "percent" | "count" | "flag" | "text" | "details"
+
+export interface SnapshotFieldChange {
+  field: string
+  kind: SnapshotFieldKind
+  stored: number | string | boolean | null
+  computed: number | string | boolean | null
+  difference: number | null // computed - stored, for amounts, percentages and counts
+}
+
+export interface MonthCloseEventEntry {
+  id: string
+  year: number
+  month: number
+  action: MonthCloseAction
+  trigger: MonthCloseTrigger
+  reason: string | null
+  changes: SnapshotFieldChange[] | null
+  createdAt: string
+}
+
+export interface MonthRecomputePreview {
+  month: number
+  year: number
+  isClosed: boolean
+  closedAt: string | null
+  changes: SnapshotFieldChange[]
+}
@@ -0,0 +1,53 @@
+// Net worth types
+export type ManualAssetType = "REAL_ESTATE" | "GOLD" | "EPF" | "PPF" | "FIXED_DEPOSIT" | "OTHER"
+
+export interface ManualAsset {
+  id: string
+  type: ManualAssetType
+  name: string
+  value: number
+  valuationDate: string
+  notes: string | null
+  isActive: boolean
+  createdAt: string
+}
+
+export interface NetWorthAssets {
+  holdings: number // Investment holdings excluding emergency fund
+  emergencyFund: number
+  manualAssets: number
+  moneyLent: number // Positive member balances
+}
+
+export interface NetWorthLiabilities {
+  loans: number
+  borrowedFunds: number
+  creditCardDues: number
+  moneyOwed: number // Negative member balances
+}
+
+export interface NetWorthBreakdown {
+  date: string
+  currency: string // Base currency the amounts are in
+  assets: NetWorthAssets
+  liabilities: NetWorthLiabilities
+  manualAssetsByType: Partial<Record<ManualAssetType, number>>
+  totalAssets: number
+  totalLiabilities: number
+  netWorth: number
+}
+
+// One point of the net worth history, flattened for charting
+export interface NetWorthPoint extends NetWorthAssets, NetWorthLiabilities {
+  date: string
+  totalAssets: number
+  totalLiabilities: number
+  netWorth: number
+}
+
+export interface NetWorthRunResult {
+  users: number
+  recorded: number
+  failed: number
+  errors: string[]
+}
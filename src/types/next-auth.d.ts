@@ -5,6 +5,8 @@ declare module "next-auth" {
   interface User {
     roles: Role[]
     isBlocked?: boolean
+    sessionId?: string
+    tokenVersion?: number
   }
 
   interface Session {
@@ -16,6 +18,7 @@ declare module "next-auth" {
       roles: Role[]
       isBlocked?: boolean
     }
+    sessionId?: string // Device session of this sign-in
   }
 }
 
@@ -23,5 +26,8 @@ declare module "next-auth/jwt" {
   interface JWT {
     roles: Role[]
     isBlocked?: boolean
+    twoFactorSetupRequired?: boolean
+    sessionId?: string
+    tokenVersion?: number
   }
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import type { InvestmentBucket } from "./investment"
+
+// Portfolio return types (amounts in the user's base currency, returns in percentage)
+export interface ReturnMetrics {
+  invested: number // Total purchases
+  withdrawn: number // Total sale proceeds
+  currentValue: number
+  gain: number // currentValue + withdrawn - invested
+  absoluteReturnPct: number | null
+  xirr: number | null // Annualised money-weighted return
+  twr: number | null // Cumulative time-weighted return
+  annualizedTwr: number | null // Only for histories of at least a year
+  since: string | null // Date of the first purchase
+}
+
+export interface HoldingReturns extends ReturnMetrics {
+  holdingId: string
+  bucket: InvestmentBucket
+  symbol: string
+  name: string
+}
+
+export interface BucketReturns extends ReturnMetrics {
+  bucket: InvestmentBucket
+}
+
+export interface SIPReturns extends ReturnMetrics {
+  sipId: string
+  name: string
+  bucket: InvestmentBucket | null
+  isActive: boolean
+}
+
+export interface PortfolioReturns {
+  asOf: string
+  portfolio: ReturnMetrics
+  buckets: BucketReturns[]
+  holdings: HoldingReturns[]
+  sips: SIPReturns[]
+}
+
+// One day of portfolio value, from stored daily prices
+export interface PortfolioValuePoint {
+  date: string
+  value: number
+  invested: number // Purchases minus sale proceeds up to the day
+}
@@ -0,0 +1,21 @@
+import type { InvestmentBucket } from "./investment"
+
+// An instrument whose daily prices are stored in PriceHistory
+export interface PriceInstrument {
+  symbol: string
+  bucket: InvestmentBucket
+  currency: string
+}
+
+export interface PricePoint {
+  date: Date // Trading day at midnight UTC
+  price: number
+}
+
+export interface PriceHistoryRunResult {
+  instruments: number
+  recorded: number
+  holdingsUpdated: number
+  failed: number
+  errors: string[]
+}
@@ -0,0 +1,47 @@
+import type { CapitalGainHead } from "./capital-gains"
+import type { InvestmentBucket } from "./investment"
+
+// Portfolio rebalancing types
+export type RebalanceMode = "BUY_ONLY" | "BUY_SELL"
+
+export interface TargetAllocation {
+  bucket: InvestmentBucket
+  targetPercent: number
+  tolerancePercent: number // Drift (percentage points) allowed either side
+}
+
+export interface BucketDrift {
+  bucket: InvestmentBucket
+  value: number // In the base currency
+  currentPercent: number
+  targetPercent: number
+  tolerancePercent: number
+  drift: number // Current less target, in percentage points
+  isOutOfBand: boolean
+}
+
+export interface RebalanceTrade {
+  action: "BUY" | "SELL"
+  bucket: InvestmentBucket
+  amount: number // In the base currency
+  // Holding the trade goes through; buys use the bucket's largest holding, null when the bucket has none
+  holdingId: string | null
+  symbol: string | null
+  name: string | null
+  // Sells only: estimated gain and tax on the lots sold first
+  estimatedGain: number | null
+  estimatedTax: number | null
+  taxHeads: CapitalGainHead[]
+}
+
+export interface RebalancePlan {
+  mode: RebalanceMode
+  newCash: number
+  totalValue: number // Value of the buckets with a target
+  drifts: BucketDrift[]
+  needsRebalance: boolean
+  trades: RebalanceTrade[]
+  totalBuy: number
+  totalSell: number
+  estimatedTax: number
+}
@@ -0,0 +1,51 @@
+import type { Expense } from "./finance"
+import type { SIPFrequency } from "./investment"
+
+// Recurring expense / income template types
+export type RecurringKind = "EXPENSE" | "INCOME"
+
+export interface RecurringAmountChange {
+  id: string
+  effectiveFrom: string
+  amount: number
+}
+
+export interface RecurringTemplate {
+  id: string
+  kind: RecurringKind
+  title: string
+  description: string | null
+  amount: number // Amount before the first amount change
+  currentAmount: number // Amount that applies to the next occurrence
+  currency: string
+  baseAmount?: number // currentAmount in the user's base currency, only in the list
+  baseCurrency?: string
+  frequency: SIPFrequency
+  customDay: number | null
+  startDate: string
+  endDate: string | null
+  isActive: boolean
+  pausedUntil: string | null
+  nextRunDate: string | null
+  expenseType: Expense["expenseType"] | null
+  category: Expense["category"] | null
+  paymentMethod: Expense["paymentMethod"] | null
+  creditCardId: string | null
+  creditCard?: {
+    cardName: string
+    lastFourDigits: string
+  } | null
+  tags: string[]
+  incomeCategory: string | null
+  amountChanges: RecurringAmountChange[]
+  createdAt: string
+}
+
+export interface RecurringRunResult {
+  templates: number
+  created: number
+  skippedClosedMonth: number
+  skippedPaused: number
+  failed: number
+  errors: string[]
+}
@@ -0,0 +1,67 @@
+import type { InvestmentBucket } from "./investment"
+
+// Retirement and FIRE (financial independence, retire early) projection types
+
+export interface RetirementBucketAssumption {
+  bucket: InvestmentBucket
+  expectedReturn: number // Annual percent
+  volatility: number // Annual percent
+}
+
+export interface RetirementAssumptions {
+  currentAge: number
+  retirementAge: number
+  lifeExpectancy: number
+  monthlySpend: number // In today's money, in the base currency
+  inflationRate: number // Annual percent
+  salaryGrowth: number // Annual percent; SIPs step up with the salary
+  withdrawalRate: number // Percent of the corpus withdrawn in the first year of retirement
+  buckets: RetirementBucketAssumption[]
+  seed: number
+}
+
+// What the projection starts from, in the base currency
+export interface RetirementInputs {
+  currentAge: number | null // From the profile's date of birth
+  monthlySalary: number
+  monthlySpend: number // Average spend over the recent monthly snapshots
+  spendMonths: number // Snapshots behind the average
+  buckets: {
+    bucket: InvestmentBucket
+    value: number
+    monthlySip: number
+  }[]
+}
+
+export interface RetirementPercentiles {
+  p10: number
+  p50: number
+  p90: number
+}
+
+// Corpus at an age across the simulated paths, in today's money
+export interface RetirementProjectionPoint extends RetirementPercentiles {
+  age: number
+  year: number
+}
+
+export interface WithdrawalRatePoint {
+  rate: number
+  successProbability: number // Percent of paths where the corpus lasts to the life expectancy
+}
+
+export interface RetirementSimulation {
+  paths: number
+  fireNumber: number // Corpus needed to cover the spend at the withdrawal rate, in today's money
+  fireAge: { // Age by which 10, 50 and 90 percent of paths reach FIRE; null when they don't before retiring
+    p10: number | null
+    p50: number | null
+    p90: number | null
+  }
+  fireProbability: number // Percent of paths reaching FIRE by the retirement age
+  corpusAtRetirement: RetirementPercentiles // In today's money
+  successProbability: number // At the chosen withdrawal rate
+  savingsRate: number // Percent of the salary going into SIPs today
+  projection: RetirementProjectionPoint[]
+  withdrawalRates: WithdrawalRatePoint[]
+}
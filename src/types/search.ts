@@ -7,6 +7,7 @@ export interface SearchResult {
   exchange?: string
   sector?: string
   amc?: string
+  marketCapRank?: number | null
 }
 
 // Bucket allocation information
@@ -0,0 +1,64 @@
+import type { Expense } from "./finance"
+
+// Bank / credit card statement import types
+export type StatementFormat = "CSV" | "OFX"
+
+export type StatementAccountType = "BANK" | "CREDIT_CARD"
+
+export type StatementDirection = "DEBIT" | "CREDIT"
+
+export type ImportTarget = "EXPENSE" | "INCOME" | "SKIP"
+
+// Order of day, month and year in a statement's date column
+export type StatementDateOrder = "DMY" | "MDY" | "YMD"
+
+// Column mapping for a bank's CSV export; each field lists accepted header names (case-insensitive)
+export interface StatementColumnMapping {
+  date: string[]
+  description: string[]
+  debit?: string[] // Separate withdrawal column
+  credit?: string[] // Separate deposit column
+  amount?: string[] // Single amount column
+  direction?: string[] // Dr/Cr indicator for a single amount column
+  reference?: string[]
+  dateOrder: StatementDateOrder
+  debitIsPositive?: boolean // Single signed amount column where charges are positive (card statements)
+}
+
+export interface ParsedStatementRow {
+  rowNumber: number
+  date: string // ISO date
+  description: string
+  amount: number // Always positive
+  direction: StatementDirection
+  reference: string | null
+}
+
+export interface ImportDuplicate {
+  id: string
+  title: string
+  date: string
+  amount: number
+}
+
+// A parsed row with suggestions, ready for review before commit
+export interface StagedImportRow extends ParsedStatementRow {
+  target: ImportTarget
+  title: string
+  expenseType: Expense["expenseType"]
+  category: Expense["category"]
+  paymentMethod: Expense["paymentMethod"]
+  creditCardId: string | null
+  incomeCategory: string
+  tags: string[] // Added by expense rules
+  duplicateOf: ImportDuplicate | null
+  monthClosed: boolean
+}
+
+export interface StatementPreview {
+  format: StatementFormat
+  bank: string | null
+  accountType: StatementAccountType
+  rows: StagedImportRow[]
+  skippedLines: number // Lines that could not be parsed (preamble, totals, blank rows)
+}
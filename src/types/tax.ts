@@ -0,0 +1,70 @@
+// Income tax regime types
+export type TaxRegime = "OLD" | "NEW"
+
+export type TaxMode = "PERCENTAGE" | "FIXED" | "HYBRID" | "REGIME"
+
+export interface TaxSlab {
+  upTo: number | null // Upper bound of the slab (null = no upper bound)
+  rate: number // Rate in percentage
+}
+
+export interface SurchargeBand {
+  above: number // Taxable income threshold
+  rate: number // Surcharge rate in percentage
+}
+
+export interface TaxRegimeRules {
+  slabs: TaxSlab[]
+  standardDeduction: number
+  rebateIncomeLimit: number // Rebate u/s 87A applies up to this taxable income
+  maxRebate: number
+  rebateMarginalRelief: boolean // Tax cannot exceed income above the rebate limit
+  surcharge: SurchargeBand[]
+  allowsChapterVIA: boolean // Whether 80C/80D/80CCD(1B)/HRA are allowed
+}
+
+// Deductions and exemptions claimed under the old regime
+export interface TaxDeductionInput {
+  section80C?: number
+  section80D?: number
+  section80CCD1B?: number
+  hraReceived?: number
+  rentPaid?: number
+  basicSalary?: number // Annual basic + DA, used for HRA exemption
+  isMetroCity?: boolean
+  otherDeductions?: number
+}
+
+export interface TaxDeductionBreakdown {
+  standardDeduction: number
+  section80C: number
+  section80D: number
+  section80CCD1B: number
+  hraExemption: number
+  otherDeductions: number
+  total: number
+}
+
+export interface RegimeTaxResult {
+  regime: TaxRegime
+  financialYear: number
+  grossIncome: number
+  deductions: TaxDeductionBreakdown
+  taxableIncome: number
+  slabTax: number
+  rebate: number
+  surcharge: number
+  cess: number
+  totalTax: number
+  monthlyTax: number
+  effectiveRate: number
+}
+
+export interface RegimeComparison {
+  financialYear: number
+  grossIncome: number
+  old: RegimeTaxResult
+  new: RegimeTaxResult
+  recommended: TaxRegime
+  savings: number
+}
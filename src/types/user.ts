@@ -28,3 +28,34 @@ export interface UserListItem {
   createdAt: Date
   recentlyAccessedAt?: Date | null
 }
+
+// Two-factor authentication types
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean // Required by an admin; it cannot be turned off
+  backupCodesRemaining: number
+  lockedUntil: string | null // Verification is locked after too many wrong codes
+}
+
+export interface TwoFactorSetup {
+  secret: string // Base32, for entering manually
+  otpauthUrl: string
+  qrCode: string // PNG data URL of the otpauth URL
+}
+
+// Signed-in device types
+export interface DeviceSessionEntry {
+  id: string
+  device: string // Browser and OS read from the user agent, e.g. "Chrome on Windows"
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string // First seen, at sign-in
+  lastSeenAt: string
+  current: boolean // The session making the request
+}
+
+// Identity documents, always returned masked
+export interface IdentityDocuments {
+  panNumber: string | null
+  aadharNumber: string | null
+}